@@ -0,0 +1,13 @@
+-- Migration: 012_add_scheduled_post_index
+-- Scheduled post publishing
+--
+-- Adds a partial index so the scheduled publish job can find due posts
+-- without scanning the whole posts table every minute
+
+-- UP
+CREATE INDEX IF NOT EXISTS idx_posts_scheduled_due
+ON posts(scheduled_at)
+WHERE status = 'scheduled';
+
+-- DOWN (for rollback)
+-- DROP INDEX IF EXISTS idx_posts_scheduled_due;
@@ -0,0 +1,36 @@
+-- Migration: 013_scope_menus_and_tags_to_organization
+-- Organization tenancy for menus and tags
+--
+-- Menu items were the last content table without organization_id, and tag
+-- slugs were globally unique, so two organizations could not both use a tag
+-- like "news". Tags become unique per organization instead.
+
+-- UP
+ALTER TABLE menu_items
+  ADD COLUMN IF NOT EXISTS organization_id INTEGER REFERENCES organizations(id) ON DELETE CASCADE;
+
+-- Backfill from the owning site, then the linked page, then the default org
+UPDATE menu_items mi
+SET organization_id = s.organization_id
+FROM sites s
+WHERE mi.site_id = s.id AND mi.organization_id IS NULL;
+
+UPDATE menu_items mi
+SET organization_id = p.organization_id
+FROM pages p
+WHERE mi.page_id = p.id AND mi.organization_id IS NULL;
+
+UPDATE menu_items SET organization_id = 1 WHERE organization_id IS NULL;
+
+ALTER TABLE menu_items ALTER COLUMN organization_id SET NOT NULL;
+
+CREATE INDEX IF NOT EXISTS idx_menu_items_organization ON menu_items(organization_id);
+
+ALTER TABLE tags DROP CONSTRAINT IF EXISTS tags_slug_key;
+CREATE UNIQUE INDEX IF NOT EXISTS idx_tags_org_slug ON tags(organization_id, slug);
+
+-- DOWN (for rollback)
+-- DROP INDEX IF EXISTS idx_tags_org_slug;
+-- ALTER TABLE tags ADD CONSTRAINT tags_slug_key UNIQUE (slug);
+-- DROP INDEX IF EXISTS idx_menu_items_organization;
+-- ALTER TABLE menu_items DROP COLUMN IF EXISTS organization_id;
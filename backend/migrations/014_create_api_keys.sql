@@ -0,0 +1,32 @@
+-- Migration: 014_create_api_keys
+-- Organization API keys for headless access
+--
+-- Keys belong to an organization rather than a user so static-site builds and
+-- other integrations don't need a real login. Only the SHA-256 hash of a key
+-- is stored; the plain key is shown once at creation. key_prefix is kept in
+-- clear text so admins can tell keys apart.
+
+-- UP
+CREATE TABLE IF NOT EXISTS api_keys (
+  id SERIAL PRIMARY KEY,
+  organization_id INTEGER NOT NULL REFERENCES organizations(id) ON DELETE CASCADE,
+  name VARCHAR(100) NOT NULL,
+  key_prefix VARCHAR(16) NOT NULL,
+  key_hash CHAR(64) NOT NULL UNIQUE,
+  scopes TEXT[] NOT NULL DEFAULT '{}',
+  created_by INTEGER REFERENCES users(id) ON DELETE SET NULL,
+  expires_at TIMESTAMP,
+  last_used_at TIMESTAMP,
+  revoked_at TIMESTAMP,
+  created_at TIMESTAMP DEFAULT NOW()
+);
+
+CREATE INDEX IF NOT EXISTS idx_api_keys_organization ON api_keys(organization_id);
+CREATE INDEX IF NOT EXISTS idx_api_keys_active ON api_keys(key_hash) WHERE revoked_at IS NULL;
+
+COMMENT ON TABLE api_keys IS 'Organization-level API keys for headless access';
+COMMENT ON COLUMN api_keys.key_hash IS 'SHA-256 hex digest of the key; the plain key is never stored';
+COMMENT ON COLUMN api_keys.scopes IS 'Granted scopes, e.g. read:posts, write:media';
+
+-- DOWN (for rollback)
+-- DROP TABLE IF EXISTS api_keys;
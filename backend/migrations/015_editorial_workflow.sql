@@ -0,0 +1,44 @@
+-- Migration: 015_editorial_workflow
+-- Editorial review workflow (draft -> in_review -> approved -> published)
+--
+-- Organizations opt in with workflow_enabled. While enabled, a version can only
+-- be published once it has collected workflow_approvals_required approvals.
+-- Every submit/approve/reject is kept in version_reviews so the reason for a
+-- rejection travels with the version.
+
+-- UP
+ALTER TABLE organizations
+  ADD COLUMN IF NOT EXISTS workflow_enabled BOOLEAN NOT NULL DEFAULT FALSE,
+  ADD COLUMN IF NOT EXISTS workflow_approvals_required INTEGER NOT NULL DEFAULT 1
+    CHECK (workflow_approvals_required BETWEEN 1 AND 5);
+
+ALTER TABLE content_versions
+  ADD COLUMN IF NOT EXISTS workflow_stage VARCHAR(20) NOT NULL DEFAULT 'draft'
+    CHECK (workflow_stage IN ('draft', 'in_review', 'approved', 'published'));
+
+UPDATE content_versions SET workflow_stage = 'published' WHERE published_at IS NOT NULL;
+
+CREATE INDEX IF NOT EXISTS idx_content_versions_workflow_stage
+  ON content_versions(site_id, workflow_stage)
+  WHERE workflow_stage IN ('in_review', 'approved');
+
+CREATE TABLE IF NOT EXISTS version_reviews (
+  id SERIAL PRIMARY KEY,
+  version_id INTEGER NOT NULL REFERENCES content_versions(id) ON DELETE CASCADE,
+  action VARCHAR(20) NOT NULL CHECK (action IN ('submitted', 'approved', 'rejected')),
+  actor_id INTEGER REFERENCES users(id) ON DELETE SET NULL,
+  reason TEXT,
+  created_at TIMESTAMP DEFAULT NOW()
+);
+
+CREATE INDEX IF NOT EXISTS idx_version_reviews_version ON version_reviews(version_id, created_at);
+
+COMMENT ON COLUMN organizations.workflow_enabled IS 'Require review and approval before content is published';
+COMMENT ON COLUMN content_versions.workflow_stage IS 'Editorial stage: draft, in_review, approved, published';
+COMMENT ON TABLE version_reviews IS 'Review history: submissions, approvals and rejections with reasons';
+
+-- DOWN (for rollback)
+-- DROP TABLE IF EXISTS version_reviews;
+-- ALTER TABLE content_versions DROP COLUMN IF EXISTS workflow_stage;
+-- ALTER TABLE organizations DROP COLUMN IF EXISTS workflow_approvals_required;
+-- ALTER TABLE organizations DROP COLUMN IF EXISTS workflow_enabled;
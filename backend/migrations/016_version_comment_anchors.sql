@@ -0,0 +1,33 @@
+-- Migration: 016_version_comment_anchors
+-- Text-range anchors for version review comments
+--
+-- Inline comments can point at a span of a field (e.g. a sentence in the body)
+-- instead of a whole line. range_start/range_end are character offsets into the
+-- field named by field_path; quoted_text keeps the selected text so the anchor
+-- can still be shown after the content changes in a later version.
+
+-- UP
+ALTER TABLE version_comments
+  ADD COLUMN IF NOT EXISTS range_start INTEGER CHECK (range_start >= 0),
+  ADD COLUMN IF NOT EXISTS range_end INTEGER,
+  ADD COLUMN IF NOT EXISTS quoted_text TEXT;
+
+ALTER TABLE version_comments
+  DROP CONSTRAINT IF EXISTS version_comments_range_check;
+ALTER TABLE version_comments
+  ADD CONSTRAINT version_comments_range_check
+    CHECK (range_end IS NULL OR (range_start IS NOT NULL AND range_end >= range_start));
+
+CREATE INDEX IF NOT EXISTS idx_version_comments_version_created
+  ON version_comments(version_id, created_at);
+
+COMMENT ON COLUMN version_comments.range_start IS 'Start offset of the anchored text within field_path';
+COMMENT ON COLUMN version_comments.range_end IS 'End offset (exclusive) of the anchored text within field_path';
+COMMENT ON COLUMN version_comments.quoted_text IS 'Text that was selected when the comment was anchored';
+
+-- DOWN (for rollback)
+-- DROP INDEX IF EXISTS idx_version_comments_version_created;
+-- ALTER TABLE version_comments DROP CONSTRAINT IF EXISTS version_comments_range_check;
+-- ALTER TABLE version_comments DROP COLUMN IF EXISTS quoted_text;
+-- ALTER TABLE version_comments DROP COLUMN IF EXISTS range_end;
+-- ALTER TABLE version_comments DROP COLUMN IF EXISTS range_start;
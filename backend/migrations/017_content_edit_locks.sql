@@ -0,0 +1,34 @@
+-- Migration: 017_content_edit_locks
+-- Soft edit locks for posts and pages
+--
+-- A lock records who is currently editing a piece of content so other editors
+-- see "Alice is editing since 10:02" before they start typing. Locks are
+-- advisory: saves are still allowed, and concurrent saves are caught by the
+-- base version check on update. The holder keeps the lock alive with a
+-- heartbeat; once expires_at passes anyone can claim it, and another editor
+-- can take it over explicitly.
+
+-- UP
+CREATE TABLE IF NOT EXISTS content_edit_locks (
+  id SERIAL PRIMARY KEY,
+  organization_id INTEGER NOT NULL REFERENCES organizations(id) ON DELETE CASCADE,
+  content_type VARCHAR(20) NOT NULL CHECK (content_type IN ('post', 'page')),
+  content_id INTEGER NOT NULL,
+  user_id INTEGER NOT NULL REFERENCES users(id) ON DELETE CASCADE,
+  acquired_at TIMESTAMP NOT NULL DEFAULT CURRENT_TIMESTAMP,
+  heartbeat_at TIMESTAMP NOT NULL DEFAULT CURRENT_TIMESTAMP,
+  expires_at TIMESTAMP NOT NULL,
+  CONSTRAINT content_edit_locks_content_unique UNIQUE (content_type, content_id)
+);
+
+CREATE INDEX IF NOT EXISTS idx_content_edit_locks_expires ON content_edit_locks(expires_at);
+CREATE INDEX IF NOT EXISTS idx_content_edit_locks_user ON content_edit_locks(user_id);
+
+COMMENT ON TABLE content_edit_locks IS 'Advisory locks showing who is editing a post or page';
+COMMENT ON COLUMN content_edit_locks.acquired_at IS 'When the current holder started editing';
+COMMENT ON COLUMN content_edit_locks.expires_at IS 'Lock lapses unless the holder heartbeats before this time';
+
+-- DOWN (for rollback)
+-- DROP INDEX IF EXISTS idx_content_edit_locks_user;
+-- DROP INDEX IF EXISTS idx_content_edit_locks_expires;
+-- DROP TABLE IF EXISTS content_edit_locks;
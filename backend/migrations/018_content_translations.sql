@@ -0,0 +1,74 @@
+-- Migration: 018_content_translations
+-- Translation groups for posts and pages
+--
+-- Every post and page now has a locale. Translations of the same content share
+-- a translation_group_id (the id of the original), so an English post can have
+-- German and French siblings with their own slugs, versions and publish state.
+-- A translation records the source it was made from and the source's
+-- updated_at at the time it was last brought in line; when the source is
+-- saved again the translation is reported as outdated.
+--
+-- The default and enabled locales of a site live in sites.settings as
+-- default_locale and locales.
+
+-- UP
+ALTER TABLE posts ADD COLUMN IF NOT EXISTS locale VARCHAR(10) NOT NULL DEFAULT 'en';
+ALTER TABLE posts ADD COLUMN IF NOT EXISTS translation_group_id INTEGER;
+ALTER TABLE posts ADD COLUMN IF NOT EXISTS translation_source_id INTEGER REFERENCES posts(id) ON DELETE SET NULL;
+ALTER TABLE posts ADD COLUMN IF NOT EXISTS translation_source_updated_at TIMESTAMP;
+
+ALTER TABLE pages ADD COLUMN IF NOT EXISTS locale VARCHAR(10) NOT NULL DEFAULT 'en';
+ALTER TABLE pages ADD COLUMN IF NOT EXISTS translation_group_id INTEGER;
+ALTER TABLE pages ADD COLUMN IF NOT EXISTS translation_source_id INTEGER REFERENCES pages(id) ON DELETE SET NULL;
+ALTER TABLE pages ADD COLUMN IF NOT EXISTS translation_source_updated_at TIMESTAMP;
+
+-- Existing content starts as its own single-locale group
+UPDATE posts SET translation_group_id = id WHERE translation_group_id IS NULL;
+UPDATE pages SET translation_group_id = id WHERE translation_group_id IS NULL;
+
+-- New content starts its own group unless it is created as a translation
+CREATE OR REPLACE FUNCTION set_translation_group_id()
+RETURNS TRIGGER AS $$
+BEGIN
+  NEW.translation_group_id := COALESCE(NEW.translation_group_id, NEW.id);
+  RETURN NEW;
+END;
+$$ LANGUAGE plpgsql;
+
+DROP TRIGGER IF EXISTS posts_set_translation_group ON posts;
+CREATE TRIGGER posts_set_translation_group
+  BEFORE INSERT ON posts
+  FOR EACH ROW
+  EXECUTE FUNCTION set_translation_group_id();
+
+DROP TRIGGER IF EXISTS pages_set_translation_group ON pages;
+CREATE TRIGGER pages_set_translation_group
+  BEFORE INSERT ON pages
+  FOR EACH ROW
+  EXECUTE FUNCTION set_translation_group_id();
+
+-- One sibling per locale in a group
+CREATE UNIQUE INDEX IF NOT EXISTS idx_posts_translation_group_locale
+  ON posts(translation_group_id, locale);
+CREATE UNIQUE INDEX IF NOT EXISTS idx_pages_translation_group_locale
+  ON pages(translation_group_id, locale);
+
+CREATE INDEX IF NOT EXISTS idx_posts_locale ON posts(locale);
+CREATE INDEX IF NOT EXISTS idx_pages_locale ON pages(locale);
+
+-- DOWN (for rollback)
+-- DROP INDEX IF EXISTS idx_pages_locale;
+-- DROP INDEX IF EXISTS idx_posts_locale;
+-- DROP INDEX IF EXISTS idx_pages_translation_group_locale;
+-- DROP INDEX IF EXISTS idx_posts_translation_group_locale;
+-- DROP TRIGGER IF EXISTS pages_set_translation_group ON pages;
+-- DROP TRIGGER IF EXISTS posts_set_translation_group ON posts;
+-- DROP FUNCTION IF EXISTS set_translation_group_id();
+-- ALTER TABLE pages DROP COLUMN IF EXISTS translation_source_updated_at;
+-- ALTER TABLE pages DROP COLUMN IF EXISTS translation_source_id;
+-- ALTER TABLE pages DROP COLUMN IF EXISTS translation_group_id;
+-- ALTER TABLE pages DROP COLUMN IF EXISTS locale;
+-- ALTER TABLE posts DROP COLUMN IF EXISTS translation_source_updated_at;
+-- ALTER TABLE posts DROP COLUMN IF EXISTS translation_source_id;
+-- ALTER TABLE posts DROP COLUMN IF EXISTS translation_group_id;
+-- ALTER TABLE posts DROP COLUMN IF EXISTS locale;
@@ -0,0 +1,166 @@
+-- Migration: 019_full_text_search
+-- Postgres full-text search for posts and pages
+--
+-- Posts and pages get a search_vector kept up to date by triggers. Posts are
+-- indexed over title, tag names, excerpt and content; pages over title, meta
+-- description and content. HTML is stripped before indexing and each row is
+-- indexed with the text search configuration of its locale, so German posts
+-- are stemmed as German. Queries must be parsed with the same configuration
+-- (search_config_for_locale) to match.
+--
+-- Categories are few enough to be matched without a stored vector.
+
+-- UP
+CREATE OR REPLACE FUNCTION search_config_for_locale(locale TEXT)
+RETURNS regconfig AS $$
+  SELECT (CASE split_part(lower(COALESCE(locale, '')), '-', 1)
+    WHEN 'da' THEN 'danish'
+    WHEN 'de' THEN 'german'
+    WHEN 'en' THEN 'english'
+    WHEN 'es' THEN 'spanish'
+    WHEN 'fi' THEN 'finnish'
+    WHEN 'fr' THEN 'french'
+    WHEN 'hu' THEN 'hungarian'
+    WHEN 'it' THEN 'italian'
+    WHEN 'nb' THEN 'norwegian'
+    WHEN 'nl' THEN 'dutch'
+    WHEN 'no' THEN 'norwegian'
+    WHEN 'pt' THEN 'portuguese'
+    WHEN 'ro' THEN 'romanian'
+    WHEN 'ru' THEN 'russian'
+    WHEN 'sv' THEN 'swedish'
+    WHEN 'tr' THEN 'turkish'
+    ELSE 'simple'
+  END)::regconfig;
+$$ LANGUAGE sql IMMUTABLE;
+
+CREATE OR REPLACE FUNCTION strip_html_tags(html TEXT)
+RETURNS TEXT AS $$
+  SELECT regexp_replace(COALESCE(html, ''), '<[^>]*>', ' ', 'g');
+$$ LANGUAGE sql IMMUTABLE;
+
+ALTER TABLE posts ADD COLUMN IF NOT EXISTS search_vector tsvector;
+ALTER TABLE pages ADD COLUMN IF NOT EXISTS search_vector tsvector;
+
+CREATE OR REPLACE FUNCTION post_search_vector(
+  post_id INTEGER, title TEXT, excerpt TEXT, content TEXT, locale TEXT
+)
+RETURNS tsvector AS $$
+DECLARE
+  config regconfig := search_config_for_locale(locale);
+  tag_names TEXT;
+BEGIN
+  SELECT string_agg(t.name, ' ') INTO tag_names
+  FROM post_tags pt
+  JOIN tags t ON t.id = pt.tag_id
+  WHERE pt.post_id = post_search_vector.post_id;
+
+  RETURN setweight(to_tsvector(config, COALESCE(title, '')), 'A')
+    || setweight(to_tsvector(config, COALESCE(tag_names, '')), 'B')
+    || setweight(to_tsvector(config, COALESCE(excerpt, '')), 'B')
+    || setweight(to_tsvector(config, strip_html_tags(content)), 'C');
+END;
+$$ LANGUAGE plpgsql STABLE;
+
+CREATE OR REPLACE FUNCTION page_search_vector(
+  title TEXT, meta_description TEXT, content TEXT, locale TEXT
+)
+RETURNS tsvector AS $$
+  SELECT setweight(to_tsvector(search_config_for_locale(locale), COALESCE(title, '')), 'A')
+    || setweight(to_tsvector(search_config_for_locale(locale), COALESCE(meta_description, '')), 'B')
+    || setweight(to_tsvector(search_config_for_locale(locale), strip_html_tags(content)), 'C');
+$$ LANGUAGE sql IMMUTABLE;
+
+CREATE OR REPLACE FUNCTION posts_search_vector_update()
+RETURNS TRIGGER AS $$
+BEGIN
+  NEW.search_vector := post_search_vector(NEW.id, NEW.title, NEW.excerpt, NEW.content, NEW.locale);
+  RETURN NEW;
+END;
+$$ LANGUAGE plpgsql;
+
+DROP TRIGGER IF EXISTS posts_search_vector_update ON posts;
+CREATE TRIGGER posts_search_vector_update
+  BEFORE INSERT OR UPDATE OF title, excerpt, content, locale ON posts
+  FOR EACH ROW
+  EXECUTE FUNCTION posts_search_vector_update();
+
+CREATE OR REPLACE FUNCTION pages_search_vector_update()
+RETURNS TRIGGER AS $$
+BEGIN
+  NEW.search_vector := page_search_vector(NEW.title, NEW.meta_description, NEW.content, NEW.locale);
+  RETURN NEW;
+END;
+$$ LANGUAGE plpgsql;
+
+DROP TRIGGER IF EXISTS pages_search_vector_update ON pages;
+CREATE TRIGGER pages_search_vector_update
+  BEFORE INSERT OR UPDATE OF title, meta_description, content, locale ON pages
+  FOR EACH ROW
+  EXECUTE FUNCTION pages_search_vector_update();
+
+-- Tag names are part of the post vector, so re-index posts whose tags change
+CREATE OR REPLACE FUNCTION post_tags_search_vector_refresh()
+RETURNS TRIGGER AS $$
+DECLARE
+  changed_post_id INTEGER;
+BEGIN
+  IF TG_OP = 'DELETE' THEN
+    changed_post_id := OLD.post_id;
+  ELSE
+    changed_post_id := NEW.post_id;
+  END IF;
+
+  UPDATE posts
+  SET search_vector = post_search_vector(id, title, excerpt, content, locale)
+  WHERE id = changed_post_id;
+  RETURN NULL;
+END;
+$$ LANGUAGE plpgsql;
+
+DROP TRIGGER IF EXISTS post_tags_search_vector_refresh ON post_tags;
+CREATE TRIGGER post_tags_search_vector_refresh
+  AFTER INSERT OR DELETE ON post_tags
+  FOR EACH ROW
+  EXECUTE FUNCTION post_tags_search_vector_refresh();
+
+CREATE OR REPLACE FUNCTION tags_search_vector_refresh()
+RETURNS TRIGGER AS $$
+BEGIN
+  UPDATE posts
+  SET search_vector = post_search_vector(id, title, excerpt, content, locale)
+  WHERE id IN (SELECT post_id FROM post_tags WHERE tag_id = NEW.id);
+  RETURN NULL;
+END;
+$$ LANGUAGE plpgsql;
+
+DROP TRIGGER IF EXISTS tags_search_vector_refresh ON tags;
+CREATE TRIGGER tags_search_vector_refresh
+  AFTER UPDATE OF name ON tags
+  FOR EACH ROW
+  EXECUTE FUNCTION tags_search_vector_refresh();
+
+-- Index existing content
+UPDATE posts SET search_vector = post_search_vector(id, title, excerpt, content, locale);
+UPDATE pages SET search_vector = page_search_vector(title, meta_description, content, locale);
+
+CREATE INDEX IF NOT EXISTS idx_posts_search_vector ON posts USING GIN(search_vector);
+CREATE INDEX IF NOT EXISTS idx_pages_search_vector ON pages USING GIN(search_vector);
+
+-- DOWN (for rollback)
+-- DROP INDEX IF EXISTS idx_pages_search_vector;
+-- DROP INDEX IF EXISTS idx_posts_search_vector;
+-- DROP TRIGGER IF EXISTS tags_search_vector_refresh ON tags;
+-- DROP TRIGGER IF EXISTS post_tags_search_vector_refresh ON post_tags;
+-- DROP TRIGGER IF EXISTS pages_search_vector_update ON pages;
+-- DROP TRIGGER IF EXISTS posts_search_vector_update ON posts;
+-- DROP FUNCTION IF EXISTS tags_search_vector_refresh();
+-- DROP FUNCTION IF EXISTS post_tags_search_vector_refresh();
+-- DROP FUNCTION IF EXISTS pages_search_vector_update();
+-- DROP FUNCTION IF EXISTS posts_search_vector_update();
+-- DROP FUNCTION IF EXISTS page_search_vector(TEXT, TEXT, TEXT, TEXT);
+-- DROP FUNCTION IF EXISTS post_search_vector(INTEGER, TEXT, TEXT, TEXT, TEXT);
+-- ALTER TABLE pages DROP COLUMN IF EXISTS search_vector;
+-- ALTER TABLE posts DROP COLUMN IF EXISTS search_vector;
+-- DROP FUNCTION IF EXISTS strip_html_tags(TEXT);
+-- DROP FUNCTION IF EXISTS search_config_for_locale(TEXT);
@@ -0,0 +1,46 @@
+-- Migration: 020_redirects
+-- Redirects for moved content
+--
+-- Changing the slug of a post or page records a permanent redirect from the
+-- old public path to the new one, so inbound links keep working. Editors can
+-- add their own 301/302 rules, either for one path or for everything below a
+-- path prefix (source ending in /*). A rule without a domain applies on every
+-- domain. Each redirect counts how often it was followed.
+
+-- UP
+CREATE TABLE IF NOT EXISTS redirects (
+  id SERIAL PRIMARY KEY,
+  organization_id INTEGER NOT NULL REFERENCES organizations(id) ON DELETE CASCADE,
+  domain_id INTEGER REFERENCES domains(id) ON DELETE CASCADE,
+  source_path VARCHAR(2048) NOT NULL,
+  target_path VARCHAR(2048) NOT NULL,
+  status_code SMALLINT NOT NULL DEFAULT 301 CHECK (status_code IN (301, 302)),
+  -- slug_change rules are maintained automatically for the content they point at
+  origin VARCHAR(20) NOT NULL DEFAULT 'manual' CHECK (origin IN ('manual', 'slug_change')),
+  content_type VARCHAR(20) CHECK (content_type IN ('post', 'page')),
+  content_id INTEGER,
+  hit_count INTEGER NOT NULL DEFAULT 0,
+  last_hit_at TIMESTAMP,
+  created_by INTEGER REFERENCES users(id) ON DELETE SET NULL,
+  created_at TIMESTAMP NOT NULL DEFAULT CURRENT_TIMESTAMP,
+  updated_at TIMESTAMP NOT NULL DEFAULT CURRENT_TIMESTAMP
+);
+
+-- One rule per source path and domain; domain-less rules share one scope
+CREATE UNIQUE INDEX IF NOT EXISTS idx_redirects_domain_source
+  ON redirects(COALESCE(domain_id, 0), source_path);
+CREATE INDEX IF NOT EXISTS idx_redirects_organization ON redirects(organization_id);
+CREATE INDEX IF NOT EXISTS idx_redirects_target ON redirects(target_path);
+CREATE INDEX IF NOT EXISTS idx_redirects_content ON redirects(content_type, content_id);
+
+COMMENT ON TABLE redirects IS 'Permanent and temporary redirects from old public paths';
+COMMENT ON COLUMN redirects.source_path IS 'Path to redirect, e.g. /blog/old-slug, or a prefix such as /old/* matching everything below it';
+COMMENT ON COLUMN redirects.target_path IS 'Path or absolute URL to redirect to; a trailing * receives the part matched by a wildcard source';
+COMMENT ON COLUMN redirects.domain_id IS 'Domain the rule applies to; NULL for every domain';
+
+-- DOWN (for rollback)
+-- DROP INDEX IF EXISTS idx_redirects_content;
+-- DROP INDEX IF EXISTS idx_redirects_target;
+-- DROP INDEX IF EXISTS idx_redirects_organization;
+-- DROP INDEX IF EXISTS idx_redirects_domain_source;
+-- DROP TABLE IF EXISTS redirects;
@@ -0,0 +1,35 @@
+-- Migration: 021_hierarchical_categories
+-- Nested categories
+--
+-- Categories get a parent and can be nested to any depth. Each category
+-- stores its slug path from the root (e.g. tech/javascript), which is its
+-- public archive URL under /category/ and lets a subtree be selected with a
+-- prefix match. Slugs become unique per organization instead of globally,
+-- and names no longer need to be unique at all.
+
+-- UP
+ALTER TABLE categories ADD COLUMN IF NOT EXISTS parent_id INTEGER REFERENCES categories(id) ON DELETE SET NULL;
+ALTER TABLE categories ADD COLUMN IF NOT EXISTS path VARCHAR(1000);
+
+-- Existing categories become top-level ones
+UPDATE categories SET path = slug WHERE path IS NULL;
+ALTER TABLE categories ALTER COLUMN path SET NOT NULL;
+
+ALTER TABLE categories DROP CONSTRAINT IF EXISTS categories_name_key;
+ALTER TABLE categories DROP CONSTRAINT IF EXISTS categories_slug_key;
+
+CREATE UNIQUE INDEX IF NOT EXISTS idx_categories_organization_slug ON categories(organization_id, slug);
+CREATE UNIQUE INDEX IF NOT EXISTS idx_categories_organization_path ON categories(organization_id, path);
+CREATE INDEX IF NOT EXISTS idx_categories_parent ON categories(parent_id);
+
+COMMENT ON COLUMN categories.parent_id IS 'Category this one is nested under; NULL for top-level categories';
+COMMENT ON COLUMN categories.path IS 'Slugs from the top-level category down to this one, joined by /';
+
+-- DOWN (for rollback)
+-- DROP INDEX IF EXISTS idx_categories_parent;
+-- DROP INDEX IF EXISTS idx_categories_organization_path;
+-- DROP INDEX IF EXISTS idx_categories_organization_slug;
+-- ALTER TABLE categories ADD CONSTRAINT categories_slug_key UNIQUE (slug);
+-- ALTER TABLE categories ADD CONSTRAINT categories_name_key UNIQUE (name);
+-- ALTER TABLE categories DROP COLUMN IF EXISTS path;
+-- ALTER TABLE categories DROP COLUMN IF EXISTS parent_id;
@@ -0,0 +1,13 @@
+-- Migration: 022_tag_names_per_organization
+-- Tag names are no longer globally unique
+--
+-- Migration 013 scoped tag slugs to the organization but left the original
+-- global UNIQUE constraint on the name, so renaming a tag (or creating one)
+-- failed whenever any other organization had a tag with that name. The
+-- per-organization slug index already keeps tags distinct.
+
+-- UP
+ALTER TABLE tags DROP CONSTRAINT IF EXISTS tags_name_key;
+
+-- DOWN (for rollback)
+-- ALTER TABLE tags ADD CONSTRAINT tags_name_key UNIQUE (name);
@@ -0,0 +1,83 @@
+-- Migration: 023_hierarchical_pages
+-- Nested pages
+--
+-- Pages get a parent and a position among their siblings. Each page stores
+-- its slug path from the top-level page (e.g. about/team/engineering), which
+-- is its public URL under /page/. Paths rather than slugs must be unique
+-- within an organization, so two sections can each have a "team" page.
+--
+-- Slugs and parents are written from several places (the page routes,
+-- publishing a version, creating a translation), so the path is maintained
+-- by triggers rather than by each caller: it is recomputed whenever a page's
+-- slug or parent changes, and a changed path is carried down to every page
+-- below it.
+
+-- UP
+ALTER TABLE pages ADD COLUMN IF NOT EXISTS parent_id INTEGER REFERENCES pages(id) ON DELETE SET NULL;
+ALTER TABLE pages ADD COLUMN IF NOT EXISTS path VARCHAR(1000);
+ALTER TABLE pages ADD COLUMN IF NOT EXISTS position INTEGER NOT NULL DEFAULT 0;
+
+-- Existing pages become top-level ones
+UPDATE pages SET path = slug WHERE path IS NULL;
+ALTER TABLE pages ALTER COLUMN path SET NOT NULL;
+
+ALTER TABLE pages DROP CONSTRAINT IF EXISTS pages_slug_key;
+CREATE UNIQUE INDEX IF NOT EXISTS idx_pages_organization_path ON pages(organization_id, path);
+CREATE INDEX IF NOT EXISTS idx_pages_parent ON pages(parent_id, position);
+
+CREATE OR REPLACE FUNCTION pages_set_path()
+RETURNS TRIGGER AS $$
+DECLARE
+  parent_path VARCHAR(1000);
+BEGIN
+  IF NEW.parent_id IS NULL THEN
+    NEW.path := NEW.slug;
+  ELSE
+    SELECT path INTO parent_path FROM pages WHERE id = NEW.parent_id;
+    NEW.path := parent_path || '/' || NEW.slug;
+  END IF;
+
+  IF TG_OP = 'UPDATE' AND LEFT(NEW.path, LENGTH(OLD.path) + 1) = OLD.path || '/' THEN
+    RAISE EXCEPTION 'A page cannot be moved below itself' USING ERRCODE = 'check_violation';
+  END IF;
+  RETURN NEW;
+END;
+$$ LANGUAGE plpgsql;
+
+DROP TRIGGER IF EXISTS pages_set_path ON pages;
+CREATE TRIGGER pages_set_path
+  BEFORE INSERT OR UPDATE OF slug, parent_id ON pages
+  FOR EACH ROW
+  EXECUTE FUNCTION pages_set_path();
+
+-- Runs again for each child whose path it rewrites, reaching the whole subtree
+CREATE OR REPLACE FUNCTION pages_cascade_path()
+RETURNS TRIGGER AS $$
+BEGIN
+  UPDATE pages SET path = NEW.path || '/' || slug WHERE parent_id = NEW.id;
+  RETURN NULL;
+END;
+$$ LANGUAGE plpgsql;
+
+DROP TRIGGER IF EXISTS pages_cascade_path ON pages;
+CREATE TRIGGER pages_cascade_path
+  AFTER UPDATE OF path ON pages
+  FOR EACH ROW
+  WHEN (OLD.path IS DISTINCT FROM NEW.path)
+  EXECUTE FUNCTION pages_cascade_path();
+
+COMMENT ON COLUMN pages.parent_id IS 'Page this one is nested under; NULL for top-level pages';
+COMMENT ON COLUMN pages.path IS 'Slugs from the top-level page down to this one, joined by /; maintained by trigger';
+COMMENT ON COLUMN pages.position IS 'Order among pages with the same parent';
+
+-- DOWN (for rollback)
+-- DROP TRIGGER IF EXISTS pages_cascade_path ON pages;
+-- DROP FUNCTION IF EXISTS pages_cascade_path();
+-- DROP TRIGGER IF EXISTS pages_set_path ON pages;
+-- DROP FUNCTION IF EXISTS pages_set_path();
+-- DROP INDEX IF EXISTS idx_pages_parent;
+-- DROP INDEX IF EXISTS idx_pages_organization_path;
+-- ALTER TABLE pages ADD CONSTRAINT pages_slug_key UNIQUE (slug);
+-- ALTER TABLE pages DROP COLUMN IF EXISTS position;
+-- ALTER TABLE pages DROP COLUMN IF EXISTS path;
+-- ALTER TABLE pages DROP COLUMN IF EXISTS parent_id;
@@ -0,0 +1,21 @@
+-- Migration: 024_page_template_versions
+-- Versioned page template schemas
+--
+-- Page data is validated against the schema of the page's template when it
+-- is saved. Templates count their schema versions, and each page records the
+-- version its data was last validated against, so pages left behind by a
+-- schema change can be found and migrated to the current version.
+
+-- UP
+ALTER TABLE page_templates ADD COLUMN IF NOT EXISTS version INTEGER NOT NULL DEFAULT 1;
+ALTER TABLE pages ADD COLUMN IF NOT EXISTS template_version INTEGER;
+
+CREATE INDEX IF NOT EXISTS idx_pages_template ON pages(template);
+
+COMMENT ON COLUMN page_templates.version IS 'Incremented whenever the schema changes';
+COMMENT ON COLUMN pages.template_version IS 'Template schema version the page data was last validated against; NULL if never validated';
+
+-- DOWN (for rollback)
+-- DROP INDEX IF EXISTS idx_pages_template;
+-- ALTER TABLE pages DROP COLUMN IF EXISTS template_version;
+-- ALTER TABLE page_templates DROP COLUMN IF EXISTS version;
@@ -0,0 +1,115 @@
+-- Migration: 025_landing_page_blocks
+-- Landing page template built from page builder blocks
+--
+-- Block content is stored as structured JSON in pages.data.blocks, a list of
+-- { id, type, props }. The block types a template offers, and the props each
+-- one takes, are declared under blockTypes in the template schema, so the
+-- editor, validation and migration all work from the template.
+
+-- UP
+INSERT INTO page_templates (key, name, description, enabled, schema, default_data)
+VALUES (
+  'landing',
+  'Landing Page',
+  'Page built from hero, columns, gallery, call to action, embed, quote and rich text blocks',
+  TRUE,
+  '{
+    "type": "object",
+    "properties": {
+      "blocks": {
+        "type": "array",
+        "format": "blocks",
+        "title": "Blocks",
+        "blockTypes": {
+          "hero": {
+            "title": "Hero",
+            "required": ["heading"],
+            "properties": {
+              "heading": { "type": "string", "maxLength": 150 },
+              "subheading": { "type": "string", "maxLength": 300 },
+              "image": { "type": "string", "format": "image", "title": "Background image" },
+              "button_label": { "type": "string", "maxLength": 50 },
+              "button_url": { "type": "string", "title": "Button URL" }
+            }
+          },
+          "columns": {
+            "title": "Columns",
+            "required": ["columns"],
+            "properties": {
+              "columns": {
+                "type": "array",
+                "minItems": 1,
+                "maxItems": 4,
+                "items": {
+                  "type": "object",
+                  "title": "Column",
+                  "properties": {
+                    "heading": { "type": "string" },
+                    "body": { "type": "string", "format": "html" }
+                  }
+                }
+              }
+            }
+          },
+          "gallery": {
+            "title": "Gallery",
+            "required": ["images"],
+            "properties": {
+              "images": {
+                "type": "array",
+                "minItems": 1,
+                "items": {
+                  "type": "object",
+                  "title": "Image",
+                  "required": ["url"],
+                  "properties": {
+                    "url": { "type": "string", "format": "image", "title": "Image" },
+                    "caption": { "type": "string" }
+                  }
+                }
+              },
+              "columns": { "type": "integer", "minimum": 2, "maximum": 4, "default": 3 }
+            }
+          },
+          "cta": {
+            "title": "Call to Action",
+            "required": ["heading", "button_label", "button_url"],
+            "properties": {
+              "heading": { "type": "string", "maxLength": 150 },
+              "text": { "type": "string" },
+              "button_label": { "type": "string", "maxLength": 50 },
+              "button_url": { "type": "string", "title": "Button URL" }
+            }
+          },
+          "embed": {
+            "title": "Embed",
+            "required": ["url"],
+            "properties": {
+              "url": { "type": "string", "title": "Video URL", "pattern": "^https://", "description": "YouTube or Vimeo link" },
+              "caption": { "type": "string" }
+            }
+          },
+          "quote": {
+            "title": "Quote",
+            "required": ["text"],
+            "properties": {
+              "text": { "type": "string" },
+              "attribution": { "type": "string" }
+            }
+          },
+          "richText": {
+            "title": "Rich Text",
+            "properties": {
+              "html": { "type": "string", "format": "html", "title": "Text" }
+            }
+          }
+        }
+      }
+    }
+  }'::jsonb,
+  '{"blocks": []}'::jsonb
+)
+ON CONFLICT (key) DO NOTHING;
+
+-- DOWN (for rollback)
+-- DELETE FROM page_templates WHERE key = 'landing';
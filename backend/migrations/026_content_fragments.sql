@@ -0,0 +1,60 @@
+-- Migration: 026_content_fragments
+-- Reusable content fragments embedded in posts and pages
+--
+-- A fragment (newsletter call to action, legal disclaimer, author bio) is
+-- written once and embedded with a {{fragment:key}} token in post or page
+-- content, or with a fragment block in page data. Embeds are resolved when
+-- the public API serves the content, so editing a fragment updates every
+-- page and post that uses it. Fragment edits are versioned in
+-- content_versions like posts and pages.
+
+-- UP
+CREATE TABLE IF NOT EXISTS content_fragments (
+  id SERIAL PRIMARY KEY,
+  organization_id INTEGER NOT NULL REFERENCES organizations(id) ON DELETE CASCADE,
+  -- Site the fragment's versions are recorded under
+  site_id INTEGER REFERENCES sites(id) ON DELETE SET NULL,
+  key VARCHAR(100) NOT NULL,
+  name VARCHAR(255) NOT NULL,
+  description TEXT,
+  content TEXT NOT NULL DEFAULT '',
+  created_by INTEGER REFERENCES users(id) ON DELETE SET NULL,
+  updated_by INTEGER REFERENCES users(id) ON DELETE SET NULL,
+  created_at TIMESTAMP DEFAULT CURRENT_TIMESTAMP,
+  updated_at TIMESTAMP DEFAULT CURRENT_TIMESTAMP,
+  CONSTRAINT unique_fragment_key UNIQUE (organization_id, key),
+  CONSTRAINT fragment_key_format CHECK (key ~ '^[a-z0-9]+(-[a-z0-9]+)*$')
+);
+
+CREATE INDEX IF NOT EXISTS idx_content_fragments_organization ON content_fragments(organization_id);
+
+COMMENT ON COLUMN content_fragments.key IS 'Used in {{fragment:key}} embed tokens; cannot change while the fragment is embedded';
+
+-- Fragments are versioned alongside posts and pages
+ALTER TABLE content_versions DROP CONSTRAINT IF EXISTS content_versions_content_type_check;
+ALTER TABLE content_versions ADD CONSTRAINT content_versions_content_type_check
+  CHECK (content_type IN ('post', 'page', 'fragment'));
+
+-- Landing pages can place a fragment as a block
+UPDATE page_templates
+SET schema = jsonb_set(
+      schema,
+      '{properties,blocks,blockTypes,fragment}',
+      '{
+        "title": "Fragment",
+        "required": ["fragment"],
+        "properties": {
+          "fragment": { "type": "integer", "format": "fragment-reference" }
+        }
+      }'::jsonb
+    ),
+    version = version + 1,
+    updated_at = CURRENT_TIMESTAMP
+WHERE key = 'landing' AND schema #> '{properties,blocks,blockTypes}' IS NOT NULL;
+
+-- DOWN (for rollback)
+-- UPDATE page_templates SET schema = schema #- '{properties,blocks,blockTypes,fragment}', version = version + 1 WHERE key = 'landing';
+-- DELETE FROM content_versions WHERE content_type = 'fragment';
+-- ALTER TABLE content_versions DROP CONSTRAINT IF EXISTS content_versions_content_type_check;
+-- ALTER TABLE content_versions ADD CONSTRAINT content_versions_content_type_check CHECK (content_type IN ('post', 'page'));
+-- DROP TABLE IF EXISTS content_fragments;
@@ -0,0 +1,30 @@
+-- Migration: 027_media_derivatives
+-- Cached image derivatives from the transform endpoint
+--
+-- GET /api/media/:id/transform renders an image at a signed size, fit and
+-- format. Each rendering is kept in media storage under
+-- derivatives/<media id>/ and recorded here, so it is generated once,
+-- counted against the organization's storage_bytes quota and removed
+-- together with the image.
+
+-- UP
+CREATE TABLE IF NOT EXISTS media_derivatives (
+  id SERIAL PRIMARY KEY,
+  media_id INTEGER NOT NULL REFERENCES media_files(id) ON DELETE CASCADE,
+  organization_id INTEGER REFERENCES organizations(id) ON DELETE CASCADE,
+  storage_key VARCHAR(500) NOT NULL,
+  width INTEGER,
+  height INTEGER,
+  fit VARCHAR(10) NOT NULL,
+  format VARCHAR(10) NOT NULL,
+  file_size BIGINT NOT NULL,
+  created_at TIMESTAMP DEFAULT CURRENT_TIMESTAMP,
+  CONSTRAINT unique_media_derivative UNIQUE (media_id, storage_key)
+);
+
+CREATE INDEX IF NOT EXISTS idx_media_derivatives_organization ON media_derivatives(organization_id);
+
+COMMENT ON COLUMN media_derivatives.file_size IS 'Bytes added to the storage_bytes quota when the derivative was stored';
+
+-- DOWN (for rollback)
+-- DROP TABLE IF EXISTS media_derivatives;
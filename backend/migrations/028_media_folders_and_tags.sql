@@ -0,0 +1,60 @@
+-- Migration: 028_media_folders_and_tags
+-- Media library folders, tags and descriptive metadata
+--
+-- Media files can be filed into nested folders and tagged. Like categories,
+-- each folder stores its slug path from the top-level folder down (e.g.
+-- products/summer-2026), so the files of a whole subtree can be selected
+-- with a prefix match. Media tags are separate from post tags so the media
+-- library does not add tags to the public site. Files also get a caption,
+-- a credit line and a license.
+
+-- UP
+CREATE TABLE IF NOT EXISTS media_folders (
+  id SERIAL PRIMARY KEY,
+  organization_id INTEGER NOT NULL REFERENCES organizations(id) ON DELETE CASCADE,
+  parent_id INTEGER REFERENCES media_folders(id) ON DELETE SET NULL,
+  name VARCHAR(100) NOT NULL,
+  slug VARCHAR(100) NOT NULL,
+  path VARCHAR(1000) NOT NULL,
+  created_at TIMESTAMP DEFAULT CURRENT_TIMESTAMP,
+  updated_at TIMESTAMP DEFAULT CURRENT_TIMESTAMP,
+  CONSTRAINT unique_media_folder_path UNIQUE (organization_id, path)
+);
+
+CREATE INDEX IF NOT EXISTS idx_media_folders_parent ON media_folders(parent_id);
+
+COMMENT ON COLUMN media_folders.path IS 'Slugs from the top-level folder down to this one, joined by /';
+
+CREATE TABLE IF NOT EXISTS media_tags (
+  id SERIAL PRIMARY KEY,
+  organization_id INTEGER NOT NULL REFERENCES organizations(id) ON DELETE CASCADE,
+  name VARCHAR(100) NOT NULL,
+  slug VARCHAR(100) NOT NULL,
+  created_at TIMESTAMP DEFAULT CURRENT_TIMESTAMP,
+  CONSTRAINT unique_media_tag_slug UNIQUE (organization_id, slug)
+);
+
+CREATE TABLE IF NOT EXISTS media_file_tags (
+  media_id INTEGER NOT NULL REFERENCES media_files(id) ON DELETE CASCADE,
+  tag_id INTEGER NOT NULL REFERENCES media_tags(id) ON DELETE CASCADE,
+  PRIMARY KEY (media_id, tag_id)
+);
+
+CREATE INDEX IF NOT EXISTS idx_media_file_tags_tag ON media_file_tags(tag_id);
+
+ALTER TABLE media_files ADD COLUMN IF NOT EXISTS folder_id INTEGER REFERENCES media_folders(id) ON DELETE SET NULL;
+ALTER TABLE media_files ADD COLUMN IF NOT EXISTS caption TEXT;
+ALTER TABLE media_files ADD COLUMN IF NOT EXISTS credit VARCHAR(255);
+ALTER TABLE media_files ADD COLUMN IF NOT EXISTS license VARCHAR(100);
+
+CREATE INDEX IF NOT EXISTS idx_media_files_organization_folder ON media_files(organization_id, folder_id);
+
+-- DOWN (for rollback)
+-- DROP INDEX IF EXISTS idx_media_files_organization_folder;
+-- ALTER TABLE media_files DROP COLUMN IF EXISTS license;
+-- ALTER TABLE media_files DROP COLUMN IF EXISTS credit;
+-- ALTER TABLE media_files DROP COLUMN IF EXISTS caption;
+-- ALTER TABLE media_files DROP COLUMN IF EXISTS folder_id;
+-- DROP TABLE IF EXISTS media_file_tags;
+-- DROP TABLE IF EXISTS media_tags;
+-- DROP TABLE IF EXISTS media_folders;
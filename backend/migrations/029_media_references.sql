@@ -0,0 +1,32 @@
+-- Migration: 029_media_references
+-- Where media files are used
+--
+-- Posts, pages and organizations embed media by URL (/uploads/... or
+-- /api/media/:id/transform), so there is no foreign key to tell whether a
+-- file can be deleted safely. Each time one of them is saved its media URLs
+-- are resolved to media files and recorded here, per field. Replacing the
+-- file behind a media item bumps its version so cached transforms of the
+-- old file are not served for the new one.
+
+-- UP
+CREATE TABLE IF NOT EXISTS media_references (
+  media_id INTEGER NOT NULL REFERENCES media_files(id) ON DELETE CASCADE,
+  source_type VARCHAR(20) NOT NULL CHECK (source_type IN ('post', 'page', 'organization')),
+  source_id INTEGER NOT NULL,
+  field VARCHAR(50) NOT NULL,
+  organization_id INTEGER REFERENCES organizations(id) ON DELETE CASCADE,
+  created_at TIMESTAMP DEFAULT CURRENT_TIMESTAMP,
+  PRIMARY KEY (media_id, source_type, source_id, field)
+);
+
+CREATE INDEX IF NOT EXISTS idx_media_references_source ON media_references(source_type, source_id);
+
+COMMENT ON COLUMN media_references.field IS 'Column of the source the media is used in, e.g. content or featured_image';
+
+ALTER TABLE media_files ADD COLUMN IF NOT EXISTS version INTEGER NOT NULL DEFAULT 1;
+
+-- Existing content is indexed with: npm run media:index-references
+
+-- DOWN (for rollback)
+-- ALTER TABLE media_files DROP COLUMN IF EXISTS version;
+-- DROP TABLE IF EXISTS media_references;
@@ -0,0 +1,25 @@
+-- Migration: 030_media_content_hashes
+-- Content hashes for duplicate detection
+--
+-- An upload whose SHA-256 matches a file already in the organization's
+-- library returns that file instead of being stored again. Images also get
+-- a 64-bit difference hash (hex), so resized or re-encoded copies can be
+-- found by the number of bits their hashes differ in.
+
+-- UP
+ALTER TABLE media_files ADD COLUMN IF NOT EXISTS content_hash CHAR(64);
+ALTER TABLE media_files ADD COLUMN IF NOT EXISTS perceptual_hash CHAR(16);
+
+-- Not unique: libraries may already hold copies, which the near-duplicates
+-- report lists for merging
+CREATE INDEX IF NOT EXISTS idx_media_files_content_hash ON media_files(organization_id, content_hash);
+
+COMMENT ON COLUMN media_files.content_hash IS 'SHA-256 of the uploaded file, hex';
+COMMENT ON COLUMN media_files.perceptual_hash IS 'Difference hash of images, hex; NULL for other files';
+
+-- Existing files are hashed with: npm run media:hash
+
+-- DOWN (for rollback)
+-- DROP INDEX IF EXISTS idx_media_files_content_hash;
+-- ALTER TABLE media_files DROP COLUMN IF EXISTS perceptual_hash;
+-- ALTER TABLE media_files DROP COLUMN IF EXISTS content_hash;
@@ -0,0 +1,19 @@
+-- Migration: 031_redirects_per_organization
+-- Scope redirect source paths to their organization
+--
+-- Source paths were unique per domain across all organizations, so a rule of
+-- one organization could keep another from redirecting the same path. Rules
+-- without a domain now apply only on the domains of their organization's
+-- sites, so each organization gets its own set of paths.
+
+-- UP
+DROP INDEX IF EXISTS idx_redirects_domain_source;
+CREATE UNIQUE INDEX IF NOT EXISTS idx_redirects_organization_domain_source
+  ON redirects(organization_id, COALESCE(domain_id, 0), source_path);
+
+COMMENT ON COLUMN redirects.domain_id IS 'Domain the rule applies to; NULL for every domain of the organization''s sites';
+
+-- DOWN (for rollback)
+-- DROP INDEX IF EXISTS idx_redirects_organization_domain_source;
+-- CREATE UNIQUE INDEX IF NOT EXISTS idx_redirects_domain_source
+--   ON redirects(COALESCE(domain_id, 0), source_path);
@@ -0,0 +1,36 @@
+-- Migration: 032_publishing_targets_per_organization
+-- Organization tenancy for distribution publishing targets
+--
+-- Publishing targets hold channel credentials but belonged to no
+-- organization, so every organization could list, edit and dispatch to the
+-- targets of the others. Target names become unique per organization.
+
+-- UP
+ALTER TABLE publishing_targets
+  ADD COLUMN IF NOT EXISTS organization_id INTEGER REFERENCES organizations(id) ON DELETE CASCADE;
+
+-- Backfill from the posts scheduled or sent to the target, then the default org
+UPDATE publishing_targets t
+SET organization_id = p.organization_id
+FROM publishing_schedules s
+JOIN posts p ON p.id = s.post_id
+WHERE s.target_id = t.id AND t.organization_id IS NULL;
+
+UPDATE publishing_targets t
+SET organization_id = p.organization_id
+FROM distribution_logs l
+JOIN posts p ON p.id = l.post_id
+WHERE l.target_id = t.id AND t.organization_id IS NULL;
+
+UPDATE publishing_targets SET organization_id = 1 WHERE organization_id IS NULL;
+
+ALTER TABLE publishing_targets ALTER COLUMN organization_id SET NOT NULL;
+
+ALTER TABLE publishing_targets DROP CONSTRAINT IF EXISTS publishing_targets_name_channel_key;
+CREATE UNIQUE INDEX IF NOT EXISTS idx_publishing_targets_org_name_channel
+  ON publishing_targets(organization_id, name, channel);
+
+-- DOWN (for rollback)
+-- DROP INDEX IF EXISTS idx_publishing_targets_org_name_channel;
+-- ALTER TABLE publishing_targets ADD CONSTRAINT publishing_targets_name_channel_key UNIQUE (name, channel);
+-- ALTER TABLE publishing_targets DROP COLUMN IF EXISTS organization_id;
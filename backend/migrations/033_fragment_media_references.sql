@@ -0,0 +1,18 @@
+-- Migration: 033_fragment_media_references
+-- Record the media used by content fragments
+--
+-- Fragments are embedded in posts and pages and can hold images themselves,
+-- so a file only a fragment uses looked unused and could be deleted.
+
+-- UP
+ALTER TABLE media_references DROP CONSTRAINT IF EXISTS media_references_source_type_check;
+ALTER TABLE media_references ADD CONSTRAINT media_references_source_type_check
+  CHECK (source_type IN ('post', 'page', 'fragment', 'organization'));
+
+-- Existing fragments are indexed with: npm run media:index-references
+
+-- DOWN (for rollback)
+-- DELETE FROM media_references WHERE source_type = 'fragment';
+-- ALTER TABLE media_references DROP CONSTRAINT IF EXISTS media_references_source_type_check;
+-- ALTER TABLE media_references ADD CONSTRAINT media_references_source_type_check
+--   CHECK (source_type IN ('post', 'page', 'organization'));
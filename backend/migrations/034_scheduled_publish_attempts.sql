@@ -0,0 +1,21 @@
+-- Migration: 034_scheduled_publish_attempts
+-- Retry state of scheduled posts that fail to publish
+--
+-- A scheduled post that failed to publish stayed due and was retried every
+-- minute, and enough of them filled the job's batch so later posts were
+-- never published. Failures are now counted and retried with a growing
+-- delay until the job gives up; saving the post starts over.
+
+-- UP
+ALTER TABLE posts
+  ADD COLUMN IF NOT EXISTS publish_attempts INTEGER NOT NULL DEFAULT 0,
+  ADD COLUMN IF NOT EXISTS publish_error TEXT,
+  ADD COLUMN IF NOT EXISTS next_publish_attempt_at TIMESTAMP;
+
+COMMENT ON COLUMN posts.publish_error IS 'Why the last scheduled publish attempt failed';
+
+-- DOWN (for rollback)
+-- ALTER TABLE posts
+--   DROP COLUMN IF EXISTS next_publish_attempt_at,
+--   DROP COLUMN IF EXISTS publish_error,
+--   DROP COLUMN IF EXISTS publish_attempts;
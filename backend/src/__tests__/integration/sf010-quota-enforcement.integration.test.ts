@@ -16,30 +16,51 @@ jest.mock('../../utils/database');
 jest.mock('../../services/QuotaService');
 jest.mock('../../services/siteService');
 jest.mock('../../utils/subscriptionCache');
+jest.mock('../../services/MediaUsageService', () => ({
+  mediaUsageService: {
+    syncReferences: jest.fn().mockResolvedValue({ success: true, data: 0 }),
+    listUsages: jest.fn().mockResolvedValue({ success: true, data: [] }),
+    countUsages: jest.fn().mockResolvedValue({ success: true, data: new Map() }),
+  },
+}));
+jest.mock('../../services/MediaDedupService', () => ({
+  ...jest.requireActual('../../services/MediaDedupService'),
+  mediaDedupService: {
+    findByContentHash: jest.fn().mockResolvedValue({ success: true, data: null }),
+  },
+}));
+jest.mock('../../services/MediaStorage', () => ({
+  mediaStorage: {
+    put: jest.fn().mockResolvedValue(undefined),
+    delete: jest.fn().mockResolvedValue(undefined),
+    stat: jest.fn().mockResolvedValue(null),
+  },
+  uniqueStorageKey: jest.fn((originalName: string) => `stored-${originalName}`),
+}));
 jest.mock('multer', () => {
   const multer = () => ({
     single: () => (req: any, res: any, next: any) => {
       req.file = {
-        filename: 'test-file.jpg',
         originalname: 'test.jpg',
         size: 1024,
         mimetype: 'image/jpeg',
+        buffer: Buffer.from('test'),
       };
       next();
     },
     array: () => (req: any, res: any, next: any) => {
       req.files = [
         {
-          filename: 'test-file-1.jpg',
           originalname: 'test1.jpg',
           size: 1024,
           mimetype: 'image/jpeg',
+          buffer: Buffer.from('test'),
         },
       ];
       next();
     },
   });
-  multer.diskStorage = jest.fn();
+  multer.memoryStorage = jest.fn();
   return multer;
 });
 
@@ -0,0 +1,290 @@
+/**
+ * Organization Tenancy Isolation Integration Tests
+ *
+ * Runs the content routes against an in-memory table store that honours the
+ * id / organization_id predicates in each statement, and proves a user from
+ * one organization can neither read nor modify another organization's rows.
+ */
+
+import request from 'supertest';
+import express, { Express } from 'express';
+import postsRouter from '../../routes/posts';
+import pagesRouter from '../../routes/pages';
+import categoriesRouter from '../../routes/categories';
+import mediaRouter from '../../routes/media';
+import adminRouter from '../../routes/admin';
+import menusRouter from '../../routes/menus';
+
+// Mock dependencies
+jest.mock('../../middleware/auth');
+jest.mock('../../utils/database');
+jest.mock('../../services/QuotaService');
+jest.mock('../../middleware/quota', () => ({
+  enforceQuota: () => (req: any, res: any, next: any) => next(),
+  enforceStorageQuota: () => (req: any, res: any, next: any) => next(),
+}));
+
+import { authenticateToken, requireAuthor, requireEditor, requireAdmin } from '../../middleware/auth';
+import { pool, query } from '../../utils/database';
+import { quotaService } from '../../services/QuotaService';
+
+const mockAuth = authenticateToken as jest.MockedFunction<typeof authenticateToken>;
+const mockQuery = query as jest.MockedFunction<typeof query>;
+const mockPool = pool as jest.Mocked<typeof pool>;
+const mockQuotaService = quotaService as jest.Mocked<typeof quotaService>;
+
+const ORG_A = 1;
+const ORG_B = 2;
+
+type Row = Record<string, any>;
+let tables: Record<string, Row[]>;
+let statements: Array<{ sql: string; params: any[] }>;
+
+function seedTables() {
+  tables = {
+    posts: [
+      { id: 10, title: 'A post', slug: 'a-post', status: 'draft', author_id: 1, organization_id: ORG_A },
+      { id: 20, title: 'B post', slug: 'b-post', status: 'draft', author_id: 1, organization_id: ORG_B },
+    ],
+    pages: [
+      { id: 11, title: 'A page', slug: 'a-page', organization_id: ORG_A },
+      { id: 21, title: 'B page', slug: 'b-page', organization_id: ORG_B },
+    ],
+    categories: [
+      { id: 12, name: 'A category', slug: 'a-category', organization_id: ORG_A },
+      { id: 22, name: 'B category', slug: 'b-category', organization_id: ORG_B },
+    ],
+    media_files: [
+      { id: 13, filename: 'a.jpg', organization_id: ORG_A },
+      { id: 23, filename: 'b.jpg', organization_id: ORG_B },
+    ],
+    menu_items: [
+      { id: 14, label: 'A link', domain_id: 1, organization_id: ORG_A },
+      { id: 24, label: 'B link', domain_id: 1, organization_id: ORG_B },
+    ],
+    publishing_targets: [
+      { id: 15, name: 'A newsletter', channel: 'email', organization_id: ORG_A },
+      { id: 25, name: 'B newsletter', channel: 'email', organization_id: ORG_B },
+    ],
+    tags: [],
+    post_tags: [],
+    organization_members: [],
+  };
+}
+
+/**
+ * Minimal SQL stand-in: picks the primary table of the statement and filters
+ * it by `id = $n` and `organization_id = $n` predicates when present.
+ */
+async function fakeQuery(sql: string, params: any[] = []): Promise<any> {
+  statements.push({ sql, params });
+
+  const tableMatch = sql.match(/\b(?:FROM|INTO|UPDATE)\s+(\w+)/i);
+  const table = tableMatch ? tables[tableMatch[1]] : undefined;
+  if (!table) {
+    return { rows: [], rowCount: 0 };
+  }
+
+  if (/^\s*INSERT/i.test(sql)) {
+    const row = { id: 100 + statements.length, organization_id: params[params.length - 1] };
+    table.push(row);
+    return { rows: [row], rowCount: 1 };
+  }
+
+  const idParam = sql.match(/(?:^|[\s.(])id = \$(\d+)/);
+  const orgParam = sql.match(/organization_id = \$(\d+)/);
+  const matches = table.filter((row) =>
+    (!idParam || String(row.id) === String(params[Number(idParam[1]) - 1])) &&
+    (!orgParam || row.organization_id === params[Number(orgParam[1]) - 1])
+  );
+
+  if (/^\s*DELETE/i.test(sql)) {
+    tables[tableMatch![1]] = table.filter((row) => !matches.includes(row));
+  }
+
+  if (/^\s*SELECT\s+COUNT\(/i.test(sql)) {
+    return { rows: [{ count: String(matches.length), total: String(matches.length) }], rowCount: 1 };
+  }
+
+  return { rows: matches, rowCount: matches.length };
+}
+
+function mutationsOn(table: string) {
+  return statements.filter(({ sql }) => new RegExp(`^\\s*(UPDATE|DELETE FROM)\\s+${table}\\b`, 'i').test(sql));
+}
+
+describe('Organization tenancy isolation', () => {
+  let app: Express;
+
+  beforeEach(() => {
+    seedTables();
+    statements = [];
+
+    app = express();
+    app.use(express.json());
+
+    // Every request acts as an admin of organization A
+    mockAuth.mockImplementation((req: any, res: any, next: any) => {
+      req.user = { userId: 1, email: 'a@example.com', role: 'admin', organizationId: ORG_A };
+      next();
+      return undefined as any;
+    });
+    for (const guard of [requireAuthor, requireEditor, requireAdmin]) {
+      (guard as jest.Mock).mockImplementation((req: any, res: any, next: any) => next());
+    }
+
+    mockQuery.mockImplementation(fakeQuery as any);
+    (mockPool as any).query = jest.fn(fakeQuery);
+    (mockPool as any).connect = jest.fn().mockResolvedValue({ query: jest.fn(fakeQuery), release: jest.fn() });
+
+    mockQuotaService.incrementQuota = jest.fn().mockResolvedValue({ success: true, data: {} });
+    mockQuotaService.decrementQuota = jest.fn().mockResolvedValue({ success: true, data: {} });
+
+    app.use('/api/posts', postsRouter);
+    app.use('/api/pages', pagesRouter);
+    app.use('/api/categories', categoriesRouter);
+    app.use('/api/media', mediaRouter);
+    app.use('/api/admin', adminRouter);
+    app.use('/api/menus', menusRouter);
+  });
+
+  afterEach(() => {
+    jest.clearAllMocks();
+  });
+
+  describe('reads', () => {
+    it('lists only the caller organization posts in admin', async () => {
+      const response = await request(app).get('/api/admin/posts');
+
+      expect(response.status).toBe(200);
+      expect(response.body.data.map((p: Row) => p.id)).toEqual([10]);
+      expect(response.body.pagination.totalCount).toBe(1);
+    });
+
+    it('returns 404 for another organization post in admin', async () => {
+      const own = await request(app).get('/api/admin/posts/10');
+      const foreign = await request(app).get('/api/admin/posts/20');
+
+      expect(own.status).toBe(200);
+      expect(foreign.status).toBe(404);
+    });
+
+    it('returns 404 for another organization page in admin', async () => {
+      const response = await request(app).get('/api/admin/pages/21');
+
+      expect(response.status).toBe(404);
+    });
+
+    it('lists only the caller organization categories and media', async () => {
+      const categories = await request(app).get('/api/admin/categories');
+      const media = await request(app).get('/api/media');
+
+      expect(categories.body.data.map((c: Row) => c.id)).toEqual([12]);
+      expect(media.body.mediaFiles.map((m: Row) => m.id)).toEqual([13]);
+    });
+
+    it('returns 404 for another organization media file and menu item', async () => {
+      const media = await request(app).get('/api/media/23');
+      const menuItem = await request(app).get('/api/menus/24');
+
+      expect(media.status).toBe(404);
+      expect(menuItem.status).toBe(404);
+    });
+
+    it('lists only the caller organization publishing targets', async () => {
+      const response = await request(app).get('/api/admin/distribution/targets');
+
+      expect(response.body.data.map((t: Row) => t.id)).toEqual([15]);
+    });
+  });
+
+  describe('writes', () => {
+    it('does not update or delete another organization post', async () => {
+      const update = await request(app).put('/api/posts/20').send({ title: 'Hijacked' });
+      const remove = await request(app).delete('/api/posts/20');
+
+      expect(update.status).toBe(404);
+      expect(remove.status).toBe(404);
+      expect(mutationsOn('posts')).toHaveLength(0);
+      expect(tables.posts.find((p) => p.id === 20)).toBeDefined();
+    });
+
+    it('does not update or delete another organization page or category', async () => {
+      const page = await request(app).put('/api/pages/21').send({ title: 'Hijacked' });
+      const category = await request(app).delete('/api/categories/22');
+
+      expect(page.status).toBe(404);
+      expect(category.status).toBe(404);
+      expect(mutationsOn('pages')).toHaveLength(0);
+      expect(mutationsOn('categories')).toHaveLength(0);
+    });
+
+    it('does not modify another organization media or menu items', async () => {
+      const media = await request(app).delete('/api/media/23');
+      const menuItem = await request(app).delete('/api/menus/24');
+
+      expect(media.status).toBe(404);
+      expect(menuItem.status).toBe(404);
+      expect(tables.media_files).toHaveLength(2);
+      expect(tables.menu_items).toHaveLength(2);
+    });
+
+    it('does not modify or dispatch to another organization publishing target', async () => {
+      const update = await request(app).put('/api/admin/distribution/targets/25').send({ name: 'Hijacked' });
+      const remove = await request(app).delete('/api/admin/distribution/targets/25');
+      const schedule = await request(app)
+        .post('/api/admin/distribution/schedules')
+        .send({ postId: 10, targetId: 25, scheduledFor: '2030-01-01T00:00:00Z' });
+
+      expect(update.status).toBe(404);
+      expect(remove.status).toBe(404);
+      expect(schedule.status).toBe(404);
+      expect(tables.publishing_targets).toHaveLength(2);
+    });
+
+    it('limits bulk actions to the caller organization', async () => {
+      await request(app).post('/api/admin/posts/bulk').send({ action: 'delete', postIds: [10, 20] });
+
+      expect(tables.posts.map((p) => p.id)).toEqual([20]);
+    });
+
+    it('rejects assigning another organization category to a post', async () => {
+      const response = await request(app)
+        .post('/api/posts')
+        .send({ title: 'New post', content: '<p>Body</p>', category_id: 22 });
+
+      expect(response.status).toBe(400);
+      expect(response.body.error).toBe('Category not found');
+    });
+
+    it('stamps new rows with the caller organization', async () => {
+      const post = await request(app).post('/api/posts').send({ title: 'New post', content: '<p>Body</p>' });
+      const page = await request(app).post('/api/pages').send({ title: 'New page', content: '<p>Body</p>' });
+      const category = await request(app).post('/api/categories').send({ name: 'New category' });
+
+      expect(post.status).toBe(201);
+      expect(page.status).toBe(201);
+      expect(category.status).toBe(201);
+
+      const inserts = statements.filter(({ sql }) => /^\s*INSERT INTO (posts|pages|categories)\b/i.test(sql));
+      expect(inserts).toHaveLength(3);
+      for (const insert of inserts) {
+        expect(insert.sql).toContain('organization_id');
+        expect(insert.params[insert.params.length - 1]).toBe(ORG_A);
+      }
+    });
+  });
+
+  it('rejects users without an organization', async () => {
+    mockAuth.mockImplementation((req: any, res: any, next: any) => {
+      req.user = { userId: 5, email: 'orphan@example.com', role: 'admin' };
+      next();
+      return undefined as any;
+    });
+
+    const response = await request(app).get('/api/admin/posts');
+
+    expect(response.status).toBe(403);
+    expect(response.body.code).toBe('ORG_CONTEXT_REQUIRED');
+  });
+});
@@ -0,0 +1,182 @@
+import { describe, it, expect, beforeEach, jest } from '@jest/globals';
+
+// Mock the database pool
+const mockPoolQuery = jest.fn<any>();
+
+jest.mock('../../utils/database', () => ({
+  __esModule: true,
+  default: { query: mockPoolQuery },
+}));
+
+// Mock the version service
+const mockCreateVersion = jest.fn<any>();
+const mockPublishVersion = jest.fn<any>();
+
+jest.mock('../../services/VersionService', () => ({
+  VersionService: jest.fn().mockImplementation(() => ({
+    createVersion: mockCreateVersion,
+    publishVersion: mockPublishVersion,
+  })),
+}));
+
+// Import after mocks
+import { runScheduledPublish, createScheduledPublishJob, MAX_PUBLISH_ATTEMPTS } from '../../jobs/publishScheduledPosts';
+
+const duePost = (overrides: Record<string, any> = {}) => ({
+  id: 10,
+  site_id: 2,
+  title: 'Launch announcement',
+  slug: 'launch-announcement',
+  content: '<p>We are live</p>',
+  excerpt: 'We are live',
+  featured_image: null,
+  category_id: 3,
+  author_id: 7,
+  meta_title: null,
+  meta_description: null,
+  scheduled_at: new Date('2026-01-01T00:00:00Z'),
+  ...overrides,
+});
+
+describe('publishScheduledPosts Job', () => {
+  beforeEach(() => {
+    jest.clearAllMocks();
+    delete process.env.SCHEDULED_PUBLISH_ENABLED;
+  });
+
+  describe('runScheduledPublish', () => {
+    it('should create and publish a version for each due post', async () => {
+      mockPoolQuery.mockResolvedValueOnce({ rows: [duePost(), duePost({ id: 11, site_id: 4 })] });
+      mockCreateVersion
+        .mockResolvedValueOnce({ success: true, data: { id: 100 } })
+        .mockResolvedValueOnce({ success: true, data: { id: 101 } });
+      mockPublishVersion.mockResolvedValue({ success: true, data: {} });
+
+      const result = await runScheduledPublish();
+
+      expect(result.published).toEqual([10, 11]);
+      expect(result.failed).toBe(0);
+      expect(mockPoolQuery.mock.calls[0][0]).toContain("status = 'scheduled'");
+      // Posts without a site go on a site of their organization
+      expect(mockPoolQuery.mock.calls[0][0]).toContain('WHERE s.organization_id = p.organization_id');
+      expect(mockCreateVersion).toHaveBeenCalledWith(
+        expect.objectContaining({
+          site_id: 2,
+          content_type: 'post',
+          content_id: 10,
+          version_type: 'published',
+          data: expect.objectContaining({ status: 'published', category_id: 3 }),
+        }),
+        7,
+        { bypassSiteAccess: true }
+      );
+      expect(mockCreateVersion.mock.calls[1][0]).toEqual(expect.objectContaining({ site_id: 4 }));
+      expect(mockPublishVersion).toHaveBeenCalledWith(100, 7, { bypassWorkflow: true, bypassSiteAccess: true });
+      expect(mockPublishVersion).toHaveBeenCalledWith(101, 7, { bypassWorkflow: true, bypassSiteAccess: true });
+    });
+
+    it('should fail posts whose organization has no site', async () => {
+      mockPoolQuery.mockResolvedValueOnce({ rows: [duePost({ site_id: null })] }).mockResolvedValueOnce({ rows: [] });
+
+      const result = await runScheduledPublish();
+
+      expect(result.failed).toBe(1);
+      expect(result.errors[0]).toContain('has no site');
+      expect(mockCreateVersion).not.toHaveBeenCalled();
+    });
+
+    it('should continue with remaining posts when one fails', async () => {
+      mockPoolQuery.mockResolvedValueOnce({ rows: [duePost(), duePost({ id: 11 })] });
+      mockCreateVersion
+        .mockResolvedValueOnce({ success: false, error: 'Access denied: User does not have permission for this site' })
+        .mockResolvedValueOnce({ success: true, data: { id: 101 } });
+      mockPublishVersion.mockResolvedValue({ success: true, data: {} });
+
+      const result = await runScheduledPublish();
+
+      expect(result.published).toEqual([11]);
+      expect(result.failed).toBe(1);
+      expect(result.errors[0]).toContain('Post 10');
+      expect(mockPublishVersion).toHaveBeenCalledTimes(1);
+    });
+
+    it('should report publish failures', async () => {
+      mockPoolQuery.mockResolvedValueOnce({ rows: [duePost()] });
+      mockCreateVersion.mockResolvedValueOnce({ success: true, data: { id: 100 } });
+      mockPublishVersion.mockResolvedValueOnce({ success: false, error: 'Version not found' });
+
+      const result = await runScheduledPublish();
+
+      expect(result.published).toEqual([]);
+      expect(result.failed).toBe(1);
+      expect(result.errors[0]).toContain('Version not found');
+    });
+
+    it('should record failures so the post is retried later', async () => {
+      mockPoolQuery.mockResolvedValueOnce({ rows: [duePost()] }).mockResolvedValueOnce({ rows: [] });
+      mockCreateVersion.mockResolvedValueOnce({ success: false, error: 'Site not found' });
+
+      await runScheduledPublish();
+
+      const [sql, params] = mockPoolQuery.mock.calls[1] as [string, any[]];
+      expect(sql).toContain('publish_attempts = publish_attempts + 1');
+      expect(sql).toContain('next_publish_attempt_at = NOW() + make_interval');
+      expect(params).toEqual([10, 'Site not found']);
+    });
+
+    it('should skip posts waiting to be retried or given up on', async () => {
+      mockPoolQuery.mockResolvedValueOnce({ rows: [] });
+
+      await runScheduledPublish();
+
+      const [sql, params] = mockPoolQuery.mock.calls[0] as [string, any[]];
+      expect(sql).toContain('publish_attempts < $2');
+      expect(sql).toContain('next_publish_attempt_at <= NOW()');
+      expect(params).toEqual([50, MAX_PUBLISH_ATTEMPTS]);
+    });
+
+    it('should clear the retry state once a failed post is published', async () => {
+      mockPoolQuery.mockResolvedValueOnce({ rows: [duePost({ publish_attempts: 2 })] }).mockResolvedValueOnce({ rows: [] });
+      mockCreateVersion.mockResolvedValueOnce({ success: true, data: { id: 100 } });
+      mockPublishVersion.mockResolvedValueOnce({ success: true, data: {} });
+
+      const result = await runScheduledPublish();
+
+      expect(result.published).toEqual([10]);
+      expect(mockPoolQuery.mock.calls[1][0]).toContain('SET publish_attempts = 0');
+    });
+
+    it('should do nothing when no posts are due', async () => {
+      mockPoolQuery.mockResolvedValueOnce({ rows: [] });
+
+      const result = await runScheduledPublish();
+
+      expect(result.published).toEqual([]);
+      expect(mockCreateVersion).not.toHaveBeenCalled();
+    });
+
+    it('should handle query exceptions gracefully', async () => {
+      mockPoolQuery.mockRejectedValueOnce(new Error('Connection refused'));
+
+      const result = await runScheduledPublish();
+
+      expect(result.errors[0]).toContain('Connection refused');
+    });
+  });
+
+  describe('createScheduledPublishJob', () => {
+    it('should create a CronJob', () => {
+      const job = createScheduledPublishJob();
+
+      expect(job).not.toBeNull();
+      expect(typeof job!.start).toBe('function');
+      expect(() => job!.stop()).not.toThrow();
+    });
+
+    it('should return null when disabled via environment variable', () => {
+      process.env.SCHEDULED_PUBLISH_ENABLED = 'false';
+
+      expect(createScheduledPublishJob()).toBeNull();
+    });
+  });
+});
@@ -0,0 +1,113 @@
+import { Request, Response, NextFunction } from 'express';
+
+const mockPoolQuery = jest.fn();
+const mockDetectConflict = jest.fn();
+
+// Mock dependencies
+jest.mock('../../utils/database', () => ({
+  __esModule: true,
+  default: { query: (...args: unknown[]) => mockPoolQuery(...args) },
+  pool: { query: (...args: unknown[]) => mockPoolQuery(...args) },
+}));
+
+jest.mock('../../services/VersionService', () => ({
+  VersionService: jest.fn().mockImplementation(() => ({
+    detectConflict: mockDetectConflict,
+  })),
+}));
+
+import { checkEditConflict } from '../../middleware/editConflict';
+import { ContentType } from '../../types/versioning';
+
+describe('checkEditConflict Middleware', () => {
+  let mockRequest: Partial<Request>;
+  let mockResponse: Partial<Response>;
+  let nextFunction: NextFunction;
+
+  beforeEach(() => {
+    jest.clearAllMocks();
+    mockRequest = {
+      params: { id: '12' },
+      body: { title: 'My title', content: '<p>Mine</p>', base_version_number: 5 },
+      user: { userId: 1, email: 'alice@example.com', role: 'editor' },
+      organizationId: 7,
+    };
+    mockResponse = {
+      status: jest.fn().mockReturnThis(),
+      json: jest.fn().mockReturnThis(),
+    };
+    nextFunction = jest.fn();
+  });
+
+  it('should skip the check when the client sends no base', async () => {
+    delete mockRequest.body.base_version_number;
+
+    await checkEditConflict(ContentType.POST)(mockRequest as Request, mockResponse as Response, nextFunction);
+
+    expect(nextFunction).toHaveBeenCalled();
+    expect(mockPoolQuery).not.toHaveBeenCalled();
+  });
+
+  it('should let the save through when nobody else changed the content', async () => {
+    mockPoolQuery.mockResolvedValueOnce({ rows: [{ site_id: 3 }] });
+    mockDetectConflict.mockResolvedValueOnce({ success: true, data: null });
+
+    await checkEditConflict(ContentType.POST)(mockRequest as Request, mockResponse as Response, nextFunction);
+
+    const [sql, params] = mockPoolQuery.mock.calls[0];
+    expect(sql).toContain('FROM posts c WHERE c.id = $1 AND c.organization_id = $2');
+    expect(params).toEqual([12, 7]);
+    expect(mockDetectConflict).toHaveBeenCalledWith(3, 'post', 12, { version_number: 5 }, 1);
+    expect(nextFunction).toHaveBeenCalled();
+  });
+
+  it('should respond 409 with a diff from the base to the current version', async () => {
+    const base = { id: 40, site_id: 3, version_number: 5, title: 'Title', content: '<p>Original</p>', created_by: 1 };
+    const current = { id: 42, site_id: 3, version_number: 6, title: 'Title', content: '<p>Theirs</p>', created_by: 2 };
+    mockPoolQuery
+      .mockResolvedValueOnce({ rows: [{ site_id: 3 }] })
+      .mockResolvedValueOnce({ rows: [{ id: 2, email: 'bob@example.com', first_name: 'Bob' }] });
+    mockDetectConflict.mockResolvedValueOnce({
+      success: true,
+      data: { base_version: base, current_version: current },
+    });
+
+    await checkEditConflict(ContentType.POST)(mockRequest as Request, mockResponse as Response, nextFunction);
+
+    expect(nextFunction).not.toHaveBeenCalled();
+    expect(mockResponse.status).toHaveBeenCalledWith(409);
+    const body = (mockResponse.json as jest.Mock).mock.calls[0][0];
+    expect(body.code).toBe('CONFLICT');
+    expect(body.conflict).toMatchObject({
+      base_version_number: 5,
+      current_version: current,
+      changed_by: { id: 2, email: 'bob@example.com' },
+    });
+    expect(body.conflict.diff.leftVersion).toBe(base);
+    expect(body.conflict.diff.rightVersion).toBe(current);
+    expect(body.conflict.diff.statistics.totalChanges).toBeGreaterThan(0);
+  });
+
+  it('should read the content type from the route for auto-saves', async () => {
+    mockRequest.params = { contentType: 'page', contentId: '8' };
+    delete mockRequest.organizationId;
+    mockPoolQuery.mockResolvedValueOnce({ rows: [{ site_id: 4 }] });
+    mockDetectConflict.mockResolvedValueOnce({ success: true, data: null });
+
+    await checkEditConflict()(mockRequest as Request, mockResponse as Response, nextFunction);
+
+    expect(mockPoolQuery.mock.calls[0][0]).toContain('FROM pages c WHERE c.id = $1');
+    expect(mockPoolQuery.mock.calls[0][1]).toEqual([8]);
+    expect(mockDetectConflict).toHaveBeenCalledWith(4, 'page', 8, { version_number: 5 }, 1);
+    expect(nextFunction).toHaveBeenCalled();
+  });
+
+  it('should check content without a site against a site of its organization', async () => {
+    mockPoolQuery.mockResolvedValueOnce({ rows: [{ site_id: 3 }] });
+    mockDetectConflict.mockResolvedValueOnce({ success: true, data: null });
+
+    await checkEditConflict(ContentType.POST)(mockRequest as Request, mockResponse as Response, nextFunction);
+
+    expect(mockPoolQuery.mock.calls[0][0]).toContain('WHERE s.organization_id = c.organization_id');
+  });
+});
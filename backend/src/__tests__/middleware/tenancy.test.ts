@@ -0,0 +1,103 @@
+import { Request, Response, NextFunction } from 'express';
+import { requireOrganization, resolveOrganizationId } from '../../middleware/tenancy';
+
+// Mock dependencies
+jest.mock('../../utils/database');
+
+import { query } from '../../utils/database';
+
+const mockQuery = query as jest.MockedFunction<typeof query>;
+
+describe('requireOrganization Middleware', () => {
+  let mockRequest: Partial<Request>;
+  let mockResponse: Partial<Response>;
+  let nextFunction: NextFunction;
+
+  beforeEach(() => {
+    mockRequest = {
+      user: {
+        userId: 1,
+        email: 'test@example.com',
+        role: 'admin',
+        organizationId: 7,
+      },
+    };
+    mockResponse = {
+      status: jest.fn().mockReturnThis(),
+      json: jest.fn().mockReturnThis(),
+    };
+    nextFunction = jest.fn();
+    jest.clearAllMocks();
+  });
+
+  it('should use the organizationId claim from the JWT', async () => {
+    await requireOrganization(mockRequest as Request, mockResponse as Response, nextFunction);
+
+    expect(mockRequest.organizationId).toBe(7);
+    expect(nextFunction).toHaveBeenCalled();
+    expect(mockQuery).not.toHaveBeenCalled();
+  });
+
+  it('should fall back to req.organizationId set by earlier middleware', async () => {
+    delete mockRequest.user!.organizationId;
+    mockRequest.organizationId = 4;
+
+    await requireOrganization(mockRequest as Request, mockResponse as Response, nextFunction);
+
+    expect(mockRequest.user!.organizationId).toBe(4);
+    expect(nextFunction).toHaveBeenCalled();
+  });
+
+  it('should look up current_organization_id for legacy tokens', async () => {
+    delete mockRequest.user!.organizationId;
+    mockQuery.mockResolvedValueOnce({ rows: [{ current_organization_id: 3 }] } as any);
+
+    await requireOrganization(mockRequest as Request, mockResponse as Response, nextFunction);
+
+    expect(mockQuery).toHaveBeenCalledWith(
+      'SELECT current_organization_id FROM users WHERE id = $1',
+      [1]
+    );
+    expect(mockRequest.organizationId).toBe(3);
+    expect(nextFunction).toHaveBeenCalled();
+  });
+
+  it('should return 403 when the user has no organization', async () => {
+    delete mockRequest.user!.organizationId;
+    mockQuery.mockResolvedValueOnce({ rows: [{ current_organization_id: null }] } as any);
+
+    await requireOrganization(mockRequest as Request, mockResponse as Response, nextFunction);
+
+    expect(mockResponse.status).toHaveBeenCalledWith(403);
+    expect(mockResponse.json).toHaveBeenCalledWith({
+      error: 'Organization context required',
+      code: 'ORG_CONTEXT_REQUIRED',
+    });
+    expect(nextFunction).not.toHaveBeenCalled();
+  });
+
+  it('should return 401 when the request is not authenticated', async () => {
+    delete mockRequest.user;
+
+    await requireOrganization(mockRequest as Request, mockResponse as Response, nextFunction);
+
+    expect(mockResponse.status).toHaveBeenCalledWith(401);
+    expect(nextFunction).not.toHaveBeenCalled();
+  });
+
+  it('should return 500 when the lookup fails', async () => {
+    delete mockRequest.user!.organizationId;
+    mockQuery.mockRejectedValueOnce(new Error('Connection refused'));
+
+    await requireOrganization(mockRequest as Request, mockResponse as Response, nextFunction);
+
+    expect(mockResponse.status).toHaveBeenCalledWith(500);
+    expect(nextFunction).not.toHaveBeenCalled();
+  });
+});
+
+describe('resolveOrganizationId', () => {
+  it('should return null without an authenticated user', async () => {
+    await expect(resolveOrganizationId({} as Request)).resolves.toBeNull();
+  });
+});
@@ -0,0 +1,173 @@
+import request from 'supertest';
+import express from 'express';
+import categoriesRouter from '../../routes/categories';
+import { query } from '../../utils/database';
+import {
+  deleteCategory,
+  getCategoryAncestors,
+  getCategoryChildren,
+  getCategoryMoveUpClashes,
+  moveCategory
+} from '../../db/categories';
+
+// Mock dependencies
+jest.mock('../../utils/database', () => ({
+  query: jest.fn()
+}));
+jest.mock('../../db/categories', () => ({
+  ...jest.requireActual('../../db/categories'),
+  getCategoryAncestors: jest.fn(),
+  getCategoryChildren: jest.fn(),
+  getCategoryMoveUpClashes: jest.fn(),
+  moveCategory: jest.fn(),
+  deleteCategory: jest.fn()
+}));
+jest.mock('../../middleware/apiKey', () => ({
+  authenticate: jest.fn((req, res, next) => {
+    req.user = { userId: 1, email: 'editor@test.com', role: 'editor' };
+    next();
+  }),
+  requireScope: jest.fn(() => (req: any, res: any, next: any) => next())
+}));
+jest.mock('../../middleware/auth', () => ({
+  requireEditor: jest.fn((req, res, next) => next())
+}));
+jest.mock('../../middleware/tenancy', () => ({
+  requireOrganization: jest.fn((req, res, next) => {
+    req.organizationId = 5;
+    next();
+  })
+}));
+jest.mock('../../utils/publicCache', () => ({
+  invalidatePublicCaches: jest.fn()
+}));
+
+const mockQuery = query as jest.MockedFunction<typeof query>;
+const mockGetAncestors = getCategoryAncestors as jest.MockedFunction<typeof getCategoryAncestors>;
+const mockGetChildren = getCategoryChildren as jest.MockedFunction<typeof getCategoryChildren>;
+const mockMoveCategory = moveCategory as jest.MockedFunction<typeof moveCategory>;
+const mockDeleteCategory = deleteCategory as jest.MockedFunction<typeof deleteCategory>;
+const mockGetMoveUpClashes = getCategoryMoveUpClashes as jest.MockedFunction<typeof getCategoryMoveUpClashes>;
+
+const category = (overrides: Record<string, unknown> = {}) => ({
+  id: 7,
+  organization_id: 5,
+  name: 'JavaScript',
+  slug: 'javascript',
+  parent_id: 3,
+  path: 'tech/javascript',
+  description: null,
+  seo_indexed: true,
+  ...overrides,
+});
+
+const app = express();
+app.use(express.json());
+app.use('/api/categories', categoriesRouter);
+
+describe('Category Routes', () => {
+  beforeEach(() => {
+    jest.clearAllMocks();
+  });
+
+  describe('GET /api/categories/:path', () => {
+    it('should find nested categories by path with breadcrumbs and subcategories', async () => {
+      mockQuery
+        .mockResolvedValueOnce({ rows: [category({ post_count: '3' })] } as any)
+        .mockResolvedValueOnce({ rows: [{ id: 20, title: 'Closures' }] } as any);
+      mockGetAncestors.mockResolvedValue([{ id: 3, name: 'Tech', slug: 'tech', path: 'tech' }]);
+      mockGetChildren.mockResolvedValue([{ id: 9, name: 'React', slug: 'react', path: 'tech/javascript/react' }]);
+
+      const response = await request(app).get('/api/categories/tech/javascript');
+
+      expect(response.status).toBe(200);
+      expect(mockQuery.mock.calls[0][1]).toEqual(['tech/javascript']);
+      expect(mockGetAncestors).toHaveBeenCalledWith(5, 'tech/javascript');
+      expect(response.body.category).toMatchObject({
+        path: 'tech/javascript',
+        ancestors: [{ name: 'Tech', path: 'tech' }],
+        children: [{ name: 'React', path: 'tech/javascript/react' }],
+      });
+      expect(response.body.pagination.totalCount).toBe(3);
+    });
+
+    it('should return 404 for an unknown path', async () => {
+      mockQuery.mockResolvedValueOnce({ rows: [] } as any);
+
+      await request(app).get('/api/categories/tech/nope').expect(404);
+    });
+  });
+
+  describe('POST /api/categories', () => {
+    it('should place a new category under its parent', async () => {
+      mockQuery
+        .mockResolvedValueOnce({ rows: [category({ id: 3, slug: 'tech', path: 'tech', parent_id: null })] } as any)
+        .mockResolvedValueOnce({ rows: [] } as any)
+        .mockResolvedValueOnce({ rows: [category()] } as any);
+
+      await request(app)
+        .post('/api/categories')
+        .send({ name: 'JavaScript', slug: 'javascript', parent_id: 3 })
+        .expect(201);
+
+      expect(mockQuery.mock.calls[1][1]).toEqual(['javascript', 5]);
+      expect(mockQuery.mock.calls[2][1]).toEqual(['JavaScript', 'javascript', undefined, true, 3, 'tech/javascript', 5]);
+    });
+
+    it('should reject slugs containing a slash', async () => {
+      await request(app).post('/api/categories').send({ name: 'JS', slug: 'tech/js' }).expect(400);
+      expect(mockQuery).not.toHaveBeenCalled();
+    });
+  });
+
+  describe('PUT /api/categories/:id', () => {
+    it('should not move a category below one of its subcategories', async () => {
+      mockQuery
+        .mockResolvedValueOnce({ rows: [category({ id: 3, slug: 'tech', path: 'tech', parent_id: null })] } as any)
+        .mockResolvedValueOnce({ rows: [category()] } as any);
+
+      const response = await request(app).put('/api/categories/3').send({ parent_id: 7 }).expect(400);
+
+      expect(response.body.error).toBe('A category cannot be moved below itself');
+      expect(mockMoveCategory).not.toHaveBeenCalled();
+    });
+
+    it('should move a category and its subtree to a new parent', async () => {
+      const docs = category({ id: 11, slug: 'docs', path: 'docs', parent_id: null });
+      mockQuery
+        .mockResolvedValueOnce({ rows: [category()] } as any)
+        .mockResolvedValueOnce({ rows: [category({ id: 3, slug: 'tech', path: 'tech', parent_id: null })] } as any)
+        .mockResolvedValueOnce({ rows: [docs] } as any)
+        .mockResolvedValueOnce({ rows: [category({ parent_id: 11, path: 'docs/javascript' })] } as any);
+
+      const response = await request(app).put('/api/categories/7').send({ parent_id: 11 }).expect(200);
+
+      expect(mockMoveCategory).toHaveBeenCalledWith(expect.objectContaining({ id: 7 }), 'javascript', docs);
+      expect(response.body.data.path).toBe('docs/javascript');
+    });
+  });
+
+  describe('DELETE /api/categories/:id', () => {
+    it('should move posts and subcategories up to the parent', async () => {
+      mockQuery.mockResolvedValueOnce({ rows: [category()] } as any);
+      mockGetMoveUpClashes.mockResolvedValue([]);
+      mockDeleteCategory.mockResolvedValue({ postsMoved: 4 });
+
+      const response = await request(app).delete('/api/categories/7').expect(200);
+
+      expect(mockDeleteCategory).toHaveBeenCalledWith(expect.objectContaining({ id: 7, parent_id: 3 }));
+      expect(response.body.postsMoved).toBe(4);
+    });
+
+    it('should refuse when subcategories would clash with categories of the parent', async () => {
+      mockQuery.mockResolvedValueOnce({ rows: [category()] } as any);
+      mockGetMoveUpClashes.mockResolvedValue(['Frameworks']);
+
+      const response = await request(app).delete('/api/categories/7').expect(409);
+
+      expect(response.body.conflicts).toEqual(['Frameworks']);
+      expect(response.body.error).toContain('Frameworks');
+      expect(mockDeleteCategory).not.toHaveBeenCalled();
+    });
+  });
+});
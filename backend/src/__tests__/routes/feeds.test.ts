@@ -0,0 +1,222 @@
+import request from 'supertest';
+import express from 'express';
+import feedsRouter from '../../routes/feeds';
+import { query } from '../../utils/database';
+import { listPublishedPosts } from '../../db/posts';
+import { fragmentService } from '../../services/FragmentService';
+
+// Mock dependencies
+jest.mock('../../utils/database', () => ({
+  query: jest.fn()
+}));
+jest.mock('../../db/posts', () => ({
+  listPublishedPosts: jest.fn()
+}));
+jest.mock('../../services/FragmentService', () => ({
+  fragmentService: { renderFragments: jest.fn() }
+}));
+
+const mockQuery = query as jest.MockedFunction<typeof query>;
+const mockListPublishedPosts = listPublishedPosts as jest.MockedFunction<typeof listPublishedPosts>;
+const mockRenderFragments = fragmentService.renderFragments as jest.MockedFunction<typeof fragmentService.renderFragments>;
+
+const app = express();
+app.use((req, res, next) => {
+  (req as any).domain = { id: 4 };
+  next();
+});
+app.use('/', feedsRouter);
+
+const post = {
+  id: 10,
+  title: 'Fish & Chips',
+  slug: 'fish-and-chips',
+  excerpt: 'A short history',
+  content: '<p>Read <a href="/blog/batter">more</a></p><img src="/uploads/fish.jpg"> ]]> done',
+  featured_image: '/uploads/cover.jpg',
+  created_at: new Date('2026-03-01T10:00:00Z'),
+  updated_at: new Date('2026-03-02T12:00:00Z'),
+  locale: 'en',
+  category_name: 'Food',
+  category_slug: 'food',
+  first_name: 'Rae',
+  last_name: 'Lin',
+  tags: [{ id: 1, name: 'history', slug: 'history' }],
+};
+
+const mockSite = (settings: Record<string, unknown> = {}) => {
+  mockQuery
+    .mockResolvedValueOnce({
+      rows: [{ title: 'Kitchen Notes', name: 'Main', description: 'Recipes', settings: { default_locale: 'en', locales: ['en', 'de'], ...settings } }]
+    } as any)
+    .mockResolvedValueOnce({ rows: [{ key: 'site_title', value: 'My Personal CMS' }] } as any);
+};
+
+describe('Feed Routes', () => {
+  beforeEach(() => {
+    jest.clearAllMocks();
+    mockListPublishedPosts.mockResolvedValue({ posts: [{ ...post }], totalCount: 1 });
+    mockRenderFragments.mockImplementation(async (html) => html);
+  });
+
+  describe('GET /feed.xml', () => {
+    it('should render the site RSS feed with full content and caching headers', async () => {
+      mockSite();
+
+      const response = await request(app).get('/feed.xml').set('Host', 'blog.example.com');
+
+      expect(response.status).toBe(200);
+      expect(response.headers['content-type']).toBe('application/rss+xml; charset=utf-8');
+      expect(response.headers['cache-control']).toBe('public, max-age=900');
+      expect(response.headers['last-modified']).toBe('Mon, 02 Mar 2026 12:00:00 GMT');
+      expect(response.headers.etag).toBeDefined();
+
+      expect(response.text).toContain('<title>Kitchen Notes</title>');
+      expect(response.text).toContain('<title>Fish &amp; Chips</title>');
+      expect(response.text).toContain('<link>http://blog.example.com/blog/fish-and-chips</link>');
+      expect(response.text).toContain('<atom:link href="http://blog.example.com/feed.xml" rel="self"');
+      expect(response.text).toContain('<category>Food</category>');
+      expect(response.text).toContain('<category>history</category>');
+      expect(response.text).toContain('<content:encoded><![CDATA[<p>Read <a href="http://blog.example.com/blog/batter">more</a></p><img src="http://blog.example.com/uploads/fish.jpg"> ]]]]><![CDATA[> done]]></content:encoded>');
+
+      expect(mockListPublishedPosts).toHaveBeenCalledWith(expect.objectContaining({
+        domainId: 4,
+        category: undefined,
+        tag: undefined,
+        locale: undefined,
+        limit: 20
+      }));
+    });
+
+    it('should answer a conditional request with 304', async () => {
+      mockSite();
+      const first = await request(app).get('/feed.xml').set('Host', 'blog.example.com');
+
+      mockSite();
+      const second = await request(app)
+        .get('/feed.xml')
+        .set('Host', 'blog.example.com')
+        .set('If-None-Match', first.headers.etag);
+
+      expect(second.status).toBe(304);
+    });
+  });
+
+  describe('GET /atom.xml', () => {
+    it('should only include excerpts when the site is set to', async () => {
+      mockSite({ feed_content: 'excerpt' });
+
+      const response = await request(app).get('/atom.xml');
+
+      expect(response.status).toBe(200);
+      expect(response.headers['content-type']).toBe('application/atom+xml; charset=utf-8');
+      expect(response.text).toContain('<summary type="html">A short history</summary>');
+      expect(response.text).not.toContain('<content');
+    });
+
+    it('should resolve embedded fragments in the content', async () => {
+      mockSite();
+      mockListPublishedPosts.mockResolvedValue({
+        posts: [{ ...post, organization_id: 5, content: '<p>{{fragment:bio}}</p>' }],
+        totalCount: 1
+      });
+      mockRenderFragments.mockResolvedValue('<div class="content-fragment" data-fragment="bio">About me</div>');
+
+      const response = await request(app).get('/atom.xml');
+
+      expect(mockRenderFragments).toHaveBeenCalledWith('<p>{{fragment:bio}}</p>', 5);
+      expect(response.text).toContain('data-fragment=&quot;bio&quot;');
+      expect(response.text).not.toContain('{{fragment:bio}}');
+    });
+  });
+
+  describe('GET /category/:slug/feed.json', () => {
+    it('should render a JSON feed of the category', async () => {
+      mockSite();
+      mockQuery.mockResolvedValueOnce({ rows: [{ name: 'Food', description: 'All about food' }] } as any);
+
+      const response = await request(app).get('/category/food/feed.json');
+
+      expect(response.status).toBe(200);
+      expect(response.headers['content-type']).toBe('application/feed+json; charset=utf-8');
+      expect(mockQuery.mock.calls[2][1]).toEqual(['food', 4]);
+      expect(mockListPublishedPosts).toHaveBeenCalledWith(expect.objectContaining({ category: 'food' }));
+
+      const feed = JSON.parse(response.text);
+      expect(feed).toMatchObject({
+        version: 'https://jsonfeed.org/version/1.1',
+        title: 'Kitchen Notes: Food',
+        description: 'All about food',
+        language: 'en',
+      });
+      expect(feed.home_page_url).toMatch(/\/category\/food$/);
+      expect(feed.items[0]).toMatchObject({
+        title: 'Fish & Chips',
+        summary: 'A short history',
+        authors: [{ name: 'Rae Lin' }],
+        tags: ['Food', 'history'],
+        date_published: '2026-03-01T10:00:00.000Z',
+      });
+      expect(feed.items[0].image).toMatch(/^http:\/\/.+\/uploads\/cover\.jpg$/);
+    });
+
+    it('should serve feeds of nested categories', async () => {
+      mockSite();
+      mockQuery.mockResolvedValueOnce({ rows: [{ name: 'Baking', description: null }] } as any);
+
+      const response = await request(app).get('/category/food/baking/feed.json');
+
+      expect(response.status).toBe(200);
+      expect(mockQuery.mock.calls[2][1]).toEqual(['food/baking', 4]);
+      expect(mockListPublishedPosts).toHaveBeenCalledWith(expect.objectContaining({ category: 'food/baking' }));
+      expect(JSON.parse(response.text).home_page_url).toMatch(/\/category\/food\/baking$/);
+    });
+
+    it('should return 404 for an unknown category', async () => {
+      mockSite();
+      mockQuery.mockResolvedValueOnce({ rows: [] } as any);
+
+      const response = await request(app).get('/category/nope/feed.json');
+
+      expect(response.status).toBe(404);
+      expect(mockListPublishedPosts).not.toHaveBeenCalled();
+    });
+  });
+
+  describe('GET /:locale/tag/:slug/feed.xml', () => {
+    it('should list the tag in the requested language', async () => {
+      mockSite();
+      mockQuery.mockResolvedValueOnce({ rows: [{ name: 'Geschichte' }] } as any);
+      mockListPublishedPosts.mockResolvedValue({ posts: [{ ...post, slug: 'fisch', locale: 'de' }], totalCount: 1 });
+
+      const response = await request(app).get('/de/tag/geschichte/feed.xml').set('Host', 'blog.example.com');
+
+      expect(response.status).toBe(200);
+      expect(mockListPublishedPosts).toHaveBeenCalledWith(expect.objectContaining({ tag: 'geschichte', locale: 'de' }));
+      expect(response.text).toContain('<language>de</language>');
+      expect(response.text).toContain('<link>http://blog.example.com/de/tag/geschichte</link>');
+      expect(response.text).toContain('<link>http://blog.example.com/de/blog/fisch</link>');
+    });
+
+    it('should only find tags of the organization of the request domain', async () => {
+      mockSite();
+      mockQuery.mockResolvedValueOnce({ rows: [] } as any);
+
+      const response = await request(app).get('/tag/geschichte/feed.xml');
+
+      expect(response.status).toBe(404);
+      const [sql, params] = mockQuery.mock.calls[2];
+      expect(sql).toContain('SELECT organization_id FROM sites');
+      expect(params).toEqual(['geschichte', null, 4]);
+      expect(mockListPublishedPosts).not.toHaveBeenCalled();
+    });
+
+    it('should return 404 for a language the site has not enabled', async () => {
+      mockSite();
+
+      const response = await request(app).get('/fr/feed.xml');
+
+      expect(response.status).toBe(404);
+    });
+  });
+});
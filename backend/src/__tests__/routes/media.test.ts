@@ -0,0 +1,560 @@
+import request from 'supertest';
+import express from 'express';
+import sharp from 'sharp';
+import mediaRouter from '../../routes/media';
+import { query } from '../../utils/database';
+import {
+  deleteMediaFolder,
+  findMediaFolder,
+  getMediaFile,
+  getMediaFolderMoveUpClashes,
+  listMediaFiles,
+  moveMediaFiles,
+  tagMediaFiles,
+  updateMediaFolder
+} from '../../db/media';
+import { mediaStorage, uniqueStorageKey } from '../../services/MediaStorage';
+import { imageTransformService, signImageTransform } from '../../services/ImageTransformService';
+import { quotaService } from '../../services/QuotaService';
+import { mediaUsageService } from '../../services/MediaUsageService';
+import { contentHash, mediaDedupService } from '../../services/MediaDedupService';
+import { ServiceErrorCode } from '../../types/versioning';
+
+// Mock dependencies
+jest.mock('../../utils/database', () => ({
+  query: jest.fn()
+}));
+jest.mock('../../db/media', () => ({
+  ...jest.requireActual('../../db/media'),
+  listMediaFiles: jest.fn(),
+  getMediaFile: jest.fn(),
+  findMediaFolder: jest.fn(),
+  updateMediaFolder: jest.fn(),
+  deleteMediaFolder: jest.fn(),
+  getMediaFolderMoveUpClashes: jest.fn(),
+  moveMediaFiles: jest.fn(),
+  tagMediaFiles: jest.fn()
+}));
+jest.mock('../../services/MediaStorage', () => ({
+  mediaStorage: {
+    stat: jest.fn(),
+    put: jest.fn(),
+    delete: jest.fn()
+  },
+  uniqueStorageKey: jest.fn()
+}));
+jest.mock('../../services/ImageTransformService', () => ({
+  ...jest.requireActual('../../services/ImageTransformService'),
+  imageTransformService: {
+    deleteDerivatives: jest.fn()
+  }
+}));
+jest.mock('../../services/QuotaService', () => ({
+  quotaService: {
+    incrementQuota: jest.fn(),
+    decrementQuota: jest.fn()
+  }
+}));
+jest.mock('../../services/MediaUsageService', () => ({
+  mediaUsageService: {
+    listUsages: jest.fn(),
+    countUsages: jest.fn()
+  }
+}));
+jest.mock('../../services/MediaDedupService', () => ({
+  ...jest.requireActual('../../services/MediaDedupService'),
+  mediaDedupService: {
+    findByContentHash: jest.fn(),
+    findNearDuplicates: jest.fn(),
+    mergeMediaFiles: jest.fn()
+  }
+}));
+const mockStorageQuotaCheck = jest.fn((req: any, res: any, next: any) => next());
+jest.mock('../../middleware/quota', () => ({
+  enforceStorageQuota: () => (req: any, res: any, next: any) => mockStorageQuotaCheck(req, res, next)
+}));
+jest.mock('../../middleware/apiKey', () => ({
+  authenticate: jest.fn((req, res, next) => {
+    req.user = { userId: 1, email: 'author@test.com', role: 'author', organizationId: 5 };
+    next();
+  }),
+  requireScope: jest.fn(() => (req: any, res: any, next: any) => next())
+}));
+jest.mock('../../middleware/auth', () => ({
+  requireAuthor: jest.fn((req, res, next) => next())
+}));
+jest.mock('../../middleware/tenancy', () => ({
+  requireOrganization: jest.fn((req, res, next) => {
+    req.organizationId = 5;
+    next();
+  })
+}));
+
+const mockQuery = query as jest.MockedFunction<typeof query>;
+const mockListMediaFiles = listMediaFiles as jest.MockedFunction<typeof listMediaFiles>;
+const mockGetMediaFile = getMediaFile as jest.MockedFunction<typeof getMediaFile>;
+const mockFindMediaFolder = findMediaFolder as jest.MockedFunction<typeof findMediaFolder>;
+const mockUpdateMediaFolder = updateMediaFolder as jest.MockedFunction<typeof updateMediaFolder>;
+const mockDeleteMediaFolder = deleteMediaFolder as jest.MockedFunction<typeof deleteMediaFolder>;
+const mockGetMoveUpClashes = getMediaFolderMoveUpClashes as jest.MockedFunction<typeof getMediaFolderMoveUpClashes>;
+const mockMoveMediaFiles = moveMediaFiles as jest.MockedFunction<typeof moveMediaFiles>;
+const mockTagMediaFiles = tagMediaFiles as jest.MockedFunction<typeof tagMediaFiles>;
+const mockStorage = mediaStorage as jest.Mocked<typeof mediaStorage>;
+const mockImageTransformService = imageTransformService as jest.Mocked<typeof imageTransformService>;
+const mockQuotaService = quotaService as jest.Mocked<typeof quotaService>;
+const mockMediaUsageService = mediaUsageService as jest.Mocked<typeof mediaUsageService>;
+const mockMediaDedupService = mediaDedupService as jest.Mocked<typeof mediaDedupService>;
+
+const folder = (overrides: Record<string, unknown> = {}) => ({
+  id: 4,
+  organization_id: 5,
+  parent_id: null,
+  name: 'Products',
+  slug: 'products',
+  path: 'products',
+  ...overrides,
+});
+
+const app = express();
+app.use(express.json());
+app.use('/api/media', mediaRouter);
+
+describe('Media Routes', () => {
+  beforeEach(() => {
+    jest.clearAllMocks();
+    mockMediaUsageService.countUsages.mockResolvedValue({ success: true, data: new Map() });
+    mockMediaDedupService.findByContentHash.mockResolvedValue({ success: true, data: null });
+  });
+
+  describe('GET /api/media', () => {
+    it('should pass search, folder and tag filters to the listing', async () => {
+      mockListMediaFiles.mockResolvedValue({ mediaFiles: [{ id: 13 }], totalCount: 41 });
+
+      const response = await request(app)
+        .get('/api/media')
+        .query({ search: ' beach ', folder_id: '4', include_subfolders: 'true', tag: 'summer', page: '2' });
+
+      expect(response.status).toBe(200);
+      expect(mockListMediaFiles).toHaveBeenCalledWith(5, {
+        page: 2,
+        limit: 20,
+        type: undefined,
+        search: 'beach',
+        folderId: 4,
+        includeSubfolders: true,
+        tag: 'summer'
+      });
+      expect(response.body.pagination).toMatchObject({ page: 2, totalPages: 3, hasNextPage: true });
+    });
+
+    it('should list the files in no folder', async () => {
+      mockListMediaFiles.mockResolvedValue({ mediaFiles: [], totalCount: 0 });
+
+      await request(app).get('/api/media?folder_id=none&limit=500');
+
+      expect(mockListMediaFiles).toHaveBeenCalledWith(5, expect.objectContaining({ folderId: null, limit: 100 }));
+    });
+  });
+
+  describe('PUT /api/media/folders/:id', () => {
+    it('should not move a folder into its own subfolder', async () => {
+      mockFindMediaFolder
+        .mockResolvedValueOnce(folder())
+        .mockResolvedValueOnce(folder({ id: 9, parent_id: 4, slug: 'summer', path: 'products/summer' }));
+
+      const response = await request(app).put('/api/media/folders/4').send({ parent_id: 9 });
+
+      expect(response.status).toBe(400);
+      expect(response.body.error).toBe('A folder cannot be moved into itself');
+      expect(mockUpdateMediaFolder).not.toHaveBeenCalled();
+    });
+
+    it('should rename a folder in place', async () => {
+      mockFindMediaFolder.mockResolvedValueOnce(folder());
+      mockUpdateMediaFolder.mockResolvedValue(folder({ name: 'Shop', slug: 'shop', path: 'shop' }));
+
+      const response = await request(app).put('/api/media/folders/4').send({ name: 'Shop' });
+
+      expect(response.status).toBe(200);
+      expect(mockUpdateMediaFolder).toHaveBeenCalledWith(folder(), 'Shop', null);
+    });
+  });
+
+  describe('DELETE /api/media/folders/:id', () => {
+    it('should move the files of the deleted folder up', async () => {
+      mockFindMediaFolder.mockResolvedValueOnce(folder());
+      mockGetMoveUpClashes.mockResolvedValue([]);
+      mockDeleteMediaFolder.mockResolvedValue({ filesMoved: 3 });
+
+      const response = await request(app).delete('/api/media/folders/4');
+
+      expect(response.status).toBe(200);
+      expect(response.body.filesMoved).toBe(3);
+    });
+
+    it('should refuse when subfolders would clash with folders of the parent', async () => {
+      mockFindMediaFolder.mockResolvedValueOnce(folder());
+      mockGetMoveUpClashes.mockResolvedValue(['Banners', 'Logos']);
+
+      const response = await request(app).delete('/api/media/folders/4');
+
+      expect(response.status).toBe(409);
+      expect(response.body.conflicts).toEqual(['Banners', 'Logos']);
+      expect(mockDeleteMediaFolder).not.toHaveBeenCalled();
+    });
+  });
+
+  describe('PUT /api/media/:id', () => {
+    it('should update only the metadata sent and replace the tags', async () => {
+      mockQuery.mockResolvedValue({ rows: [{ id: 13, organization_id: 5 }] } as any);
+      mockGetMediaFile.mockResolvedValue({ id: 13, caption: 'At the beach', tags: [{ id: 1, name: 'Summer', slug: 'summer' }] });
+
+      const response = await request(app)
+        .put('/api/media/13')
+        .send({ caption: 'At the beach', credit: '', tags: ['Summer'] });
+
+      expect(response.status).toBe(200);
+      expect(mockQuery).toHaveBeenLastCalledWith(
+        'UPDATE media_files SET caption = $1, credit = $2 WHERE id = $3 AND organization_id = $4',
+        ['At the beach', null, '13', 5]
+      );
+      expect(mockTagMediaFiles).toHaveBeenCalledWith(5, [13], ['Summer'], 'replace');
+      expect(response.body.data.tags).toHaveLength(1);
+    });
+
+    it('should reject folders of other organizations', async () => {
+      mockQuery.mockResolvedValue({ rows: [{ id: 13, organization_id: 5 }] } as any);
+      mockFindMediaFolder.mockResolvedValue(null);
+
+      const response = await request(app).put('/api/media/13').send({ folder_id: 99 });
+
+      expect(response.status).toBe(400);
+      expect(mockQuery).toHaveBeenCalledTimes(1);
+    });
+  });
+
+  describe('bulk actions', () => {
+    it('should move files into a folder', async () => {
+      mockFindMediaFolder.mockResolvedValue(folder());
+      mockMoveMediaFiles.mockResolvedValue(2);
+
+      const response = await request(app).post('/api/media/bulk/move').send({ ids: [13, 14], folder_id: 4 });
+
+      expect(response.status).toBe(200);
+      expect(mockMoveMediaFiles).toHaveBeenCalledWith(5, [13, 14], 4);
+      expect(response.body.moved).toBe(2);
+    });
+
+    it('should add and remove tags', async () => {
+      const response = await request(app)
+        .post('/api/media/bulk/tag')
+        .send({ ids: [13, 14], add: ['Summer'], remove: ['Winter'] });
+
+      expect(response.status).toBe(200);
+      expect(mockTagMediaFiles).toHaveBeenCalledWith(5, [13, 14], ['Winter'], 'remove');
+      expect(mockTagMediaFiles).toHaveBeenCalledWith(5, [13, 14], ['Summer'], 'add');
+    });
+
+    it('should require tags to add or remove', async () => {
+      const response = await request(app).post('/api/media/bulk/tag').send({ ids: [13] });
+
+      expect(response.status).toBe(400);
+      expect(mockTagMediaFiles).not.toHaveBeenCalled();
+    });
+
+    it('should delete the organization files with their stored copies', async () => {
+      mockQuery.mockResolvedValueOnce({ rows: [{ id: 13, filename: '1-1.jpg' }] } as any).mockResolvedValue({ rows: [] } as any);
+      mockImageTransformService.deleteDerivatives.mockResolvedValue({ success: true, data: 100 });
+      mockStorage.stat.mockImplementation(async (key: string) => (key === '1-1.jpg' ? { key, size: 1000 } : { key, size: 400 }));
+      mockQuotaService.decrementQuota.mockResolvedValue({ success: true, data: true });
+
+      const response = await request(app).delete('/api/media/bulk').send({ ids: [13, 23] });
+
+      expect(response.status).toBe(200);
+      expect(response.body.deleted).toBe(1);
+      expect(mockQuery.mock.calls[0][1]).toEqual([[13, 23], 5]);
+      expect(mockStorage.delete).toHaveBeenCalledWith('1-1.webp');
+      expect(mockQuotaService.decrementQuota).toHaveBeenCalledWith({
+        organizationId: 5,
+        dimension: 'storage_bytes',
+        amount: 1900
+      });
+    });
+
+    it('should delete nothing while one of the files is in use', async () => {
+      mockQuery.mockResolvedValueOnce({ rows: [{ id: 13, filename: '1-1.jpg' }, { id: 23, filename: '1-2.jpg' }] } as any);
+      mockMediaUsageService.countUsages.mockResolvedValue({ success: true, data: new Map([[23, 2]]) });
+
+      const response = await request(app).delete('/api/media/bulk').send({ ids: [13, 23] });
+
+      expect(response.status).toBe(409);
+      expect(response.body.inUse).toEqual([{ id: 23, usage_count: 2 }]);
+      expect(mockQuery).toHaveBeenCalledTimes(1);
+      expect(mockStorage.delete).not.toHaveBeenCalled();
+    });
+
+    it('should delete files in use when forced', async () => {
+      mockQuery.mockResolvedValueOnce({ rows: [{ id: 23, filename: '1-2.jpg' }] } as any).mockResolvedValue({ rows: [] } as any);
+      mockImageTransformService.deleteDerivatives.mockResolvedValue({ success: true, data: 0 });
+      mockStorage.stat.mockResolvedValue(null);
+
+      const response = await request(app).delete('/api/media/bulk').send({ ids: [23], force: true });
+
+      expect(response.status).toBe(200);
+      expect(response.body.deleted).toBe(1);
+      expect(mockMediaUsageService.countUsages).not.toHaveBeenCalled();
+    });
+  });
+
+  describe('DELETE /api/media/:id', () => {
+    const usage = {
+      source_type: 'post',
+      source_id: 8,
+      title: 'Summer sale',
+      url: '/blog/summer-sale',
+      published: true,
+      fields: ['content']
+    };
+
+    it('should not delete a file that is still in use', async () => {
+      mockQuery.mockResolvedValueOnce({ rows: [{ id: 13, filename: '1-1.jpg' }] } as any);
+      mockMediaUsageService.listUsages.mockResolvedValue({ success: true, data: [usage] as any });
+
+      const response = await request(app).delete('/api/media/13');
+
+      expect(response.status).toBe(409);
+      expect(response.body.error).toBe('The media file is still used in 1 place');
+      expect(response.body.usages).toEqual([usage]);
+      expect(mockMediaUsageService.listUsages).toHaveBeenCalledWith(5, 13);
+      expect(mockStorage.delete).not.toHaveBeenCalled();
+    });
+
+    it('should delete a file in use when forced', async () => {
+      mockQuery.mockResolvedValueOnce({ rows: [{ id: 13, filename: '1-1.jpg' }] } as any).mockResolvedValue({ rows: [] } as any);
+      mockImageTransformService.deleteDerivatives.mockResolvedValue({ success: true, data: 0 });
+      mockStorage.stat.mockResolvedValue(null);
+
+      const response = await request(app).delete('/api/media/13?force=true');
+
+      expect(response.status).toBe(200);
+      expect(mockMediaUsageService.listUsages).not.toHaveBeenCalled();
+      expect(mockQuery).toHaveBeenCalledWith('DELETE FROM media_files WHERE id = $1 AND organization_id = $2', ['13', 5]);
+    });
+  });
+
+  describe('GET /api/media/:id/usages', () => {
+    it('should list where the file is used', async () => {
+      mockGetMediaFile.mockResolvedValue({ id: 13 } as any);
+      mockMediaUsageService.listUsages.mockResolvedValue({ success: true, data: [] });
+
+      const response = await request(app).get('/api/media/13/usages');
+
+      expect(response.status).toBe(200);
+      expect(response.body.data).toEqual([]);
+      expect(mockMediaUsageService.listUsages).toHaveBeenCalledWith(5, 13);
+    });
+  });
+
+  describe('GET /api/media/:id/transform-url', () => {
+    it('should sign the transform of an image of the organization', async () => {
+      mockGetMediaFile.mockResolvedValue({ id: 13, mime_type: 'image/png', version: 2 } as any);
+
+      const response = await request(app).get('/api/media/13/transform-url?w=300&h=200&fit=contain&format=avif');
+
+      expect(response.status).toBe(200);
+      const url = new URL(response.body.data.url, 'http://localhost');
+      expect(url.pathname).toBe('/api/media/13/transform');
+      expect(url.searchParams.get('v')).toBe('2');
+      expect(url.searchParams.get('sig')).toBe(
+        signImageTransform(13, { width: 300, height: 200, fit: 'contain', format: 'avif' })
+      );
+      expect(mockGetMediaFile).toHaveBeenCalledWith(5, '13');
+    });
+
+    it('should not sign files of another organization', async () => {
+      mockGetMediaFile.mockResolvedValue(null);
+
+      const response = await request(app).get('/api/media/13/transform-url?w=300');
+
+      expect(response.status).toBe(404);
+    });
+
+    it('should reject invalid parameters and files that are not images', async () => {
+      const invalid = await request(app).get('/api/media/13/transform-url?w=99999');
+      expect(invalid.status).toBe(400);
+      expect(mockGetMediaFile).not.toHaveBeenCalled();
+
+      mockGetMediaFile.mockResolvedValue({ id: 14, mime_type: 'application/pdf', version: 1 } as any);
+      const document = await request(app).get('/api/media/14/transform-url?w=300');
+      expect(document.status).toBe(400);
+      expect(document.body.error).toBe('Only images can be transformed');
+    });
+  });
+
+  describe('POST /api/media/:id/replace', () => {
+    const image = () => sharp({ create: { width: 8, height: 8, channels: 3, background: '#f80' } }).png().toBuffer();
+
+    it('should keep the URLs of an optimized image', async () => {
+      mockQuery
+        .mockResolvedValueOnce({ rows: [{ id: 13, filename: '1-1.jpg', file_path: '/uploads/1-1.webp' }] } as any)
+        .mockResolvedValue({ rows: [] } as any);
+      mockStorage.stat.mockResolvedValue({ key: 'key', size: 100000 });
+      mockImageTransformService.deleteDerivatives.mockResolvedValue({ success: true, data: 500 });
+      mockQuotaService.decrementQuota.mockResolvedValue({ success: true, data: true });
+      mockGetMediaFile.mockResolvedValue({ id: 13, filename: '1-1.png' } as any);
+
+      const response = await request(app)
+        .post('/api/media/13/replace')
+        .attach('file', await image(), 'new-logo.png');
+
+      expect(response.status).toBe(200);
+      expect(mockStorage.put.mock.calls.map(([key]) => key)).toEqual(['1-1.png', '1-1.webp', '1-1-thumb.webp']);
+      expect(mockStorage.delete).toHaveBeenCalledWith('1-1.jpg');
+      expect(mockStorage.delete).not.toHaveBeenCalledWith('1-1.webp');
+      expect(mockImageTransformService.deleteDerivatives).toHaveBeenCalledWith(13);
+      expect(mockQuery.mock.calls[1][0]).toContain('version = version + 1');
+      expect(mockQuery.mock.calls[1][1]).toEqual([
+        '1-1.png',
+        'new-logo.png',
+        expect.any(Number),
+        'image/png',
+        expect.stringMatching(/^[0-9a-f]{64}$/),
+        expect.stringMatching(/^[0-9a-f]{16}$/),
+        13,
+        5
+      ]);
+      expect(mockQuotaService.incrementQuota).not.toHaveBeenCalled();
+    });
+
+    it('should require the same kind of file for other files', async () => {
+      mockQuery.mockResolvedValueOnce({ rows: [{ id: 14, filename: '1-2.pdf', file_path: '/uploads/1-2.pdf' }] } as any);
+
+      const response = await request(app)
+        .post('/api/media/14/replace')
+        .attach('file', await image(), 'brochure.png');
+
+      expect(response.status).toBe(400);
+      expect(mockStorage.put).not.toHaveBeenCalled();
+    });
+  });
+  describe('POST /api/media/upload', () => {
+    it('should return the file already in the library for an exact copy', async () => {
+      mockMediaDedupService.findByContentHash.mockResolvedValue({ success: true, data: { id: 13, filename: '1-1.jpg' } });
+
+      const response = await request(app)
+        .post('/api/media/upload')
+        .attach('file', Buffer.from('hero image'), 'hero.jpg');
+
+      expect(response.status).toBe(200);
+      expect(response.body.duplicate).toBe(true);
+      expect(response.body.data.id).toBe(13);
+      expect(mockMediaDedupService.findByContentHash).toHaveBeenCalledWith(5, contentHash(Buffer.from('hero image')));
+      expect(mockStorage.put).not.toHaveBeenCalled();
+      expect(mockQuotaService.incrementQuota).not.toHaveBeenCalled();
+    });
+  });
+
+  describe('POST /api/media/upload-multiple', () => {
+    it('should store copies within one upload once', async () => {
+      (uniqueStorageKey as jest.Mock).mockReturnValue('stored.pdf');
+      mockQuery.mockResolvedValue({ rows: [{ id: 30, filename: 'stored.pdf' }] } as any);
+      mockQuotaService.incrementQuota.mockResolvedValue({ success: true, data: true });
+
+      const response = await request(app)
+        .post('/api/media/upload-multiple')
+        .attach('files', Buffer.from('brochure'), 'brochure.pdf')
+        .attach('files', Buffer.from('brochure'), 'brochure-copy.pdf');
+
+      expect(response.status).toBe(201);
+      expect(response.body.duplicates).toBe(1);
+      expect(response.body.data.map((file: { id: number }) => file.id)).toEqual([30, 30]);
+      expect(mockStorage.put).toHaveBeenCalledTimes(1);
+      expect(mockQuotaService.incrementQuota).toHaveBeenCalledWith({
+        organizationId: 5,
+        dimension: 'storage_bytes',
+        amount: 8
+      });
+    });
+
+    it('should only count files that get stored against the storage quota', async () => {
+      // 10 bytes left: room for the new brochure, not for the copies
+      mockStorageQuotaCheck.mockImplementationOnce((req: any, res: any, next: any) => {
+        const bytes = req.files.reduce((sum: number, file: Express.Multer.File) => sum + file.size, 0);
+        return bytes > 10 ? res.status(402).json({ error: 'Storage quota exceeded' }) : next();
+      });
+      mockMediaDedupService.findByContentHash.mockImplementation(async (organizationId, hash) => ({
+        success: true,
+        data: hash === contentHash(Buffer.from('hero image in the library')) ? { id: 13, filename: '1-1.jpg' } : null
+      }));
+      (uniqueStorageKey as jest.Mock).mockReturnValue('stored.pdf');
+      mockQuery.mockResolvedValue({ rows: [{ id: 30, filename: 'stored.pdf' }] } as any);
+      mockQuotaService.incrementQuota.mockResolvedValue({ success: true, data: true });
+
+      const response = await request(app)
+        .post('/api/media/upload-multiple')
+        .attach('files', Buffer.from('hero image in the library'), 'hero.jpg')
+        .attach('files', Buffer.from('brochure'), 'brochure.pdf')
+        .attach('files', Buffer.from('hero image in the library'), 'hero-copy.jpg')
+        .attach('files', Buffer.from('brochure'), 'brochure-copy.pdf');
+
+      expect(response.status).toBe(201);
+      expect(response.body.duplicates).toBe(3);
+      expect(response.body.data.map((file: { id: number }) => file.id)).toEqual([13, 30, 13, 30]);
+      expect(mockMediaDedupService.findByContentHash).toHaveBeenCalledTimes(2);
+      expect(mockStorage.put).toHaveBeenCalledTimes(1);
+      expect(mockQuotaService.incrementQuota).toHaveBeenCalledWith(expect.objectContaining({ amount: 8 }));
+    });
+  });
+
+  describe('duplicates', () => {
+    it('should list near-duplicates within the given distance', async () => {
+      mockMediaDedupService.findNearDuplicates.mockResolvedValue({ success: true, data: [] });
+
+      const response = await request(app).get('/api/media/duplicates?max_distance=10');
+
+      expect(response.status).toBe(200);
+      expect(mockMediaDedupService.findNearDuplicates).toHaveBeenCalledWith(5, 10);
+    });
+
+    it('should reject distances beyond the hash size', async () => {
+      const response = await request(app).get('/api/media/duplicates?max_distance=65');
+
+      expect(response.status).toBe(400);
+      expect(mockMediaDedupService.findNearDuplicates).not.toHaveBeenCalled();
+    });
+
+    it('should delete the merged files and keep the chosen one', async () => {
+      mockMediaDedupService.mergeMediaFiles.mockResolvedValue({
+        success: true,
+        data: { merged: [{ id: 23, filename: '1-2.jpg' }], sourcesUpdated: 3 }
+      });
+      mockImageTransformService.deleteDerivatives.mockResolvedValue({ success: true, data: 0 });
+      mockStorage.stat.mockResolvedValue({ key: 'key', size: 100 });
+      mockQuery.mockResolvedValue({ rows: [] } as any);
+      mockQuotaService.decrementQuota.mockResolvedValue({ success: true, data: true });
+      mockGetMediaFile.mockResolvedValue({ id: 13 } as any);
+
+      const response = await request(app).post('/api/media/duplicates/merge').send({ keep_id: 13, merge_ids: [23] });
+
+      expect(response.status).toBe(200);
+      expect(response.body).toMatchObject({ merged: 1, updated: 3, data: { id: 13 } });
+      expect(mockMediaDedupService.mergeMediaFiles).toHaveBeenCalledWith(5, 13, [23]);
+      expect(mockStorage.delete).toHaveBeenCalledWith('1-2.webp');
+      expect(mockQuery).toHaveBeenCalledWith('DELETE FROM media_files WHERE id = ANY($1) AND organization_id = $2', [[23], 5]);
+      expect(mockQuotaService.decrementQuota).toHaveBeenCalledWith({ organizationId: 5, dimension: 'storage_bytes', amount: 300 });
+    });
+
+    it('should not delete anything when the merge fails', async () => {
+      mockMediaDedupService.mergeMediaFiles.mockResolvedValue({
+        success: false,
+        error: 'Media file not found',
+        errorCode: ServiceErrorCode.NOT_FOUND
+      });
+
+      const response = await request(app).post('/api/media/duplicates/merge').send({ keep_id: 13, merge_ids: [99] });
+
+      expect(response.status).toBe(404);
+      expect(mockStorage.delete).not.toHaveBeenCalled();
+    });
+  });
+});
@@ -7,6 +7,9 @@ import { memberService } from '../../services/MemberService';
 // Mock dependencies
 jest.mock('../../services/OrganizationService');
 jest.mock('../../services/MemberService');
+jest.mock('../../services/MediaUsageService', () => ({
+  mediaUsageService: { syncReferences: jest.fn().mockResolvedValue({ success: true, data: 0 }) }
+}));
 
 jest.mock('../../middleware/auth', () => ({
   authenticateToken: jest.fn((req, res, next) => {
@@ -0,0 +1,354 @@
+import request from 'supertest';
+import express from 'express';
+import pagesRouter from '../../routes/pages';
+import { query } from '../../utils/database';
+import { redirectService } from '../../services/RedirectService';
+import { fragmentService } from '../../services/FragmentService';
+import { workflowService } from '../../services/WorkflowService';
+import { deletePage, getPageAncestors, getPagePaths, reorderPages, snapshotPageSubtrees } from '../../db/pages';
+import { getTemplateByKey, validatePageData } from '../../db/templates';
+import { VersionService } from '../../services/VersionService';
+
+// Mock dependencies
+jest.mock('../../utils/database', () => ({
+  query: jest.fn()
+}));
+jest.mock('../../db/pages', () => ({
+  getPageAncestors: jest.fn(),
+  snapshotPageSubtrees: jest.fn(),
+  getPagePaths: jest.fn(),
+  reorderPages: jest.fn(),
+  deletePage: jest.fn()
+}));
+jest.mock('../../db/templates', () => ({
+  getTemplateByKey: jest.fn(),
+  validatePageData: jest.fn(),
+  resolvePageDataReferences: jest.fn().mockResolvedValue({})
+}));
+jest.mock('../../services/RedirectService', () => ({
+  redirectService: { recordSlugChange: jest.fn() }
+}));
+jest.mock('../../services/FragmentService', () => ({
+  fragmentService: {
+    renderFragments: jest.fn(async (html: string) => html),
+    getFragmentsForData: jest.fn().mockResolvedValue({})
+  }
+}));
+jest.mock('../../services/TranslationService', () => ({
+  translationService: {
+    getPublishedTranslations: jest.fn().mockResolvedValue({ success: true, data: [] }),
+    getSiteLocales: jest.fn().mockResolvedValue({ success: true, data: { default_locale: 'en' } })
+  }
+}));
+jest.mock('../../services/MediaUsageService', () => ({
+  mediaUsageService: { syncReferences: jest.fn().mockResolvedValue({ success: true, data: 0 }) }
+}));
+jest.mock('../../services/VersionService', () => ({
+  VersionService: jest.fn(() => ({ recordSave: jest.fn().mockResolvedValue({ success: true }) }))
+}));
+jest.mock('../../services/WorkflowService', () => ({
+  workflowService: { canPublishContent: jest.fn(), markContentPublished: jest.fn() },
+  applyReviewedChanges: jest.requireActual('../../services/WorkflowService').applyReviewedChanges
+}));
+jest.mock('../../middleware/apiKey', () => ({
+  authenticate: jest.fn((req, res, next) => {
+    req.user = { userId: 1, email: 'editor@test.com', role: 'editor' };
+    next();
+  }),
+  requireScope: jest.fn(() => (req: any, res: any, next: any) => next())
+}));
+jest.mock('../../middleware/auth', () => ({
+  requireEditor: jest.fn((req, res, next) => next())
+}));
+jest.mock('../../middleware/tenancy', () => ({
+  requireOrganization: jest.fn((req, res, next) => {
+    req.organizationId = 5;
+    next();
+  })
+}));
+jest.mock('../../middleware/editConflict', () => ({
+  checkEditConflict: jest.fn(() => (req: any, res: any, next: any) => next())
+}));
+jest.mock('../../utils/publicCache', () => ({
+  invalidatePublicCaches: jest.fn()
+}));
+
+const mockQuery = query as jest.MockedFunction<typeof query>;
+const mockGetAncestors = getPageAncestors as jest.MockedFunction<typeof getPageAncestors>;
+const mockSnapshot = snapshotPageSubtrees as jest.MockedFunction<typeof snapshotPageSubtrees>;
+const mockGetPagePaths = getPagePaths as jest.MockedFunction<typeof getPagePaths>;
+const mockReorderPages = reorderPages as jest.MockedFunction<typeof reorderPages>;
+const mockDeletePage = deletePage as jest.MockedFunction<typeof deletePage>;
+const mockGetTemplate = getTemplateByKey as jest.MockedFunction<typeof getTemplateByKey>;
+const mockValidatePageData = validatePageData as jest.MockedFunction<typeof validatePageData>;
+const mockRenderFragments = fragmentService.renderFragments as jest.MockedFunction<typeof fragmentService.renderFragments>;
+const mockGetFragmentsForData = fragmentService.getFragmentsForData as jest.MockedFunction<typeof fragmentService.getFragmentsForData>;
+const mockCanPublishContent = workflowService.canPublishContent as jest.MockedFunction<typeof workflowService.canPublishContent>;
+const mockRecordSlugChange = redirectService.recordSlugChange as jest.MockedFunction<typeof redirectService.recordSlugChange>;
+const mockRecordSave = (VersionService as unknown as jest.Mock).mock.results[0].value.recordSave as jest.Mock;
+
+const page = (overrides: Record<string, unknown> = {}) => ({
+  id: 5,
+  organization_id: 5,
+  title: 'About',
+  slug: 'about',
+  path: 'about',
+  parent_id: null,
+  position: 0,
+  published: true,
+  domain_id: null,
+  ...overrides,
+});
+
+const template = {
+  id: 1,
+  key: 'team',
+  name: 'Team',
+  enabled: true,
+  schema: { type: 'object' as const, required: ['heading'], properties: { heading: { type: 'string' as const } } },
+  default_data: { heading: 'Our team' },
+  version: 3
+};
+
+const app = express();
+app.use(express.json());
+app.use('/api/pages', pagesRouter);
+
+describe('Page Routes', () => {
+  beforeEach(() => {
+    jest.clearAllMocks();
+    mockRecordSlugChange.mockResolvedValue({ success: true });
+  });
+
+  describe('GET /api/pages/:path', () => {
+    it('should find nested pages by path with their ancestors', async () => {
+      mockQuery.mockResolvedValueOnce({ rows: [page({ id: 9, slug: 'team', path: 'about/team', parent_id: 5 })] } as any);
+      mockGetAncestors.mockResolvedValue([{ id: 5, title: 'About', slug: 'about', path: 'about', published: true }]);
+
+      const response = await request(app).get('/api/pages/about/team').expect(200);
+
+      expect(mockQuery.mock.calls[0][0]).toContain('WHERE path = $1');
+      expect(mockQuery.mock.calls[0][1]).toEqual(['about/team']);
+      expect(response.body.page.ancestors).toEqual([
+        { id: 5, title: 'About', slug: 'about', path: 'about', published: true }
+      ]);
+      expect(mockGetAncestors).toHaveBeenCalledWith('about/team', 5);
+    });
+
+    it('should only find pages without a domain of the organizations on the request domain', async () => {
+      const domainApp = express();
+      domainApp.use((req, _res, next) => {
+        (req as any).domain = { id: 3 };
+        next();
+      });
+      domainApp.use('/api/pages', pagesRouter);
+      mockQuery.mockResolvedValueOnce({ rows: [] } as any);
+
+      await request(domainApp).get('/api/pages/about').expect(404);
+
+      expect(mockQuery.mock.calls[0][0]).toContain('domain_id IS NULL AND organization_id IN (SELECT organization_id FROM sites WHERE domain_id = $2)');
+      expect(mockQuery.mock.calls[0][1]).toEqual(['about', 3]);
+    });
+
+    it('should resolve embedded fragments', async () => {
+      mockQuery.mockResolvedValueOnce({ rows: [page({ content: '<p>{{fragment:newsletter}}</p>', template: 'team' })] } as any);
+      mockGetAncestors.mockResolvedValue([]);
+      mockGetTemplate.mockResolvedValue(template);
+      mockRenderFragments.mockResolvedValueOnce('<div class="content-fragment" data-fragment="newsletter">Subscribe</div>');
+      mockGetFragmentsForData.mockResolvedValueOnce({ '3': { key: 'bio', name: 'Author bio', content: '<p>Hi</p>' } });
+
+      const response = await request(app).get('/api/pages/about').expect(200);
+
+      expect(mockRenderFragments).toHaveBeenCalledWith('<p>{{fragment:newsletter}}</p>', 5);
+      expect(mockGetFragmentsForData).toHaveBeenCalledWith(5, template.schema, undefined);
+      expect(response.body.page.content).toContain('Subscribe');
+      expect(response.body.page.fragments).toEqual({ '3': { key: 'bio', name: 'Author bio', content: '<p>Hi</p>' } });
+    });
+  });
+
+  describe('POST /api/pages', () => {
+    it('should create a page below its parent', async () => {
+      mockQuery
+        .mockResolvedValueOnce({ rows: [{ id: 5, path: 'about' }] } as any)
+        .mockResolvedValueOnce({ rows: [] } as any)
+        .mockResolvedValueOnce({ rows: [page({ id: 9, slug: 'team', path: 'about/team', parent_id: 5 })] } as any);
+
+      await request(app)
+        .post('/api/pages')
+        .send({ title: 'Team', slug: 'team', parent_id: 5 })
+        .expect(201);
+
+      expect(mockQuery.mock.calls[1][0]).toContain('organization_id = $2');
+      expect(mockQuery.mock.calls[1][1]).toEqual(['about/team', 5]);
+      expect(mockQuery.mock.calls[2][0]).toContain('parent_id IS NOT DISTINCT FROM $11 AND organization_id = $14');
+      expect(mockQuery.mock.calls[2][1]).toEqual(expect.arrayContaining([5]));
+    });
+
+    it('should start from the template defaults', async () => {
+      mockGetTemplate.mockResolvedValue(template);
+      mockValidatePageData.mockResolvedValue([]);
+      mockQuery
+        .mockResolvedValueOnce({ rows: [] } as any)
+        .mockResolvedValueOnce({ rows: [page({ id: 9, template: 'team' })] } as any);
+
+      await request(app).post('/api/pages').send({ title: 'Team', template: 'team' }).expect(201);
+
+      expect(mockValidatePageData).toHaveBeenCalledWith(template, { heading: 'Our team' }, 5);
+      expect(mockQuery.mock.calls[1][1]).toEqual(expect.arrayContaining([JSON.stringify({ heading: 'Our team' }), 3]));
+    });
+
+    it('should reject data that does not match the template', async () => {
+      mockGetTemplate.mockResolvedValue(template);
+      mockValidatePageData.mockResolvedValue([{ field: 'data.heading', message: 'is required' }]);
+      mockQuery.mockResolvedValueOnce({ rows: [] } as any);
+
+      const response = await request(app)
+        .post('/api/pages')
+        .send({ title: 'Team', template: 'team', data: { heading: '' } })
+        .expect(400);
+
+      expect(response.body.details).toEqual([{ field: 'data.heading', message: 'is required' }]);
+      expect(mockQuery).toHaveBeenCalledTimes(1);
+    });
+
+    it('should reject slugs containing a slash', async () => {
+      await request(app).post('/api/pages').send({ title: 'Team', slug: 'about/team' }).expect(400);
+      expect(mockQuery).not.toHaveBeenCalled();
+    });
+  });
+
+  describe('PUT /api/pages/:id', () => {
+    it('should not move a page below one of its subpages', async () => {
+      mockQuery
+        .mockResolvedValueOnce({ rows: [page()] } as any)
+        .mockResolvedValueOnce({ rows: [{ id: 9, path: 'about/team' }] } as any);
+
+      const response = await request(app).put('/api/pages/5').send({ parent_id: 9 }).expect(400);
+
+      expect(response.body.error).toBe('A page cannot be moved below itself');
+    });
+
+    it('should not change a live page without an approved version matching the edit', async () => {
+      mockQuery.mockResolvedValueOnce({ rows: [page({ content: 'Hello' })] } as any);
+      mockCanPublishContent.mockResolvedValue({ success: true, data: false });
+
+      const response = await request(app).put('/api/pages/5').send({ title: 'About', content: 'Changed' }).expect(403);
+
+      expect(response.body.error).toBe('Changes to a live page must be approved before they are published');
+      expect(mockCanPublishContent).toHaveBeenCalledWith(5, 'page', 5, { title: 'About', content: 'Changed', excerpt: null });
+      expect(mockQuery).toHaveBeenCalledTimes(1);
+    });
+
+    it('should redirect the old URLs of the page and its live subpages', async () => {
+      mockQuery
+        .mockResolvedValueOnce({ rows: [page()] } as any)
+        .mockResolvedValueOnce({ rows: [] } as any)
+        .mockResolvedValueOnce({ rows: [page({ slug: 'about-us', path: 'about-us' })] } as any);
+      mockSnapshot.mockResolvedValue([
+        { id: 5, path: 'about', published: true, domain_id: null },
+        { id: 9, path: 'about/team', published: true, domain_id: null },
+        { id: 10, path: 'about/drafts', published: false, domain_id: null },
+      ]);
+      mockGetPagePaths.mockResolvedValue(new Map([[5, 'about-us'], [9, 'about-us/team']]));
+
+      await request(app).put('/api/pages/5').send({ slug: 'about-us' }).expect(200);
+
+      expect(mockGetPagePaths).toHaveBeenCalledWith([5, 9]);
+      expect(mockRecordSlugChange).toHaveBeenCalledTimes(2);
+      expect(mockRecordSlugChange).toHaveBeenCalledWith(5, expect.objectContaining({
+        content_id: 9,
+        from_path: '/page/about/team',
+        to_path: '/page/about-us/team',
+      }));
+    });
+  });
+
+  describe('PUT /api/pages/:id data', () => {
+    it('should validate data against the template and record the schema version', async () => {
+      mockGetTemplate.mockResolvedValue(template);
+      mockValidatePageData.mockResolvedValue([]);
+      mockQuery
+        .mockResolvedValueOnce({ rows: [page({ template: 'team' })] } as any)
+        .mockResolvedValueOnce({ rows: [page({ template: 'team' })] } as any);
+
+      await request(app).put('/api/pages/5').send({ data: { heading: 'People' } }).expect(200);
+
+      expect(mockGetTemplate).toHaveBeenCalledWith('team');
+      expect(mockQuery.mock.calls[1][1]).toEqual(expect.arrayContaining([JSON.stringify({ heading: 'People' }), 3]));
+    });
+
+    it('should record the save as a version for edit conflict checks', async () => {
+      mockQuery
+        .mockResolvedValueOnce({ rows: [page()] } as any)
+        .mockResolvedValueOnce({ rows: [page({ meta_title: 'About us' })] } as any);
+
+      await request(app).put('/api/pages/5').send({ meta_title: 'About us' }).expect(200);
+
+      expect(mockRecordSave).toHaveBeenCalledWith('page', expect.objectContaining({ id: 5, meta_title: 'About us' }), 1);
+    });
+
+    it('should check the current data when switching templates', async () => {
+      mockGetTemplate.mockResolvedValue(template);
+      mockValidatePageData.mockResolvedValue([{ field: 'data.heading', message: 'is required' }]);
+      mockQuery.mockResolvedValueOnce({ rows: [page({ template: 'default', data: {} })] } as any);
+
+      await request(app).put('/api/pages/5').send({ template: 'team' }).expect(400);
+
+      expect(mockValidatePageData).toHaveBeenCalledWith(template, {}, 5);
+    });
+  });
+
+  describe('PUT /api/pages/reorder', () => {
+    it('should move pages and redirect the ones that changed path', async () => {
+      const items = [
+        { id: 9, parent_id: null, position: 0 },
+        { id: 5, parent_id: null, position: 1 },
+      ];
+      mockSnapshot.mockResolvedValue([
+        { id: 5, path: 'about', published: true, domain_id: null },
+        { id: 9, path: 'about/team', published: true, domain_id: null },
+      ]);
+      mockReorderPages.mockResolvedValue(true);
+      mockGetPagePaths.mockResolvedValue(new Map([[5, 'about'], [9, 'team']]));
+
+      await request(app).put('/api/pages/reorder').send({ items }).expect(200);
+
+      expect(mockReorderPages).toHaveBeenCalledWith(5, items);
+      expect(mockRecordSlugChange).toHaveBeenCalledTimes(1);
+      expect(mockRecordSlugChange).toHaveBeenCalledWith(5, expect.objectContaining({
+        from_path: '/page/about/team',
+        to_path: '/page/team',
+      }));
+    });
+
+    it('should report moves that would clash with an existing page', async () => {
+      mockSnapshot.mockResolvedValue([]);
+      mockReorderPages.mockRejectedValue({ code: '23505' });
+
+      await request(app)
+        .put('/api/pages/reorder')
+        .send({ items: [{ id: 9, parent_id: null, position: 0 }] })
+        .expect(409);
+    });
+  });
+
+  describe('DELETE /api/pages/:id', () => {
+    it('should move subpages up and redirect them', async () => {
+      mockQuery.mockResolvedValueOnce({ rows: [page({ id: 9, slug: 'team', path: 'about/team', parent_id: 5 })] } as any);
+      mockSnapshot.mockResolvedValue([
+        { id: 9, path: 'about/team', published: true, domain_id: null },
+        { id: 11, path: 'about/team/engineering', published: true, domain_id: null },
+      ]);
+      mockGetPagePaths.mockResolvedValue(new Map([[11, 'about/engineering']]));
+
+      await request(app).delete('/api/pages/9').expect(200);
+
+      expect(mockDeletePage).toHaveBeenCalledWith(expect.objectContaining({ id: 9, parent_id: 5 }));
+      expect(mockRecordSlugChange).toHaveBeenCalledWith(5, expect.objectContaining({
+        content_id: 11,
+        from_path: '/page/about/team/engineering',
+        to_path: '/page/about/engineering',
+      }));
+    });
+  });
+});
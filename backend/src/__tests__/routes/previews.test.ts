@@ -0,0 +1,310 @@
+/**
+ * Preview Token Routes Tests
+ *
+ * Tests for the preview token REST API endpoints:
+ * - POST /api/versions/:versionId/preview-tokens
+ * - GET /api/versions/:versionId/preview-tokens
+ * - GET /api/content/:contentType/:contentId/preview-tokens
+ * - DELETE /api/preview-tokens/:tokenId
+ * - GET /api/preview-tokens/:tokenId/analytics
+ * - GET|POST /api/preview/:token
+ */
+
+const mockGetVersion = jest.fn();
+const mockGeneratePreviewToken = jest.fn();
+const mockValidatePreviewToken = jest.fn();
+const mockRevokePreviewToken = jest.fn();
+const mockGetPreviewAnalytics = jest.fn();
+
+jest.mock('../../services/VersionService', () => ({
+  VersionService: jest.fn().mockImplementation(() => ({
+    getVersion: mockGetVersion,
+  })),
+}));
+
+jest.mock('../../services/PreviewService', () => ({
+  PreviewService: jest.fn().mockImplementation(() => ({
+    generatePreviewToken: mockGeneratePreviewToken,
+    validatePreviewToken: mockValidatePreviewToken,
+    revokePreviewToken: mockRevokePreviewToken,
+    getPreviewAnalytics: mockGetPreviewAnalytics,
+  })),
+}));
+
+jest.mock('../../middleware/auth');
+jest.mock('../../middleware/versionAuth');
+jest.mock('../../middleware/tenancy', () => ({
+  requireOrganization: jest.fn((req, res, next) => {
+    req.organizationId = 5;
+    next();
+  })
+}));
+
+import request from 'supertest';
+import express from 'express';
+import { Pool } from 'pg';
+import { createPreviewRoutes } from '../../routes/previews';
+import { authenticateToken } from '../../middleware/auth';
+import { checkVersionAccess } from '../../middleware/versionAuth';
+
+const mockAuthenticateToken = authenticateToken as jest.MockedFunction<typeof authenticateToken>;
+const mockCheckVersionAccess = checkVersionAccess as jest.MockedFunction<typeof checkVersionAccess>;
+
+const mockPoolQuery = jest.fn();
+const mockPool = { query: mockPoolQuery } as unknown as Pool;
+
+const tokenRow = {
+  id: 9,
+  token: 'abc123',
+  token_hash: 'secret-hash',
+  password_hash: 'secret-password',
+  token_type: 'preview',
+  site_id: 1,
+  version_id: 42,
+  expires_at: new Date(Date.now() + 60 * 60 * 1000).toISOString(),
+  use_count: 0,
+  password_protected: false,
+  settings: {},
+  created_by: 1,
+  created_at: new Date().toISOString(),
+};
+
+describe('Preview Token Routes', () => {
+  let app: express.Application;
+
+  beforeEach(() => {
+    app = express();
+    app.use(express.json());
+
+    mockAuthenticateToken.mockImplementation(async (req: any, res, next) => {
+      req.user = { userId: 1, role: 'editor' };
+      next();
+      return undefined;
+    });
+
+    mockCheckVersionAccess.mockImplementation(async (req, res, next) => {
+      next();
+      return undefined;
+    });
+
+    // Versions and tokens belong to the organization unless a test says otherwise
+    mockPoolQuery.mockResolvedValue({ rows: [{ '?column?': 1 }] });
+
+    app.use('/api', createPreviewRoutes(mockPool));
+  });
+
+  afterEach(() => {
+    jest.clearAllMocks();
+  });
+
+  describe('POST /api/versions/:versionId/preview-tokens', () => {
+    it('should create a token for the version site and hide secrets', async () => {
+      mockGetVersion.mockResolvedValue({ success: true, data: { id: 42, site_id: 3, locale: 'en-US' } });
+      mockGeneratePreviewToken.mockResolvedValue({ success: true, data: { ...tokenRow, short_url: 'https://dprev.it/x' } });
+
+      const response = await request(app)
+        .post('/api/versions/42/preview-tokens')
+        .send({ expires_in_hours: 48, password: 'letmein' });
+
+      expect(response.status).toBe(201);
+      expect(mockGeneratePreviewToken).toHaveBeenCalledWith(
+        expect.objectContaining({ versionId: 42, siteId: 3, expiresInHours: 48, password: 'letmein', locale: 'en-US' }),
+        1
+      );
+      expect(response.body.data.preview_url).toMatch(/\/preview\/abc123$/);
+      expect(response.body.data.is_active).toBe(true);
+      expect(response.body.data.token_hash).toBeUndefined();
+      expect(response.body.data.password_hash).toBeUndefined();
+    });
+
+    it('should return 404 when the version does not exist', async () => {
+      mockGetVersion.mockResolvedValue({ success: false, error: 'Version not found' });
+
+      const response = await request(app).post('/api/versions/999/preview-tokens').send({});
+
+      expect(response.status).toBe(404);
+      expect(mockGeneratePreviewToken).not.toHaveBeenCalled();
+    });
+
+    it('should return 404 for versions of another organization', async () => {
+      mockPoolQuery.mockResolvedValueOnce({ rows: [] });
+
+      const response = await request(app).post('/api/versions/42/preview-tokens').send({});
+
+      expect(response.status).toBe(404);
+      expect(mockPoolQuery.mock.calls[0][0]).toContain('s.organization_id = $2');
+      expect(mockPoolQuery.mock.calls[0][1]).toEqual([42, 5]);
+      expect(mockGetVersion).not.toHaveBeenCalled();
+      expect(mockGeneratePreviewToken).not.toHaveBeenCalled();
+    });
+
+    it('should reject invalid expiry values', async () => {
+      const response = await request(app)
+        .post('/api/versions/42/preview-tokens')
+        .send({ expires_in_hours: 0 });
+
+      expect(response.status).toBe(400);
+    });
+  });
+
+  describe('GET /api/versions/:versionId/preview-tokens', () => {
+    it('should list active tokens for the version', async () => {
+      mockPoolQuery.mockResolvedValue({ rows: [tokenRow] });
+
+      const response = await request(app).get('/api/versions/42/preview-tokens');
+
+      expect(response.status).toBe(200);
+      expect(response.body.data).toHaveLength(1);
+      expect(mockPoolQuery.mock.calls[1][0]).toContain('pt.revoked_at IS NULL');
+      expect(mockPoolQuery.mock.calls[1][1]).toEqual([42]);
+    });
+
+    it('should return 404 for versions of another organization', async () => {
+      mockPoolQuery.mockResolvedValueOnce({ rows: [] });
+
+      const response = await request(app).get('/api/versions/42/preview-tokens');
+
+      expect(response.status).toBe(404);
+      expect(mockPoolQuery.mock.calls[0][1]).toEqual([42, 5]);
+      expect(mockPoolQuery).toHaveBeenCalledTimes(1);
+    });
+  });
+
+  describe('GET /api/content/:contentType/:contentId/preview-tokens', () => {
+    it('should list live tokens across versions of the content', async () => {
+      mockPoolQuery.mockResolvedValue({ rows: [{ ...tokenRow, version_number: 4 }] });
+
+      const response = await request(app).get('/api/content/post/5/preview-tokens');
+
+      expect(response.status).toBe(200);
+      expect(response.body.data[0].version_number).toBe(4);
+      expect(mockPoolQuery.mock.calls[0][1]).toEqual(['post', 5, 5]);
+    });
+
+    it('should only list tokens of versions on the organization sites', async () => {
+      mockPoolQuery.mockResolvedValue({ rows: [] });
+
+      await request(app).get('/api/content/post/5/preview-tokens');
+
+      expect(mockPoolQuery.mock.calls[0][0]).toContain('SELECT id FROM sites WHERE organization_id = $3');
+    });
+
+    it('should reject unknown content types', async () => {
+      const response = await request(app).get('/api/content/widget/5/preview-tokens');
+
+      expect(response.status).toBe(400);
+      expect(mockPoolQuery).not.toHaveBeenCalled();
+    });
+  });
+
+  describe('DELETE /api/preview-tokens/:tokenId', () => {
+    it('should revoke the token', async () => {
+      mockRevokePreviewToken.mockResolvedValue({ success: true });
+
+      const response = await request(app).delete('/api/preview-tokens/9').send({ reason: 'Shared by mistake' });
+
+      expect(response.status).toBe(200);
+      expect(mockRevokePreviewToken).toHaveBeenCalledWith(9, 1, 'Shared by mistake');
+    });
+
+    it('should return 404 when the token cannot be revoked', async () => {
+      mockRevokePreviewToken.mockResolvedValue({ success: false, error: 'Token not found or unauthorized' });
+
+      const response = await request(app).delete('/api/preview-tokens/9');
+
+      expect(response.status).toBe(404);
+    });
+
+    it('should return 404 for tokens of another organization', async () => {
+      mockPoolQuery.mockResolvedValueOnce({ rows: [] });
+
+      const response = await request(app).delete('/api/preview-tokens/9');
+
+      expect(response.status).toBe(404);
+      expect(mockPoolQuery.mock.calls[0][1]).toEqual([9, 5]);
+      expect(mockRevokePreviewToken).not.toHaveBeenCalled();
+    });
+  });
+
+  describe('GET /api/preview-tokens/:tokenId/analytics', () => {
+    it('should scope the access log to the organization', async () => {
+      mockGetPreviewAnalytics.mockResolvedValue({ success: true, data: [{ id: 1, token_id: 9 }] });
+
+      const response = await request(app).get('/api/preview-tokens/9/analytics');
+
+      expect(response.status).toBe(200);
+      expect(response.body.data).toHaveLength(1);
+      expect(mockGetPreviewAnalytics).toHaveBeenCalledWith({ tokenId: 9, organizationId: 5 }, 1);
+    });
+  });
+
+  describe('GET /api/preview/:token', () => {
+    it('should return the draft content without authentication', async () => {
+      mockValidatePreviewToken.mockResolvedValue({
+        success: true,
+        data: {
+          valid: true,
+          token: tokenRow,
+          version: { content_type: 'post', content_id: 5, version_number: 3, title: 'Draft title', content: '<p>Draft</p>' },
+        },
+      });
+
+      const response = await request(app).get('/api/preview/abc123');
+
+      expect(response.status).toBe(200);
+      expect(response.body.data.title).toBe('Draft title');
+      expect(response.body.data.preview.expires_at).toBe(tokenRow.expires_at);
+      expect(response.headers['cache-control']).toBe('no-store');
+      expect(response.headers['x-robots-tag']).toContain('noindex');
+      expect(mockAuthenticateToken).not.toHaveBeenCalled();
+    });
+
+    it('should ask for a password on protected tokens', async () => {
+      mockValidatePreviewToken.mockResolvedValue({
+        success: true,
+        data: { valid: false, requiresPassword: true, error: 'Password required' },
+      });
+
+      const response = await request(app).get('/api/preview/abc123');
+
+      expect(response.status).toBe(401);
+      expect(response.body.requires_password).toBe(true);
+    });
+
+    it('should pass the password through on POST', async () => {
+      mockValidatePreviewToken.mockResolvedValue({
+        success: true,
+        data: { valid: true, token: tokenRow, version: { title: 'Draft' } },
+      });
+
+      await request(app).post('/api/preview/abc123').send({ password: 'letmein' });
+
+      expect(mockValidatePreviewToken).toHaveBeenCalledWith(
+        'abc123',
+        expect.objectContaining({ password: 'letmein' })
+      );
+    });
+
+    it('should return 410 for expired tokens', async () => {
+      mockValidatePreviewToken.mockResolvedValue({
+        success: true,
+        data: { valid: false, expired: true, error: 'Token expired' },
+      });
+
+      const response = await request(app).get('/api/preview/abc123');
+
+      expect(response.status).toBe(410);
+    });
+
+    it('should return 404 for unknown tokens', async () => {
+      mockValidatePreviewToken.mockResolvedValue({
+        success: true,
+        data: { valid: false, error: 'Invalid token' },
+      });
+
+      const response = await request(app).get('/api/preview/nope');
+
+      expect(response.status).toBe(404);
+    });
+  });
+});
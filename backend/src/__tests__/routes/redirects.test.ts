@@ -0,0 +1,129 @@
+import request from 'supertest';
+import express from 'express';
+import redirectsRouter from '../../routes/redirects';
+import { redirectService } from '../../services/RedirectService';
+
+// Mock dependencies
+jest.mock('../../services/RedirectService', () => ({
+  redirectService: {
+    resolve: jest.fn(),
+    listRedirects: jest.fn(),
+    createRedirect: jest.fn(),
+    updateRedirect: jest.fn(),
+    deleteRedirect: jest.fn()
+  }
+}));
+jest.mock('../../middleware/auth', () => ({
+  authenticateToken: jest.fn((req, res, next) => {
+    req.user = { userId: 1, email: 'editor@test.com', role: 'editor' };
+    next();
+  }),
+  requireEditor: jest.fn((req, res, next) => next())
+}));
+jest.mock('../../middleware/tenancy', () => ({
+  requireOrganization: jest.fn((req, res, next) => {
+    req.organizationId = 5;
+    next();
+  })
+}));
+
+const mockRedirectService = redirectService as jest.Mocked<typeof redirectService>;
+
+const app = express();
+app.use(express.json());
+app.use((req, res, next) => {
+  (req as any).domain = { id: 2, hostname: 'blog.example.com' };
+  next();
+});
+app.use('/api/redirects', redirectsRouter);
+
+describe('Redirect Routes', () => {
+  beforeEach(() => {
+    jest.clearAllMocks();
+  });
+
+  describe('GET /api/redirects/resolve', () => {
+    it('should resolve the path on the requesting domain', async () => {
+      mockRedirectService.resolve.mockResolvedValue({ success: true, data: { target: '/blog/new', status_code: 301 } });
+
+      const response = await request(app).get('/api/redirects/resolve').query({ path: '/blog/old' }).expect(200);
+
+      expect(mockRedirectService.resolve).toHaveBeenCalledWith('/blog/old', 2);
+      expect(response.body.data).toEqual({ target: '/blog/new', status_code: 301 });
+    });
+
+    it('should answer null for paths without a redirect', async () => {
+      mockRedirectService.resolve.mockResolvedValue({ success: true, data: null });
+
+      const response = await request(app).get('/api/redirects/resolve').query({ path: '/missing' }).expect(200);
+
+      expect(response.body).toEqual({ success: true, data: null });
+    });
+
+    it('should require an absolute path', async () => {
+      await request(app).get('/api/redirects/resolve').query({ path: 'blog/old' }).expect(400);
+      expect(mockRedirectService.resolve).not.toHaveBeenCalled();
+    });
+  });
+
+  describe('POST /api/redirects', () => {
+    it('should create a redirect with defaults', async () => {
+      mockRedirectService.createRedirect.mockResolvedValue({ success: true, data: { id: 3 } as any });
+
+      await request(app)
+        .post('/api/redirects')
+        .send({ source_path: '/old', target_path: 'https://example.org/new' })
+        .expect(201);
+
+      expect(mockRedirectService.createRedirect).toHaveBeenCalledWith(5, 1, {
+        source_path: '/old',
+        target_path: 'https://example.org/new',
+        status_code: 301,
+        domain_id: null
+      });
+    });
+
+    it('should reject targets that are neither paths nor URLs', async () => {
+      const response = await request(app)
+        .post('/api/redirects')
+        .send({ source_path: '/old', target_path: 'javascript:alert(1)' })
+        .expect(400);
+
+      expect(response.body.error).toBe('Validation failed');
+      expect(mockRedirectService.createRedirect).not.toHaveBeenCalled();
+    });
+
+    it('should map loops to 400 and duplicates to 409', async () => {
+      mockRedirectService.createRedirect.mockResolvedValueOnce({
+        success: false,
+        error: 'Redirect would create a loop: /a → /b → /a',
+        errorCode: 'VALIDATION_ERROR' as any
+      });
+      mockRedirectService.createRedirect.mockResolvedValueOnce({
+        success: false,
+        error: 'A redirect for this path already exists',
+        errorCode: 'CONFLICT' as any
+      });
+
+      const body = { source_path: '/a', target_path: '/b' };
+      const loop = await request(app).post('/api/redirects').send(body).expect(400);
+      await request(app).post('/api/redirects').send(body).expect(409);
+
+      expect(loop.body.error).toContain('loop');
+    });
+  });
+
+  describe('DELETE /api/redirects/:id', () => {
+    it('should return 404 for redirects of other organizations', async () => {
+      mockRedirectService.deleteRedirect.mockResolvedValue({
+        success: false,
+        error: 'Redirect not found',
+        errorCode: 'NOT_FOUND' as any
+      });
+
+      await request(app).delete('/api/redirects/9').expect(404);
+
+      expect(mockRedirectService.deleteRedirect).toHaveBeenCalledWith(5, 9);
+    });
+  });
+});
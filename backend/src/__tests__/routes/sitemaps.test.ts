@@ -0,0 +1,165 @@
+import request from 'supertest';
+import express from 'express';
+import sitemapsRouter from '../../routes/sitemaps';
+import { DomainService } from '../../services/domainService';
+import { siteService } from '../../services/siteService';
+import { sitemapService } from '../../services/SitemapService';
+
+// Mock dependencies
+jest.mock('../../services/domainService', () => ({
+  DomainService: {
+    getDomainByHostname: jest.fn(),
+    getDefaultDomain: jest.fn()
+  }
+}));
+jest.mock('../../services/siteService', () => ({
+  siteService: {
+    getSitesByDomain: jest.fn()
+  }
+}));
+jest.mock('../../services/SitemapService', () => ({
+  sitemapService: {
+    getPages: jest.fn()
+  }
+}));
+// Split sitemaps after three URLs instead of 50,000
+jest.mock('../../utils/sitemap', () => ({
+  ...jest.requireActual('../../utils/sitemap'),
+  SITEMAP_MAX_URLS: 3
+}));
+
+const mockGetDomainByHostname = DomainService.getDomainByHostname as jest.Mock;
+const mockGetDefaultDomain = DomainService.getDefaultDomain as jest.Mock;
+const mockGetSitesByDomain = siteService.getSitesByDomain as jest.Mock;
+const mockGetPages = sitemapService.getPages as jest.Mock;
+
+const app = express();
+app.use('/', sitemapsRouter);
+
+const domain = { id: 4, hostname: 'blog.example.com' };
+const mainSite = { id: 1, base_path: '/', is_default: true, is_active: true, settings: {} };
+const shopSite = { id: 2, base_path: '/shop', is_default: false, is_active: true, settings: { robots_txt: 'User-agent: BadBot\r\nDisallow: /' } };
+const oldSite = { id: 3, base_path: '/old', is_default: false, is_active: false, settings: {} };
+
+const pages = (count: number) => Array.from({ length: count }, (_, index) => ({
+  path: `/blog/post-${index + 1}`,
+  lastmod: new Date(Date.UTC(2026, 2, index + 1)),
+}));
+
+describe('Sitemap Routes', () => {
+  beforeEach(() => {
+    jest.clearAllMocks();
+    mockGetDomainByHostname.mockResolvedValue(domain);
+    mockGetSitesByDomain.mockResolvedValue([shopSite, mainSite, oldSite]);
+  });
+
+  describe('GET /sitemap.xml', () => {
+    it('should render the default site sitemap', async () => {
+      mockGetPages.mockResolvedValue({ success: true, data: [{ path: '/', lastmod: undefined }, ...pages(2)] });
+
+      const response = await request(app).get('/sitemap.xml').set('Host', 'blog.example.com');
+
+      expect(response.status).toBe(200);
+      expect(response.headers['content-type']).toBe('application/xml; charset=utf-8');
+      expect(response.headers['cache-control']).toBe('public, max-age=900');
+      expect(response.headers['last-modified']).toBe('Mon, 02 Mar 2026 00:00:00 GMT');
+      expect(mockGetDomainByHostname).toHaveBeenCalledWith('blog.example.com');
+      expect(mockGetPages).toHaveBeenCalledWith(4, mainSite);
+
+      expect(response.text).toContain('<urlset xmlns="http://www.sitemaps.org/schemas/sitemap/0.9">');
+      expect(response.text).toContain('<url><loc>http://blog.example.com/</loc></url>');
+      expect(response.text).toContain('<url><loc>http://blog.example.com/blog/post-2</loc><lastmod>2026-03-02T00:00:00.000Z</lastmod></url>');
+    });
+
+    it('should split large sitemaps behind a sitemap index', async () => {
+      mockGetPages.mockResolvedValue({ success: true, data: pages(5) });
+
+      const index = await request(app).get('/sitemap.xml').set('Host', 'blog.example.com');
+
+      expect(index.status).toBe(200);
+      expect(index.text).toContain('<sitemapindex');
+      expect(index.text).toContain('<sitemap><loc>http://blog.example.com/sitemap-1.xml</loc><lastmod>2026-03-03T00:00:00.000Z</lastmod></sitemap>');
+      expect(index.text).toContain('<sitemap><loc>http://blog.example.com/sitemap-2.xml</loc><lastmod>2026-03-05T00:00:00.000Z</lastmod></sitemap>');
+
+      const second = await request(app).get('/sitemap-2.xml').set('Host', 'blog.example.com');
+
+      expect(second.status).toBe(200);
+      expect(second.text).not.toContain('post-3<');
+      expect(second.text).toContain('<loc>http://blog.example.com/blog/post-4</loc>');
+      expect(second.text).toContain('<loc>http://blog.example.com/blog/post-5</loc>');
+
+      const missing = await request(app).get('/sitemap-3.xml');
+      expect(missing.status).toBe(404);
+    });
+
+    it('should fall back to the default domain', async () => {
+      mockGetDomainByHostname.mockResolvedValue(null);
+      mockGetDefaultDomain.mockResolvedValue(domain);
+      mockGetPages.mockResolvedValue({ success: true, data: [] });
+
+      const response = await request(app).get('/sitemap.xml');
+
+      expect(response.status).toBe(200);
+      expect(mockGetPages).toHaveBeenCalledWith(4, mainSite);
+    });
+
+    it('should return 500 when the sitemap cannot be built', async () => {
+      mockGetPages.mockResolvedValue({ success: false, error: 'connection refused' });
+
+      const response = await request(app).get('/sitemap.xml');
+
+      expect(response.status).toBe(500);
+    });
+  });
+
+  describe('GET /:basePath/sitemap.xml', () => {
+    it('should render the sitemap of the site at that base path', async () => {
+      mockGetPages.mockResolvedValue({ success: true, data: [{ path: '/shop/blog/boots' }] });
+
+      const response = await request(app).get('/shop/sitemap.xml').set('Host', 'blog.example.com');
+
+      expect(response.status).toBe(200);
+      expect(mockGetPages).toHaveBeenCalledWith(4, shopSite);
+      expect(response.text).toContain('<loc>http://blog.example.com/shop/blog/boots</loc>');
+    });
+
+    it('should return 404 for inactive and unknown sites', async () => {
+      expect((await request(app).get('/old/sitemap.xml')).status).toBe(404);
+      expect((await request(app).get('/nope/sitemap.xml')).status).toBe(404);
+      expect(mockGetPages).not.toHaveBeenCalled();
+    });
+  });
+
+  describe('GET /robots.txt', () => {
+    it('should list the custom rules and sitemaps of the active sites', async () => {
+      const response = await request(app).get('/robots.txt').set('Host', 'blog.example.com');
+
+      expect(response.status).toBe(200);
+      expect(response.headers['content-type']).toBe('text/plain; charset=utf-8');
+      expect(response.text).toBe([
+        'User-agent: *',
+        'Disallow: /admin/',
+        'Disallow: /api/',
+        'Disallow: /preview/',
+        '',
+        'User-agent: BadBot',
+        'Disallow: /',
+        '',
+        'Sitemap: http://blog.example.com/sitemap.xml',
+        'Sitemap: http://blog.example.com/shop/sitemap.xml',
+        '',
+      ].join('\n'));
+    });
+
+    it('should point at the root sitemap when no domain is configured', async () => {
+      mockGetDomainByHostname.mockResolvedValue(null);
+      mockGetDefaultDomain.mockResolvedValue(null);
+
+      const response = await request(app).get('/robots.txt').set('Host', 'localhost');
+
+      expect(response.status).toBe(200);
+      expect(response.text).toContain('Sitemap: http://localhost/sitemap.xml');
+      expect(mockGetSitesByDomain).not.toHaveBeenCalled();
+    });
+  });
+});
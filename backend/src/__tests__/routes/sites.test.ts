@@ -452,7 +452,9 @@ describe('Sites Routes', () => {
         siteName: 'Main Site',
         siteTitle: 'Main Site Title',
         basePath: '/',
-        domainId: 1
+        domainId: 1,
+        defaultLocale: 'en',
+        locales: ['en']
       });
       expect(mockSiteService.resolveSiteByHostAndPath).toHaveBeenCalledWith('example.com', '/');
     });
@@ -481,6 +483,24 @@ describe('Sites Routes', () => {
       expect(mockSiteService.resolveSiteByHostAndPath).toHaveBeenCalledWith('example.com', '/');
     });
 
+    it('should include the locale settings of the site', async () => {
+      mockSiteService.resolveSiteByHostAndPath.mockResolvedValue({
+        id: 2,
+        name: 'Docs',
+        base_path: '/docs',
+        domain_id: 1,
+        settings: { default_locale: 'de', locales: ['en', 'de'] }
+      } as any);
+
+      const response = await request(app)
+        .get('/api/sites/context/current')
+        .set('Host', 'example.com')
+        .expect(200);
+
+      expect(response.body.defaultLocale).toBe('de');
+      expect(response.body.locales).toEqual(['de', 'en']);
+    });
+
     it('should return 404 when no site found for default host', async () => {
       mockSiteService.resolveSiteByHostAndPath.mockResolvedValue(null);
 
@@ -0,0 +1,114 @@
+import request from 'supertest';
+import express from 'express';
+import ssrRouter from '../../routes/ssr';
+import { ssrService } from '../../services/SsrService';
+import { redirectService } from '../../services/RedirectService';
+
+// Mock dependencies
+jest.mock('../../services/SsrService', () => ({
+  ssrService: {
+    renderPage: jest.fn()
+  }
+}));
+
+jest.mock('../../services/RedirectService', () => ({
+  redirectService: {
+    resolve: jest.fn()
+  }
+}));
+
+const mockRenderPage = ssrService.renderPage as jest.Mock;
+const mockResolveRedirect = redirectService.resolve as jest.Mock;
+
+const app = express();
+app.use((req, res, next) => {
+  res.setHeader('Content-Security-Policy', "default-src 'self'");
+  next();
+});
+app.use('/', ssrRouter);
+
+describe('SSR Routes', () => {
+  beforeEach(() => {
+    jest.clearAllMocks();
+    mockRenderPage.mockResolvedValue({ success: true, data: { status: 200, html: '<html>rendered</html>' } });
+    mockResolveRedirect.mockResolvedValue({ success: true, data: null });
+  });
+
+  it('should render the home page for the requested host', async () => {
+    const response = await request(app).get('/').set('Host', 'blog.example.com');
+
+    expect(response.status).toBe(200);
+    expect(response.headers['content-type']).toBe('text/html; charset=utf-8');
+    expect(response.headers['cache-control']).toBe('no-cache');
+    expect(response.headers['content-security-policy']).toBeUndefined();
+    expect(response.text).toBe('<html>rendered</html>');
+    expect(mockRenderPage).toHaveBeenCalledWith(
+      {
+        url: '/',
+        origin: 'http://blog.example.com',
+        apiBaseUrl: 'http://127.0.0.1:5000/api',
+        headers: { Host: 'blog.example.com', 'X-Forwarded-Proto': 'http' },
+      },
+      'blog.example.com/'
+    );
+  });
+
+  it.each([
+    '/blog/hello',
+    '/page/about',
+    '/page/about/team/engineering',
+    '/category/news?page=2',
+    '/tag/news',
+    '/de',
+    '/de/blog/hallo',
+    '/pt-BR/page/sobre',
+    '/de/page/ueber-uns/team',
+  ])('should render %s', async (url) => {
+    const response = await request(app).get(url).set('Host', 'blog.example.com');
+
+    expect(response.status).toBe(200);
+    expect(mockRenderPage.mock.calls[0][0].url).toBe(url);
+    expect(mockRenderPage.mock.calls[0][1]).toBe(`blog.example.com${url}`);
+  });
+
+  it('should leave other paths alone', async () => {
+    for (const url of ['/blog', '/admin', '/api', '/de/category/news', '/preview/token']) {
+      expect((await request(app).get(url)).status).toBe(404);
+    }
+    expect(mockRenderPage).not.toHaveBeenCalled();
+  });
+
+  it('should pass on the status of the rendered page', async () => {
+    mockRenderPage.mockResolvedValue({ success: true, data: { status: 404, html: '<html>Post Not Found</html>' } });
+
+    const response = await request(app).get('/blog/missing');
+
+    expect(response.status).toBe(404);
+    expect(response.text).toContain('Post Not Found');
+  });
+
+  it('should redirect a missing page that moved', async () => {
+    mockRenderPage.mockResolvedValue({ success: true, data: { status: 404, html: '<html>Post Not Found</html>' } });
+    mockResolveRedirect.mockResolvedValue({ success: true, data: { target: '/blog/new-slug', status_code: 301 } });
+
+    const response = await request(app).get('/blog/old-slug?ref=feed');
+
+    expect(response.status).toBe(301);
+    expect(response.headers.location).toBe('/blog/new-slug');
+    expect(mockResolveRedirect).toHaveBeenCalledWith('/blog/old-slug', null);
+  });
+
+  it('should not look up redirects for pages that exist', async () => {
+    await request(app).get('/blog/hello');
+
+    expect(mockResolveRedirect).not.toHaveBeenCalled();
+  });
+
+  it('should return 503 without a client build', async () => {
+    mockRenderPage.mockResolvedValue({ success: false, error: 'Client build not found', errorCode: 'SERVICE_UNAVAILABLE' });
+
+    const response = await request(app).get('/');
+
+    expect(response.status).toBe(503);
+  });
+});
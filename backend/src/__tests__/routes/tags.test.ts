@@ -0,0 +1,162 @@
+import request from 'supertest';
+import express from 'express';
+import adminRouter from '../../routes/admin';
+import tagsRouter from '../../routes/tags';
+import { deleteUnusedTags, getTagBySlug, listTags, mergeTags, renameTag } from '../../db/tags';
+
+// Mock dependencies
+jest.mock('../../utils/database', () => ({
+  query: jest.fn()
+}));
+jest.mock('../../db/tags', () => ({
+  listTags: jest.fn(),
+  getTagBySlug: jest.fn(),
+  renameTag: jest.fn(),
+  mergeTags: jest.fn(),
+  deleteUnusedTags: jest.fn()
+}));
+jest.mock('../../db/distribution', () => ({}));
+jest.mock('../../services/DistributionService', () => jest.fn());
+jest.mock('../../middleware/apiKey', () => ({
+  authenticate: jest.fn((req, res, next) => {
+    req.user = { userId: 1, email: 'editor@test.com', role: req.headers['x-test-role'] || 'editor' };
+    next();
+  }),
+  requireScope: jest.fn(() => (req: any, res: any, next: any) => next())
+}));
+jest.mock('../../middleware/tenancy', () => ({
+  requireOrganization: jest.fn((req, res, next) => {
+    req.organizationId = 5;
+    next();
+  })
+}));
+jest.mock('../../utils/publicCache', () => ({
+  invalidatePublicCaches: jest.fn()
+}));
+
+const mockListTags = listTags as jest.MockedFunction<typeof listTags>;
+const mockGetTagBySlug = getTagBySlug as jest.MockedFunction<typeof getTagBySlug>;
+const mockRenameTag = renameTag as jest.MockedFunction<typeof renameTag>;
+const mockMergeTags = mergeTags as jest.MockedFunction<typeof mergeTags>;
+const mockDeleteUnusedTags = deleteUnusedTags as jest.MockedFunction<typeof deleteUnusedTags>;
+
+const app = express();
+app.use(express.json());
+app.use('/api/admin', adminRouter);
+app.use('/api/tags', tagsRouter);
+
+describe('Tag Routes', () => {
+  beforeEach(() => {
+    jest.clearAllMocks();
+  });
+
+  describe('GET /api/admin/tags', () => {
+    it('should list the organization\'s tags with usage counts', async () => {
+      const tags = [{ id: 1, name: 'News', slug: 'news', post_count: 3, published_post_count: 2 }];
+      mockListTags.mockResolvedValue(tags);
+
+      const response = await request(app).get('/api/admin/tags').expect(200);
+
+      expect(mockListTags).toHaveBeenCalledWith(5);
+      expect(response.body.data).toEqual(tags);
+    });
+  });
+
+  describe('PUT /api/admin/tags/:id', () => {
+    it('should rename a tag', async () => {
+      mockRenameTag.mockResolvedValue({ id: 1, name: 'World News', slug: 'world-news' });
+
+      const response = await request(app).put('/api/admin/tags/1').send({ name: ' World News ' }).expect(200);
+
+      expect(mockRenameTag).toHaveBeenCalledWith(5, 1, 'World News');
+      expect(response.body.data.slug).toBe('world-news');
+    });
+
+    it('should reject names without a usable slug', async () => {
+      await request(app).put('/api/admin/tags/1').send({ name: '!!!' }).expect(400);
+      expect(mockRenameTag).not.toHaveBeenCalled();
+    });
+
+    it('should suggest merging when the slug is taken', async () => {
+      mockRenameTag.mockRejectedValue({ code: '23505' });
+
+      const response = await request(app).put('/api/admin/tags/1').send({ name: 'Sports' }).expect(409);
+
+      expect(response.body.error).toMatch(/merge/);
+    });
+
+    it('should return 404 for tags of other organizations', async () => {
+      mockRenameTag.mockResolvedValue(null);
+
+      await request(app).put('/api/admin/tags/99').send({ name: 'Sports' }).expect(404);
+    });
+
+    it('should not let authors rename tags', async () => {
+      await request(app).put('/api/admin/tags/1').set('x-test-role', 'author').send({ name: 'Sports' }).expect(403);
+      expect(mockRenameTag).not.toHaveBeenCalled();
+    });
+  });
+
+  describe('POST /api/admin/tags/merge', () => {
+    it('should merge tags into the target', async () => {
+      mockMergeTags.mockResolvedValue({ merged: 2 });
+
+      const response = await request(app)
+        .post('/api/admin/tags/merge')
+        .send({ sourceIds: [2, 3], targetId: 1 })
+        .expect(200);
+
+      expect(mockMergeTags).toHaveBeenCalledWith(5, [2, 3], 1);
+      expect(response.body.merged).toBe(2);
+    });
+
+    it('should require source tags', async () => {
+      await request(app).post('/api/admin/tags/merge').send({ sourceIds: [], targetId: 1 }).expect(400);
+      expect(mockMergeTags).not.toHaveBeenCalled();
+    });
+
+    it('should return 404 when the target does not exist', async () => {
+      mockMergeTags.mockResolvedValue(null);
+
+      await request(app).post('/api/admin/tags/merge').send({ sourceIds: [2], targetId: 99 }).expect(404);
+    });
+  });
+
+  describe('DELETE /api/admin/tags/unused', () => {
+    it('should delete every unused tag when no IDs are given', async () => {
+      mockDeleteUnusedTags.mockResolvedValue(4);
+
+      const response = await request(app).delete('/api/admin/tags/unused').expect(200);
+
+      expect(mockDeleteUnusedTags).toHaveBeenCalledWith(5, undefined);
+      expect(response.body.deleted).toBe(4);
+    });
+
+    it('should only delete the selected tags', async () => {
+      mockDeleteUnusedTags.mockResolvedValue(1);
+
+      await request(app).delete('/api/admin/tags/unused').send({ ids: [7, 8] }).expect(200);
+
+      expect(mockDeleteUnusedTags).toHaveBeenCalledWith(5, [7, 8]);
+    });
+  });
+
+  describe('GET /api/tags/:slug', () => {
+    it('should return the tag for its archive page', async () => {
+      mockGetTagBySlug.mockResolvedValue({ id: 1, name: 'News', slug: 'news' });
+
+      const response = await request(app).get('/api/tags/news').expect(200);
+
+      expect(response.body.data).toEqual({ id: 1, name: 'News', slug: 'news' });
+      expect(mockGetTagBySlug).toHaveBeenCalledWith('news', { siteId: undefined, domainId: undefined });
+    });
+
+    it('should return null for unknown tags', async () => {
+      mockGetTagBySlug.mockResolvedValue(null);
+
+      const response = await request(app).get('/api/tags/nope').expect(200);
+
+      expect(response.body.data).toBeNull();
+    });
+  });
+});
@@ -0,0 +1,154 @@
+import { describe, it, expect, beforeEach, jest } from '@jest/globals';
+
+const mockPoolQuery: any = jest.fn();
+
+// Mock database module
+jest.mock('../../utils/database', () => ({
+  pool: {
+    query: mockPoolQuery,
+  },
+}));
+
+// Import after mocks are defined
+import { apiKeyService, hashApiKey } from '../../services/ApiKeyService';
+
+const storedKey = {
+  id: 5,
+  organization_id: 1,
+  name: 'Static site build',
+  key_prefix: 'cms_0123abcd',
+  scopes: ['read:posts'],
+  created_by: 1,
+  expires_at: null,
+  last_used_at: null,
+  revoked_at: null,
+  created_at: new Date(),
+};
+
+describe('ApiKeyService', () => {
+  beforeEach(() => {
+    jest.clearAllMocks();
+    mockPoolQuery.mockReset();
+  });
+
+  describe('createApiKey', () => {
+    it('should store only the hash and return the plain key once', async () => {
+      mockPoolQuery.mockResolvedValueOnce({ rows: [{ role: 'admin' }] }); // manager check
+      mockPoolQuery.mockResolvedValueOnce({ rows: [storedKey] }); // insert
+
+      const result = await apiKeyService.createApiKey({
+        organizationId: 1,
+        name: 'Static site build',
+        scopes: ['read:posts', 'read:posts'],
+        createdBy: 1,
+      });
+
+      expect(result.success).toBe(true);
+      const key = result.data!.key;
+      expect(key).toMatch(/^cms_[0-9a-f]{48}$/);
+
+      const [sql, params] = mockPoolQuery.mock.calls[1];
+      expect(sql).toContain('INSERT INTO api_keys');
+      expect(sql).not.toMatch(/RETURNING[\s\S]*key_hash/);
+      expect(params[2]).toBe(key.slice(0, 12));
+      expect(params[3]).toBe(hashApiKey(key));
+      expect(params).not.toContain(key);
+      expect(params[4]).toEqual(['read:posts']);
+    });
+
+    it('should reject unknown scopes', async () => {
+      const result = await apiKeyService.createApiKey({
+        organizationId: 1,
+        name: 'Bad',
+        scopes: ['delete:everything' as any],
+        createdBy: 1,
+      });
+
+      expect(result.success).toBe(false);
+      expect(result.error).toContain('Invalid scopes');
+      expect(mockPoolQuery).not.toHaveBeenCalled();
+    });
+
+    it('should reject expiry dates in the past', async () => {
+      const result = await apiKeyService.createApiKey({
+        organizationId: 1,
+        name: 'Expired',
+        scopes: ['read:posts'],
+        expiresAt: new Date(Date.now() - 1000),
+        createdBy: 1,
+      });
+
+      expect(result.success).toBe(false);
+      expect(result.error).toContain('Invalid expiry');
+    });
+
+    it('should only allow owners and admins', async () => {
+      mockPoolQuery.mockResolvedValueOnce({ rows: [{ role: 'editor' }] });
+
+      const result = await apiKeyService.createApiKey({
+        organizationId: 1,
+        name: 'Editor key',
+        scopes: ['read:posts'],
+        createdBy: 2,
+      });
+
+      expect(result.success).toBe(false);
+      expect(result.error).toBe('Only organization owners and admins can manage API keys');
+      expect(mockPoolQuery).toHaveBeenCalledTimes(1);
+    });
+  });
+
+  describe('revokeApiKey', () => {
+    it('should scope revocation to the organization', async () => {
+      mockPoolQuery.mockResolvedValueOnce({ rows: [{ role: 'owner' }] });
+      mockPoolQuery.mockResolvedValueOnce({ rowCount: 0 });
+
+      const result = await apiKeyService.revokeApiKey(1, 99, 1);
+
+      expect(result.success).toBe(false);
+      expect(result.error).toBe('API key not found');
+      expect(mockPoolQuery.mock.calls[1][1]).toEqual([99, 1]);
+    });
+
+    it('should revoke an active key', async () => {
+      mockPoolQuery.mockResolvedValueOnce({ rows: [{ role: 'owner' }] });
+      mockPoolQuery.mockResolvedValueOnce({ rowCount: 1 });
+
+      const result = await apiKeyService.revokeApiKey(1, 5, 1);
+
+      expect(result.success).toBe(true);
+      expect(mockPoolQuery.mock.calls[1][0]).toContain('SET revoked_at = NOW()');
+    });
+  });
+
+  describe('verifyApiKey', () => {
+    it('should look keys up by hash and record usage', async () => {
+      const key = 'cms_' + 'a'.repeat(48);
+      mockPoolQuery.mockResolvedValueOnce({ rows: [storedKey] });
+      mockPoolQuery.mockResolvedValueOnce({ rowCount: 1 });
+
+      const result = await apiKeyService.verifyApiKey(key);
+
+      expect(result.data).toEqual(storedKey);
+      expect(mockPoolQuery.mock.calls[0][1]).toEqual([hashApiKey(key)]);
+      expect(mockPoolQuery.mock.calls[0][0]).toContain('revoked_at IS NULL');
+      expect(mockPoolQuery.mock.calls[1][0]).toContain('last_used_at = NOW()');
+    });
+
+    it('should return null for unknown or revoked keys', async () => {
+      mockPoolQuery.mockResolvedValueOnce({ rows: [] });
+
+      const result = await apiKeyService.verifyApiKey('cms_' + 'b'.repeat(48));
+
+      expect(result.success).toBe(true);
+      expect(result.data).toBeNull();
+    });
+
+    it('should not query for values that are not API keys', async () => {
+      const result = await apiKeyService.verifyApiKey('eyJhbGciOiJIUzI1NiJ9.jwt');
+
+      expect(result.data).toBeNull();
+      expect(mockPoolQuery).not.toHaveBeenCalled();
+    });
+  });
+});
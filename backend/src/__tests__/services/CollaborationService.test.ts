@@ -0,0 +1,178 @@
+import { describe, it, expect, beforeEach, jest } from '@jest/globals';
+import { EventEmitter } from 'events';
+
+const mockPoolQuery: any = jest.fn();
+
+// Mock database module
+jest.mock('../../utils/database', () => ({
+  pool: {
+    query: mockPoolQuery,
+  },
+}));
+
+// Import after mocks are defined
+import { CollaborationService } from '../../services/CollaborationService';
+
+/**
+ * Minimal stand-in for a ws socket that records what it was sent
+ */
+class FakeSocket extends EventEmitter {
+  readyState = 1; // WebSocket.OPEN
+  sent: any[] = [];
+
+  send(data: string) {
+    this.sent.push(JSON.parse(data));
+  }
+
+  events() {
+    return this.sent.map((message) => message.event);
+  }
+}
+
+const alice = { id: 1, email: 'alice@example.com', first_name: 'Alice' };
+const bob = { id: 2, email: 'bob@example.com', first_name: 'Bob' };
+
+const flush = () => new Promise((resolve) => setImmediate(resolve));
+
+describe('CollaborationService', () => {
+  let service: CollaborationService;
+
+  beforeEach(() => {
+    mockPoolQuery.mockReset();
+    service = new CollaborationService();
+  });
+
+  const connect = (user: typeof alice, organizationId = 5) => {
+    const socket = new FakeSocket();
+    const client = service.handleConnection(socket as any, user, organizationId);
+    return { socket, client };
+  };
+
+  const join = async (client: any, contentId = 12) => {
+    mockPoolQuery.mockResolvedValueOnce({ rows: [{ site_id: 3 }] });
+    await service.handleMessage(client, JSON.stringify({ action: 'join', content_type: 'post', content_id: contentId }));
+  };
+
+  describe('rooms and presence', () => {
+    it('checks the content belongs to the caller organization', async () => {
+      const { socket, client } = connect(alice);
+      mockPoolQuery.mockResolvedValueOnce({ rows: [] });
+
+      await service.handleMessage(client, JSON.stringify({ action: 'join', content_type: 'post', content_id: 99 }));
+
+      expect(mockPoolQuery.mock.calls[0][0]).toContain('FROM posts WHERE id = $1 AND organization_id = $2');
+      expect(mockPoolQuery.mock.calls[0][1]).toEqual([99, 5]);
+      expect(service.getParticipants('post:99')).toEqual([]);
+      expect(socket.sent[0].event).toBe('system:notification');
+    });
+
+    it('introduces existing editors to a newcomer and announces the newcomer', async () => {
+      const first = connect(alice);
+      const second = connect(bob);
+
+      await join(first.client);
+      await join(second.client);
+
+      expect(service.getParticipants('post:12')).toEqual([alice, bob]);
+      expect(second.socket.sent[0]).toMatchObject({ event: 'user:joined', room: 'post:12', data: { user: alice, site_id: 3 } });
+      expect(first.socket.sent[0]).toMatchObject({ event: 'user:joined', data: { user: bob } });
+    });
+
+    it('announces when an editor leaves', async () => {
+      const first = connect(alice);
+      const second = connect(bob);
+      await join(first.client);
+      await join(second.client);
+
+      second.socket.emit('close');
+
+      expect(service.getParticipants('post:12')).toEqual([alice]);
+      expect(first.socket.events()).toEqual(['user:joined', 'user:left']);
+    });
+
+    it('relays typing to others in the room only', async () => {
+      const first = connect(alice);
+      const second = connect(bob);
+      const outsider = connect({ id: 3, email: 'carol@example.com' } as any);
+      await join(first.client);
+      await join(second.client);
+
+      await service.handleMessage(first.client, JSON.stringify({
+        action: 'typing', content_type: 'post', content_id: 12, field: 'content', is_typing: true,
+      }));
+
+      expect(second.socket.sent.at(-1)).toMatchObject({ event: 'user:typing', data: { user: alice, is_typing: true, field: 'content' } });
+      expect(first.socket.events()).not.toContain('user:typing');
+      expect(outsider.socket.sent).toEqual([]);
+    });
+
+    it('ignores malformed messages', async () => {
+      const { client } = connect(alice);
+
+      await service.handleMessage(client, 'not json');
+      await service.handleMessage(client, JSON.stringify({ action: 'join', content_type: 'users', content_id: 1 }));
+
+      expect(mockPoolQuery).not.toHaveBeenCalled();
+    });
+  });
+
+  describe('service events', () => {
+    it('broadcasts auto-saves to other editors of the content', async () => {
+      const versionEvents = new EventEmitter();
+      service.subscribeToVersionEvents(versionEvents);
+      const first = connect(alice);
+      const second = connect(bob);
+      await join(first.client);
+      await join(second.client);
+
+      mockPoolQuery.mockResolvedValueOnce({ rows: [{ id: 1, email: 'alice@example.com', first_name: 'Alice', last_name: null }] });
+      versionEvents.emit('version:any', {
+        action: 'created',
+        version: { id: 40, site_id: 3, content_type: 'post', content_id: 12, version_type: 'auto_save' },
+        userId: 1,
+        siteId: 3,
+      });
+      await flush();
+
+      expect(second.socket.sent.at(-1)).toMatchObject({
+        event: 'version:auto_saved',
+        data: { version_id: 40, auto_save_id: 40, saved_by: { id: 1, email: 'alice@example.com' } },
+      });
+      expect(first.socket.events()).not.toContain('version:auto_saved');
+    });
+
+    it('skips the lookup when nobody is in the room', async () => {
+      const versionEvents = new EventEmitter();
+      service.subscribeToVersionEvents(versionEvents);
+
+      versionEvents.emit('version:any', {
+        action: 'published',
+        version: { id: 40, site_id: 3, content_type: 'page', content_id: 8, version_type: 'published' },
+        userId: 1,
+        siteId: 3,
+      });
+      await flush();
+
+      expect(mockPoolQuery).not.toHaveBeenCalled();
+    });
+
+    it('broadcasts new preview links without token secrets', async () => {
+      const previewEvents = new EventEmitter();
+      service.subscribeToPreviewEvents(previewEvents);
+      const { socket, client } = connect(bob);
+      await join(client);
+
+      mockPoolQuery
+        .mockResolvedValueOnce({
+          rows: [{ id: 9, token: 'abc', token_hash: 'secret', password_hash: 'pw', version_id: 40, content_type: 'post', content_id: 12 }],
+        })
+        .mockResolvedValueOnce({ rows: [{ id: 1, email: 'alice@example.com' }] });
+      previewEvents.emit('token:generated', { tokenId: 9, siteId: 3, versionId: 40, userId: 1 });
+      await flush();
+
+      const message = socket.sent.at(-1);
+      expect(message.event).toBe('preview:created');
+      expect(message.data.preview_token).toEqual({ id: 9, token: 'abc', version_id: 40 });
+    });
+  });
+});
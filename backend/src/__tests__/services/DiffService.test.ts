@@ -226,6 +226,67 @@ describe('DiffService - CV-007', () => {
     });
   });
 
+  describe('generateBlockDiff', () => {
+    const hero = { id: 'a', type: 'hero', props: { heading: 'Welcome' } };
+    const quote = { id: 'b', type: 'quote', props: { text: 'Simple is better', attribution: 'Ada' } };
+    const gallery = { id: 'c', type: 'gallery', props: { images: [{ url: '/1.jpg', caption: 'One' }] } };
+
+    it('should match blocks by id and report added and removed blocks', () => {
+      const cta = { id: 'd', type: 'cta', props: { heading: 'Join us', button_label: 'Sign up' } };
+
+      const changes = diffService.generateBlockDiff(
+        { blocks: [hero, quote] },
+        { blocks: [hero, cta] }
+      );
+
+      expect(changes).toEqual([
+        expect.objectContaining({ type: 'block_removed', element: 'quote', blockId: 'b', path: 'data.blocks.1', oldContent: 'Simple is better Ada' }),
+        expect.objectContaining({ type: 'block_added', element: 'cta', blockId: 'd', path: 'data.blocks.1', newContent: 'Join us Sign up' })
+      ]);
+    });
+
+    it('should report moved blocks without changing the blocks in between', () => {
+      const changes = diffService.generateBlockDiff(
+        { blocks: [hero, quote, gallery] },
+        { blocks: [quote, gallery, hero] }
+      );
+
+      expect(changes).toEqual([
+        expect.objectContaining({ type: 'block_moved', blockId: 'a', fromIndex: 0, toIndex: 2 })
+      ]);
+    });
+
+    it('should report changed props by their path inside the block', () => {
+      const edited = { ...gallery, props: { images: [{ url: '/1.jpg', caption: 'First' }] } };
+
+      const changes = diffService.generateBlockDiff({ blocks: [gallery] }, { blocks: [edited] });
+
+      expect(changes).toEqual([
+        expect.objectContaining({
+          type: 'block_modified',
+          blockId: 'c',
+          path: 'data.blocks.0.props.images.0.caption',
+          attribute: 'images.0.caption',
+          oldValue: 'One',
+          newValue: 'First'
+        })
+      ]);
+    });
+
+    it('should ignore data that is not a block list', () => {
+      expect(diffService.generateBlockDiff({ members: [{ name: 'Ada' }] }, { members: [] })).toEqual([]);
+    });
+
+    it('should include block changes in version diffs', () => {
+      const result = diffService.diffVersions(
+        { ...mockVersion1, data: { blocks: [hero] } },
+        { ...mockVersion1, data: { blocks: [hero, quote] } }
+      );
+
+      expect(result.structuralDiff.changes.some(c => c.type === 'block_added' && c.blockId === 'b')).toBe(true);
+    });
+  });
+
   describe('generateMetadataDiff', () => {
     it('should detect title changes', () => {
       const result = diffService.generateMetadataDiff(mockVersion1, mockVersion2);
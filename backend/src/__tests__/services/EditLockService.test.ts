@@ -0,0 +1,116 @@
+import { describe, it, expect, beforeEach, jest } from '@jest/globals';
+
+const mockPoolQuery: any = jest.fn();
+
+// Mock database module
+jest.mock('../../utils/database', () => ({
+  pool: {
+    query: mockPoolQuery,
+  },
+}));
+
+// Import after mocks are defined
+import { editLockService, EDIT_LOCK_TTL_SECONDS } from '../../services/EditLockService';
+import { ContentType } from '../../types/versioning';
+
+const lockRow = (overrides: Record<string, unknown> = {}) => ({
+  content_type: 'post',
+  content_id: 12,
+  acquired_at: new Date('2026-01-01T10:02:00Z'),
+  heartbeat_at: new Date('2026-01-01T10:05:00Z'),
+  expires_at: new Date('2026-01-01T10:06:30Z'),
+  user_id: 1,
+  email: 'alice@example.com',
+  first_name: 'Alice',
+  last_name: null,
+  ...overrides,
+});
+
+describe('EditLockService', () => {
+  beforeEach(() => {
+    mockPoolQuery.mockReset();
+  });
+
+  describe('getLock', () => {
+    it('should return only live locks in the organization', async () => {
+      mockPoolQuery.mockResolvedValueOnce({ rows: [lockRow()] });
+
+      const result = await editLockService.getLock(5, ContentType.POST, 12);
+
+      expect(mockPoolQuery.mock.calls[0][0]).toContain('l.expires_at > NOW()');
+      expect(mockPoolQuery.mock.calls[0][1]).toEqual([5, 'post', 12]);
+      expect(result.data).toMatchObject({
+        content_type: 'post',
+        content_id: 12,
+        user: { id: 1, email: 'alice@example.com', first_name: 'Alice', last_name: undefined },
+      });
+    });
+
+    it('should return null when nobody holds the lock', async () => {
+      mockPoolQuery.mockResolvedValueOnce({ rows: [] });
+
+      const result = await editLockService.getLock(5, ContentType.POST, 12);
+
+      expect(result).toEqual({ success: true, data: null });
+    });
+  });
+
+  describe('acquireLock', () => {
+    it('should take a free lock', async () => {
+      mockPoolQuery
+        .mockResolvedValueOnce({ rows: [{ id: 12 }] })
+        .mockResolvedValueOnce({ rows: [{ id: 3 }] })
+        .mockResolvedValueOnce({ rows: [lockRow()] });
+
+      const result = await editLockService.acquireLock(5, ContentType.POST, 12, 1);
+
+      expect(mockPoolQuery.mock.calls[0][0]).toContain('FROM posts WHERE id = $1 AND organization_id = $2');
+      expect(mockPoolQuery.mock.calls[1][1]).toEqual([5, 'post', 12, 1, EDIT_LOCK_TTL_SECONDS, false]);
+      expect(result.data).toMatchObject({ acquired: true, lock: { user: { id: 1 } } });
+    });
+
+    it('should report the holder when someone else has the lock', async () => {
+      mockPoolQuery
+        .mockResolvedValueOnce({ rows: [{ id: 12 }] })
+        .mockResolvedValueOnce({ rows: [] })
+        .mockResolvedValueOnce({ rows: [lockRow()] });
+
+      const result = await editLockService.acquireLock(5, ContentType.POST, 12, 2);
+
+      expect(result.success).toBe(true);
+      expect(result.data).toMatchObject({ acquired: false, lock: { user: { id: 1, first_name: 'Alice' } } });
+    });
+
+    it('should pass the takeover flag through to the upsert', async () => {
+      mockPoolQuery
+        .mockResolvedValueOnce({ rows: [{ id: 12 }] })
+        .mockResolvedValueOnce({ rows: [{ id: 3 }] })
+        .mockResolvedValueOnce({ rows: [lockRow({ user_id: 2, email: 'bob@example.com' })] });
+
+      const result = await editLockService.acquireLock(5, ContentType.POST, 12, 2, { takeover: true });
+
+      expect(mockPoolQuery.mock.calls[1][1][5]).toBe(true);
+      expect(result.data).toMatchObject({ acquired: true, lock: { user: { id: 2 } } });
+    });
+
+    it('should not lock content outside the organization', async () => {
+      mockPoolQuery.mockResolvedValueOnce({ rows: [] });
+
+      const result = await editLockService.acquireLock(5, ContentType.PAGE, 99, 1);
+
+      expect(result).toMatchObject({ success: false, errorCode: 'NOT_FOUND' });
+      expect(mockPoolQuery).toHaveBeenCalledTimes(1);
+    });
+  });
+
+  describe('releaseLock', () => {
+    it('should only delete the caller\'s own lock', async () => {
+      mockPoolQuery.mockResolvedValueOnce({ rowCount: 0 });
+
+      const result = await editLockService.releaseLock(5, ContentType.POST, 12, 2);
+
+      expect(mockPoolQuery.mock.calls[0][0]).toContain('user_id = $4');
+      expect(result).toEqual({ success: true, data: false });
+    });
+  });
+});
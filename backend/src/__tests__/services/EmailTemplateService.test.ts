@@ -731,7 +731,7 @@ describe('EmailTemplateService (SF-014)', () => {
     });
   });
 
-  describe('All 10 Templates Generate Successfully', () => {
+  describe('All 12 Templates Generate Successfully', () => {
     const templates: Array<{ name: SaaSEmailTemplate; variables: Record<string, unknown> }> = [
       { name: 'welcome_email', variables: { user_name: 'Test' } },
       { name: 'subscription_confirmation', variables: { plan_tier: 'Pro', amount: '99' } },
@@ -744,6 +744,9 @@ describe('EmailTemplateService (SF-014)', () => {
       // SF-015: New templates
       { name: 'trial_ending', variables: { plan_tier: 'Pro', trial_end_date: '2025-01-15', days_remaining: 3 } },
       { name: 'invoice_upcoming', variables: { plan_tier: 'Pro', amount: '99', billing_date: '2025-01-20' } },
+      // Editorial workflow
+      { name: 'review_requested', variables: { content_title: 'Launch', requester_name: 'Jane', review_url: 'https://example.com/admin/reviews' } },
+      { name: 'review_decision', variables: { content_title: 'Launch', reviewer_name: 'Sam', decision: 'approved', content_url: 'https://example.com/admin/posts/1/edit' } },
     ];
 
     templates.forEach(({ name, variables }) => {
@@ -872,4 +875,21 @@ describe('EmailTemplateService (SF-014)', () => {
       }).toThrow("Missing required fields for template 'invoice_upcoming': billing_date");
     });
   });
+
+  describe('Review Decision Template', () => {
+    it('should include the rejection reason and escape it', () => {
+      const result = templateService.generateTemplate('review_decision', {
+        user_name: 'Jane',
+        content_title: 'Launch post',
+        reviewer_name: 'Sam',
+        decision: 'rejected',
+        reason: 'Fix the <b>headline</b>',
+        content_url: 'https://example.com/admin/posts/1/edit',
+      });
+
+      expect(result.subject).toBe('Changes requested: "Launch post"');
+      expect(result.html).toContain('Fix the &lt;b&gt;headline&lt;/b&gt;');
+      expect(result.text).toContain('Reason: Fix the <b>headline</b>');
+    });
+  });
 });
@@ -0,0 +1,244 @@
+import { describe, it, expect, beforeEach, jest } from '@jest/globals';
+
+const mockPoolQuery: any = jest.fn();
+const mockCreateVersion: any = jest.fn();
+const mockPublishVersion: any = jest.fn();
+const mockGetVersion: any = jest.fn();
+const mockSyncReferences: any = jest.fn();
+
+// Mock database module
+jest.mock('../../utils/database', () => ({
+  pool: { query: mockPoolQuery },
+}));
+jest.mock('../../services/VersionService', () => ({
+  VersionService: jest.fn(() => ({
+    createVersion: mockCreateVersion,
+    publishVersion: mockPublishVersion,
+    getVersion: mockGetVersion,
+  })),
+}));
+jest.mock('../../utils/publicCache', () => ({
+  invalidatePublicCaches: jest.fn(),
+}));
+jest.mock('../../services/MediaUsageService', () => ({
+  mediaUsageService: { syncReferences: mockSyncReferences },
+}));
+
+// Import after mocks are defined
+import { fragmentService, findFragmentKeys } from '../../services/FragmentService';
+import { ContentType, ServiceErrorCode, VersionType } from '../../types/versioning';
+import { invalidatePublicCaches } from '../../utils/publicCache';
+
+const fragmentRow = (overrides: Record<string, unknown> = {}) => ({
+  id: 3,
+  organization_id: 5,
+  site_id: 2,
+  key: 'newsletter',
+  name: 'Newsletter',
+  description: null,
+  content: '<p>Subscribe</p>',
+  created_by: 1,
+  updated_by: 1,
+  created_at: new Date('2026-01-01T10:00:00Z'),
+  updated_at: new Date('2026-01-01T10:00:00Z'),
+  ...overrides,
+});
+
+const landingSchema = {
+  type: 'object',
+  properties: {
+    blocks: {
+      type: 'array',
+      format: 'blocks',
+      blockTypes: {
+        fragment: { properties: { fragment: { type: 'integer', format: 'fragment-reference' } } },
+      },
+    },
+  },
+};
+
+describe('FragmentService', () => {
+  beforeEach(() => {
+    mockPoolQuery.mockReset();
+    mockCreateVersion.mockReset();
+    mockPublishVersion.mockReset();
+    mockGetVersion.mockReset();
+    mockSyncReferences.mockReset();
+    mockCreateVersion.mockResolvedValue({ success: true, data: { id: 40 } });
+    mockPublishVersion.mockResolvedValue({ success: true });
+    mockSyncReferences.mockResolvedValue({ success: true, data: 0 });
+  });
+
+  describe('findFragmentKeys', () => {
+    it('should find each embedded key once', () => {
+      expect(findFragmentKeys('<p>{{fragment:bio}}</p><p>Hi {{fragment:legal-note}} {{fragment:bio}}</p>')).toEqual([
+        'bio',
+        'legal-note',
+      ]);
+      expect(findFragmentKeys('{{ fragment:bio }} {{fragment:Bio}}')).toEqual([]);
+      expect(findFragmentKeys(null)).toEqual([]);
+    });
+  });
+
+  describe('renderFragments', () => {
+    it('should replace tokens with the current fragment content', async () => {
+      mockPoolQuery.mockResolvedValueOnce({ rows: [{ key: 'bio', content: '<p>About me</p>' }] });
+
+      const html = await fragmentService.renderFragments(
+        '<p>Intro</p><p>{{fragment:bio}}</p><p>See {{fragment:bio}} and {{fragment:gone}}.</p>',
+        5
+      );
+
+      expect(mockPoolQuery.mock.calls[0][1]).toEqual([5, ['bio', 'gone']]);
+      expect(html).toBe(
+        '<p>Intro</p><div class="content-fragment" data-fragment="bio"><p>About me</p></div>' +
+          '<p>See <div class="content-fragment" data-fragment="bio"><p>About me</p></div> and .</p>'
+      );
+    });
+
+    it('should drop the tokens of content without an organization', async () => {
+      expect(await fragmentService.renderFragments('<p>{{fragment:bio}}</p><p>Hi {{fragment:bio}}</p>', null)).toBe('<p>Hi </p>');
+      expect(mockPoolQuery).not.toHaveBeenCalled();
+    });
+
+    it('should not query without tokens', async () => {
+      expect(await fragmentService.renderFragments('<p>Plain</p>', 5)).toBe('<p>Plain</p>');
+      expect(mockPoolQuery).not.toHaveBeenCalled();
+    });
+  });
+
+  describe('getFragmentsForData', () => {
+    it('should load the fragments referenced by blocks', async () => {
+      mockPoolQuery.mockResolvedValueOnce({ rows: [{ id: 3, key: 'bio', name: 'Bio', content: '<p>Me</p>' }] });
+
+      const fragments = await fragmentService.getFragmentsForData(5, landingSchema as any, {
+        blocks: [{ id: 'a', type: 'fragment', props: { fragment: 3 } }],
+      });
+
+      expect(mockPoolQuery.mock.calls[0][1]).toEqual([5, [3]]);
+      expect(fragments).toEqual({ '3': { key: 'bio', name: 'Bio', content: '<p>Me</p>' } });
+    });
+  });
+
+  describe('listUsages', () => {
+    it('should find posts with the token and pages with the token or a fragment block', async () => {
+      mockPoolQuery
+        .mockResolvedValueOnce({ rows: [fragmentRow()] })
+        .mockResolvedValueOnce({
+          rows: [
+            { id: 7, title: 'Hello', slug: 'hello', status: 'published', content: '<p>{{fragment:newsletter}}</p>' },
+            { id: 8, title: 'Other', slug: 'other', status: 'draft', content: '<p>{{fragment:bio}}</p>' },
+          ],
+        })
+        .mockResolvedValueOnce({
+          rows: [
+            {
+              id: 9,
+              title: 'Launch',
+              path: 'launch',
+              published: false,
+              content: '',
+              data: { blocks: [{ id: 'a', type: 'fragment', props: { fragment: 3 } }] },
+              schema: landingSchema,
+            },
+          ],
+        });
+
+      const result = await fragmentService.listUsages(5, 3);
+
+      expect(result.data).toEqual([
+        { content_type: ContentType.POST, content_id: 7, title: 'Hello', url: '/blog/hello', published: true, via: 'content' },
+        { content_type: ContentType.PAGE, content_id: 9, title: 'Launch', url: '/page/launch', published: false, via: 'data' },
+      ]);
+    });
+  });
+
+  describe('updateFragment', () => {
+    it('should save the fragment as a new published version', async () => {
+      mockPoolQuery
+        .mockResolvedValueOnce({ rows: [fragmentRow()] })
+        .mockResolvedValueOnce({ rows: [fragmentRow({ content: '<p>Join us</p>' })] });
+
+      const result = await fragmentService.updateFragment(5, 3, 1, {
+        key: 'newsletter',
+        name: 'Newsletter',
+        content: '<p>Join us</p>',
+      });
+
+      expect(result.success).toBe(true);
+      expect(mockCreateVersion).toHaveBeenCalledWith(
+        expect.objectContaining({
+          site_id: 2,
+          content_type: ContentType.FRAGMENT,
+          content_id: 3,
+          version_type: VersionType.PUBLISHED,
+          content: '<p>Join us</p>',
+        }),
+        1
+      );
+      expect(mockPublishVersion).toHaveBeenCalledWith(40, 1, { bypassWorkflow: true });
+      expect(mockSyncReferences).toHaveBeenCalledWith('fragment', 3);
+      expect(invalidatePublicCaches).toHaveBeenCalled();
+    });
+
+    it('should keep the key while tokens use it', async () => {
+      mockPoolQuery
+        .mockResolvedValueOnce({ rows: [fragmentRow()] })
+        .mockResolvedValueOnce({ rows: [fragmentRow()] })
+        .mockResolvedValueOnce({
+          rows: [{ id: 7, title: 'Hello', slug: 'hello', status: 'published', content: '{{fragment:newsletter}}' }],
+        })
+        .mockResolvedValueOnce({ rows: [] });
+
+      const result = await fragmentService.updateFragment(5, 3, 1, { key: 'newsletter-cta', name: 'Newsletter' });
+
+      expect(result.errorCode).toBe(ServiceErrorCode.CONFLICT);
+      expect(mockCreateVersion).not.toHaveBeenCalled();
+    });
+  });
+
+  describe('deleteFragment', () => {
+    it('should refuse to delete a fragment in use', async () => {
+      mockPoolQuery
+        .mockResolvedValueOnce({ rows: [fragmentRow()] })
+        .mockResolvedValueOnce({
+          rows: [{ id: 7, title: 'Hello', slug: 'hello', status: 'published', content: '{{fragment:newsletter}}' }],
+        })
+        .mockResolvedValueOnce({ rows: [] });
+
+      const result = await fragmentService.deleteFragment(5, 3);
+
+      expect(result.errorCode).toBe(ServiceErrorCode.CONFLICT);
+      expect(mockPoolQuery).toHaveBeenCalledTimes(3);
+    });
+  });
+
+  describe('restoreVersion', () => {
+    it('should save an earlier version under the current key', async () => {
+      mockGetVersion.mockResolvedValue({
+        success: true,
+        data: {
+          content_type: ContentType.FRAGMENT,
+          content_id: 3,
+          version_number: 2,
+          title: 'Newsletter (old)',
+          content: '<p>Old</p>',
+          data: { description: 'First draft' },
+        },
+      });
+      mockPoolQuery
+        .mockResolvedValueOnce({ rows: [fragmentRow()] })
+        .mockResolvedValueOnce({ rows: [fragmentRow()] })
+        .mockResolvedValueOnce({ rows: [fragmentRow({ name: 'Newsletter (old)', content: '<p>Old</p>' })] });
+
+      const result = await fragmentService.restoreVersion(5, 3, 12, 1);
+
+      expect(result.success).toBe(true);
+      expect(mockPoolQuery.mock.calls[2][1]).toEqual(['newsletter', 'Newsletter (old)', 'First draft', '<p>Old</p>', 1, 3, 5]);
+      expect(mockCreateVersion).toHaveBeenCalledWith(
+        expect.objectContaining({ change_summary: 'Restored version 2' }),
+        1
+      );
+    });
+  });
+});
@@ -0,0 +1,201 @@
+import { describe, it, expect, beforeEach, afterEach, jest } from '@jest/globals';
+import fs from 'fs';
+import os from 'os';
+import path from 'path';
+import { Readable } from 'stream';
+import sharp from 'sharp';
+
+const mockPoolQuery: any = jest.fn();
+const mockIncrementQuota: any = jest.fn();
+const mockDecrementQuota: any = jest.fn();
+
+// Mock database module
+jest.mock('../../utils/database', () => ({
+  pool: { query: mockPoolQuery },
+}));
+jest.mock('../../services/QuotaService', () => ({
+  quotaService: {
+    incrementQuota: mockIncrementQuota,
+    decrementQuota: mockDecrementQuota,
+  },
+}));
+
+// Import after mocks are defined
+import {
+  ImageTransformService,
+  imageTransformUrl,
+  parseImageTransform,
+  signImageTransform,
+} from '../../services/ImageTransformService';
+import { LocalMediaStorage, streamToBuffer } from '../../services/MediaStorage';
+import { ServiceErrorCode } from '../../types/versioning';
+
+const mediaRow = { id: 12, filename: '1700000000000-1.jpg', mime_type: 'image/jpeg', organization_id: 5 };
+
+describe('ImageTransformService', () => {
+  let root: string;
+  let storage: LocalMediaStorage;
+  let service: ImageTransformService;
+
+  beforeEach(async () => {
+    jest.clearAllMocks();
+    root = fs.mkdtempSync(path.join(os.tmpdir(), 'image-transform-'));
+    storage = new LocalMediaStorage(root);
+    service = new ImageTransformService(storage);
+
+    const original = await sharp({ create: { width: 800, height: 600, channels: 3, background: '#3366cc' } }).jpeg().toBuffer();
+    await storage.put(mediaRow.filename, original);
+    mockIncrementQuota.mockResolvedValue({ success: true, data: true });
+    mockDecrementQuota.mockResolvedValue({ success: true, data: true });
+  });
+
+  afterEach(() => {
+    fs.rmSync(root, { recursive: true, force: true });
+  });
+
+  describe('parseImageTransform', () => {
+    it('should default to a webp cover crop', () => {
+      expect(parseImageTransform({ w: '640' })).toEqual({
+        success: true,
+        data: { width: 640, height: undefined, fit: 'cover', format: 'webp' },
+      });
+    });
+
+    it('should reject sizes and options outside the allowed range', () => {
+      expect(parseImageTransform({ w: '0' }).errorCode).toBe(ServiceErrorCode.VALIDATION_ERROR);
+      expect(parseImageTransform({ w: '5000' }).errorCode).toBe(ServiceErrorCode.VALIDATION_ERROR);
+      expect(parseImageTransform({ h: '12px' }).errorCode).toBe(ServiceErrorCode.VALIDATION_ERROR);
+      expect(parseImageTransform({ fit: 'stretch' }).error).toContain('Fit must be one of');
+      expect(parseImageTransform({ format: 'gif' }).error).toContain('Format must be one of');
+    });
+  });
+
+  describe('getTransformedImage', () => {
+    const transform = { width: 320, height: 320, fit: 'cover' as const, format: 'avif' as const };
+
+    it('should reject parameters that were not signed', async () => {
+      const result = await service.getTransformedImage(12, { ...transform, width: 4000 }, signImageTransform(12, transform));
+
+      expect(result).toMatchObject({ success: false, errorCode: ServiceErrorCode.FORBIDDEN });
+      expect(mockPoolQuery).not.toHaveBeenCalled();
+    });
+
+    it('should render the derivative, store it and count it against the quota', async () => {
+      mockPoolQuery
+        .mockResolvedValueOnce({ rows: [mediaRow] })
+        .mockResolvedValueOnce({ rows: [] })
+        .mockResolvedValueOnce({ rows: [{ id: 1 }] });
+
+      const result = await service.getTransformedImage(12, transform, signImageTransform(12, transform));
+
+      expect(result.success).toBe(true);
+      expect(result.data!.contentType).toBe('image/avif');
+      const body = result.data!.body as Buffer;
+      expect(await sharp(body).metadata()).toMatchObject({ width: 320, height: 320 });
+
+      const key = 'derivatives/12/320x320-cover.avif';
+      expect((await storage.stat(key))!.size).toBe(body.length);
+      expect(mockIncrementQuota).toHaveBeenCalledWith({ organizationId: 5, dimension: 'storage_bytes', amount: body.length });
+      const [insertSql, insertParams] = mockPoolQuery.mock.calls[2];
+      expect(insertSql).toContain('INSERT INTO media_derivatives');
+      expect(insertParams).toEqual([12, key, 320, 320, 'cover', 'avif', body.length, 5]);
+    });
+
+    it('should serve a cached derivative without rendering it again', async () => {
+      const key = 'derivatives/12/320x320-cover.avif';
+      await storage.put(key, Buffer.from('cached'));
+      mockPoolQuery.mockResolvedValueOnce({ rows: [mediaRow] }).mockResolvedValueOnce({ rows: [{ id: 1 }] });
+
+      const result = await service.getTransformedImage(12, transform, signImageTransform(12, transform));
+
+      expect(result.success).toBe(true);
+      expect((await streamToBuffer(result.data!.body as Readable)).toString()).toBe('cached');
+      expect(mockIncrementQuota).not.toHaveBeenCalled();
+      expect(mockPoolQuery).toHaveBeenCalledTimes(2);
+    });
+
+    it('should serve the derivative without storing it when the quota is used up', async () => {
+      mockPoolQuery.mockResolvedValueOnce({ rows: [mediaRow] }).mockResolvedValueOnce({ rows: [] });
+      mockIncrementQuota.mockResolvedValue({ success: false, errorCode: ServiceErrorCode.QUOTA_EXCEEDED });
+
+      const result = await service.getTransformedImage(12, transform, signImageTransform(12, transform));
+
+      expect(result.success).toBe(true);
+      expect(await storage.stat('derivatives/12/320x320-cover.avif')).toBeNull();
+      expect(mockPoolQuery).toHaveBeenCalledTimes(2);
+    });
+
+    it('should give the quota back when another request stored the derivative first', async () => {
+      mockPoolQuery
+        .mockResolvedValueOnce({ rows: [mediaRow] })
+        .mockResolvedValueOnce({ rows: [] })
+        .mockResolvedValueOnce({ rows: [] });
+
+      const result = await service.getTransformedImage(12, transform, signImageTransform(12, transform));
+
+      expect(result.success).toBe(true);
+      expect(mockDecrementQuota).toHaveBeenCalledWith({
+        organizationId: 5,
+        dimension: 'storage_bytes',
+        amount: (result.data!.body as Buffer).length,
+      });
+    });
+
+    it('should not transform files that are not images', async () => {
+      mockPoolQuery.mockResolvedValueOnce({ rows: [{ ...mediaRow, mime_type: 'application/pdf' }] });
+
+      const result = await service.getTransformedImage(12, transform, signImageTransform(12, transform));
+
+      expect(result).toMatchObject({ success: false, errorCode: ServiceErrorCode.VALIDATION_ERROR });
+    });
+  });
+
+  describe('deleteDerivatives', () => {
+    it('should remove stored derivatives and report their counted size', async () => {
+      await storage.put('derivatives/12/640xauto-inside.webp', Buffer.from('one'));
+      await storage.put('derivatives/12/320x320-cover.avif', Buffer.from('two'));
+      mockPoolQuery
+        .mockResolvedValueOnce({
+          rows: [
+            { storage_key: 'derivatives/12/640xauto-inside.webp', file_size: '300' },
+            { storage_key: 'derivatives/12/320x320-cover.avif', file_size: '200' },
+          ],
+        })
+        .mockResolvedValueOnce({ rows: [] });
+
+      const result = await service.deleteDerivatives(12);
+
+      expect(result).toEqual({ success: true, data: 500 });
+      expect(await storage.stat('derivatives/12/640xauto-inside.webp')).toBeNull();
+      expect(mockPoolQuery).toHaveBeenLastCalledWith('DELETE FROM media_derivatives WHERE media_id = $1', [12]);
+    });
+  });
+
+  describe('addResponsiveImages', () => {
+    it('should add srcset and sizes to images from the media library', async () => {
+      mockPoolQuery.mockResolvedValueOnce({ rows: [{ id: 12, file_path: '/uploads/1700000000000-1.webp' }] });
+      const html =
+        '<p><img src="/uploads/1700000000000-1.webp" width="300"></p>' +
+        '<p><img src="https://cdn.example.com/other.jpg"></p>';
+
+      const rendered = await service.addResponsiveImages(html, 5);
+
+      expect(mockPoolQuery).toHaveBeenCalledWith(expect.stringContaining('file_path = ANY($2)'), [
+        5,
+        ['/uploads/1700000000000-1.webp'],
+        expect.any(Array),
+      ]);
+      const url640 = imageTransformUrl(12, { width: 640, fit: 'inside', format: 'webp' }).replace(/&/g, '&amp;');
+      expect(rendered).toContain(`${url640} 640w`);
+      expect(rendered).toContain('sizes="(max-width: 300px) 100vw, 300px">');
+      expect(rendered).toContain('<img src="https://cdn.example.com/other.jpg">');
+    });
+
+    it('should leave content without uploaded images alone', async () => {
+      const html = '<p><img src="/uploads/a.webp" srcset="/uploads/a.webp 1x"></p>';
+
+      expect(await service.addResponsiveImages(html, 5)).toBe(html);
+      expect(mockPoolQuery).not.toHaveBeenCalled();
+    });
+  });
+});
@@ -0,0 +1,139 @@
+import { describe, it, expect, beforeEach, jest } from '@jest/globals';
+import sharp from 'sharp';
+
+const mockPoolQuery: any = jest.fn();
+const mockReplaceMedia: any = jest.fn();
+const mockCountUsages: any = jest.fn();
+
+// Mock database module
+jest.mock('../../utils/database', () => ({
+  pool: { query: mockPoolQuery },
+}));
+jest.mock('../../services/MediaUsageService', () => ({
+  mediaUsageService: {
+    replaceMedia: mockReplaceMedia,
+    countUsages: mockCountUsages,
+  },
+}));
+
+// Import after mocks are defined
+import { contentHash, mediaDedupService, perceptualHash } from '../../services/MediaDedupService';
+import { ServiceErrorCode } from '../../types/versioning';
+
+// Horizontal gradient, optionally as a smaller JPEG
+const gradient = async (width: number, reversed = false) => {
+  const pixels = Buffer.alloc(width * 32 * 3);
+  for (let x = 0; x < width; x++) {
+    const value = Math.round(((reversed ? width - x : x) / width) * 255);
+    for (let y = 0; y < 32; y++) {
+      pixels.fill(value, (y * width + x) * 3, (y * width + x) * 3 + 3);
+    }
+  }
+  return sharp(pixels, { raw: { width, height: 32, channels: 3 } }).jpeg().toBuffer();
+};
+
+const bitsDiffering = (a: string, b: string) =>
+  Array.from(a).reduce((total, digit, index) => {
+    let bits = parseInt(digit, 16) ^ parseInt(b[index], 16);
+    let count = 0;
+    while (bits) {
+      count += bits & 1;
+      bits >>= 1;
+    }
+    return total + count;
+  }, 0);
+
+describe('hashes', () => {
+  it('should hash content as hex SHA-256', () => {
+    expect(contentHash(Buffer.from('abc'))).toBe('ba7816bf8f01cfea414140de5dae2223b00361a396177a9cb410ff61f20015ad');
+  });
+
+  it('should give resized copies of an image nearly the same perceptual hash', async () => {
+    const original = await perceptualHash(await gradient(256));
+    const resized = await perceptualHash(await gradient(64));
+    const other = await perceptualHash(await gradient(256, true));
+
+    expect(original).toMatch(/^[0-9a-f]{16}$/);
+    expect(bitsDiffering(original!, resized!)).toBeLessThanOrEqual(6);
+    expect(bitsDiffering(original!, other!)).toBeGreaterThan(16);
+  });
+
+  it('should give files that are not images no perceptual hash', async () => {
+    expect(await perceptualHash(Buffer.from('%PDF-1.4'))).toBeNull();
+  });
+});
+
+describe('MediaDedupService', () => {
+  beforeEach(() => {
+    jest.clearAllMocks();
+  });
+
+  describe('findNearDuplicates', () => {
+    it('should group files joined by close pairs', async () => {
+      mockPoolQuery
+        .mockResolvedValueOnce({
+          rows: [
+            { a_id: 1, b_id: 2, distance: 0 },
+            { a_id: 2, b_id: 5, distance: 4 },
+            { a_id: 7, b_id: 8, distance: 3 },
+          ],
+        })
+        .mockResolvedValueOnce({
+          rows: [1, 2, 5, 7, 8].map((id) => ({ id, original_name: `${id}.jpg` })),
+        });
+      mockCountUsages.mockResolvedValue({ success: true, data: new Map([[2, 40]]) });
+
+      const result = await mediaDedupService.findNearDuplicates(5, 6);
+
+      expect(mockPoolQuery.mock.calls[0][1]).toEqual([5, 6]);
+      expect(result.data!.map((group) => [group.distance, group.files.map((file) => file.id)])).toEqual([
+        [4, [1, 2, 5]],
+        [3, [7, 8]],
+      ]);
+      expect(result.data![0].files[1].usage_count).toBe(40);
+    });
+
+    it('should find nothing without close pairs', async () => {
+      mockPoolQuery.mockResolvedValueOnce({ rows: [] });
+
+      const result = await mediaDedupService.findNearDuplicates(5);
+
+      expect(result).toEqual({ success: true, data: [] });
+      expect(mockCountUsages).not.toHaveBeenCalled();
+    });
+  });
+
+  describe('mergeMediaFiles', () => {
+    it('should move the usages and tags of the merged files to the kept one', async () => {
+      mockPoolQuery.mockResolvedValueOnce({
+        rows: [
+          { id: 1, filename: '1-1.jpg' },
+          { id: 2, filename: '1-2.jpg' },
+        ],
+      }).mockResolvedValue({ rows: [] });
+      mockReplaceMedia.mockResolvedValue({ success: true, data: 3 });
+
+      const result = await mediaDedupService.mergeMediaFiles(5, 1, [2]);
+
+      expect(result).toEqual({ success: true, data: { merged: [{ id: 2, filename: '1-2.jpg' }], sourcesUpdated: 3 } });
+      expect(mockReplaceMedia).toHaveBeenCalledWith(5, [2], 1);
+      expect(mockPoolQuery).toHaveBeenLastCalledWith(expect.stringContaining('INSERT INTO media_file_tags'), [1, [2]]);
+    });
+
+    it('should not merge files of another organization', async () => {
+      mockPoolQuery.mockResolvedValueOnce({ rows: [{ id: 1, filename: '1-1.jpg' }] });
+
+      const result = await mediaDedupService.mergeMediaFiles(5, 1, [2]);
+
+      expect(result.errorCode).toBe(ServiceErrorCode.NOT_FOUND);
+      expect(mockReplaceMedia).not.toHaveBeenCalled();
+    });
+
+    it('should not merge the kept file into itself', async () => {
+      const result = await mediaDedupService.mergeMediaFiles(5, 1, [1, 2]);
+
+      expect(result.errorCode).toBe(ServiceErrorCode.VALIDATION_ERROR);
+      expect(mockPoolQuery).not.toHaveBeenCalled();
+    });
+  });
+});
@@ -0,0 +1,237 @@
+import { describe, it, expect, beforeAll, afterAll, beforeEach, afterEach } from '@jest/globals';
+import http from 'http';
+import os from 'os';
+import fs from 'fs';
+import path from 'path';
+import { AddressInfo } from 'net';
+import {
+  LocalMediaStorage,
+  MediaStorage,
+  S3MediaStorage,
+  createMediaStorage,
+  migrateMediaStorage,
+  normalizeStorageKey,
+  streamToBuffer,
+} from '../../services/MediaStorage';
+
+interface StoredBlob {
+  body: Buffer;
+  contentType: string;
+  lastModified: Date;
+}
+
+/**
+ * Minimal S3-compatible server in the style of MinIO with path-style
+ * buckets: PUT, GET, HEAD and DELETE of objects and ListObjectsV2
+ */
+function createS3StandIn(bucket: string) {
+  const objects = new Map<string, StoredBlob>();
+  const requests: Array<{ method: string; url: string; authorization?: string }> = [];
+
+  const server = http.createServer((req, res) => {
+    const url = new URL(req.url || '/', 'http://localhost');
+    requests.push({ method: req.method || '', url: req.url || '', authorization: req.headers.authorization });
+    const [, requestBucket, ...keyParts] = url.pathname.split('/');
+    const key = decodeURIComponent(keyParts.join('/'));
+
+    if (requestBucket !== bucket) {
+      res.writeHead(404, { 'Content-Type': 'application/xml' });
+      res.end('<Error><Code>NoSuchBucket</Code></Error>');
+      return;
+    }
+
+    if (req.method === 'GET' && !key && url.searchParams.get('list-type') === '2') {
+      const prefix = url.searchParams.get('prefix') || '';
+      const contents = Array.from(objects.keys())
+        .filter((objectKey) => objectKey.startsWith(prefix))
+        .sort()
+        .map((objectKey) => `<Contents><Key>${objectKey}</Key><Size>${objects.get(objectKey)!.body.length}</Size></Contents>`)
+        .join('');
+      res.writeHead(200, { 'Content-Type': 'application/xml' });
+      res.end(`<?xml version="1.0" encoding="UTF-8"?><ListBucketResult><Name>${bucket}</Name><Prefix>${prefix}</Prefix><IsTruncated>false</IsTruncated>${contents}</ListBucketResult>`);
+      return;
+    }
+
+    if (req.method === 'PUT') {
+      const chunks: Buffer[] = [];
+      req.on('data', (chunk) => chunks.push(chunk));
+      req.on('end', () => {
+        objects.set(key, {
+          body: Buffer.concat(chunks),
+          contentType: String(req.headers['content-type'] || 'application/octet-stream'),
+          lastModified: new Date(),
+        });
+        res.writeHead(200, { ETag: '"etag"' });
+        res.end();
+      });
+      return;
+    }
+
+    const object = objects.get(key);
+    if (req.method === 'DELETE') {
+      objects.delete(key);
+      res.writeHead(204);
+      res.end();
+      return;
+    }
+    if (!object) {
+      res.writeHead(404, { 'Content-Type': 'application/xml' });
+      res.end(req.method === 'HEAD' ? undefined : '<Error><Code>NoSuchKey</Code><Message>Not found</Message></Error>');
+      return;
+    }
+
+    res.writeHead(200, {
+      'Content-Type': object.contentType,
+      'Content-Length': object.body.length,
+      'Last-Modified': object.lastModified.toUTCString(),
+      ETag: '"etag"',
+    });
+    res.end(req.method === 'HEAD' ? undefined : object.body);
+  });
+
+  return { server, objects, requests };
+}
+
+async function readAll(storage: MediaStorage, key: string): Promise<string | null> {
+  const object = await storage.get(key);
+  return object ? (await streamToBuffer(object.body)).toString() : null;
+}
+
+describe('MediaStorage', () => {
+  let root: string;
+
+  beforeEach(() => {
+    root = fs.mkdtempSync(path.join(os.tmpdir(), 'media-storage-'));
+  });
+
+  afterEach(() => {
+    fs.rmSync(root, { recursive: true, force: true });
+  });
+
+  describe('normalizeStorageKey', () => {
+    it('should strip leading slashes and reject keys leaving the root', () => {
+      expect(normalizeStorageKey('/logos/logo.png')).toBe('logos/logo.png');
+      expect(() => normalizeStorageKey('../etc/passwd')).toThrow('Invalid storage key');
+      expect(() => normalizeStorageKey('logos//logo.png')).toThrow('Invalid storage key');
+    });
+  });
+
+  describe('LocalMediaStorage', () => {
+    it('should put, stat, get, list and delete files', async () => {
+      const storage = new LocalMediaStorage(root);
+
+      await storage.put('logos/logo-1.png', Buffer.from('logo'));
+      await storage.put('1-2.jpg', Buffer.from('photo!'));
+
+      expect(fs.readFileSync(path.join(root, 'logos/logo-1.png'), 'utf8')).toBe('logo');
+      expect(await storage.stat('1-2.jpg')).toMatchObject({ key: '1-2.jpg', size: 6, contentType: 'image/jpeg' });
+      expect(await readAll(storage, 'logos/logo-1.png')).toBe('logo');
+      expect(await storage.signedUrl('logos/logo-1.png')).toBe('/uploads/logos/logo-1.png');
+
+      const keys: string[] = [];
+      for await (const key of storage.list()) keys.push(key);
+      expect(keys).toEqual(['1-2.jpg', 'logos/logo-1.png']);
+
+      await storage.delete('1-2.jpg');
+      await storage.delete('1-2.jpg');
+      expect(await storage.stat('1-2.jpg')).toBeNull();
+      expect(await storage.get('1-2.jpg')).toBeNull();
+    });
+  });
+
+  describe('S3MediaStorage', () => {
+    const standIn = createS3StandIn('media');
+    let endpoint: string;
+
+    beforeAll(async () => {
+      await new Promise<void>((resolve) => standIn.server.listen(0, '127.0.0.1', () => resolve()));
+      endpoint = `http://127.0.0.1:${(standIn.server.address() as AddressInfo).port}`;
+    });
+
+    afterAll(async () => {
+      await new Promise<void>((resolve) => standIn.server.close(() => resolve()));
+    });
+
+    beforeEach(() => {
+      standIn.objects.clear();
+      standIn.requests.length = 0;
+    });
+
+    const s3Storage = () =>
+      new S3MediaStorage({
+        bucket: 'media',
+        endpoint,
+        forcePathStyle: true,
+        accessKeyId: 'minio',
+        secretAccessKey: 'minio-secret',
+        prefix: 'cms',
+      });
+
+    it('should store objects below the prefix with signed requests', async () => {
+      const storage = s3Storage();
+
+      await storage.put('1-2.webp', Buffer.from('webp data'));
+
+      expect(standIn.objects.get('cms/1-2.webp')).toMatchObject({ contentType: 'image/webp' });
+      expect(standIn.objects.get('cms/1-2.webp')!.body.toString()).toBe('webp data');
+      expect(standIn.requests[0].authorization).toMatch(/^AWS4-HMAC-SHA256 Credential=minio\//);
+      expect(await storage.stat('1-2.webp')).toMatchObject({ key: '1-2.webp', size: 9, contentType: 'image/webp' });
+      expect(await readAll(storage, '1-2.webp')).toBe('webp data');
+    });
+
+    it('should report missing objects as null and delete idempotently', async () => {
+      const storage = s3Storage();
+
+      expect(await storage.stat('missing.jpg')).toBeNull();
+      expect(await storage.get('missing.jpg')).toBeNull();
+      await expect(storage.delete('missing.jpg')).resolves.toBeUndefined();
+    });
+
+    it('should list keys without the prefix and sign download URLs', async () => {
+      const storage = s3Storage();
+      await storage.put('logos/logo-1.png', Buffer.from('logo'));
+      await storage.put('1-2.jpg', Buffer.from('photo'));
+
+      const keys: string[] = [];
+      for await (const key of storage.list()) keys.push(key);
+      expect(keys).toEqual(['1-2.jpg', 'logos/logo-1.png']);
+
+      const url = new URL(await storage.signedUrl('logos/logo-1.png', 600));
+      expect(`${url.origin}${url.pathname}`).toBe(`${endpoint}/media/cms/logos/logo-1.png`);
+      expect(url.searchParams.get('X-Amz-Expires')).toBe('600');
+      expect(url.searchParams.get('X-Amz-Signature')).toMatch(/^[0-9a-f]{64}$/);
+
+      const response = await fetch(url);
+      expect(await response.text()).toBe('logo');
+    });
+
+    it('should move local files to the bucket and skip them when run again', async () => {
+      const local = new LocalMediaStorage(root);
+      const storage = s3Storage();
+      await local.put('1-2.jpg', Buffer.from('photo'));
+      await local.put('logos/logo-1.png', Buffer.from('logo'));
+
+      const dryRun = await migrateMediaStorage(local, storage, { dryRun: true });
+      expect(dryRun.copied).toEqual(['1-2.jpg', 'logos/logo-1.png']);
+      expect(standIn.objects.size).toBe(0);
+
+      const first = await migrateMediaStorage(local, storage);
+      expect(first.copied).toEqual(['1-2.jpg', 'logos/logo-1.png']);
+      expect(standIn.objects.get('cms/logos/logo-1.png')).toMatchObject({ contentType: 'image/png' });
+
+      const second = await migrateMediaStorage(local, storage, { deleteSource: true });
+      expect(second).toEqual({ copied: [], skipped: ['1-2.jpg', 'logos/logo-1.png'], failed: [] });
+      // Skipped files stay where they were
+      expect(await local.stat('1-2.jpg')).not.toBeNull();
+    });
+  });
+
+  describe('createMediaStorage', () => {
+    it('should pick the driver from the environment', () => {
+      expect(createMediaStorage('local', { UPLOAD_DIR: root })).toBeInstanceOf(LocalMediaStorage);
+      expect(createMediaStorage('s3', { S3_BUCKET: 'media' })).toBeInstanceOf(S3MediaStorage);
+      expect(() => createMediaStorage('s3', {})).toThrow('S3_BUCKET is required');
+      expect(() => createMediaStorage('ftp', {})).toThrow('Unknown media storage driver: ftp');
+    });
+  });
+});
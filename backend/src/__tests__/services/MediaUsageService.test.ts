@@ -0,0 +1,207 @@
+import { describe, it, expect, beforeEach, jest } from '@jest/globals';
+
+const mockPoolQuery: any = jest.fn();
+const mockClientQuery: any = jest.fn();
+const mockRelease: any = jest.fn();
+
+// Mock database module
+jest.mock('../../utils/database', () => ({
+  pool: {
+    query: mockPoolQuery,
+    connect: jest.fn(async () => ({ query: mockClientQuery, release: mockRelease })),
+  },
+}));
+
+// Import after mocks are defined
+import { mediaUsageService, extractMediaReferences, rewriteMediaUrls } from '../../services/MediaUsageService';
+import { imageTransformUrl } from '../../services/ImageTransformService';
+import { ServiceErrorCode } from '../../types/versioning';
+
+describe('extractMediaReferences', () => {
+  it('should find uploads paths and transform URLs in HTML', () => {
+    const html =
+      '<img src="https://cdn.example.com/uploads/1-1.webp"> <img src="/uploads/1-2-thumb.webp">' +
+      '<img srcset="/api/media/7/transform?w=480&s=abc 480w, /api/media/7/transform?w=960&s=def 960w">';
+
+    expect(extractMediaReferences(html)).toEqual({
+      paths: ['/uploads/1-1.webp', '/uploads/1-2-thumb.webp', '/uploads/1-2.webp'],
+      ids: [7],
+    });
+  });
+
+  it('should search structured values as JSON', () => {
+    const data = { hero: { image: '/uploads/sites/2/hero.png' }, blocks: [{ type: 'text', text: 'No media' }] };
+
+    expect(extractMediaReferences(data)).toEqual({ paths: ['/uploads/sites/2/hero.png'], ids: [] });
+  });
+
+  it('should find nothing in empty values', () => {
+    expect(extractMediaReferences(null)).toEqual({ paths: [], ids: [] });
+    expect(extractMediaReferences('')).toEqual({ paths: [], ids: [] });
+  });
+});
+
+describe('rewriteMediaUrls', () => {
+  const kept = { id: 3, filename: '1-1.jpg', file_path: '/uploads/1-1.webp', version: 2 };
+  const copy = { id: 9, filename: '1-9.png', file_path: '/uploads/1-9.webp' };
+
+  it('should point the URL, original and thumbnail of a copy to the kept file', () => {
+    const html = '<img src="/uploads/1-9.webp"><a href="/uploads/1-9.png"><img src="/uploads/1-9-thumb.webp"></a>';
+
+    expect(rewriteMediaUrls(html, [copy], kept)).toBe(
+      '<img src="/uploads/1-1.webp"><a href="/uploads/1-1.jpg"><img src="/uploads/1-1-thumb.webp"></a>'
+    );
+  });
+
+  it('should leave longer paths starting with the same name alone', () => {
+    expect(rewriteMediaUrls('/uploads/1-9.webp.bak /uploads/1-90.webp', [copy], kept)).toBe('/uploads/1-9.webp.bak /uploads/1-90.webp');
+  });
+
+  it('should sign transform URLs again for the kept file', () => {
+    const transform = { width: 640, fit: 'inside' as const, format: 'webp' as const };
+    const html = `<img src="${imageTransformUrl(9, transform).replace(/&/g, '&amp;')}">`;
+
+    expect(rewriteMediaUrls(html, [copy], kept)).toBe(`<img src="${imageTransformUrl(3, transform, 2)}">`);
+  });
+});
+
+describe('MediaUsageService', () => {
+  beforeEach(() => {
+    jest.clearAllMocks();
+  });
+
+  describe('syncReferences', () => {
+    it('should record the media files used per field', async () => {
+      mockClientQuery.mockImplementation(async (sql: string) => {
+        if (sql.includes('FROM posts')) {
+          return {
+            rows: [{
+              organization_id: 5,
+              content: '<img src="/uploads/1-1.webp"><img src="/api/media/9/transform?w=480">',
+              featured_image: '/uploads/1-1.webp',
+            }],
+          };
+        }
+        if (sql.includes('FROM media_files')) {
+          return {
+            rows: [
+              { id: 3, filename: '1-1.jpg', file_path: '/uploads/1-1.webp' },
+              { id: 9, filename: '1-9.jpg', file_path: '/uploads/1-9.webp' },
+            ],
+          };
+        }
+        return { rows: [] };
+      });
+
+      const result = await mediaUsageService.syncReferences('post', 12);
+
+      expect(result).toEqual({ success: true, data: 2 });
+      const insert = mockClientQuery.mock.calls.find(([sql]: [string]) => sql.includes('INSERT INTO media_references'));
+      expect(insert[1]).toEqual([[3, 9, 3], ['content', 'content', 'featured_image'], 'post', 12, 5]);
+      expect(mockClientQuery).toHaveBeenCalledWith(
+        'DELETE FROM media_references WHERE source_type = $1 AND source_id = $2',
+        ['post', 12]
+      );
+      expect(mockClientQuery).toHaveBeenLastCalledWith('COMMIT');
+      expect(mockRelease).toHaveBeenCalled();
+    });
+
+    it('should record the media files embedded in a fragment', async () => {
+      mockClientQuery.mockImplementation(async (sql: string) => {
+        if (sql.includes('FROM content_fragments')) {
+          return { rows: [{ organization_id: 5, content: '<img src="/uploads/1-1.webp">' }] };
+        }
+        if (sql.includes('FROM media_files')) {
+          return { rows: [{ id: 3, filename: '1-1.jpg', file_path: '/uploads/1-1.webp' }] };
+        }
+        return { rows: [] };
+      });
+
+      const result = await mediaUsageService.syncReferences('fragment', 7);
+
+      expect(result).toEqual({ success: true, data: 1 });
+      const insert = mockClientQuery.mock.calls.find(([sql]: [string]) => sql.includes('INSERT INTO media_references'));
+      expect(insert[1]).toEqual([[3], ['content'], 'fragment', 7, 5]);
+    });
+
+    it('should clear the references of a deleted source', async () => {
+      mockClientQuery.mockResolvedValue({ rows: [] });
+
+      const result = await mediaUsageService.syncReferences('page', 4);
+
+      expect(result).toEqual({ success: true, data: 0 });
+      expect(mockClientQuery).toHaveBeenCalledWith(
+        'DELETE FROM media_references WHERE source_type = $1 AND source_id = $2',
+        ['page', 4]
+      );
+      expect(mockClientQuery.mock.calls.some(([sql]: [string]) => sql.includes('INSERT'))).toBe(false);
+    });
+
+    it('should roll back when recording fails', async () => {
+      mockClientQuery.mockImplementation(async (sql: string) => {
+        if (sql.includes('FROM organizations')) {
+          throw new Error('connection lost');
+        }
+        return { rows: [] };
+      });
+
+      const result = await mediaUsageService.syncReferences('organization', 5);
+
+      expect(result.success).toBe(false);
+      expect(result.errorCode).toBe(ServiceErrorCode.INTERNAL_ERROR);
+      expect(mockClientQuery).toHaveBeenCalledWith('ROLLBACK');
+      expect(mockRelease).toHaveBeenCalled();
+    });
+  });
+
+  describe('replaceMedia', () => {
+    it('should rewrite the sources using the replaced files', async () => {
+      mockClientQuery.mockImplementation(async (sql: string) => {
+        if (sql.includes('FROM media_files')) {
+          return {
+            rows: [
+              { id: 3, filename: '1-1.jpg', file_path: '/uploads/1-1.webp', version: 1 },
+              { id: 9, filename: '1-9.jpg', file_path: '/uploads/1-9.webp', version: 1 },
+            ],
+          };
+        }
+        if (sql.includes('FROM media_references')) {
+          return { rows: [{ source_type: 'page', source_id: 4 }] };
+        }
+        if (sql.includes('FROM pages')) {
+          return { rows: [{ content: '<p>No images</p>', data: { hero: '/uploads/1-9.webp' } }] };
+        }
+        return { rows: [] };
+      });
+
+      const result = await mediaUsageService.replaceMedia(5, [9], 3);
+
+      expect(result).toEqual({ success: true, data: 1 });
+      expect(mockClientQuery).toHaveBeenCalledWith(expect.stringContaining('UPDATE pages SET data = $1'), [
+        '{"hero":"/uploads/1-1.webp"}',
+        4,
+      ]);
+      expect(mockClientQuery).toHaveBeenCalledWith('COMMIT');
+    });
+
+    it('should not replace files of another organization', async () => {
+      mockClientQuery.mockResolvedValue({ rows: [{ id: 3, filename: '1-1.jpg', file_path: '/uploads/1-1.webp' }] });
+
+      const result = await mediaUsageService.replaceMedia(5, [9], 3);
+
+      expect(result.errorCode).toBe(ServiceErrorCode.NOT_FOUND);
+      expect(mockClientQuery).toHaveBeenCalledWith('ROLLBACK');
+    });
+  });
+
+  describe('countUsages', () => {
+    it('should count the sources using each file', async () => {
+      mockPoolQuery.mockResolvedValue({ rows: [{ media_id: 3, usage_count: 40 }] });
+
+      const result = await mediaUsageService.countUsages(5, [3, 4]);
+
+      expect(result.data).toEqual(new Map([[3, 40]]));
+      expect(mockPoolQuery.mock.calls[0][1]).toEqual([[3, 4], 5]);
+    });
+  });
+});
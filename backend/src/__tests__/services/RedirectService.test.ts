@@ -0,0 +1,233 @@
+import { describe, it, expect, beforeEach, jest } from '@jest/globals';
+
+const mockPoolQuery: any = jest.fn();
+const mockClientQuery: any = jest.fn();
+const mockRelease = jest.fn();
+
+// Mock database module
+jest.mock('../../utils/database', () => ({
+  pool: {
+    query: mockPoolQuery,
+    connect: jest.fn(async () => ({ query: mockClientQuery, release: mockRelease })),
+  },
+}));
+
+// Import after mocks are defined
+import { redirectService, normalizeRedirectPath } from '../../services/RedirectService';
+import { ContentType } from '../../types/versioning';
+
+const redirectRow = (overrides: Record<string, unknown> = {}) => ({
+  id: 3,
+  organization_id: 5,
+  domain_id: null,
+  domain_hostname: null,
+  source_path: '/old',
+  target_path: '/new',
+  status_code: 301,
+  origin: 'manual',
+  content_type: null,
+  content_id: null,
+  hit_count: 0,
+  last_hit_at: null,
+  created_at: new Date('2026-01-01T10:00:00Z'),
+  updated_at: new Date('2026-01-01T10:00:00Z'),
+  ...overrides,
+});
+
+describe('RedirectService', () => {
+  beforeEach(() => {
+    mockPoolQuery.mockReset();
+    mockClientQuery.mockReset();
+    mockClientQuery.mockResolvedValue({ rows: [] });
+  });
+
+  describe('normalizeRedirectPath', () => {
+    it.each([
+      ['/blog/post/', '/blog/post'],
+      ['blog/post', '/blog/post'],
+      ['/blog/post?ref=feed#top', '/blog/post'],
+      ['//blog//post', '/blog/post'],
+      ['/', '/'],
+    ])('should normalize %s', (path, expected) => {
+      expect(normalizeRedirectPath(path)).toBe(expected);
+    });
+  });
+
+  describe('createRedirect', () => {
+    it('should store a normalized rule', async () => {
+      mockPoolQuery
+        .mockResolvedValueOnce({ rows: [] })
+        .mockResolvedValueOnce({ rows: [{ id: 3 }] })
+        .mockResolvedValueOnce({ rows: [redirectRow()] });
+
+      const result = await redirectService.createRedirect(5, 1, { source_path: '/old/', target_path: '/new' });
+
+      expect(mockPoolQuery.mock.calls[1][1]).toEqual([5, null, '/old', '/new', 301, 1]);
+      expect(result.success).toBe(true);
+      expect(result.data).toMatchObject({ id: 3, source_path: '/old', hit_count: 0 });
+    });
+
+    it('should reject a rule that loops back through existing redirects', async () => {
+      mockPoolQuery.mockResolvedValueOnce({
+        rows: [
+          { source_path: '/b', target_path: '/c' },
+          { source_path: '/c', target_path: '/a' },
+        ],
+      });
+
+      const result = await redirectService.createRedirect(5, 1, { source_path: '/a', target_path: '/b' });
+
+      expect(result.success).toBe(false);
+      expect(result.errorCode).toBe('VALIDATION_ERROR');
+      expect(result.error).toContain('/a → /b → /c → /a');
+      expect(mockPoolQuery).toHaveBeenCalledTimes(1);
+    });
+
+    it('should reject a wildcard that keeps matching its own target', async () => {
+      mockPoolQuery.mockResolvedValueOnce({ rows: [] });
+
+      const result = await redirectService.createRedirect(5, 1, { source_path: '/docs/*', target_path: '/docs/v2/*' });
+
+      expect(result.errorCode).toBe('VALIDATION_ERROR');
+      expect(result.error).toContain('loop');
+    });
+
+    it('should require a wildcard source for a wildcard target', async () => {
+      const result = await redirectService.createRedirect(5, 1, { source_path: '/old', target_path: '/new/*' });
+
+      expect(result.errorCode).toBe('VALIDATION_ERROR');
+      expect(mockPoolQuery).not.toHaveBeenCalled();
+    });
+
+    it('should reject a domain of another organization', async () => {
+      mockPoolQuery.mockResolvedValueOnce({ rows: [] });
+
+      const result = await redirectService.createRedirect(5, 1, { source_path: '/old', target_path: '/new', domain_id: 9 });
+
+      expect(result).toMatchObject({ success: false, error: 'Domain not found', errorCode: 'VALIDATION_ERROR' });
+      expect(mockPoolQuery.mock.calls[0][1]).toEqual([9, 5]);
+      expect(mockPoolQuery).toHaveBeenCalledTimes(1);
+    });
+
+    it('should only check loops against redirects of the organization', async () => {
+      mockPoolQuery
+        .mockResolvedValueOnce({ rows: [] })
+        .mockResolvedValueOnce({ rows: [{ id: 3 }] })
+        .mockResolvedValueOnce({ rows: [redirectRow()] });
+
+      await redirectService.createRedirect(5, 1, { source_path: '/old', target_path: '/new' });
+
+      expect(mockPoolQuery.mock.calls[0][0]).toContain('organization_id = $3');
+      expect(mockPoolQuery.mock.calls[0][1]).toEqual([null, 0, 5]);
+    });
+
+    it('should report a duplicate source path as a conflict', async () => {
+      mockPoolQuery
+        .mockResolvedValueOnce({ rows: [] })
+        .mockRejectedValueOnce(Object.assign(new Error('duplicate key'), { code: '23505' }));
+
+      const result = await redirectService.createRedirect(5, 1, { source_path: '/old', target_path: '/new' });
+
+      expect(result.errorCode).toBe('CONFLICT');
+    });
+  });
+
+  describe('recordSlugChange', () => {
+    it('should move existing redirects along and upsert the old path', async () => {
+      const result = await redirectService.recordSlugChange(5, {
+        content_type: ContentType.POST,
+        content_id: 12,
+        domain_id: 2,
+        from_path: '/blog/old',
+        to_path: '/blog/new',
+      });
+
+      const statements = mockClientQuery.mock.calls.map((call: any[]) => call[0].trim().split(/\s+/)[0]);
+      expect(statements).toEqual(['BEGIN', 'DELETE', 'UPDATE', 'INSERT', 'COMMIT']);
+      expect(mockClientQuery.mock.calls[1][1]).toEqual([2, '/blog/new', 5]);
+      expect(mockClientQuery.mock.calls[2][1]).toEqual([2, '/blog/old', '/blog/new', 5]);
+      expect(mockClientQuery.mock.calls[3][1]).toEqual([5, 2, '/blog/old', '/blog/new', 'post', 12]);
+      expect(mockRelease).toHaveBeenCalled();
+      expect(result).toEqual({ success: true, data: true });
+    });
+
+    it('should roll back on failure', async () => {
+      mockClientQuery
+        .mockResolvedValueOnce({ rows: [] })
+        .mockRejectedValueOnce(new Error('connection lost'));
+
+      const result = await redirectService.recordSlugChange(5, {
+        content_type: ContentType.PAGE,
+        content_id: 4,
+        domain_id: null,
+        from_path: '/page/old',
+        to_path: '/page/new',
+      });
+
+      expect(mockClientQuery).toHaveBeenLastCalledWith('ROLLBACK');
+      expect(result.errorCode).toBe('DATABASE_ERROR');
+    });
+  });
+
+  describe('resolve', () => {
+    it('should return the target and count the hit', async () => {
+      mockPoolQuery
+        .mockResolvedValueOnce({ rows: [{ id: 3, source_path: '/blog/old', target_path: '/blog/new', status_code: 301 }] })
+        .mockResolvedValueOnce({ rows: [] });
+
+      const result = await redirectService.resolve('/blog/old/', 2);
+
+      expect(mockPoolQuery.mock.calls[0][1]).toEqual(['/blog/old', 2]);
+      // Only rules of the organizations whose sites use the domain
+      expect(mockPoolQuery.mock.calls[0][0]).toContain('organization_id IN (SELECT organization_id FROM sites WHERE domain_id = $2)');
+      expect(mockPoolQuery.mock.calls[1][0]).toContain('hit_count = hit_count + 1');
+      expect(mockPoolQuery.mock.calls[1][1]).toEqual([3]);
+      expect(result.data).toEqual({ target: '/blog/new', status_code: 301 });
+    });
+
+    it('should carry the rest of the path through a wildcard', async () => {
+      mockPoolQuery
+        .mockResolvedValueOnce({ rows: [{ id: 7, source_path: '/archive/*', target_path: '/blog/*', status_code: 302 }] })
+        .mockResolvedValueOnce({ rows: [] });
+
+      const result = await redirectService.resolve('/archive/2019/post', 2);
+
+      expect(result.data).toEqual({ target: '/blog/2019/post', status_code: 302 });
+    });
+
+    it('should keep the locale prefix of localized paths', async () => {
+      mockPoolQuery
+        .mockResolvedValueOnce({ rows: [] })
+        .mockResolvedValueOnce({ rows: [{ id: 3, source_path: '/blog/alt', target_path: '/blog/neu', status_code: 301 }] })
+        .mockResolvedValueOnce({ rows: [] });
+
+      const result = await redirectService.resolve('/de/blog/alt', 2);
+
+      expect(mockPoolQuery.mock.calls[1][1]).toEqual(['/blog/alt', 2]);
+      expect(result.data).toEqual({ target: '/de/blog/neu', status_code: 301 });
+    });
+
+    it('should return null without a matching rule', async () => {
+      mockPoolQuery.mockResolvedValueOnce({ rows: [] });
+
+      const result = await redirectService.resolve('/nothing-here', 2);
+
+      expect(result).toEqual({ success: true, data: null });
+      expect(mockPoolQuery).toHaveBeenCalledTimes(1);
+    });
+
+    it('should apply the default site organization rules without a known domain', async () => {
+      mockPoolQuery
+        .mockResolvedValueOnce({ rows: [{ id: 3, source_path: '/blog/old', target_path: '/blog/new', status_code: 301 }] })
+        .mockResolvedValueOnce({ rows: [] });
+
+      const result = await redirectService.resolve('/blog/old', null);
+
+      expect(mockPoolQuery.mock.calls[0][0]).toContain(
+        'organization_id IN (SELECT organization_id FROM sites WHERE is_default = true ORDER BY id LIMIT 1)'
+      );
+      expect(mockPoolQuery.mock.calls[0][1]).toEqual(['/blog/old', null]);
+      expect(result.data).toEqual({ target: '/blog/new', status_code: 301 });
+    });
+  });
+});
@@ -0,0 +1,82 @@
+import { describe, it, expect, beforeEach, jest } from '@jest/globals';
+
+const mockPoolQuery: any = jest.fn();
+
+// Mock database module
+jest.mock('../../utils/database', () => ({
+  pool: {
+    query: mockPoolQuery,
+  },
+}));
+
+// Import after mocks are defined
+import { searchService } from '../../services/SearchService';
+import { ServiceErrorCode } from '../../types/versioning';
+
+const resultRow = (overrides: Record<string, unknown> = {}) => ({
+  type: 'post',
+  id: 10,
+  title: 'Tuning Postgres',
+  slug: 'tuning-postgres',
+  locale: 'en',
+  rank: '0.42',
+  total_count: '3',
+  title_highlight: 'Tuning <mark>Postgres</mark>',
+  snippet: 'How we made <mark>Postgres</mark> fast',
+  ...overrides,
+});
+
+describe('SearchService', () => {
+  beforeEach(() => {
+    mockPoolQuery.mockReset();
+  });
+
+  it('should search posts, pages and categories in the site default locale', async () => {
+    mockPoolQuery.mockResolvedValueOnce({
+      rows: [resultRow(), resultRow({ type: 'category', id: 2, locale: null, rank: '0.1' })],
+    });
+
+    const result = await searchService.search({ q: 'postgres' });
+
+    const [sql, params] = mockPoolQuery.mock.calls[0];
+    expect(sql).toContain('FROM posts p');
+    expect(sql).toContain('FROM pages pg');
+    expect(sql).toContain('FROM categories c');
+    expect(sql).toContain(`websearch_to_tsquery(search_config_for_locale(p.locale), $1)`);
+    expect(sql).toContain(`s.settings->>'default_locale'`);
+    expect(params).toEqual(['postgres', 10, 0]);
+
+    expect(result.data).toMatchObject({
+      query: 'postgres',
+      results: [
+        { type: 'post', id: 10, rank: 0.42, snippet: 'How we made <mark>Postgres</mark> fast' },
+        { type: 'category', id: 2, locale: null },
+      ],
+      pagination: { page: 1, limit: 10, totalCount: 3, totalPages: 1 },
+    });
+  });
+
+  it('should bind the locale and domain for the selected types only', async () => {
+    mockPoolQuery.mockResolvedValueOnce({ rows: [] });
+
+    const result = await searchService.search({ q: 'hallo', types: ['post'], locale: 'de', domainId: 4, page: 2, limit: 5 });
+
+    const [sql, params] = mockPoolQuery.mock.calls[0];
+    expect(sql).not.toContain('FROM pages pg');
+    expect(sql).not.toContain('FROM categories c');
+    expect(sql).toContain('websearch_to_tsquery(search_config_for_locale($2), $1)');
+    expect(sql).toContain('p.domain_id = $3');
+    expect(sql).toContain('p.locale = $4');
+    expect(params).toEqual(['hallo', 'de', 4, 'de', 5, 5]);
+    expect(result.data!.pagination).toMatchObject({ page: 2, totalCount: 0, totalPages: 0 });
+  });
+
+  it('should report database errors', async () => {
+    mockPoolQuery.mockRejectedValueOnce(new Error('syntax error in tsquery'));
+
+    const result = await searchService.search({ q: 'x' });
+
+    expect(result.success).toBe(false);
+    expect(result.errorCode).toBe(ServiceErrorCode.DATABASE_ERROR);
+  });
+});
@@ -0,0 +1,105 @@
+import { describe, it, expect, beforeEach, jest } from '@jest/globals';
+
+const mockPoolQuery: any = jest.fn();
+
+// Mock database module
+jest.mock('../../utils/database', () => ({
+  pool: {
+    query: mockPoolQuery,
+  },
+}));
+
+// Import after mocks are defined
+import { SitemapService } from '../../services/SitemapService';
+
+const site = (overrides: Record<string, unknown> = {}) => ({
+  id: 3,
+  domain_id: 4,
+  name: 'Main',
+  base_path: '/',
+  is_default: true,
+  is_active: true,
+  settings: { default_locale: 'en', locales: ['en', 'de'] },
+  created_at: new Date(),
+  updated_at: new Date(),
+  ...overrides,
+});
+
+const mockContent = () => {
+  mockPoolQuery
+    .mockResolvedValueOnce({
+      rows: [
+        { slug: 'fisch', locale: 'de', updated_at: '2026-03-05T00:00:00Z' },
+        { slug: 'fish', locale: 'en', updated_at: '2026-03-04T00:00:00Z' },
+      ],
+    })
+    .mockResolvedValueOnce({ rows: [{ path: 'company/about', locale: 'en', updated_at: '2026-01-01T00:00:00Z' }] })
+    .mockResolvedValueOnce({ rows: [{ path: 'recipes/food', updated_at: '2026-03-04T00:00:00Z' }] });
+};
+
+describe('SitemapService', () => {
+  let sitemapService: SitemapService;
+
+  beforeEach(() => {
+    mockPoolQuery.mockReset();
+    sitemapService = new SitemapService();
+  });
+
+  it('should list indexable content of the site with localized paths', async () => {
+    mockContent();
+
+    const result = await sitemapService.getPages(4, site());
+
+    const [postsSql, params] = mockPoolQuery.mock.calls[0];
+    expect(postsSql).toContain(`p.status = 'published' AND p.seo_indexed IS NOT FALSE`);
+    expect(postsSql).toContain('(p.domain_id = $3 OR p.domain_id IS NULL)');
+    expect(postsSql).toContain('(p.site_id = $4 OR p.site_id IS NULL)');
+    expect(params).toEqual([['en', 'de'], 'en', 4, 3]);
+    expect(mockPoolQuery.mock.calls[1][0]).toContain('pg.published = true AND pg.seo_indexed IS NOT FALSE');
+    expect(mockPoolQuery.mock.calls[2][0]).toContain('c.seo_indexed IS NOT FALSE');
+
+    expect(result.success).toBe(true);
+    expect(result.data).toEqual([
+      { path: '/', lastmod: new Date('2026-03-04T00:00:00Z') },
+      { path: '/blog', lastmod: new Date('2026-03-04T00:00:00Z') },
+      { path: '/de', lastmod: new Date('2026-03-05T00:00:00Z') },
+      { path: '/de/blog', lastmod: new Date('2026-03-05T00:00:00Z') },
+      { path: '/de/blog/fisch', lastmod: new Date('2026-03-05T00:00:00Z') },
+      { path: '/blog/fish', lastmod: new Date('2026-03-04T00:00:00Z') },
+      { path: '/page/company/about', lastmod: new Date('2026-01-01T00:00:00Z') },
+      { path: '/category/recipes/food', lastmod: new Date('2026-03-04T00:00:00Z') },
+    ]);
+  });
+
+  it('should prefix the base path and leave unassigned content to the default site', async () => {
+    mockPoolQuery.mockResolvedValue({ rows: [] });
+
+    const result = await sitemapService.getPages(4, site({ id: 5, base_path: '/shop/', is_default: false, settings: {} }));
+
+    expect(mockPoolQuery.mock.calls[0][0]).toContain('(p.site_id = $4)');
+    expect(result.data).toEqual([
+      { path: '/shop', lastmod: undefined },
+      { path: '/shop/blog', lastmod: undefined },
+    ]);
+  });
+
+  it('should serve cached pages until invalidated', async () => {
+    mockContent();
+    await sitemapService.getPages(4, site());
+    await sitemapService.getPages(4, site());
+    expect(mockPoolQuery).toHaveBeenCalledTimes(3);
+
+    sitemapService.invalidate();
+    mockContent();
+    await sitemapService.getPages(4, site());
+    expect(mockPoolQuery).toHaveBeenCalledTimes(6);
+  });
+
+  it('should report database errors', async () => {
+    mockPoolQuery.mockRejectedValue(new Error('connection refused'));
+
+    const result = await sitemapService.getPages(null, null);
+
+    expect(result).toEqual({ success: false, error: 'connection refused' });
+  });
+});
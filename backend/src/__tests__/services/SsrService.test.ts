@@ -0,0 +1,135 @@
+import { describe, it, expect, beforeAll, afterAll, beforeEach, jest } from '@jest/globals';
+import fs from 'fs';
+import os from 'os';
+import path from 'path';
+
+const mockRender: any = jest.fn();
+
+// Stand-in for the frontend's server bundle
+jest.mock('/ssr/entry-server.cjs', () => ({ render: mockRender }), { virtual: true });
+
+// Import after mocks are defined
+import { SsrService } from '../../services/SsrService';
+import { invalidatePublicCaches } from '../../utils/publicCache';
+
+const TEMPLATE = `<!doctype html>
+<html lang="en">
+  <head>
+    <title>Personal CMS</title>
+    <meta name="description" content="A lightweight CMS" data-prerendered />
+    <script type="module" src="/assets/index.js"></script>
+  </head>
+  <body>
+    <div id="root"></div>
+  </body>
+</html>`;
+
+const request = {
+  url: '/blog/hello',
+  origin: 'https://blog.example.com',
+  apiBaseUrl: 'http://127.0.0.1:5000/api',
+  headers: { Host: 'blog.example.com' },
+};
+
+const rendered = (overrides: Record<string, unknown> = {}) => ({
+  html: '<article>Costs $5 & more</article>',
+  head: '<title>Hello | Blog</title>\n    <meta name="description" content="Hi" data-prerendered>',
+  lang: 'de',
+  state: { queries: [{ queryKey: ['post', 'hello'], state: { data: { content: '</script><script>alert(1)</script>' } } }] },
+  status: 200,
+  ...overrides,
+});
+
+describe('SsrService', () => {
+  let templateDir: string;
+  let templatePath: string;
+  let ssrService: SsrService;
+
+  beforeAll(() => {
+    templateDir = fs.mkdtempSync(path.join(os.tmpdir(), 'ssr-'));
+    templatePath = path.join(templateDir, 'index.html');
+    fs.writeFileSync(templatePath, TEMPLATE);
+  });
+
+  afterAll(() => {
+    fs.rmSync(templateDir, { recursive: true, force: true });
+  });
+
+  beforeEach(() => {
+    mockRender.mockReset();
+    ssrService = new SsrService({ bundlePath: '/ssr/entry-server.cjs', templatePath });
+  });
+
+  it('should inject the rendered page into the client shell', async () => {
+    mockRender.mockResolvedValue(rendered());
+
+    const result = await ssrService.renderPage(request, 'blog.example.com/blog/hello');
+
+    expect(mockRender).toHaveBeenCalledWith(request);
+    expect(result.success).toBe(true);
+    expect(result.data!.status).toBe(200);
+
+    const html = result.data!.html;
+    expect(html).toContain('<html lang="de">');
+    expect(html).not.toContain('Personal CMS');
+    expect(html).not.toContain('A lightweight CMS');
+    expect(html).toContain('<title>Hello | Blog</title>\n    <meta name="description" content="Hi" data-prerendered>\n  </head>');
+    expect(html).toContain('<div id="root"><article>Costs $5 & more</article></div>');
+    expect(html).toContain('<script type="application/json" id="__REACT_QUERY_STATE__">');
+    expect(html).toContain('\\u003c/script>\\u003cscript>alert(1)\\u003c/script>');
+    expect(html).not.toContain('</script><script>alert(1)');
+  });
+
+  it('should keep the generic title and description when the page has none', async () => {
+    mockRender.mockResolvedValue(rendered({ head: '<link rel="alternate" href="/feed.xml" data-prerendered>', lang: undefined }));
+
+    const { data } = await ssrService.renderPage(request, 'key');
+
+    expect(data!.html).toContain('<html lang="en">');
+    expect(data!.html).toContain('<title>Personal CMS</title>');
+    expect(data!.html).toContain('A lightweight CMS');
+  });
+
+  it('should cache successful renders until public content changes', async () => {
+    mockRender.mockResolvedValue(rendered());
+
+    await ssrService.renderPage(request, 'key');
+    await ssrService.renderPage(request, 'key');
+    expect(mockRender).toHaveBeenCalledTimes(1);
+
+    await ssrService.renderPage(request, 'other-key');
+    expect(mockRender).toHaveBeenCalledTimes(2);
+
+    invalidatePublicCaches();
+    await ssrService.renderPage(request, 'key');
+    expect(mockRender).toHaveBeenCalledTimes(3);
+  });
+
+  it('should not cache pages that were not found', async () => {
+    mockRender.mockResolvedValue(rendered({ status: 404 }));
+
+    const first = await ssrService.renderPage(request, 'key');
+    await ssrService.renderPage(request, 'key');
+
+    expect(first.data!.status).toBe(404);
+    expect(mockRender).toHaveBeenCalledTimes(2);
+  });
+
+  it('should serve the client shell when rendering fails', async () => {
+    mockRender.mockRejectedValue(new Error('window is not defined'));
+
+    const result = await ssrService.renderPage(request, 'key');
+
+    expect(result).toEqual({ success: true, data: { status: 200, html: TEMPLATE } });
+  });
+
+  it('should fail without a client build', async () => {
+    const missing = new SsrService({ bundlePath: '/ssr/entry-server.cjs', templatePath: path.join(templateDir, 'missing.html') });
+
+    const result = await missing.renderPage(request, 'key');
+
+    expect(result.success).toBe(false);
+    expect(result.errorCode).toBe('SERVICE_UNAVAILABLE');
+    expect(mockRender).not.toHaveBeenCalled();
+  });
+});
@@ -0,0 +1,195 @@
+import { describe, it, expect, beforeEach, jest } from '@jest/globals';
+
+const mockPoolQuery: any = jest.fn();
+
+// Mock database module
+jest.mock('../../utils/database', () => ({
+  pool: {
+    query: mockPoolQuery,
+  },
+}));
+
+// Import after mocks are defined
+import { translationService } from '../../services/TranslationService';
+import { resolveSiteLocales } from '../../utils/locale';
+import { ContentType, ServiceErrorCode } from '../../types/versioning';
+
+const siteSettings = { settings: { default_locale: 'en', locales: ['en', 'de', 'fr'] } };
+
+const translationRow = (overrides: Record<string, unknown> = {}) => ({
+  id: 10,
+  locale: 'en',
+  title: 'Hello',
+  slug: 'hello',
+  status: 'published',
+  updated_at: new Date('2026-03-02T10:00:00Z'),
+  translation_source_id: null,
+  translation_source_updated_at: null,
+  source_current_updated_at: null,
+  ...overrides,
+});
+
+describe('TranslationService', () => {
+  beforeEach(() => {
+    mockPoolQuery.mockReset();
+  });
+
+  describe('resolveSiteLocales', () => {
+    it('should fall back to a single English locale', () => {
+      expect(resolveSiteLocales({})).toEqual({ default_locale: 'en', locales: ['en'] });
+      expect(resolveSiteLocales(null)).toEqual({ default_locale: 'en', locales: ['en'] });
+    });
+
+    it('should list the default locale first and drop invalid entries', () => {
+      expect(resolveSiteLocales({ default_locale: 'de', locales: ['fr', 'de', 'English', 'pt-BR'] })).toEqual({
+        default_locale: 'de',
+        locales: ['de', 'fr', 'pt-BR'],
+      });
+    });
+  });
+
+  describe('getTranslationStatus', () => {
+    it('should flag translations whose source changed since they were synced', async () => {
+      mockPoolQuery
+        .mockResolvedValueOnce({ rows: [{ id: 10, site_id: 3, translation_group_id: 10 }] })
+        .mockResolvedValueOnce({ rows: [siteSettings] })
+        .mockResolvedValueOnce({
+          rows: [
+            translationRow(),
+            translationRow({
+              id: 11,
+              locale: 'de',
+              slug: 'hallo',
+              status: 'draft',
+              translation_source_id: 10,
+              translation_source_updated_at: new Date('2026-03-01T09:00:00Z'),
+              source_current_updated_at: new Date('2026-03-02T10:00:00Z'),
+            }),
+          ],
+        });
+
+      const result = await translationService.getTranslationStatus(5, ContentType.POST, 10);
+
+      expect(mockPoolQuery.mock.calls[0][1]).toEqual([10, 5]);
+      expect(mockPoolQuery.mock.calls[1][1]).toEqual([3]);
+      expect(mockPoolQuery.mock.calls[2][1]).toEqual([10, 5]);
+      expect(result.data).toMatchObject({
+        default_locale: 'en',
+        locales: ['en', 'de', 'fr'],
+        missing_locales: ['fr'],
+        translations: [
+          { id: 10, locale: 'en', is_source: true, outdated: false },
+          { id: 11, locale: 'de', is_source: false, outdated: true },
+        ],
+      });
+    });
+
+    it('should treat a translation synced after the last source save as current', async () => {
+      mockPoolQuery
+        .mockResolvedValueOnce({ rows: [{ id: 11, site_id: null, translation_group_id: 10 }] })
+        .mockResolvedValueOnce({ rows: [siteSettings] })
+        .mockResolvedValueOnce({
+          rows: [
+            translationRow({
+              id: 11,
+              locale: 'de',
+              translation_source_id: 10,
+              translation_source_updated_at: new Date('2026-03-02T10:00:00Z'),
+              source_current_updated_at: new Date('2026-03-02T10:00:00Z'),
+            }),
+          ],
+        });
+
+      const result = await translationService.getTranslationStatus(5, ContentType.PAGE, 11);
+
+      expect(mockPoolQuery.mock.calls[2][0]).toContain('FROM pages t');
+      expect(result.data!.translations[0].outdated).toBe(false);
+    });
+
+    it('should return not found for content outside the organization', async () => {
+      mockPoolQuery.mockResolvedValueOnce({ rows: [] });
+
+      const result = await translationService.getTranslationStatus(5, ContentType.POST, 99);
+
+      expect(result.errorCode).toBe(ServiceErrorCode.NOT_FOUND);
+    });
+  });
+
+  describe('createTranslation', () => {
+    const source = { id: 10, slug: 'hello', site_id: 3, translation_group_id: 10 };
+
+    it('should copy the source into an unpublished sibling', async () => {
+      mockPoolQuery
+        .mockResolvedValueOnce({ rows: [source] })
+        .mockResolvedValueOnce({ rows: [siteSettings] })
+        .mockResolvedValueOnce({ rows: [] }) // no de sibling yet
+        .mockResolvedValueOnce({ rows: [{ slug: 'hello-de' }] }) // taken slugs
+        .mockResolvedValueOnce({ rows: [{ id: 12, locale: 'de', slug: 'hello-de-1' }] })
+        .mockResolvedValueOnce({ rows: [] }); // tags
+
+      const result = await translationService.createTranslation(5, ContentType.POST, 10, { locale: 'de' }, 7);
+
+      expect(result.success).toBe(true);
+      const [insertSql, insertParams] = mockPoolQuery.mock.calls[4];
+      expect(insertSql).toContain('INSERT INTO posts');
+      expect(insertSql).toContain(`'draft'`);
+      expect(insertSql).toContain('author_id');
+      expect(insertParams).toEqual([null, 'hello-de-1', 'de', 10, 5, 7]);
+      expect(mockPoolQuery.mock.calls[5][0]).toContain('INSERT INTO post_tags');
+    });
+
+    it('should reject locales the site has not enabled', async () => {
+      mockPoolQuery
+        .mockResolvedValueOnce({ rows: [source] })
+        .mockResolvedValueOnce({ rows: [siteSettings] });
+
+      const result = await translationService.createTranslation(5, ContentType.PAGE, 10, { locale: 'es' }, 7);
+
+      expect(result.errorCode).toBe(ServiceErrorCode.VALIDATION_ERROR);
+      expect(result.error).toContain('not enabled');
+    });
+
+    it('should refuse a second translation in the same locale', async () => {
+      mockPoolQuery
+        .mockResolvedValueOnce({ rows: [source] })
+        .mockResolvedValueOnce({ rows: [siteSettings] })
+        .mockResolvedValueOnce({ rows: [{ id: 11 }] });
+
+      const result = await translationService.createTranslation(5, ContentType.POST, 10, { locale: 'de' }, 7);
+
+      expect(result.errorCode).toBe(ServiceErrorCode.CONFLICT);
+    });
+  });
+
+  describe('markTranslationCurrent', () => {
+    it('should copy the source updated_at onto the translation', async () => {
+      mockPoolQuery
+        .mockResolvedValueOnce({ rows: [{ id: 11, translation_source_id: 10 }] })
+        .mockResolvedValueOnce({
+          rows: [
+            translationRow({
+              id: 11,
+              locale: 'de',
+              translation_source_id: 10,
+              translation_source_updated_at: new Date('2026-03-02T10:00:00Z'),
+              source_current_updated_at: new Date('2026-03-02T10:00:00Z'),
+            }),
+          ],
+        });
+
+      const result = await translationService.markTranslationCurrent(5, ContentType.POST, 11);
+
+      expect(mockPoolQuery.mock.calls[1][0]).toContain('SET translation_source_updated_at = src.updated_at');
+      expect(result.data).toMatchObject({ id: 11, outdated: false });
+    });
+
+    it('should reject content that is not a translation', async () => {
+      mockPoolQuery.mockResolvedValueOnce({ rows: [{ id: 10, translation_source_id: null }] });
+
+      const result = await translationService.markTranslationCurrent(5, ContentType.POST, 10);
+
+      expect(result.errorCode).toBe(ServiceErrorCode.VALIDATION_ERROR);
+      expect(mockPoolQuery).toHaveBeenCalledTimes(1);
+    });
+  });
+});
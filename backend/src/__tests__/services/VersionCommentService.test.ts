@@ -0,0 +1,233 @@
+/**
+ * VersionCommentService Unit Tests
+ *
+ * Threaded review comments: threading, anchoring, resolve/unresolve and
+ * organization scoping
+ */
+
+import { VersionCommentService } from '../../services/VersionCommentService';
+import { ServiceErrorCode } from '../../types/versioning';
+
+const commentRow = (overrides: Record<string, any> = {}) => ({
+  id: 1,
+  site_id: 3,
+  version_id: 10,
+  parent_id: null,
+  comment_text: 'Tighten this intro',
+  comment_type: 'suggestion',
+  line_number: null,
+  field_path: 'content',
+  range_start: 4,
+  range_end: 20,
+  quoted_text: 'quick brown fox',
+  status: 'active',
+  resolved_by: null,
+  resolved_at: null,
+  created_by: 7,
+  created_at: new Date('2026-01-01T10:00:00Z'),
+  updated_at: new Date('2026-01-01T10:00:00Z'),
+  author_email: 'reviewer@example.com',
+  author_first_name: 'Rae',
+  author_last_name: 'Viewer',
+  ...overrides
+});
+
+describe('VersionCommentService', () => {
+  let mockPool: any;
+  let service: VersionCommentService;
+
+  beforeEach(() => {
+    mockPool = { query: jest.fn() };
+    service = new VersionCommentService(mockPool);
+  });
+
+  describe('listComments', () => {
+    it('nests replies under their thread and counts threads by status', async () => {
+      mockPool.query
+        .mockResolvedValueOnce({ rows: [{ id: 10, site_id: 3 }] })
+        .mockResolvedValueOnce({
+          rows: [
+            commentRow(),
+            commentRow({ id: 2, status: 'resolved', field_path: null, range_start: null, range_end: null }),
+            commentRow({ id: 3, parent_id: 1, comment_text: 'Done', created_at: new Date('2026-01-01T11:00:00Z') })
+          ]
+        });
+
+      const result = await service.listComments(10, 5);
+
+      expect(result.success).toBe(true);
+      expect(result.data!.comments.map((c) => c.id)).toEqual([1, 2]);
+      expect(result.data!.comments[0].replies!.map((c) => c.id)).toEqual([3]);
+      expect(result.data!.comments[0].author).toEqual({
+        id: 7,
+        email: 'reviewer@example.com',
+        first_name: 'Rae',
+        last_name: 'Viewer'
+      });
+      expect(result.data!.total_comments).toBe(3);
+      expect(result.data!.active_threads).toBe(1);
+      expect(result.data!.resolved_threads).toBe(1);
+    });
+
+    it('filters threads by status', async () => {
+      mockPool.query
+        .mockResolvedValueOnce({ rows: [{ id: 10, site_id: 3 }] })
+        .mockResolvedValueOnce({ rows: [commentRow(), commentRow({ id: 2, status: 'resolved' })] });
+
+      const result = await service.listComments(10, 5, { status: 'resolved' });
+
+      expect(result.data!.comments.map((c) => c.id)).toEqual([2]);
+    });
+
+    it('returns NOT_FOUND for a version outside the organization', async () => {
+      mockPool.query.mockResolvedValueOnce({ rows: [] });
+
+      const result = await service.listComments(10, 99);
+
+      expect(result.success).toBe(false);
+      expect(result.errorCode).toBe(ServiceErrorCode.NOT_FOUND);
+      expect(mockPool.query.mock.calls[0][0]).toContain('s.organization_id = $2');
+    });
+  });
+
+  describe('createComment', () => {
+    it('stores the text-range anchor with the version site', async () => {
+      mockPool.query
+        .mockResolvedValueOnce({ rows: [{ id: 10, site_id: 3 }] })
+        .mockResolvedValueOnce({ rows: [{ id: 1 }] })
+        .mockResolvedValueOnce({ rows: [commentRow()] });
+
+      const result = await service.createComment(10, 5, 7, {
+        comment_text: 'Tighten this intro',
+        comment_type: 'suggestion',
+        field_path: 'content',
+        range_start: 4,
+        range_end: 20,
+        quoted_text: 'quick brown fox'
+      });
+
+      expect(result.success).toBe(true);
+      expect(result.data!.quoted_text).toBe('quick brown fox');
+      const insertParams = mockPool.query.mock.calls[1][1];
+      expect(insertParams).toEqual([3, 10, null, 'Tighten this intro', 'suggestion', null, 'content', 4, 20, 'quick brown fox', 7]);
+    });
+
+    it('drops the anchor on replies', async () => {
+      mockPool.query
+        .mockResolvedValueOnce({ rows: [{ id: 10, site_id: 3 }] })
+        .mockResolvedValueOnce({ rows: [commentRow()] })
+        .mockResolvedValueOnce({ rows: [{ id: 4 }] })
+        .mockResolvedValueOnce({ rows: [commentRow({ id: 4, parent_id: 1 })] });
+
+      const result = await service.createComment(10, 5, 8, {
+        comment_text: 'Agreed',
+        parent_id: 1,
+        range_start: 0,
+        range_end: 3
+      });
+
+      expect(result.success).toBe(true);
+      const insertParams = mockPool.query.mock.calls[2][1];
+      expect(insertParams.slice(5, 10)).toEqual([null, null, null, null, null]);
+      expect(insertParams[2]).toBe(1);
+    });
+
+    it('rejects replies to a comment on another version', async () => {
+      mockPool.query
+        .mockResolvedValueOnce({ rows: [{ id: 10, site_id: 3 }] })
+        .mockResolvedValueOnce({ rows: [commentRow({ version_id: 11 })] });
+
+      const result = await service.createComment(10, 5, 8, { comment_text: 'Agreed', parent_id: 1 });
+
+      expect(result.success).toBe(false);
+      expect(result.errorCode).toBe(ServiceErrorCode.NOT_FOUND);
+    });
+
+    it('rejects replies to replies', async () => {
+      mockPool.query
+        .mockResolvedValueOnce({ rows: [{ id: 10, site_id: 3 }] })
+        .mockResolvedValueOnce({ rows: [commentRow({ id: 3, parent_id: 1 })] });
+
+      const result = await service.createComment(10, 5, 8, { comment_text: 'Agreed', parent_id: 3 });
+
+      expect(result.success).toBe(false);
+      expect(result.errorCode).toBe(ServiceErrorCode.VALIDATION_ERROR);
+    });
+  });
+
+  describe('updateComment', () => {
+    it('only lets the author edit', async () => {
+      mockPool.query.mockResolvedValueOnce({ rows: [commentRow({ created_by: 7 })] });
+
+      const result = await service.updateComment(1, 5, 8, { comment_text: 'Edited' });
+
+      expect(result.success).toBe(false);
+      expect(result.errorCode).toBe(ServiceErrorCode.FORBIDDEN);
+      expect(mockPool.query).toHaveBeenCalledTimes(1);
+    });
+  });
+
+  describe('deleteComment', () => {
+    it('archives the thread when an organization admin deletes it', async () => {
+      mockPool.query
+        .mockResolvedValueOnce({ rows: [commentRow({ created_by: 7 })] })
+        .mockResolvedValueOnce({ rows: [{ role: 'admin' }] })
+        .mockResolvedValueOnce({ rows: [] });
+
+      const result = await service.deleteComment(1, 5, 8);
+
+      expect(result.success).toBe(true);
+      expect(mockPool.query.mock.calls[2][0]).toContain("status = 'archived'");
+      expect(mockPool.query.mock.calls[2][0]).toContain('parent_id = $1');
+    });
+
+    it('refuses other members', async () => {
+      mockPool.query
+        .mockResolvedValueOnce({ rows: [commentRow({ created_by: 7 })] })
+        .mockResolvedValueOnce({ rows: [{ role: 'editor' }] });
+
+      const result = await service.deleteComment(1, 5, 8);
+
+      expect(result.success).toBe(false);
+      expect(result.errorCode).toBe(ServiceErrorCode.FORBIDDEN);
+    });
+  });
+
+  describe('resolveComment / unresolveComment', () => {
+    it('records who resolved the thread', async () => {
+      mockPool.query
+        .mockResolvedValueOnce({ rows: [commentRow()] })
+        .mockResolvedValueOnce({ rows: [] })
+        .mockResolvedValueOnce({ rows: [commentRow({ status: 'resolved', resolved_by: 8 })] });
+
+      const result = await service.resolveComment(1, 5, 8);
+
+      expect(result.success).toBe(true);
+      expect(result.data!.status).toBe('resolved');
+      const [, params] = mockPool.query.mock.calls[1];
+      expect(params.slice(0, 3)).toEqual([1, 'resolved', 8]);
+      expect(params[3]).toBeInstanceOf(Date);
+    });
+
+    it('clears the resolution when reopening', async () => {
+      mockPool.query
+        .mockResolvedValueOnce({ rows: [commentRow({ status: 'resolved', resolved_by: 8 })] })
+        .mockResolvedValueOnce({ rows: [] })
+        .mockResolvedValueOnce({ rows: [commentRow()] });
+
+      const result = await service.unresolveComment(1, 5, 7);
+
+      expect(result.success).toBe(true);
+      expect(mockPool.query.mock.calls[1][1]).toEqual([1, 'active', null, null]);
+    });
+
+    it('does not resolve replies on their own', async () => {
+      mockPool.query.mockResolvedValueOnce({ rows: [commentRow({ id: 3, parent_id: 1 })] });
+
+      const result = await service.resolveComment(3, 5, 8);
+
+      expect(result.success).toBe(false);
+      expect(result.errorCode).toBe(ServiceErrorCode.VALIDATION_ERROR);
+    });
+  });
+});
@@ -418,6 +418,77 @@ describe('VersionService Auto-Save Features', () => {
     });
   });
 
+  describe('detectConflict', () => {
+    const currentVersion = { id: 42, version_number: 6, created_by: 2, content: 'Their edit' };
+
+    it('should not conflict when no other user saved after the base', async () => {
+      mockQuery.mockResolvedValueOnce({ rows: [] });
+
+      const result = await service.detectConflict(
+        testSiteId,
+        ContentType.POST,
+        testContentId,
+        { version_number: 5 },
+        testUserId
+      );
+
+      expect(result).toEqual({ success: true, data: null });
+      expect(mockQuery.mock.calls[0][0]).toContain('created_by IS DISTINCT FROM $5');
+      expect(mockQuery.mock.calls[0][1]).toEqual([testSiteId, ContentType.POST, testContentId, 5, testUserId]);
+    });
+
+    it('should return the base and current versions when another user saved', async () => {
+      const baseVersion = { id: 40, version_number: 5, created_by: testUserId, content: 'Original' };
+      mockQuery
+        .mockResolvedValueOnce({ rows: [{ '?column?': 1 }] })
+        .mockResolvedValueOnce({ rows: [baseVersion] })
+        .mockResolvedValueOnce({ rows: [currentVersion] });
+
+      const result = await service.detectConflict(
+        testSiteId,
+        ContentType.POST,
+        testContentId,
+        { version_number: 5 },
+        testUserId
+      );
+
+      expect(result.success).toBe(true);
+      expect(result.data).toEqual({ base_version: baseVersion, current_version: currentVersion });
+    });
+
+    it('should compare a base content hash with the latest hash', async () => {
+      mockQuery
+        .mockResolvedValueOnce({ rows: [{ content_hash: 'newer_hash' }] })
+        .mockResolvedValueOnce({ rows: [] })
+        .mockResolvedValueOnce({ rows: [currentVersion] });
+
+      const result = await service.detectConflict(
+        testSiteId,
+        ContentType.POST,
+        testContentId,
+        { content_hash: 'stale_hash' },
+        testUserId
+      );
+
+      expect(result.data).toEqual({ base_version: null, current_version: currentVersion });
+    });
+
+    it('should not conflict when the hash matches', async () => {
+      mockQuery.mockResolvedValueOnce({ rows: [{ content_hash: 'same_hash' }] });
+
+      const result = await service.detectConflict(
+        testSiteId,
+        ContentType.POST,
+        testContentId,
+        { content_hash: 'same_hash' },
+        testUserId
+      );
+
+      expect(result.data).toBeNull();
+      expect(mockQuery).toHaveBeenCalledTimes(1);
+    });
+  });
+
   describe('cleanupOldAutoSaves', () => {
     it('should delete old auto-saves keeping specified count', async () => {
       const mockDeleteResult = { rowCount: 3 };
@@ -6,6 +6,7 @@
 
 import { Pool } from 'pg';
 import { VersionService } from '../../services/VersionService';
+import { mediaUsageService } from '../../services/MediaUsageService';
 import {
   ContentType,
   CreateVersionInput,
@@ -26,6 +27,10 @@ jest.mock('pg', () => {
   return { Pool: jest.fn(() => mPool) };
 });
 
+jest.mock('../../services/MediaUsageService', () => ({
+  mediaUsageService: { syncReferences: jest.fn().mockResolvedValue({ success: true, data: 0 }) },
+}));
+
 describe('VersionService', () => {
   let service: VersionService;
   let mockPool: any;
@@ -213,6 +218,75 @@ describe('VersionService', () => {
       expect(result.success).toBe(true);
       expect(result.data?.version_number).toBe(2);
     });
+
+    it('should let system writes through for users without access to the site', async () => {
+      setupMocks({ 'SELECT 1 FROM sites': { rows: [] } });
+      const input: CreateVersionInput = {
+        site_id: 2,
+        content_type: ContentType.POST,
+        content_id: 1,
+        title: 'Scheduled',
+        slug: 'scheduled'
+      };
+
+      const denied = await service.createVersion(input, 7);
+      const result = await service.createVersion(input, 7, { bypassSiteAccess: true });
+
+      expect(denied.success).toBe(false);
+      expect(result.success).toBe(true);
+    });
+  });
+
+  describe('recordSave', () => {
+    it('should record the saved row as a version keeping the review stage of unchanged content', async () => {
+      setupMocks({ 'AS site_id FROM posts c': { rows: [{ site_id: 2 }] } });
+
+      const result = await service.recordSave(
+        ContentType.POST,
+        { id: 7, site_id: 2, title: 'Saved', slug: 'saved', content: '<p>Body</p>', excerpt: null, status: 'published', meta_title: 'Meta' },
+        3
+      );
+
+      expect(result.success).toBe(true);
+      const insert = mockClient.query.mock.calls.find(([sql]: [string]) => sql.includes('INSERT INTO content_versions'));
+      expect(insert[1]).toEqual(expect.arrayContaining([2, 'post', 7, 'Saved', 'saved', '<p>Body</p>', 'draft', 'Saved', 3]));
+      expect(JSON.parse(insert[1][9])).toEqual(expect.objectContaining({ status: 'published' }));
+      expect(JSON.parse(insert[1][10])).toEqual(expect.objectContaining({ meta_title: 'Meta' }));
+      const stage = mockPool.query.mock.calls.find(([sql]: [string]) => sql.includes('SET workflow_stage = prev.workflow_stage'));
+      expect(stage[1]).toEqual([1]);
+    });
+
+    it('should record saves of authors who are not members of the site on their organization site', async () => {
+      const siteAccess = jest.fn(() => Promise.resolve({ rows: [] }));
+      setupMocks({
+        'AS site_id FROM pages c': { rows: [{ site_id: 4 }] },
+        'SELECT 1 FROM sites': siteAccess
+      });
+
+      const result = await service.recordSave(
+        ContentType.PAGE,
+        { id: 9, site_id: null, organization_id: 3, title: 'About', slug: 'about', content: '<p>Us</p>' },
+        8
+      );
+
+      expect(result.success).toBe(true);
+      expect(siteAccess).not.toHaveBeenCalled();
+      const [siteSql, siteParams] = mockPool.query.mock.calls[0];
+      expect(siteSql).toContain('WHERE s.organization_id = c.organization_id');
+      expect(siteParams).toEqual([9]);
+      const insert = mockClient.query.mock.calls.find(([sql]: [string]) => sql.includes('INSERT INTO content_versions'));
+      expect(insert[1]).toEqual(expect.arrayContaining([4, 'page', 9, 'About', 8]));
+    });
+
+    it('should not record saves of content whose organization has no site', async () => {
+      setupMocks({ 'AS site_id FROM posts c': { rows: [{ site_id: null }] } });
+
+      const result = await service.recordSave(ContentType.POST, { id: 7, title: 'Saved' }, 3);
+
+      expect(result.success).toBe(false);
+      expect(result.errorCode).toBe('NOT_FOUND');
+      expect(mockClient.query).not.toHaveBeenCalledWith('BEGIN');
+    });
   });
 
   describe('getVersion', () => {
@@ -350,6 +424,7 @@ describe('VersionService', () => {
       expect(result.success).toBe(true);
       expect(mockClient.query).toHaveBeenCalledWith('BEGIN');
       expect(mockClient.query).toHaveBeenCalledWith('COMMIT');
+      expect(mediaUsageService.syncReferences).toHaveBeenCalledWith(ContentType.POST, 1);
     });
 
     it('should handle version not found', async () => {
@@ -368,6 +443,80 @@ describe('VersionService', () => {
       expect(result.success).toBe(false);
       expect(result.error).toBe('Version not found');
     });
+
+    it('should publish for authors without access to the site when bypassing the site check', async () => {
+      const mockVersion = { id: 1, site_id: 2, content_type: ContentType.POST, content_id: 1, title: 'Scheduled' };
+      const siteAccess = jest.fn(() => Promise.resolve({ rows: [] }));
+      setupMocks({
+        'SELECT 1 FROM sites': siteAccess,
+        'SELECT * FROM content_versions WHERE id': { rows: [mockVersion] },
+        'UPDATE content_versions': { rows: [mockVersion] },
+        'created_by_name': { rows: [mockVersion] }
+      });
+
+      const result = await service.publishVersion(1, 7, { bypassWorkflow: true, bypassSiteAccess: true });
+
+      expect(result.success).toBe(true);
+      expect(siteAccess).not.toHaveBeenCalled();
+    });
+
+    describe('with editorial workflow enabled', () => {
+      const setupWorkflowMocks = (workflowStage: string) => {
+        const mockVersion = {
+          id: 1,
+          site_id: 1,
+          content_type: ContentType.POST,
+          content_id: 1,
+          title: 'Test Post',
+          workflow_stage: workflowStage
+        };
+
+        setupMocks({
+          'workflow_enabled': { rows: [{ workflow_enabled: true }] },
+          'SELECT * FROM content_versions WHERE id': { rows: [mockVersion] },
+          'UPDATE content_versions': { rows: [mockVersion] },
+          'created_by_name': { rows: [{ ...mockVersion, workflow_stage: 'published' }] }
+        });
+      };
+
+      it('should refuse to publish versions that are not approved', async () => {
+        setupWorkflowMocks('in_review');
+
+        const result = await service.publishVersion(1, 1);
+
+        expect(result.success).toBe(false);
+        expect(result.error).toBe('Version must be approved before it can be published');
+        expect(mockClient.query).toHaveBeenCalledWith('ROLLBACK');
+        expect(mockClient.query).not.toHaveBeenCalledWith(
+          expect.stringContaining('SET is_current_published = TRUE'),
+          expect.anything()
+        );
+      });
+
+      it('should publish approved versions and mark them published', async () => {
+        setupWorkflowMocks('approved');
+
+        const result = await service.publishVersion(1, 1);
+
+        expect(result.success).toBe(true);
+        expect(mockClient.query).toHaveBeenCalledWith(
+          expect.stringContaining("workflow_stage = 'published'"),
+          [1, 1]
+        );
+      });
+
+      it('should skip the approval check when bypassing workflow', async () => {
+        setupWorkflowMocks('draft');
+
+        const result = await service.publishVersion(1, 1, { bypassWorkflow: true });
+
+        expect(result.success).toBe(true);
+        expect(mockClient.query).not.toHaveBeenCalledWith(
+          expect.stringContaining('workflow_enabled'),
+          expect.anything()
+        );
+      });
+    });
   });
 
   describe('revertToVersion', () => {
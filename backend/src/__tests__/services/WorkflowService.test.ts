@@ -0,0 +1,282 @@
+import { describe, it, expect, beforeEach, jest } from '@jest/globals';
+
+const mockPoolQuery: any = jest.fn();
+const mockClientQuery: any = jest.fn();
+const mockRelease: any = jest.fn();
+const mockSendReviewRequested: any = jest.fn();
+const mockSendReviewDecision: any = jest.fn();
+
+// Mock database module
+jest.mock('../../utils/database', () => ({
+  pool: {
+    query: mockPoolQuery,
+    connect: jest.fn(() => Promise.resolve({ query: mockClientQuery, release: mockRelease })),
+  },
+}));
+
+jest.mock('../../services/EmailService', () => ({
+  emailService: {
+    sendReviewRequested: mockSendReviewRequested,
+    sendReviewDecision: mockSendReviewDecision,
+  },
+}));
+
+// Import after mocks are defined
+import { workflowService, applyReviewedChanges } from '../../services/WorkflowService';
+
+const context = (overrides: Record<string, unknown> = {}) => ({
+  id: 10,
+  content_type: 'post',
+  content_id: 4,
+  title: 'Launch post',
+  workflow_stage: 'draft',
+  organization_id: 1,
+  workflow_enabled: true,
+  workflow_approvals_required: 1,
+  ...overrides,
+});
+
+describe('WorkflowService', () => {
+  beforeEach(() => {
+    jest.clearAllMocks();
+    mockPoolQuery.mockReset();
+    mockClientQuery.mockReset();
+    mockClientQuery.mockResolvedValue({ rows: [], rowCount: 0 });
+    mockSendReviewRequested.mockResolvedValue({ success: true });
+    mockSendReviewDecision.mockResolvedValue({ success: true });
+  });
+
+  describe('submitForReview', () => {
+    it('should move a draft to in_review and notify reviewers', async () => {
+      mockPoolQuery.mockResolvedValueOnce({ rows: [context()] }); // version context
+      mockPoolQuery.mockResolvedValueOnce({ rows: [{ role: 'editor' }] }); // member role
+      mockClientQuery.mockImplementation((sql: string) => {
+        if (sql.startsWith('UPDATE content_versions')) return Promise.resolve({ rowCount: 1 });
+        if (sql.includes('INSERT INTO version_reviews')) {
+          return Promise.resolve({ rows: [{ id: 1, version_id: 10, action: 'submitted', actor_id: 2 }] });
+        }
+        return Promise.resolve({ rows: [] });
+      });
+      mockPoolQuery.mockResolvedValueOnce({ rows: [{ email: 'reviewer@example.com', name: 'Rita' }] }); // reviewers
+      mockPoolQuery.mockResolvedValueOnce({ rows: [{ id: 2, email: 'writer@example.com', name: null }] }); // submitter
+
+      const result = await workflowService.submitForReview(10, 2, 'Ready for launch');
+
+      expect(result.success).toBe(true);
+      expect(result.data?.action).toBe('submitted');
+      expect(mockClientQuery).toHaveBeenCalledWith(
+        expect.stringContaining('UPDATE content_versions SET workflow_stage'),
+        ['in_review', 10, 'draft']
+      );
+      expect(mockClientQuery).toHaveBeenCalledWith('COMMIT');
+
+      await new Promise((resolve) => setImmediate(resolve));
+      expect(mockPoolQuery.mock.calls[2][1][2]).toBe(2); // submitter excluded from reviewers
+      expect(mockSendReviewRequested).toHaveBeenCalledWith(
+        [{ email: 'reviewer@example.com', name: 'Rita' }],
+        expect.objectContaining({ content_title: 'Launch post', requester_name: 'writer', note: 'Ready for launch' })
+      );
+    });
+
+    it('should refuse when workflow is disabled', async () => {
+      mockPoolQuery.mockResolvedValueOnce({ rows: [context({ workflow_enabled: false })] });
+
+      const result = await workflowService.submitForReview(10, 2);
+
+      expect(result.success).toBe(false);
+      expect(result.error).toBe('Editorial workflow is not enabled for this organization');
+    });
+
+    it('should refuse versions that are already under review', async () => {
+      mockPoolQuery.mockResolvedValueOnce({ rows: [context({ workflow_stage: 'in_review' })] });
+      mockPoolQuery.mockResolvedValueOnce({ rows: [{ role: 'editor' }] });
+
+      const result = await workflowService.submitForReview(10, 2);
+
+      expect(result.success).toBe(false);
+      expect(result.error).toBe('Version is already in review');
+      expect(mockClientQuery).not.toHaveBeenCalled();
+    });
+  });
+
+  describe('approveVersion', () => {
+    it('should not let submitters approve their own work', async () => {
+      mockPoolQuery.mockResolvedValueOnce({ rows: [context({ workflow_stage: 'in_review' })] });
+      mockPoolQuery.mockResolvedValueOnce({ rows: [{ role: 'admin' }] });
+      mockClientQuery.mockImplementation((sql: string) =>
+        Promise.resolve({ rows: sql.includes("action = 'submitted'") ? [{ id: 7, actor_id: 3 }] : [] })
+      );
+
+      const result = await workflowService.approveVersion(10, 3);
+
+      expect(result.success).toBe(false);
+      expect(result.error).toBe('You cannot approve your own submission');
+      expect(mockClientQuery).toHaveBeenCalledWith('ROLLBACK');
+    });
+
+    it('should require publish permission', async () => {
+      mockPoolQuery.mockResolvedValueOnce({ rows: [context({ workflow_stage: 'in_review' })] });
+      mockPoolQuery.mockResolvedValueOnce({ rows: [{ role: 'viewer' }] });
+
+      const result = await workflowService.approveVersion(10, 5);
+
+      expect(result.success).toBe(false);
+      expect(result.error).toBe('Insufficient permissions to review content');
+    });
+
+    it('should stay in review until enough approvals are collected', async () => {
+      mockPoolQuery.mockResolvedValueOnce({
+        rows: [context({ workflow_stage: 'in_review', workflow_approvals_required: 2 })],
+      });
+      mockPoolQuery.mockResolvedValueOnce({ rows: [{ role: 'publisher' }] });
+      mockClientQuery.mockImplementation((sql: string) =>
+        Promise.resolve({ rows: sql.includes("action = 'submitted'") ? [{ id: 7, actor_id: 3 }] : [] })
+      );
+
+      const result = await workflowService.approveVersion(10, 5);
+
+      expect(result.success).toBe(true);
+      expect(result.data).toEqual({ workflow_stage: 'in_review', approvals_received: 1, approvals_required: 2 });
+      expect(mockClientQuery).not.toHaveBeenCalledWith(
+        expect.stringContaining('UPDATE content_versions'),
+        expect.anything()
+      );
+    });
+
+    it('should approve once the last required approval arrives', async () => {
+      mockPoolQuery.mockResolvedValueOnce({
+        rows: [context({ workflow_stage: 'in_review', workflow_approvals_required: 2 })],
+      });
+      mockPoolQuery.mockResolvedValueOnce({ rows: [{ role: 'publisher' }] });
+      mockClientQuery.mockImplementation((sql: string) => {
+        if (sql.includes("action = 'submitted'")) return Promise.resolve({ rows: [{ id: 7, actor_id: 3 }] });
+        if (sql.includes("action = 'approved'")) return Promise.resolve({ rows: [{ actor_id: 4 }] });
+        return Promise.resolve({ rows: [] });
+      });
+      mockPoolQuery.mockResolvedValue({ rows: [{ id: 3, email: 'writer@example.com', name: 'Wes' }] });
+
+      const result = await workflowService.approveVersion(10, 5, 'Looks good');
+
+      expect(result.data?.workflow_stage).toBe('approved');
+      expect(mockClientQuery).toHaveBeenCalledWith(
+        expect.stringContaining('UPDATE content_versions SET workflow_stage'),
+        ['approved', 10]
+      );
+
+      await new Promise((resolve) => setImmediate(resolve));
+      expect(mockSendReviewDecision).toHaveBeenCalledWith(
+        [{ id: 3, email: 'writer@example.com', name: 'Wes' }],
+        expect.objectContaining({ decision: 'approved', reason: 'Looks good' })
+      );
+    });
+  });
+
+  describe('rejectVersion', () => {
+    it('should require a reason', async () => {
+      const result = await workflowService.rejectVersion(10, 5, '  ');
+
+      expect(result.success).toBe(false);
+      expect(result.error).toBe('A reason is required to reject a version');
+      expect(mockPoolQuery).not.toHaveBeenCalled();
+    });
+
+    it('should send the version back to draft with the reason', async () => {
+      mockPoolQuery.mockResolvedValueOnce({ rows: [context({ workflow_stage: 'approved' })] });
+      mockPoolQuery.mockResolvedValueOnce({ rows: [{ role: 'editor' }] });
+      mockClientQuery.mockImplementation((sql: string, params: any[]) => {
+        if (sql.startsWith('UPDATE content_versions')) return Promise.resolve({ rowCount: 1 });
+        if (sql.includes('INSERT INTO version_reviews')) {
+          return Promise.resolve({ rows: [{ id: 9, action: params[1], reason: params[3] }] });
+        }
+        return Promise.resolve({ rows: [] });
+      });
+      mockPoolQuery.mockResolvedValueOnce({ rows: [{ actor_id: 3 }] }); // latest submitter
+      mockPoolQuery.mockResolvedValue({ rows: [{ id: 3, email: 'writer@example.com', name: 'Wes' }] });
+
+      const result = await workflowService.rejectVersion(10, 5, 'Needs sources');
+
+      expect(result.success).toBe(true);
+      expect(result.data).toEqual(expect.objectContaining({ action: 'rejected', reason: 'Needs sources' }));
+      expect(mockClientQuery).toHaveBeenCalledWith(
+        expect.stringContaining('UPDATE content_versions SET workflow_stage'),
+        ['draft', 10, 'approved']
+      );
+
+      await new Promise((resolve) => setImmediate(resolve));
+      expect(mockSendReviewDecision).toHaveBeenCalledWith(
+        expect.any(Array),
+        expect.objectContaining({ decision: 'rejected', reason: 'Needs sources' })
+      );
+    });
+  });
+
+  describe('updateSettings', () => {
+    it('should only allow owners and admins', async () => {
+      mockPoolQuery.mockResolvedValueOnce({ rows: [{ role: 'editor' }] });
+
+      const result = await workflowService.updateSettings(1, 2, { enabled: true });
+
+      expect(result.success).toBe(false);
+      expect(result.error).toBe('Only organization owners and admins can change workflow settings');
+      expect(mockPoolQuery).toHaveBeenCalledTimes(1);
+    });
+
+    it('should validate the number of required approvals', async () => {
+      const result = await workflowService.updateSettings(1, 1, { approvalsRequired: 9 });
+
+      expect(result.success).toBe(false);
+      expect(result.error).toContain('must be between 1 and 5');
+      expect(mockPoolQuery).not.toHaveBeenCalled();
+    });
+  });
+
+  describe('canPublishContent', () => {
+    it('should allow anything when workflow is disabled', async () => {
+      mockPoolQuery.mockResolvedValueOnce({ rows: [{ workflow_enabled: false, workflow_approvals_required: 1 }] });
+
+      const result = await workflowService.canPublishContent(1, 'post' as any, 4);
+
+      expect(result.data).toBe(true);
+      expect(mockPoolQuery).toHaveBeenCalledTimes(1);
+    });
+
+    it('should require the latest version to be approved', async () => {
+      mockPoolQuery.mockResolvedValueOnce({ rows: [{ workflow_enabled: true, workflow_approvals_required: 1 }] });
+      mockPoolQuery.mockResolvedValueOnce({ rows: [{ workflow_stage: 'in_review' }] });
+
+      const result = await workflowService.canPublishContent(1, 'post' as any, 4);
+
+      expect(result.data).toBe(false);
+    });
+
+    it('should require the content going live to match the approved version', async () => {
+      const approved = { workflow_stage: 'approved', title: 'Launch', content: '<p>Reviewed</p>', excerpt: null };
+      mockPoolQuery.mockResolvedValueOnce({ rows: [{ workflow_enabled: true, workflow_approvals_required: 1 }] });
+      mockPoolQuery.mockResolvedValueOnce({ rows: [approved] });
+      mockPoolQuery.mockResolvedValueOnce({ rows: [{ workflow_enabled: true, workflow_approvals_required: 1 }] });
+      mockPoolQuery.mockResolvedValueOnce({ rows: [approved] });
+
+      const edited = await workflowService.canPublishContent(1, 'post' as any, 4, {
+        title: 'Launch', content: '<p>Not reviewed</p>', excerpt: null
+      });
+      const unchanged = await workflowService.canPublishContent(1, 'post' as any, 4, {
+        title: 'Launch', content: '<p>Reviewed</p>', excerpt: ''
+      });
+
+      expect(edited.data).toBe(false);
+      expect(unchanged.data).toBe(true);
+    });
+  });
+
+  describe('applyReviewedChanges', () => {
+    it('should keep current values for missing fields and report changes', () => {
+      const current = { title: 'Launch', content: 'Body', excerpt: null };
+
+      expect(applyReviewedChanges(current, { title: 'Launch' })).toEqual({ content: current, changed: false });
+      expect(applyReviewedChanges(current, { content: 'New body' })).toEqual({
+        content: { ...current, content: 'New body' },
+        changed: true
+      });
+    });
+  });
+});
@@ -138,6 +138,7 @@ describe('Type Guards', () => {
     it('should validate valid ContentType enums', () => {
       expect(isContentType(ContentType.POST)).toBe(true);
       expect(isContentType(ContentType.PAGE)).toBe(true);
+      expect(isContentType(ContentType.FRAGMENT)).toBe(true);
       expect(isContentType('post')).toBe(true);
       expect(isContentType('page')).toBe(true);
     });
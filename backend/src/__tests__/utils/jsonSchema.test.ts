@@ -0,0 +1,189 @@
+import {
+  checkSchema,
+  collectReferences,
+  hasSchemaFields,
+  JsonSchema,
+  migrateToSchema,
+  validateAgainstSchema
+} from '../../utils/jsonSchema';
+
+const teamSchema: JsonSchema = {
+  type: 'object',
+  required: ['heading'],
+  additionalProperties: false,
+  properties: {
+    heading: { type: 'string', maxLength: 20 },
+    intro: { type: 'string', format: 'html' },
+    photo: { type: 'string', format: 'image' },
+    contact: { type: 'integer', format: 'page-reference' },
+    members: {
+      type: 'array',
+      maxItems: 3,
+      items: {
+        type: 'object',
+        required: ['name'],
+        properties: {
+          name: { type: 'string' },
+          role: { type: 'string', enum: ['lead', 'member'] },
+          post: { type: 'integer', format: 'post-reference' }
+        }
+      }
+    }
+  }
+};
+
+const landingSchema: JsonSchema = {
+  type: 'object',
+  properties: {
+    blocks: {
+      type: 'array',
+      format: 'blocks',
+      blockTypes: {
+        hero: { required: ['heading'], properties: { heading: { type: 'string' }, link: { type: 'integer', format: 'page-reference' } } },
+        quote: { properties: { text: { type: 'string' }, attribution: { type: 'string' } } }
+      }
+    }
+  }
+};
+
+describe('JSON Schema Utilities', () => {
+  describe('validateAgainstSchema', () => {
+    it('should accept data matching the schema', () => {
+      const errors = validateAgainstSchema(teamSchema, {
+        heading: 'Our team',
+        intro: '<p>Hi</p>',
+        contact: 4,
+        members: [{ name: 'Ada', role: 'lead' }]
+      });
+      expect(errors).toEqual([]);
+    });
+
+    it('should report every problem with the path of the value', () => {
+      const errors = validateAgainstSchema(teamSchema, {
+        heading: 'A heading far too long to fit',
+        contact: 'four',
+        members: [{ role: 'boss' }],
+        footer: 'x'
+      }, 'data');
+
+      expect(errors).toEqual([
+        { field: 'data.heading', message: 'must be at most 20 characters' },
+        { field: 'data.contact', message: 'must be of type integer' },
+        { field: 'data.members.0.name', message: 'is required' },
+        { field: 'data.members.0.role', message: 'must be one of "lead", "member"' },
+        { field: 'data.footer', message: 'is not a field of this template' }
+      ]);
+    });
+
+    it('should treat empty strings as missing required fields', () => {
+      expect(validateAgainstSchema(teamSchema, { heading: '' })).toEqual([
+        { field: 'heading', message: 'is required' }
+      ]);
+    });
+
+    it('should allow optional fields to be cleared', () => {
+      expect(validateAgainstSchema(teamSchema, { heading: 'Team', photo: null })).toEqual([]);
+    });
+
+    it('should check blocks against the schema of their type', () => {
+      const errors = validateAgainstSchema(landingSchema, {
+        blocks: [
+          { id: 'a', type: 'hero', props: { heading: 'Welcome' } },
+          { id: 'b', type: 'hero', props: {} },
+          { type: 'quote', props: { text: 'Hi' } },
+          { id: 'd', type: 'video', props: {} },
+          { id: 'a', type: 'quote', props: {} }
+        ]
+      }, 'data');
+
+      expect(errors).toEqual([
+        { field: 'data.blocks.1.props.heading', message: 'is required' },
+        { field: 'data.blocks.2.id', message: 'is required' },
+        { field: 'data.blocks.3.type', message: 'must be one of "hero", "quote"' },
+        { field: 'data.blocks.4.id', message: 'must be unique' }
+      ]);
+    });
+  });
+
+  describe('checkSchema', () => {
+    it('should accept the supported keywords', () => {
+      expect(checkSchema(teamSchema)).toEqual([]);
+    });
+
+    it('should report unknown types and invalid patterns', () => {
+      expect(checkSchema({
+        properties: { name: { type: 'text' }, code: { type: 'string', pattern: '(' } }
+      }, 'schema')).toEqual([
+        { field: 'schema.properties.name.type', message: 'unknown type "text"' },
+        { field: 'schema.properties.code.pattern', message: 'is not a valid regular expression' }
+      ]);
+    });
+
+    it('should check the schemas of block types', () => {
+      expect(checkSchema(landingSchema)).toEqual([]);
+      expect(checkSchema({
+        properties: {
+          blocks: { type: 'array', format: 'blocks' },
+          sections: { type: 'array', format: 'blocks', blockTypes: { hero: { properties: { heading: { type: 'text' } } } } }
+        }
+      }, 'schema')).toEqual([
+        { field: 'schema.properties.blocks.blockTypes', message: 'is required for blocks' },
+        { field: 'schema.properties.sections.blockTypes.hero.properties.heading.type', message: 'unknown type "text"' }
+      ]);
+    });
+  });
+
+  describe('hasSchemaFields', () => {
+    it('should treat a schema without properties as free-form', () => {
+      expect(hasSchemaFields({})).toBe(false);
+      expect(hasSchemaFields(teamSchema)).toBe(true);
+    });
+  });
+
+  describe('collectReferences', () => {
+    it('should find references inside repeaters', () => {
+      expect(collectReferences(teamSchema, {
+        contact: 4,
+        members: [{ name: 'Ada' }, { name: 'Grace', post: 9 }]
+      })).toEqual([
+        { kind: 'page', id: 4, field: 'contact' },
+        { kind: 'post', id: 9, field: 'members.1.post' }
+      ]);
+    });
+
+    it('should find references inside block props', () => {
+      expect(collectReferences(landingSchema, {
+        blocks: [{ id: 'a', type: 'quote', props: {} }, { id: 'b', type: 'hero', props: { heading: 'Hi', link: 3 } }]
+      })).toEqual([{ kind: 'page', id: 3, field: 'blocks.1.props.link' }]);
+    });
+  });
+
+  describe('migrateToSchema', () => {
+    it('should fill new fields from the defaults and drop removed ones', () => {
+      const migrated = migrateToSchema(
+        teamSchema,
+        { title: 'Old field', members: [{ name: 'Ada' }] },
+        { heading: 'Team', members: [] }
+      );
+      expect(migrated).toEqual({ heading: 'Team', members: [{ name: 'Ada' }] });
+      expect(validateAgainstSchema(teamSchema, migrated)).toEqual([]);
+    });
+
+    it('should convert numbers and strings where nothing is lost', () => {
+      const schema: JsonSchema = {
+        type: 'object',
+        properties: { count: { type: 'integer' }, label: { type: 'string' } }
+      };
+      expect(migrateToSchema(schema, { count: '3', label: 7 })).toEqual({ count: 3, label: '7' });
+      expect(migrateToSchema(schema, { count: '3.5' })).toEqual({ count: '3.5' });
+    });
+
+    it('should migrate the props of each block by its type', () => {
+      expect(migrateToSchema(landingSchema, {
+        blocks: [{ id: 'a', type: 'hero', props: { heading: 'Hi', link: '4' } }, { id: 'b', type: 'video', props: {} }]
+      })).toEqual({
+        blocks: [{ id: 'a', type: 'hero', props: { heading: 'Hi', link: 4 } }, { id: 'b', type: 'video', props: {} }]
+      });
+    });
+  });
+});
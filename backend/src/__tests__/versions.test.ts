@@ -434,6 +434,29 @@ describe('Version API Endpoints', () => {
       expect(response.body.message).toContain('published successfully');
     });
 
+    it('should refuse unapproved versions when editorial workflow is enabled', async () => {
+      const token = generateTestToken(1, 'editor');
+      const defaultImplementation = mockClient.query.getMockImplementation();
+      mockClient.query.mockImplementation((query: string) => {
+        if (query.includes('workflow_enabled')) {
+          return { rows: [{ workflow_enabled: true }] };
+        }
+        return defaultImplementation(query);
+      });
+
+      const response = await request(app)
+        .post('/api/versions/1/publish')
+        .set('Authorization', `Bearer ${token}`);
+
+      expect(response.status).toBe(403);
+      expect(response.body.error).toBe('Version must be approved before it can be published');
+      expect(mockClient.query).toHaveBeenCalledWith('ROLLBACK');
+      expect(mockClient.query).not.toHaveBeenCalledWith(
+        expect.stringContaining('is_current_published = true'),
+        expect.anything()
+      );
+    });
+
     it('should require publish permission', async () => {
       const token = generateTestToken(1, 'author'); // Author cannot publish
 
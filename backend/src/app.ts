@@ -9,12 +9,12 @@ import helmet from 'helmet';
 import compression from 'compression';
 import morgan from 'morgan';
 import rateLimit from 'express-rate-limit';
-import path from 'path';
 
 // Import routes (webhooksRoutes loads config/stripe which validates env vars)
 import authRoutes from './routes/auth';
 import postsRoutes from './routes/posts';
 import categoriesRoutes from './routes/categories';
+import tagsRoutes from './routes/tags';
 import pagesRoutes from './routes/pages';
 import mediaRoutes from './routes/media';
 import settingsRoutes from './routes/settings';
@@ -25,7 +25,18 @@ import menusRoutes from './routes/menus';
 import sitesRoutes from './routes/sites';
 import versionsRoutes from './routes/versions_simple';
 import autosaveRoutes from './routes/autosave';
+import editLocksRoutes from './routes/editLocks';
+import translationsRoutes from './routes/translations';
+import redirectsRoutes from './routes/redirects';
+import fragmentsRoutes from './routes/fragments';
+import { createUploadsRoutes } from './routes/uploads';
+import { LocalMediaStorage, mediaStorage } from './services/MediaStorage';
+import searchRoutes from './routes/search';
+import feedsRoutes from './routes/feeds';
+import sitemapsRoutes from './routes/sitemaps';
+import ssrRoutes from './routes/ssr';
 import { createVersionRoutes } from './routes/versions';
+import { createPreviewRoutes } from './routes/previews';
 import webhooksRoutes from './routes/webhooks';
 import quotasRoutes from './routes/quotas';
 import billingRoutes from './routes/billing';
@@ -130,8 +141,11 @@ if (DOMAINS_SITES_ENABLED !== 'off') {
   });
 }
 
-// Serve uploads directory
-app.use('/uploads', express.static(path.join(__dirname, '../uploads')));
+// Serve uploads from media storage: local files directly, remote ones through signed URLs
+app.use(
+  '/uploads',
+  mediaStorage instanceof LocalMediaStorage ? express.static(mediaStorage.root) : createUploadsRoutes(mediaStorage)
+);
 
 // Organization status is now enforced inside authenticateToken middleware
 // This ensures the check happens AFTER authentication populates req.user
@@ -141,7 +155,11 @@ app.use('/uploads', express.static(path.join(__dirname, '../uploads')));
 app.use('/api/auth', authRoutes);
 app.use('/api/posts', postsRoutes);
 app.use('/api/categories', categoriesRoutes);
+app.use('/api/tags', tagsRoutes);
 app.use('/api/pages', pagesRoutes);
+app.use('/api/search', searchRoutes);
+app.use('/api/redirects', redirectsRoutes);
+app.use('/api/fragments', fragmentsRoutes);
 app.use('/api/media', mediaRoutes);
 app.use('/api/settings', settingsRoutes);
 app.use('/api/admin', adminRoutes);
@@ -152,18 +170,25 @@ app.use('/api/menus', menusRoutes);
 app.use('/api/sites', sitesRoutes);
 app.use('/api', versionsRoutes); // Version endpoints at /api/content and /api/versions
 app.use('/api', autosaveRoutes); // Auto-save endpoints
+app.use('/api', editLocksRoutes); // Soft edit locks for posts and pages
+app.use('/api', translationsRoutes); // Translation groups for posts and pages
 app.use('/api/versions', createVersionRoutes(pool)); // Version comparison endpoints
+app.use('/api', createPreviewRoutes(pool)); // Preview tokens and public draft previews
 app.use('/api/quotas', quotasRoutes); // Quota management endpoints
 app.use('/api/billing', billingRoutes); // Billing and subscription endpoints
 app.use('/api/organizations', organizationsRoutes); // Organization settings and member management
 app.use('/api/metrics', metricsRoutes); // SF-026: Monitoring metrics and alerts
 app.use('/api/super-admin', superAdminRoutes); // Super admin platform management
+app.use('/', feedsRoutes); // RSS, Atom and JSON feeds at the site root
+app.use('/', sitemapsRoutes); // sitemap.xml and robots.txt per domain and site
 
 // Health check endpoint
 app.get('/api/health', (req, res) => {
   res.json({ status: 'OK', message: 'CMS API is running' });
 });
 
+app.use('/', ssrRoutes); // Server-rendered public pages
+
 // 404 handler
 app.use('*', (req, res) => {
   res.status(404).json({ error: 'API endpoint not found' });
@@ -0,0 +1,146 @@
+import { pool, query } from '../utils/database';
+
+/**
+ * Category as linked from breadcrumbs and subcategory lists
+ */
+export interface CategorySummary {
+  id: number;
+  name: string;
+  slug: string;
+  path: string;
+}
+
+/**
+ * SQL condition for the category `alias` being `root` or nested anywhere
+ * below it. Paths are compared as prefixes so a subtree needs no recursion.
+ */
+export function categorySubtreeSql(alias: string, root: string): string {
+  return `(${alias}.organization_id = ${root}.organization_id AND (${alias}.id = ${root}.id
+    OR LEFT(${alias}.path, LENGTH(${root}.path) + 1) = ${root}.path || '/'))`;
+}
+
+/**
+ * Path of a category with the given slug placed under a parent
+ */
+export function categoryPath(parentPath: string | null | undefined, slug: string): string {
+  return parentPath ? `${parentPath}/${slug}` : slug;
+}
+
+/**
+ * Categories above one, top-level first
+ */
+export async function getCategoryAncestors(organizationId: number, path: string): Promise<CategorySummary[]> {
+  const result = await query(
+    `SELECT id, name, slug, path FROM categories
+     WHERE organization_id = $1 AND LEFT($2, LENGTH(path) + 1) = path || '/'
+     ORDER BY LENGTH(path)`,
+    [organizationId, path]
+  );
+  return result.rows;
+}
+
+/**
+ * Categories directly below one, by name
+ */
+export async function getCategoryChildren(categoryId: number): Promise<CategorySummary[]> {
+  const result = await query(
+    'SELECT id, name, slug, path FROM categories WHERE parent_id = $1 ORDER BY name',
+    [categoryId]
+  );
+  return result.rows;
+}
+
+/**
+ * Rewrite the paths of everything below `fromPath` to start with `toPrefix`
+ * instead, after the category at `fromPath` was renamed, moved or removed.
+ */
+async function rebaseSubtree(
+  run: (sql: string, params: any[]) => Promise<unknown>,
+  organizationId: number,
+  fromPath: string,
+  toPrefix: string
+): Promise<void> {
+  await run(
+    `UPDATE categories SET path = $3 || SUBSTRING(path FROM LENGTH($2) + 2)
+     WHERE organization_id = $1 AND LEFT(path, LENGTH($2) + 1) = $2 || '/'`,
+    [organizationId, fromPath, toPrefix]
+  );
+}
+
+/**
+ * Give a category a new slug and/or parent, keeping the paths of its
+ * subcategories in line
+ */
+export async function moveCategory(
+  category: { id: number; organization_id: number; path: string },
+  slug: string,
+  parent: { id: number; path: string } | null
+): Promise<void> {
+  const newPath = categoryPath(parent?.path, slug);
+
+  const client = await pool.connect();
+  try {
+    await client.query('BEGIN');
+    await client.query(
+      'UPDATE categories SET slug = $1, parent_id = $2, path = $3 WHERE id = $4',
+      [slug, parent?.id ?? null, newPath, category.id]
+    );
+    await rebaseSubtree((sql, params) => client.query(sql, params), category.organization_id, category.path, `${newPath}/`);
+    await client.query('COMMIT');
+  } catch (error) {
+    await client.query('ROLLBACK');
+    throw error;
+  } finally {
+    client.release();
+  }
+}
+
+/**
+ * Names of the subcategories of a category that share a slug with a
+ * category beside it, so they cannot move up when it is deleted
+ */
+export async function getCategoryMoveUpClashes(
+  category: { id: number; organization_id: number; parent_id: number | null }
+): Promise<string[]> {
+  const result = await query(
+    `SELECT c.name FROM categories c
+     JOIN categories s ON s.organization_id = c.organization_id AND s.slug = c.slug
+       AND s.parent_id IS NOT DISTINCT FROM $3 AND s.id <> $1
+     WHERE c.parent_id = $1 AND c.organization_id = $2
+     ORDER BY c.name`,
+    [category.id, category.organization_id, category.parent_id]
+  );
+  return result.rows.map((row: { name: string }) => row.name);
+}
+
+/**
+ * Delete a category. Its posts and subcategories move up to its parent, or
+ * become uncategorized and top-level when it had none.
+ */
+export async function deleteCategory(
+  category: { id: number; organization_id: number; parent_id: number | null; slug: string; path: string }
+): Promise<{ postsMoved: number }> {
+  const parentPrefix = category.path.slice(0, category.path.length - category.slug.length);
+
+  const client = await pool.connect();
+  try {
+    await client.query('BEGIN');
+    const posts = await client.query(
+      'UPDATE posts SET category_id = $1 WHERE category_id = $2 AND organization_id = $3',
+      [category.parent_id, category.id, category.organization_id]
+    );
+    await client.query(
+      'UPDATE categories SET parent_id = $1 WHERE parent_id = $2',
+      [category.parent_id, category.id]
+    );
+    await rebaseSubtree((sql, params) => client.query(sql, params), category.organization_id, category.path, parentPrefix);
+    await client.query('DELETE FROM categories WHERE id = $1', [category.id]);
+    await client.query('COMMIT');
+    return { postsMoved: posts.rowCount ?? 0 };
+  } catch (error) {
+    await client.query('ROLLBACK');
+    throw error;
+  } finally {
+    client.release();
+  }
+}
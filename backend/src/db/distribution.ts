@@ -5,6 +5,7 @@ export type ScheduleStatus = 'pending' | 'queued' | 'sent' | 'failed' | 'cancell
 
 export interface PublishingTarget {
   id: number;
+  organization_id: number;
   name: string;
   channel: string;
   credentials: Record<string, any>;
@@ -67,6 +68,7 @@ export interface DistributionMetrics {
 
 const TARGET_FIELDS = [
   'id',
+  'organization_id',
   'name',
   'channel',
   'credentials',
@@ -117,6 +119,7 @@ const LOG_FIELDS = [
 function mapTargetRow(row: any): PublishingTarget {
   return {
     id: Number(row.id),
+    organization_id: Number(row.organization_id),
     name: row.name,
     channel: row.channel,
     credentials: row.credentials || {},
@@ -184,13 +187,19 @@ function mapLogRow(row: any): DistributionLog {
   };
 }
 
-export async function listPublishingTargets(): Promise<PublishingTarget[]> {
-  const result = await query(`SELECT ${TARGET_FIELDS} FROM publishing_targets ORDER BY name ASC`);
+export async function listPublishingTargets(organizationId: number): Promise<PublishingTarget[]> {
+  const result = await query(
+    `SELECT ${TARGET_FIELDS} FROM publishing_targets WHERE organization_id = $1 ORDER BY name ASC`,
+    [organizationId]
+  );
   return result.rows.map(mapTargetRow);
 }
 
-export async function getPublishingTargetById(id: number): Promise<PublishingTarget | null> {
-  const result = await query(`SELECT ${TARGET_FIELDS} FROM publishing_targets WHERE id = $1`, [id]);
+export async function getPublishingTargetById(id: number, organizationId?: number): Promise<PublishingTarget | null> {
+  const result = await query(
+    `SELECT ${TARGET_FIELDS} FROM publishing_targets WHERE id = $1 AND ($2::int IS NULL OR organization_id = $2)`,
+    [id, organizationId ?? null]
+  );
   if (result.rows.length === 0) {
     return null;
   }
@@ -206,10 +215,10 @@ export interface CreatePublishingTargetInput {
   rate_limit_per_hour?: number | null;
 }
 
-export async function createPublishingTarget(input: CreatePublishingTargetInput): Promise<PublishingTarget> {
+export async function createPublishingTarget(input: CreatePublishingTargetInput, organizationId: number): Promise<PublishingTarget> {
   const result = await query(
-    `INSERT INTO publishing_targets (name, channel, credentials, default_payload, is_active, rate_limit_per_hour)
-     VALUES ($1, $2, $3::jsonb, $4::jsonb, $5, $6)
+    `INSERT INTO publishing_targets (name, channel, credentials, default_payload, is_active, rate_limit_per_hour, organization_id)
+     VALUES ($1, $2, $3::jsonb, $4::jsonb, $5, $6, $7)
      RETURNING ${TARGET_FIELDS}`,
     [
       input.name,
@@ -218,6 +227,7 @@ export async function createPublishingTarget(input: CreatePublishingTargetInput)
       JSON.stringify(input.default_payload || {}),
       input.is_active !== false,
       input.rate_limit_per_hour ?? null,
+      organizationId,
     ]
   );
 
@@ -233,7 +243,11 @@ export interface UpdatePublishingTargetInput {
   rate_limit_per_hour?: number | null;
 }
 
-export async function updatePublishingTarget(id: number, input: UpdatePublishingTargetInput): Promise<PublishingTarget | null> {
+export async function updatePublishingTarget(
+  id: number,
+  organizationId: number,
+  input: UpdatePublishingTargetInput
+): Promise<PublishingTarget | null> {
   const fields: string[] = [];
   const values: any[] = [];
 
@@ -263,15 +277,17 @@ export async function updatePublishingTarget(id: number, input: UpdatePublishing
   }
 
   if (fields.length === 0) {
-    const current = await getPublishingTargetById(id);
+    const current = await getPublishingTargetById(id, organizationId);
     return current;
   }
 
   fields.push(`updated_at = NOW()`);
 
   const result = await query(
-    `UPDATE publishing_targets SET ${fields.join(', ')} WHERE id = $${fields.length + 1} RETURNING ${TARGET_FIELDS}`,
-    [...values, id]
+    `UPDATE publishing_targets SET ${fields.join(', ')}
+     WHERE id = $${values.length + 1} AND organization_id = $${values.length + 2}
+     RETURNING ${TARGET_FIELDS}`,
+    [...values, id, organizationId]
   );
 
   if (result.rows.length === 0) {
@@ -281,8 +297,8 @@ export async function updatePublishingTarget(id: number, input: UpdatePublishing
   return mapTargetRow(result.rows[0]);
 }
 
-export async function deletePublishingTarget(id: number): Promise<boolean> {
-  const result = await query('DELETE FROM publishing_targets WHERE id = $1', [id]);
+export async function deletePublishingTarget(id: number, organizationId: number): Promise<boolean> {
+  const result = await query('DELETE FROM publishing_targets WHERE id = $1 AND organization_id = $2', [id, organizationId]);
   return (result.rowCount ?? 0) > 0;
 }
 
@@ -290,6 +306,7 @@ export interface ListScheduleFilters {
   postId?: number;
   status?: ScheduleStatus;
   limit?: number;
+  organizationId?: number;
 }
 
 export async function listPublishingSchedules(filters: ListScheduleFilters = {}): Promise<PublishingSchedule[]> {
@@ -306,6 +323,11 @@ export async function listPublishingSchedules(filters: ListScheduleFilters = {})
     values.push(filters.status);
   }
 
+  if (filters.organizationId) {
+    conditions.push(`p.organization_id = $${values.length + 1}`);
+    values.push(filters.organizationId);
+  }
+
   const where = conditions.length ? `WHERE ${conditions.join(' AND ')}` : '';
   const limitClause = filters.limit ? `LIMIT ${filters.limit}` : '';
 
@@ -562,17 +584,18 @@ export async function listDistributionLogs(limit = 50): Promise<DistributionLog[
   return result.rows.map(mapLogRow);
 }
 
-export async function getDistributionQueue(limit = 50): Promise<DistributionLog[]> {
+export async function getDistributionQueue(limit = 50, organizationId?: number): Promise<DistributionLog[]> {
   const result = await query(
     `SELECT ${LOG_FIELDS}
      FROM distribution_logs l
      JOIN posts p ON p.id = l.post_id
      JOIN publishing_targets t ON t.id = l.target_id
-     WHERE l.status IN ('failed', 'retrying', 'queued')
-        OR (l.next_retry_at IS NOT NULL AND l.next_retry_at <= NOW())
+     WHERE (l.status IN ('failed', 'retrying', 'queued')
+        OR (l.next_retry_at IS NOT NULL AND l.next_retry_at <= NOW()))
+       AND ($2::int IS NULL OR p.organization_id = $2)
      ORDER BY l.updated_at DESC
      LIMIT $1`,
-    [limit]
+    [limit, organizationId ?? null]
   );
 
   return result.rows.map(mapLogRow);
@@ -623,8 +646,9 @@ export async function markLogForRetry(id: number, nextRetryAt?: Date): Promise<D
   return getDistributionLogById(id);
 }
 
-export async function getDistributionMetrics(filters: { postId?: number } = {}): Promise<DistributionMetrics> {
+export async function getDistributionMetrics(filters: { postId?: number; organizationId?: number } = {}): Promise<DistributionMetrics> {
   const postParam = filters.postId ?? null;
+  const orgParam = filters.organizationId ?? null;
 
   const [channelPerformanceResult, upcomingResult, recentResult, alertsResult] = await Promise.all([
     query(
@@ -637,9 +661,11 @@ export async function getDistributionMetrics(filters: { postId?: number } = {}):
        LEFT JOIN distribution_logs l
          ON l.target_id = t.id
         AND ($1::int IS NULL OR l.post_id = $1)
+        AND ($2::int IS NULL OR l.post_id IN (SELECT id FROM posts WHERE organization_id = $2))
+       WHERE ($2::int IS NULL OR t.organization_id = $2)
        GROUP BY t.channel
        ORDER BY t.channel`,
-      [postParam]
+      [postParam, orgParam]
     ),
     query(
       `SELECT ${SCHEDULE_FIELDS}
@@ -648,9 +674,10 @@ export async function getDistributionMetrics(filters: { postId?: number } = {}):
        JOIN publishing_targets t ON t.id = s.target_id
        WHERE s.status IN ('pending', 'queued', 'retrying')
          AND ($1::int IS NULL OR s.post_id = $1)
+         AND ($2::int IS NULL OR p.organization_id = $2)
        ORDER BY s.scheduled_for ASC
        LIMIT 10`,
-      [postParam]
+      [postParam, orgParam]
     ),
     query(
       `SELECT ${LOG_FIELDS}
@@ -658,9 +685,10 @@ export async function getDistributionMetrics(filters: { postId?: number } = {}):
        JOIN posts p ON p.id = l.post_id
        JOIN publishing_targets t ON t.id = l.target_id
        WHERE ($1::int IS NULL OR l.post_id = $1)
+         AND ($2::int IS NULL OR p.organization_id = $2)
        ORDER BY l.created_at DESC
        LIMIT 10`,
-      [postParam]
+      [postParam, orgParam]
     ),
     query(
       `SELECT ${LOG_FIELDS}
@@ -668,10 +696,11 @@ export async function getDistributionMetrics(filters: { postId?: number } = {}):
        JOIN posts p ON p.id = l.post_id
        JOIN publishing_targets t ON t.id = l.target_id
        WHERE ($1::int IS NULL OR l.post_id = $1)
+         AND ($2::int IS NULL OR p.organization_id = $2)
          AND (l.status = 'failed' OR (l.retry_count > 0 AND l.status != 'sent'))
        ORDER BY l.updated_at DESC
        LIMIT 10`,
-      [postParam]
+      [postParam, orgParam]
     ),
   ]);
 
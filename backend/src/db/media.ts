@@ -0,0 +1,365 @@
+import { pool, query } from '../utils/database';
+import { generateSlug, generateUniqueSlug } from '../utils/slug';
+
+/**
+ * Folder of the media library, with how many files are filed directly in it
+ */
+export interface MediaFolder {
+  id: number;
+  organization_id: number;
+  parent_id: number | null;
+  name: string;
+  slug: string;
+  path: string;
+  media_count?: number;
+}
+
+export interface MediaTag {
+  id: number;
+  name: string;
+  slug: string;
+  media_count?: number;
+}
+
+export interface MediaListFilters {
+  page: number;
+  limit: number;
+  // Prefix of the MIME type, e.g. image
+  type?: string;
+  // Matched against the file name, alt text and caption
+  search?: string;
+  // null selects files that are in no folder
+  folderId?: number | null;
+  includeSubfolders?: boolean;
+  // Tag slug
+  tag?: string;
+}
+
+// Tags of each listed file, as a JSON array
+const MEDIA_TAGS_JOIN = `
+  LEFT JOIN LATERAL (
+    SELECT JSON_AGG(JSON_BUILD_OBJECT('id', t.id, 'name', t.name, 'slug', t.slug) ORDER BY t.name) as tags
+    FROM media_file_tags mt
+    JOIN media_tags t ON t.id = mt.tag_id
+    WHERE mt.media_id = m.id
+  ) mtags ON true`;
+
+/**
+ * Path of a folder with the given slug placed under a parent
+ */
+export function mediaFolderPath(parentPath: string | null | undefined, slug: string): string {
+  return parentPath ? `${parentPath}/${slug}` : slug;
+}
+
+function escapeLike(value: string): string {
+  return value.replace(/[\\%_]/g, '\\$&');
+}
+
+/**
+ * One page of the organization's media files, newest first, with their tags
+ */
+export async function listMediaFiles(
+  organizationId: number,
+  filters: MediaListFilters
+): Promise<{ mediaFiles: any[]; totalCount: number }> {
+  const conditions = ['m.organization_id = $1'];
+  const params: any[] = [organizationId];
+
+  if (filters.type) {
+    params.push(`${escapeLike(filters.type)}%`);
+    conditions.push(`m.mime_type LIKE $${params.length}`);
+  }
+  if (filters.search) {
+    params.push(`%${escapeLike(filters.search)}%`);
+    conditions.push(
+      `(m.original_name ILIKE $${params.length} OR m.alt_text ILIKE $${params.length} OR m.caption ILIKE $${params.length})`
+    );
+  }
+  if (filters.folderId === null) {
+    conditions.push('m.folder_id IS NULL');
+  } else if (filters.folderId !== undefined) {
+    params.push(filters.folderId);
+    conditions.push(
+      filters.includeSubfolders
+        ? `m.folder_id IN (
+            SELECT f.id FROM media_folders f
+            JOIN media_folders root ON root.id = $${params.length} AND root.organization_id = f.organization_id
+            WHERE f.id = root.id OR LEFT(f.path, LENGTH(root.path) + 1) = root.path || '/'
+          )`
+        : `m.folder_id = $${params.length}`
+    );
+  }
+  if (filters.tag) {
+    params.push(filters.tag);
+    conditions.push(
+      `EXISTS (SELECT 1 FROM media_file_tags mt JOIN media_tags t ON t.id = mt.tag_id WHERE mt.media_id = m.id AND t.slug = $${params.length})`
+    );
+  }
+
+  const whereClause = `WHERE ${conditions.join(' AND ')}`;
+  const offset = (filters.page - 1) * filters.limit;
+
+  const [mediaResult, countResult] = await Promise.all([
+    query(
+      `SELECT
+        m.*,
+        u.first_name, u.last_name, u.email as uploader_email,
+        COALESCE(mtags.tags, '[]') as tags
+      FROM media_files m
+      LEFT JOIN users u ON m.uploaded_by = u.id
+      ${MEDIA_TAGS_JOIN}
+      ${whereClause}
+      ORDER BY m.created_at DESC, m.id DESC
+      LIMIT $${params.length + 1} OFFSET $${params.length + 2}`,
+      [...params, filters.limit, offset]
+    ),
+    query(`SELECT COUNT(*) FROM media_files m ${whereClause}`, params),
+  ]);
+
+  return { mediaFiles: mediaResult.rows, totalCount: parseInt(countResult.rows[0].count) };
+}
+
+/**
+ * A media file of the organization with its uploader and tags
+ */
+export async function getMediaFile(organizationId: number, id: number | string) {
+  const result = await query(
+    `SELECT
+      m.*,
+      u.first_name, u.last_name, u.email as uploader_email,
+      COALESCE(mtags.tags, '[]') as tags
+    FROM media_files m
+    LEFT JOIN users u ON m.uploaded_by = u.id
+    ${MEDIA_TAGS_JOIN}
+    WHERE m.id = $1 AND m.organization_id = $2`,
+    [id, organizationId]
+  );
+  return result.rows[0] || null;
+}
+
+/**
+ * Folders of an organization in path order, so parents come before their
+ * subfolders
+ */
+export async function listMediaFolders(organizationId: number): Promise<MediaFolder[]> {
+  const result = await query(
+    `SELECT f.*, COUNT(m.id)::int as media_count
+     FROM media_folders f
+     LEFT JOIN media_files m ON m.folder_id = f.id
+     WHERE f.organization_id = $1
+     GROUP BY f.id
+     ORDER BY f.path`,
+    [organizationId]
+  );
+  return result.rows;
+}
+
+export async function findMediaFolder(id: number, organizationId: number): Promise<MediaFolder | null> {
+  const result = await query('SELECT * FROM media_folders WHERE id = $1 AND organization_id = $2', [id, organizationId]);
+  return result.rows[0] || null;
+}
+
+// Slug for a folder named `name`, unique among the other folders of its parent
+async function uniqueFolderSlug(
+  organizationId: number,
+  name: string,
+  parent: MediaFolder | null,
+  excludeId?: number
+): Promise<string> {
+  // Names without letters or digits, such as emoji, have no slug of their own
+  const slugSource = generateSlug(name) ? name : 'folder';
+  const prefix = mediaFolderPath(parent?.path, '');
+  const siblings = await query(
+    `SELECT path FROM media_folders
+     WHERE organization_id = $1 AND path LIKE $2 AND id IS DISTINCT FROM $3`,
+    [organizationId, `${escapeLike(prefix)}${escapeLike(generateSlug(slugSource))}%`, excludeId ?? null]
+  );
+  return generateUniqueSlug(slugSource, siblings.rows.map((row) => row.path.slice(prefix.length)));
+}
+
+export async function createMediaFolder(
+  organizationId: number,
+  name: string,
+  parent: MediaFolder | null
+): Promise<MediaFolder> {
+  const slug = await uniqueFolderSlug(organizationId, name, parent);
+  const result = await query(
+    `INSERT INTO media_folders (parent_id, name, slug, path, organization_id)
+     VALUES ($1, $2, $3, $4, $5)
+     RETURNING *`,
+    [parent?.id ?? null, name, slug, mediaFolderPath(parent?.path, slug), organizationId]
+  );
+  return result.rows[0];
+}
+
+/**
+ * Rename and/or move a folder, keeping the paths of its subfolders in line
+ */
+export async function updateMediaFolder(
+  folder: MediaFolder,
+  name: string,
+  parent: MediaFolder | null
+): Promise<MediaFolder> {
+  const slug = name === folder.name && (parent?.id ?? null) === folder.parent_id
+    ? folder.slug
+    : await uniqueFolderSlug(folder.organization_id, name, parent, folder.id);
+  const newPath = mediaFolderPath(parent?.path, slug);
+
+  const client = await pool.connect();
+  try {
+    await client.query('BEGIN');
+    const result = await client.query(
+      `UPDATE media_folders SET name = $1, slug = $2, parent_id = $3, path = $4, updated_at = CURRENT_TIMESTAMP
+       WHERE id = $5 RETURNING *`,
+      [name, slug, parent?.id ?? null, newPath, folder.id]
+    );
+    await client.query(
+      `UPDATE media_folders SET path = $3 || SUBSTRING(path FROM LENGTH($2) + 2)
+       WHERE organization_id = $1 AND LEFT(path, LENGTH($2) + 1) = $2 || '/'`,
+      [folder.organization_id, folder.path, `${newPath}/`]
+    );
+    await client.query('COMMIT');
+    return result.rows[0];
+  } catch (error) {
+    await client.query('ROLLBACK');
+    throw error;
+  } finally {
+    client.release();
+  }
+}
+
+/**
+ * Names of the subfolders of a folder that share a slug with a folder
+ * beside it, so they cannot move up when it is deleted
+ */
+export async function getMediaFolderMoveUpClashes(folder: MediaFolder): Promise<string[]> {
+  const result = await query(
+    `SELECT c.name FROM media_folders c
+     JOIN media_folders s ON s.organization_id = c.organization_id AND s.slug = c.slug
+       AND s.parent_id IS NOT DISTINCT FROM $3 AND s.id <> $1
+     WHERE c.parent_id = $1 AND c.organization_id = $2
+     ORDER BY c.name`,
+    [folder.id, folder.organization_id, folder.parent_id]
+  );
+  return result.rows.map((row: { name: string }) => row.name);
+}
+
+/**
+ * Delete a folder. Its files and subfolders move up to its parent, or out
+ * of any folder when it had none.
+ */
+export async function deleteMediaFolder(folder: MediaFolder): Promise<{ filesMoved: number }> {
+  const parentPrefix = folder.path.slice(0, folder.path.length - folder.slug.length);
+
+  const client = await pool.connect();
+  try {
+    await client.query('BEGIN');
+    const files = await client.query(
+      'UPDATE media_files SET folder_id = $1 WHERE folder_id = $2 AND organization_id = $3',
+      [folder.parent_id, folder.id, folder.organization_id]
+    );
+    await client.query('UPDATE media_folders SET parent_id = $1 WHERE parent_id = $2', [folder.parent_id, folder.id]);
+    await client.query(
+      `UPDATE media_folders SET path = $3 || SUBSTRING(path FROM LENGTH($2) + 2)
+       WHERE organization_id = $1 AND LEFT(path, LENGTH($2) + 1) = $2 || '/'`,
+      [folder.organization_id, folder.path, parentPrefix]
+    );
+    await client.query('DELETE FROM media_folders WHERE id = $1', [folder.id]);
+    await client.query('COMMIT');
+    return { filesMoved: files.rowCount ?? 0 };
+  } catch (error) {
+    await client.query('ROLLBACK');
+    throw error;
+  } finally {
+    client.release();
+  }
+}
+
+/**
+ * File media into a folder, or out of any folder with null. Files of other
+ * organizations are ignored. Returns how many files moved.
+ */
+export async function moveMediaFiles(organizationId: number, ids: number[], folderId: number | null): Promise<number> {
+  const result = await query(
+    'UPDATE media_files SET folder_id = $1 WHERE id = ANY($2) AND organization_id = $3',
+    [folderId, ids, organizationId]
+  );
+  return result.rowCount ?? 0;
+}
+
+/**
+ * Media tags of an organization with how many files carry them, by name
+ */
+export async function listMediaTags(organizationId: number): Promise<MediaTag[]> {
+  const result = await query(
+    `SELECT t.id, t.name, t.slug, COUNT(mt.media_id)::int as media_count
+     FROM media_tags t
+     LEFT JOIN media_file_tags mt ON mt.tag_id = t.id
+     WHERE t.organization_id = $1
+     GROUP BY t.id
+     ORDER BY t.name`,
+    [organizationId]
+  );
+  return result.rows;
+}
+
+/**
+ * Tag media files by tag name. `add` creates missing tags and links them,
+ * `remove` unlinks them, and `replace` makes the names the files' only
+ * tags. Files of other organizations are ignored.
+ */
+export async function tagMediaFiles(
+  organizationId: number,
+  ids: number[],
+  names: string[],
+  mode: 'add' | 'remove' | 'replace'
+): Promise<void> {
+  const tags = new Map<string, string>();
+  for (const name of names.map((tagName) => tagName.trim())) {
+    const slug = generateSlug(name);
+    if (slug && !tags.has(slug)) {
+      tags.set(slug, name);
+    }
+  }
+  const slugs = Array.from(tags.keys());
+
+  const client = await pool.connect();
+  try {
+    await client.query('BEGIN');
+
+    if (mode === 'remove' || mode === 'replace') {
+      await client.query(
+        `DELETE FROM media_file_tags mt
+         USING media_tags t, media_files m
+         WHERE t.id = mt.tag_id AND m.id = mt.media_id
+           AND mt.media_id = ANY($1) AND m.organization_id = $2
+           AND (t.slug = ANY($3)) = $4`,
+        [ids, organizationId, slugs, mode === 'remove']
+      );
+    }
+
+    if ((mode === 'add' || mode === 'replace') && slugs.length > 0) {
+      await client.query(
+        `INSERT INTO media_tags (name, slug, organization_id)
+         SELECT tag.name, tag.slug, $3 FROM UNNEST($1::text[], $2::text[]) AS tag(name, slug)
+         ON CONFLICT (organization_id, slug) DO NOTHING`,
+        [Array.from(tags.values()), slugs, organizationId]
+      );
+      await client.query(
+        `INSERT INTO media_file_tags (media_id, tag_id)
+         SELECT m.id, t.id FROM media_files m
+         JOIN media_tags t ON t.organization_id = m.organization_id AND t.slug = ANY($2)
+         WHERE m.id = ANY($1) AND m.organization_id = $3
+         ON CONFLICT DO NOTHING`,
+        [ids, slugs, organizationId]
+      );
+    }
+
+    await client.query('COMMIT');
+  } catch (error) {
+    await client.query('ROLLBACK');
+    throw error;
+  } finally {
+    client.release();
+  }
+}
@@ -0,0 +1,125 @@
+import { pool, query } from '../utils/database';
+
+/**
+ * Page as linked from breadcrumbs
+ */
+export interface PageSummary {
+  id: number;
+  title: string;
+  slug: string;
+  path: string;
+  published: boolean;
+}
+
+/**
+ * Where a page lived before a move, for redirecting its old URL
+ */
+export interface PagePathSnapshot {
+  id: number;
+  path: string;
+  published: boolean;
+  domain_id: number | null;
+}
+
+/**
+ * Pages above one of an organization, top-level first
+ */
+export async function getPageAncestors(path: string, organizationId: number): Promise<PageSummary[]> {
+  const result = await query(
+    `SELECT id, title, slug, path, published FROM pages
+     WHERE LEFT($1, LENGTH(path) + 1) = path || '/' AND organization_id = $2
+     ORDER BY LENGTH(path)`,
+    [path, organizationId]
+  );
+  return result.rows;
+}
+
+/**
+ * The given pages and everything below them, as they are now. Taken before
+ * a slug or parent change so the old URLs can be redirected afterwards.
+ */
+export async function snapshotPageSubtrees(organizationId: number, ids: number[]): Promise<PagePathSnapshot[]> {
+  const result = await query(
+    `SELECT DISTINCT p.id, p.path, p.published, p.domain_id
+     FROM pages p
+     JOIN pages root ON root.id = ANY($1) AND root.organization_id = p.organization_id
+       AND (p.id = root.id OR LEFT(p.path, LENGTH(root.path) + 1) = root.path || '/')
+     WHERE p.organization_id = $2`,
+    [ids, organizationId]
+  );
+  return result.rows;
+}
+
+/**
+ * Current paths of the given pages
+ */
+export async function getPagePaths(ids: number[]): Promise<Map<number, string>> {
+  const result = await query('SELECT id, path FROM pages WHERE id = ANY($1)', [ids]);
+  return new Map(result.rows.map((row: { id: number; path: string }) => [row.id, row.path]));
+}
+
+/**
+ * Give pages a new parent and position among their siblings in one go, as
+ * after dragging them in the page tree. Paths follow through the triggers
+ * of migration 023. Returns false when a page is not in the organization.
+ */
+export async function reorderPages(
+  organizationId: number,
+  items: Array<{ id: number; parent_id: number | null; position: number }>
+): Promise<boolean> {
+  const client = await pool.connect();
+  try {
+    await client.query('BEGIN');
+
+    const ids = new Set<number>();
+    items.forEach((item) => {
+      ids.add(item.id);
+      if (item.parent_id !== null) ids.add(item.parent_id);
+    });
+    const owned = await client.query(
+      'SELECT id FROM pages WHERE id = ANY($1) AND organization_id = $2',
+      [Array.from(ids), organizationId]
+    );
+    if (owned.rows.length !== ids.size) {
+      await client.query('ROLLBACK');
+      return false;
+    }
+
+    for (const item of items) {
+      await client.query(
+        'UPDATE pages SET parent_id = $1, position = $2, updated_at = CURRENT_TIMESTAMP WHERE id = $3',
+        [item.parent_id, item.position, item.id]
+      );
+    }
+
+    await client.query('COMMIT');
+    return true;
+  } catch (error) {
+    await client.query('ROLLBACK');
+    throw error;
+  } finally {
+    client.release();
+  }
+}
+
+/**
+ * Delete a page. The pages directly below it move up to its parent, keeping
+ * their own subpages.
+ */
+export async function deletePage(page: { id: number; organization_id: number; parent_id: number | null }): Promise<void> {
+  const client = await pool.connect();
+  try {
+    await client.query('BEGIN');
+    await client.query(
+      'UPDATE pages SET parent_id = $1 WHERE parent_id = $2 AND organization_id = $3',
+      [page.parent_id, page.id, page.organization_id]
+    );
+    await client.query('DELETE FROM pages WHERE id = $1 AND organization_id = $2', [page.id, page.organization_id]);
+    await client.query('COMMIT');
+  } catch (error) {
+    await client.query('ROLLBACK');
+    throw error;
+  } finally {
+    client.release();
+  }
+}
@@ -0,0 +1,145 @@
+import { query } from '../utils/database';
+import { siteDefaultLocaleSql } from '../utils/locale';
+import { searchQuerySql, searchRankSql, searchHeadlineSql } from '../utils/search';
+import { categorySubtreeSql } from './categories';
+
+export interface PublishedPostFilters {
+  // Domain and site context set by resolveDomain and siteResolver
+  domainId?: number;
+  siteId?: number | null;
+  search?: string;
+  // Category path, e.g. tech/javascript
+  category?: string;
+  tag?: string;
+  featured?: boolean | string;
+  // Language to list; the site default when omitted
+  locale?: string;
+  page?: number;
+  limit?: number;
+}
+
+export interface PublishedPostList {
+  posts: any[];
+  totalCount: number;
+}
+
+/**
+ * Published posts as listed publicly, newest first or by relevance when
+ * searching. Shared by GET /api/posts and the syndication feeds.
+ */
+export async function listPublishedPosts(filters: PublishedPostFilters): Promise<PublishedPostList> {
+  const { domainId, siteId, search, category, tag, featured, locale } = filters;
+  const page = Number(filters.page || 1);
+  const limit = Number(filters.limit || 10);
+  const offset = (page - 1) * limit;
+
+  let whereClause = "WHERE 1=1";
+  const params: any[] = [];
+  let paramCount = 0;
+
+  // Filter by domain if domain context exists
+  if (domainId) {
+    whereClause += ` AND (p.domain_id = $${++paramCount} OR p.domain_id IS NULL)`;
+    params.push(domainId);
+  }
+
+  if (siteId) {
+    whereClause += ` AND (p.site_id = $${++paramCount} OR p.site_id IS NULL)`;
+    params.push(siteId);
+  }
+
+  // A category archive includes the posts filed under its subcategories
+  if (category) {
+    whereClause += ` AND p.category_id IN (
+      SELECT d.id FROM categories d
+      JOIN categories root ON ${categorySubtreeSql('d', 'root')}
+      WHERE root.path = $${++paramCount}
+    )`;
+    params.push(category);
+  }
+
+  if (tag) {
+    whereClause += ` AND EXISTS (
+      SELECT 1 FROM post_tags pt
+      JOIN tags t ON pt.tag_id = t.id
+      WHERE pt.post_id = p.id AND t.slug = $${++paramCount}
+    )`;
+    params.push(tag);
+  }
+
+  if (featured !== undefined) {
+    whereClause += ` AND p.featured = $${++paramCount}`;
+    params.push(String(featured) === 'true');
+  }
+
+  // Unprefixed public routes list the site's default language
+  if (locale) {
+    whereClause += ` AND p.locale = $${++paramCount}`;
+    params.push(locale);
+  } else {
+    whereClause += ` AND p.locale = ${siteDefaultLocaleSql('p.site_id')}`;
+  }
+
+  // Ranked full-text search with highlighted title and snippet
+  let searchColumns = '';
+  let orderBy = 'p.created_at DESC';
+  if (search) {
+    const tsQuery = searchQuerySql(`$${++paramCount}`, locale ? `$${++paramCount}` : 'p.locale');
+    whereClause += ` AND p.search_vector @@ ${tsQuery}`;
+    params.push(search, ...(locale ? [locale] : []));
+    searchColumns = `,
+      ${searchRankSql('p.search_vector', tsQuery)} as search_rank,
+      ${searchHeadlineSql('p.title', 'p.locale', tsQuery, true)} as search_title,
+      ${searchHeadlineSql('p.content', 'p.locale', tsQuery)} as search_snippet`;
+    orderBy = `search_rank DESC, ${orderBy}`;
+  }
+
+  // Ensure public list shows only published posts
+  whereClause += ` AND p.status = 'published'`;
+
+  const postsQuery = `
+    SELECT
+      p.id, p.title, p.slug, p.excerpt, p.content, p.featured_image, p.featured,
+      p.created_at, p.updated_at, p.view_count, p.locale, p.organization_id,
+      c.name as category_name, c.slug as category_slug, c.path as category_path,
+      u.first_name, u.last_name, u.email as author_email,
+      COALESCE(
+        JSON_AGG(
+          CASE WHEN t.id IS NOT NULL THEN
+            JSON_BUILD_OBJECT('id', t.id, 'name', t.name, 'slug', t.slug)
+          END
+        ) FILTER (WHERE t.id IS NOT NULL),
+        '[]'
+      ) as tags${searchColumns}
+    FROM posts p
+    LEFT JOIN categories c ON p.category_id = c.id
+    LEFT JOIN users u ON p.author_id = u.id
+    LEFT JOIN post_tags pt ON p.id = pt.post_id
+    LEFT JOIN tags t ON pt.tag_id = t.id
+    ${whereClause}
+    GROUP BY p.id, c.name, c.slug, c.path, u.first_name, u.last_name, u.email
+    ORDER BY ${orderBy}
+    LIMIT $${++paramCount} OFFSET $${++paramCount}
+  `;
+
+  params.push(limit, offset);
+
+  const countQuery = `
+    SELECT COUNT(DISTINCT p.id)
+    FROM posts p
+    LEFT JOIN categories c ON p.category_id = c.id
+    LEFT JOIN post_tags pt ON p.id = pt.post_id
+    LEFT JOIN tags t ON pt.tag_id = t.id
+    ${whereClause}
+  `;
+
+  const [postsResult, countResult] = await Promise.all([
+    query(postsQuery, params),
+    query(countQuery, params.slice(0, -2)) // Remove limit and offset for count
+  ]);
+
+  return {
+    posts: postsResult.rows,
+    totalCount: parseInt(countResult.rows[0].count),
+  };
+}
@@ -0,0 +1,131 @@
+import { pool, query } from '../utils/database';
+import { generateSlug } from '../utils/slug';
+
+export interface TagWithUsage {
+  id: number;
+  name: string;
+  slug: string;
+  post_count: number;
+  published_post_count: number;
+}
+
+/**
+ * Tags of an organization with how many posts use them, by name
+ */
+export async function listTags(organizationId: number): Promise<TagWithUsage[]> {
+  const result = await query(
+    `SELECT t.id, t.name, t.slug,
+       COUNT(p.id)::int as post_count,
+       COUNT(CASE WHEN p.status = 'published' THEN 1 END)::int as published_post_count
+     FROM tags t
+     LEFT JOIN post_tags pt ON pt.tag_id = t.id
+     LEFT JOIN posts p ON p.id = pt.post_id
+     WHERE t.organization_id = $1
+     GROUP BY t.id
+     ORDER BY t.name`,
+    [organizationId]
+  );
+  return result.rows;
+}
+
+/**
+ * Public tag lookup for the /tag/:slug archive. Tags belong to the
+ * organization of the site the request resolved to, else of the sites on the
+ * request domain; without either no tag is found.
+ */
+export async function getTagBySlug(
+  slug: string,
+  context: { siteId?: number | null; domainId?: number | null }
+): Promise<{ id: number; name: string; slug: string } | null> {
+  const result = await query(
+    `SELECT id, name, slug FROM tags
+     WHERE slug = $1
+       AND organization_id IN (
+         SELECT organization_id FROM sites WHERE id = $2 OR ($2::int IS NULL AND domain_id = $3)
+       )
+     ORDER BY id LIMIT 1`,
+    [slug, context.siteId ?? null, context.domainId ?? null]
+  );
+  return result.rows[0] || null;
+}
+
+/**
+ * Rename a tag, regenerating its slug from the new name. Returns null when
+ * the tag does not exist; throws the unique violation when another tag of
+ * the organization already has that slug.
+ */
+export async function renameTag(organizationId: number, id: number, name: string) {
+  const result = await query(
+    'UPDATE tags SET name = $1, slug = $2 WHERE id = $3 AND organization_id = $4 RETURNING id, name, slug',
+    [name, generateSlug(name), id, organizationId]
+  );
+  return result.rows[0] || null;
+}
+
+/**
+ * Merge tags into `targetId`: posts tagged with any of them get the target
+ * tag instead, then the merged tags are deleted. Returns how many tags were
+ * merged, or null when the target does not exist.
+ */
+export async function mergeTags(
+  organizationId: number,
+  sourceIds: number[],
+  targetId: number
+): Promise<{ merged: number } | null> {
+  const ids = sourceIds.filter((id) => id !== targetId);
+
+  const client = await pool.connect();
+  try {
+    await client.query('BEGIN');
+    const target = await client.query(
+      'SELECT id FROM tags WHERE id = $1 AND organization_id = $2 FOR UPDATE',
+      [targetId, organizationId]
+    );
+    if (target.rows.length === 0) {
+      await client.query('ROLLBACK');
+      return null;
+    }
+
+    // Re-link before deleting so posts carrying both tags keep a single link
+    await client.query(
+      `INSERT INTO post_tags (post_id, tag_id)
+       SELECT pt.post_id, $1 FROM post_tags pt
+       JOIN tags t ON t.id = pt.tag_id
+       WHERE t.id = ANY($2) AND t.organization_id = $3
+       ON CONFLICT DO NOTHING`,
+      [targetId, ids, organizationId]
+    );
+    const deleted = await client.query(
+      'DELETE FROM tags WHERE id = ANY($1) AND organization_id = $2',
+      [ids, organizationId]
+    );
+    await client.query('COMMIT');
+    return { merged: deleted.rowCount ?? 0 };
+  } catch (error) {
+    await client.query('ROLLBACK');
+    throw error;
+  } finally {
+    client.release();
+  }
+}
+
+/**
+ * Delete tags no post uses, either all of them or only those in `ids`.
+ * Tags still in use are left alone.
+ */
+export async function deleteUnusedTags(organizationId: number, ids?: number[]): Promise<number> {
+  const params: any[] = [organizationId];
+  let idFilter = '';
+  if (ids) {
+    params.push(ids);
+    idFilter = ' AND t.id = ANY($2)';
+  }
+
+  const result = await query(
+    `DELETE FROM tags t
+     WHERE t.organization_id = $1${idFilter}
+       AND NOT EXISTS (SELECT 1 FROM post_tags pt WHERE pt.tag_id = t.id)`,
+    params
+  );
+  return result.rowCount ?? 0;
+}
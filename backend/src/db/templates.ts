@@ -0,0 +1,177 @@
+import { query } from '../utils/database';
+import {
+  JsonSchema,
+  SchemaError,
+  collectReferences,
+  hasSchemaFields,
+  migrateToSchema,
+  ReferenceKind,
+  validateAgainstSchema
+} from '../utils/jsonSchema';
+
+const REFERENCE_TABLES: Record<ReferenceKind, string> = {
+  page: 'pages',
+  post: 'posts',
+  fragment: 'content_fragments',
+};
+
+export interface PageTemplate {
+  id: number;
+  key: string;
+  name: string;
+  description?: string | null;
+  enabled: boolean;
+  schema: JsonSchema;
+  default_data: Record<string, unknown>;
+  version: number;
+}
+
+/**
+ * A page using a template, with what is wrong with its data under the
+ * current schema
+ */
+export interface TemplatePageStatus {
+  id: number;
+  title: string;
+  path: string;
+  template_version: number | null;
+  errors: SchemaError[];
+}
+
+export async function getTemplateByKey(key: string): Promise<PageTemplate | null> {
+  const result = await query('SELECT * FROM page_templates WHERE key = $1', [key]);
+  return result.rows[0] || null;
+}
+
+/**
+ * Problems with page data under its template: schema violations, and
+ * references to pages, posts or fragments that are not in the organization. Fields are
+ * reported as data.<path> like the request validation errors.
+ */
+export async function validatePageData(
+  template: PageTemplate,
+  data: unknown,
+  organizationId: number
+): Promise<SchemaError[]> {
+  if (!hasSchemaFields(template.schema)) {
+    return [];
+  }
+
+  const errors = validateAgainstSchema(template.schema, data ?? {}, 'data');
+  if (errors.length > 0) {
+    return errors;
+  }
+
+  const references = collectReferences(template.schema, data, 'data');
+  for (const kind of Object.keys(REFERENCE_TABLES) as ReferenceKind[]) {
+    const wanted = references.filter((reference) => reference.kind === kind);
+    if (wanted.length === 0) continue;
+
+    const found = await query(
+      `SELECT id FROM ${REFERENCE_TABLES[kind]} WHERE id = ANY($1) AND organization_id = $2`,
+      [wanted.map((reference) => reference.id), organizationId]
+    );
+    const ids = new Set(found.rows.map((row: { id: number }) => row.id));
+    wanted
+      .filter((reference) => !ids.has(reference.id))
+      .forEach((reference) => errors.push({ field: reference.field, message: `refers to a ${kind} that does not exist` }));
+  }
+  return errors;
+}
+
+/**
+ * Title and URL of the published pages and posts that page data refers to,
+ * keyed by kind and id (page:12, post:7), for rendering reference fields
+ */
+export async function resolvePageDataReferences(
+  schema: JsonSchema | null | undefined,
+  data: unknown
+): Promise<Record<string, { title: string; url: string }>> {
+  if (!hasSchemaFields(schema)) {
+    return {};
+  }
+
+  const references = collectReferences(schema, data);
+  const resolved: Record<string, { title: string; url: string }> = {};
+
+  const pageIds = references.filter((reference) => reference.kind === 'page').map((reference) => reference.id);
+  if (pageIds.length > 0) {
+    const pages = await query('SELECT id, title, path FROM pages WHERE id = ANY($1) AND published = true', [pageIds]);
+    pages.rows.forEach((page: { id: number; title: string; path: string }) => {
+      resolved[`page:${page.id}`] = { title: page.title, url: `/page/${page.path}` };
+    });
+  }
+
+  const postIds = references.filter((reference) => reference.kind === 'post').map((reference) => reference.id);
+  if (postIds.length > 0) {
+    const posts = await query(
+      "SELECT id, title, slug FROM posts WHERE id = ANY($1) AND status = 'published'",
+      [postIds]
+    );
+    posts.rows.forEach((post: { id: number; title: string; slug: string }) => {
+      resolved[`post:${post.id}`] = { title: post.title, url: `/blog/${post.slug}` };
+    });
+  }
+
+  return resolved;
+}
+
+/**
+ * Pages of an organization using a template and whether their data fits its current schema
+ */
+export async function listTemplatePages(template: PageTemplate, organizationId: number): Promise<TemplatePageStatus[]> {
+  const result = await query(
+    `SELECT id, title, path, data, template_version, organization_id FROM pages
+     WHERE template = $1 AND organization_id = $2 ORDER BY path`,
+    [template.key, organizationId]
+  );
+
+  const pages: TemplatePageStatus[] = [];
+  for (const page of result.rows) {
+    pages.push({
+      id: page.id,
+      title: page.title,
+      path: page.path,
+      template_version: page.template_version,
+      errors: await validatePageData(template, page.data, page.organization_id),
+    });
+  }
+  return pages;
+}
+
+/**
+ * Move the data of an organization's pages validated against an older schema
+ * version to the current one. Pages whose migrated data still does not
+ * validate are left unchanged and returned, so an editor can fix them by hand.
+ */
+export async function migrateTemplatePages(
+  template: PageTemplate,
+  organizationId: number
+): Promise<{ migrated: number; failed: TemplatePageStatus[] }> {
+  const result = await query(
+    `SELECT id, title, path, data, template_version, organization_id FROM pages
+     WHERE template = $1 AND template_version IS DISTINCT FROM $2 AND organization_id = $3`,
+    [template.key, template.version, organizationId]
+  );
+
+  let migrated = 0;
+  const failed: TemplatePageStatus[] = [];
+  for (const page of result.rows) {
+    const data = hasSchemaFields(template.schema)
+      ? migrateToSchema(template.schema, page.data ?? {}, template.default_data)
+      : page.data;
+    const errors = await validatePageData(template, data, page.organization_id);
+    if (errors.length > 0) {
+      failed.push({ id: page.id, title: page.title, path: page.path, template_version: page.template_version, errors });
+      continue;
+    }
+
+    await query(
+      'UPDATE pages SET data = $1, template_version = $2, updated_at = CURRENT_TIMESTAMP WHERE id = $3 AND organization_id = $4',
+      [JSON.stringify(data ?? {}), template.version, page.id, organizationId]
+    );
+    migrated++;
+  }
+
+  return { migrated, failed };
+}
@@ -45,6 +45,14 @@ let otelSDK: Awaited<ReturnType<typeof initializeTelemetry>> | null = null;
       console.log(`Environment: ${process.env.NODE_ENV || 'development'}`);
     });
 
+    // Real-time collaboration over WebSocket, sharing the HTTP server
+    const { collaborationService } = await import('./services/CollaborationService');
+    const { versionEvents } = await import('./services/VersionService');
+    const { previewEvents } = await import('./services/PreviewService');
+    collaborationService.attach(server);
+    collaborationService.subscribeToVersionEvents(versionEvents);
+    collaborationService.subscribeToPreviewEvents(previewEvents);
+
     // Start background jobs AFTER server is listening (SF-011)
     const { startAllJobs, stopAllJobs } = await import('./jobs');
     const jobs = startAllJobs();
@@ -62,6 +70,9 @@ let otelSDK: Awaited<ReturnType<typeof initializeTelemetry>> | null = null;
       // SF-026: Cleanup monitoring service
       monitoringService.destroy();
 
+      // Disconnect collaboration clients so server.close() can finish
+      collaborationService.close();
+
       server.close(() => {
         console.log('[Server] HTTP server closed');
 
@@ -6,15 +6,18 @@
  * This module initializes and starts all background jobs:
  * - Quota reset job (monthly API call quota resets)
  * - Grace period check job (daily subscription lifecycle checks)
+ * - Scheduled publish job (publishes posts whose scheduled_at has passed)
  */
 
 import { CronJob } from 'cron';
 import { startQuotaResetJob } from './resetQuotas';
 import { startGracePeriodJob } from './gracePeriodCheck';
+import { startScheduledPublishJob } from './publishScheduledPosts';
 
 export interface JobManager {
   quotaResetJob: CronJob | null;
   gracePeriodJob: CronJob | null;
+  scheduledPublishJob: CronJob | null;
 }
 
 /**
@@ -27,6 +30,7 @@ export function startAllJobs(): JobManager {
   const jobs: JobManager = {
     quotaResetJob: null,
     gracePeriodJob: null,
+    scheduledPublishJob: null,
   };
 
   // Start quota reset job
@@ -53,6 +57,18 @@ export function startAllJobs(): JobManager {
     console.error('[Jobs] ✗ Failed to start grace period check job:', error.message);
   }
 
+  // Start scheduled post publishing job
+  try {
+    jobs.scheduledPublishJob = startScheduledPublishJob();
+    if (jobs.scheduledPublishJob) {
+      console.log('[Jobs] ✓ Scheduled publish job started');
+    } else {
+      console.log('[Jobs] ⊘ Scheduled publish job disabled');
+    }
+  } catch (error: any) {
+    console.error('[Jobs] ✗ Failed to start scheduled publish job:', error.message);
+  }
+
   console.log('[Jobs] Background jobs initialization complete');
 
   return jobs;
@@ -75,5 +91,10 @@ export function stopAllJobs(jobs: JobManager): void {
     console.log('[Jobs] ✓ Grace period check job stopped');
   }
 
+  if (jobs.scheduledPublishJob) {
+    jobs.scheduledPublishJob.stop();
+    console.log('[Jobs] ✓ Scheduled publish job stopped');
+  }
+
   console.log('[Jobs] All jobs stopped');
 }
@@ -0,0 +1,222 @@
+/**
+ * Scheduled Post Publishing Job
+ *
+ * Publishes posts whose status is 'scheduled' once their scheduled_at time
+ * has passed. Each due post gets a published content_versions row created
+ * through VersionService, so the version history reflects the publish and
+ * syncToMainTable flips posts.status to 'published'. Versions go on a site
+ * of the post's organization and are written by the job itself, so authors
+ * without a site membership can schedule posts too. A post that fails is
+ * retried with a growing delay, and left alone after MAX_PUBLISH_ATTEMPTS
+ * failures until it is saved again; the last error is kept on the post.
+ *
+ * Schedule: Every minute (configurable via SCHEDULED_PUBLISH_SCHEDULE)
+ * Cron: '* * * * *'
+ */
+
+import { CronJob } from 'cron';
+import pool from '../utils/database';
+import { VersionService } from '../services/VersionService';
+import { contentSiteIdSql } from '../utils/site';
+import { ContentType, VersionType } from '../types/versioning/enums';
+
+const DEFAULT_BATCH_SIZE = 50;
+
+// Failed posts are retried after 1, 2, 4 and 8 minutes, then given up on
+export const MAX_PUBLISH_ATTEMPTS = 5;
+
+// Dynamic config getters - read env vars at call time for testability and runtime changes
+const getSchedule = (): string => process.env.SCHEDULED_PUBLISH_SCHEDULE || '* * * * *';
+const isEnabled = (): boolean => process.env.SCHEDULED_PUBLISH_ENABLED !== 'false';
+const getBatchSize = (): number => {
+  const envSize = process.env.SCHEDULED_PUBLISH_BATCH_SIZE;
+  return envSize ? parseInt(envSize, 10) : DEFAULT_BATCH_SIZE;
+};
+
+const versionService = new VersionService(pool);
+
+/**
+ * Guards against overlapping runs when a batch takes longer than the schedule interval
+ */
+let isRunning = false;
+
+export interface ScheduledPublishResult {
+  published: number[];
+  failed: number;
+  errors: string[];
+}
+
+/**
+ * Publish a single due post by creating and publishing a content version
+ */
+async function publishPost(post: any): Promise<void> {
+  if (!post.site_id) {
+    throw new Error('The organization of the post has no site');
+  }
+
+  const versionResult = await versionService.createVersion(
+    {
+      site_id: post.site_id,
+      content_type: ContentType.POST,
+      content_id: post.id,
+      version_type: VersionType.PUBLISHED,
+      title: post.title,
+      slug: post.slug,
+      content: post.content || undefined,
+      excerpt: post.excerpt || undefined,
+      data: {
+        status: 'published',
+        category_id: post.category_id,
+        featured_image: post.featured_image,
+      },
+      meta_data: {
+        meta_title: post.meta_title,
+        meta_description: post.meta_description,
+      },
+      change_summary: `Scheduled publish (${new Date(post.scheduled_at).toISOString()})`,
+    },
+    post.author_id,
+    { bypassSiteAccess: true }
+  );
+
+  if (!versionResult.success || !versionResult.data) {
+    throw new Error(versionResult.error || 'Failed to create version');
+  }
+
+  // Scheduling a post already required it to be approved, so don't re-check workflow here
+  const publishResult = await versionService.publishVersion(versionResult.data.id, post.author_id, {
+    bypassWorkflow: true,
+    bypassSiteAccess: true,
+  });
+
+  if (!publishResult.success) {
+    throw new Error(publishResult.error || 'Failed to publish version');
+  }
+}
+
+/**
+ * Record a failed attempt and when to try the post again
+ */
+async function recordFailure(postId: number, message: string): Promise<void> {
+  try {
+    await pool.query(
+      `UPDATE posts
+       SET publish_attempts = publish_attempts + 1,
+           publish_error = $2,
+           next_publish_attempt_at = NOW() + make_interval(mins => POWER(2, publish_attempts)::int)
+       WHERE id = $1`,
+      [postId, message]
+    );
+  } catch (error: any) {
+    console.error(`[ScheduledPublish] Failed to record failure of post ${postId}:`, error.message);
+  }
+}
+
+/**
+ * Publish all posts that are due
+ * Exported for manual invocation and testing
+ */
+export async function runScheduledPublish(): Promise<ScheduledPublishResult> {
+  const result: ScheduledPublishResult = { published: [], failed: 0, errors: [] };
+
+  if (isRunning) {
+    console.log('[ScheduledPublish] Previous run still in progress, skipping');
+    return result;
+  }
+
+  isRunning = true;
+  const startTime = Date.now();
+
+  try {
+    const dueResult = await pool.query(
+      `SELECT p.id, ${contentSiteIdSql('p')} AS site_id, p.title, p.slug, p.content, p.excerpt,
+              p.featured_image, p.category_id, p.author_id, p.meta_title, p.meta_description,
+              p.scheduled_at, p.publish_attempts
+       FROM posts p
+       WHERE p.status = 'scheduled'
+         AND p.scheduled_at IS NOT NULL
+         AND p.scheduled_at <= NOW()
+         AND p.publish_attempts < $2
+         AND (p.next_publish_attempt_at IS NULL OR p.next_publish_attempt_at <= NOW())
+       ORDER BY p.scheduled_at ASC
+       LIMIT $1`,
+      [getBatchSize(), MAX_PUBLISH_ATTEMPTS]
+    );
+
+    for (const post of dueResult.rows) {
+      try {
+        await publishPost(post);
+        if (post.publish_attempts > 0) {
+          await pool.query(
+            'UPDATE posts SET publish_attempts = 0, publish_error = NULL, next_publish_attempt_at = NULL WHERE id = $1',
+            [post.id]
+          );
+        }
+        result.published.push(post.id);
+        console.log(`[ScheduledPublish] Published post ${post.id} ("${post.title}")`);
+      } catch (error: any) {
+        result.failed++;
+        result.errors.push(`Post ${post.id}: ${error.message}`);
+        console.error(`[ScheduledPublish] Failed to publish post ${post.id}:`, error.message);
+        await recordFailure(post.id, error.message);
+      }
+    }
+  } catch (error: any) {
+    result.errors.push(`Query exception: ${error.message}`);
+    console.error('[ScheduledPublish] Failed to load due posts:', error);
+  } finally {
+    isRunning = false;
+  }
+
+  if (result.published.length > 0 || result.failed > 0) {
+    const duration = Date.now() - startTime;
+    console.log(
+      `[ScheduledPublish] Completed in ${duration}ms. ` +
+      `Published: ${result.published.length}, Failed: ${result.failed}`
+    );
+  }
+
+  return result;
+}
+
+/**
+ * Create the scheduled publish cron job
+ * @returns The CronJob instance (not started), or null if disabled
+ */
+export function createScheduledPublishJob(): CronJob | null {
+  if (!isEnabled()) {
+    console.log('[ScheduledPublish] Job disabled via SCHEDULED_PUBLISH_ENABLED=false');
+    return null;
+  }
+
+  return new CronJob(
+    getSchedule(),
+    async () => {
+      try {
+        await runScheduledPublish();
+      } catch (error: any) {
+        console.error('[ScheduledPublish] Unhandled error in job execution:', error);
+      }
+    },
+    null, // onComplete
+    false, // Don't start automatically (caller decides)
+    'UTC'
+  );
+}
+
+/**
+ * Start the scheduled publish job
+ * Returns the job instance for testing/management
+ */
+export function startScheduledPublishJob(): CronJob | null {
+  const job = createScheduledPublishJob();
+
+  if (!job) {
+    return null;
+  }
+
+  job.start();
+  console.log(`[ScheduledPublish] Job started with schedule: ${getSchedule()} (UTC)`);
+
+  return job;
+}
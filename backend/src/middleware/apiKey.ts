@@ -0,0 +1,158 @@
+/**
+ * API Key Authentication Middleware
+ *
+ * Lets headless clients (static-site builds, integrations) call the API with
+ * an organization API key instead of a user session. Keys are accepted via
+ * the X-API-Key header or as a Bearer token starting with "cms_".
+ *
+ * Every authenticated API key request is metered against the organization's
+ * monthly api_calls quota.
+ *
+ * Routes opt in to API keys by using `authenticate` instead of
+ * `authenticateToken`, and must declare what a key needs with `requireScope`.
+ * Routes that keep `authenticateToken` remain user-only.
+ *
+ * Usage:
+ * ```typescript
+ * router.post('/', authenticate, requireScope('write:posts'), requireAuthor, handler);
+ * ```
+ */
+
+import { Request, Response, NextFunction } from 'express';
+import { authenticateToken } from './auth';
+import { checkOrganizationStatus } from './organizationStatus';
+import { apiKeyService, isApiKeyFormat } from '../services/ApiKeyService';
+import type { ApiKey, ApiKeyScopeName } from '../services/ApiKeyService';
+import { quotaService } from '../services/QuotaService';
+import { ServiceErrorCode } from '../types/versioning';
+
+// Extend Express Request type to include the authenticating API key
+declare global {
+  namespace Express {
+    interface Request {
+      apiKey?: ApiKey;
+    }
+  }
+}
+
+/**
+ * Extract an API key from the request headers, if one was sent
+ */
+export function extractApiKey(req: Request): string | null {
+  const headerKey = req.headers['x-api-key'];
+  if (typeof headerKey === 'string' && headerKey) {
+    return headerKey;
+  }
+
+  const bearer = req.headers.authorization?.split(' ')[1];
+  if (bearer && isApiKeyFormat(bearer)) {
+    return bearer;
+  }
+
+  return null;
+}
+
+/**
+ * Authenticate an API key and meter the call
+ *
+ * Populates req.apiKey and a req.user acting for the key's organization.
+ * Keys act organization-wide (admin role); what they may actually do is
+ * bounded by requireScope on the routes that accept them.
+ */
+export const authenticateApiKey = async (req: Request, res: Response, next: NextFunction) => {
+  const key = extractApiKey(req);
+
+  if (!key) {
+    return res.status(401).json({ error: 'API key required' });
+  }
+
+  try {
+    const result = await apiKeyService.verifyApiKey(key);
+    if (!result.success) {
+      return res.status(500).json({ error: 'Internal server error' });
+    }
+
+    const apiKey = result.data;
+    if (!apiKey) {
+      return res.status(401).json({ error: 'Invalid or revoked API key' });
+    }
+
+    // Writes are attributed to the key's creator; keys outlive deleted users
+    if (apiKey.created_by === null) {
+      return res.status(401).json({ error: 'The user who created this API key no longer exists, create a new key' });
+    }
+
+    const statusCheck = await checkOrganizationStatus(apiKey.organization_id);
+    if (!statusCheck.allowed) {
+      return res.status(403).json({
+        error: statusCheck.error,
+        code: statusCheck.code,
+      });
+    }
+
+    const quota = await quotaService.incrementQuota({
+      organizationId: apiKey.organization_id,
+      dimension: 'api_calls',
+    });
+
+    if (!quota.success) {
+      if (quota.errorCode === ServiceErrorCode.QUOTA_EXCEEDED) {
+        return res.status(429).json({
+          error: 'Monthly API call quota exceeded',
+          errorCode: ServiceErrorCode.QUOTA_EXCEEDED,
+        });
+      }
+      // Metering problems (e.g. uninitialized quota rows) shouldn't take headless reads down
+      console.error(`[ApiKey] Failed to meter api_calls for org ${apiKey.organization_id}: ${quota.error}`);
+    }
+
+    req.apiKey = apiKey;
+    req.organizationId = apiKey.organization_id;
+    req.user = {
+      userId: apiKey.created_by,
+      email: '',
+      role: 'admin',
+      organizationId: apiKey.organization_id,
+    };
+
+    next();
+  } catch (error) {
+    console.error('[ApiKey] Authentication error:', error);
+    return res.status(500).json({ error: 'Internal server error' });
+  }
+};
+
+/**
+ * Authenticate with either an API key or a user JWT
+ */
+export const authenticate = (req: Request, res: Response, next: NextFunction) => {
+  if (extractApiKey(req)) {
+    return authenticateApiKey(req, res, next);
+  }
+  return authenticateToken(req, res, next);
+};
+
+/**
+ * Check whether an API key grants a scope
+ */
+export function hasScope(apiKey: ApiKey, scope: ApiKeyScopeName): boolean {
+  return apiKey.scopes.includes(scope);
+}
+
+/**
+ * Require a scope for API key requests
+ * User (JWT) requests pass through and are governed by their role as before.
+ */
+export const requireScope = (scope: ApiKeyScopeName) => {
+  return (req: Request, res: Response, next: NextFunction) => {
+    if (req.apiKey && !hasScope(req.apiKey, scope)) {
+      return res.status(403).json({
+        error: 'API key is missing the required scope',
+        code: 'INSUFFICIENT_SCOPE',
+        requiredScope: scope,
+      });
+    }
+
+    next();
+  };
+};
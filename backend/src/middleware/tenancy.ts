@@ -0,0 +1,78 @@
+/**
+ * Tenant Scoping Middleware
+ *
+ * Resolves the organization an authenticated request acts on behalf of and
+ * exposes it as req.organizationId. Content routes use it to scope every
+ * read and write to the caller's organization and to stamp new rows.
+ *
+ * This middleware should be applied after authenticateToken to ensure
+ * req.user is populated.
+ *
+ * Resolution order:
+ * 1. organizationId claim in the JWT
+ * 2. req.organizationId set by earlier middleware
+ * 3. users.current_organization_id (legacy JWTs without the claim)
+ */
+
+import { Request, Response, NextFunction } from 'express';
+import { query } from '../utils/database';
+
+/**
+ * Resolve the organization for the current request
+ *
+ * @returns Organization ID, or null when the user has no organization
+ */
+export async function resolveOrganizationId(req: Request): Promise<number | null> {
+  if (!req.user) {
+    return null;
+  }
+
+  const fromRequest = req.user.organizationId || req.organizationId;
+  if (fromRequest) {
+    return fromRequest;
+  }
+
+  // Legacy JWT without organizationId - look up from database
+  const { rows } = await query(
+    'SELECT current_organization_id FROM users WHERE id = $1',
+    [req.user.userId]
+  );
+
+  return rows[0]?.current_organization_id || null;
+}
+
+/**
+ * Require an organization context for the request
+ *
+ * Sets req.organizationId (and req.user.organizationId for legacy tokens)
+ * so handlers can scope queries without repeating the lookup.
+ *
+ * Usage:
+ * ```typescript
+ * router.get('/', authenticateToken, requireOrganization, handler);
+ * ```
+ */
+export const requireOrganization = async (req: Request, res: Response, next: NextFunction) => {
+  try {
+    if (!req.user) {
+      return res.status(401).json({ error: 'Authentication required' });
+    }
+
+    const organizationId = await resolveOrganizationId(req);
+
+    if (!organizationId) {
+      return res.status(403).json({
+        error: 'Organization context required',
+        code: 'ORG_CONTEXT_REQUIRED',
+      });
+    }
+
+    req.organizationId = organizationId;
+    req.user.organizationId = organizationId;
+
+    next();
+  } catch (error) {
+    console.error('[Tenancy] Failed to resolve organization:', error);
+    return res.status(500).json({ error: 'Internal server error' });
+  }
+};
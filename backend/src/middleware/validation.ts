@@ -1,5 +1,6 @@
 import { Request, Response, NextFunction } from 'express';
 import Joi from 'joi';
+import { LOCALE_PATTERN } from '../utils/locale';
 
 export const validate = (schema: Joi.ObjectSchema) => {
   return (req: Request, res: Response, next: NextFunction) => {
@@ -51,6 +52,7 @@ export const signupSchema = Joi.object({
 export const createPostSchema = Joi.object({
   title: Joi.string().max(255).required(),
   slug: Joi.string().max(255).optional(),
+  locale: Joi.string().pattern(LOCALE_PATTERN).optional(),
   excerpt: Joi.string().optional(),
   content: Joi.string().optional(),
   // featured_image removed in favor of embedded media
@@ -59,9 +61,14 @@ export const createPostSchema = Joi.object({
   meta_title: Joi.string().max(255).optional(),
   meta_description: Joi.string().optional(),
   seo_indexed: Joi.boolean().optional(),
-  scheduled_at: Joi.alternatives()
-    .try(Joi.date(), Joi.string().allow('', null))
-    .optional(),
+  // Scheduled posts need a publish time for the scheduled publish job to pick them up
+  scheduled_at: Joi.when('status', {
+    is: 'scheduled',
+    then: Joi.date().required(),
+    otherwise: Joi.alternatives()
+      .try(Joi.date(), Joi.string().allow('', null))
+      .optional(),
+  }),
   featured: Joi.boolean().optional(),
   tags: Joi.array().items(Joi.string()).optional()
 });
@@ -81,40 +88,58 @@ export const updatePostSchema = Joi.object({
     .try(Joi.date(), Joi.string().allow('', null))
     .optional(),
   featured: Joi.boolean().optional(),
-  tags: Joi.array().items(Joi.string()).optional()
-});
+  tags: Joi.array().items(Joi.string()).optional(),
+  base_version_number: Joi.number().integer().min(0).optional(),
+  base_content_hash: Joi.string().hex().length(64).optional()
+}).oxor('base_version_number', 'base_content_hash');
 
 // Category validation schemas
+// Category slugs are joined into archive paths such as tech/javascript
+const categorySlug = Joi.string().max(100).pattern(/^[^/]+$/).messages({
+  'string.pattern.base': 'Category slug cannot contain /'
+});
+
 export const createCategorySchema = Joi.object({
   name: Joi.string().max(100).required(),
-  slug: Joi.string().max(100).optional(),
+  slug: categorySlug.optional(),
   description: Joi.string().optional(),
-  seo_indexed: Joi.boolean().optional()
+  seo_indexed: Joi.boolean().optional(),
+  parent_id: Joi.number().integer().positive().allow(null).optional()
 });
 
 export const updateCategorySchema = Joi.object({
   name: Joi.string().max(100).optional(),
-  slug: Joi.string().max(100).optional(),
+  slug: categorySlug.optional(),
   description: Joi.string().optional(),
-  seo_indexed: Joi.boolean().optional()
+  seo_indexed: Joi.boolean().optional(),
+  parent_id: Joi.number().integer().positive().allow(null).optional()
+});
+
+// Page slugs are joined into paths such as about/team
+const pageSlug = Joi.string().max(255).pattern(/^[^/]+$/).messages({
+  'string.pattern.base': 'Page slug cannot contain /'
 });
 
 // Page validation schemas
 export const createPageSchema = Joi.object({
   title: Joi.string().max(255).required(),
-  slug: Joi.string().max(255).optional(),
+  slug: pageSlug.optional(),
+  parent_id: Joi.number().integer().positive().allow(null).optional(),
+  locale: Joi.string().pattern(LOCALE_PATTERN).optional(),
   content: Joi.string().optional(),
   template: Joi.string().max(100).optional(),
   meta_title: Joi.string().max(255).optional(),
   meta_description: Joi.string().optional(),
   seo_indexed: Joi.boolean().optional(),
   published: Joi.boolean().optional(),
+  data: Joi.object().unknown(true).optional(),
   domain_id: Joi.number().integer().optional()
 });
 
 export const updatePageSchema = Joi.object({
   title: Joi.string().max(255).optional(),
-  slug: Joi.string().max(255).optional(),
+  slug: pageSlug.optional(),
+  parent_id: Joi.number().integer().positive().allow(null).optional(),
   content: Joi.string().optional(),
   template: Joi.string().max(100).optional(),
   meta_title: Joi.string().max(255).optional(),
@@ -122,6 +147,65 @@ export const updatePageSchema = Joi.object({
   seo_indexed: Joi.boolean().optional(),
   published: Joi.boolean().optional(),
   data: Joi.object().unknown(true).optional(),
+  base_version_number: Joi.number().integer().min(0).optional(),
+  base_content_hash: Joi.string().hex().length(64).optional(),
+}).oxor('base_version_number', 'base_content_hash');
+
+// New parent and sibling order of pages dragged in the page tree
+export const reorderPagesSchema = Joi.object({
+  items: Joi.array().items(
+    Joi.object({
+      id: Joi.number().integer().positive().required(),
+      parent_id: Joi.number().integer().positive().allow(null).required(),
+      position: Joi.number().integer().min(0).required()
+    })
+  ).min(1).required()
+});
+
+// Media library validation schemas
+const mediaIds = Joi.array().items(Joi.number().integer().positive()).min(1).max(500).required();
+const mediaTagNames = Joi.array().items(Joi.string().trim().max(100)).max(50);
+const mediaFolderId = Joi.number().integer().positive().allow(null);
+
+export const updateMediaSchema = Joi.object({
+  alt_text: Joi.string().max(255).allow('', null).optional(),
+  caption: Joi.string().allow('', null).optional(),
+  credit: Joi.string().max(255).allow('', null).optional(),
+  license: Joi.string().max(100).allow('', null).optional(),
+  folder_id: mediaFolderId.optional(),
+  tags: mediaTagNames.optional()
+});
+
+export const createMediaFolderSchema = Joi.object({
+  name: Joi.string().trim().max(100).required(),
+  parent_id: mediaFolderId.optional()
+});
+
+export const updateMediaFolderSchema = Joi.object({
+  name: Joi.string().trim().max(100).optional(),
+  parent_id: mediaFolderId.optional()
+});
+
+export const bulkMoveMediaSchema = Joi.object({
+  ids: mediaIds,
+  folder_id: mediaFolderId.required()
+});
+
+export const bulkTagMediaSchema = Joi.object({
+  ids: mediaIds,
+  add: mediaTagNames.optional(),
+  remove: mediaTagNames.optional()
+}).or('add', 'remove');
+
+export const bulkDeleteMediaSchema = Joi.object({
+  ids: mediaIds,
+  // Also delete files that are still used in content
+  force: Joi.boolean().optional()
+});
+
+export const mergeMediaSchema = Joi.object({
+  keep_id: Joi.number().integer().positive().required(),
+  merge_ids: mediaIds
 });
 
 // Templates validation schemas
@@ -1,7 +1,9 @@
 import express from 'express';
 import { Request, Response } from 'express';
 import { query } from '../utils/database';
-import { authenticateToken } from '../middleware/auth';
+import { authenticate, requireScope } from '../middleware/apiKey';
+import type { ApiKeyScopeName } from '../services/ApiKeyService';
+import { requireOrganization } from '../middleware/tenancy';
 import {
   listPublishingTargets,
   getPublishingTargetById,
@@ -14,13 +16,39 @@ import {
   getDistributionMetrics,
   getDistributionQueue,
 } from '../db/distribution';
+import { listTags, renameTag, mergeTags, deleteUnusedTags } from '../db/tags';
 import DistributionService from '../services/DistributionService';
+import { workflowService } from '../services/WorkflowService';
+import { ContentType } from '../types/versioning';
+import { invalidatePublicCaches } from '../utils/publicCache';
+import { searchQuerySql, searchRankSql, searchHeadlineSql } from '../utils/search';
+import { generateSlug } from '../utils/slug';
 
 const router = express.Router();
 const distributionService = new DistributionService();
 
-// All admin routes require authentication
-router.use(authenticateToken);
+// API keys may only read content listings; every other admin route stays user-only
+const API_KEY_READ_SCOPES: Record<string, ApiKeyScopeName> = {
+  posts: 'read:posts',
+  pages: 'read:pages',
+  categories: 'read:categories',
+};
+
+// All admin routes require authentication and act on the caller's organization
+router.use(authenticate);
+router.use((req: Request, res: Response, next) => {
+  if (!req.apiKey) {
+    return next();
+  }
+
+  const scope = req.method === 'GET' ? API_KEY_READ_SCOPES[req.path.split('/')[1]] : undefined;
+  if (!scope) {
+    return res.status(403).json({ error: 'Endpoint not available to API keys' });
+  }
+
+  return requireScope(scope)(req, res, next);
+});
+router.use(requireOrganization);
 
 // Admin dashboard stats
 router.get('/dashboard', async (req: Request, res: Response) => {
@@ -30,22 +58,26 @@ router.get('/dashboard', async (req: Request, res: Response) => {
       return res.status(403).json({ error: 'Access denied' });
     }
 
+    const organizationId = req.organizationId;
+
     // Get total counts
     const [postsResult, pagesResult, categoriesResult, usersResult] = await Promise.all([
-      query('SELECT COUNT(*) as count FROM posts'),
-      query('SELECT COUNT(*) as count FROM pages'),
-      query('SELECT COUNT(*) as count FROM categories'),
-      query('SELECT COUNT(*) as count FROM users')
+      query('SELECT COUNT(*) as count FROM posts WHERE organization_id = $1', [organizationId]),
+      query('SELECT COUNT(*) as count FROM pages WHERE organization_id = $1', [organizationId]),
+      query('SELECT COUNT(*) as count FROM categories WHERE organization_id = $1', [organizationId]),
+      query('SELECT COUNT(*) as count FROM organization_members WHERE organization_id = $1 AND deleted_at IS NULL', [organizationId])
     ]);
 
     // Get recent posts
     const recentPostsResult = await query(
-      'SELECT p.id, p.title, p.status, p.created_at, u.first_name, u.last_name FROM posts p LEFT JOIN users u ON p.author_id = u.id ORDER BY p.created_at DESC LIMIT 5'
+      'SELECT p.id, p.title, p.status, p.created_at, u.first_name, u.last_name FROM posts p LEFT JOIN users u ON p.author_id = u.id WHERE p.organization_id = $1 ORDER BY p.created_at DESC LIMIT 5',
+      [organizationId]
     );
 
     // Get posts by status
     const postsByStatusResult = await query(
-      'SELECT status, COUNT(*) as count FROM posts GROUP BY status'
+      'SELECT status, COUNT(*) as count FROM posts WHERE organization_id = $1 GROUP BY status',
+      [organizationId]
     );
 
     const postsByStatus: { [key: string]: number } = {};
@@ -55,7 +87,8 @@ router.get('/dashboard', async (req: Request, res: Response) => {
 
     // Get popular posts (by view count)
     const popularPostsResult = await query(
-      'SELECT p.id, p.title, p.view_count, p.created_at FROM posts p WHERE p.status = \'published\' ORDER BY p.view_count DESC LIMIT 5'
+      'SELECT p.id, p.title, p.view_count, p.created_at FROM posts p WHERE p.organization_id = $1 AND p.status = \'published\' ORDER BY p.view_count DESC LIMIT 5',
+      [organizationId]
     );
 
     const stats = {
@@ -94,9 +127,9 @@ router.get('/posts', async (req: Request, res: Response) => {
 
     const offset = (Number(page) - 1) * Number(limit);
     
-    let whereClause = "WHERE 1=1";
-    const params: any[] = [];
-    let paramCount = 0;
+    let whereClause = "WHERE p.organization_id = $1";
+    const params: any[] = [req.organizationId];
+    let paramCount = 1;
 
     // If not admin, only show user's own posts
     if (req.user.role === 'author') {
@@ -104,9 +137,16 @@ router.get('/posts', async (req: Request, res: Response) => {
       params.push(req.user.userId);
     }
 
+    // Ranked full-text search; the org's posts can be in several languages
+    let searchColumns = '';
+    let tsQuery = '';
     if (search) {
-      whereClause += ` AND (p.title ILIKE $${++paramCount} OR p.excerpt ILIKE $${paramCount} OR p.content ILIKE $${paramCount})`;
-      params.push(`%${search}%`);
+      tsQuery = searchQuerySql(`$${++paramCount}`, 'p.locale');
+      whereClause += ` AND p.search_vector @@ ${tsQuery}`;
+      params.push(search);
+      searchColumns = `,
+        ${searchRankSql('p.search_vector', tsQuery)} as search_rank,
+        ${searchHeadlineSql('p.content', 'p.locale', tsQuery)} as search_snippet`;
     }
 
     if (status) {
@@ -124,11 +164,19 @@ router.get('/posts', async (req: Request, res: Response) => {
       params.push(author);
     }
 
+    // Scheduled posts are listed in the order they will go live
+    let orderBy = status === 'scheduled'
+      ? 'p.scheduled_at ASC NULLS LAST'
+      : 'p.created_at DESC';
+    if (tsQuery) {
+      orderBy = `search_rank DESC, ${orderBy}`;
+    }
+
     const postsQuery = `
       SELECT 
         p.id, p.title, p.slug, p.excerpt, p.featured_image, p.status,
-        p.created_at, p.updated_at, p.view_count, p.featured,
-        c.name as category_name, c.slug as category_slug,
+        p.scheduled_at, p.created_at, p.updated_at, p.view_count, p.featured,
+        c.name as category_name, c.slug as category_slug, c.path as category_path,
         u.first_name, u.last_name, u.email as author_email,
         COALESCE(
           JSON_AGG(
@@ -137,15 +185,15 @@ router.get('/posts', async (req: Request, res: Response) => {
             END
           ) FILTER (WHERE t.id IS NOT NULL), 
           '[]'
-        ) as tags
+        ) as tags${searchColumns}
       FROM posts p
       LEFT JOIN categories c ON p.category_id = c.id
       LEFT JOIN users u ON p.author_id = u.id
       LEFT JOIN post_tags pt ON p.id = pt.post_id
       LEFT JOIN tags t ON pt.tag_id = t.id
       ${whereClause}
-      GROUP BY p.id, c.name, c.slug, u.first_name, u.last_name, u.email
-      ORDER BY p.created_at DESC
+      GROUP BY p.id, c.name, c.slug, c.path, u.first_name, u.last_name, u.email
+      ORDER BY ${orderBy}
       LIMIT $${++paramCount} OFFSET $${++paramCount}
     `;
 
@@ -194,11 +242,15 @@ router.get('/posts/:id', async (req: Request, res: Response) => {
 
     const { id } = req.params;
     const result = await query(
-      `SELECT p.*, c.name as category_name, c.slug as category_slug
+      `SELECT p.*, c.name as category_name, c.slug as category_slug, c.path as category_path, v.latest_version_number
        FROM posts p
        LEFT JOIN categories c ON p.category_id = c.id
-       WHERE p.id = $1`,
-      [id]
+       LEFT JOIN LATERAL (
+         SELECT MAX(version_number) as latest_version_number FROM content_versions
+         WHERE content_type = 'post' AND content_id = p.id
+       ) v ON true
+       WHERE p.id = $1 AND p.organization_id = $2`,
+      [id, req.organizationId]
     );
 
     if (result.rows.length === 0) {
@@ -227,12 +279,13 @@ router.get('/categories', async (req: Request, res: Response) => {
         COUNT(CASE WHEN p.status = 'published' THEN 1 END) as published_posts,
         COUNT(CASE WHEN p.status = 'draft' THEN 1 END) as draft_posts
       FROM categories c
-      LEFT JOIN posts p ON c.id = p.category_id
+      LEFT JOIN posts p ON c.id = p.category_id AND p.organization_id = c.organization_id
+      WHERE c.organization_id = $1
       GROUP BY c.id
       ORDER BY c.name ASC
     `;
 
-    const result = await query(categoriesQuery);
+    const result = await query(categoriesQuery, [req.organizationId]);
     
     res.json({
       data: result.rows
@@ -243,6 +296,100 @@ router.get('/categories', async (req: Request, res: Response) => {
   }
 });
 
+// Tags with usage counts. Tags are created implicitly when posts are saved,
+// so these endpoints are the only way to tidy them up.
+router.get('/tags', async (req: Request, res: Response) => {
+  try {
+    if (!req.user || !['admin', 'editor', 'author'].includes(req.user.role)) {
+      return res.status(403).json({ error: 'Access denied' });
+    }
+
+    const tags = await listTags(req.organizationId!);
+    res.json({ data: tags });
+  } catch (error) {
+    console.error('Admin get tags error:', error);
+    res.status(500).json({ error: 'Internal server error' });
+  }
+});
+
+// Rename a tag; its slug follows the new name
+router.put('/tags/:id', async (req: Request, res: Response) => {
+  try {
+    if (!req.user || !['admin', 'editor'].includes(req.user.role)) {
+      return res.status(403).json({ error: 'Access denied' });
+    }
+
+    const tagId = Number(req.params.id);
+    const name = typeof req.body?.name === 'string' ? req.body.name.trim() : '';
+    if (Number.isNaN(tagId)) {
+      return res.status(400).json({ error: 'Invalid tag id' });
+    }
+    if (!name || name.length > 100 || !generateSlug(name)) {
+      return res.status(400).json({ error: 'A tag name of up to 100 characters is required' });
+    }
+
+    const tag = await renameTag(req.organizationId!, tagId, name);
+    if (!tag) {
+      return res.status(404).json({ error: 'Tag not found' });
+    }
+
+    invalidatePublicCaches();
+    res.json({ data: tag });
+  } catch (error: any) {
+    if (error?.code === '23505') {
+      return res.status(409).json({ error: 'Another tag already has this name; merge the tags instead' });
+    }
+    console.error('Rename tag error:', error);
+    res.status(500).json({ error: 'Internal server error' });
+  }
+});
+
+// Merge tags into one, moving their posts over
+router.post('/tags/merge', async (req: Request, res: Response) => {
+  try {
+    if (!req.user || !['admin', 'editor'].includes(req.user.role)) {
+      return res.status(403).json({ error: 'Access denied' });
+    }
+
+    const { sourceIds, targetId } = req.body || {};
+    if (!Number.isInteger(targetId) || !Array.isArray(sourceIds) || sourceIds.length === 0 ||
+        !sourceIds.every((id: unknown) => Number.isInteger(id))) {
+      return res.status(400).json({ error: 'Source tag IDs and a target tag ID are required' });
+    }
+
+    const result = await mergeTags(req.organizationId!, sourceIds, targetId);
+    if (!result) {
+      return res.status(404).json({ error: 'Target tag not found' });
+    }
+
+    invalidatePublicCaches();
+    res.json({ message: `Merged ${result.merged} tag${result.merged === 1 ? '' : 's'}`, merged: result.merged });
+  } catch (error) {
+    console.error('Merge tags error:', error);
+    res.status(500).json({ error: 'Internal server error' });
+  }
+});
+
+// Delete unused tags: the given ones, or every unused tag when no IDs are sent
+router.delete('/tags/unused', async (req: Request, res: Response) => {
+  try {
+    if (!req.user || !['admin', 'editor'].includes(req.user.role)) {
+      return res.status(403).json({ error: 'Access denied' });
+    }
+
+    const { ids } = req.body || {};
+    if (ids !== undefined && (!Array.isArray(ids) || !ids.every((id: unknown) => Number.isInteger(id)))) {
+      return res.status(400).json({ error: 'Tag IDs must be a list of integers' });
+    }
+
+    const deleted = await deleteUnusedTags(req.organizationId!, ids);
+    res.json({ message: `Deleted ${deleted} unused tag${deleted === 1 ? '' : 's'}`, deleted });
+  } catch (error) {
+    console.error('Delete unused tags error:', error);
+    res.status(500).json({ error: 'Internal server error' });
+  }
+});
+
 // Admin pages endpoint - returns ALL pages (including unpublished)
 router.get('/pages', async (req: Request, res: Response) => {
   try {
@@ -253,21 +400,31 @@ router.get('/pages', async (req: Request, res: Response) => {
 
     const {
       page = 1,
-      limit = 10,
       search,
       template,
-      published
+      published,
+      tree
     } = req.query;
 
-    const offset = (Number(page) - 1) * Number(limit);
+    // The page tree needs every page at once, in sibling order
+    const asTree = String(tree) === 'true';
+    const limit = asTree ? null : Number(req.query.limit || 10);
+    const offset = asTree ? 0 : (Number(page) - 1) * Number(limit);
     
-    let whereClause = "WHERE 1=1";
-    const params: any[] = [];
-    let paramCount = 0;
+    let whereClause = "WHERE p.organization_id = $1";
+    const params: any[] = [req.organizationId];
+    let paramCount = 1;
 
+    let searchColumns = '';
+    let orderBy = asTree ? 'p.position ASC, p.title ASC' : 'p.created_at DESC';
     if (search) {
-      whereClause += ` AND (p.title ILIKE $${++paramCount} OR p.content ILIKE $${paramCount})`;
-      params.push(`%${search}%`);
+      const tsQuery = searchQuerySql(`$${++paramCount}`, 'p.locale');
+      whereClause += ` AND p.search_vector @@ ${tsQuery}`;
+      params.push(search);
+      searchColumns = `,
+        ${searchRankSql('p.search_vector', tsQuery)} as search_rank,
+        ${searchHeadlineSql('p.content', 'p.locale', tsQuery)} as search_snippet`;
+      orderBy = `search_rank DESC, ${orderBy}`;
     }
 
     if (template) {
@@ -282,12 +439,12 @@ router.get('/pages', async (req: Request, res: Response) => {
 
     const pagesQuery = `
       SELECT 
-        p.id, p.title, p.slug, p.template, p.published,
+        p.id, p.title, p.slug, p.path, p.parent_id, p.position, p.template, p.published,
         p.meta_title, p.meta_description, p.seo_indexed,
-        p.created_at, p.updated_at
+        p.created_at, p.updated_at${searchColumns}
       FROM pages p
       ${whereClause}
-      ORDER BY p.created_at DESC
+      ORDER BY ${orderBy}
       LIMIT $${++paramCount} OFFSET $${++paramCount}
     `;
 
@@ -306,13 +463,13 @@ router.get('/pages', async (req: Request, res: Response) => {
 
     const pages = pagesResult.rows;
     const totalCount = parseInt(countResult.rows[0].count);
-    const totalPages = Math.ceil(totalCount / Number(limit));
+    const totalPages = limit ? Math.ceil(totalCount / limit) : 1;
 
     res.json({
       data: pages,
       pagination: {
         page: Number(page),
-        limit: Number(limit),
+        limit: limit ?? totalCount,
         totalCount,
         totalPages,
         hasNextPage: Number(page) < totalPages,
@@ -334,8 +491,14 @@ router.get('/pages/:id', async (req: Request, res: Response) => {
 
     const { id } = req.params;
     const result = await query(
-      `SELECT * FROM pages WHERE id = $1`,
-      [id]
+      `SELECT pg.*, v.latest_version_number
+       FROM pages pg
+       LEFT JOIN LATERAL (
+         SELECT MAX(version_number) as latest_version_number FROM content_versions
+         WHERE content_type = 'page' AND content_id = pg.id
+       ) v ON true
+       WHERE pg.id = $1 AND pg.organization_id = $2`,
+      [id, req.organizationId]
     );
 
     if (result.rows.length === 0) {
@@ -357,7 +520,12 @@ router.get('/users', async (req: Request, res: Response) => {
     }
 
     const result = await query(
-      'SELECT id, email, first_name, last_name, role, created_at FROM users ORDER BY created_at DESC'
+      `SELECT u.id, u.email, u.first_name, u.last_name, u.role, u.created_at
+       FROM users u
+       JOIN organization_members om ON om.user_id = u.id
+       WHERE om.organization_id = $1 AND om.deleted_at IS NULL
+       ORDER BY u.created_at DESC`,
+      [req.organizationId]
     );
 
     res.json({ users: result.rows });
@@ -383,8 +551,14 @@ router.put('/users/:id/role', async (req: Request, res: Response) => {
     }
 
     const result = await query(
-      'UPDATE users SET role = $1, updated_at = CURRENT_TIMESTAMP WHERE id = $2 RETURNING id, email, first_name, last_name, role',
-      [role, id]
+      `UPDATE users SET role = $1, updated_at = CURRENT_TIMESTAMP
+       WHERE id = $2
+         AND EXISTS (
+           SELECT 1 FROM organization_members om
+           WHERE om.user_id = users.id AND om.organization_id = $3 AND om.deleted_at IS NULL
+         )
+       RETURNING id, email, first_name, last_name, role`,
+      [role, id, req.organizationId]
     );
 
     if (result.rows.length === 0) {
@@ -415,7 +589,16 @@ router.delete('/users/:id', async (req: Request, res: Response) => {
       return res.status(400).json({ error: 'Cannot delete your own account' });
     }
 
-    const result = await query('DELETE FROM users WHERE id = $1 RETURNING id', [id]);
+    const result = await query(
+      `DELETE FROM users
+       WHERE id = $1
+         AND EXISTS (
+           SELECT 1 FROM organization_members om
+           WHERE om.user_id = users.id AND om.organization_id = $2 AND om.deleted_at IS NULL
+         )
+       RETURNING id`,
+      [id, req.organizationId]
+    );
 
     if (result.rows.length === 0) {
       return res.status(404).json({ error: 'User not found' });
@@ -439,27 +622,50 @@ router.post('/posts/bulk', async (req: Request, res: Response) => {
 
     const userId = req.user?.userId;
     const userRole = req.user?.role;
+    const organizationId = req.organizationId;
 
     let query_str = '';
     let values: any[] = [];
+    let publishedIds: number[] = [];
 
     switch (action) {
-      case 'publish':
-        query_str = 'UPDATE posts SET status = \'published\', updated_at = CURRENT_TIMESTAMP WHERE id = ANY($1)';
-        values = [postIds];
+      case 'publish': {
+        // With editorial workflow, each post must match an approved version
+        const pending = await query(
+          'SELECT id, title, content, excerpt FROM posts WHERE id = ANY($1) AND organization_id = $2 AND status != \'published\'',
+          [postIds, organizationId]
+        );
+        const unapproved: number[] = [];
+        for (const post of pending.rows) {
+          const workflowCheck = await workflowService.canPublishContent(organizationId!, ContentType.POST, post.id, post);
+          if (!workflowCheck.success) {
+            return res.status(500).json({ error: 'Internal server error' });
+          }
+          if (!workflowCheck.data) {
+            unapproved.push(post.id);
+          }
+        }
+        if (unapproved.length > 0) {
+          return res.status(403).json({ error: 'Some posts must be approved before they can be published', postIds: unapproved });
+        }
+
+        query_str = 'UPDATE posts SET status = \'published\', updated_at = CURRENT_TIMESTAMP WHERE id = ANY($1) AND organization_id = $2';
+        values = [postIds, organizationId];
+        publishedIds = pending.rows.map((post: { id: number }) => post.id);
         break;
+      }
       case 'draft':
-        query_str = 'UPDATE posts SET status = \'draft\', updated_at = CURRENT_TIMESTAMP WHERE id = ANY($1)';
-        values = [postIds];
+        query_str = 'UPDATE posts SET status = \'draft\', updated_at = CURRENT_TIMESTAMP WHERE id = ANY($1) AND organization_id = $2';
+        values = [postIds, organizationId];
         break;
       case 'delete':
         // Only admin can delete, or author can delete their own posts
         if (userRole === 'admin') {
-          query_str = 'DELETE FROM posts WHERE id = ANY($1)';
-          values = [postIds];
+          query_str = 'DELETE FROM posts WHERE id = ANY($1) AND organization_id = $2';
+          values = [postIds, organizationId];
         } else {
-          query_str = 'DELETE FROM posts WHERE id = ANY($1) AND author_id = $2';
-          values = [postIds, userId];
+          query_str = 'DELETE FROM posts WHERE id = ANY($1) AND organization_id = $2 AND author_id = $3';
+          values = [postIds, organizationId, userId];
         }
         break;
       default:
@@ -468,6 +674,10 @@ router.post('/posts/bulk', async (req: Request, res: Response) => {
 
     await query(query_str, values);
 
+    for (const postId of publishedIds) {
+      await workflowService.markContentPublished(ContentType.POST, postId);
+    }
+
     res.json({ message: `Bulk ${action} completed successfully` });
   } catch (error) {
     console.error('Bulk action error:', error);
@@ -482,7 +692,7 @@ router.get('/distribution/targets', async (req: Request, res: Response) => {
       return res.status(403).json({ error: 'Access denied' });
     }
 
-    const targets = await listPublishingTargets();
+    const targets = await listPublishingTargets(req.organizationId!);
     res.json({ data: targets });
   } catch (error) {
     console.error('List publishing targets error:', error);
@@ -508,7 +718,7 @@ router.post('/distribution/targets', async (req: Request, res: Response) => {
       default_payload,
       is_active,
       rate_limit_per_hour,
-    });
+    }, req.organizationId!);
 
     res.status(201).json({ data: target });
   } catch (error: any) {
@@ -531,7 +741,7 @@ router.put('/distribution/targets/:id', async (req: Request, res: Response) => {
       return res.status(400).json({ error: 'Invalid target id' });
     }
 
-    const updated = await updatePublishingTarget(targetId, req.body || {});
+    const updated = await updatePublishingTarget(targetId, req.organizationId!, req.body || {});
     if (!updated) {
       return res.status(404).json({ error: 'Publishing target not found' });
     }
@@ -554,7 +764,7 @@ router.delete('/distribution/targets/:id', async (req: Request, res: Response) =
       return res.status(400).json({ error: 'Invalid target id' });
     }
 
-    const deleted = await deletePublishingTarget(targetId);
+    const deleted = await deletePublishingTarget(targetId, req.organizationId!);
     if (!deleted) {
       return res.status(404).json({ error: 'Publishing target not found' });
     }
@@ -578,6 +788,7 @@ router.get('/distribution/schedules', async (req: Request, res: Response) => {
     const schedules = await listPublishingSchedules({
       postId: postId && !Number.isNaN(postId) ? postId : undefined,
       status,
+      organizationId: req.organizationId,
     });
 
     res.json({ data: schedules });
@@ -615,6 +826,14 @@ router.post('/distribution/schedules', async (req: Request, res: Response) => {
       return res.status(400).json({ error: 'Invalid scheduled date' });
     }
 
+    if (!(await postBelongsToOrganization(resolvedPostId, req.organizationId!))) {
+      return res.status(404).json({ error: 'Post not found' });
+    }
+
+    if (!(await getPublishingTargetById(resolvedTargetId, req.organizationId!))) {
+      return res.status(404).json({ error: 'Publishing target not found' });
+    }
+
     const schedule = await createPublishingSchedule({
       post_id: resolvedPostId,
       target_id: resolvedTargetId,
@@ -641,6 +860,10 @@ router.delete('/distribution/schedules/:id', async (req: Request, res: Response)
       return res.status(400).json({ error: 'Invalid schedule id' });
     }
 
+    if (!(await scheduleBelongsToOrganization(scheduleId, req.organizationId!))) {
+      return res.status(404).json({ error: 'Publishing schedule not found' });
+    }
+
     const removed = await removePublishingSchedule(scheduleId);
     if (!removed) {
       return res.status(404).json({ error: 'Publishing schedule not found' });
@@ -664,6 +887,10 @@ router.post('/distribution/schedules/:id/dispatch', async (req: Request, res: Re
       return res.status(400).json({ error: 'Invalid schedule id' });
     }
 
+    if (!(await scheduleBelongsToOrganization(scheduleId, req.organizationId!))) {
+      return res.status(404).json({ error: 'Publishing schedule not found' });
+    }
+
     const { requestAiAssets, customMessage } = req.body || {};
     const result = await distributionService.dispatchSchedule(scheduleId, { requestAiAssets, customMessage });
 
@@ -692,9 +919,13 @@ router.post('/distribution/dispatch', async (req: Request, res: Response) => {
       return res.status(400).json({ error: 'At least one targetId is required' });
     }
 
+    if (!(await postBelongsToOrganization(resolvedPostId, req.organizationId!))) {
+      return res.status(404).json({ error: 'Post not found' });
+    }
+
     const dispatches = await Promise.all(
       ids.map(async (targetId) => {
-        const target = await getPublishingTargetById(targetId);
+        const target = await getPublishingTargetById(targetId, req.organizationId!);
         if (!target || !target.is_active) {
           return { targetId, error: 'Target inactive or missing' };
         }
@@ -722,7 +953,10 @@ router.get('/distribution/metrics', async (req: Request, res: Response) => {
     }
 
     const postId = req.query.postId ? Number(req.query.postId) : undefined;
-    const metrics = await getDistributionMetrics({ postId: postId && !Number.isNaN(postId) ? postId : undefined });
+    const metrics = await getDistributionMetrics({
+      postId: postId && !Number.isNaN(postId) ? postId : undefined,
+      organizationId: req.organizationId,
+    });
 
     res.json({ data: metrics });
   } catch (error) {
@@ -738,7 +972,7 @@ router.get('/distribution/queue', async (req: Request, res: Response) => {
     }
 
     const limit = req.query.limit ? Number(req.query.limit) : 50;
-    const queue = await getDistributionQueue(Number.isNaN(limit) ? 50 : limit);
+    const queue = await getDistributionQueue(Number.isNaN(limit) ? 50 : limit, req.organizationId);
     res.json({ data: queue });
   } catch (error) {
     console.error('Distribution queue error:', error);
@@ -757,6 +991,10 @@ router.post('/distribution/logs/:id/feedback', async (req: Request, res: Respons
       return res.status(400).json({ error: 'Invalid log id' });
     }
 
+    if (!(await logBelongsToOrganization(logId, req.organizationId!))) {
+      return res.status(404).json({ error: 'Distribution log not found' });
+    }
+
     const feedback = req.body?.feedback ?? req.body;
     if (!feedback || typeof feedback !== 'object') {
       return res.status(400).json({ error: 'Feedback payload is required' });
@@ -785,6 +1023,10 @@ router.post('/distribution/logs/:id/retry', async (req: Request, res: Response)
       return res.status(400).json({ error: 'Invalid log id' });
     }
 
+    if (!(await logBelongsToOrganization(logId, req.organizationId!))) {
+      return res.status(404).json({ error: 'Distribution log not found' });
+    }
+
     const dispatchNow = req.body?.dispatch !== false;
     const retryLog = await distributionService.resendFromLog(logId, dispatchNow);
     if (!retryLog) {
@@ -798,4 +1040,26 @@ router.post('/distribution/logs/:id/retry', async (req: Request, res: Response)
   }
 });
 
+// Helpers to check distribution records are owned by the organization (via their post)
+async function postBelongsToOrganization(postId: number, organizationId: number): Promise<boolean> {
+  const result = await query('SELECT id FROM posts WHERE id = $1 AND organization_id = $2', [postId, organizationId]);
+  return result.rows.length > 0;
+}
+
+async function scheduleBelongsToOrganization(scheduleId: number, organizationId: number): Promise<boolean> {
+  const result = await query(
+    'SELECT s.id FROM publishing_schedules s JOIN posts p ON p.id = s.post_id WHERE s.id = $1 AND p.organization_id = $2',
+    [scheduleId, organizationId]
+  );
+  return result.rows.length > 0;
+}
+
+async function logBelongsToOrganization(logId: number, organizationId: number): Promise<boolean> {
+  const result = await query(
+    'SELECT l.id FROM distribution_logs l JOIN posts p ON p.id = l.post_id WHERE l.id = $1 AND p.organization_id = $2',
+    [logId, organizationId]
+  );
+  return result.rows.length > 0;
+}
+
 export default router;
\ No newline at end of file
@@ -1,8 +1,10 @@
 import { Router, Request, Response } from 'express';
 import { authenticateToken } from '../middleware/auth';
 import { checkContentAccess } from '../middleware/versionAuth';
+import { checkEditConflict } from '../middleware/editConflict';
 import { VersionService } from '../services/VersionService';
 import pool from '../utils/database';
+import { contentSiteIdSql } from '../utils/site';
 import { ContentType } from '../types/versioning/enums';
 import crypto from 'crypto';
 
@@ -21,6 +23,7 @@ router.post(
   '/content/:contentType/:contentId/autosave',
   authenticateToken,
   checkContentAccess,
+  checkEditConflict(),
   async (req: Request, res: Response) => {
     try {
       const { contentType, contentId } = req.params;
@@ -37,7 +40,7 @@ router.post(
 
       // Get site context
       const tableName = contentType === 'post' ? 'posts' : 'pages';
-      const siteQuery = `SELECT site_id FROM ${tableName} WHERE id = $1`;
+      const siteQuery = `SELECT ${contentSiteIdSql('c')} AS site_id, c.locale FROM ${tableName} c WHERE c.id = $1`;
       const siteResult = await pool.query(siteQuery, [contentId]);
 
       if (siteResult.rows.length === 0) {
@@ -49,6 +52,7 @@ router.post(
       // Create auto-save input
       const input = {
         site_id: siteId, // Add site_id to satisfy CreateVersionInput type
+        locale: siteResult.rows[0].locale,
         content_type: contentType as ContentType,
         content_id: Number(contentId),
         title: autoSaveData.title,
@@ -101,7 +105,7 @@ router.get(
 
       // Get site context
       const tableName = contentType === 'post' ? 'posts' : 'pages';
-      const siteQuery = `SELECT site_id FROM ${tableName} WHERE id = $1`;
+      const siteQuery = `SELECT ${contentSiteIdSql('c')} AS site_id FROM ${tableName} c WHERE c.id = $1`;
       const siteResult = await pool.query(siteQuery, [contentId]);
 
       if (siteResult.rows.length === 0) {
@@ -168,7 +172,7 @@ router.get(
 
       // Get site context
       const tableName = contentType === 'post' ? 'posts' : 'pages';
-      const siteQuery = `SELECT site_id FROM ${tableName} WHERE id = $1`;
+      const siteQuery = `SELECT ${contentSiteIdSql('c')} AS site_id FROM ${tableName} c WHERE c.id = $1`;
       const siteResult = await pool.query(siteQuery, [contentId]);
 
       if (siteResult.rows.length === 0) {
@@ -228,7 +232,7 @@ router.delete(
 
       // Get site context
       const tableName = contentType === 'post' ? 'posts' : 'pages';
-      const siteQuery = `SELECT site_id FROM ${tableName} WHERE id = $1`;
+      const siteQuery = `SELECT ${contentSiteIdSql('c')} AS site_id FROM ${tableName} c WHERE c.id = $1`;
       const siteResult = await pool.query(siteQuery, [contentId]);
 
       if (siteResult.rows.length === 0) {
@@ -1,9 +1,21 @@
 import express from 'express';
 import { Request, Response } from 'express';
 import { query } from '../utils/database';
-import { authenticateToken, requireEditor } from '../middleware/auth';
+import { requireEditor } from '../middleware/auth';
+import { authenticate, requireScope } from '../middleware/apiKey';
 import { validate, createCategorySchema, updateCategorySchema } from '../middleware/validation';
+import { requireOrganization } from '../middleware/tenancy';
+import { invalidatePublicCaches } from '../utils/publicCache';
 import { generateSlug, generateUniqueSlug } from '../utils/slug';
+import {
+  categoryPath,
+  categorySubtreeSql,
+  deleteCategory,
+  getCategoryAncestors,
+  getCategoryChildren,
+  getCategoryMoveUpClashes,
+  moveCategory
+} from '../db/categories';
 import { CreateCategoryData, UpdateCategoryData } from '../types';
 
 const router = express.Router();
@@ -108,29 +120,52 @@ router.get('/', async (req: Request, res: Response) => {
 });
 
 // Get single category with posts (public)
-router.get('/:slug', async (req: Request, res: Response) => {
+// The archive path may be nested, e.g. /api/categories/tech/javascript; posts
+// filed under subcategories are included
+router.get('/:path(*)', async (req: Request, res: Response) => {
   try {
-    const { slug } = req.params;
+    const { path } = req.params;
     const { page = 1, limit = 10 } = req.query;
 
     const offset = (Number(page) - 1) * Number(limit);
 
+    // Get domain context from request (set by middleware)
+    const domain = (req as any).domain;
+    const params: any[] = [path];
+    let domainFilter = '';
+    if (domain && domain.id) {
+      params.push(domain.id);
+      domainFilter = ' AND (c.domain_id = $2 OR c.domain_id IS NULL)';
+    }
+
     // Get category
     const categoryQuery = `
-      SELECT c.*, COUNT(p.id) as post_count
+      SELECT c.*, (
+        SELECT COUNT(*) FROM posts p
+        JOIN categories d ON p.category_id = d.id
+        WHERE ${categorySubtreeSql('d', 'c')} AND p.status = 'published'
+      ) as post_count
       FROM categories c
-      LEFT JOIN posts p ON c.id = p.category_id AND p.status = 'published'
-      WHERE c.slug = $1
-      GROUP BY c.id
+      WHERE c.path = $1${domainFilter}
+      ORDER BY c.domain_id NULLS LAST
+      LIMIT 1
     `;
 
-    const categoryResult = await query(categoryQuery, [slug]);
+    const categoryResult = await query(categoryQuery, params);
 
     if (categoryResult.rows.length === 0) {
       return res.status(404).json({ error: 'Category not found' });
     }
 
     const category = categoryResult.rows[0];
+    const [ancestors, children] = await Promise.all([
+      getCategoryAncestors(category.organization_id, category.path),
+      getCategoryChildren(category.id)
+    ]);
+
+    const subtreeFilter = `p.category_id IN (
+      SELECT d.id FROM categories d JOIN categories c ON ${categorySubtreeSql('d', 'c')} WHERE c.id = $1
+    )`;
 
     // Get posts in category
     const postsQuery = `
@@ -150,7 +185,7 @@ router.get('/:slug', async (req: Request, res: Response) => {
       LEFT JOIN users u ON p.author_id = u.id
       LEFT JOIN post_tags pt ON p.id = pt.post_id
       LEFT JOIN tags t ON pt.tag_id = t.id
-      WHERE p.category_id = $1 AND p.status = 'published'
+      WHERE ${subtreeFilter} AND p.status = 'published'
       GROUP BY p.id, u.first_name, u.last_name, u.email
       ORDER BY p.created_at DESC
       LIMIT $2 OFFSET $3
@@ -158,17 +193,11 @@ router.get('/:slug', async (req: Request, res: Response) => {
 
     const postsResult = await query(postsQuery, [category.id, limit, offset]);
 
-    // Get total count for pagination
-    const countResult = await query(
-      'SELECT COUNT(*) FROM posts WHERE category_id = $1 AND status = $2',
-      [category.id, 'published']
-    );
-
-    const totalCount = parseInt(countResult.rows[0].count);
+    const totalCount = parseInt(category.post_count);
     const totalPages = Math.ceil(totalCount / Number(limit));
 
     res.json({
-      category,
+      category: { ...category, ancestors, children },
       posts: postsResult.rows,
       pagination: {
         page: Number(page),
@@ -186,25 +215,37 @@ router.get('/:slug', async (req: Request, res: Response) => {
 });
 
 // Create category (admin only)
-router.post('/', authenticateToken, requireEditor, validate(createCategorySchema), async (req: Request, res: Response) => {
+router.post('/', authenticate, requireScope('write:categories'), requireEditor, requireOrganization, validate(createCategorySchema), async (req: Request, res: Response) => {
   try {
     const categoryData: CreateCategoryData = req.body;
+    const organizationId = req.organizationId!;
+
+    const parent = categoryData.parent_id ? await findCategory(categoryData.parent_id, organizationId) : null;
+    if (categoryData.parent_id && !parent) {
+      return res.status(400).json({ error: 'Parent category not found' });
+    }
 
     // Generate slug if not provided
     if (!categoryData.slug) {
-      const existingSlugs = await query('SELECT slug FROM categories WHERE slug LIKE $1', [`${generateSlug(categoryData.name)}%`]);
+      const existingSlugs = await query(
+        'SELECT slug FROM categories WHERE slug LIKE $1 AND organization_id = $2',
+        [`${generateSlug(categoryData.name)}%`, organizationId]
+      );
       categoryData.slug = generateUniqueSlug(categoryData.name, existingSlugs.rows.map(row => row.slug));
     } else {
       // Check if slug already exists
-      const existingSlug = await query('SELECT id FROM categories WHERE slug = $1', [categoryData.slug]);
+      const existingSlug = await query(
+        'SELECT id FROM categories WHERE slug = $1 AND organization_id = $2',
+        [categoryData.slug, organizationId]
+      );
       if (existingSlug.rows.length > 0) {
         return res.status(400).json({ error: 'Slug already exists' });
       }
     }
 
     const insertQuery = `
-      INSERT INTO categories (name, slug, description, seo_indexed)
-      VALUES ($1, $2, $3, $4)
+      INSERT INTO categories (name, slug, description, seo_indexed, parent_id, path, organization_id)
+      VALUES ($1, $2, $3, $4, $5, $6, $7)
       RETURNING *
     `;
 
@@ -212,7 +253,10 @@ router.post('/', authenticateToken, requireEditor, validate(createCategorySchema
       categoryData.name,
       categoryData.slug,
       categoryData.description,
-      categoryData.seo_indexed !== false
+      categoryData.seo_indexed !== false,
+      parent ? parent.id : null,
+      categoryPath(parent?.path, categoryData.slug),
+      organizationId
     ];
 
     const result = await query(insertQuery, values);
@@ -229,13 +273,14 @@ router.post('/', authenticateToken, requireEditor, validate(createCategorySchema
 });
 
 // Update category (admin only)
-router.put('/:id', authenticateToken, requireEditor, validate(updateCategorySchema), async (req: Request, res: Response) => {
+router.put('/:id', authenticate, requireScope('write:categories'), requireEditor, requireOrganization, validate(updateCategorySchema), async (req: Request, res: Response) => {
   try {
     const { id } = req.params;
     const categoryData: UpdateCategoryData = req.body;
+    const organizationId = req.organizationId!;
 
-    // Check if category exists
-    const existingCategory = await query('SELECT * FROM categories WHERE id = $1', [id]);
+    // Check if category exists in this organization
+    const existingCategory = await query('SELECT * FROM categories WHERE id = $1 AND organization_id = $2', [id, organizationId]);
     if (existingCategory.rows.length === 0) {
       return res.status(404).json({ error: 'Category not found' });
     }
@@ -244,33 +289,55 @@ router.put('/:id', authenticateToken, requireEditor, validate(updateCategorySche
 
     // Handle slug update
     if (categoryData.slug && categoryData.slug !== category.slug) {
-      const existingSlug = await query('SELECT id FROM categories WHERE slug = $1 AND id != $2', [categoryData.slug, id]);
+      const existingSlug = await query(
+        'SELECT id FROM categories WHERE slug = $1 AND organization_id = $2 AND id != $3',
+        [categoryData.slug, organizationId, id]
+      );
       if (existingSlug.rows.length > 0) {
         return res.status(400).json({ error: 'Slug already exists' });
       }
     }
 
+    // A category cannot be moved into itself or its own subcategories
+    let parent = category.parent_id ? await findCategory(category.parent_id, organizationId) : null;
+    if (categoryData.parent_id !== undefined && categoryData.parent_id !== category.parent_id) {
+      parent = categoryData.parent_id ? await findCategory(categoryData.parent_id, organizationId) : null;
+      if (categoryData.parent_id && !parent) {
+        return res.status(400).json({ error: 'Parent category not found' });
+      }
+      if (parent && (parent.id === category.id || parent.path.startsWith(`${category.path}/`))) {
+        return res.status(400).json({ error: 'A category cannot be moved below itself' });
+      }
+    }
+
+    const slug = categoryData.slug || category.slug;
+    if (slug !== category.slug || (parent?.id ?? null) !== category.parent_id) {
+      await moveCategory(category, slug, parent);
+    }
+
     const updateQuery = `
       UPDATE categories SET 
         name = COALESCE($1, name),
-        slug = COALESCE($2, slug),
-        description = COALESCE($3, description),
-        seo_indexed = COALESCE($4, seo_indexed)
-      WHERE id = $5
+        description = COALESCE($2, description),
+        seo_indexed = COALESCE($3, seo_indexed)
+      WHERE id = $4 AND organization_id = $5
       RETURNING *
     `;
 
     const values = [
       categoryData.name,
-      categoryData.slug,
       categoryData.description,
       categoryData.seo_indexed,
-      id
+      id,
+      organizationId
     ];
 
     const result = await query(updateQuery, values);
     const updatedCategory = result.rows[0];
 
+    // Category names, slugs and seo_indexed show up in sitemaps and rendered pages
+    invalidatePublicCaches();
+
     res.json({
       message: 'Category updated successfully',
       data: updatedCategory
@@ -282,34 +349,42 @@ router.put('/:id', authenticateToken, requireEditor, validate(updateCategorySche
 });
 
 // Delete category (admin only)
-router.delete('/:id', authenticateToken, requireEditor, async (req: Request, res: Response) => {
+router.delete('/:id', authenticate, requireScope('write:categories'), requireEditor, requireOrganization, async (req: Request, res: Response) => {
   try {
     const { id } = req.params;
+    const organizationId = req.organizationId!;
 
-    // Check if category exists
-    const existingCategory = await query('SELECT * FROM categories WHERE id = $1', [id]);
+    // Check if category exists in this organization
+    const existingCategory = await query('SELECT * FROM categories WHERE id = $1 AND organization_id = $2', [id, organizationId]);
     if (existingCategory.rows.length === 0) {
       return res.status(404).json({ error: 'Category not found' });
     }
 
-    // Check if category has posts
-    const postsCount = await query('SELECT COUNT(*) FROM posts WHERE category_id = $1', [id]);
-    const postCount = parseInt(postsCount.rows[0].count);
-
-    if (postCount > 0) {
-      return res.status(400).json({ 
-        error: 'Cannot delete category with existing posts',
-        postCount
+    // Subcategories moving up must not take the path of a category already there
+    const clashes = await getCategoryMoveUpClashes(existingCategory.rows[0]);
+    if (clashes.length > 0) {
+      return res.status(409).json({
+        error: `Rename or move these subcategories first, a category with the same name is already there: ${clashes.join(', ')}`,
+        conflicts: clashes,
       });
     }
 
-    await query('DELETE FROM categories WHERE id = $1', [id]);
+    const { postsMoved } = await deleteCategory(existingCategory.rows[0]);
 
-    res.json({ message: 'Category deleted successfully' });
+    // Posts in the category now show up under its parent
+    invalidatePublicCaches();
+
+    res.json({ message: 'Category deleted successfully', postsMoved });
   } catch (error) {
     console.error('Delete category error:', error);
     res.status(500).json({ error: 'Internal server error' });
   }
 });
 
+// Helper function to load a category owned by the organization
+async function findCategory(id: number, organizationId: number) {
+  const result = await query('SELECT * FROM categories WHERE id = $1 AND organization_id = $2', [id, organizationId]);
+  return result.rows[0] || null;
+}
+
 export default router; 
\ No newline at end of file
@@ -0,0 +1,136 @@
+/**
+ * Edit Lock Routes
+ *
+ * Soft locks that show who is editing a post or page. The editor takes the
+ * lock when it opens content, re-posts every ~30 seconds as a heartbeat, and
+ * deletes it on close. Other editors read the lock to show
+ * "Alice is editing since 10:02" and can take it over.
+ */
+
+import { Router, Request, Response, NextFunction } from 'express';
+import Joi from 'joi';
+import { authenticateToken } from '../middleware/auth';
+import { requireOrganization } from '../middleware/tenancy';
+import { checkContentAccess } from '../middleware/versionAuth';
+import { validateRequest } from '../middleware/validation';
+import { editLockService } from '../services/EditLockService';
+import { ContentType, ServiceErrorCode } from '../types/versioning';
+
+const router = Router();
+
+const acquireLockSchema = Joi.object({
+  takeover: Joi.boolean().default(false)
+});
+
+/**
+ * Only posts and pages can be locked
+ */
+function validateContentType(req: Request, res: Response, next: NextFunction) {
+  const { contentType } = req.params;
+  if (contentType !== ContentType.POST && contentType !== ContentType.PAGE) {
+    return res.status(400).json({ error: 'Invalid content type' });
+  }
+  next();
+}
+
+function lockErrorStatus(errorCode?: ServiceErrorCode): number {
+  switch (errorCode) {
+    case ServiceErrorCode.NOT_FOUND:
+      return 404;
+    case ServiceErrorCode.VALIDATION_ERROR:
+      return 400;
+    default:
+      return 500;
+  }
+}
+
+// Get the current lock on content
+// GET /api/content/:contentType/:contentId/lock
+router.get(
+  '/content/:contentType/:contentId/lock',
+  authenticateToken,
+  requireOrganization,
+  validateContentType,
+  async (req: Request, res: Response) => {
+    try {
+      const { contentType, contentId } = req.params;
+      const result = await editLockService.getLock(
+        req.organizationId!,
+        contentType as ContentType,
+        Number(contentId)
+      );
+
+      if (!result.success) {
+        return res.status(lockErrorStatus(result.errorCode)).json({ error: result.error });
+      }
+
+      res.json({ success: true, data: result.data });
+    } catch (error) {
+      console.error('Error getting edit lock:', error);
+      res.status(500).json({ error: 'Internal server error' });
+    }
+  }
+);
+
+// Acquire, refresh (heartbeat) or take over the lock
+// POST /api/content/:contentType/:contentId/lock
+router.post(
+  '/content/:contentType/:contentId/lock',
+  authenticateToken,
+  requireOrganization,
+  validateContentType,
+  checkContentAccess,
+  validateRequest(acquireLockSchema),
+  async (req: Request, res: Response) => {
+    try {
+      const { contentType, contentId } = req.params;
+      const result = await editLockService.acquireLock(
+        req.organizationId!,
+        contentType as ContentType,
+        Number(contentId),
+        req.user!.userId,
+        { takeover: req.body.takeover }
+      );
+
+      if (!result.success) {
+        return res.status(lockErrorStatus(result.errorCode)).json({ error: result.error });
+      }
+
+      res.json({ success: true, data: result.data });
+    } catch (error) {
+      console.error('Error acquiring edit lock:', error);
+      res.status(500).json({ error: 'Internal server error' });
+    }
+  }
+);
+
+// Release the caller's lock
+// DELETE /api/content/:contentType/:contentId/lock
+router.delete(
+  '/content/:contentType/:contentId/lock',
+  authenticateToken,
+  requireOrganization,
+  validateContentType,
+  async (req: Request, res: Response) => {
+    try {
+      const { contentType, contentId } = req.params;
+      const result = await editLockService.releaseLock(
+        req.organizationId!,
+        contentType as ContentType,
+        Number(contentId),
+        req.user!.userId
+      );
+
+      if (!result.success) {
+        return res.status(lockErrorStatus(result.errorCode)).json({ error: result.error });
+      }
+
+      res.json({ success: true, data: { released: result.data } });
+    } catch (error) {
+      console.error('Error releasing edit lock:', error);
+      res.status(500).json({ error: 'Internal server error' });
+    }
+  }
+);
+
+export default router;
@@ -0,0 +1,178 @@
+/**
+ * Feed Routes
+ *
+ * RSS, Atom and JSON feeds of the published posts of the current site, and of
+ * a single category or tag. Feeds live at the site root next to the pages
+ * they mirror (/feed.xml, /category/news/atom.xml) with a locale prefix for
+ * the site's other languages (/de/feed.json).
+ */
+
+import { Router, Request, Response, NextFunction } from 'express';
+import { query } from '../utils/database';
+import { listPublishedPosts } from '../db/posts';
+import { getTagBySlug } from '../db/tags';
+import { LOCALE_PATTERN, localizePath, resolveSiteLocales } from '../utils/locale';
+import { absolutizeUrls, FeedFormat, FeedItem, FEED_CONTENT_TYPES, renderFeed } from '../utils/feed';
+import { fragmentService } from '../services/FragmentService';
+
+const router = Router();
+
+const FEED_FILES: Record<string, FeedFormat> = {
+  'feed.xml': 'rss',
+  'atom.xml': 'atom',
+  'feed.json': 'json',
+};
+
+const FEED_SIZE = 20;
+
+// Readers poll feeds often; let them and any proxy reuse a feed for 15 minutes
+const FEED_MAX_AGE = 15 * 60;
+
+const SUMMARY_LENGTH = 300;
+
+/**
+ * The site the request resolved to, else the domain's default site, else the
+ * global default site
+ */
+async function loadSite(siteId: number | null, domainId: number | null) {
+  const [siteResult, settingsResult] = await Promise.all([
+    query(
+      `SELECT title, name, description, settings FROM sites
+       WHERE id = COALESCE(
+         $1,
+         (SELECT id FROM sites WHERE domain_id = $2 AND is_default = true AND is_active = true ORDER BY id LIMIT 1),
+         (SELECT id FROM sites WHERE is_default = true ORDER BY id LIMIT 1)
+       )`,
+      [siteId, domainId]
+    ),
+    query(`SELECT key, value FROM site_settings WHERE key IN ('site_title', 'site_description')`),
+  ]);
+
+  const site = siteResult.rows[0];
+  const settings = Object.fromEntries(settingsResult.rows.map((row: any) => [row.key, row.value]));
+
+  return {
+    title: site?.title || settings.site_title || site?.name || 'Blog',
+    description: site?.description || settings.site_description || undefined,
+    settings: site?.settings || {},
+  };
+}
+
+function summarize(post: any): string {
+  if (post.excerpt) {
+    return post.excerpt;
+  }
+  const text = String(post.content || '').replace(/<[^>]*>/g, ' ').replace(/\s+/g, ' ').trim();
+  return text.length > SUMMARY_LENGTH ? `${text.slice(0, SUMMARY_LENGTH).trimEnd()}…` : text;
+}
+
+function feedHandler(format: FeedFormat) {
+  return async (req: Request, res: Response, next: NextFunction) => {
+    try {
+      const { locale, scope, slug } = req.params;
+
+      // /:locale also matches other two-segment paths; leave those alone
+      if (locale !== undefined && !LOCALE_PATTERN.test(locale)) {
+        return next();
+      }
+
+      // Get domain and site context from request (set by middleware)
+      const domain = (req as any).domain;
+      const site = await loadSite(req.siteContext?.siteId ?? null, domain?.id ?? null);
+      const { default_locale: defaultLocale, locales } = resolveSiteLocales(site.settings);
+
+      if (locale !== undefined && !locales.includes(locale)) {
+        return res.status(404).json({ error: 'Feed not found' });
+      }
+
+      let title = site.title;
+      let description = site.description;
+      let pagePath = '/blog';
+
+      if (scope === 'category') {
+        const params: any[] = [slug];
+        let domainFilter = '';
+        if (domain && domain.id) {
+          params.push(domain.id);
+          domainFilter = ` AND (domain_id = $2 OR domain_id IS NULL)`;
+        }
+        const result = await query(`SELECT name, description FROM categories WHERE path = $1${domainFilter}`, params);
+        if (result.rows.length === 0) {
+          return res.status(404).json({ error: 'Category not found' });
+        }
+        title = `${site.title}: ${result.rows[0].name}`;
+        description = result.rows[0].description || description;
+        pagePath = `/category/${slug}`;
+      } else if (scope === 'tag') {
+        const tag = await getTagBySlug(slug, { siteId: req.siteContext?.siteId, domainId: domain?.id });
+        if (!tag) {
+          return res.status(404).json({ error: 'Tag not found' });
+        }
+        title = `${site.title}: ${tag.name}`;
+        pagePath = `/tag/${slug}`;
+      }
+
+      const { posts } = await listPublishedPosts({
+        domainId: domain?.id,
+        siteId: req.siteContext?.siteId,
+        category: scope === 'category' ? slug : undefined,
+        tag: scope === 'tag' ? slug : undefined,
+        locale,
+        limit: FEED_SIZE,
+      });
+      for (const post of posts) {
+        post.content = await fragmentService.renderFragments(post.content, post.organization_id);
+      }
+
+      const origin = `${req.protocol}://${req.get('host')}`;
+      const fullContent = site.settings.feed_content !== 'excerpt';
+      const absolute = (url: string) => (url.startsWith('/') ? `${origin}${url}` : url);
+
+      const items: FeedItem[] = posts.map((post) => ({
+        url: origin + localizePath(`/blog/${post.slug}`, post.locale, defaultLocale),
+        title: post.title,
+        content: fullContent ? absolutizeUrls(post.content || '', origin) : undefined,
+        summary: summarize(post),
+        published: new Date(post.created_at),
+        updated: new Date(post.updated_at),
+        author: [post.first_name, post.last_name].filter(Boolean).join(' ') || undefined,
+        categories: [post.category_name, ...post.tags.map((tag: any) => tag.name)].filter(Boolean),
+        image: post.featured_image ? absolute(post.featured_image) : undefined,
+      }));
+
+      const updated = items.length > 0
+        ? new Date(Math.max(...items.map((item) => item.updated.getTime())))
+        : new Date();
+
+      const body = renderFeed(format, {
+        title,
+        description,
+        siteUrl: origin + localizePath(pagePath, locale, defaultLocale),
+        feedUrl: `${origin}${req.baseUrl}${req.path}`,
+        language: locale || defaultLocale,
+        updated,
+      }, items);
+
+      // Express answers conditional requests with 304 from the ETag and Last-Modified
+      res.set({
+        'Content-Type': FEED_CONTENT_TYPES[format],
+        'Cache-Control': `public, max-age=${FEED_MAX_AGE}`,
+      });
+      if (items.length > 0) {
+        res.set('Last-Modified', updated.toUTCString());
+      }
+      res.send(body);
+    } catch (error) {
+      console.error('Feed error:', error);
+      res.status(500).json({ error: 'Internal server error' });
+    }
+  };
+}
+
+Object.entries(FEED_FILES).forEach(([file, format]) => {
+  // Category archives may be nested (/category/tech/javascript/feed.xml)
+  const paths = [`/${file}`, `/:scope(category)/:slug([^.]+)/${file}`, `/:scope(tag)/:slug/${file}`];
+  router.get([...paths, ...paths.map((path) => `/:locale${path}`)], feedHandler(format));
+});
+
+export default router;
@@ -0,0 +1,233 @@
+/**
+ * Content Fragment Routes
+ *
+ * Editors manage reusable fragments (newsletter calls to action, legal
+ * disclaimers, author bios) here. Posts and pages embed a fragment with its
+ * {{fragment:key}} token or a fragment block, and the public API swaps in the
+ * current content, so saving a fragment updates every post and page using it.
+ */
+
+import { Router, Request, Response } from 'express';
+import Joi from 'joi';
+import { authenticateToken, requireEditor } from '../middleware/auth';
+import { requireOrganization } from '../middleware/tenancy';
+import { validateRequest } from '../middleware/validation';
+import { fragmentService } from '../services/FragmentService';
+import { ServiceErrorCode } from '../types/versioning';
+
+const router = Router();
+
+const fragmentSchema = Joi.object({
+  key: Joi.string().trim().lowercase().pattern(/^[a-z0-9]+(-[a-z0-9]+)*$/).max(100).required().messages({
+    'string.pattern.base': 'Key may only contain lowercase letters, numbers and hyphens'
+  }),
+  name: Joi.string().trim().min(1).max(255).required(),
+  description: Joi.string().trim().allow('', null).max(1000).default(null),
+  content: Joi.string().allow('').default('')
+});
+
+function fragmentErrorStatus(errorCode?: ServiceErrorCode): number {
+  switch (errorCode) {
+    case ServiceErrorCode.NOT_FOUND:
+      return 404;
+    case ServiceErrorCode.VALIDATION_ERROR:
+      return 400;
+    case ServiceErrorCode.CONFLICT:
+      return 409;
+    default:
+      return 500;
+  }
+}
+
+function parseId(value: string): number | null {
+  const id = parseInt(value);
+  return isNaN(id) ? null : id;
+}
+
+// List the organization's fragments with how often each is used
+// GET /api/fragments
+router.get('/', authenticateToken, requireOrganization, requireEditor, async (req: Request, res: Response) => {
+  try {
+    const result = await fragmentService.listFragments(req.organizationId!);
+
+    if (!result.success) {
+      return res.status(fragmentErrorStatus(result.errorCode)).json({ error: result.error });
+    }
+
+    res.json({ success: true, data: result.data });
+  } catch (error) {
+    console.error('Error listing fragments:', error);
+    res.status(500).json({ error: 'Internal server error' });
+  }
+});
+
+// GET /api/fragments/:id
+router.get('/:id', authenticateToken, requireOrganization, requireEditor, async (req: Request, res: Response) => {
+  try {
+    const id = parseId(req.params.id);
+    if (id === null) {
+      return res.status(400).json({ error: 'Invalid fragment ID' });
+    }
+
+    const result = await fragmentService.getFragment(req.organizationId!, id);
+
+    if (!result.success) {
+      return res.status(fragmentErrorStatus(result.errorCode)).json({ error: result.error });
+    }
+
+    res.json({ success: true, data: result.data });
+  } catch (error) {
+    console.error('Error getting fragment:', error);
+    res.status(500).json({ error: 'Internal server error' });
+  }
+});
+
+// Posts and pages embedding a fragment
+// GET /api/fragments/:id/usages
+router.get('/:id/usages', authenticateToken, requireOrganization, requireEditor, async (req: Request, res: Response) => {
+  try {
+    const id = parseId(req.params.id);
+    if (id === null) {
+      return res.status(400).json({ error: 'Invalid fragment ID' });
+    }
+
+    const result = await fragmentService.listUsages(req.organizationId!, id);
+
+    if (!result.success) {
+      return res.status(fragmentErrorStatus(result.errorCode)).json({ error: result.error });
+    }
+
+    res.json({ success: true, data: result.data });
+  } catch (error) {
+    console.error('Error listing fragment usages:', error);
+    res.status(500).json({ error: 'Internal server error' });
+  }
+});
+
+// Saved versions of a fragment, newest first
+// GET /api/fragments/:id/versions
+router.get('/:id/versions', authenticateToken, requireOrganization, requireEditor, async (req: Request, res: Response) => {
+  try {
+    const id = parseId(req.params.id);
+    if (id === null) {
+      return res.status(400).json({ error: 'Invalid fragment ID' });
+    }
+
+    const result = await fragmentService.listVersions(req.organizationId!, id);
+
+    if (!result.success) {
+      return res.status(fragmentErrorStatus(result.errorCode)).json({ error: result.error });
+    }
+
+    res.json({ success: true, data: result.data });
+  } catch (error) {
+    console.error('Error listing fragment versions:', error);
+    res.status(500).json({ error: 'Internal server error' });
+  }
+});
+
+// Create a fragment
+// POST /api/fragments
+router.post(
+  '/',
+  authenticateToken,
+  requireOrganization,
+  requireEditor,
+  validateRequest(fragmentSchema),
+  async (req: Request, res: Response) => {
+    try {
+      const result = await fragmentService.createFragment(req.organizationId!, req.user?.userId, req.body);
+
+      if (!result.success) {
+        return res.status(fragmentErrorStatus(result.errorCode)).json({ error: result.error });
+      }
+
+      res.status(201).json({ success: true, data: result.data });
+    } catch (error) {
+      console.error('Error creating fragment:', error);
+      res.status(500).json({ error: 'Internal server error' });
+    }
+  }
+);
+
+// Save a fragment as a new version; every usage shows the new content
+// PUT /api/fragments/:id
+router.put(
+  '/:id',
+  authenticateToken,
+  requireOrganization,
+  requireEditor,
+  validateRequest(fragmentSchema),
+  async (req: Request, res: Response) => {
+    try {
+      const id = parseId(req.params.id);
+      if (id === null) {
+        return res.status(400).json({ error: 'Invalid fragment ID' });
+      }
+
+      const result = await fragmentService.updateFragment(req.organizationId!, id, req.user?.userId, req.body);
+
+      if (!result.success) {
+        return res.status(fragmentErrorStatus(result.errorCode)).json({ error: result.error });
+      }
+
+      res.json({ success: true, data: result.data });
+    } catch (error) {
+      console.error('Error updating fragment:', error);
+      res.status(500).json({ error: 'Internal server error' });
+    }
+  }
+);
+
+// Bring back an earlier version as a new version
+// POST /api/fragments/:id/versions/:versionId/restore
+router.post(
+  '/:id/versions/:versionId/restore',
+  authenticateToken,
+  requireOrganization,
+  requireEditor,
+  async (req: Request, res: Response) => {
+    try {
+      const id = parseId(req.params.id);
+      const versionId = parseId(req.params.versionId);
+      if (id === null || versionId === null) {
+        return res.status(400).json({ error: 'Invalid fragment or version ID' });
+      }
+
+      const result = await fragmentService.restoreVersion(req.organizationId!, id, versionId, req.user?.userId);
+
+      if (!result.success) {
+        return res.status(fragmentErrorStatus(result.errorCode)).json({ error: result.error });
+      }
+
+      res.json({ success: true, data: result.data });
+    } catch (error) {
+      console.error('Error restoring fragment version:', error);
+      res.status(500).json({ error: 'Internal server error' });
+    }
+  }
+);
+
+// Delete a fragment that no post or page uses any more
+// DELETE /api/fragments/:id
+router.delete('/:id', authenticateToken, requireOrganization, requireEditor, async (req: Request, res: Response) => {
+  try {
+    const id = parseId(req.params.id);
+    if (id === null) {
+      return res.status(400).json({ error: 'Invalid fragment ID' });
+    }
+
+    const result = await fragmentService.deleteFragment(req.organizationId!, id);
+
+    if (!result.success) {
+      return res.status(fragmentErrorStatus(result.errorCode)).json({ error: result.error });
+    }
+
+    res.json({ success: true, data: { deleted: true } });
+  } catch (error) {
+    console.error('Error deleting fragment:', error);
+    res.status(500).json({ error: 'Internal server error' });
+  }
+});
+
+export default router;
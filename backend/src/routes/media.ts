@@ -3,31 +3,161 @@ import { Request, Response } from 'express';
 import multer from 'multer';
 import sharp from 'sharp';
 import path from 'path';
-import fs from 'fs';
 import { query } from '../utils/database';
-import { authenticateToken, requireAuthor } from '../middleware/auth';
+import { requireAuthor } from '../middleware/auth';
+import { authenticate, requireScope } from '../middleware/apiKey';
 import { enforceStorageQuota } from '../middleware/quota';
+import { requireOrganization } from '../middleware/tenancy';
 import { quotaService } from '../services/QuotaService';
+import { mediaStorage, uniqueStorageKey } from '../services/MediaStorage';
+import {
+  imageTransformService,
+  imageTransformUrl,
+  isTransformableImage,
+  parseImageTransform
+} from '../services/ImageTransformService';
+import { mediaUsageService } from '../services/MediaUsageService';
+import {
+  contentHash,
+  mediaDedupService,
+  mediaHashes,
+  DEFAULT_NEAR_DUPLICATE_DISTANCE,
+  MAX_NEAR_DUPLICATE_DISTANCE
+} from '../services/MediaDedupService';
+import { ServiceErrorCode } from '../types/versioning';
+import {
+  validate,
+  updateMediaSchema,
+  createMediaFolderSchema,
+  updateMediaFolderSchema,
+  bulkMoveMediaSchema,
+  bulkTagMediaSchema,
+  bulkDeleteMediaSchema,
+  mergeMediaSchema
+} from '../middleware/validation';
+import {
+  createMediaFolder,
+  deleteMediaFolder,
+  findMediaFolder,
+  getMediaFile,
+  getMediaFolderMoveUpClashes,
+  listMediaFiles,
+  listMediaFolders,
+  listMediaTags,
+  moveMediaFiles,
+  tagMediaFiles,
+  updateMediaFolder,
+  MediaListFilters
+} from '../db/media';
 
 const router = express.Router();
 
-// Configure multer for file uploads
-const storage = multer.diskStorage({
-  destination: (req, file, cb) => {
-    const uploadDir = path.join(__dirname, '../../uploads');
-    if (!fs.existsSync(uploadDir)) {
-      fs.mkdirSync(uploadDir, { recursive: true });
-    }
-    cb(null, uploadDir);
-  },
-  filename: (req, file, cb) => {
-    // Generate unique filename
-    const uniqueSuffix = Date.now() + '-' + Math.round(Math.random() * 1E9);
-    const extension = path.extname(file.originalname);
-    const filename = `${uniqueSuffix}${extension}`;
-    cb(null, filename);
+// Uploads are kept in memory and written to media storage by the handlers,
+// so every backend replica sees the same files
+const storage = multer.memoryStorage();
+
+// Keys of the web-optimized copy and thumbnail generated for an image
+function derivativeKeys(filename: string): string[] {
+  const baseName = path.basename(filename, path.extname(filename));
+  return [`${baseName}.webp`, `${baseName}-thumb.webp`];
+}
+
+// Images that get a web-optimized copy, which becomes their URL
+const OPTIMIZED_IMAGE_EXTENSIONS = ['.jpg', '.jpeg', '.png', '.webp'];
+
+// Web-optimized copy and thumbnail of an image, stored under derivativeKeys
+async function renderImageCopies(buffer: Buffer): Promise<[Buffer, Buffer]> {
+  const webp = await sharp(buffer).rotate().resize({ width: 1600, withoutEnlargement: true }).webp({ quality: 82 }).toBuffer();
+  const thumb = await sharp(buffer).rotate().resize({ width: 480, withoutEnlargement: true }).webp({ quality: 78 }).toBuffer();
+  return [webp, thumb];
+}
+
+// Original and derivatives, without duplicates (a .webp original shares its key)
+function storedKeys(filename: string): string[] {
+  return Array.from(new Set([filename, ...derivativeKeys(filename)]));
+}
+
+async function deleteStoredFiles(keys: string[]): Promise<void> {
+  for (const key of keys) {
+    try {
+      await mediaStorage.delete(key);
+    } catch (fileError) {
+      console.error(`[CRITICAL] Failed to delete file during rollback: ${key}`, fileError);
+    }
   }
-});
+}
+
+/**
+ * Remove a media file from storage, with its derivatives and transforms.
+ * Resolves to the bytes it took up, for the storage quota.
+ */
+async function removeStoredMedia(mediaFile: { id: number; filename: string }): Promise<number> {
+  const derivatives = await imageTransformService.deleteDerivatives(mediaFile.id);
+  if (!derivatives.success) {
+    throw new Error(derivatives.error);
+  }
+
+  let totalStorageBytes = derivatives.data!;
+  for (const key of storedKeys(mediaFile.filename)) {
+    const stored = await mediaStorage.stat(key);
+    if (stored) {
+      totalStorageBytes += stored.size;
+      await mediaStorage.delete(key);
+    }
+  }
+  return totalStorageBytes;
+}
+
+// Give deleted media back to the storage quota
+async function releaseStorageQuota(req: Request, organizationId: number, storageBytes: number, mediaIds: unknown): Promise<void> {
+  // P1 bug fix: Skip quota tracking for enterprise tier (SF-010)
+  const isEnterprise = (req as any).isEnterpriseTier;
+  if (!organizationId || isEnterprise || storageBytes <= 0) {
+    return;
+  }
+
+  const decrementResult = await quotaService.decrementQuota({
+    organizationId,
+    dimension: 'storage_bytes',
+    amount: storageBytes,
+  });
+
+  if (!decrementResult.success) {
+    // Log error but don't fail the deletion - media is already deleted
+    console.error('[WARNING] Media deleted but quota decrement failed:', {
+      mediaIds,
+      organizationId,
+      storageBytes,
+      error: decrementResult.error,
+    });
+  }
+}
+
+// Folder named in an upload form; undefined when it is not the organization's
+async function uploadFolderId(req: Request): Promise<number | null | undefined> {
+  if (!req.body?.folder_id) {
+    return null;
+  }
+  const folderId = Number(req.body.folder_id);
+  if (!Number.isInteger(folderId) || folderId < 1) {
+    return undefined;
+  }
+  const folder = await findMediaFolder(folderId, req.organizationId!);
+  return folder ? folder.id : undefined;
+}
+
+function serviceErrorStatus(errorCode?: ServiceErrorCode): number {
+  switch (errorCode) {
+    case ServiceErrorCode.NOT_FOUND:
+      return 404;
+    case ServiceErrorCode.VALIDATION_ERROR:
+      return 400;
+    case ServiceErrorCode.FORBIDDEN:
+      return 403;
+    default:
+      return 500;
+  }
+}
 
 const fileFilter = (req: any, file: any, cb: any) => {
   // Allow only specific file types
@@ -60,56 +190,123 @@ const upload = multer({
   }
 });
 
-// Get all media files (admin only)
-router.get('/', authenticateToken, requireAuthor, async (req: Request, res: Response) => {
-  try {
-    const { page = 1, limit = 20, type } = req.query;
-    const offset = (Number(page) - 1) * Number(limit);
-
-    let whereClause = '';
-    const params: any[] = [];
-
-    if (type) {
-      whereClause = 'WHERE mime_type LIKE $1';
-      params.push(`${type}%`);
-    }
-
-    const mediaQuery = `
-      SELECT 
-        m.*,
-        u.first_name, u.last_name, u.email as uploader_email
-      FROM media_files m
-      LEFT JOIN users u ON m.uploaded_by = u.id
-      ${whereClause}
-      ORDER BY m.created_at DESC
-      LIMIT $${params.length + 1} OFFSET $${params.length + 2}
-    `;
+// Single file upload
+// Custom wrapper to handle multer errors and return friendly messages
+function uploadSingleFile(req: Request, res: Response, next: express.NextFunction) {
+  const handler = upload.single('file');
+  handler(req as any, res as any, function(err: any) {
+    if (err) {
+      if (err.code === 'LIMIT_FILE_SIZE') {
+        return res.status(413).json({ error: 'File too large', maxSize: '50MB' });
+      }
+      if (err.message === 'File type not allowed') {
+        return res.status(400).json({ error: 'File type not allowed' });
+      }
+      return res.status(400).json({ error: err.message || 'Upload failed' });
+    }
+    next();
+  });
+}
 
-    params.push(limit, offset);
+// An exact copy of a file already in the library gets that file back
+// instead of being stored, so it takes no storage quota
+async function returnExistingUpload(req: Request, res: Response, next: express.NextFunction) {
+  if (!req.file) {
+    return next();
+  }
 
-    const countQuery = `
-      SELECT COUNT(*) FROM media_files m
-      ${whereClause}
-    `;
+  const existing = await mediaDedupService.findByContentHash(req.organizationId!, contentHash(req.file.buffer));
+  if (!existing.success) {
+    console.error('Failed to look up duplicate upload:', existing.error);
+    return next();
+  }
+  if (existing.data) {
+    return res.json({
+      message: 'File is already in the media library',
+      data: existing.data,
+      duplicate: true
+    });
+  }
+  next();
+}
+
+// Exact copies of files already in the library, or earlier in the same
+// upload, are set aside before the storage quota check, so only the files
+// that get stored count against it. res.locals.uploadHashes keeps the
+// content of every file sent, in order, and res.locals.existingFiles the
+// library file for each copy.
+async function setAsideExistingUploads(req: Request, res: Response, next: express.NextFunction) {
+  const files = req.files as Express.Multer.File[] | undefined;
+  if (!files || files.length === 0) {
+    return next();
+  }
 
-    const [mediaResult, countResult] = await Promise.all([
-      query(mediaQuery, params),
-      query(countQuery, params.slice(0, -2))
-    ]);
+  const uploadHashes = files.map((file) => contentHash(file.buffer));
+  const existingFiles = new Map<string, any>();
+  const newHashes = new Set<string>();
+  const newFiles: Express.Multer.File[] = [];
+  for (const [index, file] of files.entries()) {
+    const hash = uploadHashes[index];
+    if (existingFiles.has(hash) || newHashes.has(hash)) {
+      continue;
+    }
 
-    const mediaFiles = mediaResult.rows;
-    const totalCount = parseInt(countResult.rows[0].count);
-    const totalPages = Math.ceil(totalCount / Number(limit));
+    const existing = await mediaDedupService.findByContentHash(req.organizationId!, hash);
+    if (!existing.success) {
+      console.error('Failed to look up duplicate upload:', existing.error);
+    }
+    if (existing.data) {
+      existingFiles.set(hash, existing.data);
+    } else {
+      newHashes.add(hash);
+      newFiles.push(file);
+    }
+  }
+
+  req.files = newFiles;
+  res.locals.uploadHashes = uploadHashes;
+  res.locals.existingFiles = existingFiles;
+  next();
+}
+
+// Get media files, filtered by type, search text, folder and tag (admin only)
+// GET /api/media?search=beach&folder_id=4&include_subfolders=true&tag=summer&page=2
+// folder_id=none lists the files that are in no folder
+router.get('/', authenticate, requireScope('read:media'), requireAuthor, requireOrganization, async (req: Request, res: Response) => {
+  try {
+    const { type, search, folder_id, include_subfolders, tag } = req.query;
+    const page = Math.max(1, Number(req.query.page) || 1);
+    const limit = Math.min(100, Math.max(1, Number(req.query.limit) || 20));
+
+    const filters: MediaListFilters = {
+      page,
+      limit,
+      type: type ? String(type) : undefined,
+      search: search ? String(search).trim() : undefined,
+      includeSubfolders: include_subfolders === 'true',
+      tag: tag ? String(tag) : undefined,
+    };
+    if (folder_id === 'none') {
+      filters.folderId = null;
+    } else if (folder_id) {
+      filters.folderId = Number(folder_id);
+      if (!Number.isInteger(filters.folderId)) {
+        return res.status(400).json({ error: 'Invalid folder' });
+      }
+    }
+
+    const { mediaFiles, totalCount } = await listMediaFiles(req.organizationId!, filters);
+    const totalPages = Math.ceil(totalCount / limit);
 
     res.json({
       mediaFiles: mediaFiles,
       pagination: {
-        page: Number(page),
-        limit: Number(limit),
+        page,
+        limit,
         totalCount,
         totalPages,
-        hasNextPage: Number(page) < totalPages,
-        hasPreviousPage: Number(page) > 1
+        hasNextPage: page < totalPages,
+        hasPreviousPage: page > 1
       }
     });
   } catch (error) {
@@ -118,23 +315,232 @@ router.get('/', authenticateToken, requireAuthor, async (req: Request, res: Resp
   }
 });
 
-// Upload single file (admin only) with basic image optimization
-// Custom wrapper to handle multer errors and return friendly messages
-router.post('/upload', authenticateToken, requireAuthor, (req: Request, res: Response, next) => {
-  const handler = upload.single('file');
-  handler(req as any, res as any, function(err: any) {
-    if (err) {
-      if (err.code === 'LIMIT_FILE_SIZE') {
-        return res.status(413).json({ error: 'File too large', maxSize: '50MB' });
+// Folders of the media library in path order (admin only)
+router.get('/folders', authenticate, requireScope('read:media'), requireAuthor, requireOrganization, async (req: Request, res: Response) => {
+  try {
+    const folders = await listMediaFolders(req.organizationId!);
+    res.json({ data: folders });
+  } catch (error) {
+    console.error('Get media folders error:', error);
+    res.status(500).json({ error: 'Internal server error' });
+  }
+});
+
+// Create a media folder, optionally inside another one (admin only)
+router.post('/folders', authenticate, requireScope('write:media'), requireAuthor, requireOrganization, validate(createMediaFolderSchema), async (req: Request, res: Response) => {
+  try {
+    const organizationId = req.organizationId!;
+    const parent = req.body.parent_id ? await findMediaFolder(req.body.parent_id, organizationId) : null;
+    if (req.body.parent_id && !parent) {
+      return res.status(400).json({ error: 'Parent folder not found' });
+    }
+
+    const folder = await createMediaFolder(organizationId, req.body.name, parent);
+    res.status(201).json({ message: 'Folder created successfully', data: folder });
+  } catch (error) {
+    console.error('Create media folder error:', error);
+    res.status(500).json({ error: 'Internal server error' });
+  }
+});
+
+// Rename a media folder or move it into another one (admin only)
+router.put('/folders/:id', authenticate, requireScope('write:media'), requireAuthor, requireOrganization, validate(updateMediaFolderSchema), async (req: Request, res: Response) => {
+  try {
+    const organizationId = req.organizationId!;
+    const folder = await findMediaFolder(Number(req.params.id), organizationId);
+    if (!folder) {
+      return res.status(404).json({ error: 'Folder not found' });
+    }
+
+    // A folder cannot be moved into itself or its own subfolders
+    let parent = folder.parent_id ? await findMediaFolder(folder.parent_id, organizationId) : null;
+    if (req.body.parent_id !== undefined && req.body.parent_id !== folder.parent_id) {
+      parent = req.body.parent_id ? await findMediaFolder(req.body.parent_id, organizationId) : null;
+      if (req.body.parent_id && !parent) {
+        return res.status(400).json({ error: 'Parent folder not found' });
       }
-      if (err.message === 'File type not allowed') {
-        return res.status(400).json({ error: 'File type not allowed' });
+      if (parent && (parent.id === folder.id || parent.path.startsWith(`${folder.path}/`))) {
+        return res.status(400).json({ error: 'A folder cannot be moved into itself' });
       }
-      return res.status(400).json({ error: err.message || 'Upload failed' });
     }
-    next();
-  });
-}, enforceStorageQuota({ derivatives: true }), async (req: Request, res: Response) => {
+
+    const updated = await updateMediaFolder(folder, req.body.name || folder.name, parent);
+    res.json({ message: 'Folder updated successfully', data: updated });
+  } catch (error) {
+    console.error('Update media folder error:', error);
+    res.status(500).json({ error: 'Internal server error' });
+  }
+});
+
+// Delete a media folder; its files and subfolders move up a level (admin only)
+router.delete('/folders/:id', authenticate, requireScope('write:media'), requireAuthor, requireOrganization, async (req: Request, res: Response) => {
+  try {
+    const folder = await findMediaFolder(Number(req.params.id), req.organizationId!);
+    if (!folder) {
+      return res.status(404).json({ error: 'Folder not found' });
+    }
+
+    // Subfolders moving up must not take the path of a folder already there
+    const clashes = await getMediaFolderMoveUpClashes(folder);
+    if (clashes.length > 0) {
+      return res.status(409).json({
+        error: `Rename or move these subfolders first, a folder with the same name is already there: ${clashes.join(', ')}`,
+        conflicts: clashes,
+      });
+    }
+
+    const { filesMoved } = await deleteMediaFolder(folder);
+    res.json({ message: 'Folder deleted successfully', filesMoved });
+  } catch (error) {
+    console.error('Delete media folder error:', error);
+    res.status(500).json({ error: 'Internal server error' });
+  }
+});
+
+// Media tags with how many files carry them (admin only)
+router.get('/tags', authenticate, requireScope('read:media'), requireAuthor, requireOrganization, async (req: Request, res: Response) => {
+  try {
+    const tags = await listMediaTags(req.organizationId!);
+    res.json({ data: tags });
+  } catch (error) {
+    console.error('Get media tags error:', error);
+    res.status(500).json({ error: 'Internal server error' });
+  }
+});
+
+// Move media files into a folder, or out of any folder with folder_id null (admin only)
+router.post('/bulk/move', authenticate, requireScope('write:media'), requireAuthor, requireOrganization, validate(bulkMoveMediaSchema), async (req: Request, res: Response) => {
+  try {
+    const organizationId = req.organizationId!;
+    const { ids, folder_id } = req.body;
+    if (folder_id && !(await findMediaFolder(folder_id, organizationId))) {
+      return res.status(400).json({ error: 'Folder not found' });
+    }
+
+    const moved = await moveMediaFiles(organizationId, ids, folder_id);
+    res.json({ message: 'Media files moved successfully', moved });
+  } catch (error) {
+    console.error('Bulk move media error:', error);
+    res.status(500).json({ error: 'Internal server error' });
+  }
+});
+
+// Add and remove tags on media files (admin only)
+router.post('/bulk/tag', authenticate, requireScope('write:media'), requireAuthor, requireOrganization, validate(bulkTagMediaSchema), async (req: Request, res: Response) => {
+  try {
+    const organizationId = req.organizationId!;
+    const { ids, add = [], remove = [] } = req.body;
+
+    if (remove.length > 0) {
+      await tagMediaFiles(organizationId, ids, remove, 'remove');
+    }
+    if (add.length > 0) {
+      await tagMediaFiles(organizationId, ids, add, 'add');
+    }
+
+    res.json({ message: 'Media files tagged successfully' });
+  } catch (error) {
+    console.error('Bulk tag media error:', error);
+    res.status(500).json({ error: 'Internal server error' });
+  }
+});
+
+// Delete media files (admin only)
+router.delete('/bulk', authenticate, requireScope('write:media'), requireAuthor, requireOrganization, validate(bulkDeleteMediaSchema), async (req: Request, res: Response) => {
+  try {
+    const organizationId = req.organizationId!;
+    const existingFiles = await query(
+      'SELECT id, filename FROM media_files WHERE id = ANY($1) AND organization_id = $2',
+      [req.body.ids, organizationId]
+    );
+
+    // Files still used in content are only deleted when forced
+    if (!req.body.force && existingFiles.rows.length > 0) {
+      const usages = await mediaUsageService.countUsages(organizationId, existingFiles.rows.map((row) => row.id));
+      if (!usages.success) {
+        return res.status(500).json({ error: 'Internal server error' });
+      }
+      if (usages.data!.size > 0) {
+        return res.status(409).json({
+          error: `${usages.data!.size} of the media files ${usages.data!.size === 1 ? 'is' : 'are'} still in use`,
+          inUse: Array.from(usages.data!, ([id, usageCount]) => ({ id, usage_count: usageCount })),
+        });
+      }
+    }
+
+    let totalStorageBytes = 0;
+    const deletedIds: number[] = [];
+    for (const mediaFile of existingFiles.rows) {
+      totalStorageBytes += await removeStoredMedia(mediaFile);
+      await query('DELETE FROM media_files WHERE id = $1 AND organization_id = $2', [mediaFile.id, organizationId]);
+      deletedIds.push(mediaFile.id);
+    }
+
+    await releaseStorageQuota(req, organizationId, totalStorageBytes, deletedIds);
+
+    res.json({ message: 'Media files deleted successfully', deleted: deletedIds.length });
+  } catch (error) {
+    console.error('Bulk delete media error:', error);
+    res.status(500).json({ error: 'Internal server error' });
+  }
+});
+
+// Groups of exact and near-duplicate files (admin only)
+// GET /api/media/duplicates?max_distance=8
+// max_distance is how many of the 64 perceptual hash bits may differ
+router.get('/duplicates', authenticate, requireScope('read:media'), requireAuthor, requireOrganization, async (req: Request, res: Response) => {
+  try {
+    const maxDistance = req.query.max_distance === undefined ? DEFAULT_NEAR_DUPLICATE_DISTANCE : Number(req.query.max_distance);
+    if (!Number.isInteger(maxDistance) || maxDistance < 0 || maxDistance > MAX_NEAR_DUPLICATE_DISTANCE) {
+      return res.status(400).json({ error: `max_distance must be a whole number from 0 to ${MAX_NEAR_DUPLICATE_DISTANCE}` });
+    }
+
+    const result = await mediaDedupService.findNearDuplicates(req.organizationId!, maxDistance);
+    if (!result.success) {
+      return res.status(500).json({ error: 'Internal server error' });
+    }
+
+    res.json({ data: result.data });
+  } catch (error) {
+    console.error('Find duplicate media error:', error);
+    res.status(500).json({ error: 'Internal server error' });
+  }
+});
+
+// Merge duplicates into one file and delete them (admin only)
+// Posts, pages and the organization logo using a merged file are changed to use the kept one.
+router.post('/duplicates/merge', authenticate, requireScope('write:media'), requireAuthor, requireOrganization, validate(mergeMediaSchema), async (req: Request, res: Response) => {
+  try {
+    const organizationId = req.organizationId!;
+    const { keep_id: keepId, merge_ids: mergeIds } = req.body;
+
+    const result = await mediaDedupService.mergeMediaFiles(organizationId, keepId, mergeIds);
+    if (!result.success) {
+      return res.status(serviceErrorStatus(result.errorCode)).json({ error: result.error });
+    }
+
+    let totalStorageBytes = 0;
+    for (const mediaFile of result.data!.merged) {
+      totalStorageBytes += await removeStoredMedia(mediaFile);
+    }
+    const mergedIds = result.data!.merged.map((mediaFile) => mediaFile.id);
+    await query('DELETE FROM media_files WHERE id = ANY($1) AND organization_id = $2', [mergedIds, organizationId]);
+    await releaseStorageQuota(req, organizationId, totalStorageBytes, mergedIds);
+
+    res.json({
+      message: 'Media files merged successfully',
+      data: await getMediaFile(organizationId, keepId),
+      merged: mergedIds.length,
+      updated: result.data!.sourcesUpdated
+    });
+  } catch (error) {
+    console.error('Merge media error:', error);
+    res.status(500).json({ error: 'Internal server error' });
+  }
+});
+
+// Upload single file (admin only) with basic image optimization
+router.post('/upload', authenticate, requireScope('write:media'), requireAuthor, requireOrganization, uploadSingleFile, returnExistingUpload, enforceStorageQuota({ derivatives: true }), async (req: Request, res: Response) => {
   try {
     if (!req.file) {
       return res.status(400).json({ error: 'No file uploaded' });
@@ -142,58 +548,60 @@ router.post('/upload', authenticateToken, requireAuthor, (req: Request, res: Res
 
     const { alt_text } = req.body;
     const userId = req.user?.userId;
+    const folderId = await uploadFolderId(req);
+    if (folderId === undefined) {
+      return res.status(400).json({ error: 'Folder not found' });
+    }
+    const hashes = await mediaHashes(req.file.buffer, req.file.mimetype);
+    const filename = uniqueStorageKey(req.file.originalname);
+    await mediaStorage.put(filename, req.file.buffer, { contentType: req.file.mimetype });
 
     // If image, generate a web-optimized copy (webp) and a thumbnail
-    let storedPath = `/uploads/${req.file.filename}`;
+    let storedPath = `/uploads/${filename}`;
     let totalStorageBytes = req.file.size; // Start with original file size
-    const fullPath = path.join(__dirname, '../../uploads', req.file.filename);
     const ext = path.extname(req.file.originalname).toLowerCase();
-    const isImage = ['.jpg', '.jpeg', '.png', '.webp'].includes(ext);
+    const isImage = OPTIMIZED_IMAGE_EXTENSIONS.includes(ext);
 
     try {
       if (isImage) {
-        const baseName = path.basename(req.file.filename, ext);
-        const webpName = `${baseName}.webp`;
-        const thumbName = `${baseName}-thumb.webp`;
-        const webpPath = path.join(__dirname, '../../uploads', webpName);
-        const thumbPath = path.join(__dirname, '../../uploads', thumbName);
-
-        await sharp(fullPath).rotate().resize({ width: 1600, withoutEnlargement: true }).webp({ quality: 82 }).toFile(webpPath);
-        await sharp(fullPath).rotate().resize({ width: 480, withoutEnlargement: true }).webp({ quality: 78 }).toFile(thumbPath);
+        const [webpName, thumbName] = derivativeKeys(filename);
+        const [webp, thumb] = await renderImageCopies(req.file.buffer);
 
+        await mediaStorage.put(webpName, webp, { contentType: 'image/webp' });
         // P1 bug fix: Account for all derivative files in storage quota (SF-010)
-        // Calculate actual total storage: original + webp + thumbnail
-        if (fs.existsSync(webpPath)) {
-          totalStorageBytes += fs.statSync(webpPath).size;
-        }
-        if (fs.existsSync(thumbPath)) {
-          totalStorageBytes += fs.statSync(thumbPath).size;
-        }
+        totalStorageBytes += webp.length;
+
+        await mediaStorage.put(thumbName, thumb, { contentType: 'image/webp' });
+        totalStorageBytes += thumb.length;
 
         // prefer webp as canonical path
         storedPath = `/uploads/${webpName}`;
       }
     } catch (e) {
-      // If optimization fails, fall back to original upload
-      // totalStorageBytes already set to req.file.size
+      // If optimization fails, fall back to the original upload
+      // totalStorageBytes counts what was stored
     }
 
     const insertQuery = `
       INSERT INTO media_files (
         filename, original_name, file_path, file_size, mime_type, 
-        alt_text, uploaded_by
-      ) VALUES ($1, $2, $3, $4, $5, $6, $7)
+        alt_text, uploaded_by, folder_id, content_hash, perceptual_hash, organization_id
+      ) VALUES ($1, $2, $3, $4, $5, $6, $7, $8, $9, $10, $11)
       RETURNING *
     `;
 
     const values = [
-      req.file.filename,
+      filename,
       req.file.originalname,
       storedPath,
       req.file.size,
       req.file.mimetype,
       alt_text,
-      userId
+      userId,
+      folderId,
+      hashes.content_hash,
+      hashes.perceptual_hash,
+      req.organizationId
     ];
 
     const result = await query(insertQuery, values);
@@ -228,23 +636,7 @@ router.post('/upload', authenticateToken, requireAuthor, (req: Request, res: Res
         }
 
         // Rollback: Delete all uploaded files (original + derivatives)
-        const ext = path.extname(req.file.filename);
-        const baseName = path.basename(req.file.filename, ext);
-        const filesToDelete = [
-          path.join(__dirname, '../../uploads', req.file.filename), // Original
-          path.join(__dirname, '../../uploads', `${baseName}.webp`), // WebP
-          path.join(__dirname, '../../uploads', `${baseName}-thumb.webp`), // Thumbnail
-        ];
-
-        for (const filePath of filesToDelete) {
-          try {
-            if (fs.existsSync(filePath)) {
-              fs.unlinkSync(filePath);
-            }
-          } catch (fileError) {
-            console.error(`[CRITICAL] Failed to delete file during rollback: ${filePath}`, fileError);
-          }
-        }
+        await deleteStoredFiles(storedKeys(filename));
 
         return res.status(500).json({
           error: 'Upload failed due to quota tracking error',
@@ -264,39 +656,60 @@ router.post('/upload', authenticateToken, requireAuthor, (req: Request, res: Res
 });
 
 // Upload multiple files (admin only)
-router.post('/upload-multiple', authenticateToken, requireAuthor, upload.array('files', 10), enforceStorageQuota({ derivatives: false }), async (req: Request, res: Response) => {
+router.post('/upload-multiple', authenticate, requireScope('write:media'), requireAuthor, requireOrganization, upload.array('files', 10), setAsideExistingUploads, enforceStorageQuota({ derivatives: false }), async (req: Request, res: Response) => {
   try {
     const files = req.files as Express.Multer.File[];
-    
-    if (!files || files.length === 0) {
+    const uploadHashes: string[] | undefined = res.locals.uploadHashes;
+
+    if (!uploadHashes || uploadHashes.length === 0) {
       return res.status(400).json({ error: 'No files uploaded' });
     }
 
     const userId = req.user?.userId;
-    const uploadedFiles = [];
+    const folderId = await uploadFolderId(req);
+    if (folderId === undefined) {
+      return res.status(400).json({ error: 'Folder not found' });
+    }
+    // Files set aside as copies, joined by the files stored below
+    const mediaFiles: Map<string, any> = res.locals.existingFiles;
+    const insertedFiles = [];
 
     let totalBytes = 0;
+    const storedFiles: string[] = [];
     for (const file of files) {
+      const hashes = await mediaHashes(file.buffer, file.mimetype);
+      const filename = uniqueStorageKey(file.originalname);
+      await mediaStorage.put(filename, file.buffer, { contentType: file.mimetype });
+      storedFiles.push(filename);
+
       const insertQuery = `
         INSERT INTO media_files (
-          filename, original_name, file_path, file_size, mime_type, uploaded_by
-        ) VALUES ($1, $2, $3, $4, $5, $6)
+          filename, original_name, file_path, file_size, mime_type, uploaded_by, folder_id,
+          content_hash, perceptual_hash, organization_id
+        ) VALUES ($1, $2, $3, $4, $5, $6, $7, $8, $9, $10)
         RETURNING *
       `;
 
       const values = [
-        file.filename,
+        filename,
         file.originalname,
-        `/uploads/${file.filename}`,
+        `/uploads/${filename}`,
         file.size,
         file.mimetype,
-        userId
+        userId,
+        folderId,
+        hashes.content_hash,
+        hashes.perceptual_hash,
+        req.organizationId
       ];
 
       const result = await query(insertQuery, values);
-      uploadedFiles.push(result.rows[0]);
+      insertedFiles.push(result.rows[0]);
+      mediaFiles.set(hashes.content_hash, result.rows[0]);
       totalBytes += file.size;
     }
+    const uploadedFiles = uploadHashes.map((hash) => mediaFiles.get(hash));
+    const duplicates = uploadHashes.length - files.length;
 
     // P1 bug fix: Skip quota tracking for enterprise tier (SF-010)
     // Increment quota after successful upload (SF-010)
@@ -313,14 +726,14 @@ router.post('/upload-multiple', authenticateToken, requireAuthor, upload.array('
       // P1 bug fix: Rollback uploads if quota increment fails (SF-010)
       if (!incrementResult.success || !incrementResult.data) {
         console.error('[CRITICAL] Quota increment failed, rolling back multiple uploads:', {
-          fileCount: uploadedFiles.length,
+          fileCount: insertedFiles.length,
           organizationId,
           totalBytes,
           error: incrementResult.error,
         });
 
-        // Rollback: Delete all database records
-        const mediaIds = uploadedFiles.map(f => f.id);
+        // Rollback: Delete all database records of this upload
+        const mediaIds = insertedFiles.map(f => f.id);
         try {
           await query('DELETE FROM media_files WHERE id = ANY($1::int[])', [mediaIds]);
         } catch (dbError) {
@@ -328,16 +741,7 @@ router.post('/upload-multiple', authenticateToken, requireAuthor, upload.array('
         }
 
         // Rollback: Delete all uploaded files
-        for (const file of files) {
-          try {
-            const filePath = path.join(__dirname, '../../uploads', file.filename);
-            if (fs.existsSync(filePath)) {
-              fs.unlinkSync(filePath);
-            }
-          } catch (fileError) {
-            console.error(`[CRITICAL] Failed to delete file during rollback: ${file.filename}`, fileError);
-          }
-        }
+        await deleteStoredFiles(storedFiles);
 
         return res.status(500).json({
           error: 'Upload failed due to quota tracking error',
@@ -348,7 +752,8 @@ router.post('/upload-multiple', authenticateToken, requireAuthor, upload.array('
 
     res.status(201).json({
       message: 'Files uploaded successfully',
-      data: uploadedFiles
+      data: uploadedFiles,
+      duplicates
     });
   } catch (error) {
     console.error('Multiple upload error:', error);
@@ -356,27 +761,37 @@ router.post('/upload-multiple', authenticateToken, requireAuthor, upload.array('
   }
 });
 
-// Update media file metadata (admin only)
-router.put('/:id', authenticateToken, requireAuthor, async (req: Request, res: Response) => {
+// Update media file metadata, folder and tags (admin only)
+router.put('/:id', authenticate, requireScope('write:media'), requireAuthor, requireOrganization, validate(updateMediaSchema), async (req: Request, res: Response) => {
   try {
     const { id } = req.params;
-    const { alt_text } = req.body;
+    const organizationId = req.organizationId!;
 
-    // Check if media file exists
-    const existingFile = await query('SELECT * FROM media_files WHERE id = $1', [id]);
+    // Check if media file exists in this organization
+    const existingFile = await query('SELECT * FROM media_files WHERE id = $1 AND organization_id = $2', [id, organizationId]);
     if (existingFile.rows.length === 0) {
       return res.status(404).json({ error: 'Media file not found' });
     }
 
-    const updateQuery = `
-      UPDATE media_files 
-      SET alt_text = $1
-      WHERE id = $2
-      RETURNING *
-    `;
+    if (req.body.folder_id && !(await findMediaFolder(req.body.folder_id, organizationId))) {
+      return res.status(400).json({ error: 'Folder not found' });
+    }
 
-    const result = await query(updateQuery, [alt_text, id]);
-    const updatedFile = result.rows[0];
+    // Only the fields sent are changed; empty text clears a field
+    const fields = ['alt_text', 'caption', 'credit', 'license', 'folder_id'].filter((field) => req.body[field] !== undefined);
+    if (fields.length > 0) {
+      const assignments = fields.map((field, index) => `${field} = $${index + 1}`);
+      const values = fields.map((field) => (req.body[field] === '' ? null : req.body[field]));
+      await query(
+        `UPDATE media_files SET ${assignments.join(', ')} WHERE id = $${fields.length + 1} AND organization_id = $${fields.length + 2}`,
+        [...values, id, organizationId]
+      );
+    }
+    if (req.body.tags) {
+      await tagMediaFiles(organizationId, [Number(id)], req.body.tags, 'replace');
+    }
+
+    const updatedFile = await getMediaFile(organizationId, id);
 
     res.json({
       message: 'Media file updated successfully',
@@ -389,105 +804,257 @@ router.put('/:id', authenticateToken, requireAuthor, async (req: Request, res: R
 });
 
 // Delete media file (admin only)
-router.delete('/:id', authenticateToken, requireAuthor, async (req: Request, res: Response) => {
+// DELETE /api/media/12?force=true also deletes a file that is still in use
+router.delete('/:id', authenticate, requireScope('write:media'), requireAuthor, requireOrganization, async (req: Request, res: Response) => {
   try {
     const { id } = req.params;
+    const organizationId = req.organizationId!;
 
-    // Check if media file exists
-    const existingFile = await query('SELECT * FROM media_files WHERE id = $1', [id]);
+    // Check if media file exists in this organization
+    const existingFile = await query('SELECT * FROM media_files WHERE id = $1 AND organization_id = $2', [id, organizationId]);
     if (existingFile.rows.length === 0) {
       return res.status(404).json({ error: 'Media file not found' });
     }
 
-    const mediaFile = existingFile.rows[0];
+    // Deleting a file still used in content would leave broken images
+    if (req.query.force !== 'true') {
+      const usages = await mediaUsageService.listUsages(organizationId, existingFile.rows[0].id);
+      if (!usages.success) {
+        return res.status(500).json({ error: 'Internal server error' });
+      }
+      if (usages.data!.length > 0) {
+        return res.status(409).json({
+          error: `The media file is still used in ${usages.data!.length} place${usages.data!.length === 1 ? '' : 's'}`,
+          usages: usages.data,
+        });
+      }
+    }
 
     // P1 bug fix: Calculate total storage before deletion for quota decrement (SF-010)
-    // For images, we created: original, webp, and thumbnail
-    const filePath = path.join(__dirname, '../../uploads', mediaFile.filename);
-    const ext = path.extname(mediaFile.filename);
-    const baseName = path.basename(mediaFile.filename, ext);
-    const webpPath = path.join(__dirname, '../../uploads', `${baseName}.webp`);
-    const thumbPath = path.join(__dirname, '../../uploads', `${baseName}-thumb.webp`);
-
-    // Calculate total storage used (before deletion)
-    let totalStorageBytes = 0;
-    if (fs.existsSync(filePath)) {
-      totalStorageBytes += fs.statSync(filePath).size;
+    // For images, we created: original, webp, and thumbnail, plus any transforms
+    const totalStorageBytes = await removeStoredMedia(existingFile.rows[0]);
+
+    // Delete from database
+    await query('DELETE FROM media_files WHERE id = $1 AND organization_id = $2', [id, organizationId]);
+
+    // Decrement storage quota after deletion (SF-010)
+    await releaseStorageQuota(req, organizationId, totalStorageBytes, id);
+
+    res.json({ message: 'Media file deleted successfully' });
+  } catch (error) {
+    console.error('Delete media error:', error);
+    res.status(500).json({ error: 'Internal server error' });
+  }
+});
+
+// Posts, pages and organization settings using a media file (admin only)
+// GET /api/media/12/usages
+router.get('/:id/usages', authenticate, requireScope('read:media'), requireAuthor, requireOrganization, async (req: Request, res: Response) => {
+  try {
+    const mediaFile = await getMediaFile(req.organizationId!, req.params.id);
+    if (!mediaFile) {
+      return res.status(404).json({ error: 'Media file not found' });
+    }
+
+    const result = await mediaUsageService.listUsages(req.organizationId!, mediaFile.id);
+    if (!result.success) {
+      return res.status(500).json({ error: 'Internal server error' });
     }
-    if (fs.existsSync(webpPath)) {
-      totalStorageBytes += fs.statSync(webpPath).size;
+
+    res.json({ data: result.data });
+  } catch (error) {
+    console.error('Get media usages error:', error);
+    res.status(500).json({ error: 'Internal server error' });
+  }
+});
+
+// Replace the file behind a media item, keeping its id and URLs (admin only)
+// Content using it shows the new file without being edited.
+router.post('/:id/replace', authenticate, requireScope('write:media'), requireAuthor, requireOrganization, uploadSingleFile, enforceStorageQuota({ derivatives: true }), async (req: Request, res: Response) => {
+  try {
+    const { id } = req.params;
+    const organizationId = req.organizationId!;
+
+    if (!req.file) {
+      return res.status(400).json({ error: 'No file uploaded' });
     }
-    if (fs.existsSync(thumbPath)) {
-      totalStorageBytes += fs.statSync(thumbPath).size;
+
+    const existingFile = await query('SELECT * FROM media_files WHERE id = $1 AND organization_id = $2', [id, organizationId]);
+    if (existingFile.rows.length === 0) {
+      return res.status(404).json({ error: 'Media file not found' });
     }
+    const mediaFile = existingFile.rows[0];
 
-    // Delete files
-    if (fs.existsSync(filePath)) {
-      fs.unlinkSync(filePath);
+    // Images are served from their web-optimized copy, so any optimizable
+    // image can take their place. Other files are served as uploaded, so the
+    // replacement must keep the extension of their URL.
+    const currentExt = path.extname(mediaFile.filename).toLowerCase();
+    const ext = path.extname(req.file.originalname).toLowerCase();
+    const [webpName, thumbName] = derivativeKeys(mediaFile.filename);
+    const optimized = mediaFile.file_path === `/uploads/${webpName}`;
+    if (optimized && !OPTIMIZED_IMAGE_EXTENSIONS.includes(ext)) {
+      return res.status(400).json({ error: 'Replace an image with a JPEG, PNG or WebP image' });
     }
-    if (fs.existsSync(webpPath)) {
-      fs.unlinkSync(webpPath);
+    if (!optimized && ext !== currentExt) {
+      return res.status(400).json({ error: `Replace the file with another ${currentExt || 'file without extension'} file` });
     }
-    if (fs.existsSync(thumbPath)) {
-      fs.unlinkSync(thumbPath);
+
+    let copies: Buffer[] = [];
+    if (optimized) {
+      try {
+        copies = await renderImageCopies(req.file.buffer);
+      } catch (e) {
+        return res.status(400).json({ error: 'The image could not be processed' });
+      }
     }
 
-    // Delete from database
-    await query('DELETE FROM media_files WHERE id = $1', [id]);
+    // Same base name, so the web-optimized copy keeps its key
+    const filename = optimized ? `${path.basename(mediaFile.filename, path.extname(mediaFile.filename))}${ext}` : mediaFile.filename;
 
-    // P1 bug fix: Skip quota tracking for enterprise tier (SF-010)
-    // Decrement storage quota after deletion (SF-010)
-    const organizationId = req.user?.organizationId;
-    const isEnterprise = (req as any).isEnterpriseTier;
+    let previousStorageBytes = 0;
+    for (const key of storedKeys(mediaFile.filename)) {
+      previousStorageBytes += (await mediaStorage.stat(key))?.size ?? 0;
+    }
+    const totalStorageBytes = req.file.size + copies.reduce((total, copy) => total + copy.length, 0);
 
-    if (organizationId && !isEnterprise && totalStorageBytes > 0) {
-      const decrementResult = await quotaService.decrementQuota({
+    // Count a larger file against the quota before storing it
+    const isEnterprise = (req as any).isEnterpriseTier;
+    if (!isEnterprise && totalStorageBytes > previousStorageBytes) {
+      const incrementResult = await quotaService.incrementQuota({
         organizationId,
         dimension: 'storage_bytes',
-        amount: totalStorageBytes,
+        amount: totalStorageBytes - previousStorageBytes,
       });
-
-      if (!decrementResult.success) {
-        // Log error but don't fail the deletion - media is already deleted
-        console.error('[WARNING] Media deleted but quota decrement failed:', {
-          mediaId: id,
-          organizationId,
-          storageBytes: totalStorageBytes,
-          error: decrementResult.error,
+      if (!incrementResult.success || !incrementResult.data) {
+        return res.status(500).json({
+          error: 'Replace failed due to quota tracking error',
+          details: incrementResult.error,
         });
       }
     }
 
-    res.json({ message: 'Media file deleted successfully' });
+    await mediaStorage.put(filename, req.file.buffer, { contentType: req.file.mimetype });
+    if (optimized) {
+      await mediaStorage.put(webpName, copies[0], { contentType: 'image/webp' });
+      await mediaStorage.put(thumbName, copies[1], { contentType: 'image/webp' });
+    }
+    const keptKeys = storedKeys(filename);
+    await deleteStoredFiles(storedKeys(mediaFile.filename).filter((key) => !keptKeys.includes(key)));
+
+    // Transforms of the old file are rendered again on request
+    const derivatives = await imageTransformService.deleteDerivatives(mediaFile.id);
+    if (!derivatives.success) {
+      throw new Error(derivatives.error);
+    }
+
+    const hashes = await mediaHashes(req.file.buffer, req.file.mimetype);
+    await query(
+      `UPDATE media_files SET filename = $1, original_name = $2, file_size = $3, mime_type = $4,
+         content_hash = $5, perceptual_hash = $6, version = version + 1
+       WHERE id = $7 AND organization_id = $8`,
+      [
+        filename,
+        req.file.originalname,
+        req.file.size,
+        req.file.mimetype,
+        hashes.content_hash,
+        hashes.perceptual_hash,
+        mediaFile.id,
+        organizationId
+      ]
+    );
+
+    await releaseStorageQuota(
+      req,
+      organizationId,
+      Math.max(0, previousStorageBytes - totalStorageBytes) + derivatives.data!,
+      mediaFile.id
+    );
+
+    res.json({
+      message: 'Media file replaced successfully',
+      data: await getMediaFile(organizationId, mediaFile.id)
+    });
   } catch (error) {
-    console.error('Delete media error:', error);
+    console.error('Replace media error:', error);
     res.status(500).json({ error: 'Internal server error' });
   }
 });
 
-// Get media file info (admin only)
-router.get('/:id', authenticateToken, requireAuthor, async (req: Request, res: Response) => {
+// Signed URL of the image transformed as asked, for sizes and formats the
+// content srcsets don't offer (admin only)
+// GET /api/media/12/transform-url?w=640&h=480&fit=cover&format=avif
+router.get('/:id/transform-url', authenticate, requireScope('read:media'), requireAuthor, requireOrganization, async (req: Request, res: Response) => {
   try {
-    const { id } = req.params;
+    const transform = parseImageTransform(req.query);
+    if (!transform.success) {
+      return res.status(400).json({ error: transform.error });
+    }
 
-    const mediaQuery = `
-      SELECT 
-        m.*,
-        u.first_name, u.last_name, u.email as uploader_email
-      FROM media_files m
-      LEFT JOIN users u ON m.uploaded_by = u.id
-      WHERE m.id = $1
-    `;
+    const mediaFile = await getMediaFile(req.organizationId!, req.params.id);
+    if (!mediaFile) {
+      return res.status(404).json({ error: 'Media file not found' });
+    }
+    if (!isTransformableImage(mediaFile.mime_type)) {
+      return res.status(400).json({ error: 'Only images can be transformed' });
+    }
 
-    const result = await query(mediaQuery, [id]);
+    res.json({ data: { url: imageTransformUrl(mediaFile.id, transform.data!, mediaFile.version) } });
+  } catch (error) {
+    console.error('Get media transform URL error:', error);
+    res.status(500).json({ error: 'Internal server error' });
+  }
+});
 
-    if (result.rows.length === 0) {
+// Image resized, cropped or converted as the signed parameters ask (public)
+// GET /api/media/12/transform?w=640&h=480&fit=cover&format=avif&sig=...
+router.get('/:id/transform', async (req: Request, res: Response) => {
+  try {
+    const mediaId = Number(req.params.id);
+    if (!Number.isInteger(mediaId) || mediaId < 1) {
+      return res.status(404).json({ error: 'Media file not found' });
+    }
+
+    const transform = parseImageTransform(req.query);
+    if (!transform.success) {
+      return res.status(400).json({ error: transform.error });
+    }
+
+    const result = await imageTransformService.getTransformedImage(mediaId, transform.data!, String(req.query.sig || ''));
+    if (!result.success) {
+      return res.status(serviceErrorStatus(result.errorCode)).json({ error: result.error });
+    }
+
+    // The signed URL always renders the same image
+    res.set('Content-Type', result.data!.contentType);
+    res.set('Cache-Control', 'public, max-age=31536000, immutable');
+    const { body } = result.data!;
+    if (Buffer.isBuffer(body)) {
+      return res.send(body);
+    }
+    body.on('error', (error) => {
+      console.error('Transformed image stream error:', error);
+      res.destroy(error);
+    });
+    body.pipe(res);
+  } catch (error) {
+    console.error('Transform media error:', error);
+    res.status(500).json({ error: 'Internal server error' });
+  }
+});
+
+// Get media file info (admin only)
+router.get('/:id', authenticate, requireScope('read:media'), requireAuthor, requireOrganization, async (req: Request, res: Response) => {
+  try {
+    const mediaFile = await getMediaFile(req.organizationId!, req.params.id);
+
+    if (!mediaFile) {
       return res.status(404).json({ error: 'Media file not found' });
     }
 
     res.json({
-      mediaFile: result.rows[0],
-      data: result.rows[0]
+      mediaFile,
+      data: mediaFile
     });
   } catch (error) {
     console.error('Get media file error:', error);
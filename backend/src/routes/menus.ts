@@ -2,6 +2,7 @@ import { Router, Request, Response } from 'express';
 import { pool } from '../utils/database';
 import { authenticateToken, requireAdmin } from '../middleware/auth';
 import { validateRequest } from '../middleware/validation';
+import { requireOrganization } from '../middleware/tenancy';
 import Joi from 'joi';
 
 const router = Router();
@@ -56,7 +57,8 @@ router.get('/site/:siteId', async (req: Request, res: Response) => {
       `SELECT
         mi.*,
         p.title as page_title,
-        p.slug as page_slug
+        p.slug as page_slug,
+        p.path as page_path
       FROM menu_items mi
       LEFT JOIN pages p ON mi.page_id = p.id
       WHERE mi.site_id = $1
@@ -86,6 +88,7 @@ router.get('/site/:siteId/tree', async (req: Request, res: Response) => {
           mi.*,
           p.title as page_title,
           p.slug as page_slug,
+          p.path as page_path,
           0 as level
         FROM menu_items mi
         LEFT JOIN pages p ON mi.page_id = p.id
@@ -97,6 +100,7 @@ router.get('/site/:siteId/tree', async (req: Request, res: Response) => {
           mi.*,
           p.title as page_title,
           p.slug as page_slug,
+          p.path as page_path,
           mt.level + 1
         FROM menu_items mi
         LEFT JOIN pages p ON mi.page_id = p.id
@@ -116,7 +120,7 @@ router.get('/site/:siteId/tree', async (req: Request, res: Response) => {
 });
 
 // Get menu items for a domain (legacy support)
-router.get('/domain/:domainId', authenticateToken, requireAdmin, async (req: Request, res: Response) => {
+router.get('/domain/:domainId', authenticateToken, requireAdmin, requireOrganization, async (req: Request, res: Response) => {
   try {
     const domainId = parseInt(req.params.domainId);
 
@@ -128,12 +132,13 @@ router.get('/domain/:domainId', authenticateToken, requireAdmin, async (req: Req
       `SELECT
         mi.*,
         p.title as page_title,
-        p.slug as page_slug
+        p.slug as page_slug,
+        p.path as page_path
       FROM menu_items mi
       LEFT JOIN pages p ON mi.page_id = p.id
-      WHERE mi.domain_id = $1
+      WHERE mi.domain_id = $1 AND mi.organization_id = $2
       ORDER BY mi.parent_id NULLS FIRST, mi.position ASC`,
-      [domainId]
+      [domainId, req.organizationId]
     );
 
     res.json(result.rows);
@@ -158,6 +163,7 @@ router.get('/domain/:domainId/tree', async (req: Request, res: Response) => {
           mi.*,
           p.title as page_title,
           p.slug as page_slug,
+          p.path as page_path,
           0 as level
         FROM menu_items mi
         LEFT JOIN pages p ON mi.page_id = p.id
@@ -169,6 +175,7 @@ router.get('/domain/:domainId/tree', async (req: Request, res: Response) => {
           mi.*,
           p.title as page_title,
           p.slug as page_slug,
+          p.path as page_path,
           mt.level + 1
         FROM menu_items mi
         LEFT JOIN pages p ON mi.page_id = p.id
@@ -188,7 +195,7 @@ router.get('/domain/:domainId/tree', async (req: Request, res: Response) => {
 });
 
 // Get single menu item
-router.get('/:id', authenticateToken, requireAdmin, async (req: Request, res: Response) => {
+router.get('/:id', authenticateToken, requireAdmin, requireOrganization, async (req: Request, res: Response) => {
   try {
     const id = parseInt(req.params.id);
 
@@ -197,8 +204,8 @@ router.get('/:id', authenticateToken, requireAdmin, async (req: Request, res: Re
     }
 
     const result = await pool.query(
-      'SELECT * FROM menu_items WHERE id = $1',
-      [id]
+      'SELECT * FROM menu_items WHERE id = $1 AND organization_id = $2',
+      [id, req.organizationId]
     );
 
     if (result.rows.length === 0) {
@@ -216,10 +223,12 @@ router.get('/:id', authenticateToken, requireAdmin, async (req: Request, res: Re
 router.post('/',
   authenticateToken,
   requireAdmin,
+  requireOrganization,
   validateRequest(createMenuItemSchema),
   async (req: Request, res: Response) => {
     try {
       const { domain_id, parent_id, label, url, page_id, position, is_active } = req.body;
+      const organizationId = req.organizationId!;
 
       // Validate domain exists
       const domainCheck = await pool.query(
@@ -231,11 +240,16 @@ router.post('/',
         return res.status(400).json({ error: 'Domain not found' });
       }
 
+      // Linked page must belong to the same organization
+      if (page_id && !(await pageBelongsToOrganization(page_id, organizationId))) {
+        return res.status(400).json({ error: 'Page not found' });
+      }
+
       // Validate parent exists if provided
       if (parent_id) {
         const parentResult = await pool.query(
-          'SELECT id, depth FROM menu_items WHERE id = $1 AND domain_id = $2',
-          [parent_id, domain_id]
+          'SELECT id, depth FROM menu_items WHERE id = $1 AND domain_id = $2 AND organization_id = $3',
+          [parent_id, domain_id, organizationId]
         );
 
         if (parentResult.rows.length === 0) {
@@ -260,10 +274,10 @@ router.post('/',
 
       // Insert menu item
       const result = await pool.query(
-        `INSERT INTO menu_items (domain_id, parent_id, label, url, page_id, position, is_active)
-        VALUES ($1, $2, $3, $4, $5, $6, $7)
+        `INSERT INTO menu_items (domain_id, parent_id, label, url, page_id, position, is_active, organization_id)
+        VALUES ($1, $2, $3, $4, $5, $6, $7, $8)
         RETURNING *`,
-        [domain_id, parent_id || null, label, url || null, page_id || null, finalPosition, is_active !== false]
+        [domain_id, parent_id || null, label, url || null, page_id || null, finalPosition, is_active !== false, organizationId]
       );
 
       res.status(201).json(result.rows[0]);
@@ -278,6 +292,7 @@ router.post('/',
 router.put('/:id',
   authenticateToken,
   requireAdmin,
+  requireOrganization,
   validateRequest(updateMenuItemSchema),
   async (req: Request, res: Response) => {
     try {
@@ -288,6 +303,12 @@ router.put('/:id',
       }
 
       const { label, url, page_id, position, is_active, parent_id } = req.body;
+      const organizationId = req.organizationId!;
+
+      // Linked page must belong to the same organization
+      if (page_id && !(await pageBelongsToOrganization(page_id, organizationId))) {
+        return res.status(400).json({ error: 'Page not found' });
+      }
 
       // Build update query dynamically
       const updates = [];
@@ -345,10 +366,10 @@ router.put('/:id',
       }
 
       updates.push(`updated_at = NOW()`);
-      values.push(id);
+      values.push(id, organizationId);
 
       const result = await pool.query(
-        `UPDATE menu_items SET ${updates.join(', ')} WHERE id = $${valueIndex} RETURNING *`,
+        `UPDATE menu_items SET ${updates.join(', ')} WHERE id = $${valueIndex} AND organization_id = $${valueIndex + 1} RETURNING *`,
         values
       );
 
@@ -365,7 +386,7 @@ router.put('/:id',
 );
 
 // Delete menu item
-router.delete('/:id', authenticateToken, requireAdmin, async (req: Request, res: Response) => {
+router.delete('/:id', authenticateToken, requireAdmin, requireOrganization, async (req: Request, res: Response) => {
   try {
     const id = parseInt(req.params.id);
 
@@ -374,8 +395,8 @@ router.delete('/:id', authenticateToken, requireAdmin, async (req: Request, res:
     }
 
     const result = await pool.query(
-      'DELETE FROM menu_items WHERE id = $1 RETURNING id',
-      [id]
+      'DELETE FROM menu_items WHERE id = $1 AND organization_id = $2 RETURNING id',
+      [id, req.organizationId]
     );
 
     if (result.rows.length === 0) {
@@ -393,6 +414,7 @@ router.delete('/:id', authenticateToken, requireAdmin, async (req: Request, res:
 router.put('/domain/:domainId/reorder',
   authenticateToken,
   requireAdmin,
+  requireOrganization,
   validateRequest(reorderSchema),
   async (req: Request, res: Response) => {
     const client = await pool.connect();
@@ -416,11 +438,11 @@ router.put('/domain/:domainId/reorder',
         return res.status(400).json({ error: 'Domain not found' });
       }
 
-      // Validate all item IDs exist and belong to this domain
+      // Validate all item IDs exist and belong to this domain and organization
       const itemIds = items.map((item: any) => item.id);
       const itemCheck = await client.query(
-        'SELECT id FROM menu_items WHERE domain_id = $1 AND id = ANY($2::int[])',
-        [domainId, itemIds]
+        'SELECT id FROM menu_items WHERE domain_id = $1 AND id = ANY($2::int[]) AND organization_id = $3',
+        [domainId, itemIds, req.organizationId]
       );
 
       if (itemCheck.rows.length !== items.length) {
@@ -455,6 +477,7 @@ router.put('/domain/:domainId/reorder',
 router.post('/domain/:fromDomainId/duplicate',
   authenticateToken,
   requireAdmin,
+  requireOrganization,
   async (req: Request, res: Response) => {
     const client = await pool.connect();
 
@@ -482,15 +505,15 @@ router.post('/domain/:fromDomainId/duplicate',
 
       await client.query('BEGIN');
 
-      // Delete existing menu items in target domain
+      // Delete this organization's existing menu items in target domain
       await client.query(
-        'DELETE FROM menu_items WHERE domain_id = $1',
-        [toDomainId]
+        'DELETE FROM menu_items WHERE domain_id = $1 AND organization_id = $2',
+        [toDomainId, req.organizationId]
       );
 
       // Copy menu structure
       await client.query(
-        `INSERT INTO menu_items (domain_id, parent_id, label, url, page_id, position, is_active)
+        `INSERT INTO menu_items (domain_id, parent_id, label, url, page_id, position, is_active, organization_id)
         SELECT
           $2,
           CASE
@@ -499,6 +522,7 @@ router.post('/domain/:fromDomainId/duplicate',
               SELECT new_items.id
               FROM menu_items old_items
               INNER JOIN menu_items new_items ON new_items.domain_id = $2
+                AND new_items.organization_id = $3
                 AND new_items.label = old_items.label
                 AND new_items.position = old_items.position
               WHERE old_items.id = menu_items.parent_id
@@ -508,11 +532,12 @@ router.post('/domain/:fromDomainId/duplicate',
           url,
           page_id,
           position,
-          is_active
+          is_active,
+          organization_id
         FROM menu_items
-        WHERE domain_id = $1
+        WHERE domain_id = $1 AND organization_id = $3
         ORDER BY depth, position`,
-        [fromDomainId, toDomainId]
+        [fromDomainId, toDomainId, req.organizationId]
       );
 
       await client.query('COMMIT');
@@ -527,4 +552,10 @@ router.post('/domain/:fromDomainId/duplicate',
   }
 );
 
-export default router;
\ No newline at end of file
+// Helper to check a page is owned by the organization
+async function pageBelongsToOrganization(pageId: number, organizationId: number): Promise<boolean> {
+  const result = await pool.query('SELECT id FROM pages WHERE id = $1 AND organization_id = $2', [pageId, organizationId]);
+  return result.rows.length > 0;
+}
+
+export default router;
@@ -1,36 +1,22 @@
 import express, { Request, Response } from 'express';
 import Joi from 'joi';
 import multer from 'multer';
-import path from 'path';
-import fs from 'fs';
 import { authenticateToken } from '../middleware/auth';
 import { organizationService } from '../services/OrganizationService';
 import { memberService } from '../services/MemberService';
+import { apiKeyService, API_KEY_SCOPES } from '../services/ApiKeyService';
+import { workflowService } from '../services/WorkflowService';
+import { mediaStorage, uniqueStorageKey } from '../services/MediaStorage';
+import { mediaUsageService } from '../services/MediaUsageService';
 
 const router = express.Router();
 
 // All organization routes require authentication
 router.use(authenticateToken);
 
-// Configure multer for logo uploads
-const logoStorage = multer.diskStorage({
-  destination: (req, file, cb) => {
-    const uploadDir = path.join(__dirname, '../../uploads/logos');
-    // Create directory if it doesn't exist
-    if (!fs.existsSync(uploadDir)) {
-      fs.mkdirSync(uploadDir, { recursive: true });
-    }
-    cb(null, uploadDir);
-  },
-  filename: (req, file, cb) => {
-    const uniqueSuffix = `${Date.now()}-${Math.round(Math.random() * 1e9)}`;
-    const ext = path.extname(file.originalname);
-    cb(null, `logo-${uniqueSuffix}${ext}`);
-  },
-});
-
+// Logos are written to media storage under logos/ once received
 const logoUpload = multer({
-  storage: logoStorage,
+  storage: multer.memoryStorage(),
   limits: {
     fileSize: 2 * 1024 * 1024, // 2MB max for logos
   },
@@ -64,6 +50,17 @@ const transferOwnershipSchema = Joi.object({
   newOwnerId: Joi.number().integer().positive().required(),
 });
 
+const createApiKeySchema = Joi.object({
+  name: Joi.string().trim().min(1).max(100).required(),
+  scopes: Joi.array().items(Joi.string().valid(...API_KEY_SCOPES)).min(1).unique().required(),
+  expiresAt: Joi.date().iso().greater('now').optional(),
+});
+
+const updateWorkflowSchema = Joi.object({
+  enabled: Joi.boolean().optional(),
+  approvalsRequired: Joi.number().integer().min(1).max(5).optional(),
+}).min(1);
+
 /**
  * GET /api/organizations/current
  * Get the current user's organization (first organization they belong to)
@@ -176,6 +173,14 @@ router.put('/:id', async (req: Request, res: Response) => {
       return res.status(status).json({ success: false, error: result.error });
     }
 
+    // The logo can be picked from the media library
+    if (value.logoUrl !== undefined) {
+      const references = await mediaUsageService.syncReferences('organization', organizationId);
+      if (!references.success) {
+        console.error('Failed to record media used by organization:', references.error);
+      }
+    }
+
     return res.json({ success: true, data: result.data });
   } catch (error) {
     console.error('Error updating organization:', error);
@@ -188,6 +193,7 @@ router.put('/:id', async (req: Request, res: Response) => {
  * Upload organization logo
  */
 router.post('/:id/logo', logoUpload.single('logo'), async (req: Request, res: Response) => {
+  let storedKey: string | null = null;
   try {
     const userId = req.user?.userId;
     if (!userId) {
@@ -203,8 +209,12 @@ router.post('/:id/logo', logoUpload.single('logo'), async (req: Request, res: Re
       return res.status(400).json({ success: false, error: 'No logo file uploaded' });
     }
 
+    const logoKey = uniqueStorageKey(req.file.originalname, 'logos/logo-');
+    await mediaStorage.put(logoKey, req.file.buffer, { contentType: req.file.mimetype });
+    storedKey = logoKey;
+
     // Build the logo URL
-    const logoUrl = `/uploads/logos/${req.file.filename}`;
+    const logoUrl = `/uploads/${logoKey}`;
 
     // Update organization with new logo URL
     const result = await organizationService.updateOrganization(
@@ -215,19 +225,25 @@ router.post('/:id/logo', logoUpload.single('logo'), async (req: Request, res: Re
 
     if (!result.success) {
       // Delete the uploaded file if update fails
-      fs.unlinkSync(req.file.path);
+      await mediaStorage.delete(logoKey);
       const status = result.error?.includes('not found') ? 404 :
                      result.error?.includes('Only organization owner') ? 403 : 400;
       return res.status(status).json({ success: false, error: result.error });
     }
 
+    // An uploaded logo replaces one picked from the media library
+    const references = await mediaUsageService.syncReferences('organization', organizationId);
+    if (!references.success) {
+      console.error('Failed to record media used by organization:', references.error);
+    }
+
     return res.json({ success: true, data: { logoUrl } });
   } catch (error) {
     console.error('Error uploading logo:', error);
     // Clean up uploaded file on error
-    if (req.file) {
+    if (storedKey) {
       try {
-        fs.unlinkSync(req.file.path);
+        await mediaStorage.delete(storedKey);
       } catch (unlinkError) {
         console.error('Error cleaning up uploaded file:', unlinkError);
       }
@@ -500,4 +516,179 @@ router.post('/:id/transfer-ownership', async (req: Request, res: Response) => {
   }
 });
 
+/**
+ * GET /api/organizations/:id/api-keys
+ * List active API keys (owner/admin only)
+ */
+router.get('/:id/api-keys', async (req: Request, res: Response) => {
+  try {
+    const userId = req.user?.userId;
+    if (!userId) {
+      return res.status(401).json({ success: false, error: 'Unauthorized' });
+    }
+
+    const organizationId = parseInt(req.params.id, 10);
+    if (isNaN(organizationId)) {
+      return res.status(400).json({ success: false, error: 'Invalid organization ID' });
+    }
+
+    const result = await apiKeyService.listApiKeys(organizationId, userId);
+    if (!result.success) {
+      const status = result.error?.includes('Only organization') ||
+                     result.error?.includes('not a member') ? 403 : 500;
+      return res.status(status).json({ success: false, error: result.error });
+    }
+
+    return res.json({ success: true, data: result.data });
+  } catch (error) {
+    console.error('Error listing API keys:', error);
+    return res.status(500).json({ success: false, error: 'Failed to list API keys' });
+  }
+});
+
+/**
+ * POST /api/organizations/:id/api-keys
+ * Create an API key. The plain key is only returned in this response.
+ */
+router.post('/:id/api-keys', async (req: Request, res: Response) => {
+  try {
+    const userId = req.user?.userId;
+    if (!userId) {
+      return res.status(401).json({ success: false, error: 'Unauthorized' });
+    }
+
+    const organizationId = parseInt(req.params.id, 10);
+    if (isNaN(organizationId)) {
+      return res.status(400).json({ success: false, error: 'Invalid organization ID' });
+    }
+
+    // Validate input
+    const { error, value } = createApiKeySchema.validate(req.body);
+    if (error) {
+      return res.status(400).json({ success: false, error: error.details[0].message });
+    }
+
+    const result = await apiKeyService.createApiKey({
+      organizationId,
+      name: value.name,
+      scopes: value.scopes,
+      expiresAt: value.expiresAt,
+      createdBy: userId,
+    });
+
+    if (!result.success) {
+      const status = result.error?.includes('Only organization') ||
+                     result.error?.includes('not a member') ? 403 :
+                     result.error?.includes('Invalid') ||
+                     result.error?.includes('required') ? 400 : 500;
+      return res.status(status).json({ success: false, error: result.error });
+    }
+
+    return res.status(201).json({ success: true, data: result.data });
+  } catch (error) {
+    console.error('Error creating API key:', error);
+    return res.status(500).json({ success: false, error: 'Failed to create API key' });
+  }
+});
+
+/**
+ * DELETE /api/organizations/:id/api-keys/:keyId
+ * Revoke an API key
+ */
+router.delete('/:id/api-keys/:keyId', async (req: Request, res: Response) => {
+  try {
+    const userId = req.user?.userId;
+    if (!userId) {
+      return res.status(401).json({ success: false, error: 'Unauthorized' });
+    }
+
+    const organizationId = parseInt(req.params.id, 10);
+    const keyId = parseInt(req.params.keyId, 10);
+    if (isNaN(organizationId) || isNaN(keyId)) {
+      return res.status(400).json({ success: false, error: 'Invalid organization or API key ID' });
+    }
+
+    const result = await apiKeyService.revokeApiKey(organizationId, keyId, userId);
+    if (!result.success) {
+      const status = result.error?.includes('not found') ? 404 :
+                     result.error?.includes('Only organization') ||
+                     result.error?.includes('not a member') ? 403 : 500;
+      return res.status(status).json({ success: false, error: result.error });
+    }
+
+    return res.json({ success: true, message: 'API key revoked' });
+  } catch (error) {
+    console.error('Error revoking API key:', error);
+    return res.status(500).json({ success: false, error: 'Failed to revoke API key' });
+  }
+});
+
+/**
+ * GET /api/organizations/:id/workflow
+ * Get editorial workflow settings (any member)
+ */
+router.get('/:id/workflow', async (req: Request, res: Response) => {
+  try {
+    const userId = req.user?.userId;
+    if (!userId) {
+      return res.status(401).json({ success: false, error: 'Unauthorized' });
+    }
+
+    const organizationId = parseInt(req.params.id, 10);
+    if (isNaN(organizationId)) {
+      return res.status(400).json({ success: false, error: 'Invalid organization ID' });
+    }
+
+    const result = await workflowService.getSettings(organizationId, userId);
+    if (!result.success) {
+      const status = result.error?.includes('not found') ? 404 :
+                     result.error?.includes('not a member') ? 403 : 500;
+      return res.status(status).json({ success: false, error: result.error });
+    }
+
+    return res.json({ success: true, data: result.data });
+  } catch (error) {
+    console.error('Error getting workflow settings:', error);
+    return res.status(500).json({ success: false, error: 'Failed to get workflow settings' });
+  }
+});
+
+/**
+ * PUT /api/organizations/:id/workflow
+ * Enable/disable editorial review and set required approvals (owner/admin only)
+ */
+router.put('/:id/workflow', async (req: Request, res: Response) => {
+  try {
+    const userId = req.user?.userId;
+    if (!userId) {
+      return res.status(401).json({ success: false, error: 'Unauthorized' });
+    }
+
+    const organizationId = parseInt(req.params.id, 10);
+    if (isNaN(organizationId)) {
+      return res.status(400).json({ success: false, error: 'Invalid organization ID' });
+    }
+
+    // Validate input
+    const { error, value } = updateWorkflowSchema.validate(req.body);
+    if (error) {
+      return res.status(400).json({ success: false, error: error.details[0].message });
+    }
+
+    const result = await workflowService.updateSettings(organizationId, userId, value);
+    if (!result.success) {
+      const status = result.error?.includes('not found') ? 404 :
+                     result.error?.includes('Only organization') ||
+                     result.error?.includes('not a member') ? 403 :
+                     result.error?.includes('must be') ? 400 : 500;
+      return res.status(status).json({ success: false, error: result.error });
+    }
+
+    return res.json({ success: true, data: result.data });
+  } catch (error) {
+    console.error('Error updating workflow settings:', error);
+    return res.status(500).json({ success: false, error: 'Failed to update workflow settings' });
+  }
+});
+
 export default router;
@@ -1,31 +1,67 @@
 import express from 'express';
 import { Request, Response } from 'express';
-import { query } from '../utils/database';
-import { authenticateToken, requireEditor } from '../middleware/auth';
-import { validate, createPageSchema, updatePageSchema } from '../middleware/validation';
+import pool, { query } from '../utils/database';
+import { requireEditor } from '../middleware/auth';
+import { authenticate, requireScope } from '../middleware/apiKey';
+import { validate, createPageSchema, updatePageSchema, reorderPagesSchema } from '../middleware/validation';
+import { requireOrganization } from '../middleware/tenancy';
+import { checkEditConflict } from '../middleware/editConflict';
+import { workflowService, applyReviewedChanges } from '../services/WorkflowService';
+import { translationService } from '../services/TranslationService';
+import { redirectService } from '../services/RedirectService';
+import { fragmentService } from '../services/FragmentService';
+import { mediaUsageService } from '../services/MediaUsageService';
+import { invalidatePublicCaches } from '../utils/publicCache';
+import { VersionService } from '../services/VersionService';
+import { ContentType } from '../types/versioning';
 import { generateSlug, generateUniqueSlug } from '../utils/slug';
-import { CreatePageData, UpdatePageData } from '../types';
+import { DEFAULT_LOCALE, siteDefaultLocaleSql } from '../utils/locale';
+import {
+  deletePage,
+  getPageAncestors,
+  getPagePaths,
+  PagePathSnapshot,
+  reorderPages,
+  snapshotPageSubtrees
+} from '../db/pages';
+import { getTemplateByKey, PageTemplate, resolvePageDataReferences, validatePageData } from '../db/templates';
+import { CreatePageData, UpdatePageData, QueryParams } from '../types';
 
 const router = express.Router();
+const versionService = new VersionService(pool);
+
+// Pages without a domain show on the domains of their organization's sites;
+// paths are only unique per organization
+const DOMAIN_ORGANIZATIONS_SQL = (param: number) =>
+  `organization_id IN (SELECT organization_id FROM sites WHERE domain_id = $${param})`;
 
 // Get all published pages (public)
 router.get('/', async (req: Request, res: Response) => {
   try {
+    const { locale } = req.query as QueryParams;
+
     // Get domain context from request (set by middleware)
     const domain = (req as any).domain;
     const params: any[] = [];
 
     let domainFilter = '';
     if (domain && domain.id) {
-      domainFilter = ' AND (domain_id = $1 OR domain_id IS NULL)';
       params.push(domain.id);
+      domainFilter = ` AND (domain_id = $${params.length} OR (domain_id IS NULL AND ${DOMAIN_ORGANIZATIONS_SQL(params.length)}))`;
+    }
+
+    // Unprefixed public routes list the site's default language
+    let localeFilter = ` AND locale = ${siteDefaultLocaleSql('pages.site_id')}`;
+    if (locale) {
+      params.push(locale);
+      localeFilter = ` AND locale = $${params.length}`;
     }
 
     const pagesQuery = `
-      SELECT id, title, slug, template, created_at, updated_at
+      SELECT id, title, slug, path, parent_id, position, template, locale, created_at, updated_at
       FROM pages
-      WHERE published = true${domainFilter}
-      ORDER BY title ASC
+      WHERE published = true${domainFilter}${localeFilter}
+      ORDER BY position ASC, title ASC
     `;
 
     const result = await query(pagesQuery, params);
@@ -36,24 +72,32 @@ router.get('/', async (req: Request, res: Response) => {
   }
 });
 
-// Get single page by slug (public)
-router.get('/:slug', async (req: Request, res: Response) => {
+// Get single page by path (public), e.g. /api/pages/about/team
+router.get('/:path(*)', async (req: Request, res: Response) => {
   try {
-    const { slug } = req.params;
+    const { path } = req.params;
+    const { locale } = req.query as QueryParams;
 
     // Get domain context from request (set by middleware)
     const domain = (req as any).domain;
-    const params: any[] = [slug];
+    const params: any[] = [path];
 
     let domainFilter = '';
     if (domain && domain.id) {
-      domainFilter = ' AND (domain_id = $2 OR domain_id IS NULL)';
       params.push(domain.id);
+      domainFilter = ` AND (domain_id = $${params.length} OR (domain_id IS NULL AND ${DOMAIN_ORGANIZATIONS_SQL(params.length)}))`;
+    }
+
+    // Locale-prefixed routes only serve content in that locale
+    let localeFilter = '';
+    if (locale) {
+      params.push(locale);
+      localeFilter = ` AND locale = $${params.length}`;
     }
 
     const pageQuery = `
       SELECT * FROM pages
-      WHERE slug = $1 AND published = true${domainFilter}
+      WHERE path = $1 AND published = true${domainFilter}${localeFilter}
     `;
 
     const result = await query(pageQuery, params);
@@ -63,6 +107,23 @@ router.get('/:slug', async (req: Request, res: Response) => {
     }
 
     const page = result.rows[0];
+
+    // Published translations for hreflang alternates
+    const [translations, siteLocales, ancestors, template] = await Promise.all([
+      translationService.getPublishedTranslations(ContentType.PAGE, page.translation_group_id),
+      translationService.getSiteLocales(page.site_id ?? null),
+      getPageAncestors(page.path, page.organization_id),
+      page.template ? getTemplateByKey(page.template) : null
+    ]);
+    page.translations = translations.data || [];
+    page.ancestors = ancestors;
+    page.default_locale = siteLocales.data?.default_locale || DEFAULT_LOCALE;
+    // Template fields are rendered from the schema, with references resolved to links
+    page.template_schema = template?.schema ?? null;
+    page.references = await resolvePageDataReferences(template?.schema, page.data);
+    // Fragments are resolved on every request, so edits show up everywhere at once
+    page.content = await fragmentService.renderFragments(page.content, page.organization_id);
+    page.fragments = await fragmentService.getFragmentsForData(page.organization_id, template?.schema, page.data);
     res.json({ page });
   } catch (error) {
     console.error('Get page error:', error);
@@ -71,30 +132,70 @@ router.get('/:slug', async (req: Request, res: Response) => {
 });
 
 // Create page (admin only)
-router.post('/', authenticateToken, requireEditor, validate(createPageSchema), async (req: Request, res: Response) => {
+router.post('/', authenticate, requireScope('write:pages'), requireEditor, requireOrganization, validate(createPageSchema), async (req: Request, res: Response) => {
   try {
     const pageData: CreatePageData = req.body;
 
-    // Generate slug if not provided
+    // With editorial workflow, new pages start unpublished and go through review
+    if (pageData.published) {
+      const workflowCheck = await workflowService.canPublishContent(req.organizationId!, ContentType.PAGE);
+      if (!workflowCheck.success) {
+        return res.status(500).json({ error: 'Internal server error' });
+      }
+      if (!workflowCheck.data) {
+        return res.status(403).json({ error: 'Page must be approved before it can be published' });
+      }
+    }
+
+    let parent = null;
+    if (pageData.parent_id) {
+      parent = await findPage(pageData.parent_id, req.organizationId!);
+      if (!parent) {
+        return res.status(400).json({ error: 'Parent page not found' });
+      }
+    }
+
+    // Slugs only need to be unique among the pages sharing a parent
     if (!pageData.slug) {
-      const existingSlugs = await query('SELECT slug FROM pages WHERE slug LIKE $1', [`${generateSlug(pageData.title)}%`]);
+      const existingSlugs = await query(
+        'SELECT slug FROM pages WHERE parent_id IS NOT DISTINCT FROM $1 AND slug LIKE $2 AND organization_id = $3',
+        [parent?.id ?? null, `${generateSlug(pageData.title)}%`, req.organizationId]
+      );
       pageData.slug = generateUniqueSlug(pageData.title, existingSlugs.rows.map(row => row.slug));
     } else {
       // Check if slug already exists
-      const existingSlug = await query('SELECT id FROM pages WHERE slug = $1', [pageData.slug]);
+      const existingSlug = await query(
+        'SELECT id FROM pages WHERE path = $1 AND organization_id = $2',
+        [pagePath(parent, pageData.slug), req.organizationId]
+      );
       if (existingSlug.rows.length > 0) {
         return res.status(400).json({ error: 'Slug already exists' });
       }
     }
 
+    // Data starts from the template defaults and must fit its schema
+    const template = pageData.template ? await getTemplateByKey(pageData.template) : null;
+    const data = pageData.data ?? template?.default_data ?? {};
+    const dataErrors = template ? await validatePageData(template, data, req.organizationId!) : [];
+    if (dataErrors.length > 0) {
+      return res.status(400).json({ error: 'Page data does not match the template', details: dataErrors });
+    }
+
     // Get domain from request context
     const domain = (req as any).domain;
 
     const insertQuery = `
       INSERT INTO pages (
         title, slug, content, template, meta_title, meta_description,
-        seo_indexed, published, domain_id
-      ) VALUES ($1, $2, $3, $4, $5, $6, $7, $8, $9)
+        seo_indexed, published, domain_id, locale, parent_id, position,
+        data, template_version, organization_id
+      ) VALUES (
+        $1, $2, $3, $4, $5, $6, $7, $8, $9,
+        COALESCE($10, ${siteDefaultLocaleSql('NULL::integer')}),
+        $11,
+        (SELECT COALESCE(MAX(position) + 1, 0) FROM pages WHERE parent_id IS NOT DISTINCT FROM $11 AND organization_id = $14),
+        $12, $13, $14
+      )
       RETURNING *
     `;
 
@@ -107,12 +208,26 @@ router.post('/', authenticateToken, requireEditor, validate(createPageSchema), a
       pageData.meta_description,
       pageData.seo_indexed !== false,
       pageData.published || false,
-      domain ? domain.id : null
+      domain ? domain.id : null,
+      pageData.locale || null,
+      parent?.id ?? null,
+      JSON.stringify(data),
+      template?.version ?? null,
+      req.organizationId
     ];
 
     const result = await query(insertQuery, values);
     const newPage = result.rows[0];
 
+    if (newPage.published) {
+      invalidatePublicCaches();
+    }
+
+    const references = await mediaUsageService.syncReferences('page', newPage.id);
+    if (!references.success) {
+      console.error('Failed to record media used by page:', references.error);
+    }
+
     res.status(201).json({
       message: 'Page created successfully',
       data: newPage
@@ -123,28 +238,108 @@ router.post('/', authenticateToken, requireEditor, validate(createPageSchema), a
   }
 });
 
+// Move pages in the page tree (admin only)
+router.put('/reorder', authenticate, requireScope('write:pages'), requireEditor, requireOrganization, validate(reorderPagesSchema), async (req: Request, res: Response) => {
+  try {
+    const organizationId = req.organizationId!;
+    const items: Array<{ id: number; parent_id: number | null; position: number }> = req.body.items;
+
+    const previousPaths = await snapshotPageSubtrees(organizationId, items.map((item) => item.id));
+    const reordered = await reorderPages(organizationId, items);
+    if (!reordered) {
+      return res.status(400).json({ error: 'Invalid pages - some pages not found' });
+    }
+
+    await recordPathChanges(organizationId, previousPaths);
+    invalidatePublicCaches();
+
+    res.json({ message: 'Pages reordered successfully' });
+  } catch (error: any) {
+    if (error?.code === '23514') {
+      return res.status(400).json({ error: 'A page cannot be moved below itself' });
+    }
+    if (error?.code === '23505') {
+      return res.status(409).json({ error: 'A page with the same slug already exists there' });
+    }
+    console.error('Reorder pages error:', error);
+    res.status(500).json({ error: 'Internal server error' });
+  }
+});
+
 // Update page (admin only)
-router.put('/:id', authenticateToken, requireEditor, validate(updatePageSchema), async (req: Request, res: Response) => {
+router.put('/:id', authenticate, requireScope('write:pages'), requireEditor, requireOrganization, validate(updatePageSchema), checkEditConflict(ContentType.PAGE), async (req: Request, res: Response) => {
   try {
     const { id } = req.params;
     const pageData: UpdatePageData = req.body;
+    const organizationId = req.organizationId!;
 
-    // Check if page exists
-    const existingPage = await query('SELECT * FROM pages WHERE id = $1', [id]);
+    // Check if page exists in this organization
+    const existingPage = await query('SELECT * FROM pages WHERE id = $1 AND organization_id = $2', [id, organizationId]);
     if (existingPage.rows.length === 0) {
       return res.status(404).json({ error: 'Page not found' });
     }
 
     const page = existingPage.rows[0];
 
+    // With editorial workflow, what goes live, and edits to live pages, must match an approved version
+    const goingLive = !!pageData.published && !page.published;
+    const reviewed = applyReviewedChanges(page, pageData);
+    const editingLive = reviewed.changed && (pageData.published ?? page.published);
+    if (goingLive || editingLive) {
+      const workflowCheck = await workflowService.canPublishContent(organizationId, ContentType.PAGE, page.id, reviewed.content);
+      if (!workflowCheck.success) {
+        return res.status(500).json({ error: 'Internal server error' });
+      }
+      if (!workflowCheck.data) {
+        return res.status(403).json({
+          error: goingLive
+            ? 'Page must be approved before it can be published'
+            : 'Changes to a live page must be approved before they are published'
+        });
+      }
+    }
+
+    // Moving below another page; never below itself or one of its subpages
+    const moving = pageData.parent_id !== undefined && pageData.parent_id !== page.parent_id;
+    let parent = page.parent_id ? await findPage(page.parent_id, organizationId) : null;
+    if (moving) {
+      parent = pageData.parent_id ? await findPage(pageData.parent_id, organizationId) : null;
+      if (pageData.parent_id && !parent) {
+        return res.status(400).json({ error: 'Parent page not found' });
+      }
+      if (parent && (parent.id === page.id || parent.path.startsWith(`${page.path}/`))) {
+        return res.status(400).json({ error: 'A page cannot be moved below itself' });
+      }
+    }
+
     // Handle slug update
-    if (pageData.slug && pageData.slug !== page.slug) {
-      const existingSlug = await query('SELECT id FROM pages WHERE slug = $1 AND id != $2', [pageData.slug, id]);
+    const newSlug = pageData.slug || page.slug;
+    if (moving || newSlug !== page.slug) {
+      const existingSlug = await query(
+        'SELECT id FROM pages WHERE path = $1 AND id != $2 AND organization_id = $3',
+        [pagePath(parent, newSlug), id, organizationId]
+      );
       if (existingSlug.rows.length > 0) {
         return res.status(400).json({ error: 'Slug already exists' });
       }
     }
 
+    // Data is checked against the template whenever either of them changes
+    let template: PageTemplate | null = null;
+    if (pageData.data !== undefined || (pageData.template && pageData.template !== page.template)) {
+      const templateKey = pageData.template || page.template;
+      template = templateKey ? await getTemplateByKey(templateKey) : null;
+      const dataErrors = template
+        ? await validatePageData(template, pageData.data ?? page.data, organizationId)
+        : [];
+      if (dataErrors.length > 0) {
+        return res.status(400).json({ error: 'Page data does not match the template', details: dataErrors });
+      }
+    }
+
+    // Old URLs of the page and its subpages, redirected once they change
+    const previousPaths = moving || newSlug !== page.slug ? await snapshotPageSubtrees(organizationId, [page.id]) : [];
+
     const updateQuery = `
       UPDATE pages SET
         title = COALESCE($1, title),
@@ -155,8 +350,11 @@ router.put('/:id', authenticateToken, requireEditor, validate(updatePageSchema),
         meta_description = COALESCE($6, meta_description),
         seo_indexed = COALESCE($7, seo_indexed),
         published = COALESCE($8, published),
+        parent_id = CASE WHEN $11 THEN $12 ELSE parent_id END,
+        data = COALESCE($13, data),
+        template_version = CASE WHEN $14::integer IS NOT NULL THEN $14 ELSE template_version END,
         updated_at = CURRENT_TIMESTAMP
-      WHERE id = $9
+      WHERE id = $9 AND organization_id = $10
       RETURNING *
     `;
 
@@ -169,40 +367,125 @@ router.put('/:id', authenticateToken, requireEditor, validate(updatePageSchema),
       pageData.meta_description,
       pageData.seo_indexed,
       pageData.published,
-      id
+      id,
+      organizationId,
+      moving,
+      parent?.id ?? null,
+      pageData.data !== undefined ? JSON.stringify(pageData.data) : null,
+      template?.version ?? null
     ];
 
     const result = await query(updateQuery, values);
     const updatedPage = result.rows[0];
 
+    if (goingLive || editingLive) {
+      await workflowService.markContentPublished(ContentType.PAGE, page.id);
+    }
+
+    // Saves become versions, so edits started before this one conflict with it
+    if (req.user) {
+      const saved = await versionService.recordSave(ContentType.PAGE, updatedPage, req.user.userId);
+      if (!saved.success) {
+        console.error('Failed to record page save as a version:', saved.error);
+      }
+    }
+
+    // Keep links to the old URLs of live pages working
+    await recordPathChanges(organizationId, previousPaths);
+
+    // Refresh sitemaps and rendered pages when a live page changes, goes live or is taken down
+    if (page.published || updatedPage.published) {
+      invalidatePublicCaches();
+    }
+
+    const references = await mediaUsageService.syncReferences('page', page.id);
+    if (!references.success) {
+      console.error('Failed to record media used by page:', references.error);
+    }
+
     res.json({
       message: 'Page updated successfully',
       data: updatedPage
     });
-  } catch (error) {
+  } catch (error: any) {
+    if (error?.code === '23505') {
+      return res.status(400).json({ error: 'Slug already exists' });
+    }
     console.error('Update page error:', error);
     res.status(500).json({ error: 'Internal server error' });
   }
 });
 
 // Delete page (admin only)
-router.delete('/:id', authenticateToken, requireEditor, async (req: Request, res: Response) => {
+router.delete('/:id', authenticate, requireScope('write:pages'), requireEditor, requireOrganization, async (req: Request, res: Response) => {
   try {
     const { id } = req.params;
+    const organizationId = req.organizationId!;
 
-    // Check if page exists
-    const existingPage = await query('SELECT * FROM pages WHERE id = $1', [id]);
+    // Check if page exists in this organization
+    const existingPage = await query('SELECT * FROM pages WHERE id = $1 AND organization_id = $2', [id, organizationId]);
     if (existingPage.rows.length === 0) {
       return res.status(404).json({ error: 'Page not found' });
     }
 
-    await query('DELETE FROM pages WHERE id = $1', [id]);
+    // Subpages move up a level, so their URLs change
+    const page = existingPage.rows[0];
+    const previousPaths = (await snapshotPageSubtrees(organizationId, [page.id])).filter((p) => p.id !== page.id);
+    await deletePage(page);
+    await recordPathChanges(organizationId, previousPaths);
+
+    if (page.published || previousPaths.length > 0) {
+      invalidatePublicCaches();
+    }
+
+    // Its media can be deleted safely now
+    const references = await mediaUsageService.syncReferences('page', page.id);
+    if (!references.success) {
+      console.error('Failed to remove media used by page:', references.error);
+    }
 
     res.json({ message: 'Page deleted successfully' });
-  } catch (error) {
+  } catch (error: any) {
+    if (error?.code === '23505') {
+      return res.status(409).json({ error: 'A subpage cannot move up because a page with its slug already exists there' });
+    }
     console.error('Delete page error:', error);
     res.status(500).json({ error: 'Internal server error' });
   }
 });
 
+// Page of the organization, for checking a new parent
+async function findPage(id: number, organizationId: number): Promise<{ id: number; path: string } | null> {
+  const result = await query('SELECT id, path FROM pages WHERE id = $1 AND organization_id = $2', [id, organizationId]);
+  return result.rows[0] || null;
+}
+
+// Path of a page with the given slug placed under a parent (see migration 023)
+function pagePath(parent: { path: string } | null, slug: string): string {
+  return parent ? `${parent.path}/${slug}` : slug;
+}
+
+// Redirect the old URL of every live page whose path changed since the snapshot
+async function recordPathChanges(organizationId: number, previous: PagePathSnapshot[]): Promise<void> {
+  const live = previous.filter((page) => page.published);
+  if (live.length === 0) return;
+
+  const currentPaths = await getPagePaths(live.map((page) => page.id));
+  for (const page of live) {
+    const path = currentPaths.get(page.id);
+    if (!path || path === page.path) continue;
+
+    const redirect = await redirectService.recordSlugChange(organizationId, {
+      content_type: ContentType.PAGE,
+      content_id: page.id,
+      domain_id: page.domain_id ?? null,
+      from_path: `/page/${page.path}`,
+      to_path: `/page/${path}`,
+    });
+    if (!redirect.success) {
+      console.error('Failed to record page path change:', redirect.error);
+    }
+  }
+}
+
 export default router; 
\ No newline at end of file
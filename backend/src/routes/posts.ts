@@ -1,14 +1,29 @@
 import express from 'express';
 import { Request, Response } from 'express';
-import { query } from '../utils/database';
-import { authenticateToken, requireAuthor } from '../middleware/auth';
+import pool, { query } from '../utils/database';
+import { requireAuthor } from '../middleware/auth';
+import { authenticate, requireScope } from '../middleware/apiKey';
 import { validate, createPostSchema, updatePostSchema } from '../middleware/validation';
 import { enforceQuota } from '../middleware/quota';
+import { requireOrganization } from '../middleware/tenancy';
+import { checkEditConflict } from '../middleware/editConflict';
 import { quotaService } from '../services/QuotaService';
+import { workflowService, applyReviewedChanges } from '../services/WorkflowService';
+import { translationService } from '../services/TranslationService';
+import { redirectService } from '../services/RedirectService';
+import { fragmentService } from '../services/FragmentService';
+import { imageTransformService } from '../services/ImageTransformService';
+import { mediaUsageService } from '../services/MediaUsageService';
+import { invalidatePublicCaches } from '../utils/publicCache';
+import { listPublishedPosts } from '../db/posts';
+import { VersionService } from '../services/VersionService';
+import { ContentType } from '../types/versioning';
 import { generateSlug, generateUniqueSlug } from '../utils/slug';
+import { DEFAULT_LOCALE, siteDefaultLocaleSql } from '../utils/locale';
 import { Post, CreatePostData, UpdatePostData, QueryParams } from '../types';
 
 const router = express.Router();
+const versionService = new VersionService(pool);
 
 // Get all published posts (public)
 router.get('/', async (req: Request, res: Response) => {
@@ -19,95 +34,27 @@ router.get('/', async (req: Request, res: Response) => {
       search,
       category,
       tag,
-      featured
+      featured,
+      locale
     } = req.query as QueryParams;
 
-    const offset = (Number(page) - 1) * Number(limit);
-
     // Get domain context from request (set by middleware)
     const domain = (req as any).domain;
 
-    let whereClause = "WHERE 1=1";
-    const params: any[] = [];
-    let paramCount = 0;
-
-    // Filter by domain if domain context exists
-    if (domain && domain.id) {
-      whereClause += ` AND (p.domain_id = $${++paramCount} OR p.domain_id IS NULL)`;
-      params.push(domain.id);
-    }
-
-    if (search) {
-      whereClause += ` AND (p.title ILIKE $${++paramCount} OR p.excerpt ILIKE $${paramCount} OR p.content ILIKE $${paramCount})`;
-      params.push(`%${search}%`);
-    }
-
-    if (category) {
-      whereClause += ` AND c.slug = $${++paramCount}`;
-      params.push(category);
-    }
-
-    if (tag) {
-      whereClause += ` AND EXISTS (
-        SELECT 1 FROM post_tags pt 
-        JOIN tags t ON pt.tag_id = t.id 
-        WHERE pt.post_id = p.id AND t.slug = $${++paramCount}
-      )`;
-      params.push(tag);
-    }
-
-    if (featured !== undefined) {
-      whereClause += ` AND p.featured = $${++paramCount}`;
-      params.push(String(featured) === 'true');
+    const { posts, totalCount } = await listPublishedPosts({
+      domainId: domain?.id,
+      search,
+      category,
+      tag,
+      featured,
+      locale,
+      page: Number(page),
+      limit: Number(limit)
+    });
+    for (const post of posts) {
+      post.content = await fragmentService.renderFragments(post.content, post.organization_id);
     }
 
-    // Ensure public list shows only published posts
-    whereClause += ` AND p.status = 'published'`;
-
-    const postsQuery = `
-      SELECT 
-        p.id, p.title, p.slug, p.excerpt, p.content, p.featured_image, p.featured,
-        p.created_at, p.updated_at, p.view_count,
-        c.name as category_name, c.slug as category_slug,
-        u.first_name, u.last_name, u.email as author_email,
-        COALESCE(
-          JSON_AGG(
-            CASE WHEN t.id IS NOT NULL THEN 
-              JSON_BUILD_OBJECT('id', t.id, 'name', t.name, 'slug', t.slug)
-            END
-          ) FILTER (WHERE t.id IS NOT NULL), 
-          '[]'
-        ) as tags
-      FROM posts p
-      LEFT JOIN categories c ON p.category_id = c.id
-      LEFT JOIN users u ON p.author_id = u.id
-      LEFT JOIN post_tags pt ON p.id = pt.post_id
-      LEFT JOIN tags t ON pt.tag_id = t.id
-      ${whereClause}
-      AND p.status = 'published'
-      GROUP BY p.id, c.name, c.slug, u.first_name, u.last_name, u.email
-      ORDER BY p.created_at DESC
-      LIMIT $${++paramCount} OFFSET $${++paramCount}
-    `;
-
-    params.push(limit, offset);
-
-    const countQuery = `
-      SELECT COUNT(DISTINCT p.id)
-      FROM posts p
-      LEFT JOIN categories c ON p.category_id = c.id
-      LEFT JOIN post_tags pt ON p.id = pt.post_id
-      LEFT JOIN tags t ON pt.tag_id = t.id
-      ${whereClause}
-    `;
-
-    const [postsResult, countResult] = await Promise.all([
-      query(postsQuery, params),
-      query(countQuery, params.slice(0, -2)) // Remove limit and offset for count
-    ]);
-
-    const posts = postsResult.rows;
-    const totalCount = parseInt(countResult.rows[0].count);
     const totalPages = Math.ceil(totalCount / Number(limit));
 
     res.json({
@@ -131,6 +78,7 @@ router.get('/', async (req: Request, res: Response) => {
 router.get('/:slug', async (req: Request, res: Response) => {
   try {
     const { slug } = req.params;
+    const { locale } = req.query as QueryParams;
 
     // Get domain context from request (set by middleware)
     const domain = (req as any).domain;
@@ -138,14 +86,21 @@ router.get('/:slug', async (req: Request, res: Response) => {
 
     let domainFilter = '';
     if (domain && domain.id) {
-      domainFilter = ' AND (p.domain_id = $2 OR p.domain_id IS NULL)';
       params.push(domain.id);
+      domainFilter = ` AND (p.domain_id = $${params.length} OR p.domain_id IS NULL)`;
+    }
+
+    // Locale-prefixed routes only serve content in that locale
+    let localeFilter = '';
+    if (locale) {
+      params.push(locale);
+      localeFilter = ` AND p.locale = $${params.length}`;
     }
 
     const postQuery = `
       SELECT
         p.*,
-        c.name as category_name, c.slug as category_slug,
+        c.name as category_name, c.slug as category_slug, c.path as category_path,
         u.first_name, u.last_name, u.email as author_email,
         COALESCE(
           JSON_AGG(
@@ -160,8 +115,8 @@ router.get('/:slug', async (req: Request, res: Response) => {
       LEFT JOIN users u ON p.author_id = u.id
       LEFT JOIN post_tags pt ON p.id = pt.post_id
       LEFT JOIN tags t ON pt.tag_id = t.id
-      WHERE p.slug = $1 AND p.status = 'published'${domainFilter}
-      GROUP BY p.id, c.name, c.slug, u.first_name, u.last_name, u.email
+      WHERE p.slug = $1 AND p.status = 'published'${domainFilter}${localeFilter}
+      GROUP BY p.id, c.name, c.slug, c.path, u.first_name, u.last_name, u.email
     `;
 
     const result = await query(postQuery, params);
@@ -176,18 +131,30 @@ router.get('/:slug', async (req: Request, res: Response) => {
     await query('UPDATE posts SET view_count = view_count + 1 WHERE id = $1', [post.id]);
     post.view_count = post.view_count + 1;
 
-    // Get related posts
+    // Published translations for hreflang alternates
+    const [translations, siteLocales] = await Promise.all([
+      translationService.getPublishedTranslations(ContentType.POST, post.translation_group_id),
+      translationService.getSiteLocales(post.site_id ?? null)
+    ]);
+    post.translations = translations.data || [];
+    post.default_locale = siteLocales.data?.default_locale || DEFAULT_LOCALE;
+    // Fragments are resolved on every request, so edits show up everywhere at once
+    post.content = await fragmentService.renderFragments(post.content, post.organization_id);
+    post.content = await imageTransformService.addResponsiveImages(post.content, post.organization_id);
+
+    // Get related posts in the same language
     const relatedQuery = `
       SELECT id, title, slug, excerpt, featured_image, created_at
       FROM posts 
       WHERE status = 'published' 
         AND id != $1 
         AND (category_id = $2 OR category_id IS NULL)
+        AND locale = $3
       ORDER BY created_at DESC
       LIMIT 3
     `;
 
-    const relatedResult = await query(relatedQuery, [post.id, post.category_id]);
+    const relatedResult = await query(relatedQuery, [post.id, post.category_id, post.locale]);
 
     // Keep backward compatibility returning both shapes
     res.json({
@@ -202,10 +169,26 @@ router.get('/:slug', async (req: Request, res: Response) => {
 });
 
 // Create post (admin only)
-router.post('/', authenticateToken, requireAuthor, enforceQuota('posts'), validate(createPostSchema), async (req: Request, res: Response) => {
+router.post('/', authenticate, requireScope('write:posts'), requireAuthor, requireOrganization, enforceQuota('posts'), validate(createPostSchema), async (req: Request, res: Response) => {
   try {
     const postData: CreatePostData = req.body;
     const authorId = req.user?.userId;
+    const organizationId = req.organizationId!;
+
+    if (postData.category_id && !(await categoryBelongsToOrganization(postData.category_id, organizationId))) {
+      return res.status(400).json({ error: 'Category not found' });
+    }
+
+    // With editorial workflow, new posts start as drafts and go through review
+    if (postData.status && isLiveStatus(postData.status)) {
+      const workflowCheck = await workflowService.canPublishContent(organizationId, ContentType.POST);
+      if (!workflowCheck.success) {
+        return res.status(500).json({ error: 'Internal server error' });
+      }
+      if (!workflowCheck.data) {
+        return res.status(403).json({ error: 'Post must be approved before it can be published or scheduled' });
+      }
+    }
 
     // Generate slug if not provided
     if (!postData.slug) {
@@ -222,8 +205,13 @@ router.post('/', authenticateToken, requireAuthor, enforceQuota('posts'), valida
     const insertQuery = `
       INSERT INTO posts (
         title, slug, excerpt, content, featured_image, status, category_id, 
-        author_id, meta_title, meta_description, seo_indexed, scheduled_at, featured
-      ) VALUES ($1, $2, $3, $4, $5, $6, $7, $8, $9, $10, $11, $12, $13)
+        author_id, meta_title, meta_description, seo_indexed, scheduled_at, featured,
+        locale, organization_id
+      ) VALUES (
+        $1, $2, $3, $4, $5, $6, $7, $8, $9, $10, $11, $12, $13,
+        COALESCE($14, ${siteDefaultLocaleSql('NULL::integer')}),
+        $15
+      )
       RETURNING *
     `;
 
@@ -240,7 +228,9 @@ router.post('/', authenticateToken, requireAuthor, enforceQuota('posts'), valida
       postData.meta_description,
       postData.seo_indexed !== false,
       postData.scheduled_at,
-      postData.featured || false
+      postData.featured || false,
+      postData.locale || null,
+      organizationId
     ];
 
     const result = await query(insertQuery, values);
@@ -248,12 +238,15 @@ router.post('/', authenticateToken, requireAuthor, enforceQuota('posts'), valida
 
     // Handle tags
     if (postData.tags && postData.tags.length > 0) {
-      await handlePostTags(newPost.id, postData.tags);
+      await handlePostTags(newPost.id, postData.tags, organizationId);
+    }
+
+    if (newPost.status === 'published') {
+      invalidatePublicCaches();
     }
 
     // P1 bug fix: Skip quota tracking for enterprise tier (SF-010)
     // Increment quota after successful creation (SF-010)
-    const organizationId = req.user?.organizationId;
     const isEnterprise = (req as any).isEnterpriseTier;
 
     if (organizationId && !isEnterprise) {
@@ -285,6 +278,11 @@ router.post('/', authenticateToken, requireAuthor, enforceQuota('posts'), valida
       }
     }
 
+    const references = await mediaUsageService.syncReferences('post', newPost.id);
+    if (!references.success) {
+      console.error('Failed to record media used by post:', references.error);
+    }
+
     res.status(201).json({
       message: 'Post created successfully',
       data: newPost
@@ -296,14 +294,15 @@ router.post('/', authenticateToken, requireAuthor, enforceQuota('posts'), valida
 });
 
 // Update post (admin only)
-router.put('/:id', authenticateToken, requireAuthor, validate(updatePostSchema), async (req: Request, res: Response) => {
+router.put('/:id', authenticate, requireScope('write:posts'), requireAuthor, requireOrganization, validate(updatePostSchema), checkEditConflict(ContentType.POST), async (req: Request, res: Response) => {
   try {
     const { id } = req.params;
     const postData: UpdatePostData = req.body;
     const userId = req.user?.userId;
+    const organizationId = req.organizationId!;
 
-    // Check if post exists and user has permission
-    const existingPost = await query('SELECT * FROM posts WHERE id = $1', [id]);
+    // Check if post exists in this organization and user has permission
+    const existingPost = await query('SELECT * FROM posts WHERE id = $1 AND organization_id = $2', [id, organizationId]);
     if (existingPost.rows.length === 0) {
       return res.status(404).json({ error: 'Post not found' });
     }
@@ -315,6 +314,33 @@ router.put('/:id', authenticateToken, requireAuthor, validate(updatePostSchema),
       return res.status(403).json({ error: 'You can only edit your own posts' });
     }
 
+    // Scheduled posts need a publish time for the scheduled publish job to pick them up
+    if (postData.status === 'scheduled' && !postData.scheduled_at && !post.scheduled_at) {
+      return res.status(400).json({ error: 'scheduled_at is required for scheduled posts' });
+    }
+
+    if (postData.category_id && !(await categoryBelongsToOrganization(postData.category_id, organizationId))) {
+      return res.status(400).json({ error: 'Category not found' });
+    }
+
+    // With editorial workflow, what goes live, and edits to live posts, must match an approved version
+    const goingLive = !!postData.status && postData.status !== post.status && isLiveStatus(postData.status);
+    const reviewed = applyReviewedChanges(post, postData);
+    const editingLive = reviewed.changed && isLiveStatus(postData.status ?? post.status);
+    if (goingLive || editingLive) {
+      const workflowCheck = await workflowService.canPublishContent(organizationId, ContentType.POST, post.id, reviewed.content);
+      if (!workflowCheck.success) {
+        return res.status(500).json({ error: 'Internal server error' });
+      }
+      if (!workflowCheck.data) {
+        return res.status(403).json({
+          error: goingLive
+            ? 'Post must be approved before it can be published or scheduled'
+            : 'Changes to a live post must be approved before they are published'
+        });
+      }
+    }
+
     // Handle slug update
     if (postData.slug && postData.slug !== post.slug) {
       const existingSlug = await query('SELECT id FROM posts WHERE slug = $1 AND id != $2', [postData.slug, id]);
@@ -337,8 +363,11 @@ router.put('/:id', authenticateToken, requireAuthor, validate(updatePostSchema),
         seo_indexed = COALESCE($10, seo_indexed),
         scheduled_at = COALESCE($11, scheduled_at),
         featured = COALESCE($12, featured),
+        publish_attempts = 0,
+        publish_error = NULL,
+        next_publish_attempt_at = NULL,
         updated_at = CURRENT_TIMESTAMP
-      WHERE id = $13
+      WHERE id = $13 AND organization_id = $14
       RETURNING *
     `;
 
@@ -355,15 +384,52 @@ router.put('/:id', authenticateToken, requireAuthor, validate(updatePostSchema),
       postData.seo_indexed,
       postData.scheduled_at,
       postData.featured,
-      id
+      id,
+      organizationId
     ];
 
     const result = await query(updateQuery, values);
     const updatedPost = result.rows[0];
 
+    if (goingLive || editingLive) {
+      await workflowService.markContentPublished(ContentType.POST, post.id);
+    }
+
+    // Saves become versions, so edits started before this one conflict with it
+    if (req.user) {
+      const saved = await versionService.recordSave(ContentType.POST, updatedPost, req.user.userId);
+      if (!saved.success) {
+        console.error('Failed to record post save as a version:', saved.error);
+      }
+    }
+
     // Handle tags
     if (postData.tags !== undefined) {
-      await handlePostTags(parseInt(id), postData.tags);
+      await handlePostTags(parseInt(id), postData.tags, organizationId);
+    }
+
+    // Keep links to the old URL of a live post working
+    if (post.status === 'published' && updatedPost.slug !== post.slug) {
+      const redirect = await redirectService.recordSlugChange(organizationId, {
+        content_type: ContentType.POST,
+        content_id: post.id,
+        domain_id: post.domain_id ?? null,
+        from_path: `/blog/${post.slug}`,
+        to_path: `/blog/${updatedPost.slug}`,
+      });
+      if (!redirect.success) {
+        console.error('Failed to record post slug change:', redirect.error);
+      }
+    }
+
+    // Refresh sitemaps and rendered pages when a live post changes, goes live or is taken down
+    if (post.status === 'published' || updatedPost.status === 'published') {
+      invalidatePublicCaches();
+    }
+
+    const references = await mediaUsageService.syncReferences('post', post.id);
+    if (!references.success) {
+      console.error('Failed to record media used by post:', references.error);
     }
 
     res.json({
@@ -377,13 +443,14 @@ router.put('/:id', authenticateToken, requireAuthor, validate(updatePostSchema),
 });
 
 // Delete post (admin only)
-router.delete('/:id', authenticateToken, requireAuthor, async (req: Request, res: Response) => {
+router.delete('/:id', authenticate, requireScope('write:posts'), requireAuthor, requireOrganization, async (req: Request, res: Response) => {
   try {
     const { id } = req.params;
     const userId = req.user?.userId;
+    const organizationId = req.organizationId!;
 
-    // Check if post exists and user has permission
-    const existingPost = await query('SELECT * FROM posts WHERE id = $1', [id]);
+    // Check if post exists in this organization and user has permission
+    const existingPost = await query('SELECT * FROM posts WHERE id = $1 AND organization_id = $2', [id, organizationId]);
     if (existingPost.rows.length === 0) {
       return res.status(404).json({ error: 'Post not found' });
     }
@@ -395,11 +462,20 @@ router.delete('/:id', authenticateToken, requireAuthor, async (req: Request, res
       return res.status(403).json({ error: 'You can only delete your own posts' });
     }
 
-    await query('DELETE FROM posts WHERE id = $1', [id]);
+    await query('DELETE FROM posts WHERE id = $1 AND organization_id = $2', [id, organizationId]);
+
+    if (post.status === 'published') {
+      invalidatePublicCaches();
+    }
+
+    // Its media can be deleted safely now
+    const references = await mediaUsageService.syncReferences('post', post.id);
+    if (!references.success) {
+      console.error('Failed to remove media used by post:', references.error);
+    }
 
     // P1 bug fix: Skip quota tracking for enterprise tier (SF-010)
     // Decrement post quota after deletion (SF-010)
-    const organizationId = req.user?.organizationId;
     const isEnterprise = (req as any).isEnterpriseTier;
 
     if (organizationId && !isEnterprise) {
@@ -426,8 +502,19 @@ router.delete('/:id', authenticateToken, requireAuthor, async (req: Request, res
   }
 });
 
+// Statuses that put a post on the site, now or at its scheduled time
+function isLiveStatus(status: string): boolean {
+  return status === 'published' || status === 'scheduled';
+}
+
+// Helper function to check a category is owned by the organization
+async function categoryBelongsToOrganization(categoryId: number, organizationId: number): Promise<boolean> {
+  const result = await query('SELECT id FROM categories WHERE id = $1 AND organization_id = $2', [categoryId, organizationId]);
+  return result.rows.length > 0;
+}
+
 // Helper function to handle post tags
-async function handlePostTags(postId: number, tags: string[]) {
+async function handlePostTags(postId: number, tags: string[], organizationId: number) {
   // Remove existing tags
   await query('DELETE FROM post_tags WHERE post_id = $1', [postId]);
 
@@ -437,13 +524,13 @@ async function handlePostTags(postId: number, tags: string[]) {
   for (const tagName of tags) {
     const tagSlug = generateSlug(tagName);
     
-    // Create tag if it doesn't exist
-    let tagResult = await query('SELECT id FROM tags WHERE slug = $1', [tagSlug]);
+    // Create tag if it doesn't exist in this organization
+    let tagResult = await query('SELECT id FROM tags WHERE slug = $1 AND organization_id = $2', [tagSlug, organizationId]);
     
     if (tagResult.rows.length === 0) {
       tagResult = await query(
-        'INSERT INTO tags (name, slug) VALUES ($1, $2) RETURNING id',
-        [tagName, tagSlug]
+        'INSERT INTO tags (name, slug, organization_id) VALUES ($1, $2, $3) RETURNING id',
+        [tagName, tagSlug, organizationId]
       );
     }
 
@@ -0,0 +1,385 @@
+/**
+ * Preview Token Routes - CV-006
+ *
+ * Admin endpoints to create, list and revoke preview tokens for a version,
+ * plus the public endpoint that resolves a token to its draft content so
+ * reviewers without an account can see unpublished work.
+ */
+
+import { Router, Request, Response } from 'express';
+import Joi from 'joi';
+import { Pool } from 'pg';
+import { authenticateToken } from '../middleware/auth';
+import { checkVersionAccess } from '../middleware/versionAuth';
+import { requireOrganization } from '../middleware/tenancy';
+import { validateRequest } from '../middleware/validation';
+import { VersionService } from '../services/VersionService';
+import { PreviewService, PreviewToken } from '../services/PreviewService';
+
+// Validation schemas
+const createPreviewTokenSchema = Joi.object({
+  expires_in_hours: Joi.number().integer().min(1).max(24 * 30).default(24),
+  max_uses: Joi.number().integer().positive().optional(),
+  password: Joi.string().min(4).max(128).optional(),
+  token_type: Joi.string().valid('preview', 'share', 'embed').default('preview'),
+  allowed_emails: Joi.array().items(Joi.string().email()).optional(),
+  domain_id: Joi.number().integer().positive().optional(),
+  locale: Joi.string().max(10).optional(),
+  settings: Joi.object({
+    devicePreview: Joi.string().valid('desktop', 'tablet', 'mobile').optional(),
+    trackAnalytics: Joi.boolean().optional(),
+    enableFeedback: Joi.boolean().optional(),
+  }).optional()
+});
+
+const revokePreviewTokenSchema = Joi.object({
+  reason: Joi.string().max(500).optional()
+});
+
+const accessPreviewSchema = Joi.object({
+  password: Joi.string().max(128).optional(),
+  email: Joi.string().email().optional()
+});
+
+/**
+ * Build the public URL reviewers open for a token
+ */
+function buildPreviewUrl(token: string): string {
+  const base = process.env.FRONTEND_URL || 'http://localhost:5173';
+  return `${base.replace(/\/$/, '')}/preview/${token}`;
+}
+
+/**
+ * Strip secrets before a token row leaves the API
+ */
+function serializeToken(token: PreviewToken & { short_url?: string }) {
+  const { token_hash: _hash, password_hash: _password, ...safe } = token as any;
+  return {
+    ...safe,
+    preview_url: buildPreviewUrl(token.token),
+    is_active: !token.revoked_at && new Date(token.expires_at) > new Date()
+  };
+}
+
+export function createPreviewRoutes(pool: Pool): Router {
+  const router = Router();
+  const versionService = new VersionService(pool);
+  const previewService = new PreviewService(pool, versionService);
+
+  // Versions and tokens of other organizations are reported as not found
+  const versionInOrganization = async (versionId: number, organizationId: number): Promise<boolean> => {
+    const result = await pool.query(
+      `SELECT 1 FROM content_versions cv
+       JOIN sites s ON s.id = cv.site_id
+       WHERE cv.id = $1 AND s.organization_id = $2`,
+      [versionId, organizationId]
+    );
+    return result.rows.length > 0;
+  };
+
+  const tokenInOrganization = async (tokenId: number, organizationId: number): Promise<boolean> => {
+    const result = await pool.query(
+      `SELECT 1 FROM preview_tokens pt
+       JOIN content_versions cv ON cv.id = pt.version_id
+       JOIN sites s ON s.id = cv.site_id
+       WHERE pt.id = $1 AND s.organization_id = $2`,
+      [tokenId, organizationId]
+    );
+    return result.rows.length > 0;
+  };
+
+  /**
+   * POST /api/versions/:versionId/preview-tokens
+   * Create a preview token for a version
+   */
+  router.post(
+    '/versions/:versionId/preview-tokens',
+    authenticateToken,
+    requireOrganization,
+    checkVersionAccess,
+    validateRequest(createPreviewTokenSchema),
+    async (req: Request, res: Response) => {
+      try {
+        const versionId = Number(req.params.versionId);
+        const userId = req.user!.userId;
+
+        if (!(await versionInOrganization(versionId, req.organizationId!))) {
+          return res.status(404).json({ success: false, error: 'Version not found' });
+        }
+
+        const versionResult = await versionService.getVersion(versionId);
+        if (!versionResult.success || !versionResult.data) {
+          return res.status(404).json({ success: false, error: 'Version not found' });
+        }
+
+        const {
+          expires_in_hours,
+          max_uses,
+          password,
+          token_type,
+          allowed_emails,
+          domain_id,
+          locale,
+          settings
+        } = req.body;
+
+        const result = await previewService.generatePreviewToken(
+          {
+            versionId,
+            siteId: versionResult.data.site_id,
+            domainId: domain_id,
+            locale: locale || versionResult.data.locale,
+            expiresInHours: expires_in_hours,
+            maxUses: max_uses,
+            password,
+            allowedEmails: allowed_emails,
+            tokenType: token_type,
+            settings
+          },
+          userId
+        );
+
+        if (!result.success || !result.data) {
+          return res.status(400).json({ success: false, error: result.error });
+        }
+
+        res.status(201).json({
+          success: true,
+          data: serializeToken(result.data)
+        });
+      } catch (error) {
+        console.error('Error creating preview token:', error);
+        res.status(500).json({ success: false, error: 'Internal server error' });
+      }
+    }
+  );
+
+  /**
+   * GET /api/versions/:versionId/preview-tokens
+   * List preview tokens for a version, newest first
+   */
+  router.get(
+    '/versions/:versionId/preview-tokens',
+    authenticateToken,
+    requireOrganization,
+    checkVersionAccess,
+    async (req: Request, res: Response) => {
+      try {
+        const versionId = Number(req.params.versionId);
+        const includeRevoked = req.query.include_revoked === 'true';
+
+        if (!(await versionInOrganization(versionId, req.organizationId!))) {
+          return res.status(404).json({ success: false, error: 'Version not found' });
+        }
+
+        const result = await pool.query(
+          `SELECT pt.*, u.first_name, u.last_name, su.short_code
+           FROM preview_tokens pt
+           LEFT JOIN users u ON pt.created_by = u.id
+           LEFT JOIN short_urls su ON su.preview_token_id = pt.id
+           WHERE pt.version_id = $1
+             ${includeRevoked ? '' : 'AND pt.revoked_at IS NULL'}
+           ORDER BY pt.created_at DESC`,
+          [versionId]
+        );
+
+        res.json({
+          success: true,
+          data: result.rows.map(serializeToken)
+        });
+      } catch (error) {
+        console.error('Error listing preview tokens:', error);
+        res.status(500).json({ success: false, error: 'Internal server error' });
+      }
+    }
+  );
+
+  /**
+   * GET /api/content/:contentType/:contentId/preview-tokens
+   * List active preview tokens across all versions of a post or page
+   */
+  router.get(
+    '/content/:contentType/:contentId/preview-tokens',
+    authenticateToken,
+    requireOrganization,
+    async (req: Request, res: Response) => {
+      try {
+        const { contentType } = req.params;
+        const contentId = Number(req.params.contentId);
+
+        if (!['post', 'page'].includes(contentType) || Number.isNaN(contentId)) {
+          return res.status(400).json({ success: false, error: 'Invalid content reference' });
+        }
+
+        const result = await pool.query(
+          `SELECT pt.*, cv.version_number, u.first_name, u.last_name
+           FROM preview_tokens pt
+           JOIN content_versions cv ON pt.version_id = cv.id
+           LEFT JOIN users u ON pt.created_by = u.id
+           WHERE cv.content_type = $1
+             AND cv.content_id = $2
+             AND cv.site_id IN (SELECT id FROM sites WHERE organization_id = $3)
+             AND pt.revoked_at IS NULL
+             AND pt.expires_at > NOW()
+           ORDER BY pt.created_at DESC`,
+          [contentType, contentId, req.organizationId]
+        );
+
+        res.json({
+          success: true,
+          data: result.rows.map(serializeToken)
+        });
+      } catch (error) {
+        console.error('Error listing content preview tokens:', error);
+        res.status(500).json({ success: false, error: 'Internal server error' });
+      }
+    }
+  );
+
+  /**
+   * DELETE /api/preview-tokens/:tokenId
+   * Revoke a preview token immediately
+   */
+  router.delete(
+    '/preview-tokens/:tokenId',
+    authenticateToken,
+    requireOrganization,
+    validateRequest(revokePreviewTokenSchema),
+    async (req: Request, res: Response) => {
+      try {
+        const tokenId = Number(req.params.tokenId);
+        if (Number.isNaN(tokenId)) {
+          return res.status(400).json({ success: false, error: 'Invalid token id' });
+        }
+
+        if (!(await tokenInOrganization(tokenId, req.organizationId!))) {
+          return res.status(404).json({ success: false, error: 'Preview token not found' });
+        }
+
+        const result = await previewService.revokePreviewToken(tokenId, req.user!.userId, req.body.reason);
+
+        if (!result.success) {
+          return res.status(404).json({ success: false, error: result.error });
+        }
+
+        res.json({ success: true, message: 'Preview token revoked' });
+      } catch (error) {
+        console.error('Error revoking preview token:', error);
+        res.status(500).json({ success: false, error: 'Internal server error' });
+      }
+    }
+  );
+
+  /**
+   * GET /api/preview-tokens/:tokenId/analytics
+   * Access log for a preview token
+   */
+  router.get(
+    '/preview-tokens/:tokenId/analytics',
+    authenticateToken,
+    requireOrganization,
+    async (req: Request, res: Response) => {
+      try {
+        const tokenId = Number(req.params.tokenId);
+        if (Number.isNaN(tokenId)) {
+          return res.status(400).json({ success: false, error: 'Invalid token id' });
+        }
+
+        const result = await previewService.getPreviewAnalytics(
+          { tokenId, organizationId: req.organizationId },
+          req.user!.userId
+        );
+
+        if (!result.success) {
+          return res.status(500).json({ success: false, error: result.error });
+        }
+
+        res.json({ success: true, data: result.data });
+      } catch (error) {
+        console.error('Error fetching preview analytics:', error);
+        res.status(500).json({ success: false, error: 'Internal server error' });
+      }
+    }
+  );
+
+  /**
+   * Resolve a token to its version content (public, no account required)
+   * GET /api/preview/:token
+   * POST /api/preview/:token (password-protected or email-restricted tokens)
+   */
+  const resolvePreview = async (req: Request, res: Response) => {
+    // Drafts must never be cached or indexed
+    res.set('Cache-Control', 'no-store');
+    res.set('X-Robots-Tag', 'noindex, nofollow');
+
+    try {
+      const { token } = req.params;
+      const { password, email } = (req.method === 'POST' ? req.body : {}) as { password?: string; email?: string };
+
+      const result = await previewService.validatePreviewToken(token, {
+        ipAddress: req.ip,
+        password,
+        userEmail: email
+      });
+
+      if (!result.success || !result.data) {
+        return res.status(500).json({ success: false, error: result.error });
+      }
+
+      const validation = result.data;
+
+      if (!validation.valid) {
+        if (validation.requiresPassword || validation.error === 'Invalid password') {
+          return res.status(401).json({
+            success: false,
+            error: validation.error,
+            requires_password: true
+          });
+        }
+
+        if (validation.expired || validation.exceededUses) {
+          return res.status(410).json({ success: false, error: validation.error });
+        }
+
+        if (validation.error === 'IP address not allowed' || validation.error === 'Email not authorized') {
+          return res.status(403).json({ success: false, error: validation.error });
+        }
+
+        return res.status(404).json({ success: false, error: validation.error || 'Preview not found' });
+      }
+
+      const { version, token: previewToken } = validation;
+
+      res.json({
+        success: true,
+        data: {
+          content_type: version!.content_type,
+          content_id: version!.content_id,
+          version_number: version!.version_number,
+          version_type: version!.version_type,
+          locale: version!.locale,
+          title: version!.title,
+          slug: version!.slug,
+          content: version!.content,
+          excerpt: version!.excerpt,
+          data: version!.data,
+          meta_data: version!.meta_data,
+          created_at: version!.created_at,
+          preview: {
+            token_type: previewToken!.token_type,
+            expires_at: previewToken!.expires_at,
+            settings: previewToken!.settings
+          }
+        }
+      });
+    } catch (error) {
+      console.error('Error resolving preview token:', error);
+      res.status(500).json({ success: false, error: 'Internal server error' });
+    }
+  };
+
+  router.get('/preview/:token', resolvePreview);
+  router.post('/preview/:token', validateRequest(accessPreviewSchema), resolvePreview);
+
+  return router;
+}
@@ -0,0 +1,174 @@
+/**
+ * Redirect Routes
+ *
+ * Editors manage the redirects of their organization here and see how often
+ * each one is followed. Slug changes of live posts and pages add redirects on
+ * their own. The public resolve endpoint is what the site asks before it
+ * shows a 404.
+ */
+
+import { Router, Request, Response } from 'express';
+import Joi from 'joi';
+import { authenticateToken, requireEditor } from '../middleware/auth';
+import { requireOrganization } from '../middleware/tenancy';
+import { validateRequest } from '../middleware/validation';
+import { redirectService } from '../services/RedirectService';
+import { ServiceErrorCode } from '../types/versioning';
+
+const router = Router();
+
+// Paths start with a slash; targets may also be absolute URLs
+const sourcePath = Joi.string().trim().pattern(/^\//).max(2048).messages({
+  'string.pattern.base': 'Source path must start with /'
+});
+const targetPath = Joi.alternatives().try(
+  Joi.string().trim().pattern(/^\//).max(2048),
+  Joi.string().trim().uri({ scheme: ['http', 'https'] }).max(2048)
+).messages({
+  'alternatives.match': 'Target must be a path starting with / or an http(s) URL'
+});
+
+const redirectSchema = Joi.object({
+  source_path: sourcePath.required(),
+  target_path: targetPath.required(),
+  status_code: Joi.number().valid(301, 302).default(301),
+  domain_id: Joi.number().integer().positive().allow(null).default(null)
+});
+
+const updateRedirectSchema = Joi.object({
+  source_path: sourcePath.required(),
+  target_path: targetPath.required(),
+  status_code: Joi.number().valid(301, 302).optional(),
+  domain_id: Joi.number().integer().positive().allow(null).optional()
+});
+
+function redirectErrorStatus(errorCode?: ServiceErrorCode): number {
+  switch (errorCode) {
+    case ServiceErrorCode.NOT_FOUND:
+      return 404;
+    case ServiceErrorCode.VALIDATION_ERROR:
+      return 400;
+    case ServiceErrorCode.CONFLICT:
+      return 409;
+    default:
+      return 500;
+  }
+}
+
+// Where a missing public path should go on the requesting domain; data is
+// null when the path has no redirect
+// GET /api/redirects/resolve?path=/blog/old-slug
+router.get('/resolve', async (req: Request, res: Response) => {
+  try {
+    const { path } = req.query;
+    if (typeof path !== 'string' || !path.startsWith('/')) {
+      return res.status(400).json({ error: 'path must start with /' });
+    }
+
+    const domain = (req as any).domain;
+    const result = await redirectService.resolve(path, domain?.id ?? null);
+
+    if (!result.success) {
+      return res.status(redirectErrorStatus(result.errorCode)).json({ error: result.error });
+    }
+
+    res.json({ success: true, data: result.data });
+  } catch (error) {
+    console.error('Error resolving redirect:', error);
+    res.status(500).json({ error: 'Internal server error' });
+  }
+});
+
+// List the organization's redirects with hit counts
+// GET /api/redirects
+router.get('/', authenticateToken, requireOrganization, requireEditor, async (req: Request, res: Response) => {
+  try {
+    const result = await redirectService.listRedirects(req.organizationId!);
+
+    if (!result.success) {
+      return res.status(redirectErrorStatus(result.errorCode)).json({ error: result.error });
+    }
+
+    res.json({ success: true, data: result.data });
+  } catch (error) {
+    console.error('Error listing redirects:', error);
+    res.status(500).json({ error: 'Internal server error' });
+  }
+});
+
+// Create a manual redirect
+// POST /api/redirects
+router.post(
+  '/',
+  authenticateToken,
+  requireOrganization,
+  requireEditor,
+  validateRequest(redirectSchema),
+  async (req: Request, res: Response) => {
+    try {
+      const result = await redirectService.createRedirect(req.organizationId!, req.user?.userId, req.body);
+
+      if (!result.success) {
+        return res.status(redirectErrorStatus(result.errorCode)).json({ error: result.error });
+      }
+
+      res.status(201).json({ success: true, data: result.data });
+    } catch (error) {
+      console.error('Error creating redirect:', error);
+      res.status(500).json({ error: 'Internal server error' });
+    }
+  }
+);
+
+// Update a redirect
+// PUT /api/redirects/:id
+router.put(
+  '/:id',
+  authenticateToken,
+  requireOrganization,
+  requireEditor,
+  validateRequest(updateRedirectSchema),
+  async (req: Request, res: Response) => {
+    try {
+      const id = parseInt(req.params.id);
+      if (isNaN(id)) {
+        return res.status(400).json({ error: 'Invalid redirect ID' });
+      }
+
+      const result = await redirectService.updateRedirect(req.organizationId!, id, req.body);
+
+      if (!result.success) {
+        return res.status(redirectErrorStatus(result.errorCode)).json({ error: result.error });
+      }
+
+      res.json({ success: true, data: result.data });
+    } catch (error) {
+      console.error('Error updating redirect:', error);
+      res.status(500).json({ error: 'Internal server error' });
+    }
+  }
+);
+
+// Delete a redirect
+// DELETE /api/redirects/:id
+router.delete('/:id', authenticateToken, requireOrganization, requireEditor, async (req: Request, res: Response) => {
+  try {
+    const id = parseInt(req.params.id);
+    if (isNaN(id)) {
+      return res.status(400).json({ error: 'Invalid redirect ID' });
+    }
+
+    const result = await redirectService.deleteRedirect(req.organizationId!, id);
+
+    if (!result.success) {
+      return res.status(redirectErrorStatus(result.errorCode)).json({ error: result.error });
+    }
+
+    res.json({ success: true, data: { deleted: true } });
+  } catch (error) {
+    console.error('Error deleting redirect:', error);
+    res.status(500).json({ error: 'Internal server error' });
+  }
+});
+
+export default router;
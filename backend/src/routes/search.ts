@@ -0,0 +1,74 @@
+/**
+ * Search Routes
+ *
+ * Public full-text search across published posts, pages and categories,
+ * ranked by relevance with the matched terms highlighted.
+ */
+
+import { Router, Request, Response } from 'express';
+import Joi from 'joi';
+import { searchService, SEARCH_RESULT_TYPES, SearchResultType } from '../services/SearchService';
+import { LOCALE_PATTERN } from '../utils/locale';
+
+const router = Router();
+
+const searchQuerySchema = Joi.object({
+  q: Joi.string().trim().min(1).max(200).required(),
+  // Comma-separated subset of post, page and category
+  type: Joi.string().pattern(new RegExp(`^(${SEARCH_RESULT_TYPES.join('|')})(,(${SEARCH_RESULT_TYPES.join('|')}))*$`)).optional(),
+  locale: Joi.string().pattern(LOCALE_PATTERN).optional(),
+  page: Joi.number().integer().min(1).default(1),
+  limit: Joi.number().integer().min(1).max(50).default(10)
+});
+
+// Search published content
+// GET /api/search?q=...&type=post,page&locale=de
+router.get('/', async (req: Request, res: Response) => {
+  try {
+    const { error, value } = searchQuerySchema.validate(req.query, {
+      abortEarly: false,
+      stripUnknown: true,
+    });
+
+    if (error) {
+      return res.status(400).json({
+        error: 'Validation failed',
+        details: error.details.map((detail) => ({
+          field: detail.path.join('.'),
+          message: detail.message,
+        })),
+      });
+    }
+
+    // Get domain context from request (set by middleware)
+    const domain = (req as any).domain;
+
+    const result = await searchService.search({
+      q: value.q,
+      types: value.type ? (value.type.split(',') as SearchResultType[]) : undefined,
+      locale: value.locale,
+      domainId: domain?.id,
+      page: value.page,
+      limit: value.limit,
+    });
+
+    if (!result.success || !result.data) {
+      return res.status(500).json({ error: result.error });
+    }
+
+    res.json({
+      data: result.data.results,
+      query: result.data.query,
+      pagination: {
+        ...result.data.pagination,
+        hasNextPage: result.data.pagination.page < result.data.pagination.totalPages,
+        hasPreviousPage: result.data.pagination.page > 1
+      }
+    });
+  } catch (error) {
+    console.error('Search error:', error);
+    res.status(500).json({ error: 'Internal server error' });
+  }
+});
+
+export default router;
@@ -0,0 +1,133 @@
+/**
+ * Sitemap Routes
+ *
+ * sitemap.xml for every site of the requested domain, at the site's base path
+ * (/sitemap.xml, /shop/sitemap.xml), and a robots.txt for the domain pointing
+ * crawlers at them. Sitemaps past 50,000 URLs become a sitemap index over
+ * numbered files (/sitemap-1.xml, /sitemap-2.xml, ...).
+ */
+
+import { Router, Request, Response, NextFunction } from 'express';
+import { DomainService } from '../services/domainService';
+import { siteService, Site } from '../services/siteService';
+import { sitemapService } from '../services/SitemapService';
+import { renderRobotsTxt, renderSitemapIndex, renderUrlset, SitemapEntry, SITEMAP_MAX_URLS } from '../utils/sitemap';
+
+const router = Router();
+
+// Cached sitemaps are rebuilt on publish; let crawlers and proxies reuse them for 15 minutes
+const SITEMAP_MAX_AGE = 15 * 60;
+const ROBOTS_MAX_AGE = 60 * 60;
+
+// Optional base path of the site, then sitemap.xml or a numbered sitemap-N.xml
+const SITEMAP_PATH = /^((?:\/[a-z0-9_-]+)*)\/sitemap(?:-(\d+))?\.xml$/;
+
+/**
+ * The requested domain, else the default domain, with its active sites,
+ * default site first
+ */
+async function loadDomainSites(hostname: string) {
+  const domain = (await DomainService.getDomainByHostname(hostname)) || (await DomainService.getDefaultDomain());
+  const sites = domain ? await siteService.getSitesByDomain(domain.id) : [];
+
+  return {
+    domain,
+    sites: sites
+      .filter((site) => site.is_active)
+      .sort((a, b) => Number(b.is_default) - Number(a.is_default)),
+  };
+}
+
+// Base path without a trailing slash; empty for the domain root
+function sitePrefix(site: Site): string {
+  return site.base_path.replace(/\/+$/, '');
+}
+
+router.get(SITEMAP_PATH, async (req: Request, res: Response, next: NextFunction) => {
+  try {
+    const prefix = req.params[0] || '';
+    const page = req.params[1] !== undefined ? parseInt(req.params[1], 10) : undefined;
+
+    const { domain, sites } = await loadDomainSites(req.hostname);
+    const site = sites.find((candidate) => sitePrefix(candidate) === prefix) || null;
+
+    // Without sites the domain only has the root sitemap
+    if (!site && (sites.length > 0 || prefix !== '')) {
+      return next();
+    }
+
+    const result = await sitemapService.getPages(domain?.id ?? null, site);
+    if (!result.success || !result.data) {
+      return res.status(500).json({ error: 'Internal server error' });
+    }
+
+    const origin = `${req.protocol}://${req.get('host')}`;
+    const entries: SitemapEntry[] = result.data.map(({ path, lastmod }) => ({ url: `${origin}${path}`, lastmod }));
+    const chunks: SitemapEntry[][] = [];
+    for (let start = 0; start < entries.length; start += SITEMAP_MAX_URLS) {
+      chunks.push(entries.slice(start, start + SITEMAP_MAX_URLS));
+    }
+
+    const latest = (chunk: SitemapEntry[]) => chunk.reduce<Date | undefined>(
+      (max, entry) => (entry.lastmod && (!max || entry.lastmod > max) ? entry.lastmod : max),
+      undefined
+    );
+
+    let body: string;
+    let lastModified: Date | undefined;
+    if (page !== undefined) {
+      if (page < 1 || page > chunks.length) {
+        return next();
+      }
+      body = renderUrlset(chunks[page - 1]);
+      lastModified = latest(chunks[page - 1]);
+    } else if (chunks.length > 1) {
+      const sitemaps = chunks.map((chunk, index) => ({
+        url: `${origin}${prefix}/sitemap-${index + 1}.xml`,
+        lastmod: latest(chunk),
+      }));
+      body = renderSitemapIndex(sitemaps);
+      lastModified = latest(sitemaps);
+    } else {
+      body = renderUrlset(entries);
+      lastModified = latest(entries);
+    }
+
+    res.set({
+      'Content-Type': 'application/xml; charset=utf-8',
+      'Cache-Control': `public, max-age=${SITEMAP_MAX_AGE}`,
+    });
+    if (lastModified) {
+      res.set('Last-Modified', lastModified.toUTCString());
+    }
+    res.send(body);
+  } catch (error) {
+    console.error('Sitemap error:', error);
+    res.status(500).json({ error: 'Internal server error' });
+  }
+});
+
+router.get('/robots.txt', async (req: Request, res: Response) => {
+  try {
+    const { sites } = await loadDomainSites(req.hostname);
+    const origin = `${req.protocol}://${req.get('host')}`;
+
+    const customRules = sites
+      .map((site) => site.settings?.robots_txt)
+      .filter((rules): rules is string => typeof rules === 'string');
+    const sitemapUrls = sites.length > 0
+      ? sites.map((site) => `${origin}${sitePrefix(site)}/sitemap.xml`)
+      : [`${origin}/sitemap.xml`];
+
+    res.set({
+      'Content-Type': 'text/plain; charset=utf-8',
+      'Cache-Control': `public, max-age=${ROBOTS_MAX_AGE}`,
+    });
+    res.send(renderRobotsTxt(customRules, sitemapUrls));
+  } catch (error) {
+    console.error('Robots error:', error);
+    res.status(500).json({ error: 'Internal server error' });
+  }
+});
+
+export default router;
@@ -5,10 +5,21 @@ import { enforceQuota } from '../middleware/quota';
 import { siteService } from '../services/siteService';
 import { quotaService } from '../services/QuotaService';
 import Joi from 'joi';
+import { LOCALE_PATTERN, resolveSiteLocales } from '../utils/locale';
 
 const router = Router();
 
 // Validation schemas
+// Locale settings are checked; other site settings pass through as-is
+const siteSettingsSchema = Joi.object({
+  default_locale: Joi.string().pattern(LOCALE_PATTERN).optional(),
+  locales: Joi.array().items(Joi.string().pattern(LOCALE_PATTERN)).unique().optional(),
+  // Whether RSS, Atom and JSON feeds carry the full post or only the excerpt
+  feed_content: Joi.string().valid('full', 'excerpt').optional(),
+  // Extra rules appended to the domain's robots.txt
+  robots_txt: Joi.string().allow('').max(10000).optional()
+}).unknown(true);
+
 const createSiteSchema = Joi.object({
   domain_id: Joi.number().integer().positive().required(),
   name: Joi.string().min(1).max(255).required(),
@@ -17,7 +28,7 @@ const createSiteSchema = Joi.object({
   description: Joi.string().optional(),
   is_default: Joi.boolean().optional(),
   is_active: Joi.boolean().optional(),
-  settings: Joi.object().optional()
+  settings: siteSettingsSchema.optional()
 });
 
 const updateSiteSchema = Joi.object({
@@ -27,7 +38,7 @@ const updateSiteSchema = Joi.object({
   description: Joi.string().allow('').optional(),
   is_default: Joi.boolean().optional(),
   is_active: Joi.boolean().optional(),
-  settings: Joi.object().optional()
+  settings: siteSettingsSchema.optional()
 });
 
 // Get all sites (admin only)
@@ -247,12 +258,16 @@ router.get('/context/current', async (req: Request, res: Response) => {
       return res.status(404).json({ error: 'No site found for this domain' });
     }
 
+    const { default_locale, locales } = resolveSiteLocales(site.settings);
+
     res.json({
       siteId: site.id,
       siteName: site.name,
       siteTitle: site.title,
       basePath: site.base_path,
-      domainId: site.domain_id
+      domainId: site.domain_id,
+      defaultLocale: default_locale,
+      locales
     });
   } catch (error) {
     console.error('Error getting site context:', error);
@@ -0,0 +1,81 @@
+/**
+ * Server-Rendered Page Routes
+ *
+ * Full HTML for the public pages crawlers and link unfurlers fetch: the home
+ * page, posts, pages, categories and tags, including their /:locale
+ * variants. The markup comes from the frontend's server bundle (see
+ * SsrService); the browser hydrates it into the regular single-page app.
+ */
+
+import { Router, Request, Response, NextFunction } from 'express';
+import { ssrService } from '../services/SsrService';
+import { redirectService } from '../services/RedirectService';
+import { LOCALE_PATTERN } from '../utils/locale';
+
+const router = Router();
+
+// The frontend routes rendered here (frontend/src/publicRoutes.tsx)
+const PUBLIC_PAGE_PATHS = [
+  '/',
+  '/blog/:slug',
+  '/page/:path([^.]+)',
+  '/category/:path([^.]+)',
+  '/tag/:slug',
+  '/:locale',
+  '/:locale/blog/:slug',
+  '/:locale/page/:path([^.]+)',
+];
+
+// Where the renderer reaches the API; it runs in this process, so loopback
+const SSR_API_URL = process.env.SSR_API_URL || `http://127.0.0.1:${process.env.PORT || 5000}/api`;
+
+// First path segments that look like a locale but belong to the API
+const RESERVED_SEGMENTS = ['api'];
+
+router.get(PUBLIC_PAGE_PATHS, async (req: Request, res: Response, next: NextFunction) => {
+  const { locale } = req.params;
+  if (locale && (!LOCALE_PATTERN.test(locale) || RESERVED_SEGMENTS.includes(locale))) {
+    return next();
+  }
+
+  try {
+    const host = req.get('host') || req.hostname;
+    const result = await ssrService.renderPage(
+      {
+        url: req.originalUrl,
+        origin: `${req.protocol}://${host}`,
+        apiBaseUrl: SSR_API_URL,
+        // Content and settings resolve to the domain the page was requested on
+        headers: { Host: host, 'X-Forwarded-Proto': req.protocol },
+      },
+      `${host}${req.originalUrl}`
+    );
+
+    if (!result.success || !result.data) {
+      return res.status(503).json({ error: result.error || 'Service unavailable' });
+    }
+
+    // Content that moved answers with a real redirect rather than a 404 page
+    if (result.data.status === 404) {
+      const redirect = await redirectService.resolve(req.path, (req as any).domain?.id ?? null);
+      if (redirect.success && redirect.data) {
+        return res.redirect(redirect.data.status_code, redirect.data.target);
+      }
+    }
+
+    // Same as the static client build: post content may embed third-party
+    // media the API's content security policy would block
+    res.removeHeader('Content-Security-Policy');
+    res.status(result.data.status).set({
+      'Content-Type': 'text/html; charset=utf-8',
+      // Rendered pages are cached on the server and dropped on publish
+      'Cache-Control': 'no-cache',
+    });
+    res.send(result.data.html);
+  } catch (error) {
+    console.error('SSR error:', error);
+    res.status(500).json({ error: 'Internal server error' });
+  }
+});
+
+export default router;
@@ -0,0 +1,22 @@
+import express from 'express';
+import { Request, Response } from 'express';
+import { getTagBySlug } from '../db/tags';
+
+const router = express.Router();
+
+// Get a tag for its archive page (public); its posts come from GET /api/posts?tag=
+// Unknown tags return null rather than 404 so the page can render its own message
+router.get('/:slug', async (req: Request, res: Response) => {
+  try {
+    const tag = await getTagBySlug(req.params.slug, {
+      siteId: req.siteContext?.siteId,
+      domainId: (req as any).domain?.id,
+    });
+    res.json({ data: tag });
+  } catch (error) {
+    console.error('Get tag error:', error);
+    res.status(500).json({ error: 'Internal server error' });
+  }
+});
+
+export default router;
@@ -2,7 +2,11 @@ import express from 'express';
 import { Request, Response } from 'express';
 import { query } from '../utils/database';
 import { authenticateToken } from '../middleware/auth';
+import { requireOrganization } from '../middleware/tenancy';
 import { validate, createTemplateSchema, updateTemplateSchema } from '../middleware/validation';
+import { checkSchema, hasSchemaFields, JsonSchema, SchemaError, validateAgainstSchema } from '../utils/jsonSchema';
+import { listTemplatePages, migrateTemplatePages } from '../db/templates';
+import { invalidatePublicCaches } from '../utils/publicCache';
 
 const router = express.Router();
 
@@ -15,6 +19,19 @@ router.use((req: Request, res: Response, next) => {
   next();
 });
 
+// Problems with a schema and its default data, reported as schema.<path> and default_data.<path>
+function checkTemplate(schema: JsonSchema, defaultData: unknown): { error: string; details: SchemaError[] } | null {
+  const schemaErrors = checkSchema(schema, 'schema');
+  if (schemaErrors.length > 0) {
+    return { error: 'Invalid template schema', details: schemaErrors };
+  }
+  const dataErrors = hasSchemaFields(schema) ? validateAgainstSchema(schema, defaultData, 'default_data') : [];
+  if (dataErrors.length > 0) {
+    return { error: 'Default data does not match the schema', details: dataErrors };
+  }
+  return null;
+}
+
 // List templates
 router.get('/', async (_req: Request, res: Response) => {
   try {
@@ -44,6 +61,9 @@ router.post('/', validate(createTemplateSchema), async (req: Request, res: Respo
   try {
     const { key, name, description, enabled = true, schema = {}, default_data = {} } = req.body;
 
+    const invalid = checkTemplate(schema, default_data);
+    if (invalid) return res.status(400).json(invalid);
+
     // Unique key check
     const exists = await query('SELECT id FROM page_templates WHERE key = $1', [key]);
     if (exists.rows.length > 0) return res.status(400).json({ error: 'Key already exists' });
@@ -73,6 +93,12 @@ router.put('/:id', validate(updateTemplateSchema), async (req: Request, res: Res
       if (dup.rows.length > 0) return res.status(400).json({ error: 'Key already exists' });
     }
 
+    const invalid = checkTemplate(
+      req.body.schema ?? existing.rows[0].schema,
+      req.body.default_data ?? existing.rows[0].default_data
+    );
+    if (invalid) return res.status(400).json(invalid);
+
     const update = await query(
       `UPDATE page_templates SET
         key = COALESCE($1, key),
@@ -81,6 +107,7 @@ router.put('/:id', validate(updateTemplateSchema), async (req: Request, res: Res
         enabled = COALESCE($4, enabled),
         schema = COALESCE($5, schema),
         default_data = COALESCE($6, default_data),
+        version = CASE WHEN $5::jsonb IS DISTINCT FROM schema AND $5 IS NOT NULL THEN version + 1 ELSE version END,
         updated_at = CURRENT_TIMESTAMP
        WHERE id = $7 RETURNING *`,
       [req.body.key, req.body.name, req.body.description, req.body.enabled, req.body.schema, req.body.default_data, id]
@@ -92,6 +119,35 @@ router.put('/:id', validate(updateTemplateSchema), async (req: Request, res: Res
   }
 });
 
+// Pages using a template and whether their data fits its current schema
+router.get('/:id/pages', requireOrganization, async (req: Request, res: Response) => {
+  try {
+    const result = await query('SELECT * FROM page_templates WHERE id = $1', [req.params.id]);
+    if (result.rows.length === 0) return res.status(404).json({ error: 'Template not found' });
+    res.json({ data: await listTemplatePages(result.rows[0], req.organizationId!) });
+  } catch (error) {
+    console.error('List template pages error:', error);
+    res.status(500).json({ error: 'Internal server error' });
+  }
+});
+
+// Bring the data of pages saved under an older schema version up to date
+router.post('/:id/migrate', requireOrganization, async (req: Request, res: Response) => {
+  try {
+    const result = await query('SELECT * FROM page_templates WHERE id = $1', [req.params.id]);
+    if (result.rows.length === 0) return res.status(404).json({ error: 'Template not found' });
+
+    const outcome = await migrateTemplatePages(result.rows[0], req.organizationId!);
+    if (outcome.migrated > 0) {
+      invalidatePublicCaches();
+    }
+    res.json({ message: 'Pages migrated', data: outcome });
+  } catch (error) {
+    console.error('Migrate template pages error:', error);
+    res.status(500).json({ error: 'Internal server error' });
+  }
+});
+
 // Delete template
 router.delete('/:id', async (req: Request, res: Response) => {
   try {
@@ -0,0 +1,196 @@
+/**
+ * Translation Routes
+ *
+ * Translation groups for posts and pages. The editor reads the group to show
+ * which locales exist and which have fallen behind their source, creates a
+ * sibling in another enabled locale, and marks a translation as caught up
+ * once the translator has worked through the source changes.
+ */
+
+import { Router, Request, Response, NextFunction } from 'express';
+import Joi from 'joi';
+import { authenticateToken } from '../middleware/auth';
+import { requireOrganization } from '../middleware/tenancy';
+import { checkContentAccess } from '../middleware/versionAuth';
+import { enforceQuota } from '../middleware/quota';
+import { validateRequest } from '../middleware/validation';
+import { query } from '../utils/database';
+import { translationService } from '../services/TranslationService';
+import { LOCALE_PATTERN } from '../utils/locale';
+import { quotaService } from '../services/QuotaService';
+import { mediaUsageService } from '../services/MediaUsageService';
+import { ContentType, ServiceErrorCode } from '../types/versioning';
+
+const router = Router();
+
+const createTranslationSchema = Joi.object({
+  locale: Joi.string().pattern(LOCALE_PATTERN).required(),
+  title: Joi.string().min(1).max(255).optional(),
+  slug: Joi.string().pattern(/^[a-z0-9-]+$/).max(255).optional()
+});
+
+/**
+ * Only posts and pages have translations
+ */
+function validateContentType(req: Request, res: Response, next: NextFunction) {
+  const { contentType } = req.params;
+  if (contentType !== ContentType.POST && contentType !== ContentType.PAGE) {
+    return res.status(400).json({ error: 'Invalid content type' });
+  }
+  next();
+}
+
+/**
+ * A post translation counts towards the posts quota like any other post
+ */
+const enforcePostQuota = enforceQuota('posts');
+function enforceTranslationQuota(req: Request, res: Response, next: NextFunction) {
+  if (req.params.contentType === ContentType.POST) {
+    return enforcePostQuota(req, res, next);
+  }
+  next();
+}
+
+function translationErrorStatus(errorCode?: ServiceErrorCode): number {
+  switch (errorCode) {
+    case ServiceErrorCode.NOT_FOUND:
+      return 404;
+    case ServiceErrorCode.VALIDATION_ERROR:
+      return 400;
+    case ServiceErrorCode.CONFLICT:
+      return 409;
+    default:
+      return 500;
+  }
+}
+
+// Get the translation group of content
+// GET /api/content/:contentType/:contentId/translations
+router.get(
+  '/content/:contentType/:contentId/translations',
+  authenticateToken,
+  requireOrganization,
+  validateContentType,
+  async (req: Request, res: Response) => {
+    try {
+      const { contentType, contentId } = req.params;
+      const result = await translationService.getTranslationStatus(
+        req.organizationId!,
+        contentType as ContentType,
+        Number(contentId)
+      );
+
+      if (!result.success) {
+        return res.status(translationErrorStatus(result.errorCode)).json({ error: result.error });
+      }
+
+      res.json({ success: true, data: result.data });
+    } catch (error) {
+      console.error('Error getting translations:', error);
+      res.status(500).json({ error: 'Internal server error' });
+    }
+  }
+);
+
+// Create a translation in another locale
+// POST /api/content/:contentType/:contentId/translations
+router.post(
+  '/content/:contentType/:contentId/translations',
+  authenticateToken,
+  requireOrganization,
+  validateContentType,
+  checkContentAccess,
+  enforceTranslationQuota,
+  validateRequest(createTranslationSchema),
+  async (req: Request, res: Response) => {
+    try {
+      const { contentType, contentId } = req.params;
+      const organizationId = req.organizationId!;
+      const result = await translationService.createTranslation(
+        organizationId,
+        contentType as ContentType,
+        Number(contentId),
+        req.body,
+        req.user!.userId
+      );
+
+      if (!result.success) {
+        return res.status(translationErrorStatus(result.errorCode)).json({ error: result.error });
+      }
+
+      const translation = result.data;
+
+      if (contentType === ContentType.POST && !(req as any).isEnterpriseTier) {
+        const incrementResult = await quotaService.incrementQuota({
+          organizationId,
+          dimension: 'posts',
+          amount: 1
+        });
+
+        // Same rollback as creating a post directly
+        if (!incrementResult.success || !incrementResult.data) {
+          console.error('[CRITICAL] Quota increment failed, rolling back translation:', {
+            postId: translation.id,
+            organizationId,
+            error: incrementResult.error,
+          });
+          try {
+            await query('DELETE FROM posts WHERE id = $1', [translation.id]);
+          } catch (dbError) {
+            console.error('[CRITICAL] Failed to delete translation during rollback:', dbError);
+          }
+
+          return res.status(500).json({
+            error: 'Translation failed due to quota tracking error',
+            details: incrementResult.error,
+          });
+        }
+      }
+
+      // The translation starts with the media of its source
+      const references = await mediaUsageService.syncReferences(
+        contentType === ContentType.POST ? 'post' : 'page',
+        translation.id
+      );
+      if (!references.success) {
+        console.error('Failed to record media used by translation:', references.error);
+      }
+
+      res.status(201).json({ success: true, data: translation });
+    } catch (error) {
+      console.error('Error creating translation:', error);
+      res.status(500).json({ error: 'Internal server error' });
+    }
+  }
+);
+
+// Mark a translation as up to date with its source
+// POST /api/content/:contentType/:contentId/translations/sync
+router.post(
+  '/content/:contentType/:contentId/translations/sync',
+  authenticateToken,
+  requireOrganization,
+  validateContentType,
+  checkContentAccess,
+  async (req: Request, res: Response) => {
+    try {
+      const { contentType, contentId } = req.params;
+      const result = await translationService.markTranslationCurrent(
+        req.organizationId!,
+        contentType as ContentType,
+        Number(contentId)
+      );
+
+      if (!result.success) {
+        return res.status(translationErrorStatus(result.errorCode)).json({ error: result.error });
+      }
+
+      res.json({ success: true, data: result.data });
+    } catch (error) {
+      console.error('Error syncing translation:', error);
+      res.status(500).json({ error: 'Internal server error' });
+    }
+  }
+);
+
+export default router;
@@ -0,0 +1,42 @@
+/**
+ * Upload Routes
+ *
+ * Files kept in remote media storage (an S3 bucket) keep their /uploads/ URLs.
+ * Requests for them are sent on to a short-lived signed URL, so the files
+ * are downloaded from the bucket rather than through the backend.
+ */
+
+import { Router, Request, Response } from 'express';
+import { MediaStorage } from '../services/MediaStorage';
+
+// Signed URLs outlive the cached redirect to them
+const SIGNED_URL_EXPIRY = 60 * 60;
+const REDIRECT_MAX_AGE = 5 * 60;
+
+export function createUploadsRoutes(storage: MediaStorage): Router {
+  const router = Router();
+
+  // GET /uploads/logos/logo-1.png
+  router.get('/*', async (req: Request, res: Response) => {
+    let key: string;
+    try {
+      key = decodeURIComponent(req.path.replace(/^\/+/, ''));
+    } catch {
+      return res.status(400).json({ error: 'Invalid path' });
+    }
+    if (!key || key.split('/').some((segment) => segment === '..' || segment === '.' || segment === '')) {
+      return res.status(404).json({ error: 'File not found' });
+    }
+
+    try {
+      const url = await storage.signedUrl(key, SIGNED_URL_EXPIRY);
+      res.set('Cache-Control', `public, max-age=${REDIRECT_MAX_AGE}`);
+      res.redirect(302, url);
+    } catch (error) {
+      console.error('Error signing upload URL:', error);
+      res.status(500).json({ error: 'Internal server error' });
+    }
+  });
+
+  return router;
+}
@@ -1,7 +1,8 @@
 /**
  * Version Management Routes - CV-007
  *
- * API endpoints for version comparison, diff viewing, and export functionality
+ * API endpoints for version comparison, diff viewing, export functionality,
+ * and threaded review comments on versions
  */
 
 import { Router, Request, Response, NextFunction } from 'express';
@@ -9,8 +10,11 @@ import Joi from 'joi';
 import { Pool } from 'pg';
 import { authenticateToken as authenticate } from '../middleware/auth';
 import { validateRequest } from '../middleware/validation';
+import { requireOrganization } from '../middleware/tenancy';
 import { VersionService } from '../services/VersionService';
 import { DiffService } from '../services/DiffService';
+import { VersionCommentService } from '../services/VersionCommentService';
+import { ServiceErrorCode } from '../types/versioning';
 
 const router = Router();
 
@@ -47,9 +51,51 @@ const changesSummarySchema = Joi.object({
   compare_version_id: Joi.number().integer().positive().optional()
 });
 
+const commentTypes = ['general', 'suggestion', 'issue', 'approval'];
+
+const listCommentsSchema = Joi.object({
+  status: Joi.string().valid('active', 'resolved').optional(),
+  include_replies: Joi.boolean().default(true),
+  sort_by: Joi.string().valid('created_at', 'updated_at').default('created_at'),
+  sort_order: Joi.string().valid('asc', 'desc').default('asc')
+});
+
+const createCommentSchema = Joi.object({
+  comment_text: Joi.string().trim().min(1).max(10000).required(),
+  comment_type: Joi.string().valid(...commentTypes).default('general'),
+  parent_id: Joi.number().integer().positive().optional(),
+  line_number: Joi.number().integer().min(0).optional(),
+  field_path: Joi.string().max(255).optional(),
+  range_start: Joi.number().integer().min(0).optional(),
+  range_end: Joi.number().integer().min(Joi.ref('range_start')).optional(),
+  quoted_text: Joi.string().max(2000).optional()
+}).and('range_start', 'range_end');
+
+const updateCommentSchema = Joi.object({
+  comment_text: Joi.string().trim().min(1).max(10000).optional(),
+  comment_type: Joi.string().valid(...commentTypes).optional()
+}).or('comment_text', 'comment_type');
+
+/**
+ * Map comment service error codes to HTTP status codes
+ */
+function commentErrorStatus(errorCode?: ServiceErrorCode): number {
+  switch (errorCode) {
+    case ServiceErrorCode.NOT_FOUND:
+      return 404;
+    case ServiceErrorCode.FORBIDDEN:
+      return 403;
+    case ServiceErrorCode.VALIDATION_ERROR:
+      return 400;
+    default:
+      return 500;
+  }
+}
+
 export function createVersionRoutes(pool: Pool): Router {
   const versionService = new VersionService(pool);
   const diffService = new DiffService(pool);
+  const commentService = new VersionCommentService(pool);
 
   /**
    * GET /api/versions/compare
@@ -543,6 +589,215 @@ export function createVersionRoutes(pool: Pool): Router {
     }
   );
 
+  /**
+   * GET /api/versions/:id/comments
+   * List comment threads for a version
+   */
+  router.get(
+    '/:id/comments',
+    authenticate,
+    requireOrganization,
+    validateQuery(listCommentsSchema),
+    async (req: Request, res: Response) => {
+      try {
+        const result = await commentService.listComments(
+          Number(req.params.id),
+          req.organizationId!,
+          req.query as any
+        );
+
+        if (!result.success) {
+          return res.status(commentErrorStatus(result.errorCode)).json({
+            success: false,
+            error: result.error
+          });
+        }
+
+        res.json({ success: true, data: result.data });
+      } catch (error) {
+        console.error('Error listing version comments:', error);
+        res.status(500).json({
+          success: false,
+          error: 'Internal server error'
+        });
+      }
+    }
+  );
+
+  /**
+   * POST /api/versions/:id/comments
+   * Add a comment, reply or text-anchored annotation to a version
+   */
+  router.post(
+    '/:id/comments',
+    authenticate,
+    requireOrganization,
+    validateRequest(createCommentSchema),
+    async (req: Request, res: Response) => {
+      try {
+        const result = await commentService.createComment(
+          Number(req.params.id),
+          req.organizationId!,
+          req.user!.userId,
+          req.body
+        );
+
+        if (!result.success) {
+          return res.status(commentErrorStatus(result.errorCode)).json({
+            success: false,
+            error: result.error
+          });
+        }
+
+        res.status(201).json({ success: true, data: result.data });
+      } catch (error) {
+        console.error('Error creating version comment:', error);
+        res.status(500).json({
+          success: false,
+          error: 'Internal server error'
+        });
+      }
+    }
+  );
+
+  /**
+   * PUT /api/versions/comments/:commentId
+   * Edit a comment (author only)
+   */
+  router.put(
+    '/comments/:commentId',
+    authenticate,
+    requireOrganization,
+    validateRequest(updateCommentSchema),
+    async (req: Request, res: Response) => {
+      try {
+        const result = await commentService.updateComment(
+          Number(req.params.commentId),
+          req.organizationId!,
+          req.user!.userId,
+          req.body
+        );
+
+        if (!result.success) {
+          return res.status(commentErrorStatus(result.errorCode)).json({
+            success: false,
+            error: result.error
+          });
+        }
+
+        res.json({ success: true, data: result.data });
+      } catch (error) {
+        console.error('Error updating version comment:', error);
+        res.status(500).json({
+          success: false,
+          error: 'Internal server error'
+        });
+      }
+    }
+  );
+
+  /**
+   * DELETE /api/versions/comments/:commentId
+   * Delete a comment and its replies
+   */
+  router.delete(
+    '/comments/:commentId',
+    authenticate,
+    requireOrganization,
+    async (req: Request, res: Response) => {
+      try {
+        const result = await commentService.deleteComment(
+          Number(req.params.commentId),
+          req.organizationId!,
+          req.user!.userId
+        );
+
+        if (!result.success) {
+          return res.status(commentErrorStatus(result.errorCode)).json({
+            success: false,
+            error: result.error
+          });
+        }
+
+        res.json({ success: true, message: 'Comment deleted' });
+      } catch (error) {
+        console.error('Error deleting version comment:', error);
+        res.status(500).json({
+          success: false,
+          error: 'Internal server error'
+        });
+      }
+    }
+  );
+
+  /**
+   * PUT /api/versions/comments/:commentId/resolve
+   * Resolve a comment thread
+   */
+  router.put(
+    '/comments/:commentId/resolve',
+    authenticate,
+    requireOrganization,
+    async (req: Request, res: Response) => {
+      try {
+        const result = await commentService.resolveComment(
+          Number(req.params.commentId),
+          req.organizationId!,
+          req.user!.userId
+        );
+
+        if (!result.success) {
+          return res.status(commentErrorStatus(result.errorCode)).json({
+            success: false,
+            error: result.error
+          });
+        }
+
+        res.json({ success: true, data: result.data });
+      } catch (error) {
+        console.error('Error resolving version comment:', error);
+        res.status(500).json({
+          success: false,
+          error: 'Internal server error'
+        });
+      }
+    }
+  );
+
+  /**
+   * PUT /api/versions/comments/:commentId/unresolve
+   * Reopen a resolved comment thread
+   */
+  router.put(
+    '/comments/:commentId/unresolve',
+    authenticate,
+    requireOrganization,
+    async (req: Request, res: Response) => {
+      try {
+        const result = await commentService.unresolveComment(
+          Number(req.params.commentId),
+          req.organizationId!,
+          req.user!.userId
+        );
+
+        if (!result.success) {
+          return res.status(commentErrorStatus(result.errorCode)).json({
+            success: false,
+            error: result.error
+          });
+        }
+
+        res.json({ success: true, data: result.data });
+      } catch (error) {
+        console.error('Error reopening version comment:', error);
+        res.status(500).json({
+          success: false,
+          error: 'Internal server error'
+        });
+      }
+    }
+  );
+
   return router;
 }
 
@@ -1,6 +1,8 @@
 import { Router, Request, Response } from 'express';
 import { authenticateToken } from '../middleware/auth';
 import { checkVersionAccess, checkPublishPermission, checkContentAccess } from '../middleware/versionAuth';
+import { requireOrganization } from '../middleware/tenancy';
+import { workflowService } from '../services/WorkflowService';
 import pool from '../utils/database';
 
 const router = Router();
@@ -247,7 +249,7 @@ router.post(
 
         // Get version details
         const versionQuery = `
-          SELECT content_type, content_id, site_id
+          SELECT content_type, content_id, site_id, workflow_stage
           FROM content_versions
           WHERE id = $1
         `;
@@ -258,7 +260,22 @@ router.post(
           return res.status(404).json({ error: 'Version not found' });
         }
 
-        const { content_type, content_id, site_id } = versionResult.rows[0];
+        const { content_type, content_id, site_id, workflow_stage } = versionResult.rows[0];
+
+        // Organizations with editorial workflow only publish approved versions
+        if (workflow_stage !== 'approved') {
+          const workflowResult = await client.query(`
+            SELECT o.workflow_enabled
+            FROM sites s
+            JOIN organizations o ON o.id = s.organization_id
+            WHERE s.id = $1
+          `, [site_id]);
+
+          if (workflowResult.rows[0]?.workflow_enabled) {
+            await client.query('ROLLBACK');
+            return res.status(403).json({ error: 'Version must be approved before it can be published' });
+          }
+        }
 
         // Remove current published flag from other versions
         await client.query(`
@@ -273,7 +290,8 @@ router.post(
           SET
             version_type = 'published',
             is_current_published = true,
-            published_at = CURRENT_TIMESTAMP
+            published_at = CURRENT_TIMESTAMP,
+            workflow_stage = 'published'
           WHERE id = $1
           RETURNING *
         `;
@@ -300,6 +318,138 @@ router.post(
   }
 );
 
+// Map workflow service errors to HTTP status codes
+function workflowErrorStatus(error?: string): number {
+  if (error?.includes('not found')) return 404;
+  if (error?.includes('permissions') || error?.includes('not a member')) return 403;
+  return 400;
+}
+
+// Submit a draft version for review
+// POST /api/versions/:versionId/submit
+router.post(
+  '/versions/:versionId/submit',
+  authenticateToken,
+  checkVersionAccess,
+  async (req: Request, res: Response) => {
+    try {
+      const result = await workflowService.submitForReview(
+        parseInt(req.params.versionId),
+        req.user!.userId,
+        typeof req.body?.note === 'string' ? req.body.note : undefined
+      );
+
+      if (!result.success) {
+        return res.status(workflowErrorStatus(result.error)).json({ success: false, error: result.error });
+      }
+
+      res.json({ success: true, data: result.data, message: 'Version submitted for review' });
+    } catch (error) {
+      console.error('Error submitting version for review:', error);
+      res.status(500).json({ error: 'Internal server error' });
+    }
+  }
+);
+
+// Approve a version under review
+// POST /api/versions/:versionId/approve
+router.post(
+  '/versions/:versionId/approve',
+  authenticateToken,
+  async (req: Request, res: Response) => {
+    try {
+      const result = await workflowService.approveVersion(
+        parseInt(req.params.versionId),
+        req.user!.userId,
+        typeof req.body?.comment === 'string' ? req.body.comment : undefined
+      );
+
+      if (!result.success) {
+        return res.status(workflowErrorStatus(result.error)).json({ success: false, error: result.error });
+      }
+
+      res.json({ success: true, data: result.data });
+    } catch (error) {
+      console.error('Error approving version:', error);
+      res.status(500).json({ error: 'Internal server error' });
+    }
+  }
+);
+
+// Reject a version under review, sending it back to draft
+// POST /api/versions/:versionId/reject
+router.post(
+  '/versions/:versionId/reject',
+  authenticateToken,
+  async (req: Request, res: Response) => {
+    try {
+      const reason = typeof req.body?.reason === 'string' ? req.body.reason : '';
+      if (!reason.trim()) {
+        return res.status(400).json({ success: false, error: 'A reason is required to reject a version' });
+      }
+
+      const result = await workflowService.rejectVersion(
+        parseInt(req.params.versionId),
+        req.user!.userId,
+        reason
+      );
+
+      if (!result.success) {
+        return res.status(workflowErrorStatus(result.error)).json({ success: false, error: result.error });
+      }
+
+      res.json({ success: true, data: result.data, message: 'Version sent back for changes' });
+    } catch (error) {
+      console.error('Error rejecting version:', error);
+      res.status(500).json({ error: 'Internal server error' });
+    }
+  }
+);
+
+// Get the review history of a version
+// GET /api/versions/:versionId/reviews
+router.get(
+  '/versions/:versionId/reviews',
+  authenticateToken,
+  checkVersionAccess,
+  async (req: Request, res: Response) => {
+    try {
+      const result = await workflowService.getReviewHistory(parseInt(req.params.versionId));
+
+      if (!result.success) {
+        return res.status(500).json({ success: false, error: result.error });
+      }
+
+      res.json({ success: true, data: result.data });
+    } catch (error) {
+      console.error('Error getting review history:', error);
+      res.status(500).json({ error: 'Internal server error' });
+    }
+  }
+);
+
+// List versions awaiting review or publication in the caller's organization
+// GET /api/reviews
+router.get(
+  '/reviews',
+  authenticateToken,
+  requireOrganization,
+  async (req: Request, res: Response) => {
+    try {
+      const result = await workflowService.getReviewQueue(req.organizationId!);
+
+      if (!result.success) {
+        return res.status(500).json({ success: false, error: result.error });
+      }
+
+      res.json({ success: true, data: result.data });
+    } catch (error) {
+      console.error('Error getting review queue:', error);
+      res.status(500).json({ error: 'Internal server error' });
+    }
+  }
+);
+
 // Delete a version (soft delete)
 // DELETE /api/versions/:versionId
 router.delete(
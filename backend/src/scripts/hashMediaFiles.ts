@@ -0,0 +1,39 @@
+/**
+ * Store the content and perceptual hashes of media files uploaded before
+ * they were computed on upload, so uploads of copies of them are caught and
+ * the near-duplicates report includes them.
+ *
+ *   npm run build
+ *   npm run media:hash
+ *
+ * Only files without a hash are read, so the command can be run again after
+ * an interruption.
+ */
+import * as dotenv from 'dotenv';
+
+dotenv.config();
+
+import { mediaDedupService } from '../services/MediaDedupService';
+
+async function main() {
+  console.log('Hashing media files');
+  let missing = 0;
+  const result = await mediaDedupService.hashUnhashedFiles((mediaId, hashed) => {
+    if (!hashed) {
+      missing++;
+    }
+    console.log(`${hashed ? 'hashed ' : 'missing'} ${mediaId}`);
+  });
+
+  if (!result.success) {
+    console.error(`✗ ${result.error}`);
+    process.exit(1);
+  }
+  console.log(`Hashed ${result.data}, missing from storage ${missing}`);
+  process.exit(0);
+}
+
+main().catch((error) => {
+  console.error('Media hashing failed:', error);
+  process.exit(1);
+});
@@ -0,0 +1,32 @@
+/**
+ * Record which media files every post, page and organization uses, e.g.
+ * after deploying media usage tracking on a database with existing content.
+ *
+ *   npm run build
+ *   npm run media:index-references
+ *
+ * References are rebuilt from the saved content, so the command can be run
+ * again at any time.
+ */
+import * as dotenv from 'dotenv';
+
+dotenv.config();
+
+import { mediaUsageService } from '../services/MediaUsageService';
+
+async function main() {
+  console.log('Indexing media references');
+  const result = await mediaUsageService.reindexAll((sourceType, sourceId) => console.log(`indexed ${sourceType} ${sourceId}`));
+
+  if (!result.success) {
+    console.error(`✗ ${result.error}`);
+    process.exit(1);
+  }
+  console.log(`Indexed ${result.data} posts, pages and organizations`);
+  process.exit(0);
+}
+
+main().catch((error) => {
+  console.error('Media reference indexing failed:', error);
+  process.exit(1);
+});
@@ -0,0 +1,55 @@
+/**
+ * Move uploaded files between media storage backends, e.g. from the local
+ * uploads directory to the S3 bucket before switching MEDIA_STORAGE_DRIVER.
+ *
+ *   npm run build
+ *   npm run media:migrate -- --from local --to s3 [--dry-run] [--delete-source]
+ *
+ * Both backends are configured from the environment. File URLs stay the
+ * same, so the database needs no changes. Files already copied are skipped,
+ * so the command can be run again after an interruption.
+ */
+import * as dotenv from 'dotenv';
+
+dotenv.config();
+
+import { createMediaStorage, migrateMediaStorage } from '../services/MediaStorage';
+
+function option(args: string[], name: string): string | undefined {
+  const index = args.indexOf(`--${name}`);
+  return index === -1 ? undefined : args[index + 1];
+}
+
+async function main() {
+  const args = process.argv.slice(2);
+  const from = option(args, 'from');
+  const to = option(args, 'to');
+  const dryRun = args.includes('--dry-run');
+  const deleteSource = args.includes('--delete-source');
+
+  if (!from || !to || from === to) {
+    console.error('Usage: migrateMediaStorage --from <local|s3> --to <local|s3> [--dry-run] [--delete-source]');
+    process.exit(1);
+  }
+
+  const source = createMediaStorage(from);
+  const target = createMediaStorage(to);
+
+  console.log(`${dryRun ? 'Checking' : 'Moving'} media files from ${from} to ${to}`);
+  const result = await migrateMediaStorage(source, target, {
+    dryRun,
+    deleteSource,
+    onProgress: (key, action) => console.log(`${action.padEnd(7)} ${key}`),
+  });
+
+  console.log(
+    `${dryRun ? 'Would copy' : 'Copied'} ${result.copied.length}, skipped ${result.skipped.length}, failed ${result.failed.length}`
+  );
+  result.failed.forEach(({ key, error }) => console.error(`✗ ${key}: ${error}`));
+  process.exit(result.failed.length > 0 ? 1 : 0);
+}
+
+main().catch((error) => {
+  console.error('Media migration failed:', error);
+  process.exit(1);
+});
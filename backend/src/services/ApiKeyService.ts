@@ -0,0 +1,251 @@
+import crypto from 'crypto';
+import { pool } from '../utils/database';
+import type { ServiceResponse } from '../types/versioning';
+import type { SecureApiKey } from '../types/versioning/security';
+
+/**
+ * Scopes an API key can be granted
+ * Format: <action>:<resource>
+ */
+export const API_KEY_SCOPES = [
+  'read:posts',
+  'write:posts',
+  'read:pages',
+  'write:pages',
+  'read:categories',
+  'write:categories',
+  'read:media',
+  'write:media',
+] as const;
+
+export type ApiKeyScopeName = typeof API_KEY_SCOPES[number];
+
+/**
+ * API key entity from database (never includes the hash)
+ */
+export interface ApiKey extends Pick<SecureApiKey, 'key_prefix' | 'name' | 'expires_at' | 'last_used_at'> {
+  id: number;
+  organization_id: number;
+  scopes: ApiKeyScopeName[];
+  created_by: number | null;
+  revoked_at?: Date;
+  created_at: Date;
+}
+
+/**
+ * Newly created API key, including the plain key (returned only once)
+ */
+export interface CreatedApiKey extends ApiKey {
+  key: string;
+}
+
+/**
+ * Input for creating an API key
+ */
+export interface CreateApiKeyInput {
+  organizationId: number;
+  name: string;
+  scopes: ApiKeyScopeName[];
+  expiresAt?: Date;
+  createdBy: number;
+}
+
+const KEY_PREFIX = 'cms_';
+const DISPLAY_PREFIX_LENGTH = 12; // "cms_" + 8 chars
+
+const PUBLIC_COLUMNS = `id, organization_id, name, key_prefix, scopes, created_by,
+  expires_at, last_used_at, revoked_at, created_at`;
+
+/**
+ * Hash a plain API key for storage and lookup
+ */
+export function hashApiKey(key: string): string {
+  return crypto.createHash('sha256').update(key).digest('hex');
+}
+
+/**
+ * Check whether a key looks like one of ours (cheap pre-check before hashing)
+ */
+export function isApiKeyFormat(value: string): boolean {
+  return value.startsWith(KEY_PREFIX) && value.length > DISPLAY_PREFIX_LENGTH;
+}
+
+/**
+ * ApiKeyService
+ *
+ * Manages organization-level API keys for headless access:
+ * - Creating keys (plain key returned once, SHA-256 hash stored)
+ * - Listing and revoking keys (owner/admin only)
+ * - Verifying keys presented by API clients
+ */
+export class ApiKeyService {
+  /**
+   * Verify the user is an owner or admin of the organization
+   */
+  private async requireManager(organizationId: number, userId: number): Promise<ServiceResponse<void>> {
+    const { rows } = await pool.query(
+      `SELECT role FROM organization_members
+       WHERE organization_id = $1 AND user_id = $2 AND deleted_at IS NULL`,
+      [organizationId, userId]
+    );
+
+    if (rows.length === 0) {
+      return { success: false, error: 'You are not a member of this organization' };
+    }
+
+    if (!['owner', 'admin'].includes(rows[0].role)) {
+      return { success: false, error: 'Only organization owners and admins can manage API keys' };
+    }
+
+    return { success: true };
+  }
+
+  /**
+   * Create an API key
+   *
+   * Business Rules:
+   * - Only owner/admin can create keys
+   * - At least one known scope is required
+   * - Expiry, if set, must be in the future
+   */
+  async createApiKey(input: CreateApiKeyInput): Promise<ServiceResponse<CreatedApiKey>> {
+    try {
+      const { organizationId, name, scopes, expiresAt, createdBy } = input;
+
+      if (!name || !name.trim()) {
+        return { success: false, error: 'Key name is required' };
+      }
+
+      const uniqueScopes = Array.from(new Set(scopes));
+      if (uniqueScopes.length === 0 || uniqueScopes.some((scope) => !API_KEY_SCOPES.includes(scope))) {
+        return { success: false, error: `Invalid scopes. Allowed: ${API_KEY_SCOPES.join(', ')}` };
+      }
+
+      if (expiresAt && expiresAt.getTime() <= Date.now()) {
+        return { success: false, error: 'Invalid expiry: must be in the future' };
+      }
+
+      const access = await this.requireManager(organizationId, createdBy);
+      if (!access.success) {
+        return { success: false, error: access.error };
+      }
+
+      const key = `${KEY_PREFIX}${crypto.randomBytes(24).toString('hex')}`;
+
+      const { rows } = await pool.query<ApiKey>(
+        `INSERT INTO api_keys (organization_id, name, key_prefix, key_hash, scopes, created_by, expires_at)
+         VALUES ($1, $2, $3, $4, $5, $6, $7)
+         RETURNING ${PUBLIC_COLUMNS}`,
+        [
+          organizationId,
+          name.trim(),
+          key.slice(0, DISPLAY_PREFIX_LENGTH),
+          hashApiKey(key),
+          uniqueScopes,
+          createdBy,
+          expiresAt || null,
+        ]
+      );
+
+      return { success: true, data: { ...rows[0], key } };
+    } catch (error: any) {
+      console.error('Error creating API key:', error);
+      return { success: false, error: 'Failed to create API key' };
+    }
+  }
+
+  /**
+   * List active (non-revoked) API keys for an organization
+   *
+   * Access Control: owner/admin only
+   */
+  async listApiKeys(organizationId: number, userId: number): Promise<ServiceResponse<ApiKey[]>> {
+    try {
+      const access = await this.requireManager(organizationId, userId);
+      if (!access.success) {
+        return { success: false, error: access.error };
+      }
+
+      const { rows } = await pool.query<ApiKey>(
+        `SELECT ${PUBLIC_COLUMNS}
+         FROM api_keys
+         WHERE organization_id = $1 AND revoked_at IS NULL
+         ORDER BY created_at DESC`,
+        [organizationId]
+      );
+
+      return { success: true, data: rows };
+    } catch (error: any) {
+      console.error('Error listing API keys:', error);
+      return { success: false, error: 'Failed to retrieve API keys' };
+    }
+  }
+
+  /**
+   * Revoke an API key
+   *
+   * Business Rules:
+   * - Only owner/admin can revoke keys
+   * - Key must belong to the specified organization
+   */
+  async revokeApiKey(organizationId: number, keyId: number, userId: number): Promise<ServiceResponse<void>> {
+    try {
+      const access = await this.requireManager(organizationId, userId);
+      if (!access.success) {
+        return { success: false, error: access.error };
+      }
+
+      const { rowCount } = await pool.query(
+        `UPDATE api_keys SET revoked_at = NOW()
+         WHERE id = $1 AND organization_id = $2 AND revoked_at IS NULL`,
+        [keyId, organizationId]
+      );
+
+      if (!rowCount) {
+        return { success: false, error: 'API key not found' };
+      }
+
+      return { success: true };
+    } catch (error: any) {
+      console.error('Error revoking API key:', error);
+      return { success: false, error: 'Failed to revoke API key' };
+    }
+  }
+
+  /**
+   * Resolve a plain API key to its record
+   * Returns null data for unknown, revoked or expired keys
+   */
+  async verifyApiKey(key: string): Promise<ServiceResponse<ApiKey | null>> {
+    try {
+      if (!isApiKeyFormat(key)) {
+        return { success: true, data: null };
+      }
+
+      const { rows } = await pool.query<ApiKey>(
+        `SELECT ${PUBLIC_COLUMNS}
+         FROM api_keys
+         WHERE key_hash = $1
+           AND revoked_at IS NULL
+           AND (expires_at IS NULL OR expires_at > NOW())`,
+        [hashApiKey(key)]
+      );
+
+      if (rows.length === 0) {
+        return { success: true, data: null };
+      }
+
+      // Usage timestamp is informational - don't hold up the request for it
+      pool.query('UPDATE api_keys SET last_used_at = NOW() WHERE id = $1', [rows[0].id])
+        .catch((error) => console.error('Error updating API key last_used_at:', error));
+
+      return { success: true, data: rows[0] };
+    } catch (error: any) {
+      console.error('Error verifying API key:', error);
+      return { success: false, error: 'Failed to verify API key' };
+    }
+  }
+}
+
+// Export singleton instance
+export const apiKeyService = new ApiKeyService();
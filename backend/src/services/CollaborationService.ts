@@ -0,0 +1,527 @@
+/**
+ * CollaborationService
+ *
+ * Real-time collaboration server implementing the WebSocket event contract in
+ * types/versioning/websocket.ts. Editors connect to /api/ws with their JWT,
+ * join one room per piece of content (e.g. "post:12"), see who else is editing
+ * it, and receive version and preview events as they happen so two people on
+ * the same content notice each other's saves.
+ *
+ * Client -> server messages (JSON):
+ * - { action: 'join' | 'leave', content_type, content_id }
+ * - { action: 'typing', content_type, content_id, version_id?, field?, is_typing }
+ * - { action: 'cursor', content_type, content_id, version_id?, cursor_position }
+ *
+ * Server -> client messages are WebSocketMessage envelopes. A client that joins
+ * a room receives a user:joined event for every editor already in it.
+ *
+ * @example
+ * ```typescript
+ * import { collaborationService } from './services/CollaborationService';
+ *
+ * collaborationService.attach(server);
+ * collaborationService.subscribeToVersionEvents(versionEvents);
+ * collaborationService.subscribeToPreviewEvents(previewEvents);
+ * ```
+ */
+
+import type { EventEmitter } from 'events';
+import { randomUUID } from 'crypto';
+import type { IncomingMessage, Server } from 'http';
+import type { Duplex } from 'stream';
+import { WebSocketServer, WebSocket, RawData } from 'ws';
+import { pool } from '../utils/database';
+import { verifyToken } from '../utils/jwt';
+import type { UserReference } from '../types/versioning/core';
+import type {
+  WebSocketEvents,
+  WebSocketMessage,
+  CursorPosition
+} from '../types/versioning/websocket';
+
+export const COLLABORATION_PATH = '/api/ws';
+
+// Heartbeat interval for dropping dead connections
+const HEARTBEAT_INTERVAL_MS = 30 * 1000;
+const MAX_MESSAGE_BYTES = 16 * 1024;
+
+type RoomContentType = 'post' | 'page';
+
+/**
+ * An authenticated WebSocket connection
+ */
+export interface CollaborationClient {
+  socket: WebSocket;
+  user: UserReference;
+  organizationId: number;
+  rooms: Map<string, number>; // room id -> site id
+  isAlive: boolean;
+}
+
+interface ClientMessage {
+  action?: string;
+  content_type?: string;
+  content_id?: number;
+  version_id?: number;
+  field?: string;
+  is_typing?: boolean;
+  cursor_position?: CursorPosition;
+}
+
+/**
+ * Payload emitted by VersionService.emitVersionEvent
+ */
+interface VersionEventPayload {
+  action: string;
+  version: {
+    id: number;
+    site_id: number;
+    content_type: string;
+    content_id: number;
+    version_type: string;
+    [key: string]: any;
+  };
+  userId: number;
+  siteId: number;
+}
+
+interface TokenGeneratedPayload {
+  tokenId: number;
+  siteId: number;
+  versionId: number;
+  userId: number;
+}
+
+export class CollaborationService {
+  private wss: WebSocketServer | null = null;
+  private clients: Map<WebSocket, CollaborationClient> = new Map();
+  private rooms: Map<string, Set<CollaborationClient>> = new Map();
+  private heartbeat: NodeJS.Timeout | null = null;
+
+  /**
+   * Room id for a piece of content
+   */
+  static roomId(contentType: string, contentId: number): string {
+    return `${contentType}:${contentId}`;
+  }
+
+  /**
+   * Attach the WebSocket endpoint to an HTTP server
+   */
+  attach(server: Server): void {
+    if (this.wss) {
+      return;
+    }
+
+    this.wss = new WebSocketServer({ noServer: true, maxPayload: MAX_MESSAGE_BYTES });
+
+    server.on('upgrade', (req: IncomingMessage, socket: Duplex, head: Buffer) => {
+      const url = new URL(req.url || '/', 'http://localhost');
+      if (url.pathname !== COLLABORATION_PATH) {
+        return;
+      }
+
+      this.authenticate(url.searchParams.get('token'))
+        .then((identity) => {
+          if (!identity) {
+            socket.write('HTTP/1.1 401 Unauthorized\r\n\r\n');
+            socket.destroy();
+            return;
+          }
+
+          this.wss!.handleUpgrade(req, socket, head, (ws) => {
+            this.handleConnection(ws, identity.user, identity.organizationId);
+          });
+        })
+        .catch((error) => {
+          console.error('[Collaboration] Upgrade failed:', error);
+          socket.write('HTTP/1.1 500 Internal Server Error\r\n\r\n');
+          socket.destroy();
+        });
+    });
+
+    this.heartbeat = setInterval(() => this.checkHeartbeats(), HEARTBEAT_INTERVAL_MS);
+    console.log(`[Collaboration] WebSocket endpoint listening on ${COLLABORATION_PATH}`);
+  }
+
+  /**
+   * Close all connections and stop the heartbeat
+   */
+  close(): void {
+    if (this.heartbeat) {
+      clearInterval(this.heartbeat);
+      this.heartbeat = null;
+    }
+
+    for (const client of this.clients.values()) {
+      client.socket.close(1001, 'Server shutting down');
+    }
+    this.clients.clear();
+    this.rooms.clear();
+
+    this.wss?.close();
+    this.wss = null;
+  }
+
+  /**
+   * Broadcast version lifecycle events (see versionEvents in VersionService)
+   */
+  subscribeToVersionEvents(emitter: EventEmitter): void {
+    emitter.on('version:any', (payload: VersionEventPayload) => {
+      this.handleVersionEvent(payload).catch((error) => {
+        console.error('[Collaboration] Failed to broadcast version event:', error);
+      });
+    });
+  }
+
+  /**
+   * Broadcast preview token events (see previewEvents in PreviewService)
+   */
+  subscribeToPreviewEvents(emitter: EventEmitter): void {
+    emitter.on('token:generated', (payload: TokenGeneratedPayload) => {
+      this.handleTokenGenerated(payload).catch((error) => {
+        console.error('[Collaboration] Failed to broadcast preview event:', error);
+      });
+    });
+  }
+
+  /**
+   * Users currently in a room
+   */
+  getParticipants(roomId: string): UserReference[] {
+    const seen = new Map<number, UserReference>();
+    for (const client of this.rooms.get(roomId) ?? []) {
+      seen.set(client.user.id, client.user);
+    }
+    return Array.from(seen.values());
+  }
+
+  /**
+   * Register an authenticated socket
+   */
+  handleConnection(socket: WebSocket, user: UserReference, organizationId: number): CollaborationClient {
+    const client: CollaborationClient = { socket, user, organizationId, rooms: new Map(), isAlive: true };
+    this.clients.set(socket, client);
+
+    socket.on('pong', () => {
+      client.isAlive = true;
+    });
+
+    socket.on('message', (raw: RawData) => {
+      this.handleMessage(client, raw.toString()).catch((error) => {
+        console.error('[Collaboration] Failed to handle message:', error);
+      });
+    });
+
+    socket.on('close', () => {
+      this.clients.delete(socket);
+      for (const roomId of Array.from(client.rooms.keys())) {
+        this.leaveRoom(client, roomId);
+      }
+    });
+
+    socket.on('error', (error) => {
+      console.error('[Collaboration] Socket error:', error);
+    });
+
+    return client;
+  }
+
+  /**
+   * Handle a message from a client
+   */
+  async handleMessage(client: CollaborationClient, raw: string): Promise<void> {
+    let message: ClientMessage;
+    try {
+      message = JSON.parse(raw);
+    } catch {
+      return;
+    }
+
+    const contentType = message.content_type;
+    const contentId = Number(message.content_id);
+    if ((contentType !== 'post' && contentType !== 'page') || !Number.isInteger(contentId)) {
+      return;
+    }
+
+    const roomId = CollaborationService.roomId(contentType, contentId);
+
+    switch (message.action) {
+      case 'join':
+        await this.joinRoom(client, contentType, contentId);
+        break;
+      case 'leave':
+        this.leaveRoom(client, roomId);
+        break;
+      case 'typing':
+        if (client.rooms.has(roomId)) {
+          this.broadcast(roomId, 'user:typing', {
+            user: client.user,
+            version_id: Number(message.version_id) || 0,
+            field: message.field,
+            is_typing: !!message.is_typing,
+            site_id: client.rooms.get(roomId)!,
+            timestamp: new Date()
+          }, client.user.id);
+        }
+        break;
+      case 'cursor':
+        if (client.rooms.has(roomId) && message.cursor_position) {
+          this.broadcast(roomId, 'user:cursor', {
+            user: client.user,
+            version_id: Number(message.version_id) || 0,
+            cursor_position: message.cursor_position,
+            site_id: client.rooms.get(roomId)!,
+            timestamp: new Date()
+          }, client.user.id);
+        }
+        break;
+    }
+  }
+
+  private async joinRoom(client: CollaborationClient, contentType: RoomContentType, contentId: number): Promise<void> {
+    const roomId = CollaborationService.roomId(contentType, contentId);
+    if (client.rooms.has(roomId)) {
+      return;
+    }
+
+    // Only content in the caller's organization can be joined
+    const table = contentType === 'post' ? 'posts' : 'pages';
+    const { rows } = await pool.query(
+      `SELECT site_id FROM ${table} WHERE id = $1 AND organization_id = $2`,
+      [contentId, client.organizationId]
+    );
+
+    if (rows.length === 0) {
+      this.send(client.socket, roomId, 'system:notification', {
+        type: 'error',
+        message: 'Content not found',
+        timestamp: new Date()
+      });
+      return;
+    }
+
+    const siteId: number = rows[0].site_id || 1;
+
+    // Introduce the people already here before announcing the newcomer
+    for (const participant of this.getParticipants(roomId)) {
+      if (participant.id !== client.user.id) {
+        this.send(client.socket, roomId, 'user:joined', {
+          user: participant,
+          room_id: roomId,
+          site_id: siteId,
+          timestamp: new Date()
+        });
+      }
+    }
+
+    const alreadyPresent = this.getParticipants(roomId).some((user) => user.id === client.user.id);
+
+    if (!this.rooms.has(roomId)) {
+      this.rooms.set(roomId, new Set());
+    }
+    this.rooms.get(roomId)!.add(client);
+    client.rooms.set(roomId, siteId);
+
+    // A second tab from the same user is not a new participant
+    if (!alreadyPresent) {
+      this.broadcast(roomId, 'user:joined', {
+        user: client.user,
+        room_id: roomId,
+        site_id: siteId,
+        timestamp: new Date()
+      }, client.user.id);
+    }
+  }
+
+  private leaveRoom(client: CollaborationClient, roomId: string): void {
+    const siteId = client.rooms.get(roomId);
+    const clients = this.rooms.get(roomId);
+    if (siteId === undefined || !clients) {
+      return;
+    }
+
+    clients.delete(client);
+    client.rooms.delete(roomId);
+    if (clients.size === 0) {
+      this.rooms.delete(roomId);
+    }
+
+    const stillPresent = this.getParticipants(roomId).some((user) => user.id === client.user.id);
+    if (!stillPresent) {
+      this.broadcast(roomId, 'user:left', {
+        user: client.user,
+        room_id: roomId,
+        site_id: siteId,
+        timestamp: new Date()
+      });
+    }
+  }
+
+  private async handleVersionEvent(payload: VersionEventPayload): Promise<void> {
+    const { version } = payload;
+    const roomId = CollaborationService.roomId(version.content_type, version.content_id);
+    if (!this.rooms.has(roomId)) {
+      return;
+    }
+
+    const user = await this.getUserReference(payload.userId);
+    const timestamp = new Date();
+
+    if (payload.action === 'created' && version.version_type === 'auto_save') {
+      this.broadcast(roomId, 'version:auto_saved', {
+        version_id: version.id,
+        auto_save_id: version.id,
+        saved_by: user ?? undefined,
+        site_id: payload.siteId,
+        timestamp
+      }, payload.userId);
+    } else if (payload.action === 'created' && user) {
+      this.broadcast(roomId, 'version:created', {
+        version: version as any,
+        creator: user,
+        site_id: payload.siteId,
+        timestamp
+      }, payload.userId);
+    } else if (payload.action === 'published' && user) {
+      this.broadcast(roomId, 'version:published', {
+        version: version as any,
+        published_by: user,
+        affected_urls: [],
+        site_id: payload.siteId,
+        timestamp
+      });
+    }
+  }
+
+  private async handleTokenGenerated(payload: TokenGeneratedPayload): Promise<void> {
+    const { rows } = await pool.query(
+      `SELECT pt.*, cv.content_type, cv.content_id
+       FROM preview_tokens pt
+       JOIN content_versions cv ON cv.id = pt.version_id
+       WHERE pt.id = $1`,
+      [payload.tokenId]
+    );
+
+    const row = rows[0];
+    if (!row) {
+      return;
+    }
+
+    const roomId = CollaborationService.roomId(row.content_type, row.content_id);
+    const user = await this.getUserReference(payload.userId);
+    if (!this.rooms.has(roomId) || !user) {
+      return;
+    }
+
+    // Never send token secrets over the socket
+    const { token_hash: _hash, password_hash: _password, content_type: _type, content_id: _id, ...token } = row;
+
+    this.broadcast(roomId, 'preview:created', {
+      preview_token: token,
+      version_id: payload.versionId,
+      created_by: user,
+      site_id: payload.siteId,
+      timestamp: new Date()
+    });
+  }
+
+  private async authenticate(
+    token: string | null
+  ): Promise<{ user: UserReference; organizationId: number } | null> {
+    if (!token) {
+      return null;
+    }
+
+    let payload;
+    try {
+      payload = verifyToken(token);
+    } catch {
+      return null;
+    }
+
+    const { rows } = await pool.query(
+      `SELECT id, email, first_name, last_name, current_organization_id
+       FROM users WHERE id = $1`,
+      [payload.userId]
+    );
+
+    const row = rows[0];
+    const organizationId = payload.organizationId || row?.current_organization_id;
+    if (!row || !organizationId) {
+      return null;
+    }
+
+    return {
+      user: this.toUserReference(row),
+      organizationId
+    };
+  }
+
+  private async getUserReference(userId: number): Promise<UserReference | null> {
+    const { rows } = await pool.query(
+      'SELECT id, email, first_name, last_name FROM users WHERE id = $1',
+      [userId]
+    );
+
+    return rows[0] ? this.toUserReference(rows[0]) : null;
+  }
+
+  private toUserReference(row: any): UserReference {
+    return {
+      id: row.id,
+      email: row.email,
+      first_name: row.first_name ?? undefined,
+      last_name: row.last_name ?? undefined
+    };
+  }
+
+  /**
+   * Send an event to everyone in a room, optionally skipping one user's sockets
+   */
+  private broadcast<T extends keyof WebSocketEvents>(
+    roomId: string,
+    event: T,
+    data: WebSocketEvents[T],
+    excludeUserId?: number
+  ): void {
+    for (const client of this.rooms.get(roomId) ?? []) {
+      if (client.user.id !== excludeUserId) {
+        this.send(client.socket, roomId, event, data);
+      }
+    }
+  }
+
+  private send<T extends keyof WebSocketEvents>(
+    socket: WebSocket,
+    roomId: string,
+    event: T,
+    data: WebSocketEvents[T]
+  ): void {
+    if (socket.readyState !== WebSocket.OPEN) {
+      return;
+    }
+
+    const message: WebSocketMessage<T> = {
+      event,
+      data,
+      timestamp: new Date(),
+      room: roomId,
+      message_id: randomUUID()
+    };
+    socket.send(JSON.stringify(message));
+  }
+
+  private checkHeartbeats(): void {
+    for (const client of this.clients.values()) {
+      if (!client.isAlive) {
+        client.socket.terminate();
+        continue;
+      }
+      client.isAlive = false;
+      client.socket.ping();
+    }
+  }
+}
+
+export const collaborationService = new CollaborationService();
@@ -71,7 +71,16 @@ export interface StructuralDiff {
 }
 
 export interface StructuralChange {
-  type: 'element_added' | 'element_removed' | 'element_modified' | 'attribute_changed' | 'text_changed';
+  type:
+    | 'element_added'
+    | 'element_removed'
+    | 'element_modified'
+    | 'attribute_changed'
+    | 'text_changed'
+    | 'block_added'
+    | 'block_removed'
+    | 'block_moved'
+    | 'block_modified';
   element?: string;
   attribute?: string;
   oldContent?: string;
@@ -79,6 +88,11 @@ export interface StructuralChange {
   oldValue?: string;
   newValue?: string;
   position?: { line: number; column: number };
+  // Page builder blocks: the block's id and its path in the data, e.g. data.blocks.2
+  blockId?: string;
+  path?: string;
+  fromIndex?: number;
+  toIndex?: number;
 }
 
 export interface DomOperation {
@@ -157,6 +171,49 @@ export class DiffService {
     this.diffEngine.Diff_EditCost = 4;
   }
 
+  /**
+   * Diff two versions already in memory, without access checks or caching.
+   * Used where the caller has loaded and authorized both sides itself.
+   */
+  diffVersions(
+    version1: ContentVersion,
+    version2: ContentVersion,
+    options: DiffOptions = {}
+  ): DiffResult {
+    const textDiff = this.generateTextDiff(
+      version1.content || '',
+      version2.content || '',
+      options.granularity || 'line'
+    );
+
+    const structuralDiff = this.generateStructuralDiff(
+      version1.content || '',
+      version2.content || ''
+    );
+    structuralDiff.changes.push(...this.generateBlockDiff(version1.data, version2.data));
+
+    const metadataDiff = this.generateMetadataDiff(version1, version2);
+
+    const statistics = this.calculateChangeStats(
+      textDiff,
+      structuralDiff,
+      metadataDiff,
+      version1.content || '',
+      version2.content || ''
+    );
+
+    return {
+      leftVersion: version1,
+      rightVersion: version2,
+      textDiff,
+      structuralDiff,
+      metadataDiff,
+      statistics,
+      computedAt: new Date(),
+      algorithmUsed: options.algorithm || 'myers'
+    };
+  }
+
   /**
    * Compare two content versions and return comprehensive diff
    */
@@ -207,38 +264,8 @@ export class DiffService {
         };
       }
 
-      // Generate diffs
-      const textDiff = this.generateTextDiff(
-        version1.content || '',
-        version2.content || '',
-        options.granularity || 'line'
-      );
-
-      const structuralDiff = this.generateStructuralDiff(
-        version1.content || '',
-        version2.content || ''
-      );
-
-      const metadataDiff = this.generateMetadataDiff(version1, version2);
-
-      // Calculate statistics
-      const statistics = this.calculateChangeStats(
-        textDiff,
-        structuralDiff,
-        metadataDiff,
-        version1.content || '',
-        version2.content || ''
-      );
-
       const diffResult: DiffResult = {
-        leftVersion: version1,
-        rightVersion: version2,
-        textDiff,
-        structuralDiff,
-        metadataDiff,
-        statistics,
-        computedAt: new Date(),
-        algorithmUsed: options.algorithm || 'myers',
+        ...this.diffVersions(version1, version2, options),
         cacheKey
       };
 
@@ -484,6 +511,159 @@ export class DiffService {
     }
   }
 
+  /**
+   * Generate structural diff for page builder blocks in version data. Lists
+   * of { id, type, props } are matched by block id, so a moved block is
+   * reported as moved rather than as changes to every block in between.
+   */
+  generateBlockDiff(data1: Record<string, any> | null, data2: Record<string, any> | null): StructuralChange[] {
+    const changes: StructuralChange[] = [];
+    const left = data1 || {};
+    const right = data2 || {};
+
+    const fields = new Set([...Object.keys(left), ...Object.keys(right)]);
+    fields.forEach(field => {
+      const blocks1 = left[field] ?? [];
+      const blocks2 = right[field] ?? [];
+      if (!this.isBlockList(blocks1) || !this.isBlockList(blocks2) || blocks1.length + blocks2.length === 0) {
+        return;
+      }
+
+      const ids1 = blocks1.map(block => block.id);
+      const ids2 = blocks2.map(block => block.id);
+
+      blocks1.forEach((block, index) => {
+        if (!ids2.includes(block.id)) {
+          changes.push({
+            type: 'block_removed',
+            element: block.type,
+            blockId: block.id,
+            path: `data.${field}.${index}`,
+            fromIndex: index,
+            oldContent: this.blockText(block.props)
+          });
+        }
+      });
+
+      // Kept blocks outside the longest run still in the same order were moved
+      const kept1 = ids1.filter(id => ids2.includes(id));
+      const kept2 = ids2.filter(id => ids1.includes(id));
+      const inOrder = this.longestCommonSubsequence(kept1, kept2);
+
+      blocks2.forEach((block, index) => {
+        const path = `data.${field}.${index}`;
+        const oldIndex = ids1.indexOf(block.id);
+        if (oldIndex === -1) {
+          changes.push({
+            type: 'block_added',
+            element: block.type,
+            blockId: block.id,
+            path,
+            toIndex: index,
+            newContent: this.blockText(block.props)
+          });
+          return;
+        }
+
+        if (!inOrder.has(block.id)) {
+          changes.push({
+            type: 'block_moved',
+            element: block.type,
+            blockId: block.id,
+            path,
+            fromIndex: oldIndex,
+            toIndex: index
+          });
+        }
+
+        const before = blocks1[oldIndex];
+        if (before.type !== block.type) {
+          changes.push({
+            type: 'block_modified',
+            element: block.type,
+            blockId: block.id,
+            path: `${path}.type`,
+            attribute: 'type',
+            oldValue: before.type,
+            newValue: block.type
+          });
+        }
+
+        const props1 = this.flattenValue(before.props);
+        const props2 = this.flattenValue(block.props);
+        new Set([...props1.keys(), ...props2.keys()]).forEach(prop => {
+          if (props1.get(prop) !== props2.get(prop)) {
+            changes.push({
+              type: 'block_modified',
+              element: block.type,
+              blockId: block.id,
+              path: `${path}.props.${prop}`,
+              attribute: prop,
+              oldValue: props1.get(prop),
+              newValue: props2.get(prop)
+            });
+          }
+        });
+      });
+    });
+
+    return changes;
+  }
+
+  private isBlockList(value: unknown): value is Array<Record<string, any>> {
+    return Array.isArray(value) && value.every(
+      item => item && typeof item === 'object' && typeof item.id === 'string' && typeof item.type === 'string'
+    );
+  }
+
+  /**
+   * Leaf values of block props by dotted path (e.g. images.0.caption)
+   */
+  private flattenValue(value: unknown, prefix = '', leaves = new Map<string, string>()): Map<string, string> {
+    if (value && typeof value === 'object') {
+      Object.entries(value).forEach(([key, item]) => {
+        this.flattenValue(item, prefix ? `${prefix}.${key}` : key, leaves);
+      });
+    } else if (value !== undefined && value !== null && value !== '' && prefix) {
+      leaves.set(prefix, String(value));
+    }
+    return leaves;
+  }
+
+  private blockText(props: unknown): string {
+    return Array.from(this.flattenValue(props).values())
+      .map(text => text.replace(/<[^>]*>/g, ' ').replace(/\s+/g, ' ').trim())
+      .filter(Boolean)
+      .join(' ');
+  }
+
+  private longestCommonSubsequence(a: string[], b: string[]): Set<string> {
+    const lengths = Array.from({ length: a.length + 1 }, () => new Array<number>(b.length + 1).fill(0));
+    for (let i = a.length - 1; i >= 0; i--) {
+      for (let j = b.length - 1; j >= 0; j--) {
+        lengths[i][j] = a[i] === b[j]
+          ? lengths[i + 1][j + 1] + 1
+          : Math.max(lengths[i + 1][j], lengths[i][j + 1]);
+      }
+    }
+
+    const common = new Set<string>();
+    let i = 0;
+    let j = 0;
+    while (i < a.length && j < b.length) {
+      if (a[i] === b[j]) {
+        common.add(a[i]);
+        i++;
+        j++;
+      } else if (lengths[i + 1][j] >= lengths[i][j + 1]) {
+        i++;
+      } else {
+        j++;
+      }
+    }
+    return common;
+  }
+
   /**
    * Generate metadata diff
    */
@@ -0,0 +1,171 @@
+import { pool } from '../utils/database';
+import type { ServiceResponse } from '../types/versioning';
+import { ContentType, ServiceErrorCode } from '../types/versioning';
+import type { UserReference } from '../types/versioning/core';
+
+/**
+ * Seconds a lock stays held without a heartbeat
+ */
+export const EDIT_LOCK_TTL_SECONDS = 90;
+
+/**
+ * Advisory lock showing who is editing a post or page
+ */
+export interface EditLock {
+  content_type: ContentType;
+  content_id: number;
+  user: UserReference;
+  acquired_at: Date;
+  heartbeat_at: Date;
+  expires_at: Date;
+}
+
+/**
+ * Outcome of trying to take a lock. When someone else holds it, `lock`
+ * describes their lock and `acquired` is false.
+ */
+export interface EditLockResult {
+  acquired: boolean;
+  lock: EditLock;
+}
+
+const CONTENT_TABLES: Record<string, string> = {
+  [ContentType.POST]: 'posts',
+  [ContentType.PAGE]: 'pages',
+};
+
+/**
+ * Soft edit locks for posts and pages
+ *
+ * Locks are advisory: they tell other editors someone is working on the
+ * content but never block a save. Stale overwrites are caught separately by
+ * the base version check on update.
+ */
+export class EditLockService {
+  /**
+   * Get the active lock on content, if any
+   */
+  async getLock(
+    organizationId: number,
+    contentType: ContentType,
+    contentId: number
+  ): Promise<ServiceResponse<EditLock | null>> {
+    try {
+      const { rows } = await pool.query(
+        `SELECT l.content_type, l.content_id, l.acquired_at, l.heartbeat_at, l.expires_at,
+                u.id as user_id, u.email, u.first_name, u.last_name
+         FROM content_edit_locks l
+         JOIN users u ON u.id = l.user_id
+         WHERE l.organization_id = $1 AND l.content_type = $2 AND l.content_id = $3
+           AND l.expires_at > NOW()`,
+        [organizationId, contentType, contentId]
+      );
+
+      return { success: true, data: rows[0] ? this.toLock(rows[0]) : null };
+    } catch (error) {
+      console.error('Error getting edit lock:', error);
+      return { success: false, error: 'Failed to get edit lock', errorCode: ServiceErrorCode.DATABASE_ERROR };
+    }
+  }
+
+  /**
+   * Take or refresh the lock. Calling this again while holding the lock is the
+   * heartbeat. An expired lock is free to take; a live one held by someone
+   * else is only replaced when `takeover` is set.
+   */
+  async acquireLock(
+    organizationId: number,
+    contentType: ContentType,
+    contentId: number,
+    userId: number,
+    options: { takeover?: boolean } = {}
+  ): Promise<ServiceResponse<EditLockResult>> {
+    try {
+      const table = CONTENT_TABLES[contentType];
+      if (!table) {
+        return { success: false, error: 'Invalid content type', errorCode: ServiceErrorCode.VALIDATION_ERROR };
+      }
+
+      const content = await pool.query(
+        `SELECT id FROM ${table} WHERE id = $1 AND organization_id = $2`,
+        [contentId, organizationId]
+      );
+      if (content.rows.length === 0) {
+        return { success: false, error: `${contentType} not found`, errorCode: ServiceErrorCode.NOT_FOUND };
+      }
+
+      // acquired_at survives heartbeats so "editing since" stays accurate
+      const { rows } = await pool.query(
+        `INSERT INTO content_edit_locks (organization_id, content_type, content_id, user_id, expires_at)
+         VALUES ($1, $2, $3, $4, NOW() + $5 * INTERVAL '1 second')
+         ON CONFLICT (content_type, content_id) DO UPDATE SET
+           organization_id = EXCLUDED.organization_id,
+           user_id = EXCLUDED.user_id,
+           acquired_at = CASE
+             WHEN content_edit_locks.user_id = EXCLUDED.user_id AND content_edit_locks.expires_at > NOW()
+               THEN content_edit_locks.acquired_at
+             ELSE NOW()
+           END,
+           heartbeat_at = NOW(),
+           expires_at = EXCLUDED.expires_at
+         WHERE content_edit_locks.user_id = EXCLUDED.user_id
+            OR content_edit_locks.expires_at <= NOW()
+            OR $6
+         RETURNING id`,
+        [organizationId, contentType, contentId, userId, EDIT_LOCK_TTL_SECONDS, options.takeover === true]
+      );
+
+      const current = await this.getLock(organizationId, contentType, contentId);
+      if (!current.success || !current.data) {
+        return { success: false, error: 'Failed to acquire edit lock', errorCode: ServiceErrorCode.DATABASE_ERROR };
+      }
+
+      return { success: true, data: { acquired: rows.length > 0, lock: current.data } };
+    } catch (error) {
+      console.error('Error acquiring edit lock:', error);
+      return { success: false, error: 'Failed to acquire edit lock', errorCode: ServiceErrorCode.DATABASE_ERROR };
+    }
+  }
+
+  /**
+   * Release the caller's lock. Releasing a lock held by someone else is a no-op.
+   */
+  async releaseLock(
+    organizationId: number,
+    contentType: ContentType,
+    contentId: number,
+    userId: number
+  ): Promise<ServiceResponse<boolean>> {
+    try {
+      const { rowCount } = await pool.query(
+        `DELETE FROM content_edit_locks
+         WHERE organization_id = $1 AND content_type = $2 AND content_id = $3 AND user_id = $4`,
+        [organizationId, contentType, contentId, userId]
+      );
+
+      return { success: true, data: (rowCount ?? 0) > 0 };
+    } catch (error) {
+      console.error('Error releasing edit lock:', error);
+      return { success: false, error: 'Failed to release edit lock', errorCode: ServiceErrorCode.DATABASE_ERROR };
+    }
+  }
+
+  private toLock(row: any): EditLock {
+    return {
+      content_type: row.content_type,
+      content_id: row.content_id,
+      user: {
+        id: row.user_id,
+        email: row.email,
+        first_name: row.first_name ?? undefined,
+        last_name: row.last_name ?? undefined,
+      },
+      acquired_at: row.acquired_at,
+      heartbeat_at: row.heartbeat_at,
+      expires_at: row.expires_at,
+    };
+  }
+}
+
+// Export singleton instance
+export const editLockService = new EditLockService();
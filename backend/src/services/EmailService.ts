@@ -16,6 +16,8 @@ import {
   SubscriptionCanceledVariables,
   TrialEndingVariables,
   InvoiceUpcomingVariables,
+  ReviewRequestedVariables,
+  ReviewDecisionVariables,
 } from './EmailTemplateService';
 
 /**
@@ -878,6 +880,26 @@ This is an automated notification from DProgres CMS.
   ): Promise<EmailSendResult> {
     return this.sendTemplatedEmail('invoice_upcoming', to, variables);
   }
+
+  /**
+   * Send review request to reviewers (editorial workflow)
+   */
+  async sendReviewRequested(
+    to: EmailRecipient[],
+    variables: ReviewRequestedVariables
+  ): Promise<EmailSendResult> {
+    return this.sendTemplatedEmail('review_requested', to, variables);
+  }
+
+  /**
+   * Send approve/reject decision to the submitter (editorial workflow)
+   */
+  async sendReviewDecision(
+    to: EmailRecipient[],
+    variables: ReviewDecisionVariables
+  ): Promise<EmailSendResult> {
+    return this.sendTemplatedEmail('review_decision', to, variables);
+  }
 }
 
 // Export singleton instance
@@ -898,4 +920,6 @@ export {
   SubscriptionCanceledVariables,
   TrialEndingVariables,
   InvoiceUpcomingVariables,
+  ReviewRequestedVariables,
+  ReviewDecisionVariables,
 } from './EmailTemplateService';
@@ -1,7 +1,7 @@
 /**
  * EmailTemplateService - Email template management for SaaS lifecycle events (SF-014, SF-015)
  *
- * This service provides 10 email templates for key SaaS events:
+ * This service provides 12 email templates for key SaaS events:
  * 1. welcome_email - User signup welcome
  * 2. subscription_confirmation - First payment confirmation
  * 3. payment_receipt - Recurring payment receipts
@@ -12,6 +12,8 @@
  * 8. subscription_canceled - Cancellation confirmation
  * 9. trial_ending - Trial ending warning (3-day notice)
  * 10. invoice_upcoming - Invoice upcoming notification (7-day notice)
+ * 11. review_requested - Content submitted for editorial review
+ * 12. review_decision - Content approved or sent back by a reviewer
  *
  * Features:
  * - Consistent branding across all templates
@@ -45,7 +47,9 @@ export type SaaSEmailTemplate =
   | 'member_invite'
   | 'subscription_canceled'
   | 'trial_ending'
-  | 'invoice_upcoming';
+  | 'invoice_upcoming'
+  | 'review_requested'
+  | 'review_decision';
 
 /**
  * Common template variables available across all templates
@@ -173,6 +177,29 @@ export interface InvoiceUpcomingVariables extends BaseTemplateVariables {
   collection_method?: 'charge_automatically' | 'send_invoice';
 }
 
+/**
+ * Variables specific to review requested template
+ */
+export interface ReviewRequestedVariables extends BaseTemplateVariables {
+  content_title: string;
+  content_type?: string;
+  requester_name: string;
+  review_url: string;
+  note?: string;
+}
+
+/**
+ * Variables specific to review decision template
+ */
+export interface ReviewDecisionVariables extends BaseTemplateVariables {
+  content_title: string;
+  content_type?: string;
+  reviewer_name: string;
+  decision: 'approved' | 'rejected';
+  reason?: string;
+  content_url: string;
+}
+
 /**
  * Union type for all template variables
  */
@@ -186,7 +213,9 @@ export type TemplateVariables =
   | MemberInviteVariables
   | SubscriptionCanceledVariables
   | TrialEndingVariables
-  | InvoiceUpcomingVariables;
+  | InvoiceUpcomingVariables
+  | ReviewRequestedVariables
+  | ReviewDecisionVariables;
 
 /**
  * Generated email template output
@@ -241,6 +270,8 @@ const TEMPLATE_REQUIRED_FIELDS: Record<SaaSEmailTemplate, string[]> = {
   subscription_canceled: ['plan_tier'],
   trial_ending: ['plan_tier', 'trial_end_date', 'days_remaining'],
   invoice_upcoming: ['plan_tier', 'amount', 'billing_date'],
+  review_requested: ['content_title', 'requester_name', 'review_url'],
+  review_decision: ['content_title', 'reviewer_name', 'decision', 'content_url'],
 };
 
 /**
@@ -322,6 +353,10 @@ export class EmailTemplateService {
         return this.generateTrialEnding(variables as TrialEndingVariables);
       case 'invoice_upcoming':
         return this.generateInvoiceUpcoming(variables as InvoiceUpcomingVariables);
+      case 'review_requested':
+        return this.generateReviewRequested(variables as ReviewRequestedVariables);
+      case 'review_decision':
+        return this.generateReviewDecision(variables as ReviewDecisionVariables);
       default:
         throw new Error(`Unknown template type: ${template}`);
     }
@@ -1276,6 +1311,153 @@ Questions about your billing? Contact us at ${this.branding.supportEmail}.
 Best regards,
 The ${this.branding.companyName} Team
 
+---
+${this.branding.companyName}
+${this.branding.websiteUrl}
+    `.trim();
+
+    return { subject, html, text };
+  }
+
+  /**
+   * Generate review requested email (sent to reviewers)
+   */
+  private generateReviewRequested(variables: ReviewRequestedVariables): GeneratedTemplate {
+    const userName = variables.user_name || 'there';
+    const contentTitle = variables.content_title;
+    const contentType = variables.content_type || 'content';
+    const requesterName = variables.requester_name;
+    const reviewUrl = variables.review_url;
+    const note = variables.note || '';
+
+    const subject = `Review requested: "${contentTitle}"`;
+
+    const html = this.wrapHtml(`
+      <div class="header">
+        <h1>Review Requested</h1>
+      </div>
+
+      <div class="content">
+        <p>Hi ${this.escapeHtml(userName)},</p>
+
+        <p><strong>${this.escapeHtml(requesterName)}</strong> submitted a ${this.escapeHtml(contentType)} for review.</p>
+
+        <div class="stats-box">
+          <div class="stat-row">
+            <span class="stat-label">Title</span>
+            <span class="stat-value">${this.escapeHtml(contentTitle)}</span>
+          </div>
+          <div class="stat-row">
+            <span class="stat-label">Submitted By</span>
+            <span class="stat-value">${this.escapeHtml(requesterName)}</span>
+          </div>
+        </div>
+
+        ${note ? `<p><em>${this.escapeHtml(note)}</em></p>` : ''}
+
+        <p style="text-align: center; margin: 30px 0;">
+          <a href="${this.escapeHtml(reviewUrl)}" class="cta-button">Open Review Queue</a>
+        </p>
+
+        <p>Best regards,<br>The ${this.branding.companyName} Team</p>
+      </div>
+    `);
+
+    const text = `
+Review Requested
+
+Hi ${userName},
+
+${requesterName} submitted a ${contentType} for review.
+
+Title: ${contentTitle}
+Submitted By: ${requesterName}
+${note ? `Note: ${note}` : ''}
+
+Open Review Queue: ${reviewUrl}
+
+Best regards,
+The ${this.branding.companyName} Team
+
+---
+${this.branding.companyName}
+${this.branding.websiteUrl}
+    `.trim();
+
+    return { subject, html, text };
+  }
+
+  /**
+   * Generate review decision email (sent to the submitter)
+   */
+  private generateReviewDecision(variables: ReviewDecisionVariables): GeneratedTemplate {
+    const userName = variables.user_name || 'there';
+    const contentTitle = variables.content_title;
+    const contentType = variables.content_type || 'content';
+    const reviewerName = variables.reviewer_name;
+    const approved = variables.decision === 'approved';
+    const reason = variables.reason || '';
+    const contentUrl = variables.content_url;
+
+    const subject = approved
+      ? `Approved: "${contentTitle}" is ready to publish`
+      : `Changes requested: "${contentTitle}"`;
+    const heading = approved ? 'Approved for Publishing' : 'Changes Requested';
+    const summary = approved
+      ? `approved your ${contentType}. It can now be published.`
+      : `sent your ${contentType} back for changes.`;
+
+    const html = this.wrapHtml(`
+      <div class="header">
+        <h1>${heading}</h1>
+      </div>
+
+      <div class="content">
+        <p>Hi ${this.escapeHtml(userName)},</p>
+
+        <p><strong>${this.escapeHtml(reviewerName)}</strong> ${summary}</p>
+
+        <div class="stats-box">
+          <div class="stat-row">
+            <span class="stat-label">Title</span>
+            <span class="stat-value">${this.escapeHtml(contentTitle)}</span>
+          </div>
+          <div class="stat-row">
+            <span class="stat-label">Reviewer</span>
+            <span class="stat-value">${this.escapeHtml(reviewerName)}</span>
+          </div>
+          ${reason ? `
+          <div class="stat-row">
+            <span class="stat-label">${approved ? 'Comment' : 'Reason'}</span>
+            <span class="stat-value">${this.escapeHtml(reason)}</span>
+          </div>
+          ` : ''}
+        </div>
+
+        <p style="text-align: center; margin: 30px 0;">
+          <a href="${this.escapeHtml(contentUrl)}" class="cta-button">Open in Editor</a>
+        </p>
+
+        <p>Best regards,<br>The ${this.branding.companyName} Team</p>
+      </div>
+    `);
+
+    const text = `
+${heading}
+
+Hi ${userName},
+
+${reviewerName} ${summary}
+
+Title: ${contentTitle}
+Reviewer: ${reviewerName}
+${reason ? `${approved ? 'Comment' : 'Reason'}: ${reason}` : ''}
+
+Open in Editor: ${contentUrl}
+
+Best regards,
+The ${this.branding.companyName} Team
+
 ---
 ${this.branding.companyName}
 ${this.branding.websiteUrl}
@@ -0,0 +1,456 @@
+import { pool } from '../utils/database';
+import type { ContentVersion, ServiceResponse } from '../types/versioning';
+import { ContentType, ServiceErrorCode, VersionType } from '../types/versioning';
+import { VersionService } from './VersionService';
+import { collectReferences, JsonSchema } from '../utils/jsonSchema';
+import { invalidatePublicCaches } from '../utils/publicCache';
+import { mediaUsageService } from './MediaUsageService';
+
+/**
+ * A reusable piece of content (newsletter call to action, disclaimer, author
+ * bio) embedded in posts and pages
+ */
+export interface ContentFragment {
+  id: number;
+  organization_id: number;
+  site_id: number | null;
+  key: string;
+  name: string;
+  description: string | null;
+  content: string;
+  created_by: number | null;
+  updated_by: number | null;
+  created_at: Date;
+  updated_at: Date;
+  usage_count?: number;
+}
+
+export interface FragmentInput {
+  key: string;
+  name: string;
+  description?: string | null;
+  content?: string;
+}
+
+/**
+ * A post or page embedding a fragment, through a token in its content or a
+ * fragment reference (block or field) in its page data
+ */
+export interface FragmentUsage {
+  content_type: ContentType.POST | ContentType.PAGE;
+  content_id: number;
+  title: string;
+  url: string;
+  published: boolean;
+  via: 'content' | 'data';
+}
+
+const TOKEN_SOURCE = '\\{\\{fragment:([a-z0-9]+(?:-[a-z0-9]+)*)\\}\\}';
+
+/**
+ * Token that embeds a fragment in post or page content
+ */
+export function fragmentToken(key: string): string {
+  return `{{fragment:${key}}}`;
+}
+
+/**
+ * Keys of the fragments embedded in HTML content, in order of appearance
+ */
+export function findFragmentKeys(html: string | null | undefined): string[] {
+  if (!html) return [];
+  return Array.from(new Set(Array.from(html.matchAll(new RegExp(TOKEN_SOURCE, 'g')), (match) => match[1])));
+}
+
+const versionService = new VersionService(pool);
+
+export class FragmentService {
+  /**
+   * Fragments of an organization by name, with how many posts and pages
+   * embed each one
+   */
+  async listFragments(organizationId: number): Promise<ServiceResponse<ContentFragment[]>> {
+    try {
+      const { rows } = await pool.query(
+        'SELECT * FROM content_fragments WHERE organization_id = $1 ORDER BY name, id',
+        [organizationId]
+      );
+      const usages = await this.findUsages(organizationId, rows);
+
+      return {
+        success: true,
+        data: rows.map((fragment: ContentFragment) => ({ ...fragment, usage_count: usages.get(fragment.id)?.length ?? 0 })),
+      };
+    } catch (error) {
+      console.error('Error listing fragments:', error);
+      return { success: false, error: 'Failed to list fragments', errorCode: ServiceErrorCode.DATABASE_ERROR };
+    }
+  }
+
+  async getFragment(organizationId: number, id: number): Promise<ServiceResponse<ContentFragment>> {
+    try {
+      const { rows } = await pool.query(
+        'SELECT * FROM content_fragments WHERE id = $1 AND organization_id = $2',
+        [id, organizationId]
+      );
+      if (rows.length === 0) {
+        return { success: false, error: 'Fragment not found', errorCode: ServiceErrorCode.NOT_FOUND };
+      }
+      return { success: true, data: rows[0] };
+    } catch (error) {
+      console.error('Error getting fragment:', error);
+      return { success: false, error: 'Failed to get fragment', errorCode: ServiceErrorCode.DATABASE_ERROR };
+    }
+  }
+
+  async createFragment(
+    organizationId: number,
+    userId: number | undefined,
+    input: FragmentInput
+  ): Promise<ServiceResponse<ContentFragment>> {
+    try {
+      // Versions are recorded under the organization's first site
+      const { rows } = await pool.query(
+        `INSERT INTO content_fragments (organization_id, site_id, key, name, description, content, created_by, updated_by)
+         VALUES ($1, (SELECT id FROM sites WHERE organization_id = $1 ORDER BY id LIMIT 1), $2, $3, $4, $5, $6, $6)
+         RETURNING *`,
+        [organizationId, input.key, input.name, input.description ?? null, input.content ?? '', userId ?? null]
+      );
+
+      await this.recordVersion(rows[0], userId, 'Created');
+      await this.syncMediaReferences(rows[0].id);
+      return { success: true, data: rows[0] };
+    } catch (error: any) {
+      if (error?.code === '23505') {
+        return { success: false, error: 'A fragment with this key already exists', errorCode: ServiceErrorCode.CONFLICT };
+      }
+      console.error('Error creating fragment:', error);
+      return { success: false, error: 'Failed to create fragment', errorCode: ServiceErrorCode.DATABASE_ERROR };
+    }
+  }
+
+  /**
+   * Save a fragment and record the change as a new published version. Every
+   * post and page embedding it shows the new content straight away. The key
+   * cannot change while tokens in posts or pages use it.
+   */
+  async updateFragment(
+    organizationId: number,
+    id: number,
+    userId: number | undefined,
+    input: FragmentInput,
+    changeSummary = 'Updated'
+  ): Promise<ServiceResponse<ContentFragment>> {
+    try {
+      const existing = await this.getFragment(organizationId, id);
+      if (!existing.success) {
+        return existing;
+      }
+
+      if (input.key !== existing.data!.key) {
+        const usages = await this.listUsages(organizationId, id);
+        if ((usages.data || []).some((usage) => usage.via === 'content')) {
+          return {
+            success: false,
+            error: 'The key cannot change while posts or pages embed this fragment with its token',
+            errorCode: ServiceErrorCode.CONFLICT,
+          };
+        }
+      }
+
+      const { rows } = await pool.query(
+        `UPDATE content_fragments
+         SET key = $1, name = $2, description = $3, content = $4, updated_by = $5, updated_at = CURRENT_TIMESTAMP
+         WHERE id = $6 AND organization_id = $7
+         RETURNING *`,
+        [input.key, input.name, input.description ?? null, input.content ?? '', userId ?? null, id, organizationId]
+      );
+
+      await this.recordVersion(rows[0], userId, changeSummary);
+      await this.syncMediaReferences(id);
+      invalidatePublicCaches();
+      return { success: true, data: rows[0] };
+    } catch (error: any) {
+      if (error?.code === '23505') {
+        return { success: false, error: 'A fragment with this key already exists', errorCode: ServiceErrorCode.CONFLICT };
+      }
+      console.error('Error updating fragment:', error);
+      return { success: false, error: 'Failed to update fragment', errorCode: ServiceErrorCode.DATABASE_ERROR };
+    }
+  }
+
+  /**
+   * Delete a fragment that nothing embeds any more
+   */
+  async deleteFragment(organizationId: number, id: number): Promise<ServiceResponse<boolean>> {
+    try {
+      const usages = await this.listUsages(organizationId, id);
+      if (!usages.success) {
+        return { success: false, error: usages.error, errorCode: usages.errorCode };
+      }
+      if (usages.data!.length > 0) {
+        return {
+          success: false,
+          error: `The fragment is still used in ${usages.data!.length} post${usages.data!.length === 1 ? '' : 's'} or pages`,
+          errorCode: ServiceErrorCode.CONFLICT,
+        };
+      }
+
+      await pool.query('DELETE FROM content_fragments WHERE id = $1 AND organization_id = $2', [id, organizationId]);
+      await this.syncMediaReferences(id);
+      return { success: true, data: true };
+    } catch (error) {
+      console.error('Error deleting fragment:', error);
+      return { success: false, error: 'Failed to delete fragment', errorCode: ServiceErrorCode.DATABASE_ERROR };
+    }
+  }
+
+  /**
+   * Posts and pages of the organization that embed a fragment
+   */
+  async listUsages(organizationId: number, id: number): Promise<ServiceResponse<FragmentUsage[]>> {
+    const fragment = await this.getFragment(organizationId, id);
+    if (!fragment.success) {
+      return { success: false, error: fragment.error, errorCode: fragment.errorCode };
+    }
+
+    try {
+      const usages = await this.findUsages(organizationId, [fragment.data!]);
+      return { success: true, data: usages.get(id) ?? [] };
+    } catch (error) {
+      console.error('Error listing fragment usages:', error);
+      return { success: false, error: 'Failed to list fragment usages', errorCode: ServiceErrorCode.DATABASE_ERROR };
+    }
+  }
+
+  /**
+   * Saved versions of a fragment, newest first
+   */
+  async listVersions(organizationId: number, id: number): Promise<ServiceResponse<ContentVersion[]>> {
+    const fragment = await this.getFragment(organizationId, id);
+    if (!fragment.success) {
+      return { success: false, error: fragment.error, errorCode: fragment.errorCode };
+    }
+
+    const history = await versionService.getVersionHistory(ContentType.FRAGMENT, id, {
+      site_id: fragment.data!.site_id || 1,
+      limit: 50,
+    });
+    if (!history.success) {
+      return { success: false, error: history.error, errorCode: ServiceErrorCode.DATABASE_ERROR };
+    }
+    return { success: true, data: history.data!.items };
+  }
+
+  /**
+   * Bring back the name, description and content of an earlier version as a
+   * new version. The key stays as it is, so embeds keep working.
+   */
+  async restoreVersion(
+    organizationId: number,
+    id: number,
+    versionId: number,
+    userId: number | undefined
+  ): Promise<ServiceResponse<ContentFragment>> {
+    const fragment = await this.getFragment(organizationId, id);
+    if (!fragment.success) {
+      return fragment;
+    }
+
+    const version = await versionService.getVersion(versionId);
+    if (!version.success || version.data!.content_type !== ContentType.FRAGMENT || version.data!.content_id !== id) {
+      return { success: false, error: 'Version not found', errorCode: ServiceErrorCode.NOT_FOUND };
+    }
+
+    return this.updateFragment(
+      organizationId,
+      id,
+      userId,
+      {
+        key: fragment.data!.key,
+        name: version.data!.title,
+        description: version.data!.data?.description ?? null,
+        content: version.data!.content || '',
+      },
+      `Restored version ${version.data!.version_number}`
+    );
+  }
+
+  /**
+   * Replace the fragment tokens in HTML content with the current content of
+   * the fragments. A token alone in a paragraph replaces the paragraph.
+   * Tokens of unknown fragments, or of content without an organization, are
+   * dropped, and tokens inside fragments are not expanded, so fragments
+   * cannot embed each other in a loop.
+   */
+  async renderFragments(html: string | null, organizationId: number | null): Promise<string | null> {
+    const keys = findFragmentKeys(html);
+    if (!html || keys.length === 0) {
+      return html;
+    }
+
+    const contents = new Map<string, string>();
+    if (organizationId) {
+      const { rows } = await pool.query(
+        'SELECT key, content FROM content_fragments WHERE organization_id = $1 AND key = ANY($2)',
+        [organizationId, keys]
+      );
+      rows.forEach((row: { key: string; content: string }) => contents.set(row.key, row.content));
+    }
+
+    return html.replace(
+      new RegExp(`<p>\\s*${TOKEN_SOURCE}\\s*</p>|${TOKEN_SOURCE}`, 'g'),
+      (_match, paragraphKey: string | undefined, inlineKey: string | undefined) => {
+        const key = (paragraphKey || inlineKey)!;
+        const content = contents.get(key);
+        return content === undefined ? '' : `<div class="content-fragment" data-fragment="${key}">${content}</div>`;
+      }
+    );
+  }
+
+  /**
+   * Fragments referenced from page data, keyed by id, for rendering fragment
+   * blocks and fields
+   */
+  async getFragmentsForData(
+    organizationId: number,
+    schema: JsonSchema | null | undefined,
+    data: unknown
+  ): Promise<Record<string, { key: string; name: string; content: string }>> {
+    const ids = schema
+      ? collectReferences(schema, data).filter((reference) => reference.kind === 'fragment').map((reference) => reference.id)
+      : [];
+    if (ids.length === 0) {
+      return {};
+    }
+
+    const { rows } = await pool.query(
+      'SELECT id, key, name, content FROM content_fragments WHERE organization_id = $1 AND id = ANY($2)',
+      [organizationId, ids]
+    );
+    return Object.fromEntries(
+      rows.map((row: { id: number; key: string; name: string; content: string }) => [
+        String(row.id),
+        { key: row.key, name: row.name, content: row.content },
+      ])
+    );
+  }
+
+  /**
+   * Usages of the given fragments by fragment id. Content is searched for
+   * tokens, and the data of pages whose template can reference fragments
+   * for fragment references.
+   */
+  private async findUsages(
+    organizationId: number,
+    fragments: Array<Pick<ContentFragment, 'id' | 'key'>>
+  ): Promise<Map<number, FragmentUsage[]>> {
+    const usages = new Map<number, FragmentUsage[]>();
+    if (fragments.length === 0) {
+      return usages;
+    }
+
+    const idsByKey = new Map(fragments.map((fragment) => [fragment.key, fragment.id]));
+    const add = (fragmentId: number | undefined, usage: FragmentUsage) => {
+      if (fragmentId === undefined) return;
+      const list = usages.get(fragmentId) ?? [];
+      if (!list.some((existing) => existing.content_type === usage.content_type && existing.content_id === usage.content_id)) {
+        list.push(usage);
+      }
+      usages.set(fragmentId, list);
+    };
+
+    const posts = await pool.query(
+      `SELECT id, title, slug, status, content FROM posts
+       WHERE organization_id = $1 AND content LIKE '%{{fragment:%'
+       ORDER BY title`,
+      [organizationId]
+    );
+    posts.rows.forEach((post: { id: number; title: string; slug: string; status: string; content: string }) => {
+      findFragmentKeys(post.content).forEach((key) =>
+        add(idsByKey.get(key), {
+          content_type: ContentType.POST,
+          content_id: post.id,
+          title: post.title,
+          url: `/blog/${post.slug}`,
+          published: post.status === 'published',
+          via: 'content',
+        })
+      );
+    });
+
+    const pages = await pool.query(
+      `SELECT p.id, p.title, p.path, p.published, p.content, p.data, t.schema
+       FROM pages p
+       LEFT JOIN page_templates t ON t.key = p.template
+       WHERE p.organization_id = $1
+         AND (p.content LIKE '%{{fragment:%' OR t.schema::text LIKE '%fragment-reference%')
+       ORDER BY p.path`,
+      [organizationId]
+    );
+    const fragmentIds = new Set(fragments.map((fragment) => fragment.id));
+    pages.rows.forEach((page: { id: number; title: string; path: string; published: boolean; content: string; data: unknown; schema: JsonSchema | null }) => {
+      const usage = (via: FragmentUsage['via']): FragmentUsage => ({
+        content_type: ContentType.PAGE,
+        content_id: page.id,
+        title: page.title,
+        url: `/page/${page.path}`,
+        published: page.published,
+        via,
+      });
+      findFragmentKeys(page.content).forEach((key) => add(idsByKey.get(key), usage('content')));
+      if (page.schema) {
+        collectReferences(page.schema, page.data)
+          .filter((reference) => reference.kind === 'fragment' && fragmentIds.has(reference.id))
+          .forEach((reference) => add(reference.id, usage('data')));
+      }
+    });
+
+    return usages;
+  }
+
+  /**
+   * Record the media files the fragment uses. Failing to record them does
+   * not undo the save.
+   */
+  private async syncMediaReferences(id: number): Promise<void> {
+    const references = await mediaUsageService.syncReferences('fragment', id);
+    if (!references.success) {
+      console.error('Failed to record media used by fragment:', references.error);
+    }
+  }
+
+  /**
+   * Record the fragment as it now is as a published version. Failing to
+   * record a version does not undo the save.
+   */
+  private async recordVersion(fragment: ContentFragment, userId: number | undefined, changeSummary: string): Promise<void> {
+    if (!userId) return;
+
+    const version = await versionService.createVersion(
+      {
+        site_id: fragment.site_id || 1,
+        content_type: ContentType.FRAGMENT,
+        content_id: fragment.id,
+        version_type: VersionType.PUBLISHED,
+        title: fragment.name,
+        slug: fragment.key,
+        content: fragment.content,
+        data: { description: fragment.description },
+        change_summary: changeSummary,
+      },
+      userId
+    );
+    if (!version.success || !version.data) {
+      console.error('Failed to record fragment version:', version.error);
+      return;
+    }
+
+    const published = await versionService.publishVersion(version.data.id, userId, { bypassWorkflow: true });
+    if (!published.success) {
+      console.error('Failed to publish fragment version:', published.error);
+    }
+  }
+}
+
+export const fragmentService = new FragmentService();
@@ -0,0 +1,362 @@
+import crypto from 'crypto';
+import { Readable } from 'stream';
+import sharp from 'sharp';
+import { pool } from '../utils/database';
+import { MediaStorage, mediaStorage, streamToBuffer } from './MediaStorage';
+import { quotaService } from './QuotaService';
+import { ServiceErrorCode } from '../types/versioning';
+import type { ServiceResponse } from '../types/versioning';
+
+export type ImageFit = 'cover' | 'contain' | 'inside' | 'outside' | 'fill';
+export type ImageFormat = 'webp' | 'avif' | 'jpeg' | 'png';
+
+export interface ImageTransform {
+  width?: number;
+  height?: number;
+  fit: ImageFit;
+  format: ImageFormat;
+}
+
+export interface TransformedImage {
+  body: Buffer | Readable;
+  contentType: string;
+}
+
+export const IMAGE_FITS: ImageFit[] = ['cover', 'contain', 'inside', 'outside', 'fill'];
+export const IMAGE_FORMATS: ImageFormat[] = ['webp', 'avif', 'jpeg', 'png'];
+export const MAX_TRANSFORM_DIMENSION = 4000;
+
+// Widths offered in the srcset of images in post content
+export const SRCSET_WIDTHS = [320, 640, 960, 1280, 1600];
+// Posts are shown in a column of about 768px
+const DEFAULT_SIZES = '(max-width: 768px) 100vw, 768px';
+
+// Images sharp can transform; GIFs are left alone to keep their animation
+const TRANSFORMABLE_TYPES = ['image/jpeg', 'image/jpg', 'image/png', 'image/webp'];
+
+const QUALITY: Record<ImageFormat, number> = { webp: 82, avif: 60, jpeg: 82, png: 100 };
+
+/**
+ * Whether files of a type can be transformed
+ */
+export function isTransformableImage(mimeType: string): boolean {
+  return TRANSFORMABLE_TYPES.includes(mimeType);
+}
+
+function transformSecret(): string {
+  return process.env.MEDIA_TRANSFORM_SECRET || process.env.JWT_SECRET || 'media-transform-secret';
+}
+
+function parseDimension(value: unknown): number | undefined | null {
+  if (value === undefined || value === '') {
+    return undefined;
+  }
+  if (typeof value !== 'string' || !/^\d+$/.test(value)) {
+    return null;
+  }
+  const dimension = parseInt(value, 10);
+  return dimension >= 1 && dimension <= MAX_TRANSFORM_DIMENSION ? dimension : null;
+}
+
+/**
+ * Transform from the w, h, fit and format query parameters. Fit defaults to
+ * cover and format to webp.
+ */
+export function parseImageTransform(params: Record<string, unknown>): ServiceResponse<ImageTransform> {
+  const width = parseDimension(params.w);
+  const height = parseDimension(params.h);
+  if (width === null || height === null) {
+    return {
+      success: false,
+      error: `Width and height must be whole numbers from 1 to ${MAX_TRANSFORM_DIMENSION}`,
+      errorCode: ServiceErrorCode.VALIDATION_ERROR,
+    };
+  }
+
+  const fit = (params.fit ?? 'cover') as ImageFit;
+  const format = (params.format ?? 'webp') as ImageFormat;
+  if (!IMAGE_FITS.includes(fit)) {
+    return { success: false, error: `Fit must be one of ${IMAGE_FITS.join(', ')}`, errorCode: ServiceErrorCode.VALIDATION_ERROR };
+  }
+  if (!IMAGE_FORMATS.includes(format)) {
+    return { success: false, error: `Format must be one of ${IMAGE_FORMATS.join(', ')}`, errorCode: ServiceErrorCode.VALIDATION_ERROR };
+  }
+
+  return { success: true, data: { width, height, fit, format } };
+}
+
+/**
+ * Signature of a transform of an image, covering every parameter so none can
+ * be changed without invalidating the URL
+ */
+export function signImageTransform(mediaId: number, transform: ImageTransform): string {
+  const payload = [mediaId, transform.width ?? '', transform.height ?? '', transform.fit, transform.format].join(':');
+  return crypto.createHmac('sha256', transformSecret()).update(payload).digest('base64url');
+}
+
+function hasValidSignature(mediaId: number, transform: ImageTransform, signature: string): boolean {
+  const expected = Buffer.from(signImageTransform(mediaId, transform));
+  const given = Buffer.from(signature);
+  return expected.length === given.length && crypto.timingSafeEqual(expected, given);
+}
+
+/**
+ * Signed URL of the transform endpoint
+ */
+export function imageTransformUrl(mediaId: number, transform: ImageTransform, version = 1): string {
+  const params = new URLSearchParams();
+  if (transform.width) params.set('w', String(transform.width));
+  if (transform.height) params.set('h', String(transform.height));
+  params.set('fit', transform.fit);
+  params.set('format', transform.format);
+  // Transforms are cached for good, so a replaced file needs new URLs
+  if (version > 1) params.set('v', String(version));
+  params.set('sig', signImageTransform(mediaId, transform));
+  return `/api/media/${mediaId}/transform?${params.toString()}`;
+}
+
+/**
+ * Storage key of a derivative: derivatives/12/640xauto-inside.webp
+ */
+export function derivativeStorageKey(mediaId: number, transform: ImageTransform): string {
+  const size = `${transform.width ?? 'auto'}x${transform.height ?? 'auto'}`;
+  return `derivatives/${mediaId}/${size}-${transform.fit}.${transform.format}`;
+}
+
+function getAttribute(tag: string, name: string): string | undefined {
+  const match = tag.match(new RegExp(`\\s${name}\\s*=\\s*(?:"([^"]*)"|'([^']*)'|([^\\s>]+))`, 'i'));
+  return match ? (match[1] ?? match[2] ?? match[3]) : undefined;
+}
+
+// Path of an uploaded file, from a relative or absolute image URL
+function uploadPath(src: string | undefined): string | null {
+  if (!src) {
+    return null;
+  }
+  const path = src.replace(/^https?:\/\/[^/]+/i, '').split(/[?#]/)[0];
+  return path.startsWith('/uploads/') ? path : null;
+}
+
+interface MediaRow {
+  id: number;
+  filename: string;
+  mime_type: string;
+  organization_id: number | null;
+}
+
+/**
+ * ImageTransformService - Resized, cropped and re-encoded copies of images
+ *
+ * Themes request images at the size and format they need from
+ * GET /api/media/:id/transform. The parameters are signed, so only URLs the
+ * API handed out (in srcsets, or from GET /api/media/:id/transform-url to
+ * authors of the organization) are rendered and clients cannot make the server resize
+ * images to arbitrary sizes. Each derivative is rendered once, kept in media
+ * storage and recorded in media_derivatives, which counts it against the
+ * organization's storage quota and removes it together with the image.
+ */
+export class ImageTransformService {
+  constructor(private storage: MediaStorage = mediaStorage) {}
+
+  /**
+   * The image transformed as requested, from the derivative cache when it
+   * was rendered before
+   */
+  async getTransformedImage(
+    mediaId: number,
+    transform: ImageTransform,
+    signature: string
+  ): Promise<ServiceResponse<TransformedImage>> {
+    try {
+      if (!hasValidSignature(mediaId, transform, signature)) {
+        return { success: false, error: 'Invalid signature', errorCode: ServiceErrorCode.FORBIDDEN };
+      }
+
+      const { rows } = await pool.query(
+        'SELECT id, filename, mime_type, organization_id FROM media_files WHERE id = $1',
+        [mediaId]
+      );
+      const media: MediaRow | undefined = rows[0];
+      if (!media) {
+        return { success: false, error: 'Media file not found', errorCode: ServiceErrorCode.NOT_FOUND };
+      }
+      if (!isTransformableImage(media.mime_type)) {
+        return { success: false, error: 'Only images can be transformed', errorCode: ServiceErrorCode.VALIDATION_ERROR };
+      }
+
+      const key = derivativeStorageKey(mediaId, transform);
+      const contentType = `image/${transform.format}`;
+
+      const cached = await pool.query(
+        'SELECT id FROM media_derivatives WHERE media_id = $1 AND storage_key = $2',
+        [mediaId, key]
+      );
+      if (cached.rows.length > 0) {
+        const stored = await this.storage.get(key);
+        if (stored) {
+          return { success: true, data: { body: stored.body, contentType } };
+        }
+      }
+
+      const original = await this.storage.get(media.filename);
+      if (!original) {
+        return { success: false, error: 'Original file not found', errorCode: ServiceErrorCode.NOT_FOUND };
+      }
+
+      let output: Buffer;
+      try {
+        output = await sharp(await streamToBuffer(original.body))
+          .rotate()
+          .resize({ width: transform.width, height: transform.height, fit: transform.fit, withoutEnlargement: true })
+          .toFormat(transform.format, { quality: QUALITY[transform.format] })
+          .toBuffer();
+      } catch (error) {
+        console.error(`Error transforming media ${mediaId}:`, error);
+        return { success: false, error: 'Image could not be transformed', errorCode: ServiceErrorCode.VALIDATION_ERROR };
+      }
+
+      await this.storeDerivative(media, key, transform, output);
+
+      return { success: true, data: { body: output, contentType } };
+    } catch (error: any) {
+      console.error('Error getting transformed image:', error);
+      return {
+        success: false,
+        error: error.message || 'Failed to transform image',
+        errorCode: ServiceErrorCode.INTERNAL_ERROR,
+      };
+    }
+  }
+
+  /**
+   * Remove the derivatives of an image from storage. Resolves to the bytes
+   * they were counted with against the storage quota.
+   */
+  async deleteDerivatives(mediaId: number): Promise<ServiceResponse<number>> {
+    try {
+      const { rows } = await pool.query(
+        'SELECT storage_key, file_size FROM media_derivatives WHERE media_id = $1',
+        [mediaId]
+      );
+
+      let freedBytes = 0;
+      for (const row of rows as Array<{ storage_key: string; file_size: string }>) {
+        await this.storage.delete(row.storage_key);
+        freedBytes += parseInt(row.file_size, 10);
+      }
+      await pool.query('DELETE FROM media_derivatives WHERE media_id = $1', [mediaId]);
+
+      return { success: true, data: freedBytes };
+    } catch (error: any) {
+      console.error('Error deleting media derivatives:', error);
+      return {
+        success: false,
+        error: error.message || 'Failed to delete media derivatives',
+        errorCode: ServiceErrorCode.INTERNAL_ERROR,
+      };
+    }
+  }
+
+  /**
+   * Add srcset and sizes to the uploaded images in HTML content, so browsers
+   * load a width that fits the screen. Images that already have a srcset,
+   * and images that are not in the organization's media library, are left
+   * as they are. A width set in the editor caps the sizes.
+   */
+  async addResponsiveImages(html: string | null, organizationId: number | null): Promise<string | null> {
+    if (!html || !organizationId) {
+      return html;
+    }
+
+    const imageTags = html.match(/<img\b[^>]*>/gi) || [];
+    const paths = Array.from(
+      new Set(
+        imageTags
+          .filter((tag) => getAttribute(tag, 'srcset') === undefined)
+          .map((tag) => uploadPath(getAttribute(tag, 'src')))
+          .filter((path): path is string => path !== null)
+      )
+    );
+    if (paths.length === 0) {
+      return html;
+    }
+
+    const { rows } = await pool.query(
+      'SELECT id, file_path, version FROM media_files WHERE organization_id = $1 AND file_path = ANY($2) AND mime_type = ANY($3)',
+      [organizationId, paths, TRANSFORMABLE_TYPES]
+    );
+    const mediaFiles = new Map<string, { id: number; version?: number }>(
+      rows.map((row: { id: number; file_path: string; version?: number }) => [row.file_path, row])
+    );
+
+    return html.replace(/<img\b[^>]*>/gi, (tag) => {
+      const media = mediaFiles.get(uploadPath(getAttribute(tag, 'src')) || '');
+      if (media === undefined || getAttribute(tag, 'srcset') !== undefined) {
+        return tag;
+      }
+
+      const srcset = SRCSET_WIDTHS.map(
+        (width) => `${imageTransformUrl(media.id, { width, fit: 'inside', format: 'webp' }, media.version)} ${width}w`
+      ).join(', ');
+      const width = getAttribute(tag, 'width');
+      const sizes = width && /^\d+$/.test(width) ? `(max-width: ${width}px) 100vw, ${width}px` : DEFAULT_SIZES;
+
+      return tag.replace(
+        /\s*\/?>$/,
+        (end) => ` srcset="${srcset.replace(/&/g, '&amp;')}" sizes="${sizes}"${end.trim() === '/>' ? ' />' : '>'}`
+      );
+    });
+  }
+
+  /**
+   * Keep a rendered derivative for later requests. It is only kept when the
+   * organization has storage quota left for it; otherwise it is served
+   * without being stored.
+   */
+  private async storeDerivative(media: MediaRow, key: string, transform: ImageTransform, output: Buffer): Promise<void> {
+    let counted = false;
+    try {
+      if (media.organization_id) {
+        const increment = await quotaService.incrementQuota({
+          organizationId: media.organization_id,
+          dimension: 'storage_bytes',
+          amount: output.length,
+        });
+        if (!increment.success) {
+          return;
+        }
+        counted = true;
+      }
+
+      await this.storage.put(key, output, { contentType: `image/${transform.format}` });
+      const { rows } = await pool.query(
+        `INSERT INTO media_derivatives (media_id, storage_key, width, height, fit, format, file_size, organization_id)
+         VALUES ($1, $2, $3, $4, $5, $6, $7, $8)
+         ON CONFLICT (media_id, storage_key) DO NOTHING
+         RETURNING id`,
+        [media.id, key, transform.width ?? null, transform.height ?? null, transform.fit, transform.format, output.length, media.organization_id]
+      );
+
+      // Another request stored the same derivative first and counted it
+      if (rows.length === 0 && counted) {
+        counted = false;
+        await quotaService.decrementQuota({
+          organizationId: media.organization_id!,
+          dimension: 'storage_bytes',
+          amount: output.length,
+        });
+      }
+    } catch (error) {
+      console.error(`Error storing derivative ${key}:`, error);
+      if (counted) {
+        await quotaService.decrementQuota({
+          organizationId: media.organization_id!,
+          dimension: 'storage_bytes',
+          amount: output.length,
+        });
+      }
+    }
+  }
+}
+
+export const imageTransformService = new ImageTransformService();
@@ -0,0 +1,277 @@
+import crypto from 'crypto';
+import sharp from 'sharp';
+import { pool } from '../utils/database';
+import { mediaUsageService } from './MediaUsageService';
+import { mediaStorage, streamToBuffer, MediaStorage } from './MediaStorage';
+import { ServiceErrorCode } from '../types/versioning';
+import type { ServiceResponse } from '../types/versioning';
+
+// Bits two perceptual hashes may differ in for the images to count as near
+// duplicates, out of 64
+export const DEFAULT_NEAR_DUPLICATE_DISTANCE = 6;
+export const MAX_NEAR_DUPLICATE_DISTANCE = 16;
+
+export interface DuplicateMediaFile {
+  id: number;
+  original_name: string;
+  file_path: string;
+  file_size: number;
+  mime_type: string;
+  created_at: Date;
+  usage_count: number;
+}
+
+/**
+ * Files that are copies of each other, oldest first. Distance is the most
+ * bits the perceptual hashes of two of them differ in, 0 for exact copies.
+ */
+export interface DuplicateGroup {
+  distance: number;
+  files: DuplicateMediaFile[];
+}
+
+export interface MergeResult {
+  // Files merged into the kept one, to be deleted
+  merged: Array<{ id: number; filename: string }>;
+  // Posts, pages and organizations changed to use the kept file
+  sourcesUpdated: number;
+}
+
+/**
+ * SHA-256 of a file, hex
+ */
+export function contentHash(buffer: Buffer): string {
+  return crypto.createHash('sha256').update(buffer).digest('hex');
+}
+
+/**
+ * Difference hash of an image, hex: each of the 64 bits tells whether a
+ * pixel of a 9x8 greyscale version is brighter than the one to its right.
+ * Resizing or re-encoding an image changes few bits. Null for files sharp
+ * cannot read.
+ */
+export async function perceptualHash(buffer: Buffer): Promise<string | null> {
+  try {
+    const pixels = await sharp(buffer).rotate().greyscale().resize(9, 8, { fit: 'fill' }).raw().toBuffer();
+    let hash = '';
+    for (let nibble = 0; nibble < 16; nibble++) {
+      let value = 0;
+      for (let bit = 0; bit < 4; bit++) {
+        const index = nibble * 4 + bit;
+        const pixel = Math.floor(index / 8) * 9 + (index % 8);
+        value = (value << 1) | (pixels[pixel] > pixels[pixel + 1] ? 1 : 0);
+      }
+      hash += value.toString(16);
+    }
+    return hash;
+  } catch (error) {
+    return null;
+  }
+}
+
+/**
+ * Hashes stored with a media file; images also get a perceptual hash
+ */
+export async function mediaHashes(buffer: Buffer, mimeType: string): Promise<{ content_hash: string; perceptual_hash: string | null }> {
+  return {
+    content_hash: contentHash(buffer),
+    perceptual_hash: mimeType.startsWith('image/') ? await perceptualHash(buffer) : null,
+  };
+}
+
+export class MediaDedupService {
+  constructor(private storage: MediaStorage = mediaStorage) {}
+
+  /**
+   * The oldest media file of an organization with the given content, if any
+   */
+  async findByContentHash(organizationId: number, hash: string): Promise<ServiceResponse<any | null>> {
+    try {
+      const { rows } = await pool.query(
+        'SELECT * FROM media_files WHERE content_hash = $1 AND organization_id = $2 ORDER BY id LIMIT 1',
+        [hash, organizationId]
+      );
+      return { success: true, data: rows[0] ?? null };
+    } catch (error: any) {
+      console.error('Error finding media file by content hash:', error);
+      return {
+        success: false,
+        error: error.message || 'Failed to find media file',
+        errorCode: ServiceErrorCode.INTERNAL_ERROR,
+      };
+    }
+  }
+
+  /**
+   * Groups of media files of an organization that are exact copies or whose
+   * perceptual hashes differ in at most maxDistance bits, largest first
+   */
+  async findNearDuplicates(
+    organizationId: number,
+    maxDistance = DEFAULT_NEAR_DUPLICATE_DISTANCE
+  ): Promise<ServiceResponse<DuplicateGroup[]>> {
+    try {
+      const pairs = await pool.query(
+        `SELECT a_id, b_id, distance FROM (
+           SELECT a.id as a_id, b.id as b_id,
+             CASE
+               WHEN a.content_hash = b.content_hash THEN 0
+               WHEN a.perceptual_hash IS NULL OR b.perceptual_hash IS NULL THEN NULL
+               ELSE length(replace((('x' || a.perceptual_hash)::bit(64) # ('x' || b.perceptual_hash)::bit(64))::text, '0', ''))
+             END as distance
+           FROM media_files a
+           JOIN media_files b ON b.organization_id = a.organization_id AND b.id > a.id
+           WHERE a.organization_id = $1
+             AND (a.content_hash IS NOT NULL OR a.perceptual_hash IS NOT NULL)
+         ) candidates
+         WHERE distance <= $2`,
+        [organizationId, maxDistance]
+      );
+      if (pairs.rows.length === 0) {
+        return { success: true, data: [] };
+      }
+
+      // Files joined by any close pair form one group
+      const parent = new Map<number, number>();
+      const root = (id: number): number => {
+        const next = parent.get(id) ?? id;
+        if (next === id) {
+          return id;
+        }
+        const top = root(next);
+        parent.set(id, top);
+        return top;
+      };
+      for (const { a_id: a, b_id: b } of pairs.rows) {
+        parent.set(root(b), root(a));
+      }
+
+      const ids = Array.from(new Set(pairs.rows.flatMap((pair: { a_id: number; b_id: number }) => [pair.a_id, pair.b_id])));
+      const [files, usages] = await Promise.all([
+        pool.query(
+          `SELECT id, original_name, file_path, file_size, mime_type, created_at
+           FROM media_files WHERE id = ANY($1) AND organization_id = $2 ORDER BY id`,
+          [ids, organizationId]
+        ),
+        mediaUsageService.countUsages(organizationId, ids as number[]),
+      ]);
+
+      const groups = new Map<number, DuplicateGroup>();
+      for (const file of files.rows) {
+        const group = groups.get(root(file.id)) ?? { distance: 0, files: [] };
+        group.files.push({ ...file, usage_count: usages.data?.get(file.id) ?? 0 });
+        groups.set(root(file.id), group);
+      }
+      for (const { a_id: a, distance } of pairs.rows) {
+        const group = groups.get(root(a));
+        if (group) {
+          group.distance = Math.max(group.distance, distance);
+        }
+      }
+
+      return {
+        success: true,
+        data: Array.from(groups.values())
+          .filter((group) => group.files.length > 1)
+          .sort((a, b) => b.files.length - a.files.length || a.files[0].id - b.files[0].id),
+      };
+    } catch (error: any) {
+      console.error('Error finding near-duplicate media:', error);
+      return {
+        success: false,
+        error: error.message || 'Failed to find near-duplicate media',
+        errorCode: ServiceErrorCode.INTERNAL_ERROR,
+      };
+    }
+  }
+
+  /**
+   * Merge duplicates into the media file to keep: posts, pages and
+   * organizations using them are changed to use the kept file, which also
+   * gets their tags. The merged files are left for the caller to delete
+   * with their stored copies.
+   */
+  async mergeMediaFiles(organizationId: number, keepId: number, mergeIds: number[]): Promise<ServiceResponse<MergeResult>> {
+    if (mergeIds.includes(keepId)) {
+      return {
+        success: false,
+        error: 'The file to keep cannot also be merged',
+        errorCode: ServiceErrorCode.VALIDATION_ERROR,
+      };
+    }
+
+    try {
+      const { rows } = await pool.query(
+        'SELECT id, filename FROM media_files WHERE id = ANY($1) AND organization_id = $2',
+        [[keepId, ...mergeIds], organizationId]
+      );
+      if (rows.length !== mergeIds.length + 1) {
+        return { success: false, error: 'Media file not found', errorCode: ServiceErrorCode.NOT_FOUND };
+      }
+
+      const replaced = await mediaUsageService.replaceMedia(organizationId, mergeIds, keepId);
+      if (!replaced.success) {
+        return { success: false, error: replaced.error, errorCode: replaced.errorCode };
+      }
+
+      await pool.query(
+        `INSERT INTO media_file_tags (media_id, tag_id)
+         SELECT $1, tag_id FROM media_file_tags WHERE media_id = ANY($2)
+         ON CONFLICT DO NOTHING`,
+        [keepId, mergeIds]
+      );
+
+      return {
+        success: true,
+        data: {
+          merged: rows.filter((row: { id: number }) => row.id !== keepId),
+          sourcesUpdated: replaced.data!,
+        },
+      };
+    } catch (error: any) {
+      console.error('Error merging media files:', error);
+      return {
+        success: false,
+        error: error.message || 'Failed to merge media files',
+        errorCode: ServiceErrorCode.INTERNAL_ERROR,
+      };
+    }
+  }
+
+  /**
+   * Hash the media files uploaded before hashes were stored, reading their
+   * originals from media storage. Resolves to how many files were hashed;
+   * files missing from storage are skipped.
+   */
+  async hashUnhashedFiles(onProgress?: (mediaId: number, hashed: boolean) => void): Promise<ServiceResponse<number>> {
+    try {
+      const { rows } = await pool.query('SELECT id, filename, mime_type FROM media_files WHERE content_hash IS NULL ORDER BY id');
+      let hashed = 0;
+      for (const file of rows) {
+        const stored = await this.storage.get(file.filename);
+        if (!stored) {
+          onProgress?.(file.id, false);
+          continue;
+        }
+        const hashes = await mediaHashes(await streamToBuffer(stored.body), file.mime_type);
+        await pool.query('UPDATE media_files SET content_hash = $1, perceptual_hash = $2 WHERE id = $3', [
+          hashes.content_hash,
+          hashes.perceptual_hash,
+          file.id,
+        ]);
+        onProgress?.(file.id, true);
+        hashed++;
+      }
+      return { success: true, data: hashed };
+    } catch (error: any) {
+      console.error('Error hashing media files:', error);
+      return {
+        success: false,
+        error: error.message || 'Failed to hash media files',
+        errorCode: ServiceErrorCode.INTERNAL_ERROR,
+      };
+    }
+  }
+}
+
+export const mediaDedupService = new MediaDedupService();
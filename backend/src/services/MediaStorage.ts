@@ -0,0 +1,374 @@
+import fs from 'fs';
+import path from 'path';
+import { Readable } from 'stream';
+import {
+  S3Client,
+  PutObjectCommand,
+  GetObjectCommand,
+  HeadObjectCommand,
+  DeleteObjectCommand,
+  ListObjectsV2Command,
+} from '@aws-sdk/client-s3';
+import { getSignedUrl } from '@aws-sdk/s3-request-presigner';
+
+export type MediaStorageDriver = 'local' | 's3';
+
+export interface StoredObjectInfo {
+  key: string;
+  size: number;
+  contentType?: string;
+  lastModified?: Date;
+}
+
+export interface StoredObject extends StoredObjectInfo {
+  body: Readable;
+}
+
+export interface PutOptions {
+  contentType?: string;
+}
+
+/**
+ * Where uploaded files and their derivatives live. Keys are relative paths
+ * such as `1700000000000-123.jpg` or `logos/logo-1.png`, served publicly
+ * below /uploads/ whichever driver stores them.
+ */
+export interface MediaStorage {
+  readonly driver: MediaStorageDriver;
+  put(key: string, body: Buffer | Readable, options?: PutOptions): Promise<void>;
+  // null when there is no file under the key
+  get(key: string): Promise<StoredObject | null>;
+  // Deleting a missing key is not an error
+  delete(key: string): Promise<void>;
+  stat(key: string): Promise<StoredObjectInfo | null>;
+  // URL the file can be fetched from for a limited time
+  signedUrl(key: string, expiresInSeconds?: number): Promise<string>;
+  // Every stored key, for moving files between backends
+  list(prefix?: string): AsyncIterable<string>;
+}
+
+const DEFAULT_URL_EXPIRY = 60 * 60;
+
+const CONTENT_TYPES: Record<string, string> = {
+  '.jpg': 'image/jpeg',
+  '.jpeg': 'image/jpeg',
+  '.png': 'image/png',
+  '.gif': 'image/gif',
+  '.webp': 'image/webp',
+  '.svg': 'image/svg+xml',
+  '.mp4': 'video/mp4',
+  '.webm': 'video/webm',
+  '.pdf': 'application/pdf',
+  '.txt': 'text/plain',
+  '.doc': 'application/msword',
+  '.docx': 'application/vnd.openxmlformats-officedocument.wordprocessingml.document',
+};
+
+/**
+ * Content type of a stored file, from its extension
+ */
+export function contentTypeForKey(key: string): string {
+  return CONTENT_TYPES[path.extname(key).toLowerCase()] || 'application/octet-stream';
+}
+
+/**
+ * New key for an uploaded file, unique enough not to clash with earlier
+ * uploads and keeping the file's extension
+ */
+export function uniqueStorageKey(originalName: string, prefix = ''): string {
+  const uniqueSuffix = `${Date.now()}-${Math.round(Math.random() * 1e9)}`;
+  return `${prefix}${uniqueSuffix}${path.extname(originalName).toLowerCase()}`;
+}
+
+/**
+ * Reject keys that could escape the storage root or bucket prefix
+ */
+export function normalizeStorageKey(key: string): string {
+  const normalized = key.replace(/\\/g, '/').replace(/^\/+/, '');
+  if (!normalized || normalized.split('/').some((segment) => segment === '..' || segment === '.' || segment === '')) {
+    throw new Error(`Invalid storage key: ${key}`);
+  }
+  return normalized;
+}
+
+/**
+ * Files on the local disk, served by the backend itself. Only suitable for a
+ * single replica or a shared volume.
+ */
+export class LocalMediaStorage implements MediaStorage {
+  readonly driver = 'local' as const;
+
+  constructor(readonly root: string, private readonly publicPath = '/uploads') {}
+
+  private filePath(key: string): string {
+    return path.join(this.root, normalizeStorageKey(key));
+  }
+
+  async put(key: string, body: Buffer | Readable): Promise<void> {
+    const filePath = this.filePath(key);
+    await fs.promises.mkdir(path.dirname(filePath), { recursive: true });
+    if (Buffer.isBuffer(body)) {
+      await fs.promises.writeFile(filePath, body);
+      return;
+    }
+    await new Promise<void>((resolve, reject) => {
+      const out = fs.createWriteStream(filePath);
+      body.on('error', reject).pipe(out).on('error', reject).on('finish', () => resolve());
+    });
+  }
+
+  async get(key: string): Promise<StoredObject | null> {
+    const info = await this.stat(key);
+    if (!info) return null;
+    return { ...info, body: fs.createReadStream(this.filePath(key)) };
+  }
+
+  async delete(key: string): Promise<void> {
+    await fs.promises.rm(this.filePath(key), { force: true });
+  }
+
+  async stat(key: string): Promise<StoredObjectInfo | null> {
+    try {
+      const stats = await fs.promises.stat(this.filePath(key));
+      if (!stats.isFile()) return null;
+      return { key: normalizeStorageKey(key), size: stats.size, contentType: contentTypeForKey(key), lastModified: stats.mtime };
+    } catch (error: any) {
+      if (error?.code === 'ENOENT') return null;
+      throw error;
+    }
+  }
+
+  // Local files are public, so the URL needs no signature
+  async signedUrl(key: string): Promise<string> {
+    return `${this.publicPath}/${normalizeStorageKey(key)}`;
+  }
+
+  async *list(prefix = ''): AsyncIterable<string> {
+    const walk = async function* (dir: string, relative: string): AsyncIterable<string> {
+      let entries: fs.Dirent[];
+      try {
+        entries = await fs.promises.readdir(dir, { withFileTypes: true });
+      } catch (error: any) {
+        if (error?.code === 'ENOENT') return;
+        throw error;
+      }
+      for (const entry of entries.sort((a, b) => a.name.localeCompare(b.name))) {
+        const key = relative ? `${relative}/${entry.name}` : entry.name;
+        if (entry.isDirectory()) {
+          yield* walk(path.join(dir, entry.name), key);
+        } else if (entry.isFile() && key.startsWith(prefix)) {
+          yield key;
+        }
+      }
+    };
+    yield* walk(this.root, '');
+  }
+}
+
+export interface S3MediaStorageOptions {
+  bucket: string;
+  region?: string;
+  // Custom endpoint for S3-compatible services such as MinIO
+  endpoint?: string;
+  // Bucket in the path rather than the hostname, which MinIO needs
+  forcePathStyle?: boolean;
+  accessKeyId?: string;
+  secretAccessKey?: string;
+  // Keys are stored below this prefix in the bucket, e.g. media/
+  prefix?: string;
+}
+
+/**
+ * Files in an S3 bucket or an S3-compatible service, shared by every
+ * backend replica
+ */
+export class S3MediaStorage implements MediaStorage {
+  readonly driver = 's3' as const;
+  private readonly client: S3Client;
+  private readonly bucket: string;
+  private readonly prefix: string;
+
+  constructor(options: S3MediaStorageOptions) {
+    this.bucket = options.bucket;
+    this.prefix = options.prefix ? `${options.prefix.replace(/^\/+|\/+$/g, '')}/` : '';
+    this.client = new S3Client({
+      region: options.region || 'us-east-1',
+      endpoint: options.endpoint || undefined,
+      forcePathStyle: options.forcePathStyle,
+      credentials:
+        options.accessKeyId && options.secretAccessKey
+          ? { accessKeyId: options.accessKeyId, secretAccessKey: options.secretAccessKey }
+          : undefined,
+    });
+  }
+
+  private objectKey(key: string): string {
+    return `${this.prefix}${normalizeStorageKey(key)}`;
+  }
+
+  async put(key: string, body: Buffer | Readable, options: PutOptions = {}): Promise<void> {
+    // Streams of unknown length cannot be sent in a single PUT
+    const data = Buffer.isBuffer(body) ? body : await streamToBuffer(body);
+    await this.client.send(
+      new PutObjectCommand({
+        Bucket: this.bucket,
+        Key: this.objectKey(key),
+        Body: data,
+        ContentLength: data.length,
+        ContentType: options.contentType || contentTypeForKey(key),
+      })
+    );
+  }
+
+  async get(key: string): Promise<StoredObject | null> {
+    try {
+      const result = await this.client.send(new GetObjectCommand({ Bucket: this.bucket, Key: this.objectKey(key) }));
+      return {
+        key: normalizeStorageKey(key),
+        size: result.ContentLength ?? 0,
+        contentType: result.ContentType,
+        lastModified: result.LastModified,
+        body: result.Body as Readable,
+      };
+    } catch (error) {
+      if (isNotFound(error)) return null;
+      throw error;
+    }
+  }
+
+  async delete(key: string): Promise<void> {
+    await this.client.send(new DeleteObjectCommand({ Bucket: this.bucket, Key: this.objectKey(key) }));
+  }
+
+  async stat(key: string): Promise<StoredObjectInfo | null> {
+    try {
+      const result = await this.client.send(new HeadObjectCommand({ Bucket: this.bucket, Key: this.objectKey(key) }));
+      return {
+        key: normalizeStorageKey(key),
+        size: result.ContentLength ?? 0,
+        contentType: result.ContentType,
+        lastModified: result.LastModified,
+      };
+    } catch (error) {
+      if (isNotFound(error)) return null;
+      throw error;
+    }
+  }
+
+  async signedUrl(key: string, expiresInSeconds = DEFAULT_URL_EXPIRY): Promise<string> {
+    return getSignedUrl(this.client, new GetObjectCommand({ Bucket: this.bucket, Key: this.objectKey(key) }), {
+      expiresIn: expiresInSeconds,
+    });
+  }
+
+  async *list(prefix = ''): AsyncIterable<string> {
+    let continuationToken: string | undefined;
+    do {
+      const result = await this.client.send(
+        new ListObjectsV2Command({
+          Bucket: this.bucket,
+          Prefix: `${this.prefix}${prefix}`,
+          ContinuationToken: continuationToken,
+        })
+      );
+      for (const object of result.Contents || []) {
+        if (object.Key) yield object.Key.slice(this.prefix.length);
+      }
+      continuationToken = result.IsTruncated ? result.NextContinuationToken : undefined;
+    } while (continuationToken);
+  }
+}
+
+function isNotFound(error: unknown): boolean {
+  const err = error as { name?: string; $metadata?: { httpStatusCode?: number } };
+  return err?.name === 'NoSuchKey' || err?.name === 'NotFound' || err?.$metadata?.httpStatusCode === 404;
+}
+
+export async function streamToBuffer(stream: Readable): Promise<Buffer> {
+  const chunks: Buffer[] = [];
+  for await (const chunk of stream) {
+    chunks.push(Buffer.isBuffer(chunk) ? chunk : Buffer.from(chunk));
+  }
+  return Buffer.concat(chunks);
+}
+
+/**
+ * Storage for a driver, configured from the environment:
+ * MEDIA_STORAGE_DRIVER (local or s3), UPLOAD_DIR for local files, and
+ * S3_BUCKET, S3_REGION, S3_ENDPOINT, S3_FORCE_PATH_STYLE, S3_ACCESS_KEY_ID,
+ * S3_SECRET_ACCESS_KEY and S3_PREFIX for a bucket
+ */
+export function createMediaStorage(
+  driver: string = process.env.MEDIA_STORAGE_DRIVER || 'local',
+  env: NodeJS.ProcessEnv = process.env
+): MediaStorage {
+  if (driver === 's3') {
+    if (!env.S3_BUCKET) {
+      throw new Error('S3_BUCKET is required for the s3 media storage driver');
+    }
+    return new S3MediaStorage({
+      bucket: env.S3_BUCKET,
+      region: env.S3_REGION || env.AWS_REGION,
+      endpoint: env.S3_ENDPOINT,
+      forcePathStyle: env.S3_FORCE_PATH_STYLE === 'true',
+      accessKeyId: env.S3_ACCESS_KEY_ID || env.AWS_ACCESS_KEY_ID,
+      secretAccessKey: env.S3_SECRET_ACCESS_KEY || env.AWS_SECRET_ACCESS_KEY,
+      prefix: env.S3_PREFIX,
+    });
+  }
+  if (driver === 'local') {
+    return new LocalMediaStorage(path.resolve(__dirname, '../..', env.UPLOAD_DIR || 'uploads'));
+  }
+  throw new Error(`Unknown media storage driver: ${driver}`);
+}
+
+export interface MigrationResult {
+  copied: string[];
+  skipped: string[];
+  failed: Array<{ key: string; error: string }>;
+}
+
+/**
+ * Copy every file from one storage to another. Files already in the target
+ * with the same size are skipped, so an interrupted run can be repeated.
+ */
+export async function migrateMediaStorage(
+  source: MediaStorage,
+  target: MediaStorage,
+  options: { deleteSource?: boolean; dryRun?: boolean; onProgress?: (key: string, action: 'copied' | 'skipped' | 'failed') => void } = {}
+): Promise<MigrationResult> {
+  const result: MigrationResult = { copied: [], skipped: [], failed: [] };
+
+  for await (const key of source.list()) {
+    try {
+      const object = await source.get(key);
+      if (!object) continue;
+
+      const existing = await target.stat(key);
+      if (existing && existing.size === object.size) {
+        object.body.destroy();
+        result.skipped.push(key);
+        options.onProgress?.(key, 'skipped');
+        continue;
+      }
+
+      if (options.dryRun) {
+        object.body.destroy();
+      } else {
+        await target.put(key, object.body, { contentType: object.contentType || contentTypeForKey(key) });
+        if (options.deleteSource) {
+          await source.delete(key);
+        }
+      }
+      result.copied.push(key);
+      options.onProgress?.(key, 'copied');
+    } catch (error) {
+      result.failed.push({ key, error: error instanceof Error ? error.message : String(error) });
+      options.onProgress?.(key, 'failed');
+    }
+  }
+
+  return result;
+}
+
+export const mediaStorage = createMediaStorage();
@@ -0,0 +1,388 @@
+import { pool } from '../utils/database';
+import { imageTransformUrl, parseImageTransform } from './ImageTransformService';
+import { invalidatePublicCaches } from '../utils/publicCache';
+import { ServiceErrorCode } from '../types/versioning';
+import type { ServiceResponse } from '../types/versioning';
+
+export type MediaReferenceSource = 'post' | 'page' | 'fragment' | 'organization';
+
+/**
+ * A post, page, fragment or organization that uses a media file, with the
+ * fields it is used in
+ */
+export interface MediaUsage {
+  source_type: MediaReferenceSource;
+  source_id: number;
+  title: string;
+  // Public URL of posts and pages
+  url: string | null;
+  published: boolean;
+  fields: string[];
+}
+
+interface ReferenceSource {
+  table: string;
+  // Column holding the organization, the id itself for organizations
+  organizationColumn: string;
+  fields: string[];
+}
+
+// Columns scanned for media URLs
+const REFERENCE_SOURCES: Record<MediaReferenceSource, ReferenceSource> = {
+  post: { table: 'posts', organizationColumn: 'organization_id', fields: ['content', 'featured_image'] },
+  page: { table: 'pages', organizationColumn: 'organization_id', fields: ['content', 'data'] },
+  fragment: { table: 'content_fragments', organizationColumn: 'organization_id', fields: ['content'] },
+  organization: { table: 'organizations', organizationColumn: 'id', fields: ['logo_url'] },
+};
+
+const UPLOAD_URL_PATTERN = /\/uploads\/([\w.-]+(?:\/[\w.-]+)*)/g;
+const TRANSFORM_URL_PATTERN = /\/api\/media\/(\d+)\/transform\b/g;
+
+/**
+ * Media URLs in a field value: the uploads paths and the media ids of
+ * transform URLs. Structured values such as page data are searched as JSON.
+ * Thumbnail paths are also given as the path of the image they belong to.
+ */
+export function extractMediaReferences(value: unknown): { paths: string[]; ids: number[] } {
+  if (value === null || value === undefined || value === '') {
+    return { paths: [], ids: [] };
+  }
+  const text = typeof value === 'string' ? value : JSON.stringify(value);
+
+  const paths = new Set<string>();
+  for (const [path] of text.matchAll(UPLOAD_URL_PATTERN)) {
+    paths.add(path);
+    paths.add(path.replace(/-thumb\.webp$/, '.webp'));
+  }
+  const ids = new Set<number>();
+  for (const [, id] of text.matchAll(TRANSFORM_URL_PATTERN)) {
+    ids.add(Number(id));
+  }
+
+  return { paths: Array.from(paths), ids: Array.from(ids) };
+}
+
+/**
+ * The parts of a media file its URLs are made of
+ */
+export interface MediaUrlTarget {
+  id: number;
+  filename: string;
+  file_path: string;
+  version?: number;
+}
+
+function escapeRegExp(text: string): string {
+  return text.replace(/[.*+?^${}()|[\]\\]/g, '\\$&');
+}
+
+// Paths of a media file: its URL, its original and, for images served as a
+// web-optimized copy, the thumbnail of that copy
+function mediaPaths(media: MediaUrlTarget): { url: string; original: string; thumbnail: string | null } {
+  return {
+    url: media.file_path,
+    original: `/uploads/${media.filename}`,
+    thumbnail: media.file_path.endsWith('.webp') ? media.file_path.replace(/\.webp$/, '-thumb.webp') : null,
+  };
+}
+
+/**
+ * Point the media URLs of one or more files in a text to another file.
+ * Transform URLs are signed for their media id, so they are signed again.
+ */
+export function rewriteMediaUrls(text: string, from: MediaUrlTarget[], to: MediaUrlTarget): string {
+  const target = mediaPaths(to);
+  let rewritten = text;
+
+  for (const media of from) {
+    const source = mediaPaths(media);
+    const replacements: Array<[string, string]> = [
+      [source.url, target.url],
+      [source.original, target.original],
+    ];
+    if (source.thumbnail) {
+      replacements.push([source.thumbnail, target.thumbnail ?? target.url]);
+    }
+    for (const [path, replacement] of replacements) {
+      // Not when the path is only the start of a longer one
+      rewritten = rewritten.replace(new RegExp(`${escapeRegExp(path)}(?![\\w./-])`, 'g'), replacement);
+    }
+
+    rewritten = rewritten.replace(
+      new RegExp(`/api/media/${media.id}/transform\\?([^"'\\s<>)]*)`, 'g'),
+      (url, queryString: string) => {
+        const params = Object.fromEntries(new URLSearchParams(queryString.replace(/&amp;/g, '&')));
+        const transform = parseImageTransform(params);
+        return transform.success ? imageTransformUrl(to.id, transform.data!, to.version) : url;
+      }
+    );
+  }
+
+  return rewritten;
+}
+
+export class MediaUsageService {
+  /**
+   * Record which media files a post, page, fragment or organization uses,
+   * replacing what was recorded for it before. A source that no longer
+   * exists keeps no references, so this is also called after deleting one.
+   * Resolves to how many media files the source uses.
+   */
+  async syncReferences(sourceType: MediaReferenceSource, sourceId: number): Promise<ServiceResponse<number>> {
+    const source = REFERENCE_SOURCES[sourceType];
+    const client = await pool.connect();
+    try {
+      await client.query('BEGIN');
+      const { rows } = await client.query(
+        `SELECT ${source.organizationColumn} as organization_id, ${source.fields.join(', ')}
+         FROM ${source.table} WHERE id = $1`,
+        [sourceId]
+      );
+      const row = rows[0];
+
+      const references: Array<{ mediaId: number; field: string }> = [];
+      if (row) {
+        const fieldReferences = source.fields.map((field) => ({ field, ...extractMediaReferences(row[field]) }));
+        const paths = fieldReferences.flatMap((reference) => reference.paths);
+        const ids = fieldReferences.flatMap((reference) => reference.ids);
+
+        if (paths.length > 0 || ids.length > 0) {
+          const media = await client.query(
+            `SELECT id, filename, file_path FROM media_files
+             WHERE organization_id = $1 AND (file_path = ANY($2) OR filename = ANY($3) OR id = ANY($4))`,
+            [row.organization_id, paths, paths.map((path) => path.slice('/uploads/'.length)), ids]
+          );
+          for (const { field, paths: fieldPaths, ids: fieldIds } of fieldReferences) {
+            for (const mediaFile of media.rows) {
+              if (
+                fieldPaths.includes(mediaFile.file_path) ||
+                fieldPaths.includes(`/uploads/${mediaFile.filename}`) ||
+                fieldIds.includes(mediaFile.id)
+              ) {
+                references.push({ mediaId: mediaFile.id, field });
+              }
+            }
+          }
+        }
+      }
+
+      await client.query('DELETE FROM media_references WHERE source_type = $1 AND source_id = $2', [sourceType, sourceId]);
+      if (references.length > 0) {
+        await client.query(
+          `INSERT INTO media_references (media_id, source_type, source_id, field, organization_id)
+           SELECT reference.media_id, $3, $4, reference.field, $5
+           FROM UNNEST($1::int[], $2::text[]) AS reference(media_id, field)`,
+          [
+            references.map((reference) => reference.mediaId),
+            references.map((reference) => reference.field),
+            sourceType,
+            sourceId,
+            row.organization_id,
+          ]
+        );
+      }
+      await client.query('COMMIT');
+
+      return { success: true, data: new Set(references.map((reference) => reference.mediaId)).size };
+    } catch (error: any) {
+      await client.query('ROLLBACK');
+      console.error('Error syncing media references:', error);
+      return {
+        success: false,
+        error: error.message || 'Failed to sync media references',
+        errorCode: ServiceErrorCode.INTERNAL_ERROR,
+      };
+    } finally {
+      client.release();
+    }
+  }
+
+  /**
+   * Posts, pages, fragments and organizations of an organization that use a media file
+   */
+  async listUsages(organizationId: number, mediaId: number): Promise<ServiceResponse<MediaUsage[]>> {
+    try {
+      const { rows } = await pool.query(
+        `SELECT r.source_type, r.source_id,
+           ARRAY_AGG(r.field ORDER BY r.field) as fields,
+           COALESCE(p.title, pg.title, f.name, o.name) as title,
+           CASE
+             WHEN r.source_type = 'post' THEN '/blog/' || p.slug
+             WHEN r.source_type = 'page' THEN '/page/' || pg.path
+           END as url,
+           CASE
+             WHEN r.source_type = 'post' THEN p.status = 'published'
+             WHEN r.source_type = 'page' THEN pg.published
+             ELSE true
+           END as published
+         FROM media_references r
+         LEFT JOIN posts p ON r.source_type = 'post' AND p.id = r.source_id
+         LEFT JOIN pages pg ON r.source_type = 'page' AND pg.id = r.source_id
+         LEFT JOIN content_fragments f ON r.source_type = 'fragment' AND f.id = r.source_id
+         LEFT JOIN organizations o ON r.source_type = 'organization' AND o.id = r.source_id
+         WHERE r.media_id = $1 AND r.organization_id = $2
+           AND COALESCE(p.id, pg.id, f.id, o.id) IS NOT NULL
+         GROUP BY r.source_type, r.source_id, p.title, p.status, p.slug, pg.title, pg.published, pg.path, f.name, o.name
+         ORDER BY r.source_type, title`,
+        [mediaId, organizationId]
+      );
+      return { success: true, data: rows };
+    } catch (error: any) {
+      console.error('Error listing media usages:', error);
+      return {
+        success: false,
+        error: error.message || 'Failed to list media usages',
+        errorCode: ServiceErrorCode.INTERNAL_ERROR,
+      };
+    }
+  }
+
+  /**
+   * How many posts, pages, fragments and organizations use each of the
+   * given media files. Files nothing uses are left out.
+   */
+  async countUsages(organizationId: number, mediaIds: number[]): Promise<ServiceResponse<Map<number, number>>> {
+    try {
+      const { rows } = await pool.query(
+        `SELECT r.media_id, COUNT(DISTINCT (r.source_type, r.source_id))::int as usage_count
+         FROM media_references r
+         LEFT JOIN posts p ON r.source_type = 'post' AND p.id = r.source_id
+         LEFT JOIN pages pg ON r.source_type = 'page' AND pg.id = r.source_id
+         LEFT JOIN content_fragments f ON r.source_type = 'fragment' AND f.id = r.source_id
+         LEFT JOIN organizations o ON r.source_type = 'organization' AND o.id = r.source_id
+         WHERE r.media_id = ANY($1) AND r.organization_id = $2
+           AND COALESCE(p.id, pg.id, f.id, o.id) IS NOT NULL
+         GROUP BY r.media_id`,
+        [mediaIds, organizationId]
+      );
+      return {
+        success: true,
+        data: new Map(rows.map((row: { media_id: number; usage_count: number }) => [row.media_id, row.usage_count])),
+      };
+    } catch (error: any) {
+      console.error('Error counting media usages:', error);
+      return {
+        success: false,
+        error: error.message || 'Failed to count media usages',
+        errorCode: ServiceErrorCode.INTERNAL_ERROR,
+      };
+    }
+  }
+
+  /**
+   * Make every post, page, fragment and organization using the given media
+   * files use another one instead, e.g. before deleting duplicates of it.
+   * Resolves to how many of them were changed.
+   */
+  async replaceMedia(organizationId: number, fromIds: number[], toId: number): Promise<ServiceResponse<number>> {
+    const client = await pool.connect();
+    const changed: Array<{ sourceType: MediaReferenceSource; sourceId: number }> = [];
+    try {
+      await client.query('BEGIN');
+      const media = await client.query(
+        'SELECT id, filename, file_path, version FROM media_files WHERE id = ANY($1) AND organization_id = $2',
+        [[toId, ...fromIds], organizationId]
+      );
+      const to = media.rows.find((row: MediaUrlTarget) => row.id === toId);
+      const from = media.rows.filter((row: MediaUrlTarget) => fromIds.includes(row.id));
+      if (!to || from.length !== fromIds.length) {
+        await client.query('ROLLBACK');
+        return { success: false, error: 'Media file not found', errorCode: ServiceErrorCode.NOT_FOUND };
+      }
+
+      const sources = await client.query(
+        `SELECT DISTINCT source_type, source_id FROM media_references
+         WHERE media_id = ANY($1) AND organization_id = $2
+         ORDER BY source_type, source_id`,
+        [fromIds, organizationId]
+      );
+      for (const { source_type: sourceType, source_id: sourceId } of sources.rows as Array<{ source_type: MediaReferenceSource; source_id: number }>) {
+        const source = REFERENCE_SOURCES[sourceType];
+        const { rows } = await client.query(
+          `SELECT ${source.fields.join(', ')} FROM ${source.table}
+           WHERE id = $1 AND ${source.organizationColumn} = $2 FOR UPDATE`,
+          [sourceId, organizationId]
+        );
+        if (!rows[0]) {
+          continue;
+        }
+
+        const updates: Array<[string, string]> = [];
+        for (const field of source.fields) {
+          const value = rows[0][field];
+          if (value === null || value === undefined) {
+            continue;
+          }
+          // Structured values are rewritten as JSON and stored as such
+          const text = typeof value === 'string' ? value : JSON.stringify(value);
+          const rewritten = rewriteMediaUrls(text, from, to);
+          if (rewritten !== text) {
+            updates.push([field, rewritten]);
+          }
+        }
+        if (updates.length > 0) {
+          await client.query(
+            `UPDATE ${source.table} SET ${updates.map(([field], index) => `${field} = $${index + 1}`).join(', ')}
+             WHERE id = $${updates.length + 1}`,
+            [...updates.map(([, value]) => value), sourceId]
+          );
+          changed.push({ sourceType, sourceId });
+        }
+      }
+      await client.query('COMMIT');
+    } catch (error: any) {
+      await client.query('ROLLBACK');
+      console.error('Error replacing media:', error);
+      return {
+        success: false,
+        error: error.message || 'Failed to replace media',
+        errorCode: ServiceErrorCode.INTERNAL_ERROR,
+      };
+    } finally {
+      client.release();
+    }
+
+    for (const { sourceType, sourceId } of changed) {
+      const result = await this.syncReferences(sourceType, sourceId);
+      if (!result.success) {
+        console.error('Failed to sync media references:', result.error);
+      }
+    }
+    if (changed.length > 0) {
+      invalidatePublicCaches();
+    }
+    return { success: true, data: changed.length };
+  }
+
+  /**
+   * Rebuild the references of every post, page, fragment and organization,
+   * e.g. for content saved before references were recorded. Resolves to how
+   * many sources were indexed.
+   */
+  async reindexAll(onProgress?: (sourceType: MediaReferenceSource, sourceId: number) => void): Promise<ServiceResponse<number>> {
+    try {
+      let indexed = 0;
+      for (const sourceType of Object.keys(REFERENCE_SOURCES) as MediaReferenceSource[]) {
+        const { rows } = await pool.query(`SELECT id FROM ${REFERENCE_SOURCES[sourceType].table} ORDER BY id`);
+        for (const { id } of rows) {
+          const result = await this.syncReferences(sourceType, id);
+          if (!result.success) {
+            return { success: false, error: result.error, errorCode: result.errorCode };
+          }
+          onProgress?.(sourceType, id);
+          indexed++;
+        }
+      }
+      return { success: true, data: indexed };
+    } catch (error: any) {
+      console.error('Error reindexing media references:', error);
+      return {
+        success: false,
+        error: error.message || 'Failed to reindex media references',
+        errorCode: ServiceErrorCode.INTERNAL_ERROR,
+      };
+    }
+  }
+}
+
+export const mediaUsageService = new MediaUsageService();
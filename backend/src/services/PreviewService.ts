@@ -91,6 +91,12 @@ interface TokenCache {
   cachedAt: Date;
 }
 
+/**
+ * Preview token events from every PreviewService instance, for process-wide
+ * listeners such as the collaboration server
+ */
+export const previewEvents = new EventEmitter();
+
 export class PreviewService extends EventEmitter {
   private pool: Pool;
   private versionService: VersionService;
@@ -235,7 +241,7 @@ export class PreviewService extends EventEmitter {
       const shortUrl = await this.generateShortUrl(previewToken.id, request.siteId, userId, client);
 
       // 8. Emit event for tracking
-      this.emit('token:generated', {
+      this.emitTokenEvent('token:generated', {
         tokenId: previewToken.id,
         siteId: request.siteId,
         versionId: request.versionId,
@@ -284,7 +290,9 @@ export class PreviewService extends EventEmitter {
       const cacheKey = this.getCacheKey(token);
       const cached = this.tokenCache.get(cacheKey);
 
-      if (cached && this.isCacheValid(cached)) {
+      // Restricted tokens always take the full path so password, IP, email
+      // and usage checks are enforced on every request
+      if (cached && this.isCacheValid(cached) && !this.hasAccessRestrictions(cached.token)) {
         return {
           success: true,
           data: {
@@ -470,7 +478,7 @@ export class PreviewService extends EventEmitter {
       // Audit log
       await this.auditTokenOperation('revoke', tokenId, userId);
 
-      this.emit('token:revoked', {
+      this.emitTokenEvent('token:revoked', {
         tokenId,
         userId,
         reason
@@ -494,6 +502,7 @@ export class PreviewService extends EventEmitter {
     filters: {
       tokenId?: number;
       siteId?: number;
+      organizationId?: number;
       startDate?: Date;
       endDate?: Date;
     },
@@ -525,6 +534,11 @@ export class PreviewService extends EventEmitter {
         params.push(filters.siteId);
       }
 
+      if (filters.organizationId) {
+        query += ` AND cv.site_id IN (SELECT id FROM sites WHERE organization_id = $${paramIndex++})`;
+        params.push(filters.organizationId);
+      }
+
       if (filters.startDate) {
         query += ` AND pa.accessed_at >= $${paramIndex++}`;
         params.push(filters.startDate);
@@ -635,6 +649,18 @@ export class PreviewService extends EventEmitter {
     }
   }
 
+  private emitTokenEvent(event: 'token:generated' | 'token:revoked', payload: Record<string, any>): void {
+    this.emit(event, payload);
+    previewEvents.emit(event, payload);
+  }
+
+  private hasAccessRestrictions(token: PreviewToken): boolean {
+    return token.password_protected ||
+      !!token.max_uses ||
+      !!(token.allowed_ips && token.allowed_ips.length > 0) ||
+      !!(token.allowed_emails && token.allowed_emails.length > 0);
+  }
+
   private getCacheKey(token: string): string {
     return crypto.createHash('sha256').update(token).digest('hex');
   }
@@ -0,0 +1,493 @@
+import { pool } from '../utils/database';
+import type { ServiceResponse } from '../types/versioning';
+import { ContentType, ServiceErrorCode } from '../types/versioning';
+import { LOCALE_PATTERN } from '../utils/locale';
+
+export type RedirectStatusCode = 301 | 302;
+
+/**
+ * Manual rules are managed by editors; slug_change rules are written when a
+ * live post or page gets a new slug
+ */
+export type RedirectOrigin = 'manual' | 'slug_change';
+
+/**
+ * Most redirects a request may follow before we call it a loop
+ */
+export const MAX_REDIRECT_HOPS = 10;
+
+export interface Redirect {
+  id: number;
+  organization_id: number;
+  // NULL applies the rule on every domain of the organization's sites
+  domain_id: number | null;
+  domain_hostname: string | null;
+  source_path: string;
+  target_path: string;
+  status_code: RedirectStatusCode;
+  origin: RedirectOrigin;
+  content_type: ContentType | null;
+  content_id: number | null;
+  hit_count: number;
+  last_hit_at: Date | null;
+  created_at: Date;
+  updated_at: Date;
+}
+
+export interface RedirectInput {
+  source_path: string;
+  target_path: string;
+  status_code?: RedirectStatusCode;
+  domain_id?: number | null;
+}
+
+/**
+ * Where a request for a missing path should go instead
+ */
+export interface ResolvedRedirect {
+  target: string;
+  status_code: RedirectStatusCode;
+}
+
+/**
+ * Public path of a post or page that moved from one slug to another
+ */
+export interface SlugChange {
+  content_type: ContentType;
+  content_id: number;
+  domain_id: number | null;
+  from_path: string;
+  to_path: string;
+}
+
+interface RedirectRule {
+  source_path: string;
+  target_path: string;
+}
+
+const WILDCARD_SUFFIX = '/*';
+
+/**
+ * Paths are stored without query string, fragment or trailing slash so
+ * `/blog/post/` and `/blog/post?ref=x` find the rule for `/blog/post`
+ */
+export function normalizeRedirectPath(path: string): string {
+  let normalized = path.trim().split(/[?#]/)[0];
+  if (!normalized.startsWith('/')) {
+    normalized = `/${normalized}`;
+  }
+  normalized = normalized.replace(/\/{2,}/g, '/');
+  return normalized.length > 1 ? normalized.replace(/\/$/, '') : normalized;
+}
+
+export function isAbsoluteUrl(target: string): boolean {
+  return /^https?:\/\//i.test(target);
+}
+
+function normalizeTarget(target: string): string {
+  const trimmed = target.trim();
+  return isAbsoluteUrl(trimmed) ? trimmed : normalizeRedirectPath(trimmed);
+}
+
+/**
+ * Target for a path when the rule applies to it, otherwise null. Wildcard
+ * sources (`/old/*`) match everything below the prefix and hand the rest of
+ * the path to a `*` in the target.
+ */
+function applyRule(rule: RedirectRule, path: string): string | null {
+  if (rule.source_path === path) {
+    return rule.target_path;
+  }
+  if (!rule.source_path.endsWith(WILDCARD_SUFFIX)) {
+    return null;
+  }
+  const prefix = rule.source_path.slice(0, -1);
+  if (!path.startsWith(prefix) || path.length === prefix.length) {
+    return null;
+  }
+  return rule.target_path.replace('*', path.slice(prefix.length));
+}
+
+/**
+ * Exact rules first, then the most specific wildcard
+ */
+function findRule<T extends RedirectRule>(rules: T[], path: string): T | undefined {
+  return rules
+    .filter((rule) => applyRule(rule, path) !== null)
+    .sort((a, b) => {
+      if ((a.source_path === path) !== (b.source_path === path)) {
+        return a.source_path === path ? -1 : 1;
+      }
+      return b.source_path.length - a.source_path.length;
+    })[0];
+}
+
+const REDIRECT_COLUMNS = `
+  r.id, r.organization_id, r.domain_id, d.hostname as domain_hostname,
+  r.source_path, r.target_path, r.status_code, r.origin, r.content_type, r.content_id,
+  r.hit_count, r.last_hit_at, r.created_at, r.updated_at`;
+
+/**
+ * Redirects from old public paths
+ *
+ * Slug changes of live posts and pages are recorded automatically so inbound
+ * links survive a rename; editors add their own rules on top. Redirects only
+ * apply where nothing else is published: the public pages consult them on 404.
+ */
+export class RedirectService {
+  /**
+   * All redirects of an organization, most recently changed first
+   */
+  async listRedirects(organizationId: number): Promise<ServiceResponse<Redirect[]>> {
+    try {
+      const { rows } = await pool.query(
+        `SELECT ${REDIRECT_COLUMNS}
+         FROM redirects r
+         LEFT JOIN domains d ON d.id = r.domain_id
+         WHERE r.organization_id = $1
+         ORDER BY r.updated_at DESC, r.id DESC`,
+        [organizationId]
+      );
+
+      return { success: true, data: rows.map((row) => this.toRedirect(row)) };
+    } catch (error) {
+      console.error('Error listing redirects:', error);
+      return { success: false, error: 'Failed to list redirects', errorCode: ServiceErrorCode.DATABASE_ERROR };
+    }
+  }
+
+  async createRedirect(
+    organizationId: number,
+    userId: number | undefined,
+    input: RedirectInput
+  ): Promise<ServiceResponse<Redirect>> {
+    try {
+      const rule = this.toRule(input);
+      const domainId = input.domain_id ?? null;
+
+      const invalid = await this.checkRule(organizationId, rule, domainId);
+      if (invalid) {
+        return invalid;
+      }
+
+      const { rows } = await pool.query(
+        `INSERT INTO redirects (organization_id, domain_id, source_path, target_path, status_code, created_by)
+         VALUES ($1, $2, $3, $4, $5, $6)
+         RETURNING id`,
+        [organizationId, domainId, rule.source_path, rule.target_path, input.status_code ?? 301, userId ?? null]
+      );
+
+      return this.getRedirect(organizationId, rows[0].id);
+    } catch (error: any) {
+      if (error?.code === '23505') {
+        return { success: false, error: 'A redirect for this path already exists', errorCode: ServiceErrorCode.CONFLICT };
+      }
+      console.error('Error creating redirect:', error);
+      return { success: false, error: 'Failed to create redirect', errorCode: ServiceErrorCode.DATABASE_ERROR };
+    }
+  }
+
+  /**
+   * Replace a redirect's rule. Editing a recorded slug change turns it into a
+   * manual rule so later renames of the content leave it alone.
+   */
+  async updateRedirect(
+    organizationId: number,
+    id: number,
+    input: RedirectInput
+  ): Promise<ServiceResponse<Redirect>> {
+    try {
+      const existing = await this.getRedirect(organizationId, id);
+      if (!existing.success) {
+        return existing;
+      }
+
+      const rule = this.toRule(input);
+      const domainId = input.domain_id === undefined ? existing.data!.domain_id : input.domain_id;
+
+      const invalid = await this.checkRule(organizationId, rule, domainId, id);
+      if (invalid) {
+        return invalid;
+      }
+
+      await pool.query(
+        `UPDATE redirects SET
+           domain_id = $1,
+           source_path = $2,
+           target_path = $3,
+           status_code = COALESCE($4, status_code),
+           origin = 'manual',
+           content_type = NULL,
+           content_id = NULL,
+           updated_at = CURRENT_TIMESTAMP
+         WHERE id = $5 AND organization_id = $6`,
+        [domainId, rule.source_path, rule.target_path, input.status_code ?? null, id, organizationId]
+      );
+
+      return this.getRedirect(organizationId, id);
+    } catch (error: any) {
+      if (error?.code === '23505') {
+        return { success: false, error: 'A redirect for this path already exists', errorCode: ServiceErrorCode.CONFLICT };
+      }
+      console.error('Error updating redirect:', error);
+      return { success: false, error: 'Failed to update redirect', errorCode: ServiceErrorCode.DATABASE_ERROR };
+    }
+  }
+
+  async deleteRedirect(organizationId: number, id: number): Promise<ServiceResponse<boolean>> {
+    try {
+      const { rowCount } = await pool.query(
+        'DELETE FROM redirects WHERE id = $1 AND organization_id = $2',
+        [id, organizationId]
+      );
+
+      if (!rowCount) {
+        return { success: false, error: 'Redirect not found', errorCode: ServiceErrorCode.NOT_FOUND };
+      }
+      return { success: true, data: true };
+    } catch (error) {
+      console.error('Error deleting redirect:', error);
+      return { success: false, error: 'Failed to delete redirect', errorCode: ServiceErrorCode.DATABASE_ERROR };
+    }
+  }
+
+  /**
+   * Point the old path of renamed content at the new one. Redirects that led
+   * to the old path are moved along so chains stay one hop long, and any rule
+   * away from the new path goes since the content now lives there.
+   */
+  async recordSlugChange(organizationId: number, change: SlugChange): Promise<ServiceResponse<boolean>> {
+    const fromPath = normalizeRedirectPath(change.from_path);
+    const toPath = normalizeRedirectPath(change.to_path);
+    if (fromPath === toPath) {
+      return { success: true, data: false };
+    }
+
+    const client = await pool.connect();
+    try {
+      await client.query('BEGIN');
+
+      await client.query(
+        `DELETE FROM redirects
+         WHERE COALESCE(domain_id, 0) = COALESCE($1::integer, 0) AND source_path = $2 AND organization_id = $3`,
+        [change.domain_id, toPath, organizationId]
+      );
+
+      await client.query(
+        `UPDATE redirects SET target_path = $3, updated_at = CURRENT_TIMESTAMP
+         WHERE COALESCE(domain_id, 0) = COALESCE($1::integer, 0) AND target_path = $2 AND organization_id = $4`,
+        [change.domain_id, fromPath, toPath, organizationId]
+      );
+
+      await client.query(
+        `INSERT INTO redirects (organization_id, domain_id, source_path, target_path, status_code, origin, content_type, content_id)
+         VALUES ($1, $2, $3, $4, 301, 'slug_change', $5, $6)
+         ON CONFLICT (organization_id, (COALESCE(domain_id, 0)), source_path) DO UPDATE SET
+           target_path = EXCLUDED.target_path,
+           status_code = 301,
+           origin = 'slug_change',
+           content_type = EXCLUDED.content_type,
+           content_id = EXCLUDED.content_id,
+           updated_at = CURRENT_TIMESTAMP`,
+        [organizationId, change.domain_id, fromPath, toPath, change.content_type, change.content_id]
+      );
+
+      await client.query('COMMIT');
+      return { success: true, data: true };
+    } catch (error) {
+      await client.query('ROLLBACK');
+      console.error('Error recording slug change:', error);
+      return { success: false, error: 'Failed to record slug change', errorCode: ServiceErrorCode.DATABASE_ERROR };
+    } finally {
+      client.release();
+    }
+  }
+
+  /**
+   * Redirect for a public path on a domain, counting the hit. Only rules of
+   * the organizations whose sites use the domain apply; their rules without a
+   * domain apply on all of their domains. Requests without a known domain,
+   * as in single-site setups, get the rules without a domain of the default
+   * site's organization. Localized paths
+   * (`/de/blog/old`) also match rules for the unprefixed path and keep their
+   * locale prefix on the way out.
+   */
+  async resolve(path: string, domainId: number | null): Promise<ServiceResponse<ResolvedRedirect | null>> {
+    try {
+      const normalized = normalizeRedirectPath(path);
+
+      let match = await this.findMatch(normalized, domainId);
+      let localePrefix = '';
+      if (!match) {
+        const [, first, ...rest] = normalized.split('/');
+        if (LOCALE_PATTERN.test(first) && rest.length > 0) {
+          localePrefix = `/${first}`;
+          match = await this.findMatch(`/${rest.join('/')}`, domainId);
+        }
+      }
+      if (!match) {
+        return { success: true, data: null };
+      }
+
+      await pool.query(
+        'UPDATE redirects SET hit_count = hit_count + 1, last_hit_at = CURRENT_TIMESTAMP WHERE id = $1',
+        [match.id]
+      );
+
+      const target = isAbsoluteUrl(match.target) ? match.target : localePrefix + match.target;
+      return { success: true, data: { target, status_code: match.status_code } };
+    } catch (error) {
+      console.error('Error resolving redirect:', error);
+      return { success: false, error: 'Failed to resolve redirect', errorCode: ServiceErrorCode.DATABASE_ERROR };
+    }
+  }
+
+  private async getRedirect(organizationId: number, id: number): Promise<ServiceResponse<Redirect>> {
+    const { rows } = await pool.query(
+      `SELECT ${REDIRECT_COLUMNS}
+       FROM redirects r
+       LEFT JOIN domains d ON d.id = r.domain_id
+       WHERE r.id = $1 AND r.organization_id = $2`,
+      [id, organizationId]
+    );
+
+    if (rows.length === 0) {
+      return { success: false, error: 'Redirect not found', errorCode: ServiceErrorCode.NOT_FOUND };
+    }
+    return { success: true, data: this.toRedirect(rows[0]) };
+  }
+
+  private async findMatch(
+    path: string,
+    domainId: number | null
+  ): Promise<{ id: number; target: string; status_code: RedirectStatusCode } | null> {
+    const organizations = domainId === null
+      ? 'SELECT organization_id FROM sites WHERE is_default = true ORDER BY id LIMIT 1'
+      : 'SELECT organization_id FROM sites WHERE domain_id = $2';
+
+    // A wildcard source /old/* matches paths starting with /old/
+    const { rows } = await pool.query(
+      `SELECT id, source_path, target_path, status_code
+       FROM redirects
+       WHERE (domain_id = $2 OR domain_id IS NULL)
+         AND organization_id IN (${organizations})
+         AND (source_path = $1
+           OR (RIGHT(source_path, 2) = '/*'
+             AND LENGTH($1) >= LENGTH(source_path)
+             AND LEFT($1, LENGTH(source_path) - 1) = LEFT(source_path, LENGTH(source_path) - 1)))
+       ORDER BY source_path = $1 DESC, domain_id IS NULL, LENGTH(source_path) DESC
+       LIMIT 1`,
+      [path, domainId]
+    );
+
+    if (rows.length === 0) {
+      return null;
+    }
+    return { id: rows[0].id, target: applyRule(rows[0], path)!, status_code: rows[0].status_code };
+  }
+
+  private toRule(input: RedirectInput): RedirectRule {
+    return {
+      source_path: normalizeRedirectPath(input.source_path),
+      target_path: normalizeTarget(input.target_path),
+    };
+  }
+
+  /**
+   * Reject rules that cannot work: a target wildcard without a wildcard
+   * source, or a rule that would send visitors around in a circle together
+   * with the redirects already in place for the domain, or a domain of
+   * another organization.
+   */
+  private async checkRule(
+    organizationId: number,
+    rule: RedirectRule,
+    domainId: number | null,
+    excludeId?: number
+  ): Promise<ServiceResponse<never> | null> {
+    if (rule.target_path.includes('*') && !rule.source_path.endsWith(WILDCARD_SUFFIX)) {
+      return {
+        success: false,
+        error: 'A wildcard target needs a wildcard source ending in /*',
+        errorCode: ServiceErrorCode.VALIDATION_ERROR,
+      };
+    }
+
+    if (domainId !== null) {
+      const domain = await pool.query(
+        'SELECT 1 FROM sites WHERE domain_id = $1 AND organization_id = $2 LIMIT 1',
+        [domainId, organizationId]
+      );
+      if (domain.rows.length === 0) {
+        return { success: false, error: 'Domain not found', errorCode: ServiceErrorCode.VALIDATION_ERROR };
+      }
+    }
+
+    const { rows } = await pool.query(
+      `SELECT source_path, target_path FROM redirects
+       WHERE (domain_id = $1 OR domain_id IS NULL) AND id <> $2 AND organization_id = $3`,
+      [domainId, excludeId ?? 0, organizationId]
+    );
+    const loop = this.findLoop(rule, rows);
+    if (loop) {
+      return {
+        success: false,
+        error: `Redirect would create a loop: ${loop.join(' → ')}`,
+        errorCode: ServiceErrorCode.VALIDATION_ERROR,
+      };
+    }
+
+    return null;
+  }
+
+  /**
+   * Follow the redirects from the new rule's target. Returns the visited paths
+   * when they come back around or never settle.
+   */
+  private findLoop(rule: RedirectRule, existing: RedirectRule[]): string[] | null {
+    const rules = [...existing, rule];
+    const start = rule.source_path.endsWith(WILDCARD_SUFFIX)
+      ? rule.source_path.replace('*', 'x')
+      : rule.source_path;
+    const visited = [start];
+
+    let current = start;
+    for (let hop = 0; hop < MAX_REDIRECT_HOPS; hop++) {
+      const next = findRule(rules, current);
+      if (!next) {
+        return null;
+      }
+      current = applyRule(next, current)!;
+      if (isAbsoluteUrl(current)) {
+        return null;
+      }
+      visited.push(current);
+      if (visited.indexOf(current) !== visited.length - 1) {
+        return visited;
+      }
+    }
+    return visited;
+  }
+
+  private toRedirect(row: any): Redirect {
+    return {
+      id: row.id,
+      organization_id: row.organization_id,
+      domain_id: row.domain_id,
+      domain_hostname: row.domain_hostname ?? null,
+      source_path: row.source_path,
+      target_path: row.target_path,
+      status_code: row.status_code,
+      origin: row.origin,
+      content_type: row.content_type,
+      content_id: row.content_id,
+      hit_count: row.hit_count,
+      last_hit_at: row.last_hit_at,
+      created_at: row.created_at,
+      updated_at: row.updated_at,
+    };
+  }
+}
+
+// Export singleton instance
+export const redirectService = new RedirectService();
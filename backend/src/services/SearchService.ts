@@ -0,0 +1,162 @@
+import { pool } from '../utils/database';
+import type { ServiceResponse } from '../types/versioning';
+import { ServiceErrorCode } from '../types/versioning';
+import { siteDefaultLocaleSql } from '../utils/locale';
+import { searchQuerySql, searchRankSql, searchHeadlineSql } from '../utils/search';
+
+export type SearchResultType = 'post' | 'page' | 'category';
+
+export const SEARCH_RESULT_TYPES: SearchResultType[] = ['post', 'page', 'category'];
+
+/**
+ * One ranked match, with the matched terms wrapped in <mark>
+ */
+export interface SearchResult {
+  type: SearchResultType;
+  id: number;
+  title: string;
+  // For categories and pages the full path, e.g. tech/javascript
+  slug: string;
+  locale: string | null;
+  rank: number;
+  title_highlight: string;
+  snippet: string;
+}
+
+export interface SearchInput {
+  q: string;
+  types?: SearchResultType[];
+  // Language to search in; the site default when omitted
+  locale?: string;
+  domainId?: number;
+  page?: number;
+  limit?: number;
+}
+
+export interface SearchResults {
+  query: string;
+  results: SearchResult[];
+  pagination: {
+    page: number;
+    limit: number;
+    totalCount: number;
+    totalPages: number;
+  };
+}
+
+/**
+ * Public search across published posts, published pages and categories
+ *
+ * Posts and pages are matched against their trigger-maintained search_vector
+ * using the text search configuration of their locale. Categories have no
+ * locale and are matched with the simple configuration.
+ */
+export class SearchService {
+  async search(input: SearchInput): Promise<ServiceResponse<SearchResults>> {
+    try {
+      const types = input.types?.length ? input.types : SEARCH_RESULT_TYPES;
+      const page = input.page || 1;
+      const limit = input.limit || 10;
+      const params: any[] = [input.q];
+      const param = (value: unknown) => {
+        params.push(value);
+        return `$${params.length}`;
+      };
+
+      const domainFilter = (alias: string) =>
+        input.domainId ? ` AND (${alias}.domain_id = ${param(input.domainId)} OR ${alias}.domain_id IS NULL)` : '';
+
+      // Content is searched in one language, like the public lists
+      const localeFilter = (alias: string) =>
+        input.locale
+          ? ` AND ${alias}.locale = ${param(input.locale)}`
+          : ` AND ${alias}.locale = ${siteDefaultLocaleSql(`${alias}.site_id`)}`;
+      const contentQuery = (alias: string) =>
+        searchQuerySql('$1', input.locale ? param(input.locale) : `${alias}.locale`);
+
+      const selects: string[] = [];
+
+      if (types.includes('post')) {
+        const tsQuery = contentQuery('p');
+        selects.push(`
+          SELECT 'post' as type, p.id, p.title, p.slug, p.locale::text as locale,
+                 COALESCE(p.excerpt, '') || ' ' || COALESCE(p.content, '') as body,
+                 ${searchRankSql('p.search_vector', tsQuery)} as rank, p.created_at
+          FROM posts p
+          WHERE p.status = 'published' AND p.search_vector @@ ${tsQuery}${domainFilter('p')}${localeFilter('p')}`);
+      }
+
+      if (types.includes('page')) {
+        const tsQuery = contentQuery('pg');
+        selects.push(`
+          SELECT 'page' as type, pg.id, pg.title, pg.path as slug, pg.locale::text as locale,
+                 COALESCE(pg.content, '') as body,
+                 ${searchRankSql('pg.search_vector', tsQuery)} as rank, pg.created_at
+          FROM pages pg
+          WHERE pg.published = true AND pg.search_vector @@ ${tsQuery}${domainFilter('pg')}${localeFilter('pg')}`);
+      }
+
+      if (types.includes('category')) {
+        const tsQuery = searchQuerySql('$1', 'NULL');
+        const vector = `to_tsvector(search_config_for_locale(NULL), c.name || ' ' || COALESCE(c.description, ''))`;
+        selects.push(`
+          SELECT 'category' as type, c.id, c.name as title, c.path as slug, NULL as locale,
+                 COALESCE(c.description, '') as body,
+                 ${searchRankSql(vector, tsQuery)} as rank, c.created_at
+          FROM categories c
+          WHERE ${vector} @@ ${tsQuery}${domainFilter('c')}`);
+      }
+
+      const limitParam = param(limit);
+      const offsetParam = param((page - 1) * limit);
+      const resultQuery = searchQuerySql('$1', 'r.locale');
+
+      // Snippets are only built for the page of results being returned
+      const { rows } = await pool.query(
+        `WITH ranked AS (
+           SELECT matches.*, COUNT(*) OVER () as total_count
+           FROM (${selects.join('\n          UNION ALL')}
+           ) matches
+           ORDER BY rank DESC, created_at DESC
+           LIMIT ${limitParam} OFFSET ${offsetParam}
+         )
+         SELECT r.type, r.id, r.title, r.slug, r.locale, r.rank, r.total_count,
+                ${searchHeadlineSql('r.title', 'r.locale', resultQuery, true)} as title_highlight,
+                ${searchHeadlineSql('r.body', 'r.locale', resultQuery)} as snippet
+         FROM ranked r
+         ORDER BY r.rank DESC, r.created_at DESC`,
+        params
+      );
+
+      const totalCount = rows.length > 0 ? parseInt(rows[0].total_count) : 0;
+
+      return {
+        success: true,
+        data: {
+          query: input.q,
+          results: rows.map((row) => ({
+            type: row.type,
+            id: row.id,
+            title: row.title,
+            slug: row.slug,
+            locale: row.locale,
+            rank: Number(row.rank),
+            title_highlight: row.title_highlight,
+            snippet: row.snippet,
+          })),
+          pagination: {
+            page,
+            limit,
+            totalCount,
+            totalPages: Math.ceil(totalCount / limit),
+          },
+        },
+      };
+    } catch (error) {
+      console.error('Error searching content:', error);
+      return { success: false, error: 'Search failed', errorCode: ServiceErrorCode.DATABASE_ERROR };
+    }
+  }
+}
+
+export const searchService = new SearchService();
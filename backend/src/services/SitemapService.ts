@@ -0,0 +1,132 @@
+import { pool } from '../utils/database';
+import { categorySubtreeSql } from '../db/categories';
+import type { ServiceResponse } from '../types/versioning';
+import { localizePath, resolveSiteLocales } from '../utils/locale';
+import { onPublicContentChange } from '../utils/publicCache';
+import type { Site } from './siteService';
+
+/**
+ * One public page of a site, by path relative to the domain root
+ */
+export interface SitemapPage {
+  path: string;
+  lastmod?: Date;
+}
+
+// Publishing drops cached sitemaps right away; the TTL only bounds how long
+// changes made outside the API (imports, direct SQL) take to show up
+const CACHE_TTL = 60 * 60 * 1000; // 1 hour
+
+/**
+ * Builds the list of indexable pages behind sitemap.xml
+ *
+ * A site's sitemap holds its home page and blog in every enabled language,
+ * the published posts and pages with seo_indexed set, and the categories
+ * that have published posts unless the category itself is excluded. Content
+ * without a site belongs to the domain's default site.
+ */
+export class SitemapService {
+  private cache = new Map<string, { pages: SitemapPage[]; timestamp: number }>();
+
+  constructor() {
+    onPublicContentChange(() => this.invalidate());
+  }
+
+  async getPages(domainId: number | null, site: Site | null): Promise<ServiceResponse<SitemapPage[]>> {
+    const cacheKey = `${domainId ?? ''}:${site?.id ?? ''}`;
+    const cached = this.cache.get(cacheKey);
+    if (cached && Date.now() - cached.timestamp < CACHE_TTL) {
+      return { success: true, data: cached.pages };
+    }
+
+    try {
+      const { default_locale: defaultLocale, locales } = resolveSiteLocales(site?.settings);
+      const basePath = site && site.base_path !== '/' ? site.base_path.replace(/\/$/, '') : '';
+      const sitePath = (path: string, locale?: string) => {
+        const localized = localizePath(path, locale, defaultLocale);
+        return basePath && localized === '/' ? basePath : `${basePath}${localized}`;
+      };
+
+      const params: any[] = [locales, defaultLocale];
+      const domainParam = domainId ? `$${params.push(domainId)}` : null;
+      const siteParam = site ? `$${params.push(site.id)}` : null;
+      const scope = (alias: string) => [
+        `${alias}.locale = ANY($1)`,
+        domainParam ? `(${alias}.domain_id = ${domainParam} OR ${alias}.domain_id IS NULL)` : '',
+        siteParam ? `(${alias}.site_id = ${siteParam}${site?.is_default ? ` OR ${alias}.site_id IS NULL` : ''})` : '',
+      ].filter(Boolean).join(' AND ');
+
+      const [postsResult, pagesResult, categoriesResult] = await Promise.all([
+        pool.query(
+          `SELECT p.slug, p.locale, p.updated_at FROM posts p
+           WHERE p.status = 'published' AND p.seo_indexed IS NOT FALSE AND ${scope('p')}
+           ORDER BY p.updated_at DESC`,
+          params
+        ),
+        pool.query(
+          `SELECT pg.path, pg.locale, pg.updated_at FROM pages pg
+           WHERE pg.published = true AND pg.seo_indexed IS NOT FALSE AND ${scope('pg')}
+           ORDER BY pg.updated_at DESC`,
+          params
+        ),
+        // Category pages list posts in the default language only, including
+        // those filed under subcategories
+        pool.query(
+          `SELECT c.path, MAX(p.updated_at) AS updated_at FROM categories c
+           JOIN categories d ON ${categorySubtreeSql('d', 'c')}
+           JOIN posts p ON p.category_id = d.id
+           WHERE c.seo_indexed IS NOT FALSE AND p.status = 'published' AND p.locale = $2 AND ${scope('p')}
+             ${domainParam ? `AND (c.domain_id = ${domainParam} OR c.domain_id IS NULL)` : ''}
+           GROUP BY c.path
+           ORDER BY c.path`,
+          params
+        ),
+      ]);
+
+      // The home page and blog change whenever a post in their language does
+      const latestByLocale = new Map<string, Date>();
+      for (const post of postsResult.rows) {
+        if (!latestByLocale.has(post.locale)) {
+          latestByLocale.set(post.locale, new Date(post.updated_at));
+        }
+      }
+
+      const pages: SitemapPage[] = [
+        ...locales.flatMap((locale) => ['/', '/blog'].map((path) => ({
+          path: sitePath(path, locale),
+          lastmod: latestByLocale.get(locale),
+        }))),
+        ...postsResult.rows.map((post: any) => ({
+          path: sitePath(`/blog/${post.slug}`, post.locale),
+          lastmod: new Date(post.updated_at),
+        })),
+        ...pagesResult.rows.map((page: any) => ({
+          path: sitePath(`/page/${page.path}`, page.locale),
+          lastmod: new Date(page.updated_at),
+        })),
+        ...categoriesResult.rows.map((category: any) => ({
+          path: sitePath(`/category/${category.path}`),
+          lastmod: new Date(category.updated_at),
+        })),
+      ];
+
+      this.cache.set(cacheKey, { pages, timestamp: Date.now() });
+      return { success: true, data: pages };
+    } catch (error) {
+      console.error('Error building sitemap:', error);
+      return {
+        success: false,
+        error: error instanceof Error ? error.message : 'Failed to build sitemap'
+      };
+    }
+  }
+
+  /**
+   * Drop all cached sitemaps, see invalidatePublicCaches()
+   */
+  invalidate(): void {
+    this.cache.clear();
+  }
+}
+
+export const sitemapService = new SitemapService();
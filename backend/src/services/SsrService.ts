@@ -0,0 +1,154 @@
+import fs from 'fs';
+import path from 'path';
+import { ServiceErrorCode, ServiceResponse } from '../types/versioning';
+import { escapeXml } from '../utils/feed';
+import { onPublicContentChange } from '../utils/publicCache';
+
+/**
+ * Page render request, as understood by the frontend's entry-server bundle
+ */
+export interface RenderRequest {
+  url: string;
+  origin: string;
+  apiBaseUrl: string;
+  headers?: Record<string, string>;
+}
+
+interface RenderResult {
+  html: string;
+  head: string;
+  lang?: string;
+  state: unknown;
+  status: number;
+}
+
+interface Renderer {
+  render(request: RenderRequest): Promise<RenderResult>;
+}
+
+export interface RenderedPage {
+  status: number;
+  html: string;
+}
+
+export interface SsrServiceOptions {
+  // Server bundle built by `vite build --ssr src/entry-server.tsx`
+  bundlePath?: string;
+  // index.html of the client build the rendered markup is injected into
+  templatePath?: string;
+}
+
+// Rendered pages are dropped on publish; the TTL picks up everything else
+// the pages show, such as site settings and menus
+const CACHE_TTL = 10 * 60 * 1000; // 10 minutes
+const CACHE_MAX_ENTRIES = 500;
+
+const DEFAULT_BUNDLE_PATH = path.resolve(__dirname, '../../../frontend/dist-ssr/entry-server.cjs');
+const DEFAULT_TEMPLATE_PATH = path.resolve(__dirname, '../../../frontend/dist/index.html');
+
+/**
+ * Server-side rendering of the public site
+ *
+ * Renders the public pages with the frontend's server bundle so crawlers and
+ * link unfurlers get the content, title, meta and Open Graph tags without
+ * running JavaScript. The browser then hydrates from the embedded query
+ * state. Successful renders are cached per host and URL.
+ */
+export class SsrService {
+  private readonly bundlePath: string;
+  private readonly templatePath: string;
+  private renderer: Renderer | null = null;
+  private template: string | null = null;
+  private cache = new Map<string, { page: RenderedPage; timestamp: number }>();
+
+  constructor(options: SsrServiceOptions = {}) {
+    this.bundlePath = options.bundlePath || process.env.SSR_BUNDLE_PATH || DEFAULT_BUNDLE_PATH;
+    this.templatePath = options.templatePath || process.env.SSR_TEMPLATE_PATH || DEFAULT_TEMPLATE_PATH;
+    onPublicContentChange(() => this.invalidate());
+  }
+
+  /**
+   * Render the public page at request.url. Falls back to the bare client
+   * shell when the page cannot be rendered, and fails when not even the
+   * shell is available.
+   */
+  async renderPage(request: RenderRequest, cacheKey: string): Promise<ServiceResponse<RenderedPage>> {
+    const cached = this.cache.get(cacheKey);
+    if (cached && Date.now() - cached.timestamp < CACHE_TTL) {
+      return { success: true, data: cached.page };
+    }
+
+    let template: string;
+    try {
+      template = this.loadTemplate();
+    } catch (error) {
+      console.error('SSR template unavailable:', error);
+      return { success: false, error: 'Client build not found', errorCode: ServiceErrorCode.SERVICE_UNAVAILABLE };
+    }
+
+    try {
+      const result = await this.loadRenderer().render(request);
+      const page = { status: result.status, html: this.composePage(template, result) };
+
+      if (page.status === 200) {
+        if (this.cache.size >= CACHE_MAX_ENTRIES) {
+          // Maps iterate in insertion order, so this is the oldest render
+          this.cache.delete(this.cache.keys().next().value as string);
+        }
+        this.cache.set(cacheKey, { page, timestamp: Date.now() });
+      }
+      return { success: true, data: page };
+    } catch (error) {
+      console.error('Error rendering page:', error);
+      return { success: true, data: { status: 200, html: template } };
+    }
+  }
+
+  /**
+   * Drop all rendered pages, see invalidatePublicCaches()
+   */
+  invalidate(): void {
+    this.cache.clear();
+  }
+
+  private loadTemplate(): string {
+    if (this.template === null) {
+      this.template = fs.readFileSync(this.templatePath, 'utf8');
+    }
+    return this.template;
+  }
+
+  private loadRenderer(): Renderer {
+    if (this.renderer === null) {
+      this.renderer = require(this.bundlePath) as Renderer;
+    }
+    return this.renderer;
+  }
+
+  private composePage(template: string, result: RenderResult): string {
+    let html = template;
+
+    // The rendered head replaces the generic title and description
+    if (result.head.includes('<title>')) {
+      html = html.replace(/\s*<title>[\s\S]*?<\/title>/, '');
+    }
+    if (result.head.includes('name="description"')) {
+      html = html.replace(/\s*<meta name="description"[^>]*>/, '');
+    }
+
+    // Replacement functions, as the markup may contain $ patterns
+    html = html.replace('</head>', () => `  ${result.head}\n  </head>`);
+    const { lang } = result;
+    if (lang) {
+      html = html.replace(/<html lang="[^"]*"/, () => `<html lang="${escapeXml(lang)}"`);
+    }
+
+    // JSON in a data block does not run, but must not close the script early
+    const state = JSON.stringify(result.state).replace(/</g, '\\u003c');
+    return html.replace('<div id="root"></div>', () =>
+      `<div id="root">${result.html}</div>\n    <script type="application/json" id="__REACT_QUERY_STATE__">${state}</script>`
+    );
+  }
+}
+
+export const ssrService = new SsrService();
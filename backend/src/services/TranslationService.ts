@@ -0,0 +1,385 @@
+import { pool } from '../utils/database';
+import type { ServiceResponse } from '../types/versioning';
+import { ContentType, ServiceErrorCode } from '../types/versioning';
+import { generateUniqueSlug } from '../utils/slug';
+import { resolveSiteLocales, SiteLocales } from '../utils/locale';
+
+/**
+ * One member of a translation group
+ */
+export interface ContentTranslation {
+  id: number;
+  locale: string;
+  title: string;
+  slug: string;
+  status: string;
+  // The original the rest of the group was translated from
+  is_source: boolean;
+  // The source has been saved since this translation was last brought in line
+  outdated: boolean;
+  updated_at: Date;
+  source_updated_at: Date | null;
+}
+
+/**
+ * Translations of a post or page, with the site locales still missing
+ */
+export interface TranslationStatus {
+  content_type: ContentType;
+  content_id: number;
+  translation_group_id: number;
+  default_locale: string;
+  locales: string[];
+  translations: ContentTranslation[];
+  missing_locales: string[];
+}
+
+/**
+ * Published sibling used for hreflang alternates
+ */
+export interface PublishedTranslation {
+  locale: string;
+  slug: string;
+}
+
+export interface CreateTranslationInput {
+  locale: string;
+  title?: string;
+  slug?: string;
+}
+
+interface TranslatableTable {
+  table: string;
+  // Columns carried over from the source into a new translation
+  copyColumns: string[];
+  // Columns set on a new translation, which always starts unpublished
+  draftValues: Record<string, string>;
+  ownerColumn?: string;
+  statusSql: string;
+  publishedSql: string;
+}
+
+const TRANSLATABLE: Record<string, TranslatableTable> = {
+  [ContentType.POST]: {
+    table: 'posts',
+    copyColumns: [
+      'excerpt', 'content', 'featured_image', 'category_id', 'meta_title', 'meta_description',
+      'seo_indexed', 'featured', 'domain_id', 'site_id', 'organization_id'
+    ],
+    draftValues: { status: `'draft'` },
+    ownerColumn: 'author_id',
+    statusSql: 't.status',
+    publishedSql: `status = 'published'`,
+  },
+  [ContentType.PAGE]: {
+    table: 'pages',
+    copyColumns: [
+      'content', 'data', 'template', 'meta_title', 'meta_description',
+      'seo_indexed', 'domain_id', 'site_id', 'organization_id'
+    ],
+    draftValues: { published: 'false' },
+    statusSql: `CASE WHEN t.published THEN 'published' ELSE 'draft' END`,
+    publishedSql: 'published = true',
+  },
+};
+
+/**
+ * Translation groups for posts and pages
+ *
+ * Each translation is a full post or page with its own slug, versions and
+ * publish state. Siblings share translation_group_id; a translation also
+ * remembers which content it was made from and that content's updated_at when
+ * it was last synced, which is how outdated translations are detected.
+ */
+export class TranslationService {
+  /**
+   * Locale settings of a site, or of the default site when content has none
+   */
+  async getSiteLocales(siteId: number | null): Promise<ServiceResponse<SiteLocales>> {
+    try {
+      const { rows } = await pool.query(
+        `SELECT settings FROM sites
+         WHERE id = COALESCE($1, (SELECT id FROM sites WHERE is_default = true ORDER BY id LIMIT 1))`,
+        [siteId]
+      );
+
+      return { success: true, data: resolveSiteLocales(rows[0]?.settings) };
+    } catch (error) {
+      console.error('Error getting site locales:', error);
+      return { success: false, error: 'Failed to get site locales', errorCode: ServiceErrorCode.DATABASE_ERROR };
+    }
+  }
+
+  /**
+   * List every translation in the content's group and flag outdated ones
+   */
+  async getTranslationStatus(
+    organizationId: number,
+    contentType: ContentType,
+    contentId: number
+  ): Promise<ServiceResponse<TranslationStatus>> {
+    try {
+      const config = TRANSLATABLE[contentType];
+      if (!config) {
+        return { success: false, error: 'Invalid content type', errorCode: ServiceErrorCode.VALIDATION_ERROR };
+      }
+
+      const content = await pool.query(
+        `SELECT id, site_id, translation_group_id FROM ${config.table} WHERE id = $1 AND organization_id = $2`,
+        [contentId, organizationId]
+      );
+      if (content.rows.length === 0) {
+        return { success: false, error: `${contentType} not found`, errorCode: ServiceErrorCode.NOT_FOUND };
+      }
+
+      const { site_id: siteId, translation_group_id: groupId } = content.rows[0];
+
+      const siteLocales = await this.getSiteLocales(siteId);
+      if (!siteLocales.success || !siteLocales.data) {
+        return { success: false, error: siteLocales.error, errorCode: siteLocales.errorCode };
+      }
+
+      const { rows } = await pool.query(
+        `SELECT t.id, t.locale, t.title, t.slug, ${config.statusSql} as status, t.updated_at,
+                t.translation_source_id, t.translation_source_updated_at,
+                src.updated_at as source_current_updated_at
+         FROM ${config.table} t
+         LEFT JOIN ${config.table} src ON src.id = t.translation_source_id
+         WHERE t.translation_group_id = $1 AND t.organization_id = $2
+         ORDER BY t.locale`,
+        [groupId, organizationId]
+      );
+
+      const translations = rows.map((row) => this.toTranslation(row));
+
+      const translated = new Set(translations.map((translation) => translation.locale));
+
+      return {
+        success: true,
+        data: {
+          content_type: contentType,
+          content_id: contentId,
+          translation_group_id: groupId,
+          default_locale: siteLocales.data.default_locale,
+          locales: siteLocales.data.locales,
+          translations,
+          missing_locales: siteLocales.data.locales.filter((locale) => !translated.has(locale)),
+        },
+      };
+    } catch (error) {
+      console.error('Error getting translation status:', error);
+      return { success: false, error: 'Failed to get translations', errorCode: ServiceErrorCode.DATABASE_ERROR };
+    }
+  }
+
+  /**
+   * Create a translation of content in another enabled locale. The new
+   * sibling starts as an unpublished copy of the source for the translator
+   * to work on.
+   */
+  async createTranslation(
+    organizationId: number,
+    contentType: ContentType,
+    contentId: number,
+    input: CreateTranslationInput,
+    userId: number
+  ): Promise<ServiceResponse<any>> {
+    try {
+      const config = TRANSLATABLE[contentType];
+      if (!config) {
+        return { success: false, error: 'Invalid content type', errorCode: ServiceErrorCode.VALIDATION_ERROR };
+      }
+
+      const sourceResult = await pool.query(
+        `SELECT id, slug, site_id, translation_group_id FROM ${config.table} WHERE id = $1 AND organization_id = $2`,
+        [contentId, organizationId]
+      );
+      if (sourceResult.rows.length === 0) {
+        return { success: false, error: `${contentType} not found`, errorCode: ServiceErrorCode.NOT_FOUND };
+      }
+      const source = sourceResult.rows[0];
+
+      const siteLocales = await this.getSiteLocales(source.site_id);
+      if (!siteLocales.success || !siteLocales.data) {
+        return { success: false, error: siteLocales.error, errorCode: siteLocales.errorCode };
+      }
+      if (!siteLocales.data.locales.includes(input.locale)) {
+        return {
+          success: false,
+          error: `Locale "${input.locale}" is not enabled for this site`,
+          errorCode: ServiceErrorCode.VALIDATION_ERROR,
+        };
+      }
+
+      const sibling = await pool.query(
+        `SELECT id FROM ${config.table} WHERE translation_group_id = $1 AND locale = $2`,
+        [source.translation_group_id, input.locale]
+      );
+      if (sibling.rows.length > 0) {
+        return {
+          success: false,
+          error: `A ${input.locale} translation already exists`,
+          errorCode: ServiceErrorCode.CONFLICT,
+        };
+      }
+
+      let slug = input.slug;
+      if (slug) {
+        const existingSlug = await pool.query(`SELECT id FROM ${config.table} WHERE slug = $1`, [slug]);
+        if (existingSlug.rows.length > 0) {
+          return { success: false, error: 'Slug already exists', errorCode: ServiceErrorCode.VALIDATION_ERROR };
+        }
+      } else {
+        const base = `${source.slug}-${input.locale.toLowerCase()}`;
+        const existingSlugs = await pool.query(`SELECT slug FROM ${config.table} WHERE slug LIKE $1`, [`${base}%`]);
+        slug = generateUniqueSlug(base, existingSlugs.rows.map((row) => row.slug));
+      }
+
+      const params: any[] = [input.title ?? null, slug, input.locale, contentId, organizationId];
+      const columns = ['title', 'slug', 'locale', 'translation_group_id', 'translation_source_id', 'translation_source_updated_at'];
+      const values = ['COALESCE($1, title)', '$2', '$3', 'translation_group_id', 'id', 'updated_at'];
+
+      for (const [column, value] of Object.entries(config.draftValues)) {
+        columns.push(column);
+        values.push(value);
+      }
+      // The translator becomes the author of the new sibling
+      if (config.ownerColumn) {
+        params.push(userId);
+        columns.push(config.ownerColumn);
+        values.push(`$${params.length}`);
+      }
+
+      const { rows } = await pool.query(
+        `INSERT INTO ${config.table} (${[...columns, ...config.copyColumns].join(', ')})
+         SELECT ${[...values, ...config.copyColumns].join(', ')}
+         FROM ${config.table}
+         WHERE id = $4 AND organization_id = $5
+         RETURNING *`,
+        params
+      );
+
+      const translation = rows[0];
+
+      if (contentType === ContentType.POST) {
+        await pool.query(
+          'INSERT INTO post_tags (post_id, tag_id) SELECT $1, tag_id FROM post_tags WHERE post_id = $2',
+          [translation.id, contentId]
+        );
+      }
+
+      return { success: true, data: translation };
+    } catch (error: any) {
+      // Another editor created the same locale in the meantime
+      if (error?.code === '23505') {
+        return {
+          success: false,
+          error: `A ${input.locale} translation already exists`,
+          errorCode: ServiceErrorCode.CONFLICT,
+        };
+      }
+      console.error('Error creating translation:', error);
+      return { success: false, error: 'Failed to create translation', errorCode: ServiceErrorCode.DATABASE_ERROR };
+    }
+  }
+
+  /**
+   * Record that a translation has caught up with the current source
+   */
+  async markTranslationCurrent(
+    organizationId: number,
+    contentType: ContentType,
+    contentId: number
+  ): Promise<ServiceResponse<ContentTranslation>> {
+    try {
+      const config = TRANSLATABLE[contentType];
+      if (!config) {
+        return { success: false, error: 'Invalid content type', errorCode: ServiceErrorCode.VALIDATION_ERROR };
+      }
+
+      const content = await pool.query(
+        `SELECT id, translation_source_id FROM ${config.table} WHERE id = $1 AND organization_id = $2`,
+        [contentId, organizationId]
+      );
+      if (content.rows.length === 0) {
+        return { success: false, error: `${contentType} not found`, errorCode: ServiceErrorCode.NOT_FOUND };
+      }
+      if (content.rows[0].translation_source_id === null) {
+        return {
+          success: false,
+          error: `This ${contentType} is not a translation`,
+          errorCode: ServiceErrorCode.VALIDATION_ERROR,
+        };
+      }
+
+      const { rows } = await pool.query(
+        `UPDATE ${config.table} t SET translation_source_updated_at = src.updated_at
+         FROM ${config.table} src
+         WHERE t.id = $1 AND t.organization_id = $2 AND src.id = t.translation_source_id
+         RETURNING t.id, t.locale, t.title, t.slug, ${config.statusSql} as status, t.updated_at,
+                   t.translation_source_id, t.translation_source_updated_at,
+                   src.updated_at as source_current_updated_at`,
+        [contentId, organizationId]
+      );
+
+      return { success: true, data: this.toTranslation(rows[0]) };
+    } catch (error) {
+      console.error('Error marking translation current:', error);
+      return { success: false, error: 'Failed to update translation', errorCode: ServiceErrorCode.DATABASE_ERROR };
+    }
+  }
+
+  /**
+   * Published members of a translation group, for hreflang alternates
+   */
+  async getPublishedTranslations(
+    contentType: ContentType,
+    translationGroupId: number
+  ): Promise<ServiceResponse<PublishedTranslation[]>> {
+    try {
+      const config = TRANSLATABLE[contentType];
+      if (!config) {
+        return { success: false, error: 'Invalid content type', errorCode: ServiceErrorCode.VALIDATION_ERROR };
+      }
+
+      const { rows } = await pool.query(
+        `SELECT locale, slug FROM ${config.table}
+         WHERE translation_group_id = $1 AND ${config.publishedSql}
+         ORDER BY locale`,
+        [translationGroupId]
+      );
+
+      return { success: true, data: rows };
+    } catch (error) {
+      console.error('Error getting published translations:', error);
+      return { success: false, error: 'Failed to get translations', errorCode: ServiceErrorCode.DATABASE_ERROR };
+    }
+  }
+
+  private toTranslation(row: any): ContentTranslation {
+    return {
+      id: row.id,
+      locale: row.locale,
+      title: row.title,
+      slug: row.slug,
+      status: row.status,
+      is_source: row.translation_source_id === null,
+      outdated: this.isOutdated(row),
+      updated_at: row.updated_at,
+      source_updated_at: row.translation_source_updated_at,
+    };
+  }
+
+  private isOutdated(row: any): boolean {
+    if (row.translation_source_id === null || !row.source_current_updated_at) {
+      return false;
+    }
+    if (!row.translation_source_updated_at) {
+      return true;
+    }
+    return new Date(row.source_current_updated_at) > new Date(row.translation_source_updated_at);
+  }
+}
+
+// Export singleton instance
+export const translationService = new TranslationService();
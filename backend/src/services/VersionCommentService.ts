@@ -0,0 +1,403 @@
+/**
+ * VersionCommentService
+ *
+ * Threaded review comments on content versions. Comments can be anchored to a
+ * line, a field, or a character range within a field so reviewers can annotate
+ * specific changes. Only top-level comments open a thread; resolving a thread
+ * resolves it for every reply.
+ */
+
+import { Pool } from 'pg';
+import { ServiceResponse, ServiceErrorCode } from '../types/versioning';
+import { VersionComment, CommentStatus } from '../types/versioning/core';
+
+export type VersionCommentType = 'general' | 'suggestion' | 'issue' | 'approval';
+
+export interface CommentAnchor {
+  line_number?: number;
+  field_path?: string;
+  range_start?: number;
+  range_end?: number;
+  quoted_text?: string;
+}
+
+export interface CreateCommentInput extends CommentAnchor {
+  comment_text: string;
+  comment_type?: VersionCommentType;
+  parent_id?: number;
+}
+
+export interface ListCommentsOptions {
+  // Archived (deleted) comments are never listed
+  status?: 'active' | 'resolved';
+  include_replies?: boolean;
+  sort_by?: 'created_at' | 'updated_at';
+  sort_order?: 'asc' | 'desc';
+}
+
+export interface VersionCommentList {
+  comments: VersionComment[];
+  total_comments: number;
+  active_threads: number;
+  resolved_threads: number;
+}
+
+// Roles that may archive other people's comments
+const MODERATOR_ROLES = ['owner', 'admin'];
+
+const COMMENT_COLUMNS = `
+  c.*,
+  u.email AS author_email,
+  u.first_name AS author_first_name,
+  u.last_name AS author_last_name
+`;
+
+export class VersionCommentService {
+  constructor(private pool: Pool) {}
+
+  /**
+   * List comments for a version as threads (top-level comments with replies)
+   */
+  async listComments(
+    versionId: number,
+    organizationId: number,
+    options: ListCommentsOptions = {}
+  ): Promise<ServiceResponse<VersionCommentList>> {
+    try {
+      const version = await this.getVersionInOrganization(versionId, organizationId);
+      if (!version) {
+        return { success: false, error: 'Version not found', errorCode: ServiceErrorCode.NOT_FOUND };
+      }
+
+      const sortBy = options.sort_by === 'updated_at' ? 'updated_at' : 'created_at';
+      const sortOrder = options.sort_order === 'desc' ? 'DESC' : 'ASC';
+
+      const { rows } = await this.pool.query(
+        `SELECT ${COMMENT_COLUMNS}
+         FROM version_comments c
+         LEFT JOIN users u ON u.id = c.created_by
+         WHERE c.version_id = $1 AND c.status <> 'archived'
+         ORDER BY c.${sortBy} ${sortOrder}, c.id ${sortOrder}`,
+        [versionId]
+      );
+
+      const comments = rows.map((row) => this.mapComment(row));
+      const roots = comments.filter((comment) => !comment.parent_id);
+      const rootIds = new Set(roots.map((comment) => comment.id));
+
+      // Replies read oldest-first regardless of how threads are sorted
+      const replies = comments
+        .filter((comment) => comment.parent_id && rootIds.has(comment.parent_id))
+        .sort((a, b) => new Date(a.created_at).getTime() - new Date(b.created_at).getTime());
+
+      if (options.include_replies !== false) {
+        for (const root of roots) {
+          root.replies = replies.filter((reply) => reply.parent_id === root.id);
+        }
+      }
+
+      const threads = options.status
+        ? roots.filter((root) => root.status === options.status)
+        : roots;
+
+      return {
+        success: true,
+        data: {
+          comments: threads,
+          total_comments: comments.length,
+          active_threads: roots.filter((root) => root.status === CommentStatus.ACTIVE).length,
+          resolved_threads: roots.filter((root) => root.status === CommentStatus.RESOLVED).length
+        }
+      };
+    } catch (error) {
+      console.error('Error listing version comments:', error);
+      return { success: false, error: 'Failed to list comments', errorCode: ServiceErrorCode.INTERNAL_ERROR };
+    }
+  }
+
+  /**
+   * Add a comment or a reply to a version
+   */
+  async createComment(
+    versionId: number,
+    organizationId: number,
+    userId: number,
+    input: CreateCommentInput
+  ): Promise<ServiceResponse<VersionComment>> {
+    try {
+      const version = await this.getVersionInOrganization(versionId, organizationId);
+      if (!version) {
+        return { success: false, error: 'Version not found', errorCode: ServiceErrorCode.NOT_FOUND };
+      }
+
+      let anchor: CommentAnchor = {
+        line_number: input.line_number,
+        field_path: input.field_path,
+        range_start: input.range_start,
+        range_end: input.range_end,
+        quoted_text: input.quoted_text
+      };
+
+      if (input.parent_id) {
+        const parent = await this.findComment(input.parent_id);
+        if (!parent || parent.version_id !== versionId || parent.status === CommentStatus.ARCHIVED) {
+          return { success: false, error: 'Parent comment not found', errorCode: ServiceErrorCode.NOT_FOUND };
+        }
+        if (parent.parent_id) {
+          return {
+            success: false,
+            error: 'Replies can only be added to top-level comments',
+            errorCode: ServiceErrorCode.VALIDATION_ERROR
+          };
+        }
+        // Replies belong to the parent's anchor
+        anchor = {};
+      }
+
+      if (anchor.range_start !== undefined && anchor.range_end !== undefined && anchor.range_end < anchor.range_start) {
+        return {
+          success: false,
+          error: 'range_end must not be before range_start',
+          errorCode: ServiceErrorCode.VALIDATION_ERROR
+        };
+      }
+
+      const { rows } = await this.pool.query(
+        `INSERT INTO version_comments (
+           site_id, version_id, parent_id, comment_text, comment_type,
+           line_number, field_path, range_start, range_end, quoted_text, created_by
+         ) VALUES ($1, $2, $3, $4, $5, $6, $7, $8, $9, $10, $11)
+         RETURNING id`,
+        [
+          version.site_id,
+          versionId,
+          input.parent_id ?? null,
+          input.comment_text,
+          input.comment_type ?? 'general',
+          anchor.line_number ?? null,
+          anchor.field_path ?? null,
+          anchor.range_start ?? null,
+          anchor.range_end ?? null,
+          anchor.quoted_text ?? null,
+          userId
+        ]
+      );
+
+      const comment = await this.findComment(rows[0].id);
+      return { success: true, data: comment! };
+    } catch (error) {
+      console.error('Error creating version comment:', error);
+      return { success: false, error: 'Failed to create comment', errorCode: ServiceErrorCode.INTERNAL_ERROR };
+    }
+  }
+
+  /**
+   * Edit the text or type of a comment (author only)
+   */
+  async updateComment(
+    commentId: number,
+    organizationId: number,
+    userId: number,
+    updates: { comment_text?: string; comment_type?: VersionCommentType }
+  ): Promise<ServiceResponse<VersionComment>> {
+    try {
+      const comment = await this.findCommentInOrganization(commentId, organizationId);
+      if (!comment || comment.status === CommentStatus.ARCHIVED) {
+        return { success: false, error: 'Comment not found', errorCode: ServiceErrorCode.NOT_FOUND };
+      }
+
+      if (comment.created_by !== userId) {
+        return {
+          success: false,
+          error: 'Only the author can edit this comment',
+          errorCode: ServiceErrorCode.FORBIDDEN
+        };
+      }
+
+      await this.pool.query(
+        `UPDATE version_comments
+         SET comment_text = COALESCE($2, comment_text),
+             comment_type = COALESCE($3, comment_type),
+             updated_at = NOW()
+         WHERE id = $1`,
+        [commentId, updates.comment_text ?? null, updates.comment_type ?? null]
+      );
+
+      const updated = await this.findComment(commentId);
+      return { success: true, data: updated! };
+    } catch (error) {
+      console.error('Error updating version comment:', error);
+      return { success: false, error: 'Failed to update comment', errorCode: ServiceErrorCode.INTERNAL_ERROR };
+    }
+  }
+
+  /**
+   * Archive a comment and its replies (author, or an organization owner/admin)
+   */
+  async deleteComment(
+    commentId: number,
+    organizationId: number,
+    userId: number
+  ): Promise<ServiceResponse<void>> {
+    try {
+      const comment = await this.findCommentInOrganization(commentId, organizationId);
+      if (!comment) {
+        return { success: false, error: 'Comment not found', errorCode: ServiceErrorCode.NOT_FOUND };
+      }
+
+      if (comment.created_by !== userId) {
+        const role = await this.getMemberRole(organizationId, userId);
+        if (!role || !MODERATOR_ROLES.includes(role)) {
+          return {
+            success: false,
+            error: 'Only the author or an organization admin can delete this comment',
+            errorCode: ServiceErrorCode.FORBIDDEN
+          };
+        }
+      }
+
+      await this.pool.query(
+        `UPDATE version_comments
+         SET status = 'archived', updated_at = NOW()
+         WHERE id = $1 OR parent_id = $1`,
+        [commentId]
+      );
+
+      return { success: true };
+    } catch (error) {
+      console.error('Error deleting version comment:', error);
+      return { success: false, error: 'Failed to delete comment', errorCode: ServiceErrorCode.INTERNAL_ERROR };
+    }
+  }
+
+  /**
+   * Mark a thread as resolved
+   */
+  async resolveComment(
+    commentId: number,
+    organizationId: number,
+    userId: number
+  ): Promise<ServiceResponse<VersionComment>> {
+    return this.setThreadStatus(commentId, organizationId, userId, CommentStatus.RESOLVED);
+  }
+
+  /**
+   * Reopen a resolved thread
+   */
+  async unresolveComment(
+    commentId: number,
+    organizationId: number,
+    userId: number
+  ): Promise<ServiceResponse<VersionComment>> {
+    return this.setThreadStatus(commentId, organizationId, userId, CommentStatus.ACTIVE);
+  }
+
+  private async setThreadStatus(
+    commentId: number,
+    organizationId: number,
+    userId: number,
+    status: CommentStatus.ACTIVE | CommentStatus.RESOLVED
+  ): Promise<ServiceResponse<VersionComment>> {
+    try {
+      const comment = await this.findCommentInOrganization(commentId, organizationId);
+      if (!comment || comment.status === CommentStatus.ARCHIVED) {
+        return { success: false, error: 'Comment not found', errorCode: ServiceErrorCode.NOT_FOUND };
+      }
+
+      if (comment.parent_id) {
+        return {
+          success: false,
+          error: 'Only top-level comments can be resolved',
+          errorCode: ServiceErrorCode.VALIDATION_ERROR
+        };
+      }
+
+      if (comment.status === status) {
+        return { success: true, data: comment };
+      }
+
+      const resolving = status === CommentStatus.RESOLVED;
+      await this.pool.query(
+        `UPDATE version_comments
+         SET status = $2, resolved_by = $3, resolved_at = $4, updated_at = NOW()
+         WHERE id = $1`,
+        [commentId, status, resolving ? userId : null, resolving ? new Date() : null]
+      );
+
+      const updated = await this.findComment(commentId);
+      return { success: true, data: updated! };
+    } catch (error) {
+      console.error('Error updating comment status:', error);
+      return { success: false, error: 'Failed to update comment', errorCode: ServiceErrorCode.INTERNAL_ERROR };
+    }
+  }
+
+  private async getVersionInOrganization(
+    versionId: number,
+    organizationId: number
+  ): Promise<{ id: number; site_id: number } | null> {
+    const { rows } = await this.pool.query(
+      `SELECT cv.id, cv.site_id
+       FROM content_versions cv
+       JOIN sites s ON s.id = cv.site_id
+       WHERE cv.id = $1 AND s.organization_id = $2`,
+      [versionId, organizationId]
+    );
+
+    return rows[0] || null;
+  }
+
+  private async findComment(commentId: number): Promise<VersionComment | null> {
+    const { rows } = await this.pool.query(
+      `SELECT ${COMMENT_COLUMNS}
+       FROM version_comments c
+       LEFT JOIN users u ON u.id = c.created_by
+       WHERE c.id = $1`,
+      [commentId]
+    );
+
+    return rows[0] ? this.mapComment(rows[0]) : null;
+  }
+
+  private async findCommentInOrganization(
+    commentId: number,
+    organizationId: number
+  ): Promise<VersionComment | null> {
+    const { rows } = await this.pool.query(
+      `SELECT ${COMMENT_COLUMNS}
+       FROM version_comments c
+       JOIN sites s ON s.id = c.site_id
+       LEFT JOIN users u ON u.id = c.created_by
+       WHERE c.id = $1 AND s.organization_id = $2`,
+      [commentId, organizationId]
+    );
+
+    return rows[0] ? this.mapComment(rows[0]) : null;
+  }
+
+  private async getMemberRole(organizationId: number, userId: number): Promise<string | null> {
+    const { rows } = await this.pool.query(
+      `SELECT role FROM organization_members
+       WHERE organization_id = $1 AND user_id = $2 AND deleted_at IS NULL`,
+      [organizationId, userId]
+    );
+
+    return rows[0]?.role ?? null;
+  }
+
+  private mapComment(row: any): VersionComment {
+    const { author_email, author_first_name, author_last_name, ...comment } = row;
+    return {
+      ...comment,
+      parent_id: comment.parent_id ?? undefined,
+      author: author_email
+        ? {
+            id: comment.created_by,
+            email: author_email,
+            first_name: author_first_name ?? undefined,
+            last_name: author_last_name ?? undefined
+          }
+        : undefined
+    };
+  }
+}
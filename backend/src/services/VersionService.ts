@@ -18,7 +18,8 @@ import {
   VersionDiff,
   VersionComparison,
   FieldChange,
-  VersionType
+  VersionType,
+  ServiceErrorCode
 } from '../types/versioning';
 import {
   VersionErrorCode,
@@ -26,10 +27,14 @@ import {
   VersioningIsolationLevel
 } from '../types/versioning/enums';
 import {
-  VersionAction
+  VersionAction,
+  WorkflowStage
 } from '../types/versioning/core';
 import { EventEmitter } from 'events';
 import DOMPurify from 'isomorphic-dompurify';
+import { invalidatePublicCaches } from '../utils/publicCache';
+import { contentSiteIdSql } from '../utils/site';
+import { mediaUsageService } from './MediaUsageService';
 
 // Interfaces for enhanced functionality
 interface VersionEventPayload {
@@ -40,6 +45,22 @@ interface VersionEventPayload {
   metadata?: Record<string, any>;
 }
 
+/**
+ * What the client last saw when it started editing. Either field identifies it.
+ */
+export interface EditBase {
+  version_number?: number;
+  content_hash?: string;
+}
+
+/**
+ * Content changed by someone else since the client's base
+ */
+export interface VersionConflict {
+  base_version: ContentVersion | null;
+  current_version: ContentVersion;
+}
+
 interface VersionMetrics {
   total_versions: number;
   draft_count: number;
@@ -60,6 +81,12 @@ interface AuditLogEntry {
   data_classification: DataClassification;
 }
 
+/**
+ * Version events from every VersionService instance, for process-wide
+ * listeners such as the collaboration server
+ */
+export const versionEvents = new EventEmitter();
+
 export class VersionService extends EventEmitter {
   private pool: Pool;
   private versionCache: Map<string, ContentVersion> = new Map();
@@ -85,12 +112,19 @@ export class VersionService extends EventEmitter {
   async createVersion(
     input: CreateVersionInput,
     userId: number,
-    options: { ip_address?: string; user_agent?: string } = {}
+    options: {
+      ip_address?: string;
+      user_agent?: string;
+      /** Skip the per-user site check for system writes (scheduled publishing, recorded saves) */
+      bypassSiteAccess?: boolean;
+    } = {}
   ): Promise<ServiceResponse<ContentVersion>> {
     // Enhanced security validation
-    const siteValidation = await this.validateSiteAccess(input.site_id, userId);
-    if (!siteValidation.success) {
-      return { success: false, error: siteValidation.error } as ServiceResponse<ContentVersion>;
+    if (!options.bypassSiteAccess) {
+      const siteValidation = await this.validateSiteAccess(input.site_id, userId);
+      if (!siteValidation.success) {
+        return { success: false, error: siteValidation.error } as ServiceResponse<ContentVersion>;
+      }
     }
 
     // Input sanitization
@@ -354,6 +388,10 @@ export class VersionService extends EventEmitter {
     options: {
       ip_address?: string;
       user_agent?: string;
+      /** Skip the editorial approval check (scheduled publishing, restoring published content) */
+      bypassWorkflow?: boolean;
+      /** Skip the per-user site check for system writes (scheduled publishing) */
+      bypassSiteAccess?: boolean;
     } = {}
   ): Promise<ServiceResponse<ContentVersion>> {
     const client = await this.pool.connect();
@@ -376,10 +414,31 @@ export class VersionService extends EventEmitter {
       const version = versionResult.rows[0];
 
       // Validate site access
-      const siteValidation = await this.validateSiteAccess(version.site_id, userId);
-      if (!siteValidation.success) {
-        await client.query('ROLLBACK');
-        return { success: false, error: siteValidation.error } as ServiceResponse<ContentVersion>;
+      if (!options.bypassSiteAccess) {
+        const siteValidation = await this.validateSiteAccess(version.site_id, userId);
+        if (!siteValidation.success) {
+          await client.query('ROLLBACK');
+          return { success: false, error: siteValidation.error } as ServiceResponse<ContentVersion>;
+        }
+      }
+
+      // Organizations with editorial workflow only publish approved versions
+      if (!options.bypassWorkflow && version.workflow_stage !== WorkflowStage.APPROVED) {
+        const workflowResult = await client.query(
+          `SELECT o.workflow_enabled FROM sites s
+           JOIN organizations o ON o.id = s.organization_id
+           WHERE s.id = $1`,
+          [version.site_id]
+        );
+
+        if (workflowResult.rows[0]?.workflow_enabled) {
+          await client.query('ROLLBACK');
+          return {
+            success: false,
+            error: 'Version must be approved before it can be published',
+            errorCode: ServiceErrorCode.FORBIDDEN
+          };
+        }
       }
 
       // Mark previous published version as archived
@@ -396,7 +455,8 @@ export class VersionService extends EventEmitter {
          SET is_current_published = TRUE,
              is_current_draft = FALSE,
              published_by = $1,
-             published_at = CURRENT_TIMESTAMP
+             published_at = CURRENT_TIMESTAMP,
+             workflow_stage = '${WorkflowStage.PUBLISHED}'
          WHERE id = $2`,
         [userId, versionId]
       );
@@ -432,6 +492,13 @@ export class VersionService extends EventEmitter {
 
       // Clear caches
       this.invalidateVersionCaches(version.site_id, version.content_type, version.content_id);
+      invalidatePublicCaches();
+
+      // The live content changed, so the media it uses may have too
+      const references = await mediaUsageService.syncReferences(version.content_type, version.content_id);
+      if (!references.success) {
+        console.error('Failed to record media used by published version:', references.error);
+      }
 
       const updatedVersion = await this.getVersion(versionId);
       return updatedVersion;
@@ -482,8 +549,11 @@ export class VersionService extends EventEmitter {
       const newVersion = await this.createVersion(input, userId);
 
       if (newVersion.success && newVersion.data) {
-        // Immediately publish the reverted version
-        return await this.publishVersion(newVersion.data.id, userId);
+        // Immediately publish the reverted version; content that already went
+        // live once doesn't need to be reviewed again
+        return await this.publishVersion(newVersion.data.id, userId, {
+          bypassWorkflow: Boolean(oldVersion.published_at)
+        });
       }
 
       return newVersion;
@@ -797,6 +867,8 @@ export class VersionService extends EventEmitter {
   emitVersionEvent(payload: VersionEventPayload): void {
     this.emit('version:' + payload.action, payload);
     this.emit('version:any', payload);
+    versionEvents.emit('version:' + payload.action, payload);
+    versionEvents.emit('version:any', payload);
   }
 
   /**
@@ -1171,6 +1243,158 @@ export class VersionService extends EventEmitter {
     }
   }
 
+  /**
+   * Checks whether content changed since the client's base version.
+   * A base version number conflicts only with newer versions saved by other
+   * users, so a client's own auto-saves never block its next save.
+   */
+  async detectConflict(
+    siteId: number,
+    contentType: ContentType,
+    contentId: number,
+    base: EditBase,
+    userId: number
+  ): Promise<ServiceResponse<VersionConflict | null>> {
+    try {
+      let baseVersion: ContentVersion | null = null;
+
+      if (base.version_number !== undefined) {
+        const newer = await this.pool.query(
+          `SELECT 1 FROM content_versions
+           WHERE site_id = $1 AND content_type = $2 AND content_id = $3
+             AND version_number > $4 AND created_by IS DISTINCT FROM $5
+           LIMIT 1`,
+          [siteId, contentType, contentId, base.version_number, userId]
+        );
+        if (newer.rows.length === 0) {
+          return { success: true, data: null };
+        }
+
+        const baseResult = await this.pool.query(
+          `SELECT * FROM content_versions
+           WHERE site_id = $1 AND content_type = $2 AND content_id = $3 AND version_number = $4`,
+          [siteId, contentType, contentId, base.version_number]
+        );
+        baseVersion = baseResult.rows[0] || null;
+      } else if (base.content_hash) {
+        const latestHash = await this.getLatestContentHash(siteId, contentType, contentId);
+        if (!latestHash.success) {
+          return { success: false, error: latestHash.error, errorCode: ServiceErrorCode.DATABASE_ERROR };
+        }
+        if (!latestHash.data || latestHash.data === base.content_hash) {
+          return { success: true, data: null };
+        }
+
+        const baseResult = await this.pool.query(
+          `SELECT * FROM content_versions
+           WHERE site_id = $1 AND content_type = $2 AND content_id = $3 AND content_hash = $4
+           ORDER BY version_number DESC
+           LIMIT 1`,
+          [siteId, contentType, contentId, base.content_hash]
+        );
+        baseVersion = baseResult.rows[0] || null;
+      } else {
+        return { success: true, data: null };
+      }
+
+      const currentResult = await this.pool.query(
+        `SELECT * FROM content_versions
+         WHERE site_id = $1 AND content_type = $2 AND content_id = $3
+         ORDER BY version_number DESC
+         LIMIT 1`,
+        [siteId, contentType, contentId]
+      );
+
+      return {
+        success: true,
+        data: { base_version: baseVersion, current_version: currentResult.rows[0] }
+      };
+    } catch (error) {
+      console.error('Error detecting version conflict:', error);
+      return {
+        success: false,
+        error: error instanceof Error ? error.message : 'Failed to check for conflicts',
+        errorCode: ServiceErrorCode.DATABASE_ERROR
+      };
+    }
+  }
+
+  /**
+   * Records a save of a post or page made outside the version endpoints, as
+   * by a plain PUT, so later edits started from an older version are caught
+   * as conflicts. The version keeps the review stage of the one before it
+   * while the reviewed title, content and excerpt are unchanged. It goes on
+   * the site the edit conflict check reads, and is recorded for anyone who
+   * could save the content, site member or not.
+   */
+  async recordSave(
+    contentType: ContentType.POST | ContentType.PAGE,
+    row: Record<string, any>,
+    userId: number
+  ): Promise<ServiceResponse<ContentVersion>> {
+    let siteId: number | null;
+    try {
+      const table = contentType === ContentType.POST ? 'posts' : 'pages';
+      const site = await this.pool.query(
+        `SELECT ${contentSiteIdSql('c')} AS site_id FROM ${table} c WHERE c.id = $1`,
+        [row.id]
+      );
+      siteId = site.rows[0]?.site_id ?? null;
+    } catch (error) {
+      console.error('Error resolving site of saved content:', error);
+      return { success: false, error: 'Failed to resolve site', errorCode: ServiceErrorCode.DATABASE_ERROR };
+    }
+    if (!siteId) {
+      return { success: false, error: 'Site not found', errorCode: ServiceErrorCode.NOT_FOUND };
+    }
+
+    const result = await this.createVersion(
+      {
+        site_id: siteId,
+        locale: row.locale || undefined,
+        content_type: contentType,
+        content_id: row.id,
+        version_type: VersionType.DRAFT,
+        title: row.title,
+        slug: row.slug || undefined,
+        content: row.content || undefined,
+        excerpt: row.excerpt || undefined,
+        data: contentType === ContentType.POST
+          ? { category_id: row.category_id, status: row.status, featured_image: row.featured_image }
+          : { template: row.template, parent_id: row.parent_id },
+        meta_data: { meta_title: row.meta_title, meta_description: row.meta_description, og_image: row.og_image },
+        change_summary: 'Saved'
+      },
+      userId,
+      { bypassSiteAccess: true }
+    );
+    if (!result.success || !result.data) {
+      return result;
+    }
+
+    try {
+      await this.pool.query(
+        `UPDATE content_versions v SET workflow_stage = prev.workflow_stage
+         FROM content_versions prev
+         WHERE v.id = $1
+           AND prev.id = (
+             SELECT id FROM content_versions
+             WHERE site_id = v.site_id AND content_type = v.content_type AND content_id = v.content_id
+               AND version_number < v.version_number
+             ORDER BY version_number DESC LIMIT 1
+           )
+           AND COALESCE(prev.title, '') = COALESCE(v.title, '')
+           AND COALESCE(prev.content, '') = COALESCE(v.content, '')
+           AND COALESCE(prev.excerpt, '') = COALESCE(v.excerpt, '')`,
+        [result.data.id]
+      );
+    } catch (error) {
+      console.error('Error keeping review stage of saved version:', error);
+    }
+
+    return result;
+  }
+
   /**
    * Gets the latest content hash for comparison
    */
@@ -1397,6 +1621,20 @@ export class VersionService extends EventEmitter {
           version.content_id
         ]
       );
+    } else if (version.content_type === ContentType.FRAGMENT) {
+      await client.query(
+        `UPDATE content_fragments SET
+         name = $1, key = COALESCE($2, key), content = $3, description = $4,
+         updated_at = CURRENT_TIMESTAMP
+         WHERE id = $5`,
+        [
+          version.title,
+          version.slug,
+          version.content || '',
+          version.data?.description || null,
+          version.content_id
+        ]
+      );
     }
   }
 
@@ -0,0 +1,686 @@
+import { pool } from '../utils/database';
+import type { ServiceResponse } from '../types/versioning';
+import { ContentType } from '../types/versioning';
+import { WorkflowStage } from '../types/versioning/core';
+import { hasPermission, Permission, OrganizationRole } from '../config/permissions';
+import { emailService } from './EmailService';
+import type { EmailRecipient } from './EmailService';
+
+/**
+ * Per-organization workflow settings
+ */
+export interface WorkflowSettings {
+  workflow_enabled: boolean;
+  workflow_approvals_required: number;
+}
+
+/**
+ * Review history entry from database
+ */
+export interface VersionReview {
+  id: number;
+  version_id: number;
+  action: 'submitted' | 'approved' | 'rejected';
+  actor_id: number | null;
+  actor_name?: string;
+  reason: string | null;
+  created_at: Date;
+}
+
+/**
+ * Version waiting in the review queue
+ */
+export interface ReviewQueueItem {
+  version_id: number;
+  content_type: ContentType;
+  content_id: number;
+  title: string;
+  version_number: number;
+  workflow_stage: WorkflowStage;
+  submitted_by: number | null;
+  submitted_by_name: string | null;
+  submitted_at: Date;
+  approvals_received: number;
+  approvals_required: number;
+}
+
+/**
+ * Version joined with the workflow settings of its organization
+ */
+interface VersionWorkflowContext {
+  id: number;
+  content_type: ContentType;
+  content_id: number;
+  title: string;
+  workflow_stage: WorkflowStage;
+  organization_id: number;
+  workflow_enabled: boolean;
+  workflow_approvals_required: number;
+}
+
+/**
+ * Fields of a post or page that reviewers approve
+ */
+export interface ReviewedContent {
+  title: string | null;
+  content: string | null;
+  excerpt: string | null;
+}
+
+const REVIEWED_FIELDS: Array<keyof ReviewedContent> = ['title', 'content', 'excerpt'];
+
+/**
+ * Reviewed fields of content after applying an update, and whether the update changes them
+ * Like the update queries, missing or null fields keep their current value.
+ */
+export function applyReviewedChanges(
+  current: ReviewedContent,
+  changes: Partial<ReviewedContent>
+): { content: ReviewedContent; changed: boolean } {
+  const content = {} as ReviewedContent;
+  let changed = false;
+  for (const field of REVIEWED_FIELDS) {
+    const value = changes[field];
+    changed = changed || (value != null && value !== current[field]);
+    content[field] = value ?? current[field] ?? null;
+  }
+  return { content, changed };
+}
+
+const MAX_APPROVALS_REQUIRED = 5;
+
+const appUrl = () => process.env.FRONTEND_URL || 'http://localhost:5173';
+
+/**
+ * WorkflowService
+ *
+ * Editorial review workflow: draft -> in_review -> approved -> published.
+ * Organizations opt in via workflow settings; when enabled, VersionService
+ * refuses to publish versions that have not been approved.
+ */
+export class WorkflowService {
+  /**
+   * Get workflow settings for an organization
+   * When userId is given, the user must be a member of the organization.
+   */
+  async getSettings(organizationId: number, userId?: number): Promise<ServiceResponse<WorkflowSettings>> {
+    try {
+      if (userId !== undefined && !(await this.getMemberRole(organizationId, userId))) {
+        return { success: false, error: 'You are not a member of this organization' };
+      }
+
+      const { rows } = await pool.query(
+        `SELECT workflow_enabled, workflow_approvals_required
+         FROM organizations WHERE id = $1 AND deleted_at IS NULL`,
+        [organizationId]
+      );
+
+      if (rows.length === 0) {
+        return { success: false, error: 'Organization not found' };
+      }
+
+      return { success: true, data: rows[0] };
+    } catch (error: any) {
+      console.error('Error getting workflow settings:', error);
+      return { success: false, error: 'Failed to get workflow settings' };
+    }
+  }
+
+  /**
+   * Update workflow settings
+   *
+   * Business Rules:
+   * - Only owner/admin can change settings
+   * - Between 1 and 5 approvals can be required
+   */
+  async updateSettings(
+    organizationId: number,
+    userId: number,
+    settings: { enabled?: boolean; approvalsRequired?: number }
+  ): Promise<ServiceResponse<WorkflowSettings>> {
+    try {
+      const { approvalsRequired } = settings;
+      if (
+        approvalsRequired !== undefined &&
+        (!Number.isInteger(approvalsRequired) || approvalsRequired < 1 || approvalsRequired > MAX_APPROVALS_REQUIRED)
+      ) {
+        return { success: false, error: `Approvals required must be between 1 and ${MAX_APPROVALS_REQUIRED}` };
+      }
+
+      const role = await this.getMemberRole(organizationId, userId);
+      if (!role) {
+        return { success: false, error: 'You are not a member of this organization' };
+      }
+      if (![OrganizationRole.OWNER, OrganizationRole.ADMIN].includes(role)) {
+        return { success: false, error: 'Only organization owners and admins can change workflow settings' };
+      }
+
+      const { rows } = await pool.query(
+        `UPDATE organizations
+         SET workflow_enabled = COALESCE($2, workflow_enabled),
+             workflow_approvals_required = COALESCE($3, workflow_approvals_required),
+             updated_at = NOW()
+         WHERE id = $1 AND deleted_at IS NULL
+         RETURNING workflow_enabled, workflow_approvals_required`,
+        [organizationId, settings.enabled ?? null, approvalsRequired ?? null]
+      );
+
+      if (rows.length === 0) {
+        return { success: false, error: 'Organization not found' };
+      }
+
+      return { success: true, data: rows[0] };
+    } catch (error: any) {
+      console.error('Error updating workflow settings:', error);
+      return { success: false, error: 'Failed to update workflow settings' };
+    }
+  }
+
+  /**
+   * Submit a draft version for review
+   *
+   * Business Rules:
+   * - Workflow must be enabled for the version's organization
+   * - Submitter needs edit permission
+   * - Only draft versions can be submitted (rejected versions return to draft)
+   * - Reviewers (members who can publish) are notified by email
+   */
+  async submitForReview(
+    versionId: number,
+    userId: number,
+    note?: string
+  ): Promise<ServiceResponse<VersionReview>> {
+    try {
+      const context = await this.getVersionContext(versionId);
+      if (!context) {
+        return { success: false, error: 'Version not found' };
+      }
+      if (!context.workflow_enabled) {
+        return { success: false, error: 'Editorial workflow is not enabled for this organization' };
+      }
+
+      const role = await this.getMemberRole(context.organization_id, userId);
+      if (!role || !hasPermission(role, Permission.EDIT_POSTS)) {
+        return { success: false, error: 'Insufficient permissions to submit for review' };
+      }
+
+      if (context.workflow_stage !== WorkflowStage.DRAFT) {
+        return { success: false, error: `Version is already ${context.workflow_stage.replace('_', ' ')}` };
+      }
+
+      const review = await this.transition(
+        versionId,
+        WorkflowStage.DRAFT,
+        WorkflowStage.IN_REVIEW,
+        'submitted',
+        userId,
+        note
+      );
+      if (!review) {
+        return { success: false, error: 'Version was modified by another request' };
+      }
+
+      this.notifyReviewers(context, userId, note).catch((error) => {
+        console.error('Failed to send review request emails:', error);
+      });
+
+      return { success: true, data: review };
+    } catch (error: any) {
+      console.error('Error submitting version for review:', error);
+      return { success: false, error: 'Failed to submit version for review' };
+    }
+  }
+
+  /**
+   * Approve a version under review
+   *
+   * Business Rules:
+   * - Reviewer needs publish permission
+   * - Submitters cannot approve their own submission
+   * - Each reviewer counts once per submission
+   * - Version moves to approved once enough approvals are collected
+   */
+  async approveVersion(
+    versionId: number,
+    userId: number,
+    comment?: string
+  ): Promise<ServiceResponse<{ workflow_stage: WorkflowStage; approvals_received: number; approvals_required: number }>> {
+    const client = await pool.connect();
+
+    try {
+      const context = await this.getVersionContext(versionId);
+      if (!context) {
+        return { success: false, error: 'Version not found' };
+      }
+
+      const access = await this.requireReviewer(context, userId);
+      if (!access.success) {
+        return { success: false, error: access.error };
+      }
+
+      if (context.workflow_stage !== WorkflowStage.IN_REVIEW) {
+        return { success: false, error: 'Version is not awaiting review' };
+      }
+
+      await client.query('BEGIN');
+
+      // Only reviews since the latest submission count
+      const { rows: [submission] } = await client.query(
+        `SELECT id, actor_id FROM version_reviews
+         WHERE version_id = $1 AND action = 'submitted'
+         ORDER BY id DESC LIMIT 1
+         FOR UPDATE`,
+        [versionId]
+      );
+
+      if (submission?.actor_id === userId) {
+        await client.query('ROLLBACK');
+        return { success: false, error: 'You cannot approve your own submission' };
+      }
+
+      const { rows: approvals } = await client.query(
+        `SELECT DISTINCT actor_id FROM version_reviews
+         WHERE version_id = $1 AND action = 'approved' AND id > $2`,
+        [versionId, submission?.id ?? 0]
+      );
+
+      if (approvals.some((row) => row.actor_id === userId)) {
+        await client.query('ROLLBACK');
+        return { success: false, error: 'You have already approved this version' };
+      }
+
+      await client.query(
+        `INSERT INTO version_reviews (version_id, action, actor_id, reason)
+         VALUES ($1, 'approved', $2, $3)`,
+        [versionId, userId, comment || null]
+      );
+
+      const approvalsReceived = approvals.length + 1;
+      const approved = approvalsReceived >= context.workflow_approvals_required;
+
+      if (approved) {
+        await client.query(
+          `UPDATE content_versions SET workflow_stage = $1 WHERE id = $2`,
+          [WorkflowStage.APPROVED, versionId]
+        );
+      }
+
+      await client.query('COMMIT');
+
+      if (approved && submission?.actor_id) {
+        this.notifySubmitter(context, submission.actor_id, userId, 'approved', comment).catch((error) => {
+          console.error('Failed to send review decision email:', error);
+        });
+      }
+
+      return {
+        success: true,
+        data: {
+          workflow_stage: approved ? WorkflowStage.APPROVED : WorkflowStage.IN_REVIEW,
+          approvals_received: approvalsReceived,
+          approvals_required: context.workflow_approvals_required,
+        },
+      };
+    } catch (error: any) {
+      await client.query('ROLLBACK');
+      console.error('Error approving version:', error);
+      return { success: false, error: 'Failed to approve version' };
+    } finally {
+      client.release();
+    }
+  }
+
+  /**
+   * Reject a version under review or already approved
+   *
+   * Business Rules:
+   * - Reviewer needs publish permission
+   * - A reason is required and is sent to the submitter
+   * - Version returns to draft; collected approvals are discarded
+   */
+  async rejectVersion(
+    versionId: number,
+    userId: number,
+    reason: string
+  ): Promise<ServiceResponse<VersionReview>> {
+    try {
+      if (!reason?.trim()) {
+        return { success: false, error: 'A reason is required to reject a version' };
+      }
+
+      const context = await this.getVersionContext(versionId);
+      if (!context) {
+        return { success: false, error: 'Version not found' };
+      }
+
+      const access = await this.requireReviewer(context, userId);
+      if (!access.success) {
+        return { success: false, error: access.error };
+      }
+
+      if (![WorkflowStage.IN_REVIEW, WorkflowStage.APPROVED].includes(context.workflow_stage)) {
+        return { success: false, error: 'Version is not awaiting review' };
+      }
+
+      const review = await this.transition(
+        versionId,
+        context.workflow_stage,
+        WorkflowStage.DRAFT,
+        'rejected',
+        userId,
+        reason.trim()
+      );
+      if (!review) {
+        return { success: false, error: 'Version was modified by another request' };
+      }
+
+      const submitterId = await this.getLatestSubmitter(versionId);
+      if (submitterId) {
+        this.notifySubmitter(context, submitterId, userId, 'rejected', reason.trim()).catch((error) => {
+          console.error('Failed to send review decision email:', error);
+        });
+      }
+
+      return { success: true, data: review };
+    } catch (error: any) {
+      console.error('Error rejecting version:', error);
+      return { success: false, error: 'Failed to reject version' };
+    }
+  }
+
+  /**
+   * List versions waiting for review or publication in an organization
+   */
+  async getReviewQueue(organizationId: number): Promise<ServiceResponse<ReviewQueueItem[]>> {
+    try {
+      const { rows } = await pool.query(
+        `SELECT cv.id AS version_id, cv.content_type, cv.content_id, cv.title,
+                cv.version_number, cv.workflow_stage,
+                sub.actor_id AS submitted_by,
+                NULLIF(TRIM(CONCAT(u.first_name, ' ', u.last_name)), '') AS submitted_by_name,
+                sub.created_at AS submitted_at,
+                (SELECT COUNT(DISTINCT vr.actor_id)::int FROM version_reviews vr
+                 WHERE vr.version_id = cv.id AND vr.action = 'approved' AND vr.id > sub.id) AS approvals_received,
+                o.workflow_approvals_required AS approvals_required
+         FROM content_versions cv
+         JOIN sites s ON s.id = cv.site_id
+         JOIN organizations o ON o.id = s.organization_id
+         JOIN LATERAL (
+           SELECT id, actor_id, created_at FROM version_reviews
+           WHERE version_id = cv.id AND action = 'submitted'
+           ORDER BY id DESC LIMIT 1
+         ) sub ON TRUE
+         LEFT JOIN users u ON u.id = sub.actor_id
+         WHERE o.id = $1 AND cv.workflow_stage IN ('in_review', 'approved')
+         ORDER BY sub.created_at ASC`,
+        [organizationId]
+      );
+
+      return { success: true, data: rows };
+    } catch (error: any) {
+      console.error('Error getting review queue:', error);
+      return { success: false, error: 'Failed to get review queue' };
+    }
+  }
+
+  /**
+   * Get the submit/approve/reject history of a version
+   */
+  async getReviewHistory(versionId: number): Promise<ServiceResponse<VersionReview[]>> {
+    try {
+      const { rows } = await pool.query(
+        `SELECT vr.*, NULLIF(TRIM(CONCAT(u.first_name, ' ', u.last_name)), '') AS actor_name
+         FROM version_reviews vr
+         LEFT JOIN users u ON u.id = vr.actor_id
+         WHERE vr.version_id = $1
+         ORDER BY vr.created_at ASC, vr.id ASC`,
+        [versionId]
+      );
+
+      return { success: true, data: rows };
+    } catch (error: any) {
+      console.error('Error getting review history:', error);
+      return { success: false, error: 'Failed to get review history' };
+    }
+  }
+
+  /**
+   * Check whether content may be made public without going through a version publish
+   * True when workflow is off or the latest version has been approved. When the
+   * content that would go live is given, it must also match that version, so
+   * edits made after the approval cannot go live unreviewed.
+   */
+  async canPublishContent(
+    organizationId: number,
+    contentType: ContentType,
+    contentId?: number,
+    content?: ReviewedContent
+  ): Promise<ServiceResponse<boolean>> {
+    try {
+      const settings = await this.getSettings(organizationId);
+      if (!settings.success) {
+        return { success: false, error: settings.error };
+      }
+      if (!settings.data!.workflow_enabled) {
+        return { success: true, data: true };
+      }
+      if (!contentId) {
+        return { success: true, data: false };
+      }
+
+      const { rows } = await pool.query(
+        `SELECT workflow_stage, title, content, excerpt FROM content_versions
+         WHERE content_type = $1 AND content_id = $2
+         ORDER BY version_number DESC LIMIT 1`,
+        [contentType, contentId]
+      );
+
+      const version = rows[0];
+      const stage = version?.workflow_stage;
+      if (stage !== WorkflowStage.APPROVED && stage !== WorkflowStage.PUBLISHED) {
+        return { success: true, data: false };
+      }
+      const matches = !content || REVIEWED_FIELDS.every((field) => (content[field] ?? '') === (version[field] ?? ''));
+      return { success: true, data: matches };
+    } catch (error: any) {
+      console.error('Error checking publish eligibility:', error);
+      return { success: false, error: 'Failed to check publish eligibility' };
+    }
+  }
+
+  /**
+   * Mark the approved version of content as published once it goes live
+   * Called after content is published or scheduled outside of a version publish.
+   */
+  async markContentPublished(contentType: ContentType, contentId: number): Promise<ServiceResponse<void>> {
+    try {
+      await pool.query(
+        `UPDATE content_versions SET workflow_stage = 'published'
+         WHERE workflow_stage = 'approved' AND id = (
+           SELECT id FROM content_versions
+           WHERE content_type = $1 AND content_id = $2
+           ORDER BY version_number DESC LIMIT 1
+         )`,
+        [contentType, contentId]
+      );
+
+      return { success: true };
+    } catch (error: any) {
+      console.error('Error marking content published:', error);
+      return { success: false, error: 'Failed to update workflow stage' };
+    }
+  }
+
+  /**
+   * Move a version between stages and record the review entry
+   * Returns null if the version was no longer in the expected stage.
+   */
+  private async transition(
+    versionId: number,
+    from: WorkflowStage,
+    to: WorkflowStage,
+    action: VersionReview['action'],
+    userId: number,
+    reason?: string
+  ): Promise<VersionReview | null> {
+    const client = await pool.connect();
+
+    try {
+      await client.query('BEGIN');
+
+      const { rowCount } = await client.query(
+        `UPDATE content_versions SET workflow_stage = $1
+         WHERE id = $2 AND workflow_stage = $3`,
+        [to, versionId, from]
+      );
+
+      if (!rowCount) {
+        await client.query('ROLLBACK');
+        return null;
+      }
+
+      const { rows: [review] } = await client.query(
+        `INSERT INTO version_reviews (version_id, action, actor_id, reason)
+         VALUES ($1, $2, $3, $4)
+         RETURNING *`,
+        [versionId, action, userId, reason || null]
+      );
+
+      await client.query('COMMIT');
+      return review;
+    } catch (error) {
+      await client.query('ROLLBACK');
+      throw error;
+    } finally {
+      client.release();
+    }
+  }
+
+  private async getVersionContext(versionId: number): Promise<VersionWorkflowContext | null> {
+    const { rows } = await pool.query(
+      `SELECT cv.id, cv.content_type, cv.content_id, cv.title, cv.workflow_stage,
+              o.id AS organization_id, o.workflow_enabled, o.workflow_approvals_required
+       FROM content_versions cv
+       JOIN sites s ON s.id = cv.site_id
+       JOIN organizations o ON o.id = s.organization_id
+       WHERE cv.id = $1`,
+      [versionId]
+    );
+
+    return rows[0] || null;
+  }
+
+  private async getMemberRole(organizationId: number, userId: number): Promise<OrganizationRole | null> {
+    const { rows } = await pool.query(
+      `SELECT role FROM organization_members
+       WHERE organization_id = $1 AND user_id = $2 AND deleted_at IS NULL`,
+      [organizationId, userId]
+    );
+
+    return rows[0]?.role ?? null;
+  }
+
+  private async requireReviewer(context: VersionWorkflowContext, userId: number): Promise<ServiceResponse<void>> {
+    if (!context.workflow_enabled) {
+      return { success: false, error: 'Editorial workflow is not enabled for this organization' };
+    }
+
+    const role = await this.getMemberRole(context.organization_id, userId);
+    if (!role || !hasPermission(role, Permission.PUBLISH_POSTS)) {
+      return { success: false, error: 'Insufficient permissions to review content' };
+    }
+
+    return { success: true };
+  }
+
+  private async getLatestSubmitter(versionId: number): Promise<number | null> {
+    const { rows } = await pool.query(
+      `SELECT actor_id FROM version_reviews
+       WHERE version_id = $1 AND action = 'submitted'
+       ORDER BY id DESC LIMIT 1`,
+      [versionId]
+    );
+
+    return rows[0]?.actor_id ?? null;
+  }
+
+  private async getUserRecipient(userId: number): Promise<EmailRecipient & { id: number } | null> {
+    const { rows } = await pool.query(
+      `SELECT id, email, NULLIF(TRIM(CONCAT(first_name, ' ', last_name)), '') AS name
+       FROM users WHERE id = $1`,
+      [userId]
+    );
+
+    if (rows.length === 0) {
+      return null;
+    }
+
+    return { id: rows[0].id, email: rows[0].email, name: rows[0].name || undefined };
+  }
+
+  private displayName(recipient: EmailRecipient | null): string {
+    return recipient?.name || recipient?.email.split('@')[0] || 'A teammate';
+  }
+
+  private async notifyReviewers(context: VersionWorkflowContext, submitterId: number, note?: string): Promise<void> {
+    const reviewerRoles = Object.values(OrganizationRole).filter((role) =>
+      hasPermission(role, Permission.PUBLISH_POSTS)
+    );
+
+    const { rows: reviewers } = await pool.query(
+      `SELECT u.email, NULLIF(TRIM(CONCAT(u.first_name, ' ', u.last_name)), '') AS name
+       FROM organization_members om
+       JOIN users u ON u.id = om.user_id
+       WHERE om.organization_id = $1 AND om.deleted_at IS NULL
+         AND om.role = ANY($2) AND om.user_id <> $3`,
+      [context.organization_id, reviewerRoles, submitterId]
+    );
+
+    if (reviewers.length === 0) {
+      return;
+    }
+
+    const submitter = await this.getUserRecipient(submitterId);
+
+    await emailService.sendReviewRequested(
+      reviewers.map((row) => ({ email: row.email, name: row.name || undefined })),
+      {
+        content_title: context.title,
+        content_type: context.content_type,
+        requester_name: this.displayName(submitter),
+        review_url: `${appUrl()}/admin/reviews`,
+        note,
+      }
+    );
+  }
+
+  private async notifySubmitter(
+    context: VersionWorkflowContext,
+    submitterId: number,
+    reviewerId: number,
+    decision: 'approved' | 'rejected',
+    reason?: string
+  ): Promise<void> {
+    const [submitter, reviewer] = await Promise.all([
+      this.getUserRecipient(submitterId),
+      this.getUserRecipient(reviewerId),
+    ]);
+
+    if (!submitter) {
+      return;
+    }
+
+    await emailService.sendReviewDecision([submitter], {
+      user_name: submitter.name,
+      content_title: context.title,
+      content_type: context.content_type,
+      reviewer_name: this.displayName(reviewer),
+      decision,
+      reason,
+      content_url: `${appUrl()}/admin/${context.content_type}s/${context.content_id}/edit`,
+    });
+  }
+}
+
+// Export singleton instance
+export const workflowService = new WorkflowService();
@@ -20,6 +20,10 @@ export interface Category {
   id: number;
   name: string;
   slug: string;
+  // Nested under this category; null at the top level
+  parent_id: number | null;
+  // Slugs from the top-level category down, e.g. tech/javascript
+  path: string;
   description?: string;
   seo_indexed: boolean;
   created_at: Date;
@@ -39,8 +43,16 @@ export interface Post {
   meta_description?: string;
   seo_indexed: boolean;
   scheduled_at?: Date;
+  // Failed scheduled publish attempts, the last error and when to try again
+  publish_attempts?: number;
+  publish_error?: string | null;
+  next_publish_attempt_at?: Date | null;
   view_count: number;
   featured: boolean;
+  locale: string;
+  translation_group_id: number;
+  translation_source_id?: number | null;
+  translation_source_updated_at?: Date | null;
   created_at: Date;
   updated_at: Date;
   category?: Category;
@@ -58,6 +70,17 @@ export interface Page {
   meta_description?: string;
   seo_indexed: boolean;
   published: boolean;
+  parent_id: number | null;
+  // Slugs from the top-level page down to this one, e.g. about/team
+  path: string;
+  position: number;
+  // Fields defined by the template schema
+  data?: Record<string, unknown>;
+  template_version?: number | null;
+  locale: string;
+  translation_group_id: number;
+  translation_source_id?: number | null;
+  translation_source_updated_at?: Date | null;
   created_at: Date;
   updated_at: Date;
 }
@@ -90,6 +113,7 @@ export interface SiteSetting {
 export interface CreatePostData {
   title: string;
   slug?: string;
+  locale?: string;
   excerpt?: string;
   content?: string;
   featured_image?: string;
@@ -124,6 +148,7 @@ export interface CreateCategoryData {
   slug?: string;
   description?: string;
   seo_indexed?: boolean;
+  parent_id?: number | null;
 }
 
 export interface UpdateCategoryData {
@@ -131,17 +156,21 @@ export interface UpdateCategoryData {
   slug?: string;
   description?: string;
   seo_indexed?: boolean;
+  parent_id?: number | null;
 }
 
 export interface CreatePageData {
   title: string;
   slug?: string;
+  locale?: string;
   content?: string;
   template?: string;
   meta_title?: string;
   meta_description?: string;
   seo_indexed?: boolean;
   published?: boolean;
+  parent_id?: number | null;
+  data?: Record<string, unknown>;
 }
 
 export interface UpdatePageData {
@@ -153,6 +182,8 @@ export interface UpdatePageData {
   meta_description?: string;
   seo_indexed?: boolean;
   published?: boolean;
+  parent_id?: number | null;
+  data?: Record<string, unknown>;
 }
 
 export interface QueryParams {
@@ -163,6 +194,7 @@ export interface QueryParams {
   tag?: string;
   status?: string;
   featured?: boolean;
+  locale?: string;
   sort?: string;
   order?: 'asc' | 'desc';
 }
@@ -12,7 +12,8 @@
 
 export enum ContentType {
   POST = 'post',
-  PAGE = 'page'
+  PAGE = 'page',
+  FRAGMENT = 'fragment'
 }
 
 export enum VersionType {
@@ -371,6 +372,7 @@ export enum ServiceErrorCode {
   QUOTA_EXCEEDED = 'QUOTA_EXCEEDED',               // 403
   UNAUTHORIZED = 'UNAUTHORIZED',                   // 401
   FORBIDDEN = 'FORBIDDEN',                         // 403
+  CONFLICT = 'CONFLICT',                           // 409
 
   // Server errors (5xx)
   INTERNAL_ERROR = 'INTERNAL_ERROR',               // 500
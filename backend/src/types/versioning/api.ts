@@ -377,6 +377,9 @@ export interface CreateCommentRequest {
   parent_id?: number; // For replies
   line_number?: number; // For inline comments
   field_path?: string; // JSON path for structured content
+  range_start?: number; // Text-range anchor within field_path
+  range_end?: number;
+  quoted_text?: string;
   mentions?: number[]; // User IDs to notify
 }
 
@@ -33,6 +33,7 @@ export interface ContentVersion {
   // Version metadata
   version_number: number;
   version_type: VersionType;
+  workflow_stage?: WorkflowStage;
   is_current_draft: boolean;
   is_current_published: boolean;
 
@@ -292,6 +293,9 @@ export interface VersionComment {
   // Positioning (for inline comments)
   line_number?: number;
   field_path?: string; // JSON path for structured content
+  range_start?: number; // Character offsets of the anchored text within field_path
+  range_end?: number;
+  quoted_text?: string;
 
   // Status tracking
   status: CommentStatus;
@@ -352,7 +356,7 @@ export interface PreviewAccessLog {
  */
 export enum WorkflowStage {
   DRAFT = 'draft',
-  REVIEW = 'review',
+  IN_REVIEW = 'in_review',
   APPROVED = 'approved',
   SCHEDULED = 'scheduled',
   PUBLISHED = 'published',
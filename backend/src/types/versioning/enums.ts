@@ -8,7 +8,8 @@
  */
 export enum ContentType {
   POST = 'post',
-  PAGE = 'page'
+  PAGE = 'page',
+  FRAGMENT = 'fragment'
 }
 
 /**
@@ -88,7 +88,7 @@ export function isVersionComment(value: unknown): value is VersionComment {
  * Check if a value is a valid ContentType
  */
 export function isContentType(value: unknown): value is ContentType {
-  return value === ContentType.POST || value === ContentType.PAGE;
+  return value === ContentType.POST || value === ContentType.PAGE || value === ContentType.FRAGMENT;
 }
 
 /**
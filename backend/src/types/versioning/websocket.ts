@@ -82,6 +82,7 @@ export interface VersionDeletedEvent {
 export interface VersionAutoSavedEvent {
   version_id: number;
   auto_save_id: number;
+  saved_by?: UserReference;
   site_id: number;
   timestamp: Date;
 }
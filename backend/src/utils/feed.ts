@@ -0,0 +1,154 @@
+/**
+ * Syndication feed rendering: RSS 2.0, Atom 1.0 and JSON Feed 1.1
+ */
+
+export type FeedFormat = 'rss' | 'atom' | 'json';
+
+export const FEED_CONTENT_TYPES: Record<FeedFormat, string> = {
+  rss: 'application/rss+xml; charset=utf-8',
+  atom: 'application/atom+xml; charset=utf-8',
+  json: 'application/feed+json; charset=utf-8',
+};
+
+export interface FeedChannel {
+  title: string;
+  description?: string;
+  // Public page the feed mirrors, e.g. the blog or a category
+  siteUrl: string;
+  feedUrl: string;
+  language: string;
+  updated: Date;
+}
+
+export interface FeedItem {
+  url: string;
+  title: string;
+  // HTML body; omitted when the site only syndicates excerpts
+  content?: string;
+  summary?: string;
+  published: Date;
+  updated: Date;
+  author?: string;
+  categories: string[];
+  image?: string;
+}
+
+// Characters XML 1.0 does not allow, even escaped
+// eslint-disable-next-line no-control-regex
+const INVALID_XML_CHARS = /[\u0000-\u0008\u000B\u000C\u000E-\u001F\uFFFE\uFFFF]/g;
+
+export function escapeXml(value: string): string {
+  return value
+    .replace(INVALID_XML_CHARS, '')
+    .replace(/&/g, '&amp;')
+    .replace(/</g, '&lt;')
+    .replace(/>/g, '&gt;')
+    .replace(/"/g, '&quot;')
+    .replace(/'/g, '&apos;');
+}
+
+function cdata(value: string): string {
+  return `<![CDATA[${value.replace(INVALID_XML_CHARS, '').replace(/]]>/g, ']]]]><![CDATA[>')}]]>`;
+}
+
+/**
+ * Make root-relative src and href attributes absolute, since feed readers
+ * resolve them against the feed rather than the site
+ */
+export function absolutizeUrls(html: string, origin: string): string {
+  return html.replace(/(\s(?:src|href)=["'])\/(?!\/)/g, `$1${origin}/`);
+}
+
+function renderRss(channel: FeedChannel, items: FeedItem[]): string {
+  const entries = items.map((item) => [
+    '    <item>',
+    `      <title>${escapeXml(item.title)}</title>`,
+    `      <link>${escapeXml(item.url)}</link>`,
+    `      <guid isPermaLink="true">${escapeXml(item.url)}</guid>`,
+    `      <pubDate>${item.published.toUTCString()}</pubDate>`,
+    item.author ? `      <dc:creator>${escapeXml(item.author)}</dc:creator>` : '',
+    ...item.categories.map((category) => `      <category>${escapeXml(category)}</category>`),
+    item.summary ? `      <description>${cdata(item.summary)}</description>` : '',
+    item.content ? `      <content:encoded>${cdata(item.content)}</content:encoded>` : '',
+    '    </item>',
+  ].filter(Boolean).join('\n'));
+
+  return [
+    '<?xml version="1.0" encoding="UTF-8"?>',
+    '<rss version="2.0" xmlns:atom="http://www.w3.org/2005/Atom" xmlns:content="http://purl.org/rss/1.0/modules/content/" xmlns:dc="http://purl.org/dc/elements/1.1/">',
+    '  <channel>',
+    `    <title>${escapeXml(channel.title)}</title>`,
+    `    <link>${escapeXml(channel.siteUrl)}</link>`,
+    `    <description>${escapeXml(channel.description || channel.title)}</description>`,
+    `    <language>${escapeXml(channel.language)}</language>`,
+    `    <lastBuildDate>${channel.updated.toUTCString()}</lastBuildDate>`,
+    `    <atom:link href="${escapeXml(channel.feedUrl)}" rel="self" type="application/rss+xml"/>`,
+    ...entries,
+    '  </channel>',
+    '</rss>',
+  ].join('\n') + '\n';
+}
+
+function renderAtom(channel: FeedChannel, items: FeedItem[]): string {
+  const entries = items.map((item) => [
+    '  <entry>',
+    `    <title>${escapeXml(item.title)}</title>`,
+    `    <link href="${escapeXml(item.url)}"/>`,
+    `    <id>${escapeXml(item.url)}</id>`,
+    `    <published>${item.published.toISOString()}</published>`,
+    `    <updated>${item.updated.toISOString()}</updated>`,
+    item.author ? `    <author><name>${escapeXml(item.author)}</name></author>` : '',
+    ...item.categories.map((category) => `    <category term="${escapeXml(category)}"/>`),
+    item.summary ? `    <summary type="html">${escapeXml(item.summary)}</summary>` : '',
+    item.content ? `    <content type="html">${escapeXml(item.content)}</content>` : '',
+    '  </entry>',
+  ].filter(Boolean).join('\n'));
+
+  return [
+    '<?xml version="1.0" encoding="UTF-8"?>',
+    `<feed xmlns="http://www.w3.org/2005/Atom" xml:lang="${escapeXml(channel.language)}">`,
+    `  <title>${escapeXml(channel.title)}</title>`,
+    channel.description ? `  <subtitle>${escapeXml(channel.description)}</subtitle>` : '',
+    `  <link href="${escapeXml(channel.siteUrl)}"/>`,
+    `  <link rel="self" type="application/atom+xml" href="${escapeXml(channel.feedUrl)}"/>`,
+    `  <id>${escapeXml(channel.feedUrl)}</id>`,
+    `  <updated>${channel.updated.toISOString()}</updated>`,
+    ...entries,
+    '</feed>',
+  ].filter(Boolean).join('\n') + '\n';
+}
+
+function renderJsonFeed(channel: FeedChannel, items: FeedItem[]): string {
+  return JSON.stringify({
+    version: 'https://jsonfeed.org/version/1.1',
+    title: channel.title,
+    home_page_url: channel.siteUrl,
+    feed_url: channel.feedUrl,
+    description: channel.description,
+    language: channel.language,
+    items: items.map((item) => ({
+      id: item.url,
+      url: item.url,
+      title: item.title,
+      // JSON Feed requires a body, so excerpt-only feeds send the summary
+      content_html: item.content ?? item.summary ?? '',
+      summary: item.summary,
+      image: item.image,
+      date_published: item.published.toISOString(),
+      date_modified: item.updated.toISOString(),
+      authors: item.author ? [{ name: item.author }] : undefined,
+      tags: item.categories.length > 0 ? item.categories : undefined,
+    })),
+  }, null, 2);
+}
+
+export function renderFeed(format: FeedFormat, channel: FeedChannel, items: FeedItem[]): string {
+  switch (format) {
+    case 'atom':
+      return renderAtom(channel, items);
+    case 'json':
+      return renderJsonFeed(channel, items);
+    default:
+      return renderRss(channel, items);
+  }
+}
@@ -0,0 +1,318 @@
+/**
+ * The part of JSON Schema that page templates use to describe page data.
+ * Besides the standard keywords, `format` picks the editor field:
+ * `html` for rich text, `image` for an image URL, `page-reference`,
+ * `post-reference` and `fragment-reference` for the id of another page, post
+ * or content fragment. Arrays of objects
+ * are edited as repeaters. An array with the `blocks` format holds page
+ * builder blocks, `{ id, type, props }`, with the props of each block type
+ * described under `blockTypes`.
+ */
+export type JsonSchemaType = 'string' | 'number' | 'integer' | 'boolean' | 'object' | 'array' | 'null';
+
+export interface JsonSchema {
+  type?: JsonSchemaType | JsonSchemaType[];
+  title?: string;
+  description?: string;
+  format?: string;
+  enum?: unknown[];
+  default?: unknown;
+  properties?: Record<string, JsonSchema>;
+  required?: string[];
+  additionalProperties?: boolean;
+  items?: JsonSchema;
+  minLength?: number;
+  maxLength?: number;
+  pattern?: string;
+  minimum?: number;
+  maximum?: number;
+  minItems?: number;
+  maxItems?: number;
+  blockTypes?: Record<string, JsonSchema>;
+}
+
+export interface SchemaError {
+  field: string;
+  message: string;
+}
+
+export type ReferenceKind = 'page' | 'post' | 'fragment';
+
+const TYPES: JsonSchemaType[] = ['string', 'number', 'integer', 'boolean', 'object', 'array', 'null'];
+
+const REFERENCE_FORMATS: Record<string, ReferenceKind> = {
+  'page-reference': 'page',
+  'post-reference': 'post',
+  'fragment-reference': 'fragment',
+};
+
+const isObject = (value: unknown): value is Record<string, unknown> =>
+  typeof value === 'object' && value !== null && !Array.isArray(value);
+
+const typeOf = (value: unknown): JsonSchemaType => {
+  if (value === null) return 'null';
+  if (Array.isArray(value)) return 'array';
+  if (typeof value === 'number') return Number.isInteger(value) ? 'integer' : 'number';
+  return typeof value as JsonSchemaType;
+};
+
+const matchesType = (value: unknown, type: JsonSchemaType): boolean => {
+  const actual = typeOf(value);
+  return actual === type || (type === 'number' && actual === 'integer');
+};
+
+const join = (path: string, key: string | number): string => (path ? `${path}.${key}` : String(key));
+
+/**
+ * An object schema with no properties accepts any data, which is what
+ * templates without a schema (the default `{}`) mean
+ */
+export function hasSchemaFields(schema: JsonSchema | null | undefined): schema is JsonSchema {
+  return isObject(schema) && isObject(schema.properties) && Object.keys(schema.properties).length > 0;
+}
+
+/**
+ * Problems with a template schema itself: unknown types and keywords with
+ * the wrong shape, reported against their place in the schema
+ */
+export function checkSchema(schema: unknown, path = ''): SchemaError[] {
+  if (!isObject(schema)) {
+    return [{ field: path, message: 'must be an object' }];
+  }
+  const errors: SchemaError[] = [];
+  const s = schema as JsonSchema;
+
+  const types = s.type === undefined ? [] : Array.isArray(s.type) ? s.type : [s.type];
+  types.filter((type) => !TYPES.includes(type)).forEach((type) => {
+    errors.push({ field: join(path, 'type'), message: `unknown type "${type}"` });
+  });
+  if (s.properties !== undefined) {
+    if (!isObject(s.properties)) {
+      errors.push({ field: join(path, 'properties'), message: 'must be an object' });
+    } else {
+      Object.entries(s.properties).forEach(([key, property]) => {
+        errors.push(...checkSchema(property, join(join(path, 'properties'), key)));
+      });
+    }
+  }
+  if (s.required !== undefined && !(Array.isArray(s.required) && s.required.every((key) => typeof key === 'string'))) {
+    errors.push({ field: join(path, 'required'), message: 'must be a list of property names' });
+  }
+  if (s.items !== undefined) {
+    errors.push(...checkSchema(s.items, join(path, 'items')));
+  }
+  if (s.blockTypes !== undefined) {
+    if (!isObject(s.blockTypes)) {
+      errors.push({ field: join(path, 'blockTypes'), message: 'must be an object' });
+    } else {
+      Object.entries(s.blockTypes).forEach(([type, blockSchema]) => {
+        errors.push(...checkSchema(blockSchema, join(join(path, 'blockTypes'), type)));
+      });
+    }
+  } else if (s.format === 'blocks') {
+    errors.push({ field: join(path, 'blockTypes'), message: 'is required for blocks' });
+  }
+  if (s.enum !== undefined && !Array.isArray(s.enum)) {
+    errors.push({ field: join(path, 'enum'), message: 'must be a list' });
+  }
+  if (s.pattern !== undefined) {
+    try {
+      new RegExp(s.pattern);
+    } catch {
+      errors.push({ field: join(path, 'pattern'), message: 'is not a valid regular expression' });
+    }
+  }
+  return errors;
+}
+
+/**
+ * Check data against a schema, returning every problem found with the dotted
+ * path of the value, e.g. team.2.name
+ */
+export function validateAgainstSchema(schema: JsonSchema, value: unknown, path = ''): SchemaError[] {
+  const errors: SchemaError[] = [];
+  const fail = (message: string) => errors.push({ field: path, message });
+
+  const types = schema.type === undefined ? [] : Array.isArray(schema.type) ? schema.type : [schema.type];
+  if (types.length > 0 && !types.some((type) => matchesType(value, type))) {
+    fail(`must be of type ${types.join(' or ')}`);
+    return errors;
+  }
+
+  if (schema.enum && !schema.enum.some((option) => JSON.stringify(option) === JSON.stringify(value))) {
+    fail(`must be one of ${schema.enum.map((option) => JSON.stringify(option)).join(', ')}`);
+  }
+
+  if (typeof value === 'string') {
+    if (schema.minLength !== undefined && value.length < schema.minLength) {
+      fail(schema.minLength === 1 ? 'is required' : `must be at least ${schema.minLength} characters`);
+    }
+    if (schema.maxLength !== undefined && value.length > schema.maxLength) {
+      fail(`must be at most ${schema.maxLength} characters`);
+    }
+    if (schema.pattern !== undefined && !new RegExp(schema.pattern).test(value)) {
+      fail('has an invalid format');
+    }
+  }
+
+  if (typeof value === 'number') {
+    if (schema.minimum !== undefined && value < schema.minimum) {
+      fail(`must be at least ${schema.minimum}`);
+    }
+    if (schema.maximum !== undefined && value > schema.maximum) {
+      fail(`must be at most ${schema.maximum}`);
+    }
+  }
+
+  if (Array.isArray(value)) {
+    if (schema.minItems !== undefined && value.length < schema.minItems) {
+      fail(`must have at least ${schema.minItems} item${schema.minItems === 1 ? '' : 's'}`);
+    }
+    if (schema.maxItems !== undefined && value.length > schema.maxItems) {
+      fail(`must have at most ${schema.maxItems} item${schema.maxItems === 1 ? '' : 's'}`);
+    }
+    if (schema.items) {
+      value.forEach((item, index) => errors.push(...validateAgainstSchema(schema.items!, item, join(path, index))));
+    }
+    if (schema.blockTypes) {
+      const ids = new Set<unknown>();
+      value.forEach((item, index) => {
+        errors.push(...validateBlock(schema.blockTypes!, item, join(path, index)));
+        if (isObject(item) && typeof item.id === 'string' && item.id !== '') {
+          if (ids.has(item.id)) errors.push({ field: join(join(path, index), 'id'), message: 'must be unique' });
+          ids.add(item.id);
+        }
+      });
+    }
+  }
+
+  if (isObject(value)) {
+    const properties = schema.properties || {};
+    (schema.required || []).forEach((key) => {
+      if (value[key] === undefined || value[key] === null || value[key] === '') {
+        errors.push({ field: join(path, key), message: 'is required' });
+      }
+    });
+    Object.entries(value).forEach(([key, item]) => {
+      if (properties[key]) {
+        // Optional fields may be left empty
+        if (item === null && !(schema.required || []).includes(key)) return;
+        errors.push(...validateAgainstSchema(properties[key], item, join(path, key)));
+      } else if (schema.additionalProperties === false) {
+        errors.push({ field: join(path, key), message: 'is not a field of this template' });
+      }
+    });
+  }
+
+  return errors;
+}
+
+/**
+ * A page builder block: a unique id, a type declared by the template and
+ * props matching that type's schema
+ */
+function validateBlock(blockTypes: Record<string, JsonSchema>, block: unknown, path: string): SchemaError[] {
+  if (!isObject(block)) {
+    return [{ field: path, message: 'must be a block' }];
+  }
+  const errors: SchemaError[] = [];
+  if (typeof block.id !== 'string' || block.id === '') {
+    errors.push({ field: join(path, 'id'), message: 'is required' });
+  }
+  const blockSchema = typeof block.type === 'string' ? blockTypes[block.type] : undefined;
+  if (!blockSchema) {
+    errors.push({
+      field: join(path, 'type'),
+      message: `must be one of ${Object.keys(blockTypes).map((type) => JSON.stringify(type)).join(', ')}`,
+    });
+    return errors;
+  }
+  errors.push(...validateAgainstSchema({ type: 'object', ...blockSchema }, block.props ?? {}, join(path, 'props')));
+  return errors;
+}
+
+/**
+ * Ids of the pages and posts that data refers to through reference fields
+ */
+export function collectReferences(
+  schema: JsonSchema,
+  value: unknown,
+  path = ''
+): Array<{ kind: ReferenceKind; id: number; field: string }> {
+  const kind = schema.format ? REFERENCE_FORMATS[schema.format] : undefined;
+  if (kind && typeof value === 'number') {
+    return [{ kind, id: value, field: path }];
+  }
+  if (Array.isArray(value) && schema.blockTypes) {
+    return value.flatMap((block, index) => {
+      if (!isObject(block) || typeof block.type !== 'string' || !schema.blockTypes![block.type]) return [];
+      return collectReferences(schema.blockTypes![block.type], block.props, join(join(path, index), 'props'));
+    });
+  }
+  if (Array.isArray(value) && schema.items) {
+    return value.flatMap((item, index) => collectReferences(schema.items!, item, join(path, index)));
+  }
+  if (isObject(value) && schema.properties) {
+    return Object.entries(schema.properties).flatMap(([key, property]) =>
+      collectReferences(property, value[key], join(path, key))
+    );
+  }
+  return [];
+}
+
+/**
+ * Bring data saved under an older version of a template schema in line with
+ * the current one: fields the schema added get their default, fields it no
+ * longer allows are dropped, and numbers and strings are converted where
+ * nothing is lost. Whatever still does not validate is left for an editor.
+ */
+export function migrateToSchema(schema: JsonSchema, value: unknown, defaults?: unknown): unknown {
+  const types = schema.type === undefined ? [] : Array.isArray(schema.type) ? schema.type : [schema.type];
+
+  if (value === undefined) {
+    return defaults !== undefined ? defaults : schema.default;
+  }
+
+  if (types.includes('object') || (types.length === 0 && schema.properties)) {
+    if (!isObject(value)) return value;
+    const defaultValues = isObject(defaults) ? defaults : {};
+    const result: Record<string, unknown> = {};
+    Object.entries(value).forEach(([key, item]) => {
+      if (schema.properties?.[key] || schema.additionalProperties !== false) {
+        result[key] = schema.properties?.[key]
+          ? migrateToSchema(schema.properties[key], item, defaultValues[key])
+          : item;
+      }
+    });
+    Object.entries(schema.properties || {}).forEach(([key, property]) => {
+      if (result[key] === undefined) {
+        const migrated = migrateToSchema(property, undefined, defaultValues[key]);
+        if (migrated !== undefined) result[key] = migrated;
+      }
+    });
+    return result;
+  }
+
+  if (Array.isArray(value) && schema.blockTypes) {
+    // Blocks of types the template no longer declares are left for an editor
+    return value.map((block) => {
+      if (!isObject(block) || typeof block.type !== 'string' || !schema.blockTypes![block.type]) return block;
+      return { ...block, props: migrateToSchema({ type: 'object', ...schema.blockTypes![block.type] }, block.props ?? {}) };
+    });
+  }
+
+  if (Array.isArray(value) && schema.items) {
+    return value.map((item) => migrateToSchema(schema.items!, item));
+  }
+
+  if (types.includes('string') && typeof value === 'number') {
+    return String(value);
+  }
+  if ((types.includes('number') || types.includes('integer')) && typeof value === 'string' && value.trim() !== '') {
+    const number = Number(value);
+    if (!Number.isNaN(number) && (types.includes('number') || Number.isInteger(number))) {
+      return number;
+    }
+  }
+  return value;
+}
@@ -0,0 +1,58 @@
+/**
+ * Locale used when a site has not configured one
+ */
+export const DEFAULT_LOCALE = 'en';
+
+/**
+ * Language tags such as `en`, `de` or `pt-BR`
+ */
+export const LOCALE_PATTERN = /^[a-z]{2,3}(-[A-Z]{2})?$/;
+
+/**
+ * Locale configuration stored in sites.settings
+ */
+export interface SiteLocales {
+  default_locale: string;
+  locales: string[];
+}
+
+/**
+ * Read default_locale and locales from sites.settings, falling back to a
+ * single-locale site. The default locale is always enabled and listed first.
+ */
+export function resolveSiteLocales(settings: any): SiteLocales {
+  const configured = typeof settings?.default_locale === 'string' && LOCALE_PATTERN.test(settings.default_locale)
+    ? settings.default_locale
+    : DEFAULT_LOCALE;
+  const enabled: string[] = Array.isArray(settings?.locales)
+    ? settings.locales.filter((locale: unknown) => typeof locale === 'string' && LOCALE_PATTERN.test(locale))
+    : [];
+
+  return {
+    default_locale: configured,
+    locales: [configured, ...enabled.filter((locale) => locale !== configured)],
+  };
+}
+
+/**
+ * SQL expression for the default locale of the site that owns a row. Content
+ * without a site belongs to the default site.
+ */
+export function siteDefaultLocaleSql(siteIdColumn: string): string {
+  return `COALESCE(
+    (SELECT s.settings->>'default_locale' FROM sites s
+     WHERE s.id = COALESCE(${siteIdColumn}, (SELECT id FROM sites WHERE is_default = true ORDER BY id LIMIT 1))),
+    '${DEFAULT_LOCALE}'
+  )`;
+}
+
+/**
+ * Public path for a locale. The default locale is served from the unprefixed
+ * routes, every other locale under /:locale (matches the frontend routes).
+ */
+export function localizePath(path: string, locale: string | undefined, defaultLocale: string): string {
+  if (!locale || locale === defaultLocale) {
+    return path;
+  }
+  return path === '/' ? `/${locale}` : `/${locale}${path}`;
+}
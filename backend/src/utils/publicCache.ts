@@ -0,0 +1,23 @@
+/**
+ * Invalidation of caches holding rendered public content
+ *
+ * Sitemaps and server-rendered pages are cached until content goes live,
+ * changes while live or is taken down. Routes and services that change
+ * published content call invalidatePublicCaches(); the caches subscribe
+ * with onPublicContentChange().
+ */
+
+type Listener = () => void;
+
+const listeners = new Set<Listener>();
+
+export function onPublicContentChange(listener: Listener): () => void {
+  listeners.add(listener);
+  return () => {
+    listeners.delete(listener);
+  };
+}
+
+export function invalidatePublicCaches(): void {
+  listeners.forEach((listener) => listener());
+}
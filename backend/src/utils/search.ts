@@ -0,0 +1,40 @@
+/**
+ * Highlighting used for search snippets. Matches are wrapped in <mark>; the
+ * rest of the snippet is plain text with the HTML tags stripped.
+ */
+const HEADLINE_OPTIONS = 'StartSel=<mark>, StopSel=</mark>, MaxWords=35, MinWords=15, MaxFragments=2, FragmentDelimiter=" … "';
+
+/**
+ * SQL tsquery for a search string. Search vectors are built with the text
+ * search configuration of the row's locale, so the query has to be parsed
+ * with the same one. Pass a bound locale parameter rather than a column where
+ * the locale is known up front so the GIN index can be used.
+ */
+export function searchQuerySql(searchParam: string, localeExpr: string): string {
+  return `websearch_to_tsquery(search_config_for_locale(${localeExpr}), ${searchParam})`;
+}
+
+/**
+ * SQL relevance score of a row for a tsquery
+ */
+export function searchRankSql(vectorColumn: string, tsQuery: string): string {
+  return `ts_rank_cd(${vectorColumn}, ${tsQuery})`;
+}
+
+// {{fragment:key}} embed tokens, left out of snippets
+const FRAGMENT_TOKEN_PATTERN = '\\{\\{fragment:[a-z0-9-]+\\}\\}';
+
+/**
+ * SQL snippet of an HTML column with the query terms highlighted. Short
+ * columns such as titles are returned whole with `highlightAll`.
+ */
+export function searchHeadlineSql(
+  textColumn: string,
+  localeExpr: string,
+  tsQuery: string,
+  highlightAll = false
+): string {
+  const options = highlightAll ? 'StartSel=<mark>, StopSel=</mark>, HighlightAll=true' : HEADLINE_OPTIONS;
+  const text = `strip_html_tags(regexp_replace(${textColumn}, '${FRAGMENT_TOKEN_PATTERN}', '', 'g'))`;
+  return `ts_headline(search_config_for_locale(${localeExpr}), ${text}, ${tsQuery}, '${options}')`;
+}
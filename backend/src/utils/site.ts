@@ -0,0 +1,14 @@
+/**
+ * SQL expression for the site that keeps the versions of a post or page row.
+ * Content without a site belongs to a site of its organization, the default
+ * one if it has one.
+ */
+export function contentSiteIdSql(tableAlias: string): string {
+  return `COALESCE(
+    ${tableAlias}.site_id,
+    (SELECT s.id FROM sites s
+     WHERE s.organization_id = ${tableAlias}.organization_id
+     ORDER BY s.is_default DESC NULLS LAST, s.id
+     LIMIT 1)
+  )`;
+}
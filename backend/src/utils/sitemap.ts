@@ -0,0 +1,57 @@
+/**
+ * Sitemap and robots.txt rendering
+ */
+
+import { escapeXml } from './feed';
+
+// Search engines read at most 50,000 URLs from a single sitemap file
+export const SITEMAP_MAX_URLS = 50000;
+
+export interface SitemapEntry {
+  // Absolute URL of the public page
+  url: string;
+  lastmod?: Date;
+}
+
+// Paths crawlers never need: the admin app, the API and draft previews
+const ROBOTS_DISALLOWED_PATHS = ['/admin/', '/api/', '/preview/'];
+
+function lastmodTag(lastmod?: Date): string {
+  return lastmod ? `<lastmod>${lastmod.toISOString()}</lastmod>` : '';
+}
+
+export function renderUrlset(entries: SitemapEntry[]): string {
+  return [
+    '<?xml version="1.0" encoding="UTF-8"?>',
+    '<urlset xmlns="http://www.sitemaps.org/schemas/sitemap/0.9">',
+    ...entries.map((entry) => `  <url><loc>${escapeXml(entry.url)}</loc>${lastmodTag(entry.lastmod)}</url>`),
+    '</urlset>',
+  ].join('\n') + '\n';
+}
+
+/**
+ * Sitemap index pointing at the numbered sitemap files of a sitemap too large
+ * for a single file
+ */
+export function renderSitemapIndex(sitemaps: SitemapEntry[]): string {
+  return [
+    '<?xml version="1.0" encoding="UTF-8"?>',
+    '<sitemapindex xmlns="http://www.sitemaps.org/schemas/sitemap/0.9">',
+    ...sitemaps.map((sitemap) => `  <sitemap><loc>${escapeXml(sitemap.url)}</loc>${lastmodTag(sitemap.lastmod)}</sitemap>`),
+    '</sitemapindex>',
+  ].join('\n') + '\n';
+}
+
+/**
+ * robots.txt allowing everything but the admin, API and preview paths, followed
+ * by any custom rules and the sitemaps of the domain
+ */
+export function renderRobotsTxt(customRules: string[], sitemapUrls: string[]): string {
+  const sections = [
+    ['User-agent: *', ...ROBOTS_DISALLOWED_PATHS.map((path) => `Disallow: ${path}`)].join('\n'),
+    ...customRules.map((rules) => rules.replace(/\r\n?/g, '\n').trim()).filter(Boolean),
+    sitemapUrls.map((url) => `Sitemap: ${url}`).join('\n'),
+  ];
+
+  return sections.filter(Boolean).join('\n\n') + '\n';
+}
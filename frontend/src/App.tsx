@@ -2,17 +2,15 @@ import { useEffect } from 'react';
 import { Routes, Route } from 'react-router-dom';
 
 // Import existing pages
-import HomePage from './pages/HomePage';
-import BlogPage from './pages/BlogPage';
-import PostPage from './pages/PostPage';
-import CategoryPage from './pages/CategoryPage';
-import PageView from './pages/PageView';
+import PreviewPage from './pages/PreviewPage';
+import NotFoundPage from './pages/NotFoundPage';
 import LoginPage from './pages/admin/LoginPage';
 import DashboardPage from './pages/admin/DashboardPage';
 
 // Import new admin pages
 import PostsPage from './pages/admin/PostsPage';
 import CategoriesPage from './pages/admin/CategoriesPage';
+import TagsPage from './pages/admin/TagsPage';
 import PostNewPage from './pages/admin/PostNewPage';
 import PostEditPage from './pages/admin/PostEditPage';
 import PagesPage from './pages/admin/PagesPage';
@@ -26,7 +24,11 @@ import TemplateEditPage from './pages/admin/TemplateEditPage';
 import DomainsPage from './pages/admin/DomainsPage';
 import MenusPage from './pages/admin/MenusPage';
 import SitesPage from './pages/admin/SitesPage';
+import RedirectsPage from './pages/admin/RedirectsPage';
+import FragmentsPage from './pages/admin/FragmentsPage';
+import FragmentEditPage from './pages/admin/FragmentEditPage';
 import DistributionQueuePage from './pages/admin/DistributionQueuePage';
+import ReviewQueuePage from './pages/admin/ReviewQueuePage';
 import BillingPage from './pages/admin/BillingPage';
 import BillingSuccessPage from './pages/admin/BillingSuccessPage';
 import OrganizationSettingsPage from './pages/admin/OrganizationSettingsPage';
@@ -37,11 +39,13 @@ import SuperAdminOrganizationsPage from './pages/admin/SuperAdminOrganizationsPa
 import SuperAdminUsersPage from './pages/admin/SuperAdminUsersPage';
 
 // Import existing components
-import PublicLayout from './components/layout/PublicLayout';
 import AdminLayout from './components/layout/AdminLayout';
 import ProtectedRoute from './components/auth/ProtectedRoute';
 import SuperAdminRoute from './components/auth/SuperAdminRoute';
 
+// Public site routes, also rendered on the server
+import { publicRoutes } from './publicRoutes';
+
 // Import auth store
 import { useAuthStore } from './lib/auth';
 
@@ -55,13 +59,10 @@ function App() {
   return (
     <Routes>
       {/* Public Routes */}
-      <Route path="/" element={<PublicLayout />}>
-        <Route index element={<HomePage />} />
-        <Route path="blog" element={<BlogPage />} />
-        <Route path="blog/:slug" element={<PostPage />} />
-        <Route path="category/:slug" element={<CategoryPage />} />
-        <Route path="page/:slug" element={<PageView />} />
-      </Route>
+      {publicRoutes}
+
+      {/* Shareable draft previews (token-based, no account required) */}
+      <Route path="/preview/:token" element={<PreviewPage />} />
 
       {/* Admin Login Route */}
       <Route path="/admin/login" element={<LoginPage />} />
@@ -80,9 +81,13 @@ function App() {
         <Route path="posts/new" element={<PostNewPage />} />
         <Route path="posts/:id/edit" element={<PostEditPage />} />
         <Route path="categories" element={<CategoriesPage />} />
+        <Route path="tags" element={<TagsPage />} />
         <Route path="pages" element={<PagesPage />} />
         <Route path="pages/new" element={<PageNewPage />} />
         <Route path="pages/:id/edit" element={<PageEditPage />} />
+        <Route path="fragments" element={<FragmentsPage />} />
+        <Route path="fragments/new" element={<FragmentEditPage />} />
+        <Route path="fragments/:id/edit" element={<FragmentEditPage />} />
         <Route path="media" element={<MediaPage />} />
         <Route path="templates" element={<TemplatesPage />} />
         <Route path="templates/new" element={<TemplateNewPage />} />
@@ -91,8 +96,10 @@ function App() {
         <Route path="sites" element={<SitesPage />} />
         <Route path="sites/:id/menus" element={<MenusPage />} />
         <Route path="menus" element={<MenusPage />} />
+        <Route path="redirects" element={<RedirectsPage />} />
         <Route path="settings" element={<SettingsPage />} />
         <Route path="distribution-queue" element={<DistributionQueuePage />} />
+        <Route path="reviews" element={<ReviewQueuePage />} />
         <Route path="billing" element={<BillingPage />} />
         <Route path="billing/success" element={<BillingSuccessPage />} />
         <Route path="organization" element={<OrganizationSettingsPage />} />
@@ -104,14 +111,7 @@ function App() {
       </Route>
 
       {/* 404 Route */}
-      <Route path="*" element={
-        <div className="min-h-screen flex items-center justify-center">
-          <div className="text-center">
-            <h1 className="text-4xl font-bold text-gray-900">404</h1>
-            <p className="text-gray-600 mt-2">Page not found</p>
-          </div>
-        </div>
-      } />
+      <Route path="*" element={<NotFoundPage />} />
     </Routes>
   );
 }
@@ -0,0 +1,189 @@
+import { useState } from 'react';
+import {
+  DndContext,
+  closestCenter,
+  KeyboardSensor,
+  PointerSensor,
+  useSensor,
+  useSensors,
+  DragEndEvent,
+} from '@dnd-kit/core';
+import {
+  arrayMove,
+  SortableContext,
+  sortableKeyboardCoordinates,
+  useSortable,
+  verticalListSortingStrategy,
+} from '@dnd-kit/sortable';
+import { CSS } from '@dnd-kit/utilities';
+import { ArrowDown, ArrowUp, ChevronDown, ChevronRight, GripVertical, Plus, Trash2 } from 'lucide-react';
+import Button from '../ui/Button';
+import { fieldLabel, newBlock } from '../../lib/templateSchema';
+import { JsonSchema, PageBlock } from '../../types';
+
+interface BlockEditorProps {
+  label: string;
+  description?: string;
+  blockTypes: Record<string, JsonSchema>;
+  // Dotted path of the block list in the data, e.g. blocks
+  path: string;
+  value: unknown;
+  onChange: (blocks: PageBlock[]) => void;
+  errors: Record<string, string>;
+  // Form fields for the props of the block at index
+  renderProps: (block: PageBlock, index: number, onChange: (props: Record<string, unknown>) => void) => React.ReactNode;
+}
+
+interface SortableBlockProps {
+  block: PageBlock;
+  index: number;
+  count: number;
+  title: string;
+  collapsed: boolean;
+  error?: string;
+  onToggle: () => void;
+  onMove: (to: number) => void;
+  onRemove: () => void;
+  children: React.ReactNode;
+}
+
+const isBlock = (value: unknown): value is PageBlock =>
+  !!value && typeof value === 'object' && typeof (value as PageBlock).id === 'string';
+
+function SortableBlock({ block, index, count, title, collapsed, error, onToggle, onMove, onRemove, children }: SortableBlockProps) {
+  const { attributes, listeners, setNodeRef, transform, transition, isDragging } = useSortable({ id: block.id });
+
+  return (
+    <li
+      ref={setNodeRef}
+      style={{ transform: CSS.Transform.toString(transform), transition, opacity: isDragging ? 0.5 : 1 }}
+      className={`border rounded-md bg-gray-50 ${isDragging ? 'shadow-lg' : ''}`}
+      data-testid={`block-${block.id}`}
+    >
+      <div className="flex items-center gap-2 p-3">
+        <button
+          type="button"
+          className="cursor-grab hover:bg-gray-100 p-1 rounded"
+          aria-label={`Drag ${title} block`}
+          {...attributes}
+          {...listeners}
+        >
+          <GripVertical className="h-4 w-4 text-gray-400" />
+        </button>
+        <button type="button" className="flex-1 flex items-center gap-1 text-left text-sm font-medium text-gray-700" onClick={onToggle} aria-expanded={!collapsed}>
+          {collapsed ? <ChevronRight className="h-4 w-4" /> : <ChevronDown className="h-4 w-4" />}
+          {title}
+        </button>
+        <div className="flex items-center gap-1">
+          <Button type="button" variant="ghost" size="sm" aria-label={`Move ${title} block up`} disabled={index === 0} onClick={() => onMove(index - 1)}>
+            <ArrowUp className="h-4 w-4" />
+          </Button>
+          <Button type="button" variant="ghost" size="sm" aria-label={`Move ${title} block down`} disabled={index === count - 1} onClick={() => onMove(index + 1)}>
+            <ArrowDown className="h-4 w-4" />
+          </Button>
+          <Button
+            type="button"
+            variant="ghost"
+            size="sm"
+            aria-label={`Remove ${title} block ${index + 1}`}
+            className="text-red-600 hover:text-red-700"
+            onClick={onRemove}
+          >
+            <Trash2 className="h-4 w-4" />
+          </Button>
+        </div>
+      </div>
+      {error && <p className="px-3 pb-3 text-sm text-red-600">{error}</p>}
+      {!collapsed && <div className="border-t p-4 space-y-4">{children}</div>}
+    </li>
+  );
+}
+
+/**
+ * Page builder blocks, reordered by dragging, with the fields of each block
+ * type generated from the template's blockTypes
+ */
+export default function BlockEditor({ label, description, blockTypes, path, value, onChange, errors, renderProps }: BlockEditorProps) {
+  const blocks = Array.isArray(value) ? value.filter(isBlock) : [];
+  const [collapsed, setCollapsed] = useState<Set<string>>(new Set());
+
+  const sensors = useSensors(
+    useSensor(PointerSensor),
+    useSensor(KeyboardSensor, {
+      coordinateGetter: sortableKeyboardCoordinates,
+    })
+  );
+
+  const typeTitle = (type: string) => (blockTypes[type] ? fieldLabel(type, blockTypes[type]) : `Unknown block "${type}"`);
+
+  const move = (from: number, to: number) => onChange(arrayMove(blocks, from, to));
+
+  const handleDragEnd = ({ active, over }: DragEndEvent) => {
+    if (!over || active.id === over.id) return;
+    const from = blocks.findIndex((block) => block.id === active.id);
+    const to = blocks.findIndex((block) => block.id === over.id);
+    if (from !== -1 && to !== -1) move(from, to);
+  };
+
+  const toggle = (id: string) =>
+    setCollapsed((prev) => {
+      const next = new Set(prev);
+      if (next.has(id)) next.delete(id);
+      else next.add(id);
+      return next;
+    });
+
+  return (
+    <fieldset className="space-y-3">
+      <legend className="block text-sm font-medium text-gray-700">{label}</legend>
+      {description && <p className="text-sm text-gray-500">{description}</p>}
+      {errors[path] && <p className="text-sm text-red-600">{errors[path]}</p>}
+
+      {blocks.length === 0 ? (
+        <p className="text-sm text-gray-500 bg-gray-50 rounded-md p-4 text-center">No blocks yet. Add one below.</p>
+      ) : (
+        <DndContext sensors={sensors} collisionDetection={closestCenter} onDragEnd={handleDragEnd}>
+          <SortableContext items={blocks.map((block) => block.id)} strategy={verticalListSortingStrategy}>
+            <ul className="space-y-3" aria-label={label}>
+              {blocks.map((block, index) => (
+                <SortableBlock
+                  key={block.id}
+                  block={block}
+                  index={index}
+                  count={blocks.length}
+                  title={typeTitle(block.type)}
+                  collapsed={collapsed.has(block.id)}
+                  error={errors[`${path}.${index}`] || errors[`${path}.${index}.type`] || errors[`${path}.${index}.id`]}
+                  onToggle={() => toggle(block.id)}
+                  onMove={(to) => move(index, to)}
+                  onRemove={() => onChange(blocks.filter((_, i) => i !== index))}
+                >
+                  {blockTypes[block.type] &&
+                    renderProps(block, index, (props) =>
+                      onChange(blocks.map((existing, i) => (i === index ? { ...existing, props } : existing)))
+                    )}
+                </SortableBlock>
+              ))}
+            </ul>
+          </SortableContext>
+        </DndContext>
+      )}
+
+      <div className="flex flex-wrap gap-2">
+        {Object.entries(blockTypes).map(([type, schema]) => (
+          <Button
+            key={type}
+            type="button"
+            variant="secondary"
+            size="sm"
+            aria-label={`Add ${typeTitle(type)} block`}
+            onClick={() => onChange([...blocks, newBlock(type, schema)])}
+          >
+            <Plus className="h-4 w-4 mr-1" />
+            {typeTitle(type)}
+          </Button>
+        ))}
+      </div>
+    </fieldset>
+  );
+}
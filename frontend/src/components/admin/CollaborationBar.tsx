@@ -0,0 +1,108 @@
+import { useState } from 'react';
+import { toast } from 'react-hot-toast';
+import { Users, RefreshCw, X } from 'lucide-react';
+import Button from '../ui/Button';
+import { formatRelativeTime } from '../../lib/utils';
+import { versionsApi } from '../../services/versionsApi';
+import type { ContentVersion } from '../../types/versioning';
+import type { Collaborator, RemoteSave } from '../../hooks/useCollaboration';
+
+interface CollaborationBarProps {
+  participants: Collaborator[];
+  typing: Collaborator[];
+  remoteSave: RemoteSave | null;
+  onDismiss: () => void;
+  // Replace the editor state with the version another editor just saved
+  onApplyVersion: (version: ContentVersion) => void;
+}
+
+const AVATAR_COLORS = ['bg-blue-500', 'bg-green-500', 'bg-purple-500', 'bg-orange-500', 'bg-pink-500', 'bg-teal-500'];
+
+const displayName = (user: Collaborator | null) => {
+  if (!user) return 'Another editor';
+  return [user.first_name, user.last_name].filter(Boolean).join(' ') || user.email;
+};
+
+const initials = (user: Collaborator) => {
+  const name = [user.first_name, user.last_name].filter(Boolean);
+  const source = name.length ? name.map((part) => part![0]) : [user.email[0]];
+  return source.join('').slice(0, 2).toUpperCase();
+};
+
+export default function CollaborationBar({
+  participants,
+  typing,
+  remoteSave,
+  onDismiss,
+  onApplyVersion,
+}: CollaborationBarProps) {
+  const [isLoading, setIsLoading] = useState(false);
+
+  if (participants.length === 0 && !remoteSave) {
+    return null;
+  }
+
+  const loadLatest = async () => {
+    setIsLoading(true);
+    try {
+      const version = await versionsApi.getVersion(remoteSave!.versionId);
+      onApplyVersion(version);
+      onDismiss();
+      toast.success('Loaded the latest changes');
+    } catch {
+      toast.error('Failed to load the latest changes');
+    } finally {
+      setIsLoading(false);
+    }
+  };
+
+  return (
+    <div className="space-y-2">
+      {participants.length > 0 && (
+        <div className="flex items-center gap-3 text-sm text-gray-600" data-testid="presence">
+          <Users className="h-4 w-4 text-gray-400" />
+          <div className="flex -space-x-2">
+            {participants.map((user) => (
+              <span
+                key={user.id}
+                title={displayName(user)}
+                className={`inline-flex h-7 w-7 items-center justify-center rounded-full ring-2 ring-white text-xs font-medium text-white ${AVATAR_COLORS[user.id % AVATAR_COLORS.length]}`}
+              >
+                {initials(user)}
+              </span>
+            ))}
+          </div>
+          <span>
+            {typing.length > 0
+              ? `${typing.map(displayName).join(', ')} ${typing.length === 1 ? 'is' : 'are'} typing…`
+              : `${participants.map(displayName).join(', ')} ${participants.length === 1 ? 'is' : 'are'} also editing`}
+          </span>
+        </div>
+      )}
+
+      {remoteSave && (
+        <div className="flex items-center justify-between gap-3 rounded-md border border-yellow-200 bg-yellow-50 px-4 py-2 text-sm text-yellow-800" role="status">
+          <span>
+            {displayName(remoteSave.user)} {remoteSave.autoSave ? 'auto-saved' : 'saved'} changes{' '}
+            {formatRelativeTime(remoteSave.at)}. Load them before you keep editing so you don&apos;t overwrite each other.
+          </span>
+          <div className="flex items-center gap-2">
+            <Button
+              type="button"
+              size="sm"
+              variant="outline"
+              icon={<RefreshCw className="h-4 w-4" />}
+              onClick={loadLatest}
+              loading={isLoading}
+            >
+              Load latest
+            </Button>
+            <button type="button" onClick={onDismiss} className="text-yellow-700 hover:text-yellow-900" aria-label="Dismiss">
+              <X className="h-4 w-4" />
+            </button>
+          </div>
+        </div>
+      )}
+    </div>
+  );
+}
@@ -0,0 +1,49 @@
+import Modal from '../ui/Modal';
+import Button from '../ui/Button';
+import { DiffViewer } from './diff/DiffViewer';
+import { formatRelativeTime } from '../../lib/utils';
+import type { ContentVersion, EditConflict } from '../../types/versioning';
+
+interface EditConflictDialogProps {
+  conflict: EditConflict;
+  // Replace the editor state with the version that was saved in the meantime
+  onLoadTheirs: (version: ContentVersion) => void;
+  // Keep editing on top of the newer version; the next save overwrites it
+  onKeepMine: (version: ContentVersion) => void;
+}
+
+export default function EditConflictDialog({ conflict, onLoadTheirs, onKeepMine }: EditConflictDialogProps) {
+  const { current_version: current, changed_by: author, diff } = conflict;
+  const name = author
+    ? [author.first_name, author.last_name].filter(Boolean).join(' ') || author.email
+    : 'Another editor';
+  const { linesAdded, linesRemoved } = diff.statistics;
+
+  return (
+    <Modal title="Someone else saved changes" onClose={() => onKeepMine(current)}>
+      <div className="space-y-4">
+        <p className="text-sm text-gray-600">
+          {name} saved version {current.version_number} {formatRelativeTime(current.created_at)}, after you
+          started editing. Review their changes (+{linesAdded} −{linesRemoved} lines) before you save again.
+        </p>
+        <div className="max-h-80 overflow-y-auto rounded border" data-testid="conflict-diff">
+          <DiffViewer
+            diffResult={diff}
+            viewMode="unified"
+            highlightLevel="line"
+            showMetadata={false}
+            currentChangeIndex={-1}
+          />
+        </div>
+        <div className="flex justify-end gap-2">
+          <Button type="button" variant="secondary" onClick={() => onKeepMine(current)}>
+            Keep my changes
+          </Button>
+          <Button type="button" onClick={() => onLoadTheirs(current)}>
+            Load their version
+          </Button>
+        </div>
+      </div>
+    </Modal>
+  );
+}
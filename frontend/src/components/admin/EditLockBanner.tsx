@@ -0,0 +1,44 @@
+import { toast } from 'react-hot-toast';
+import { Lock } from 'lucide-react';
+import Button from '../ui/Button';
+import { formatDate } from '../../lib/utils';
+import type { EditLock } from '../../services/editLocks';
+
+interface EditLockBannerProps {
+  lock: EditLock | null;
+  isHolder: boolean;
+  onTakeOver: () => Promise<void>;
+  isTakingOver?: boolean;
+}
+
+export default function EditLockBanner({ lock, isHolder, onTakeOver, isTakingOver = false }: EditLockBannerProps) {
+  if (!lock || isHolder) {
+    return null;
+  }
+
+  const name = [lock.user.first_name, lock.user.last_name].filter(Boolean).join(' ') || lock.user.email;
+
+  const takeOver = async () => {
+    try {
+      await onTakeOver();
+      toast.success('You are now editing');
+    } catch {
+      toast.error('Failed to take over editing');
+    }
+  };
+
+  return (
+    <div
+      className="flex items-center justify-between gap-3 rounded-md border border-orange-200 bg-orange-50 px-4 py-2 text-sm text-orange-800"
+      role="alert"
+    >
+      <span className="flex items-center gap-2">
+        <Lock className="h-4 w-4" />
+        {name} is editing since {formatDate(lock.acquired_at, 'HH:mm')}. Your changes may conflict with theirs.
+      </span>
+      <Button type="button" size="sm" variant="outline" onClick={takeOver} loading={isTakingOver}>
+        Take over
+      </Button>
+    </div>
+  );
+}
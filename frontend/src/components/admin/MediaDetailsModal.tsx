@@ -0,0 +1,221 @@
+import React, { useState } from 'react';
+import { Link } from 'react-router-dom';
+import { useMutation, useQuery } from '@tanstack/react-query';
+import { toast } from 'react-hot-toast';
+import { ExternalLink, Upload } from 'lucide-react';
+import Modal from '../ui/Modal';
+import Button from '../ui/Button';
+import Input from '../ui/Input';
+import Select from '../ui/Select';
+import Textarea from '../ui/Textarea';
+import { mediaService } from '../../services/media';
+import { formatFileSize, sortCategoryTree } from '../../lib/utils';
+import { MediaFile, MediaFolder, MediaUsage, UpdateMediaData } from '../../types';
+
+const SOURCE_LABELS: Record<MediaUsage['source_type'], string> = {
+  post: 'Post',
+  page: 'Page',
+  fragment: 'Fragment',
+  organization: 'Organization logo',
+};
+
+const usageEditLink = (usage: MediaUsage) =>
+  usage.source_type === 'organization' ? '/admin/organization' : `/admin/${usage.source_type}s/${usage.source_id}/edit`;
+
+// Images are served as web-optimized copies, so any of these can replace one
+const REPLACEABLE_IMAGE_TYPES = 'image/jpeg,image/png,image/webp';
+
+interface MediaDetailsModalProps {
+  file: MediaFile;
+  folders: MediaFolder[];
+  onClose: () => void;
+  onSaved: (file: MediaFile) => void;
+}
+
+export default function MediaDetailsModal({ file, folders, onClose, onSaved }: MediaDetailsModalProps) {
+  const [form, setForm] = useState({
+    alt_text: file.alt_text || '',
+    caption: file.caption || '',
+    credit: file.credit || '',
+    license: file.license || '',
+    folder_id: file.folder_id ?? null,
+    tags: (file.tags || []).map((tag) => tag.name).join(', '),
+  });
+
+  const saveMutation = useMutation({
+    mutationFn: (data: UpdateMediaData) => mediaService.updateMediaFile(file.id, data),
+    onSuccess: (response) => {
+      toast.success('Media file updated successfully');
+      onSaved(response.data || file);
+    },
+    onError: (error: any) => {
+      toast.error(error.response?.data?.error || 'Failed to update media file');
+    },
+  });
+
+  const { data: usages } = useQuery({
+    queryKey: ['admin-media', file.id, 'usages'],
+    queryFn: () => mediaService.getMediaUsages(file.id),
+  });
+
+  const replaceMutation = useMutation({
+    mutationFn: (replacement: File) => mediaService.replaceMediaFile(file.id, replacement),
+    onSuccess: (response) => {
+      toast.success(usages?.length ? `File replaced in ${usages.length} places` : 'File replaced successfully');
+      onSaved(response.data || file);
+    },
+    onError: (error: any) => {
+      toast.error(error.response?.data?.error || 'Failed to replace file');
+    },
+  });
+
+  const handleReplace = (e: React.ChangeEvent<HTMLInputElement>) => {
+    const replacement = e.target.files?.[0];
+    if (replacement) {
+      replaceMutation.mutate(replacement);
+    }
+    e.target.value = '';
+  };
+
+  const handleChange = (e: React.ChangeEvent<HTMLInputElement | HTMLTextAreaElement>) => {
+    setForm((current) => ({ ...current, [e.target.name]: e.target.value }));
+  };
+
+  const handleSubmit = (e: React.FormEvent) => {
+    e.preventDefault();
+    saveMutation.mutate({
+      ...form,
+      tags: form.tags.split(',').map((tag) => tag.trim()).filter(Boolean),
+    });
+  };
+
+  const folderOptions = sortCategoryTree(folders).map((folder) => ({
+    value: folder.id,
+    label: `${'  '.repeat(folder.depth)}${folder.name}`,
+  }));
+
+  return (
+    <Modal title="Media details" onClose={onClose}>
+      <div className="flex gap-4 mb-6">
+        <div className="w-32 h-32 shrink-0 bg-gray-100 rounded overflow-hidden flex items-center justify-center">
+          {file.mime_type.startsWith('image/') ? (
+            <img src={file.file_path} alt={file.alt_text || file.original_name} className="w-full h-full object-cover" />
+          ) : (
+            <span className="text-xs text-gray-500 px-2 text-center">{file.mime_type}</span>
+          )}
+        </div>
+        <dl className="text-sm space-y-1 min-w-0">
+          <dt className="sr-only">File name</dt>
+          <dd className="font-medium text-gray-900 truncate">{file.original_name}</dd>
+          <dt className="sr-only">Size</dt>
+          <dd className="text-gray-500">{formatFileSize(file.file_size)}</dd>
+          {file.uploader_email && (
+            <>
+              <dt className="sr-only">Uploaded by</dt>
+              <dd className="text-gray-500">Uploaded by {file.uploader_email}</dd>
+            </>
+          )}
+        </dl>
+      </div>
+
+      <div className="mb-6 space-y-2">
+        <h3 className="text-sm font-medium text-gray-900">Used in</h3>
+        {!usages?.length ? (
+          <p className="text-sm text-gray-500">No posts, pages or settings use this file.</p>
+        ) : (
+          <ul className="divide-y divide-gray-200 max-h-40 overflow-y-auto" aria-label="Used in">
+            {usages.map((usage) => (
+              <li key={`${usage.source_type}-${usage.source_id}`} className="py-2 flex items-start justify-between gap-2">
+                <div>
+                  <Link to={usageEditLink(usage)} className="text-sm font-medium text-primary-600 hover:underline">
+                    {usage.title}
+                  </Link>
+                  <p className="text-xs text-gray-500">
+                    {SOURCE_LABELS[usage.source_type]}
+                    {usage.fields.includes('featured_image') ? ', featured image' : ''}
+                    {usage.published ? '' : ', not published'}
+                  </p>
+                </div>
+                {usage.published && usage.url && (
+                  <a href={usage.url} target="_blank" rel="noreferrer" aria-label={`View ${usage.title}`} className="text-gray-400 hover:text-gray-600">
+                    <ExternalLink className="h-4 w-4" />
+                  </a>
+                )}
+              </li>
+            ))}
+          </ul>
+        )}
+        <input
+          type="file"
+          id="replace-file"
+          accept={file.mime_type.startsWith('image/') ? REPLACEABLE_IMAGE_TYPES : file.mime_type}
+          onChange={handleReplace}
+          disabled={replaceMutation.isPending}
+          className="hidden"
+        />
+        <label
+          htmlFor="replace-file"
+          className={`inline-flex items-center px-3 py-1.5 text-sm border border-gray-300 rounded-md text-gray-700 bg-white hover:bg-gray-50 cursor-pointer ${replaceMutation.isPending ? 'opacity-50 cursor-not-allowed' : ''}`}
+        >
+          <Upload className="mr-2 h-4 w-4" />
+          {replaceMutation.isPending ? 'Replacing...' : 'Replace file'}
+        </label>
+        <p className="text-xs text-gray-500">The new file keeps this file's address, so everything using it shows the new file.</p>
+      </div>
+
+      <form onSubmit={handleSubmit} className="space-y-4">
+        <Input
+          label="Alt text"
+          name="alt_text"
+          value={form.alt_text}
+          onChange={handleChange}
+          maxLength={255}
+          helperText="Describes the image for screen readers and search engines"
+        />
+        <Textarea label="Caption" name="caption" value={form.caption} onChange={handleChange} rows={3} />
+        <div className="grid gap-4 sm:grid-cols-2">
+          <Input
+            label="Credit"
+            name="credit"
+            value={form.credit}
+            onChange={handleChange}
+            maxLength={255}
+            placeholder="Photo: Jane Doe"
+          />
+          <Input
+            label="License"
+            name="license"
+            value={form.license}
+            onChange={handleChange}
+            maxLength={100}
+            placeholder="CC BY 4.0"
+          />
+        </div>
+        <Select
+          label="Folder"
+          name="folder_id"
+          value={form.folder_id ?? ''}
+          onChange={(e) => setForm((current) => ({ ...current, folder_id: e.target.value ? Number(e.target.value) : null }))}
+          placeholder="No folder"
+          options={folderOptions}
+        />
+        <Input
+          label="Tags"
+          name="tags"
+          value={form.tags}
+          onChange={handleChange}
+          helperText="Separate tags with commas"
+        />
+
+        <div className="flex justify-end gap-3 pt-2">
+          <Button type="button" variant="secondary" onClick={onClose}>
+            Cancel
+          </Button>
+          <Button type="submit" loading={saveMutation.isPending}>
+            Save
+          </Button>
+        </div>
+      </form>
+    </Modal>
+  );
+}
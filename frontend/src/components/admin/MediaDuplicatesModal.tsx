@@ -0,0 +1,130 @@
+import { useState } from 'react';
+import { useMutation, useQuery } from '@tanstack/react-query';
+import { toast } from 'react-hot-toast';
+import Modal from '../ui/Modal';
+import Button from '../ui/Button';
+import Select from '../ui/Select';
+import LoadingSpinner from '../ui/LoadingSpinner';
+import { mediaService } from '../../services/media';
+import { formatFileSize } from '../../lib/utils';
+import { DuplicateMediaFile, MediaDuplicateGroup } from '../../types';
+
+// How many of the 64 perceptual hash bits may differ
+const similarityOptions = [
+  { value: 0, label: 'Exact copies' },
+  { value: 6, label: 'Very similar' },
+  { value: 12, label: 'Similar' },
+];
+
+// The most used file is kept by default, the oldest of those
+const defaultKeep = (files: DuplicateMediaFile[]) =>
+  files.reduce((kept, file) => (file.usage_count > kept.usage_count ? file : kept), files[0]).id;
+
+interface MediaDuplicatesModalProps {
+  onClose: () => void;
+  onMerged: () => void;
+}
+
+export default function MediaDuplicatesModal({ onClose, onMerged }: MediaDuplicatesModalProps) {
+  const [maxDistance, setMaxDistance] = useState(6);
+  // File to keep per group, by the id of the group's first file
+  const [kept, setKept] = useState<Record<number, number>>({});
+
+  const { data: groups, isLoading, refetch } = useQuery({
+    queryKey: ['admin-media-duplicates', maxDistance],
+    queryFn: () => mediaService.getNearDuplicates(maxDistance),
+  });
+
+  const mergeMutation = useMutation({
+    mutationFn: ({ keepId, mergeIds }: { keepId: number; mergeIds: number[] }) =>
+      mediaService.mergeMediaFiles(keepId, mergeIds),
+    onSuccess: ({ merged, updated }) => {
+      toast.success(`Merged ${merged} file${merged === 1 ? '' : 's'}, updated ${updated} place${updated === 1 ? '' : 's'}`);
+      refetch();
+      onMerged();
+    },
+    onError: (error: any) => {
+      toast.error(error.response?.data?.error || 'Failed to merge files');
+    },
+  });
+
+  const handleMerge = (group: MediaDuplicateGroup) => {
+    const keepId = kept[group.files[0].id] ?? defaultKeep(group.files);
+    const mergeIds = group.files.filter((file) => file.id !== keepId).map((file) => file.id);
+    const message = `Merge ${mergeIds.length} file${mergeIds.length === 1 ? '' : 's'} into the kept file? ` +
+      'Posts and pages using them will use the kept file, and the merged files are deleted.';
+    if (window.confirm(message)) {
+      mergeMutation.mutate({ keepId, mergeIds });
+    }
+  };
+
+  return (
+    <Modal title="Near-duplicates" onClose={onClose}>
+      <div className="space-y-4">
+        <Select
+          label="Match"
+          name="max_distance"
+          value={maxDistance}
+          onChange={(e) => setMaxDistance(Number(e.target.value))}
+          options={similarityOptions}
+          helperText="Similar images include resized and re-encoded copies"
+        />
+
+        {isLoading ? (
+          <div className="flex justify-center py-8">
+            <LoadingSpinner size="lg" />
+          </div>
+        ) : !groups?.length ? (
+          <p className="text-sm text-gray-500">No duplicates found.</p>
+        ) : (
+          <ul className="space-y-4 max-h-[60vh] overflow-y-auto" aria-label="Duplicate groups">
+            {groups.map((group) => {
+              const groupKey = group.files[0].id;
+              const keepId = kept[groupKey] ?? defaultKeep(group.files);
+              return (
+                <li key={groupKey} className="border rounded-lg p-3 space-y-2">
+                  <p className="text-xs text-gray-500">
+                    {group.distance === 0 ? 'Exact copies' : `Differ in up to ${group.distance} of 64 bits`}
+                  </p>
+                  {group.files.map((file) => (
+                    <label key={file.id} className="flex items-center gap-3 text-sm cursor-pointer">
+                      <input
+                        type="radio"
+                        name={`keep-${groupKey}`}
+                        checked={keepId === file.id}
+                        onChange={() => setKept((current) => ({ ...current, [groupKey]: file.id }))}
+                        aria-label={`Keep ${file.original_name}`}
+                      />
+                      <span className="w-12 h-12 shrink-0 bg-gray-100 rounded overflow-hidden">
+                        {file.mime_type.startsWith('image/') && (
+                          <img src={file.file_path} alt="" className="w-full h-full object-cover" />
+                        )}
+                      </span>
+                      <span className="min-w-0 flex-1">
+                        <span className="block font-medium text-gray-900 truncate">{file.original_name}</span>
+                        <span className="block text-xs text-gray-500">
+                          {formatFileSize(file.file_size)}, used in {file.usage_count} place{file.usage_count === 1 ? '' : 's'}
+                        </span>
+                      </span>
+                    </label>
+                  ))}
+                  <div className="flex justify-end">
+                    <Button
+                      type="button"
+                      size="sm"
+                      onClick={() => handleMerge(group)}
+                      loading={mergeMutation.isPending && mergeMutation.variables?.keepId === keepId}
+                      disabled={mergeMutation.isPending}
+                    >
+                      Merge into kept file
+                    </Button>
+                  </div>
+                </li>
+              );
+            })}
+          </ul>
+        )}
+      </div>
+    </Modal>
+  );
+}
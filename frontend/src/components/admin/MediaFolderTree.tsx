@@ -0,0 +1,88 @@
+import { Edit3, Folder, FolderPlus, Inbox, Layers, Trash2 } from 'lucide-react';
+import { cn, sortCategoryTree } from '../../lib/utils';
+import { MediaFolder } from '../../types';
+
+// 'all' lists every file, 'none' the files that are in no folder
+export type MediaFolderSelection = 'all' | 'none' | number;
+
+interface MediaFolderTreeProps {
+  folders: MediaFolder[];
+  selected: MediaFolderSelection;
+  onSelect: (selection: MediaFolderSelection) => void;
+  onCreate: (parent: MediaFolder | null) => void;
+  onRename: (folder: MediaFolder) => void;
+  onDelete: (folder: MediaFolder) => void;
+}
+
+export default function MediaFolderTree({ folders, selected, onSelect, onCreate, onRename, onDelete }: MediaFolderTreeProps) {
+  const itemClass = (active: boolean) =>
+    cn(
+      'flex flex-1 items-center gap-2 px-2 py-1.5 rounded text-sm text-left truncate',
+      active ? 'bg-blue-50 text-blue-700 font-medium' : 'text-gray-700 hover:bg-gray-100'
+    );
+
+  return (
+    <nav aria-label="Media folders" className="space-y-1">
+      <div className="flex items-center justify-between px-2 pb-2">
+        <h2 className="text-xs font-semibold uppercase tracking-wide text-gray-500">Folders</h2>
+        <button
+          type="button"
+          onClick={() => onCreate(null)}
+          className="text-gray-400 hover:text-gray-600"
+          title="New folder"
+          aria-label="New folder"
+        >
+          <FolderPlus className="h-4 w-4" />
+        </button>
+      </div>
+
+      <button type="button" onClick={() => onSelect('all')} className={cn(itemClass(selected === 'all'), 'w-full')}>
+        <Layers className="h-4 w-4 shrink-0" />
+        All media
+      </button>
+      <button type="button" onClick={() => onSelect('none')} className={cn(itemClass(selected === 'none'), 'w-full')}>
+        <Inbox className="h-4 w-4 shrink-0" />
+        Unfiled
+      </button>
+
+      {sortCategoryTree(folders).map((folder) => (
+        <div key={folder.id} className="group flex items-center" style={{ paddingLeft: `${folder.depth * 12}px` }}>
+          <button type="button" onClick={() => onSelect(folder.id)} className={itemClass(selected === folder.id)}>
+            <Folder className="h-4 w-4 shrink-0" />
+            <span className="truncate">{folder.name}</span>
+            {folder.media_count ? <span className="ml-auto text-xs text-gray-400">{folder.media_count}</span> : null}
+          </button>
+          <div className="hidden group-hover:flex items-center gap-1 pl-1">
+            <button
+              type="button"
+              onClick={() => onCreate(folder)}
+              className="text-gray-400 hover:text-gray-600"
+              title={`New folder in ${folder.name}`}
+              aria-label={`New folder in ${folder.name}`}
+            >
+              <FolderPlus className="h-3.5 w-3.5" />
+            </button>
+            <button
+              type="button"
+              onClick={() => onRename(folder)}
+              className="text-gray-400 hover:text-gray-600"
+              title={`Rename ${folder.name}`}
+              aria-label={`Rename ${folder.name}`}
+            >
+              <Edit3 className="h-3.5 w-3.5" />
+            </button>
+            <button
+              type="button"
+              onClick={() => onDelete(folder)}
+              className="text-gray-400 hover:text-red-600"
+              title={`Delete ${folder.name}`}
+              aria-label={`Delete ${folder.name}`}
+            >
+              <Trash2 className="h-3.5 w-3.5" />
+            </button>
+          </div>
+        </div>
+      ))}
+    </nav>
+  );
+}
@@ -36,6 +36,7 @@ import Button from '../ui/Button';
 import { toast } from 'react-hot-toast';
 import { api } from '../../lib/api';
 import { Page } from '../../types';
+import { sortPageTree } from '../../lib/utils';
 
 interface MenuBuilderProps {
   domainId: number;
@@ -111,7 +112,7 @@ const SortableItem: React.FC<SortableItemProps> = ({
         <div className="flex-1 flex items-center gap-2">
           <span className="font-medium">{item.label}</span>
           {item.page_id && (
-            <span title="Linked to page">
+            <span title={item.page_path ? `Linked to /page/${item.page_path}` : 'Linked to page'}>
               <FileText className="h-4 w-4 text-blue-500" />
             </span>
           )}
@@ -259,9 +260,9 @@ const MenuItemForm: React.FC<MenuItemFormProps> = ({
               required
             >
               <option value="">Select a page</option>
-              {pages.map((page) => (
+              {sortPageTree(pages).map((page) => (
                 <option key={page.id} value={page.id}>
-                  {page.title} ({page.slug})
+                  {'\u00A0\u00A0'.repeat(page.depth)}{page.title} (/{page.path})
                 </option>
               ))}
             </select>
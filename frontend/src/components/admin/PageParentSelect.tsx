@@ -0,0 +1,45 @@
+import { useEffect, useState } from 'react';
+import Select from '../ui/Select';
+import { pagesService } from '../../services/pages';
+import { sortPageTree } from '../../lib/utils';
+import { Page } from '../../types';
+
+interface PageParentSelectProps {
+  value: number | null;
+  onChange: (parentId: number | null) => void;
+  // Page being edited; it and its subpages cannot become its parent
+  page?: Pick<Page, 'id' | 'path'>;
+  error?: string;
+}
+
+export default function PageParentSelect({ value, onChange, page, error }: PageParentSelectProps) {
+  const [pages, setPages] = useState<Page[]>([]);
+
+  useEffect(() => {
+    (async () => {
+      try {
+        const resp = await pagesService.getAllPages({ tree: true });
+        setPages((resp.data as any) || []);
+      } catch {
+        // ignore, the page stays where it is
+      }
+    })();
+  }, []);
+
+  const options = sortPageTree(pages)
+    .filter((p) => !page || (p.id !== page.id && !p.path.startsWith(`${page.path}/`)))
+    .map((p) => ({ value: p.id, label: `${'  '.repeat(p.depth)}${p.title}` }));
+
+  return (
+    <Select
+      label="Parent Page"
+      name="parent_id"
+      value={value ?? ''}
+      onChange={(e) => onChange(e.target.value ? Number(e.target.value) : null)}
+      placeholder="None (top level)"
+      options={options}
+      error={error}
+      helperText="Subpages are published below their parent, e.g. /page/about/team"
+    />
+  );
+}
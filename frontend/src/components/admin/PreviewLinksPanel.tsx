@@ -0,0 +1,153 @@
+import { useState } from 'react';
+import { useQuery, useMutation, useQueryClient } from '@tanstack/react-query';
+import { toast } from 'react-hot-toast';
+import { Copy, Trash2 } from 'lucide-react';
+import Button from '../ui/Button';
+import Input from '../ui/Input';
+import Select from '../ui/Select';
+import LoadingSpinner from '../ui/LoadingSpinner';
+import { previewsService } from '../../services/previews';
+import { formatDate } from '../../lib/utils';
+
+interface PreviewLinksPanelProps {
+  contentType: 'post' | 'page';
+  contentId: number;
+  // Current editor state, snapshotted into a draft version when a link is created
+  snapshot: { title?: string; content?: string; excerpt?: string; slug?: string; data?: any };
+}
+
+const EXPIRY_OPTIONS = [
+  { value: 1, label: '1 hour' },
+  { value: 24, label: '24 hours' },
+  { value: 24 * 7, label: '7 days' },
+  { value: 24 * 30, label: '30 days' },
+];
+
+export default function PreviewLinksPanel({ contentType, contentId, snapshot }: PreviewLinksPanelProps) {
+  const queryClient = useQueryClient();
+  const [expiresInHours, setExpiresInHours] = useState(24);
+  const [password, setPassword] = useState('');
+
+  const queryKey = ['preview-tokens', contentType, contentId];
+
+  const { data: tokens = [], isLoading } = useQuery({
+    queryKey,
+    queryFn: () => previewsService.listContentTokens(contentType, contentId),
+    enabled: !!contentId,
+  });
+
+  const createMutation = useMutation({
+    mutationFn: async () => {
+      const version = await previewsService.createSnapshot(contentType, contentId, snapshot);
+      return previewsService.createToken(version.id, {
+        expires_in_hours: expiresInHours,
+        password: password || undefined,
+      });
+    },
+    onSuccess: async (token) => {
+      setPassword('');
+      queryClient.invalidateQueries({ queryKey });
+      try {
+        await navigator.clipboard.writeText(token.preview_url);
+        toast.success('Preview link created and copied');
+      } catch {
+        toast.success('Preview link created');
+      }
+    },
+  });
+
+  const revokeMutation = useMutation({
+    mutationFn: (tokenId: number) => previewsService.revokeToken(tokenId),
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey });
+      toast.success('Preview link revoked');
+    },
+  });
+
+  const copyLink = async (url: string) => {
+    try {
+      await navigator.clipboard.writeText(url);
+      toast.success('Link copied');
+    } catch (err) {
+      console.error('Failed to copy URL:', err);
+    }
+  };
+
+  return (
+    <div className="border border-gray-200 rounded-lg p-4 bg-gray-50 space-y-4">
+      <div>
+        <h3 className="text-sm font-semibold text-gray-900">Preview links</h3>
+        <p className="text-xs text-gray-500">Share the current draft with reviewers who don't have an account.</p>
+      </div>
+
+      <div className="space-y-3">
+        <Select
+          label="Expires after"
+          name="preview_expires_in"
+          value={expiresInHours}
+          onChange={(e) => setExpiresInHours(Number(e.target.value))}
+          options={EXPIRY_OPTIONS}
+        />
+        <Input
+          type="password"
+          label="Password"
+          name="preview_password"
+          value={password}
+          onChange={(e) => setPassword(e.target.value)}
+          helperText="Optional, at least 4 characters"
+          autoComplete="new-password"
+        />
+        <Button
+          type="button"
+          variant="secondary"
+          className="w-full"
+          onClick={() => createMutation.mutate()}
+          disabled={!contentId || (password.length > 0 && password.length < 4)}
+          loading={createMutation.isPending}
+        >
+          Create preview link
+        </Button>
+      </div>
+
+      {isLoading ? (
+        <div className="py-2 flex justify-center"><LoadingSpinner size="sm" /></div>
+      ) : tokens.length === 0 ? (
+        <p className="text-xs text-gray-500">No active preview links.</p>
+      ) : (
+        <div className="space-y-2">
+          {tokens.map((token) => (
+            <div key={token.id} className="border border-gray-200 rounded-md p-3 bg-white shadow-sm">
+              <div className="flex items-start justify-between gap-2">
+                <div className="min-w-0">
+                  <p className="text-sm font-medium text-gray-800">
+                    Version {token.version_number}
+                    {token.password_protected && <span className="ml-1 text-xs text-gray-500">(password)</span>}
+                  </p>
+                  <p className="text-xs text-gray-500">
+                    Expires {formatDate(token.expires_at, 'MMM d, yyyy h:mm a')} · {token.use_count} views
+                  </p>
+                </div>
+                <div className="flex items-center gap-1">
+                  <Button type="button" size="sm" variant="ghost" className="p-1" onClick={() => copyLink(token.preview_url)} title="Copy link">
+                    <Copy className="h-4 w-4" />
+                  </Button>
+                  <Button
+                    type="button"
+                    size="sm"
+                    variant="ghost"
+                    className="p-1 text-red-600"
+                    onClick={() => revokeMutation.mutate(token.id)}
+                    disabled={revokeMutation.isPending}
+                    title="Revoke link"
+                  >
+                    <Trash2 className="h-4 w-4" />
+                  </Button>
+                </div>
+              </div>
+            </div>
+          ))}
+        </div>
+      )}
+    </div>
+  );
+}
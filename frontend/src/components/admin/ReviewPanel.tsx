@@ -0,0 +1,116 @@
+import { useState } from 'react';
+import { useQuery, useMutation, useQueryClient } from '@tanstack/react-query';
+import { toast } from 'react-hot-toast';
+import Button from '../ui/Button';
+import Textarea from '../ui/Textarea';
+import { organizationService } from '../../services/organization';
+import { workflowService, WorkflowStage } from '../../services/workflow';
+
+interface ReviewPanelProps {
+  contentType: 'post' | 'page';
+  contentId: number;
+  // Current editor state, snapshotted into the version that is submitted
+  snapshot: { title?: string; content?: string; excerpt?: string; slug?: string; data?: any };
+}
+
+const STAGE_LABELS: Record<WorkflowStage, { label: string; className: string }> = {
+  draft: { label: 'Draft', className: 'bg-gray-100 text-gray-700' },
+  in_review: { label: 'In review', className: 'bg-yellow-100 text-yellow-700' },
+  approved: { label: 'Approved', className: 'bg-green-100 text-green-700' },
+  published: { label: 'Published', className: 'bg-blue-100 text-blue-700' },
+};
+
+export default function ReviewPanel({ contentType, contentId, snapshot }: ReviewPanelProps) {
+  const queryClient = useQueryClient();
+  const [note, setNote] = useState('');
+
+  const { data: organization } = useQuery({
+    queryKey: ['organization'],
+    queryFn: organizationService.getCurrentOrganization,
+    staleTime: 30000,
+  });
+
+  const { data: settings } = useQuery({
+    queryKey: ['organization-workflow', organization?.id],
+    queryFn: () => workflowService.getSettings(organization!.id),
+    enabled: !!organization?.id,
+  });
+
+  const enabled = !!settings?.workflow_enabled && !!contentId;
+  const versionKey = ['workflow-version', contentType, contentId];
+
+  const { data: version } = useQuery({
+    queryKey: versionKey,
+    queryFn: () => workflowService.getLatestVersion(contentType, contentId),
+    enabled,
+  });
+
+  // Show why the last submission was sent back
+  const { data: history = [] } = useQuery({
+    queryKey: ['version-reviews', version?.id],
+    queryFn: () => workflowService.getReviewHistory(version!.id),
+    enabled: enabled && version?.workflow_stage === 'draft',
+  });
+  const lastReview = history[history.length - 1];
+  const rejection = lastReview?.action === 'rejected' ? lastReview : null;
+
+  const submitMutation = useMutation({
+    mutationFn: () => workflowService.submitSnapshot(contentType, contentId, snapshot, note || undefined),
+    onSuccess: () => {
+      setNote('');
+      toast.success('Submitted for review');
+      queryClient.invalidateQueries({ queryKey: versionKey });
+    },
+    onError: (error: any) => {
+      toast.error(error?.response?.data?.error || 'Failed to submit for review');
+    },
+  });
+
+  if (!enabled) {
+    return null;
+  }
+
+  const stage = version?.workflow_stage ?? 'draft';
+  const awaitingReview = stage === 'in_review';
+
+  return (
+    <div className="border border-gray-200 rounded-lg p-4 bg-gray-50 space-y-3">
+      <div className="flex items-start justify-between gap-2">
+        <div>
+          <h3 className="text-sm font-semibold text-gray-900">Review</h3>
+          <p className="text-xs text-gray-500">Content must be approved before it can be published.</p>
+        </div>
+        <span className={`inline-flex items-center px-2 py-0.5 rounded-full text-xs font-medium ${STAGE_LABELS[stage].className}`}>
+          {STAGE_LABELS[stage].label}
+        </span>
+      </div>
+
+      {rejection && (
+        <div className="text-xs bg-red-50 border border-red-200 text-red-700 rounded-md p-2">
+          <p className="font-medium">Changes requested{rejection.actor_name ? ` by ${rejection.actor_name}` : ''}</p>
+          <p className="mt-1">{rejection.reason}</p>
+        </div>
+      )}
+
+      {!awaitingReview && (
+        <Textarea
+          label="Note for reviewers"
+          name="review_note"
+          value={note}
+          onChange={(e) => setNote(e.target.value)}
+          rows={2}
+        />
+      )}
+      <Button
+        type="button"
+        variant="secondary"
+        className="w-full"
+        onClick={() => submitMutation.mutate()}
+        disabled={awaitingReview}
+        loading={submitMutation.isPending}
+      >
+        {awaitingReview ? 'Awaiting review' : 'Submit for review'}
+      </Button>
+    </div>
+  );
+}
@@ -0,0 +1,381 @@
+import { useEffect, useState } from 'react';
+import { ArrowDown, ArrowUp, Plus, Trash2, Upload } from 'lucide-react';
+import Button from '../ui/Button';
+import Input from '../ui/Input';
+import Select from '../ui/Select';
+import RichTextEditor from '../ui/RichTextEditor';
+import BlockEditor from './BlockEditor';
+import { pagesService } from '../../services/pages';
+import { postsService } from '../../services/posts';
+import { mediaService } from '../../services/media';
+import { fragmentsService } from '../../services/fragments';
+import { sortPageTree } from '../../lib/utils';
+import { emptyValue, fieldLabel, fieldType } from '../../lib/templateSchema';
+import { JsonSchema, Page, Post } from '../../types';
+
+type Options = Array<{ value: number; label: string }>;
+
+interface ReferenceOptions {
+  page: Options;
+  post: Options;
+  fragment: Options;
+}
+
+interface FieldProps {
+  schema: JsonSchema;
+  label: string;
+  // Dotted path of the value in the data, e.g. members.0.name
+  path: string;
+  value: unknown;
+  onChange: (value: unknown) => void;
+  required?: boolean;
+  errors: Record<string, string>;
+  references: ReferenceOptions;
+}
+
+const usesFormat = (schema: JsonSchema, format: string): boolean =>
+  schema.format === format ||
+  Object.values(schema.properties || {}).some((property) => usesFormat(property, format)) ||
+  Object.values(schema.blockTypes || {}).some((blockSchema) => usesFormat(blockSchema, format)) ||
+  (!!schema.items && usesFormat(schema.items, format));
+
+// Formats of integer fields holding the id of a page, post or fragment
+const referenceFormats: Record<string, keyof ReferenceOptions> = {
+  'page-reference': 'page',
+  'post-reference': 'post',
+  'fragment-reference': 'fragment',
+};
+
+const fieldId = (path: string) => `data-${path.replace(/\./g, '-')}`;
+
+function ImageField({ label, path, value, onChange, required, errors, schema }: FieldProps) {
+  const [uploading, setUploading] = useState(false);
+
+  const upload = async (file: File) => {
+    setUploading(true);
+    try {
+      const res: any = await mediaService.uploadFile(file);
+      const url = res.mediaFile?.file_path || res.data?.file_path;
+      if (url) onChange(url);
+    } finally {
+      setUploading(false);
+    }
+  };
+
+  return (
+    <div className="space-y-2">
+      <Input
+        id={fieldId(path)}
+        label={label}
+        type="text"
+        value={(value as string) || ''}
+        onChange={(e) => onChange(e.target.value)}
+        placeholder="Image URL"
+        required={required}
+        error={errors[path]}
+        helperText={schema.description}
+      />
+      <div className="flex items-center gap-3">
+        {typeof value === 'string' && value && (
+          <img src={value} alt="" className="h-16 w-16 object-cover rounded border" />
+        )}
+        <label className="inline-flex items-center text-sm text-primary-600 cursor-pointer">
+          <Upload className="h-4 w-4 mr-1" />
+          {uploading ? 'Uploading...' : 'Upload image'}
+          <input
+            type="file"
+            accept="image/*"
+            className="sr-only"
+            disabled={uploading}
+            onChange={(e) => e.target.files?.[0] && upload(e.target.files[0])}
+          />
+        </label>
+      </div>
+    </div>
+  );
+}
+
+function RepeaterField(props: FieldProps) {
+  const { schema, label, path, onChange, errors } = props;
+  const items = Array.isArray(props.value) ? props.value : [];
+  const itemSchema = schema.items || { type: 'string' };
+  const atMax = schema.maxItems !== undefined && items.length >= schema.maxItems;
+
+  const update = (next: unknown[]) => onChange(next);
+  const move = (from: number, to: number) => {
+    const next = [...items];
+    next.splice(to, 0, next.splice(from, 1)[0]);
+    update(next);
+  };
+
+  return (
+    <fieldset className="space-y-3">
+      <legend className="block text-sm font-medium text-gray-700">
+        {label}
+        {props.required && <span className="text-red-500 ml-1">*</span>}
+      </legend>
+      {schema.description && <p className="text-sm text-gray-500">{schema.description}</p>}
+      {errors[path] && <p className="text-sm text-red-600">{errors[path]}</p>}
+
+      {items.map((item, index) => (
+        <div key={index} className="border rounded-md p-4 space-y-3 bg-gray-50">
+          <div className="flex items-center justify-between">
+            <span className="text-sm font-medium text-gray-600">
+              {itemSchema.title || label} {index + 1}
+            </span>
+            <div className="flex items-center gap-1">
+              <Button type="button" variant="ghost" size="sm" aria-label="Move up" disabled={index === 0} onClick={() => move(index, index - 1)}>
+                <ArrowUp className="h-4 w-4" />
+              </Button>
+              <Button type="button" variant="ghost" size="sm" aria-label="Move down" disabled={index === items.length - 1} onClick={() => move(index, index + 1)}>
+                <ArrowDown className="h-4 w-4" />
+              </Button>
+              <Button
+                type="button"
+                variant="ghost"
+                size="sm"
+                aria-label={`Remove ${label} ${index + 1}`}
+                className="text-red-600 hover:text-red-700"
+                onClick={() => update(items.filter((_, i) => i !== index))}
+              >
+                <Trash2 className="h-4 w-4" />
+              </Button>
+            </div>
+          </div>
+          <SchemaField
+            {...props}
+            schema={itemSchema}
+            label={fieldType(itemSchema) === 'object' ? '' : `${label} ${index + 1}`}
+            path={`${path}.${index}`}
+            value={item}
+            required={false}
+            onChange={(value) => update(items.map((existing, i) => (i === index ? value : existing)))}
+          />
+        </div>
+      ))}
+
+      <Button type="button" variant="secondary" size="sm" disabled={atMax} onClick={() => update([...items, emptyValue(itemSchema)])}>
+        <Plus className="h-4 w-4 mr-1" />
+        Add {label.toLowerCase()}
+      </Button>
+    </fieldset>
+  );
+}
+
+function ObjectFields(props: FieldProps) {
+  const { schema, path, onChange } = props;
+  const value = props.value && typeof props.value === 'object' ? (props.value as Record<string, unknown>) : {};
+
+  return (
+    <div className="space-y-4">
+      {Object.entries(schema.properties || {}).map(([key, property]) => (
+        <SchemaField
+          key={key}
+          {...props}
+          schema={property}
+          label={fieldLabel(key, property)}
+          path={path ? `${path}.${key}` : key}
+          value={value[key]}
+          required={(schema.required || []).includes(key)}
+          onChange={(next) => onChange({ ...value, [key]: next })}
+        />
+      ))}
+    </div>
+  );
+}
+
+function SchemaField(props: FieldProps) {
+  const { schema, label, path, value, onChange, required, errors, references } = props;
+  const type = fieldType(schema);
+  const error = errors[path];
+  const id = fieldId(path);
+
+  if (schema.format === 'html') {
+    return (
+      <div className="space-y-1">
+        <label className="block text-sm font-medium text-gray-700">
+          {label}
+          {required && <span className="text-red-500 ml-1">*</span>}
+        </label>
+        <RichTextEditor value={(value as string) || ''} onChange={onChange} />
+        {error && <p className="text-sm text-red-600">{error}</p>}
+      </div>
+    );
+  }
+
+  if (schema.format === 'image') {
+    return <ImageField {...props} />;
+  }
+
+  if (schema.format === 'blocks' && schema.blockTypes) {
+    return (
+      <BlockEditor
+        label={label}
+        description={schema.description}
+        blockTypes={schema.blockTypes}
+        path={path}
+        value={value}
+        onChange={onChange}
+        errors={errors}
+        renderProps={(block, index, onPropsChange) => (
+          <ObjectFields
+            {...props}
+            schema={schema.blockTypes![block.type]}
+            label=""
+            path={`${path}.${index}.props`}
+            value={block.props}
+            onChange={(next) => onPropsChange(next as Record<string, unknown>)}
+          />
+        )}
+      />
+    );
+  }
+
+  const referenceKind = schema.format && referenceFormats[schema.format];
+  if (referenceKind) {
+    const kind = referenceKind;
+    return (
+      <Select
+        id={id}
+        label={label}
+        value={typeof value === 'number' ? value : ''}
+        onChange={(e) => onChange(e.target.value ? Number(e.target.value) : null)}
+        placeholder={`Select a ${kind}`}
+        options={references[kind]}
+        required={required}
+        error={error}
+        helperText={schema.description}
+      />
+    );
+  }
+
+  if (schema.enum) {
+    return (
+      <Select
+        id={id}
+        label={label}
+        value={value === undefined || value === null ? '' : String(value)}
+        onChange={(e) => {
+          const option = schema.enum!.find((candidate) => String(candidate) === e.target.value);
+          onChange(option === undefined ? null : option);
+        }}
+        placeholder="Select..."
+        options={schema.enum.map((option) => ({ value: String(option), label: String(option) }))}
+        required={required}
+        error={error}
+        helperText={schema.description}
+      />
+    );
+  }
+
+  switch (type) {
+    case 'object':
+      return label ? (
+        <fieldset className="space-y-4 border rounded-md p-4">
+          <legend className="px-1 text-sm font-medium text-gray-700">{label}</legend>
+          <ObjectFields {...props} />
+        </fieldset>
+      ) : (
+        <ObjectFields {...props} />
+      );
+    case 'array':
+      return <RepeaterField {...props} />;
+    case 'boolean':
+      return (
+        <div className="flex items-center gap-2">
+          <input
+            id={id}
+            type="checkbox"
+            checked={value === true}
+            onChange={(e) => onChange(e.target.checked)}
+            className="h-4 w-4 text-primary-600 focus:ring-primary-500 border-gray-300 rounded"
+          />
+          <label htmlFor={id} className="text-sm text-gray-700">{label}</label>
+          {error && <p className="text-sm text-red-600">{error}</p>}
+        </div>
+      );
+    case 'number':
+    case 'integer':
+      return (
+        <Input
+          id={id}
+          label={label}
+          type="number"
+          step={type === 'integer' ? 1 : 'any'}
+          min={schema.minimum}
+          max={schema.maximum}
+          value={typeof value === 'number' ? value : ''}
+          onChange={(e) => onChange(e.target.value === '' ? null : Number(e.target.value))}
+          required={required}
+          error={error}
+          helperText={schema.description}
+        />
+      );
+    default:
+      return (
+        <Input
+          id={id}
+          label={label}
+          type="text"
+          maxLength={schema.maxLength}
+          value={typeof value === 'string' ? value : value === undefined || value === null ? '' : String(value)}
+          onChange={(e) => onChange(e.target.value)}
+          required={required}
+          error={error}
+          helperText={schema.description}
+        />
+      );
+  }
+}
+
+interface SchemaFormProps {
+  schema: JsonSchema;
+  value: Record<string, unknown> | undefined;
+  onChange: (value: Record<string, unknown>) => void;
+  // Messages keyed by the dotted path of the field, e.g. members.0.name
+  errors?: Record<string, string>;
+}
+
+/**
+ * Page data fields generated from a template schema
+ */
+export default function SchemaForm({ schema, value, onChange, errors = {} }: SchemaFormProps) {
+  const [references, setReferences] = useState<ReferenceOptions>({ page: [], post: [], fragment: [] });
+  const needsPages = usesFormat(schema, 'page-reference');
+  const needsPosts = usesFormat(schema, 'post-reference');
+  const needsFragments = usesFormat(schema, 'fragment-reference');
+
+  useEffect(() => {
+    (async () => {
+      try {
+        const [pagesRes, postsRes, fragments] = await Promise.all([
+          needsPages ? pagesService.getAllPages({ tree: true }) : null,
+          needsPosts ? postsService.getAllPosts({ limit: 100 }) : null,
+          needsFragments ? fragmentsService.list() : null,
+        ]);
+        setReferences({
+          page: sortPageTree(((pagesRes?.data as Page[]) || [])).map((page) => ({
+            value: page.id,
+            label: `${'\u00A0\u00A0'.repeat(page.depth)}${page.title}`,
+          })),
+          post: ((postsRes?.data as Post[]) || []).map((post) => ({ value: post.id, label: post.title })),
+          fragment: (fragments || []).map((fragment) => ({ value: fragment.id, label: fragment.name })),
+        });
+      } catch {
+        // ignore, reference fields stay empty
+      }
+    })();
+  }, [needsPages, needsPosts, needsFragments]);
+
+  return (
+    <ObjectFields
+      schema={schema}
+      label=""
+      path=""
+      value={value || {}}
+      onChange={(next) => onChange(next as Record<string, unknown>)}
+      errors={errors}
+      references={references}
+    />
+  );
+}
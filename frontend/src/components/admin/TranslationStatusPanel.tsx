@@ -0,0 +1,152 @@
+import { useQuery, useMutation, useQueryClient } from '@tanstack/react-query';
+import { Link, useNavigate } from 'react-router-dom';
+import { toast } from 'react-hot-toast';
+import { Languages } from 'lucide-react';
+import Button from '../ui/Button';
+import LoadingSpinner from '../ui/LoadingSpinner';
+import { translationsService, TranslatableContentType, ContentTranslation } from '../../services/translations';
+import { localeName } from '../../lib/locales';
+
+interface TranslationStatusPanelProps {
+  contentType: TranslatableContentType;
+  contentId: number;
+}
+
+const editPath = (contentType: TranslatableContentType, id: number) => `/admin/${contentType}s/${id}/edit`;
+
+function statusBadge(translation: ContentTranslation) {
+  if (translation.is_source) {
+    return { label: 'Source', className: 'bg-blue-100 text-blue-700' };
+  }
+  if (translation.outdated) {
+    return { label: 'Outdated', className: 'bg-orange-100 text-orange-700' };
+  }
+  return { label: 'Up to date', className: 'bg-green-100 text-green-700' };
+}
+
+export default function TranslationStatusPanel({ contentType, contentId }: TranslationStatusPanelProps) {
+  const queryClient = useQueryClient();
+  const navigate = useNavigate();
+  const queryKey = ['translations', contentType, contentId];
+
+  const { data: status, isLoading } = useQuery({
+    queryKey,
+    queryFn: () => translationsService.getStatus(contentType, contentId),
+    enabled: !!contentId,
+  });
+
+  const createMutation = useMutation({
+    mutationFn: (locale: string) => translationsService.create(contentType, contentId, { locale }),
+    onSuccess: (translation) => {
+      queryClient.invalidateQueries({ queryKey: ['translations', contentType] });
+      toast.success(`${localeName(translation.locale)} translation created`);
+      navigate(editPath(contentType, translation.id));
+    },
+  });
+
+  const syncMutation = useMutation({
+    mutationFn: () => translationsService.markCurrent(contentType, contentId),
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey });
+      toast.success('Translation marked as up to date');
+    },
+  });
+
+  if (isLoading) {
+    return (
+      <div className="border border-gray-200 rounded-lg p-4 bg-gray-50 flex justify-center">
+        <LoadingSpinner size="sm" />
+      </div>
+    );
+  }
+
+  if (!status) {
+    return null;
+  }
+
+  const current = status.translations.find((translation) => translation.id === contentId);
+
+  return (
+    <div className="border border-gray-200 rounded-lg p-4 bg-gray-50 space-y-4">
+      <div>
+        <h3 className="text-sm font-semibold text-gray-900 flex items-center gap-2">
+          <Languages className="h-4 w-4" />
+          Translations
+        </h3>
+        <p className="text-xs text-gray-500">
+          Each language has its own slug, versions and publish state.
+        </p>
+      </div>
+
+      {current?.outdated && (
+        <div className="rounded-md border border-orange-200 bg-orange-50 p-3 text-xs text-orange-800 space-y-2" role="status">
+          <p>The source was changed after this translation was last updated.</p>
+          <Button
+            type="button"
+            size="sm"
+            variant="outline"
+            onClick={() => syncMutation.mutate()}
+            loading={syncMutation.isPending}
+          >
+            Mark as up to date
+          </Button>
+        </div>
+      )}
+
+      <ul className="space-y-2">
+        {status.translations.map((translation) => {
+          const badge = statusBadge(translation);
+          return (
+            <li
+              key={translation.id}
+              className="flex items-center justify-between gap-2 border border-gray-200 rounded-md p-2 bg-white"
+            >
+              <div className="min-w-0">
+                <p className="text-sm font-medium text-gray-800">
+                  {localeName(translation.locale)}
+                  <span className="ml-1 text-xs text-gray-500">({translation.locale})</span>
+                </p>
+                <p className="text-xs text-gray-500 truncate">/{translation.slug} · {translation.status}</p>
+              </div>
+              <div className="flex items-center gap-2 shrink-0">
+                <span className={`px-2 py-0.5 rounded text-xs font-medium ${badge.className}`}>{badge.label}</span>
+                {translation.id === contentId ? (
+                  <span className="text-xs text-gray-400">Editing</span>
+                ) : (
+                  <Link
+                    to={editPath(contentType, translation.id)}
+                    className="text-xs font-medium text-primary-600 hover:text-primary-700"
+                  >
+                    Edit
+                  </Link>
+                )}
+              </div>
+            </li>
+          );
+        })}
+      </ul>
+
+      {status.missing_locales.length > 0 ? (
+        <div className="space-y-2">
+          <p className="text-xs font-medium text-gray-700">Not translated yet</p>
+          {status.missing_locales.map((locale) => (
+            <div key={locale} className="flex items-center justify-between gap-2">
+              <span className="text-sm text-gray-700">{localeName(locale)}</span>
+              <Button
+                type="button"
+                size="sm"
+                variant="secondary"
+                onClick={() => createMutation.mutate(locale)}
+                disabled={createMutation.isPending}
+              >
+                Translate
+              </Button>
+            </div>
+          ))}
+        </div>
+      ) : status.locales.length < 2 ? (
+        <p className="text-xs text-gray-500">Enable more languages in the site settings to translate this {contentType}.</p>
+      ) : null}
+    </div>
+  );
+}
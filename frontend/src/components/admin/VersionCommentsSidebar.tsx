@@ -0,0 +1,351 @@
+import { RefObject, useState } from 'react';
+import { useMutation, useQuery, useQueryClient } from '@tanstack/react-query';
+import { toast } from 'react-hot-toast';
+import { MessageSquare, CheckCircle, RotateCcw, Trash2, Quote, X } from 'lucide-react';
+import Button from '../ui/Button';
+import Select from '../ui/Select';
+import Textarea from '../ui/Textarea';
+import { formatRelativeTime } from '../../lib/utils';
+import { useAuthStore } from '../../lib/auth';
+import { workflowService } from '../../services/workflow';
+import {
+  versionCommentsService,
+  CommentAnchor,
+  CommentType,
+  VersionComment,
+} from '../../services/versionComments';
+
+interface VersionCommentsSidebarProps {
+  // Version to discuss; when omitted the latest version of `content` is used
+  versionId?: number;
+  content?: { contentType: 'post' | 'page'; contentId: number };
+  // Element whose selected text can be quoted as the comment anchor
+  anchorRef?: RefObject<HTMLElement>;
+  fieldPath?: string;
+}
+
+const TYPE_OPTIONS: Array<{ value: CommentType; label: string }> = [
+  { value: 'general', label: 'Comment' },
+  { value: 'suggestion', label: 'Suggestion' },
+  { value: 'issue', label: 'Issue' },
+  { value: 'approval', label: 'Approval' },
+];
+
+const TYPE_BADGES: Record<CommentType, string> = {
+  general: 'bg-gray-100 text-gray-700',
+  suggestion: 'bg-blue-100 text-blue-700',
+  issue: 'bg-red-100 text-red-700',
+  approval: 'bg-green-100 text-green-700',
+};
+
+const authorName = (comment: VersionComment) => {
+  const name = [comment.author?.first_name, comment.author?.last_name].filter(Boolean).join(' ');
+  return name || comment.author?.email || 'Unknown';
+};
+
+/**
+ * Read the current text selection inside `root` as a character range anchor
+ */
+function getSelectionAnchor(root: HTMLElement, fieldPath: string): CommentAnchor | null {
+  const selection = window.getSelection();
+  if (!selection || selection.isCollapsed || selection.rangeCount === 0) return null;
+
+  const range = selection.getRangeAt(0);
+  if (!root.contains(range.commonAncestorContainer)) return null;
+
+  const selected = range.toString();
+  if (!selected.trim()) return null;
+
+  const before = document.createRange();
+  before.selectNodeContents(root);
+  before.setEnd(range.startContainer, range.startOffset);
+  const start = before.toString().length;
+
+  const startElement = range.startContainer instanceof Element
+    ? range.startContainer
+    : range.startContainer.parentElement;
+  const line = startElement?.closest('[data-line-number]')?.getAttribute('data-line-number');
+
+  return {
+    field_path: fieldPath,
+    range_start: start,
+    range_end: start + selected.length,
+    quoted_text: selected.trim().slice(0, 2000),
+    line_number: line ? Number(line) : undefined,
+  };
+}
+
+export default function VersionCommentsSidebar({
+  versionId,
+  content,
+  anchorRef,
+  fieldPath = 'content',
+}: VersionCommentsSidebarProps) {
+  const queryClient = useQueryClient();
+  const currentUserId = useAuthStore((state) => state.user?.id);
+  const [showResolved, setShowResolved] = useState(false);
+  const [text, setText] = useState('');
+  const [type, setType] = useState<CommentType>('general');
+  const [anchor, setAnchor] = useState<CommentAnchor | null>(null);
+  const [replies, setReplies] = useState<Record<number, string>>({});
+
+  const { data: latestVersion } = useQuery({
+    queryKey: ['workflow-version', content?.contentType, content?.contentId],
+    queryFn: () => workflowService.getLatestVersion(content!.contentType, content!.contentId),
+    enabled: !versionId && !!content?.contentId,
+  });
+
+  const activeVersionId = versionId ?? latestVersion?.id;
+  const queryKey = ['version-comments', activeVersionId];
+
+  const { data, isLoading } = useQuery({
+    queryKey,
+    queryFn: () => versionCommentsService.list(activeVersionId!),
+    enabled: !!activeVersionId,
+  });
+
+  const onError = (fallback: string) => (error: any) => {
+    toast.error(error?.response?.data?.error || fallback);
+  };
+
+  const refresh = () => queryClient.invalidateQueries({ queryKey });
+
+  const createMutation = useMutation({
+    mutationFn: (payload: Parameters<typeof versionCommentsService.create>[1]) =>
+      versionCommentsService.create(activeVersionId!, payload),
+    onSuccess: (comment) => {
+      if (comment.parent_id) {
+        setReplies((prev) => ({ ...prev, [comment.parent_id!]: '' }));
+      } else {
+        setText('');
+        setType('general');
+        setAnchor(null);
+      }
+      refresh();
+    },
+    onError: onError('Failed to add comment'),
+  });
+
+  const statusMutation = useMutation({
+    mutationFn: ({ commentId, resolve }: { commentId: number; resolve: boolean }) =>
+      resolve ? versionCommentsService.resolve(commentId) : versionCommentsService.unresolve(commentId),
+    onSuccess: refresh,
+    onError: onError('Failed to update comment'),
+  });
+
+  const deleteMutation = useMutation({
+    mutationFn: (commentId: number) => versionCommentsService.remove(commentId),
+    onSuccess: refresh,
+    onError: onError('Failed to delete comment'),
+  });
+
+  const handleQuote = () => {
+    const selected = anchorRef?.current ? getSelectionAnchor(anchorRef.current, fieldPath) : null;
+    if (!selected) {
+      toast.error('Select some text to comment on first.');
+      return;
+    }
+    setAnchor(selected);
+  };
+
+  const handleSubmit = () => {
+    if (!text.trim()) return;
+    createMutation.mutate({ comment_text: text.trim(), comment_type: type, ...(anchor ?? {}) });
+  };
+
+  const handleReply = (parentId: number) => {
+    const reply = replies[parentId]?.trim();
+    if (!reply) return;
+    createMutation.mutate({ comment_text: reply, parent_id: parentId });
+  };
+
+  if (!activeVersionId) {
+    return content ? (
+      <div className="border border-gray-200 rounded-lg p-4 bg-gray-50">
+        <h3 className="text-sm font-semibold text-gray-900">Comments</h3>
+        <p className="text-xs text-gray-500 mt-1">Save a version to start a review discussion.</p>
+      </div>
+    ) : null;
+  }
+
+  const threads = (data?.comments ?? []).filter((thread) => showResolved || thread.status !== 'resolved');
+
+  return (
+    <div className="border border-gray-200 rounded-lg p-4 bg-gray-50 space-y-3" data-testid="version-comments">
+      <div className="flex items-start justify-between gap-2">
+        <div className="flex items-center gap-2">
+          <MessageSquare className="h-4 w-4 text-gray-500" />
+          <h3 className="text-sm font-semibold text-gray-900">Comments</h3>
+        </div>
+        <span className="text-xs text-gray-500">
+          {data?.active_threads ?? 0} open · {data?.resolved_threads ?? 0} resolved
+        </span>
+      </div>
+
+      <div className="space-y-2">
+        {anchor?.quoted_text && (
+          <div className="flex items-start gap-2 text-xs bg-yellow-50 border border-yellow-200 rounded-md p-2">
+            <blockquote className="flex-1 italic text-gray-700 line-clamp-3">“{anchor.quoted_text}”</blockquote>
+            <button
+              type="button"
+              className="text-gray-400 hover:text-gray-600"
+              onClick={() => setAnchor(null)}
+              aria-label="Remove quote"
+            >
+              <X className="h-3 w-3" />
+            </button>
+          </div>
+        )}
+        <Textarea
+          label="New comment"
+          name="version_comment"
+          value={text}
+          onChange={(e) => setText(e.target.value)}
+          rows={3}
+        />
+        <Select
+          label="Type"
+          name="version_comment_type"
+          value={type}
+          onChange={(e) => setType(e.target.value as CommentType)}
+          options={TYPE_OPTIONS}
+        />
+        <div className="flex gap-2">
+          {anchorRef && (
+            <Button
+              type="button"
+              size="sm"
+              variant="outline"
+              icon={<Quote className="h-4 w-4" />}
+              // Keep the editor selection alive while clicking
+              onMouseDown={(e) => e.preventDefault()}
+              onClick={handleQuote}
+            >
+              Quote selection
+            </Button>
+          )}
+          <Button
+            type="button"
+            size="sm"
+            className="flex-1"
+            onClick={handleSubmit}
+            disabled={!text.trim()}
+            loading={createMutation.isPending && !createMutation.variables?.parent_id}
+          >
+            Comment
+          </Button>
+        </div>
+      </div>
+
+      <label className="flex items-center gap-2 text-xs text-gray-600">
+        <input type="checkbox" checked={showResolved} onChange={(e) => setShowResolved(e.target.checked)} />
+        Show resolved
+      </label>
+
+      {isLoading ? (
+        <p className="text-xs text-gray-500">Loading comments…</p>
+      ) : threads.length === 0 ? (
+        <p className="text-xs text-gray-500">No open comments on this version.</p>
+      ) : (
+        <ul className="space-y-3">
+          {threads.map((thread) => (
+            <li
+              key={thread.id}
+              className={`bg-white border rounded-md p-3 space-y-2 ${thread.status === 'resolved' ? 'opacity-70' : ''}`}
+            >
+              <div className="flex items-center justify-between gap-2 text-xs">
+                <span className="font-medium text-gray-900">{authorName(thread)}</span>
+                <span className={`px-2 py-0.5 rounded-full ${TYPE_BADGES[thread.comment_type]}`}>
+                  {TYPE_OPTIONS.find((option) => option.value === thread.comment_type)?.label}
+                </span>
+              </div>
+              {thread.quoted_text && (
+                <blockquote className="text-xs italic text-gray-600 border-l-2 border-yellow-300 pl-2">
+                  “{thread.quoted_text}”{thread.line_number ? ` · line ${thread.line_number}` : ''}
+                </blockquote>
+              )}
+              <p className="text-sm text-gray-800 whitespace-pre-wrap">{thread.comment_text}</p>
+              <p className="text-xs text-gray-400">{formatRelativeTime(thread.created_at)}</p>
+
+              {thread.replies?.map((reply) => (
+                <div key={reply.id} className="ml-3 pl-3 border-l border-gray-200">
+                  <div className="flex items-center justify-between text-xs">
+                    <span className="font-medium text-gray-900">{authorName(reply)}</span>
+                    {reply.created_by === currentUserId && (
+                      <button
+                        type="button"
+                        className="text-gray-400 hover:text-red-600"
+                        onClick={() => deleteMutation.mutate(reply.id)}
+                        aria-label="Delete reply"
+                      >
+                        <Trash2 className="h-3 w-3" />
+                      </button>
+                    )}
+                  </div>
+                  <p className="text-sm text-gray-800 whitespace-pre-wrap">{reply.comment_text}</p>
+                </div>
+              ))}
+
+              {thread.status === 'active' && (
+                <div className="flex gap-2">
+                  <input
+                    type="text"
+                    aria-label={`Reply to ${authorName(thread)}`}
+                    className="input flex-1 text-sm"
+                    placeholder="Reply…"
+                    value={replies[thread.id] ?? ''}
+                    onChange={(e) => setReplies((prev) => ({ ...prev, [thread.id]: e.target.value }))}
+                    onKeyDown={(e) => {
+                      if (e.key === 'Enter') {
+                        e.preventDefault();
+                        handleReply(thread.id);
+                      }
+                    }}
+                  />
+                  <Button type="button" size="sm" variant="outline" onClick={() => handleReply(thread.id)}>
+                    Reply
+                  </Button>
+                </div>
+              )}
+
+              <div className="flex justify-end gap-2">
+                {thread.created_by === currentUserId && (
+                  <Button
+                    type="button"
+                    size="sm"
+                    variant="ghost"
+                    icon={<Trash2 className="h-4 w-4" />}
+                    onClick={() => deleteMutation.mutate(thread.id)}
+                  >
+                    Delete
+                  </Button>
+                )}
+                {thread.status === 'resolved' ? (
+                  <Button
+                    type="button"
+                    size="sm"
+                    variant="outline"
+                    icon={<RotateCcw className="h-4 w-4" />}
+                    onClick={() => statusMutation.mutate({ commentId: thread.id, resolve: false })}
+                  >
+                    Reopen
+                  </Button>
+                ) : (
+                  <Button
+                    type="button"
+                    size="sm"
+                    variant="outline"
+                    icon={<CheckCircle className="h-4 w-4" />}
+                    onClick={() => statusMutation.mutate({ commentId: thread.id, resolve: true })}
+                  >
+                    Resolve
+                  </Button>
+                )}
+              </div>
+            </li>
+          ))}
+        </ul>
+      )}
+    </div>
+  );
+}
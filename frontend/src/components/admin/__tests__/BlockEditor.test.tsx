@@ -0,0 +1,89 @@
+import { describe, it, vi, expect, beforeEach } from 'vitest';
+import { useState } from 'react';
+import { render, screen, fireEvent, within } from '@testing-library/react';
+import SchemaForm from '../SchemaForm';
+import type { JsonSchema, PageBlock } from '@/types';
+
+vi.mock('@/services/pages', () => ({
+  pagesService: { getAllPages: vi.fn() }
+}));
+vi.mock('@/services/posts', () => ({
+  postsService: { getAllPosts: vi.fn() }
+}));
+vi.mock('@/services/media', () => ({
+  mediaService: { uploadFile: vi.fn() }
+}));
+
+const schema: JsonSchema = {
+  type: 'object',
+  properties: {
+    blocks: {
+      type: 'array',
+      format: 'blocks',
+      blockTypes: {
+        hero: { title: 'Hero', required: ['heading'], properties: { heading: { type: 'string' } } },
+        quote: { title: 'Quote', properties: { text: { type: 'string' }, attribution: { type: 'string' } } }
+      }
+    }
+  }
+};
+
+let latest: Record<string, unknown> = {};
+
+function Harness({ initial, errors }: { initial: Record<string, unknown>; errors?: Record<string, string> }) {
+  const [data, setData] = useState(initial);
+  latest = data;
+  return <SchemaForm schema={schema} value={data} onChange={setData} errors={errors} />;
+}
+
+const blocks = () => latest.blocks as PageBlock[];
+
+describe('BlockEditor', () => {
+  beforeEach(() => vi.clearAllMocks());
+
+  it('adds blocks with fields for their type', () => {
+    render(<Harness initial={{ blocks: [] }} />);
+    expect(screen.getByText(/No blocks yet/)).toBeInTheDocument();
+
+    fireEvent.click(screen.getByRole('button', { name: 'Add Hero block' }));
+    fireEvent.change(screen.getByLabelText(/Heading/), { target: { value: 'Welcome' } });
+    fireEvent.click(screen.getByRole('button', { name: 'Add Quote block' }));
+    fireEvent.change(screen.getByLabelText('Text'), { target: { value: 'Simple is better' } });
+
+    expect(blocks().map((block) => [block.type, block.props])).toEqual([
+      ['hero', { heading: 'Welcome' }],
+      ['quote', { text: 'Simple is better', attribution: '' }]
+    ]);
+    expect(new Set(blocks().map((block) => block.id)).size).toBe(2);
+  });
+
+  it('reorders and removes blocks', () => {
+    render(<Harness initial={{ blocks: [
+      { id: 'a', type: 'hero', props: { heading: 'Welcome' } },
+      { id: 'b', type: 'quote', props: { text: 'Hi' } }
+    ] }} />);
+
+    fireEvent.click(screen.getByRole('button', { name: 'Move Quote block up' }));
+    expect(blocks().map((block) => block.id)).toEqual(['b', 'a']);
+
+    fireEvent.click(screen.getByRole('button', { name: 'Remove Hero block 2' }));
+    expect(blocks().map((block) => block.id)).toEqual(['b']);
+  });
+
+  it('shows errors on the block and its fields', () => {
+    render(
+      <Harness
+        initial={{ blocks: [
+          { id: 'a', type: 'hero', props: { heading: '' } },
+          { id: 'b', type: 'video', props: {} }
+        ] }}
+        errors={{ 'blocks.0.props.heading': 'is required', 'blocks.1.type': 'must be one of "hero", "quote"' }}
+      />
+    );
+
+    expect(within(screen.getByTestId('block-a')).getByText('is required')).toBeInTheDocument();
+    const unknown = screen.getByTestId('block-b');
+    expect(unknown).toHaveTextContent('Unknown block "video"');
+    expect(within(unknown).getByText('must be one of "hero", "quote"')).toBeInTheDocument();
+  });
+});
@@ -0,0 +1,142 @@
+import { describe, it, vi, expect, beforeEach, afterEach } from 'vitest';
+import { render, screen, act, waitFor } from '@testing-library/react';
+import userEvent from '@testing-library/user-event';
+import CollaborationBar from '../CollaborationBar';
+import { useCollaboration } from '../../../hooks/useCollaboration';
+import { versionsApi } from '../../../services/versionsApi';
+
+vi.mock('../../../services/versionsApi', () => ({
+  versionsApi: { getVersion: vi.fn() },
+}));
+
+vi.mock('../../../lib/auth', () => ({
+  useAuthStore: (selector: (state: any) => any) => selector({ user: { id: 7 }, token: 'jwt-token' }),
+}));
+
+vi.mock('react-hot-toast', () => ({
+  toast: {
+    success: vi.fn(),
+    error: vi.fn(),
+  },
+}));
+
+/**
+ * Stand-in for the browser WebSocket that lets a test play the server
+ */
+class FakeWebSocket {
+  static OPEN = 1;
+  static instances: FakeWebSocket[] = [];
+
+  readyState = 0;
+  sent: any[] = [];
+  onopen: (() => void) | null = null;
+  onmessage: ((event: { data: string }) => void) | null = null;
+  onclose: (() => void) | null = null;
+
+  constructor(public url: string) {
+    FakeWebSocket.instances.push(this);
+  }
+
+  send(data: string) {
+    this.sent.push(JSON.parse(data));
+  }
+
+  close() {
+    this.readyState = 3;
+  }
+
+  open() {
+    this.readyState = FakeWebSocket.OPEN;
+    this.onopen?.();
+  }
+
+  receive(event: string, data: unknown) {
+    this.onmessage?.({ data: JSON.stringify({ event, data, room: 'post:12' }) });
+  }
+}
+
+function Harness({ onApplyVersion = vi.fn() }: { onApplyVersion?: (version: any) => void }) {
+  const collaboration = useCollaboration({ contentType: 'post', contentId: 12 });
+  return (
+    <>
+      <button type="button" onClick={() => collaboration.notifyTyping('title')}>type</button>
+      <CollaborationBar
+        participants={collaboration.participants}
+        typing={collaboration.typing}
+        remoteSave={collaboration.remoteSave}
+        onDismiss={collaboration.dismissRemoteSave}
+        onApplyVersion={onApplyVersion}
+      />
+    </>
+  );
+}
+
+const bob = { id: 8, email: 'bob@example.com', first_name: 'Bob', last_name: 'Ray' };
+
+describe('CollaborationBar', () => {
+  const mockGetVersion = versionsApi.getVersion as ReturnType<typeof vi.fn>;
+
+  beforeEach(() => {
+    vi.clearAllMocks();
+    FakeWebSocket.instances = [];
+    vi.stubGlobal('WebSocket', FakeWebSocket);
+  });
+
+  afterEach(() => {
+    vi.unstubAllGlobals();
+  });
+
+  const connect = () => {
+    const socket = FakeWebSocket.instances[0];
+    act(() => socket.open());
+    return socket;
+  };
+
+  it('joins the content room and shows who else is editing', () => {
+    render(<Harness />);
+    const socket = connect();
+
+    expect(socket.url).toContain('/api/ws?token=jwt-token');
+    expect(socket.sent[0]).toEqual({ action: 'join', content_type: 'post', content_id: 12 });
+
+    act(() => socket.receive('user:joined', { user: bob }));
+    expect(screen.getByText('BR')).toBeInTheDocument();
+    expect(screen.getByText('Bob Ray is also editing')).toBeInTheDocument();
+
+    act(() => socket.receive('user:typing', { user: bob, is_typing: true, field: 'content' }));
+    expect(screen.getByText('Bob Ray is typing…')).toBeInTheDocument();
+
+    act(() => socket.receive('user:left', { user: bob }));
+    expect(screen.queryByTestId('presence')).not.toBeInTheDocument();
+  });
+
+  it('sends typing notices for the local editor', async () => {
+    const user = userEvent.setup();
+    render(<Harness />);
+    const socket = connect();
+
+    await user.click(screen.getByRole('button', { name: 'type' }));
+
+    expect(socket.sent[1]).toEqual({ action: 'typing', content_type: 'post', content_id: 12, field: 'title', is_typing: true });
+  });
+
+  it('loads the version another editor auto-saved', async () => {
+    const user = userEvent.setup();
+    const onApplyVersion = vi.fn();
+    const version = { id: 40, title: 'Their title', content: '<p>Theirs</p>' };
+    mockGetVersion.mockResolvedValue(version);
+    render(<Harness onApplyVersion={onApplyVersion} />);
+    const socket = connect();
+
+    act(() => socket.receive('version:auto_saved', { version_id: 40, auto_save_id: 40, saved_by: bob }));
+    expect(screen.getByRole('status')).toHaveTextContent('Bob Ray auto-saved changes');
+
+    await user.click(screen.getByRole('button', { name: /load latest/i }));
+
+    await waitFor(() => {
+      expect(onApplyVersion).toHaveBeenCalledWith(version);
+    });
+    expect(mockGetVersion).toHaveBeenCalledWith(40);
+    expect(screen.queryByRole('status')).not.toBeInTheDocument();
+  });
+});
@@ -0,0 +1,85 @@
+import { describe, it, vi, expect, beforeEach } from 'vitest';
+import { useState } from 'react';
+import { render, screen, fireEvent, waitFor, within } from '@testing-library/react';
+import SchemaForm from '../SchemaForm';
+import { pagesService } from '@/services/pages';
+import type { JsonSchema } from '@/types';
+
+vi.mock('@/services/pages', () => ({
+  pagesService: {
+    getAllPages: vi.fn()
+  }
+}));
+vi.mock('@/services/posts', () => ({
+  postsService: { getAllPosts: vi.fn() }
+}));
+vi.mock('@/services/media', () => ({
+  mediaService: { uploadFile: vi.fn() }
+}));
+
+const schema: JsonSchema = {
+  type: 'object',
+  required: ['heading'],
+  properties: {
+    heading: { type: 'string', title: 'Heading' },
+    contact_page: { type: 'integer', format: 'page-reference' },
+    members: {
+      type: 'array',
+      items: {
+        type: 'object',
+        properties: {
+          name: { type: 'string' },
+          role: { type: 'string', enum: ['lead', 'member'] }
+        }
+      }
+    }
+  }
+};
+
+let latest: Record<string, unknown> = {};
+
+function Harness({ initial, errors }: { initial: Record<string, unknown>; errors?: Record<string, string> }) {
+  const [data, setData] = useState(initial);
+  latest = data;
+  return <SchemaForm schema={schema} value={data} onChange={setData} errors={errors} />;
+}
+
+describe('SchemaForm', () => {
+  beforeEach(() => {
+    vi.clearAllMocks();
+    vi.mocked(pagesService.getAllPages).mockResolvedValue({ success: true, data: [
+      { id: 1, title: 'About', path: 'about', parent_id: null, position: 0 },
+      { id: 2, title: 'Contact', path: 'contact', parent_id: null, position: 1 }
+    ] as any });
+  });
+
+  it('generates fields from the schema', async () => {
+    render(<Harness initial={{ heading: 'Our team' }} />);
+
+    expect(screen.getByLabelText(/Heading/)).toHaveValue('Our team');
+    const reference = screen.getByLabelText('Contact page');
+    await waitFor(() => expect(within(reference).getAllByRole('option')).toHaveLength(3));
+
+    fireEvent.change(reference, { target: { value: '2' } });
+    expect(latest.contact_page).toBe(2);
+  });
+
+  it('adds, edits and removes repeater items', () => {
+    render(<Harness initial={{ heading: 'Team', members: [] }} />);
+
+    fireEvent.click(screen.getByRole('button', { name: 'Add members' }));
+    fireEvent.change(screen.getByLabelText('Name'), { target: { value: 'Ada' } });
+    fireEvent.change(screen.getByLabelText('Role'), { target: { value: 'lead' } });
+    expect(latest.members).toEqual([{ name: 'Ada', role: 'lead' }]);
+
+    fireEvent.click(screen.getByRole('button', { name: 'Remove Members 1' }));
+    expect(latest.members).toEqual([]);
+  });
+
+  it('shows errors next to the fields they belong to', () => {
+    render(<Harness initial={{ heading: '', members: [{ name: '' }] }} errors={{ heading: 'is required', 'members.0.name': 'is too short' }} />);
+
+    expect(screen.getByText('is required')).toBeInTheDocument();
+    expect(screen.getByText('is too short')).toBeInTheDocument();
+  });
+});
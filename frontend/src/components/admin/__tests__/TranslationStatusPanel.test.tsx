@@ -0,0 +1,132 @@
+import { describe, it, vi, expect, beforeEach } from 'vitest';
+import { render, screen, waitFor } from '@testing-library/react';
+import userEvent from '@testing-library/user-event';
+import { QueryClient, QueryClientProvider } from '@tanstack/react-query';
+import { MemoryRouter, Route, Routes } from 'react-router-dom';
+import TranslationStatusPanel from '../TranslationStatusPanel';
+import { translationsService } from '../../../services/translations';
+import type { ContentTranslation, TranslationStatus } from '../../../services/translations';
+
+vi.mock('../../../services/translations', () => ({
+  translationsService: {
+    getStatus: vi.fn(),
+    create: vi.fn(),
+    markCurrent: vi.fn(),
+  },
+}));
+
+vi.mock('react-hot-toast', () => ({
+  toast: {
+    success: vi.fn(),
+    error: vi.fn(),
+  },
+}));
+
+const source: ContentTranslation = {
+  id: 10,
+  locale: 'en',
+  title: 'Hello',
+  slug: 'hello',
+  status: 'published',
+  is_source: true,
+  outdated: false,
+  updated_at: '2026-03-02T10:00:00Z',
+  source_updated_at: null,
+};
+
+const german: ContentTranslation = {
+  id: 11,
+  locale: 'de',
+  title: 'Hallo',
+  slug: 'hallo',
+  status: 'draft',
+  is_source: false,
+  outdated: true,
+  updated_at: '2026-03-01T09:00:00Z',
+  source_updated_at: '2026-03-01T09:00:00Z',
+};
+
+const status = (overrides: Partial<TranslationStatus> = {}): TranslationStatus => ({
+  content_type: 'post',
+  content_id: 11,
+  translation_group_id: 10,
+  default_locale: 'en',
+  locales: ['en', 'de', 'fr'],
+  translations: [source, german],
+  missing_locales: ['fr'],
+  ...overrides,
+});
+
+const renderPanel = (contentId: number) => {
+  const queryClient = new QueryClient({
+    defaultOptions: {
+      queries: { retry: false },
+      mutations: { retry: false },
+    },
+  });
+  return render(
+    <QueryClientProvider client={queryClient}>
+      <MemoryRouter initialEntries={[`/admin/posts/${contentId}/edit`]}>
+        <Routes>
+          <Route path="/admin/posts/:id/edit" element={<TranslationStatusPanel contentType="post" contentId={contentId} />} />
+          <Route path="*" element={null} />
+        </Routes>
+      </MemoryRouter>
+    </QueryClientProvider>
+  );
+};
+
+describe('TranslationStatusPanel', () => {
+  const mockGetStatus = translationsService.getStatus as ReturnType<typeof vi.fn>;
+  const mockCreate = translationsService.create as ReturnType<typeof vi.fn>;
+  const mockMarkCurrent = translationsService.markCurrent as ReturnType<typeof vi.fn>;
+
+  beforeEach(() => {
+    vi.clearAllMocks();
+    mockGetStatus.mockResolvedValue(status());
+  });
+
+  it('flags a translation whose source has changed', async () => {
+    renderPanel(11);
+
+    expect(await screen.findByText('Outdated')).toBeInTheDocument();
+    expect(screen.getByText('Source')).toBeInTheDocument();
+    expect(screen.getByRole('status')).toHaveTextContent('The source was changed');
+    expect(screen.getByRole('link', { name: 'Edit' })).toHaveAttribute('href', '/admin/posts/10/edit');
+  });
+
+  it('marks the translation as up to date', async () => {
+    const user = userEvent.setup();
+    mockMarkCurrent.mockResolvedValue({ ...german, outdated: false });
+    renderPanel(11);
+
+    await user.click(await screen.findByRole('button', { name: /mark as up to date/i }));
+
+    await waitFor(() => {
+      expect(mockMarkCurrent).toHaveBeenCalledWith('post', 11);
+    });
+  });
+
+  it('creates a translation for a missing locale', async () => {
+    const user = userEvent.setup();
+    mockCreate.mockResolvedValue({ ...german, id: 12, locale: 'fr', slug: 'hello-fr' });
+    renderPanel(10);
+
+    await screen.findByText('Not translated yet');
+    expect(screen.queryByRole('status')).not.toBeInTheDocument();
+    await user.click(screen.getByRole('button', { name: 'Translate' }));
+
+    await waitFor(() => {
+      expect(mockCreate).toHaveBeenCalledWith('post', 10, { locale: 'fr' });
+    });
+  });
+
+  it('points to the site settings when only one language is enabled', async () => {
+    mockGetStatus.mockResolvedValue(
+      status({ locales: ['en'], translations: [source], missing_locales: [] })
+    );
+    renderPanel(10);
+
+    expect(await screen.findByText(/enable more languages/i)).toBeInTheDocument();
+  });
+});
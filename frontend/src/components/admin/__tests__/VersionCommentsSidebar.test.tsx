@@ -0,0 +1,161 @@
+import { describe, it, vi, expect, beforeEach } from 'vitest';
+import { render, screen, waitFor } from '@testing-library/react';
+import userEvent from '@testing-library/user-event';
+import { QueryClient, QueryClientProvider } from '@tanstack/react-query';
+import { useRef } from 'react';
+import VersionCommentsSidebar from '../VersionCommentsSidebar';
+import { versionCommentsService } from '../../../services/versionComments';
+import type { VersionComment } from '../../../services/versionComments';
+
+vi.mock('../../../services/versionComments', () => ({
+  versionCommentsService: {
+    list: vi.fn(),
+    create: vi.fn(),
+    resolve: vi.fn(),
+    unresolve: vi.fn(),
+    remove: vi.fn(),
+  },
+}));
+
+vi.mock('../../../services/workflow', () => ({
+  workflowService: { getLatestVersion: vi.fn() },
+}));
+
+vi.mock('../../../lib/auth', () => ({
+  useAuthStore: (selector: (state: any) => any) => selector({ user: { id: 7 } }),
+}));
+
+vi.mock('react-hot-toast', () => ({
+  toast: {
+    success: vi.fn(),
+    error: vi.fn(),
+  },
+}));
+
+const thread: VersionComment = {
+  id: 1,
+  version_id: 12,
+  comment_text: 'Cite a source here',
+  comment_type: 'issue',
+  status: 'active',
+  field_path: 'content',
+  range_start: 0,
+  range_end: 9,
+  quoted_text: 'Benchmark',
+  created_by: 7,
+  created_at: '2026-01-01T00:00:00Z',
+  updated_at: '2026-01-01T00:00:00Z',
+  author: { id: 7, email: 'rae@example.com', first_name: 'Rae' },
+  replies: [
+    {
+      id: 2,
+      version_id: 12,
+      parent_id: 1,
+      comment_text: 'Added a footnote',
+      comment_type: 'general',
+      status: 'active',
+      created_by: 8,
+      created_at: '2026-01-01T01:00:00Z',
+      updated_at: '2026-01-01T01:00:00Z',
+      author: { id: 8, email: 'sam@example.com' },
+    },
+  ],
+};
+
+function Harness() {
+  const ref = useRef<HTMLDivElement>(null);
+  return (
+    <>
+      <div ref={ref} data-testid="anchor-root">
+        <p>Benchmark results are in.</p>
+      </div>
+      <VersionCommentsSidebar versionId={12} anchorRef={ref} />
+    </>
+  );
+}
+
+const renderSidebar = () => {
+  const queryClient = new QueryClient({
+    defaultOptions: {
+      queries: { retry: false },
+      mutations: { retry: false },
+    },
+  });
+  return render(
+    <QueryClientProvider client={queryClient}>
+      <Harness />
+    </QueryClientProvider>
+  );
+};
+
+describe('VersionCommentsSidebar', () => {
+  const mockList = versionCommentsService.list as ReturnType<typeof vi.fn>;
+  const mockCreate = versionCommentsService.create as ReturnType<typeof vi.fn>;
+  const mockResolve = versionCommentsService.resolve as ReturnType<typeof vi.fn>;
+
+  beforeEach(() => {
+    vi.clearAllMocks();
+    mockList.mockResolvedValue({ comments: [thread], total_comments: 2, active_threads: 1, resolved_threads: 0 });
+  });
+
+  it('shows threads with their quoted anchor and replies', async () => {
+    renderSidebar();
+
+    expect(await screen.findByText('Cite a source here')).toBeInTheDocument();
+    expect(screen.getByText('“Benchmark”')).toBeInTheDocument();
+    expect(screen.getByText('Added a footnote')).toBeInTheDocument();
+    expect(screen.getByText('1 open · 0 resolved')).toBeInTheDocument();
+  });
+
+  it('anchors a new comment to the selected text', async () => {
+    const user = userEvent.setup();
+    mockCreate.mockResolvedValue({ ...thread, id: 3, replies: [] });
+    renderSidebar();
+    await screen.findByText('Cite a source here');
+
+    const textNode = screen.getByText('Benchmark results are in.').firstChild!;
+    const range = document.createRange();
+    range.setStart(textNode, 0);
+    range.setEnd(textNode, 9);
+    const getSelection = vi.spyOn(window, 'getSelection').mockReturnValue({
+      isCollapsed: false,
+      rangeCount: 1,
+      getRangeAt: () => range,
+    } as unknown as Selection);
+
+    await user.click(screen.getByRole('button', { name: /quote selection/i }));
+    expect(screen.getAllByText('“Benchmark”')).toHaveLength(2);
+    await user.type(screen.getByLabelText('New comment'), 'Which benchmark?');
+    await user.click(screen.getByRole('button', { name: /^comment$/i }));
+
+    await waitFor(() => {
+      expect(mockCreate).toHaveBeenCalledWith(12, {
+        comment_text: 'Which benchmark?',
+        comment_type: 'general',
+        field_path: 'content',
+        range_start: 0,
+        range_end: 9,
+        quoted_text: 'Benchmark',
+        line_number: undefined,
+      });
+    });
+    getSelection.mockRestore();
+  });
+
+  it('replies to and resolves a thread', async () => {
+    const user = userEvent.setup();
+    mockCreate.mockResolvedValue({ ...thread.replies![0], id: 4 });
+    mockResolve.mockResolvedValue({ ...thread, status: 'resolved' });
+    renderSidebar();
+
+    await user.type(await screen.findByLabelText('Reply to Rae'), 'Thanks{enter}');
+    await waitFor(() => {
+      expect(mockCreate).toHaveBeenCalledWith(12, { comment_text: 'Thanks', parent_id: 1 });
+    });
+
+    await user.click(screen.getByRole('button', { name: /resolve/i }));
+    await waitFor(() => {
+      expect(mockResolve).toHaveBeenCalledWith(1);
+    });
+  });
+});
@@ -84,6 +84,7 @@ export const DiffViewer: React.FC<DiffViewerProps> = ({
         key={`${side || 'unified'}-${index}`}
         className={className}
         data-change-index={changeIndex >= 0 ? changeIndex : undefined}
+        data-line-number={change.lineNumberNew || change.lineNumberOld}
         data-testid={`line-${change.type === 'add' ? 'added' : change.type === 'remove' ? 'removed' : change.type === 'modify' ? 'modified' : 'unchanged'}`}
         aria-label={
           change.type !== 'unchanged'
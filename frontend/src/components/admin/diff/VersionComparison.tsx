@@ -2,17 +2,18 @@
  * VersionComparison Component - CV-007
  *
  * Main component for comparing two content versions with multiple view modes,
- * change navigation, and export functionality.
+ * change navigation, export functionality, and a review comments sidebar.
  */
 
 import React, { useState, useEffect, useCallback, useRef } from 'react';
 import { useQuery } from '@tanstack/react-query';
-import { ChevronLeft, Download, Eye, Layers, List } from 'lucide-react';
+import { ChevronLeft, Download, Eye, Layers, List, MessageSquare } from 'lucide-react';
 import { DiffViewer } from './DiffViewer';
 import { ChangeNavigator } from './ChangeNavigator';
 import { ChangeStatistics } from './ChangeStatistics';
 import { DiffResult } from '../../../types/versioning';
 import LoadingSpinner from '../../ui/LoadingSpinner';
+import VersionCommentsSidebar from '../VersionCommentsSidebar';
 import { toast } from 'react-hot-toast';
 import versionsApi from '../../../services/versionsApi';
 
@@ -35,6 +36,7 @@ export const VersionComparison: React.FC<VersionComparisonProps> = ({
   const [currentChangeIndex, setCurrentChangeIndex] = useState(0);
   const [showStatistics, setShowStatistics] = useState(true);
   const [showMetadata, setShowMetadata] = useState(true);
+  const [showComments, setShowComments] = useState(true);
   const diffContainerRef = useRef<HTMLDivElement>(null);
 
   // Fetch diff data
@@ -104,6 +106,9 @@ export const VersionComparison: React.FC<VersionComparisonProps> = ({
         case 'm':
           setShowMetadata(!showMetadata);
           break;
+        case 'c':
+          setShowComments(!showComments);
+          break;
         case 'Escape':
           onClose?.();
           break;
@@ -112,7 +117,7 @@ export const VersionComparison: React.FC<VersionComparisonProps> = ({
 
     window.addEventListener('keydown', handleKeyPress);
     return () => window.removeEventListener('keydown', handleKeyPress);
-  }, [currentChangeIndex, totalChanges, navigateToChange, showStatistics, showMetadata, onClose]);
+  }, [currentChangeIndex, totalChanges, navigateToChange, showStatistics, showMetadata, showComments, onClose]);
 
   // Export diff
   const handleExport = async (format: 'pdf' | 'html' | 'json') => {
@@ -237,6 +242,16 @@ export const VersionComparison: React.FC<VersionComparisonProps> = ({
                 <option value="character">Character</option>
               </select>
 
+              {/* Comments Toggle */}
+              <button
+                onClick={() => setShowComments(!showComments)}
+                className={`p-2 rounded ${showComments ? 'bg-blue-100 text-blue-600' : 'text-gray-600 hover:bg-gray-100'}`}
+                title="Toggle comments"
+                data-testid="toggle-comments"
+              >
+                <MessageSquare className="h-4 w-4" />
+              </button>
+
               {/* Export Dropdown */}
               <div className="relative group" data-testid="export-dropdown">
                 <button className="p-2 rounded hover:bg-gray-100">
@@ -291,42 +306,51 @@ export const VersionComparison: React.FC<VersionComparisonProps> = ({
       )}
 
       {/* Main Content */}
-      <div className="max-w-full px-4 sm:px-6 lg:px-8 py-6">
-        {/* Version Headers */}
-        <div className={`grid ${viewMode === 'side-by-side' ? 'grid-cols-2 gap-4' : 'grid-cols-1'} mb-4`}>
-          <div className="bg-white p-4 rounded-lg shadow-sm" data-testid="left-version-info">
-            <h2 className="font-semibold text-gray-900">
-              Version {diffResult.leftVersion.version_number}
-            </h2>
-            <p className="text-sm text-gray-600">
-              {diffResult.leftVersion.version_type} • {new Date(diffResult.leftVersion.created_at).toLocaleString()}
-            </p>
-            <p className="text-sm text-gray-700 mt-1">{diffResult.leftVersion.title}</p>
-          </div>
-
-          {viewMode === 'side-by-side' && (
-            <div className="bg-white p-4 rounded-lg shadow-sm" data-testid="right-version-info">
+      <div className="max-w-full px-4 sm:px-6 lg:px-8 py-6 flex gap-6">
+        <div className="flex-1 min-w-0">
+          {/* Version Headers */}
+          <div className={`grid ${viewMode === 'side-by-side' ? 'grid-cols-2 gap-4' : 'grid-cols-1'} mb-4`}>
+            <div className="bg-white p-4 rounded-lg shadow-sm" data-testid="left-version-info">
               <h2 className="font-semibold text-gray-900">
-                Version {diffResult.rightVersion.version_number}
+                Version {diffResult.leftVersion.version_number}
               </h2>
               <p className="text-sm text-gray-600">
-                {diffResult.rightVersion.version_type} • {new Date(diffResult.rightVersion.created_at).toLocaleString()}
+                {diffResult.leftVersion.version_type} • {new Date(diffResult.leftVersion.created_at).toLocaleString()}
               </p>
-              <p className="text-sm text-gray-700 mt-1">{diffResult.rightVersion.title}</p>
+              <p className="text-sm text-gray-700 mt-1">{diffResult.leftVersion.title}</p>
             </div>
-          )}
-        </div>
 
-        {/* Diff Viewer */}
-        <div ref={diffContainerRef}>
-          <DiffViewer
-            diffResult={diffResult}
-            viewMode={viewMode}
-            highlightLevel={highlightLevel}
-            showMetadata={showMetadata}
-            currentChangeIndex={currentChangeIndex}
-          />
+            {viewMode === 'side-by-side' && (
+              <div className="bg-white p-4 rounded-lg shadow-sm" data-testid="right-version-info">
+                <h2 className="font-semibold text-gray-900">
+                  Version {diffResult.rightVersion.version_number}
+                </h2>
+                <p className="text-sm text-gray-600">
+                  {diffResult.rightVersion.version_type} • {new Date(diffResult.rightVersion.created_at).toLocaleString()}
+                </p>
+                <p className="text-sm text-gray-700 mt-1">{diffResult.rightVersion.title}</p>
+              </div>
+            )}
+          </div>
+
+          {/* Diff Viewer */}
+          <div ref={diffContainerRef}>
+            <DiffViewer
+              diffResult={diffResult}
+              viewMode={viewMode}
+              highlightLevel={highlightLevel}
+              showMetadata={showMetadata}
+              currentChangeIndex={currentChangeIndex}
+            />
+          </div>
         </div>
+
+        {/* Comments on the newer version; select diff text to anchor a comment */}
+        {showComments && (
+          <aside className="w-80 flex-shrink-0">
+            <VersionCommentsSidebar versionId={rightVersionId} anchorRef={diffContainerRef} />
+          </aside>
+        )}
       </div>
     </div>
   );
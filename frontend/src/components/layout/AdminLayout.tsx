@@ -17,7 +17,11 @@ import {
   CreditCard,
   Building2,
   Shield,
-  Users
+  Users,
+  ClipboardCheck,
+  CornerUpRight,
+  Puzzle,
+  Tag
 } from 'lucide-react';
 import { useAuthStore, isSuperAdmin } from '../../lib/auth';
 import Button from '../ui/Button';
@@ -26,13 +30,17 @@ const navigation = [
   { name: 'Dashboard', href: '/admin', icon: BarChart3 },
   { name: 'Posts', href: '/admin/posts', icon: FileText },
   { name: 'Categories', href: '/admin/categories', icon: Folder },
+  { name: 'Tags', href: '/admin/tags', icon: Tag },
   { name: 'Pages', href: '/admin/pages', icon: FileText },
   { name: 'Templates', href: '/admin/templates', icon: FileText },
+  { name: 'Fragments', href: '/admin/fragments', icon: Puzzle },
   { name: 'Media', href: '/admin/media', icon: Image },
+  { name: 'Review Queue', href: '/admin/reviews', icon: ClipboardCheck },
   { name: 'Distribution Queue', href: '/admin/distribution-queue', icon: Share2 },
   { name: 'Domains', href: '/admin/domains', icon: Globe },
   { name: 'Sites', href: '/admin/sites', icon: Globe },
   { name: 'Menus', href: '/admin/menus', icon: MenuIcon },
+  { name: 'Redirects', href: '/admin/redirects', icon: CornerUpRight },
   { name: 'Billing', href: '/admin/billing', icon: CreditCard },
   { name: 'Organization', href: '/admin/organization', icon: Building2 },
   { name: 'Settings', href: '/admin/settings', icon: Settings },
@@ -0,0 +1,17 @@
+import { Outlet, useParams } from 'react-router-dom';
+import { isLocale } from '@/lib/locales';
+import NotFoundPage from '@/pages/NotFoundPage';
+
+/**
+ * Parent of the /:locale-prefixed public routes. Anything in the first path
+ * segment that isn't a language tag is a missing page, not a locale.
+ */
+export default function LocaleOutlet() {
+  const { locale } = useParams<{ locale: string }>();
+
+  if (!isLocale(locale)) {
+    return <NotFoundPage />;
+  }
+
+  return <Outlet />;
+}
@@ -1,21 +1,13 @@
 import { Link } from 'react-router-dom';
-import { Github, Twitter, Mail } from 'lucide-react';
-import { useEffect, useState } from 'react';
-import { settingsService } from '@/services/settings';
+import { Github, Twitter, Mail, Rss } from 'lucide-react';
+import { useRouteLocale } from '@/hooks/useRouteLocale';
+import { useSiteSettings } from '@/hooks/useSiteSettings';
 
 export default function PublicFooter() {
   const currentYear = new Date().getFullYear();
-  const [siteName, setSiteName] = useState('Personal CMS');
-  const [siteDescription, setSiteDescription] = useState('A lightweight content management system for personal blogging and content creation. Built with modern web technologies for optimal performance.');
-
-  useEffect(() => {
-    settingsService.getSettings().then((s) => {
-      if (s?.site_title || s?.site_name) {
-        setSiteName(s.site_title || s.site_name);
-      }
-      if (s?.site_description) setSiteDescription(s.site_description);
-    }).catch(() => {});
-  }, []);
+  const { localize } = useRouteLocale();
+  const { settings, siteName } = useSiteSettings();
+  const siteDescription = settings?.site_description || 'A lightweight content management system for personal blogging and content creation. Built with modern web technologies for optimal performance.';
 
   return (
     <footer className="bg-gray-50 border-t border-gray-200">
@@ -85,6 +77,14 @@ export default function PublicFooter() {
               >
                 <Mail className="h-5 w-5" />
               </a>
+              {/* Served by the API, so not a router link */}
+              <a
+                href={localize('/feed.xml')}
+                className="text-gray-400 hover:text-primary-600 transition-colors"
+                aria-label="RSS feed"
+              >
+                <Rss className="h-5 w-5" />
+              </a>
             </div>
           </div>
         </div>
@@ -1,48 +1,35 @@
-import { useEffect, useState } from 'react';
+import { useState } from 'react';
 import { Link, useLocation } from 'react-router-dom';
+import { useQuery } from '@tanstack/react-query';
 import { Menu, X, Search } from 'lucide-react';
 import { cn } from '@/lib/utils';
-import { settingsService } from '@/services/settings';
 import { pagesService } from '@/services/pages';
+import { useRouteLocale } from '@/hooks/useRouteLocale';
+import { useSiteSettings } from '@/hooks/useSiteSettings';
 import type { Page } from '@/types';
 
 export default function PublicHeader() {
   const [isMenuOpen, setIsMenuOpen] = useState(false);
   const location = useLocation();
-  const [siteName, setSiteName] = useState('Personal CMS');
-  const [pages, setPages] = useState<Page[]>([]);
+  const { siteName } = useSiteSettings();
+  const { locale, localize } = useRouteLocale();
 
-  useEffect(() => {
-    const load = async () => {
-      try {
-        const s = await settingsService.getSettings();
-        const name = s?.site_title || s?.site_name;
-        if (name) {
-          setSiteName(name);
-          document.title = name;
-        }
-      } catch (_) {
-        // ignore
-      }
-      try {
-        const resp = await pagesService.getPublicPages();
-        setPages((resp.data as any) || []);
-      } catch (_) {
-        // ignore navigation pages fetch failure
-      }
-    };
-    load();
-  }, []);
+  const { data: pages = [] } = useQuery({
+    queryKey: ['public-pages', locale],
+    queryFn: async () => ((await pagesService.getPublicPages(locale)).data as Page[]) || [],
+  });
 
+  const home = localize('/');
   const navigation = [
-    { name: 'Home', href: '/' },
-    { name: 'Blog', href: '/blog' },
-    ...pages.map((p) => ({ name: p.title, href: `/page/${p.slug}` })),
+    { name: 'Home', href: home },
+    { name: 'Blog', href: localize('/blog') },
+    // Subpages are reached from their parent page
+    ...pages.filter((p) => !p.parent_id).map((p) => ({ name: p.title, href: localize(`/page/${p.path}`) })),
   ];
 
   const isActive = (path: string) => {
-    if (path === '/' && location.pathname === '/') return true;
-    if (path !== '/' && location.pathname.startsWith(path)) return true;
+    if (path === home && location.pathname === home) return true;
+    if (path !== home && location.pathname.startsWith(path)) return true;
     return false;
   };
 
@@ -51,7 +38,7 @@ export default function PublicHeader() {
       <div className="max-w-7xl mx-auto px-4 sm:px-6 lg:px-8">
         <div className="flex justify-between items-center h-16">
           {/* Logo */}
-          <Link to="/" className="flex items-center">
+          <Link to={home} className="flex items-center">
             <h1 className="text-2xl font-bold text-primary-600">{siteName}</h1>
           </Link>
 
@@ -1,8 +1,11 @@
 import { Outlet } from 'react-router-dom';
 import PublicHeader from './PublicHeader';
 import PublicFooter from './PublicFooter';
+import { useFeedLinks } from '../../hooks/useFeedLinks';
 
 export default function PublicLayout() {
+  useFeedLinks();
+
   return (
     <div className="min-h-screen flex flex-col">
       <PublicHeader />
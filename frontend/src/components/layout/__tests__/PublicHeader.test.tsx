@@ -1,6 +1,7 @@
 import { describe, it, vi, expect, beforeEach } from 'vitest';
 import { MemoryRouter } from 'react-router-dom';
 import { render, screen } from '@testing-library/react';
+import { QueryClient, QueryClientProvider } from '@tanstack/react-query';
 import PublicHeader from '../PublicHeader';
 
 vi.mock('@/services/settings', () => ({
@@ -21,12 +22,15 @@ describe('PublicHeader', () => {
 
   it('renders published pages in navigation', async () => {
     render(
-      <MemoryRouter>
-        <PublicHeader />
-      </MemoryRouter>
+      <QueryClientProvider client={new QueryClient()}>
+        <MemoryRouter>
+          <PublicHeader />
+        </MemoryRouter>
+      </QueryClientProvider>
     );
 
     expect(await screen.findByText('About')).toBeInTheDocument();
     expect(screen.getByText('Contact')).toBeInTheDocument();
+    expect(await screen.findByText('My Site')).toBeInTheDocument();
   });
 });
@@ -0,0 +1,256 @@
+import { useState } from 'react';
+import { useMutation, useQuery, useQueryClient } from '@tanstack/react-query';
+import { toast } from 'react-hot-toast';
+import { KeyRound, Plus, Copy, X } from 'lucide-react';
+import Button from '../ui/Button';
+import Input from '../ui/Input';
+import { formatDate } from '../../lib/utils';
+import { organizationService, ApiKey, ApiKeyScope } from '../../services/organization';
+
+interface ApiKeysPanelProps {
+  organizationId: number;
+  canManage: boolean;
+}
+
+const scopeResources = ['posts', 'pages', 'categories', 'media'] as const;
+
+export default function ApiKeysPanel({ organizationId, canManage }: ApiKeysPanelProps) {
+  const [name, setName] = useState('');
+  const [scopes, setScopes] = useState<ApiKeyScope[]>(['read:posts']);
+  const [expiresAt, setExpiresAt] = useState('');
+  const [showCreateForm, setShowCreateForm] = useState(false);
+  const [createdKey, setCreatedKey] = useState<string | null>(null);
+  const queryClient = useQueryClient();
+
+  const { data: apiKeys = [], isLoading } = useQuery({
+    queryKey: ['organization-api-keys', organizationId],
+    queryFn: () => organizationService.listApiKeys(organizationId),
+    enabled: canManage,
+  });
+
+  const createMutation = useMutation({
+    mutationFn: () =>
+      organizationService.createApiKey(organizationId, {
+        name,
+        scopes,
+        expiresAt: expiresAt ? new Date(expiresAt).toISOString() : undefined,
+      }),
+    onSuccess: (apiKey) => {
+      setCreatedKey(apiKey.key);
+      setName('');
+      setScopes(['read:posts']);
+      setExpiresAt('');
+      setShowCreateForm(false);
+      queryClient.invalidateQueries({ queryKey: ['organization-api-keys'] });
+    },
+    onError: (error: Error) => {
+      toast.error(error.message || 'Failed to create API key');
+    },
+  });
+
+  const revokeMutation = useMutation({
+    mutationFn: (keyId: number) => organizationService.revokeApiKey(organizationId, keyId),
+    onSuccess: () => {
+      toast.success('API key revoked');
+      queryClient.invalidateQueries({ queryKey: ['organization-api-keys'] });
+    },
+    onError: (error: Error) => {
+      toast.error(error.message || 'Failed to revoke API key');
+    },
+  });
+
+  const toggleScope = (scope: ApiKeyScope) => {
+    setScopes((current) =>
+      current.includes(scope) ? current.filter((s) => s !== scope) : [...current, scope]
+    );
+  };
+
+  const handleSubmit = (e: React.FormEvent) => {
+    e.preventDefault();
+    if (!name.trim()) {
+      toast.error('Please enter a name for the key');
+      return;
+    }
+    if (scopes.length === 0) {
+      toast.error('Select at least one scope');
+      return;
+    }
+    createMutation.mutate();
+  };
+
+  const handleRevoke = (apiKey: ApiKey) => {
+    if (window.confirm(`Revoke "${apiKey.name}"? Anything using this key will stop working.`)) {
+      revokeMutation.mutate(apiKey.id);
+    }
+  };
+
+  const copyKey = async (key: string) => {
+    try {
+      await navigator.clipboard.writeText(key);
+      toast.success('API key copied');
+    } catch (err) {
+      console.error('Failed to copy API key:', err);
+    }
+  };
+
+  if (!canManage) {
+    return null;
+  }
+
+  return (
+    <div className="bg-white rounded-lg shadow">
+      <div className="p-6 border-b">
+        <div className="flex items-center justify-between">
+          <div className="flex items-center gap-2">
+            <KeyRound className="h-5 w-5 text-gray-500" />
+            <h2 className="text-lg font-semibold text-gray-900">API Keys</h2>
+          </div>
+          {!showCreateForm && (
+            <Button
+              variant="primary"
+              size="sm"
+              onClick={() => setShowCreateForm(true)}
+              icon={<Plus className="h-4 w-4" />}
+            >
+              New API Key
+            </Button>
+          )}
+        </div>
+        <p className="text-sm text-gray-500 mt-1">
+          Let static-site builds and integrations access content without a user login.
+          Each request counts toward your monthly API call quota.
+        </p>
+      </div>
+
+      <div className="p-6">
+        {/* Newly created key - shown once */}
+        {createdKey && (
+          <div className="mb-6 p-4 bg-green-50 border border-green-200 rounded-lg">
+            <p className="text-sm font-medium text-green-800 mb-2">
+              Copy this key now. You won't be able to see it again.
+            </p>
+            <div className="flex items-center gap-2">
+              <code className="flex-1 text-sm bg-white border rounded px-3 py-2 break-all">{createdKey}</code>
+              <Button
+                type="button"
+                variant="outline"
+                size="sm"
+                onClick={() => copyKey(createdKey)}
+                icon={<Copy className="h-4 w-4" />}
+              >
+                Copy
+              </Button>
+            </div>
+            <button
+              onClick={() => setCreatedKey(null)}
+              className="mt-2 text-xs text-green-700 hover:underline"
+            >
+              Done
+            </button>
+          </div>
+        )}
+
+        {/* Create Form */}
+        {showCreateForm && (
+          <form onSubmit={handleSubmit} className="space-y-4 mb-6 pb-6 border-b">
+            <div className="grid grid-cols-1 md:grid-cols-2 gap-4">
+              <Input
+                label="Name"
+                name="api_key_name"
+                value={name}
+                onChange={(e) => setName(e.target.value)}
+                placeholder="Static site build"
+                maxLength={100}
+                required
+              />
+              <Input
+                label="Expires (optional)"
+                name="api_key_expires_at"
+                type="date"
+                value={expiresAt}
+                onChange={(e) => setExpiresAt(e.target.value)}
+              />
+            </div>
+
+            <fieldset>
+              <legend className="block text-sm font-medium text-gray-700 mb-2">Scopes</legend>
+              <div className="grid grid-cols-2 md:grid-cols-4 gap-3">
+                {scopeResources.map((resource) => (
+                  <div key={resource} className="space-y-1">
+                    <p className="text-xs font-medium text-gray-500 uppercase">{resource}</p>
+                    {(['read', 'write'] as const).map((action) => {
+                      const scope = `${action}:${resource}` as ApiKeyScope;
+                      return (
+                        <label key={scope} className="flex items-center gap-2 text-sm text-gray-700">
+                          <input
+                            type="checkbox"
+                            checked={scopes.includes(scope)}
+                            onChange={() => toggleScope(scope)}
+                          />
+                          {scope}
+                        </label>
+                      );
+                    })}
+                  </div>
+                ))}
+              </div>
+            </fieldset>
+
+            <div className="flex justify-end gap-3">
+              <Button
+                type="button"
+                variant="outline"
+                onClick={() => setShowCreateForm(false)}
+              >
+                Cancel
+              </Button>
+              <Button type="submit" loading={createMutation.isPending}>
+                Create Key
+              </Button>
+            </div>
+          </form>
+        )}
+
+        {/* Active Keys */}
+        {isLoading ? (
+          <div className="text-center py-4 text-gray-500">Loading...</div>
+        ) : apiKeys.length === 0 ? (
+          <p className="text-sm text-gray-500 py-4 text-center">No API keys</p>
+        ) : (
+          <div className="space-y-2">
+            {apiKeys.map((apiKey) => (
+              <div
+                key={apiKey.id}
+                className="flex items-center justify-between p-3 bg-gray-50 rounded-lg"
+              >
+                <div className="min-w-0">
+                  <p className="text-sm font-medium text-gray-900">
+                    {apiKey.name}
+                    <code className="ml-2 text-xs text-gray-500">{apiKey.key_prefix}…</code>
+                  </p>
+                  <p className="text-xs text-gray-500">
+                    {apiKey.scopes.join(', ')}
+                  </p>
+                  <p className="text-xs text-gray-400">
+                    {apiKey.last_used_at
+                      ? `Last used ${formatDate(apiKey.last_used_at, 'MMM d, yyyy h:mm a')}`
+                      : 'Never used'}
+                    {apiKey.expires_at && ` · Expires ${formatDate(apiKey.expires_at, 'MMM d, yyyy')}`}
+                  </p>
+                </div>
+                <button
+                  onClick={() => handleRevoke(apiKey)}
+                  disabled={revokeMutation.isPending}
+                  className="p-2 text-gray-400 hover:text-red-600 hover:bg-red-50 rounded-full transition-colors"
+                  title="Revoke API key"
+                >
+                  <X className="h-4 w-4" />
+                </button>
+              </div>
+            ))}
+          </div>
+        )}
+      </div>
+    </div>
+  );
+}
@@ -0,0 +1,84 @@
+import { useMutation, useQuery, useQueryClient } from '@tanstack/react-query';
+import { toast } from 'react-hot-toast';
+import { ClipboardCheck } from 'lucide-react';
+import Select from '../ui/Select';
+import { workflowService } from '../../services/workflow';
+
+interface WorkflowSettingsPanelProps {
+  organizationId: number;
+  canManage: boolean;
+}
+
+const APPROVAL_OPTIONS = [1, 2, 3, 4, 5].map((count) => ({
+  value: count,
+  label: count === 1 ? '1 approval' : `${count} approvals`,
+}));
+
+export default function WorkflowSettingsPanel({ organizationId, canManage }: WorkflowSettingsPanelProps) {
+  const queryClient = useQueryClient();
+  const queryKey = ['organization-workflow', organizationId];
+
+  const { data: settings, isLoading } = useQuery({
+    queryKey,
+    queryFn: () => workflowService.getSettings(organizationId),
+  });
+
+  const updateMutation = useMutation({
+    mutationFn: (update: { enabled?: boolean; approvalsRequired?: number }) =>
+      workflowService.updateSettings(organizationId, update),
+    onSuccess: (updated) => {
+      queryClient.setQueryData(queryKey, updated);
+      toast.success('Workflow settings updated');
+    },
+    onError: (error: any) => {
+      toast.error(error?.response?.data?.error || 'Failed to update workflow settings');
+    },
+  });
+
+  if (isLoading || !settings) {
+    return null;
+  }
+
+  return (
+    <div className="bg-white rounded-lg shadow">
+      <div className="p-6 border-b">
+        <div className="flex items-center gap-2">
+          <ClipboardCheck className="h-5 w-5 text-gray-500" />
+          <h2 className="text-lg font-semibold text-gray-900">Editorial Workflow</h2>
+        </div>
+        <p className="text-sm text-gray-500 mt-1">
+          Require content to be reviewed and approved by an editor or publisher before it goes live.
+        </p>
+      </div>
+
+      <div className="p-6 space-y-4">
+        <label className="flex items-center gap-2 text-sm text-gray-700">
+          <input
+            type="checkbox"
+            checked={settings.workflow_enabled}
+            disabled={!canManage || updateMutation.isPending}
+            onChange={(e) => updateMutation.mutate({ enabled: e.target.checked })}
+          />
+          Require approval before publishing
+        </label>
+
+        {settings.workflow_enabled && (
+          <div className="max-w-xs">
+            <Select
+              label="Approvals required"
+              name="workflow_approvals_required"
+              value={settings.workflow_approvals_required}
+              disabled={!canManage || updateMutation.isPending}
+              onChange={(e) => updateMutation.mutate({ approvalsRequired: Number(e.target.value) })}
+              options={APPROVAL_OPTIONS}
+            />
+          </div>
+        )}
+
+        {!canManage && (
+          <p className="text-xs text-gray-400">Only owners and admins can change these settings.</p>
+        )}
+      </div>
+    </div>
+  );
+}
@@ -0,0 +1,106 @@
+import { describe, it, vi, expect, beforeEach } from 'vitest';
+import { render, screen, waitFor } from '@testing-library/react';
+import userEvent from '@testing-library/user-event';
+import { QueryClient, QueryClientProvider } from '@tanstack/react-query';
+import ApiKeysPanel from '../ApiKeysPanel';
+import { organizationService } from '../../../services/organization';
+import type { ApiKey } from '../../../services/organization';
+
+// Mock the organization service
+vi.mock('../../../services/organization', () => ({
+  organizationService: {
+    listApiKeys: vi.fn(),
+    createApiKey: vi.fn(),
+    revokeApiKey: vi.fn(),
+  },
+}));
+
+// Mock react-hot-toast
+vi.mock('react-hot-toast', () => ({
+  toast: {
+    success: vi.fn(),
+    error: vi.fn(),
+  },
+}));
+
+const renderWithQueryClient = (ui: React.ReactElement) => {
+  const queryClient = new QueryClient({
+    defaultOptions: {
+      queries: { retry: false },
+      mutations: { retry: false },
+    },
+  });
+  return render(<QueryClientProvider client={queryClient}>{ui}</QueryClientProvider>);
+};
+
+const existingKey: ApiKey = {
+  id: 3,
+  organization_id: 1,
+  name: 'Netlify build',
+  key_prefix: 'cms_1a2b3c4d',
+  scopes: ['read:posts', 'read:pages'],
+  created_by: 1,
+  last_used_at: null,
+  created_at: '2026-01-01T00:00:00Z',
+};
+
+describe('ApiKeysPanel', () => {
+  const mockListApiKeys = organizationService.listApiKeys as ReturnType<typeof vi.fn>;
+  const mockCreateApiKey = organizationService.createApiKey as ReturnType<typeof vi.fn>;
+  const mockRevokeApiKey = organizationService.revokeApiKey as ReturnType<typeof vi.fn>;
+
+  beforeEach(() => {
+    vi.clearAllMocks();
+    mockListApiKeys.mockResolvedValue([existingKey]);
+  });
+
+  it('renders nothing when the user cannot manage keys', () => {
+    const { container } = renderWithQueryClient(<ApiKeysPanel organizationId={1} canManage={false} />);
+
+    expect(container).toBeEmptyDOMElement();
+    expect(mockListApiKeys).not.toHaveBeenCalled();
+  });
+
+  it('lists active keys by name, prefix and scopes', async () => {
+    renderWithQueryClient(<ApiKeysPanel organizationId={1} canManage />);
+
+    expect(await screen.findByText('Netlify build')).toBeInTheDocument();
+    expect(screen.getByText('cms_1a2b3c4d…')).toBeInTheDocument();
+    expect(screen.getByText('read:posts, read:pages')).toBeInTheDocument();
+    expect(screen.getByText('Never used')).toBeInTheDocument();
+  });
+
+  it('creates a key with the selected scopes and shows it once', async () => {
+    const user = userEvent.setup();
+    mockCreateApiKey.mockResolvedValue({ ...existingKey, id: 4, key: 'cms_secretvalue1234' });
+    renderWithQueryClient(<ApiKeysPanel organizationId={1} canManage />);
+
+    await user.click(screen.getByRole('button', { name: /new api key/i }));
+    await user.type(screen.getByLabelText(/name/i), 'Static site');
+    await user.click(screen.getByLabelText('write:media'));
+    await user.click(screen.getByRole('button', { name: /create key/i }));
+
+    await waitFor(() => {
+      expect(mockCreateApiKey).toHaveBeenCalledWith(1, {
+        name: 'Static site',
+        scopes: ['read:posts', 'write:media'],
+        expiresAt: undefined,
+      });
+    });
+    expect(await screen.findByText('cms_secretvalue1234')).toBeInTheDocument();
+    expect(screen.getByText(/won't be able to see it again/i)).toBeInTheDocument();
+  });
+
+  it('revokes a key after confirmation', async () => {
+    const user = userEvent.setup();
+    vi.spyOn(window, 'confirm').mockReturnValue(true);
+    mockRevokeApiKey.mockResolvedValue(undefined);
+    renderWithQueryClient(<ApiKeysPanel organizationId={1} canManage />);
+
+    await user.click(await screen.findByTitle('Revoke API key'));
+
+    await waitFor(() => {
+      expect(mockRevokeApiKey).toHaveBeenCalledWith(1, 3);
+    });
+  });
+});
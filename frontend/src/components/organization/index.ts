@@ -2,3 +2,5 @@ export { default as OrganizationDetailsForm } from './OrganizationDetailsForm';
 export { default as MembersTable } from './MembersTable';
 export { default as InviteMemberForm } from './InviteMemberForm';
 export { default as TransferOwnershipModal } from './TransferOwnershipModal';
+export { default as ApiKeysPanel } from './ApiKeysPanel';
+export { default as WorkflowSettingsPanel } from './WorkflowSettingsPanel';
@@ -0,0 +1,20 @@
+import { Toaster } from 'react-hot-toast';
+
+/**
+ * Toast container of the app, rendered identically on the server and in the
+ * browser so hydration matches
+ */
+export default function AppToaster() {
+  return (
+    <Toaster
+      position="top-right"
+      toastOptions={{
+        duration: 4000,
+        style: {
+          background: '#363636',
+          color: '#fff',
+        },
+      }}
+    />
+  );
+}
@@ -0,0 +1,36 @@
+interface HighlightedTextProps {
+  // Search title or snippet from the API, with matches wrapped in <mark>
+  text: string;
+  className?: string;
+}
+
+// Snippets are cut from stripped HTML and can still contain entities such as
+// &amp;. Textarea content is never parsed as markup, only entity-decoded.
+const decodeEntities = (text: string) => {
+  const textarea = document.createElement('textarea');
+  textarea.innerHTML = text;
+  return textarea.value;
+};
+
+/**
+ * Render a highlighted search snippet. Only the <mark> delimiters are
+ * interpreted; everything else is rendered as text, never as HTML.
+ */
+export default function HighlightedText({ text, className }: HighlightedTextProps) {
+  // Splitting on the delimiters leaves the matches at the odd indexes
+  const parts = text.split(/<\/?mark>/);
+
+  return (
+    <span className={className}>
+      {parts.map((part, index) =>
+        index % 2 === 1 ? (
+          <mark key={index} className="bg-yellow-100 text-inherit rounded-sm px-0.5">
+            {decodeEntities(part)}
+          </mark>
+        ) : (
+          decodeEntities(part)
+        )
+      )}
+    </span>
+  );
+}
@@ -1,6 +1,6 @@
 import { useMemo } from 'react';
 import { AutoSaveStatus } from '../../hooks/useAutoSave';
-import { Check, Loader2, AlertCircle, CloudOff, Circle } from 'lucide-react';
+import { Check, Loader2, AlertCircle, AlertTriangle, CloudOff, Circle } from 'lucide-react';
 import { cn } from '../../lib/utils';
 
 interface SaveStatusIndicatorProps {
@@ -68,6 +68,12 @@ export function SaveStatusIndicator({
           text: 'Offline - will sync',
           className: 'text-orange-600 bg-orange-50 border-orange-200'
         };
+      case 'conflict':
+        return {
+          icon: <AlertTriangle className="h-4 w-4" />,
+          text: 'Edited by someone else',
+          className: 'text-red-600 bg-red-50 border-red-200'
+        };
       default:
         if (hasUnsavedChanges) {
           return {
@@ -165,6 +171,11 @@ export function SaveStatusIndicatorCompact({
           icon: <CloudOff className="h-5 w-5 text-orange-600" />,
           ariaLabel: 'Offline - will sync when reconnected'
         };
+      case 'conflict':
+        return {
+          icon: <AlertTriangle className="h-5 w-5 text-red-600" />,
+          ariaLabel: 'Edited by someone else - review their changes'
+        };
       default:
         if (hasUnsavedChanges) {
           return {
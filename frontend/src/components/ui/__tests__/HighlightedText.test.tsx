@@ -0,0 +1,25 @@
+import { describe, it, expect } from 'vitest';
+import { render } from '@testing-library/react';
+import HighlightedText from '../HighlightedText';
+
+describe('HighlightedText', () => {
+  it('wraps the matched terms in mark elements', () => {
+    const { container } = render(
+      <HighlightedText text="Tuning <mark>Postgres</mark> for <mark>search</mark>" />
+    );
+
+    const marks = container.querySelectorAll('mark');
+    expect(Array.from(marks).map((mark) => mark.textContent)).toEqual(['Postgres', 'search']);
+    expect(container.textContent).toBe('Tuning Postgres for search');
+  });
+
+  it('decodes entities and renders everything else as text', () => {
+    const { container } = render(
+      <HighlightedText text="Tom &amp; <mark>Jerry</mark> &lt;img src=x onerror=alert(1)&gt; <b>bold</b>" />
+    );
+
+    expect(container.querySelector('img')).toBeNull();
+    expect(container.querySelector('b')).toBeNull();
+    expect(container.textContent).toBe('Tom & Jerry <img src=x onerror=alert(1)> <b>bold</b>');
+  });
+});
@@ -0,0 +1,112 @@
+/// <reference types="node" />
+import { AsyncLocalStorage } from 'node:async_hooks';
+import { renderToString } from 'react-dom/server';
+import { Routes } from 'react-router-dom';
+import { StaticRouter } from 'react-router-dom/server';
+import { QueryClient, QueryClientProvider, dehydrate, type DehydratedState, type Query } from '@tanstack/react-query';
+import type { AxiosError } from 'axios';
+import api from './lib/api';
+import { HeadCollector, HeadContext, renderHeadTags } from './lib/head';
+import { publicRoutes } from './publicRoutes';
+import AppToaster from './components/ui/AppToaster';
+
+/**
+ * Server renderer of the public site, built into a standalone bundle with
+ * `vite build --ssr` and loaded by the API (backend SsrService)
+ */
+
+export interface RenderRequest {
+  // Path and query string of the requested page
+  url: string;
+  // Scheme and host the page was requested on, for canonical and og:url
+  origin: string;
+  // Absolute URL of the API, e.g. http://127.0.0.1:3001/api
+  apiBaseUrl: string;
+  // Sent along with every API call, e.g. the Host the content belongs to
+  headers?: Record<string, string>;
+}
+
+export interface RenderResult {
+  // Markup of #root
+  html: string;
+  // <title>, <meta> and <link> tags for the document head
+  head: string;
+  lang?: string;
+  // react-query cache the page was rendered with, for hydration
+  state: DehydratedState;
+  status: number;
+}
+
+// Each pass fetches the queries the previous one discovered; pages that
+// query based on earlier results need more than one
+const MAX_RENDER_PASSES = 4;
+
+// Concurrent renders share the api client, so the request being rendered
+// travels with the async context of its API calls
+const requestContext = new AsyncLocalStorage<RenderRequest>();
+
+api.interceptors.request.use((config) => {
+  const request = requestContext.getStore();
+  if (request) {
+    config.baseURL = request.apiBaseUrl;
+    Object.entries(request.headers || {}).forEach(([name, value]) => config.headers.set(name, value));
+  }
+  return config;
+});
+
+function isEnabled(query: Query): boolean {
+  const { enabled } = query.options as { enabled?: boolean | ((query: Query) => boolean) };
+  return typeof enabled === 'function' ? enabled(query) : enabled !== false;
+}
+
+// Queries the last pass rendered without data, which effects would fetch in the browser
+function unfetchedQueries(queryClient: QueryClient): Query[] {
+  return queryClient.getQueryCache().findAll().filter((query) =>
+    query.state.status === 'pending' && query.state.fetchStatus === 'idle' && isEnabled(query)
+  );
+}
+
+export function render(request: RenderRequest): Promise<RenderResult> {
+  return requestContext.run(request, async () => {
+    const queryClient = new QueryClient({
+      defaultOptions: { queries: { retry: false, staleTime: Infinity } },
+    });
+
+    let head: HeadCollector;
+    let html: string;
+    for (let pass = 1; ; pass++) {
+      head = { origin: request.origin, tags: [] };
+      html = renderToString(
+        <QueryClientProvider client={queryClient}>
+          <HeadContext.Provider value={head}>
+            <StaticRouter location={request.url}>
+              <Routes>{publicRoutes}</Routes>
+              <AppToaster />
+            </StaticRouter>
+          </HeadContext.Provider>
+        </QueryClientProvider>
+      );
+
+      const queries = unfetchedQueries(queryClient);
+      if (queries.length === 0 || pass === MAX_RENDER_PASSES) {
+        break;
+      }
+      await Promise.all(queries.map((query) => query.fetch().catch(() => undefined)));
+    }
+
+    const notFound = queryClient.getQueryCache().findAll().some(
+      (query) => (query.state.error as AxiosError | null)?.response?.status === 404
+    );
+
+    const state = dehydrate(queryClient);
+    queryClient.clear();
+
+    return {
+      html,
+      head: renderHeadTags(head.tags),
+      lang: head.lang,
+      state,
+      status: notFound ? 404 : 200,
+    };
+  });
+}
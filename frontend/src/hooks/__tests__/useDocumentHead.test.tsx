@@ -0,0 +1,78 @@
+import { describe, it, vi, expect, beforeEach } from 'vitest';
+import { renderToString } from 'react-dom/server';
+import { MemoryRouter } from 'react-router-dom';
+import { render, waitFor } from '@testing-library/react';
+import { QueryClient, QueryClientProvider } from '@tanstack/react-query';
+import { HeadCollector, HeadContext, renderHeadTags } from '@/lib/head';
+import { useDocumentHead, DocumentHead } from '../useDocumentHead';
+
+vi.mock('@/services/settings', () => ({
+  settingsService: { getSettings: vi.fn().mockResolvedValue({ site_title: 'My Site', site_description: 'About my site' }) }
+}));
+
+function Page({ head }: { head: DocumentHead | null }) {
+  useDocumentHead(head);
+  return null;
+}
+
+const post: DocumentHead = {
+  title: 'Hello "World"',
+  description: 'An excerpt',
+  image: '/uploads/hello.jpg',
+  type: 'article',
+};
+
+describe('useDocumentHead', () => {
+  beforeEach(() => {
+    document.head.innerHTML = '<title>Personal CMS</title><meta name="description" content="Generic" data-prerendered>';
+  });
+
+  it('renders title, description, canonical and social tags into the head', async () => {
+    const { unmount } = render(
+      <QueryClientProvider client={new QueryClient()}>
+        <MemoryRouter initialEntries={['/blog/hello']}>
+          <Page head={post} />
+        </MemoryRouter>
+      </QueryClientProvider>
+    );
+
+    await waitFor(() => expect(document.title).toBe('Hello "World" | My Site'));
+    const content = (selector: string) => document.head.querySelector(selector)?.getAttribute('content');
+
+    expect(document.head.querySelectorAll('meta[name="description"]')).toHaveLength(1);
+    expect(content('meta[name="description"]')).toBe('An excerpt');
+    expect(document.head.querySelector('link[rel="canonical"]')?.getAttribute('href')).toBe('http://localhost:3000/blog/hello');
+    expect(content('meta[property="og:type"]')).toBe('article');
+    expect(content('meta[property="og:title"]')).toBe('Hello "World"');
+    expect(content('meta[property="og:image"]')).toBe('http://localhost:3000/uploads/hello.jpg');
+    expect(content('meta[name="twitter:card"]')).toBe('summary_large_image');
+
+    unmount();
+    expect(document.title).toBe('Personal CMS');
+    expect(document.head.querySelector('link[rel="canonical"]')).toBeNull();
+  });
+
+  it('collects the tags while rendering on the server', () => {
+    const queryClient = new QueryClient();
+    queryClient.setQueryData(['site-settings'], { site_title: 'My Site' });
+    const head: HeadCollector = { origin: 'https://blog.example.com', tags: [] };
+
+    renderToString(
+      <QueryClientProvider client={queryClient}>
+        <HeadContext.Provider value={head}>
+          <MemoryRouter initialEntries={['/de/blog/hallo']}>
+            <Page head={{ title: 'Generic' }} />
+            <Page head={post} />
+          </MemoryRouter>
+        </HeadContext.Provider>
+      </QueryClientProvider>
+    );
+
+    const html = renderHeadTags(head.tags);
+    expect(html.match(/<title>/g)).toHaveLength(1);
+    expect(html).toContain('<title>Hello &quot;World&quot; | My Site</title>');
+    expect(html).toContain('<link rel="canonical" href="https://blog.example.com/de/blog/hallo" data-prerendered>');
+    expect(html).toContain('<meta property="og:image" content="https://blog.example.com/uploads/hello.jpg" data-prerendered>');
+    expect(html).not.toContain('Generic');
+  });
+});
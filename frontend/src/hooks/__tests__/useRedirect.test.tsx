@@ -0,0 +1,61 @@
+import { describe, it, vi, expect, beforeEach } from 'vitest';
+import { MemoryRouter, Route, Routes } from 'react-router-dom';
+import { render, screen } from '@testing-library/react';
+import { QueryClient, QueryClientProvider } from '@tanstack/react-query';
+import { redirectsService } from '@/services/redirects';
+import { useRedirect } from '../useRedirect';
+
+vi.mock('@/services/redirects', () => ({
+  redirectsService: { resolve: vi.fn() }
+}));
+
+const mockResolve = vi.mocked(redirectsService.resolve);
+
+function Missing({ notFound }: { notFound: boolean }) {
+  const redirecting = useRedirect(notFound);
+  return <p>{redirecting ? 'Redirecting' : 'Not found'}</p>;
+}
+
+function renderAt(path: string, notFound = true) {
+  return render(
+    <QueryClientProvider client={new QueryClient()}>
+      <MemoryRouter initialEntries={[path]}>
+        <Routes>
+          <Route path="/blog/new-slug" element={<p>New post</p>} />
+          <Route path="*" element={<Missing notFound={notFound} />} />
+        </Routes>
+      </MemoryRouter>
+    </QueryClientProvider>
+  );
+}
+
+describe('useRedirect', () => {
+  beforeEach(() => {
+    mockResolve.mockReset();
+  });
+
+  it('follows a redirect for the missing path', async () => {
+    mockResolve.mockResolvedValue({ target: '/blog/new-slug', status_code: 301 });
+
+    renderAt('/blog/old-slug');
+
+    expect(await screen.findByText('New post')).toBeInTheDocument();
+    expect(mockResolve).toHaveBeenCalledWith('/blog/old-slug');
+  });
+
+  it('shows the 404 when nothing redirects', async () => {
+    mockResolve.mockResolvedValue(null);
+
+    renderAt('/nothing-here');
+
+    expect(screen.getByText('Redirecting')).toBeInTheDocument();
+    expect(await screen.findByText('Not found')).toBeInTheDocument();
+  });
+
+  it('does not look anything up while the page has content', () => {
+    renderAt('/blog/old-slug', false);
+
+    expect(screen.getByText('Not found')).toBeInTheDocument();
+    expect(mockResolve).not.toHaveBeenCalled();
+  });
+});
@@ -1,8 +1,10 @@
 import { useState, useEffect, useRef, useCallback } from 'react';
 import { useMutation, useQuery } from '@tanstack/react-query';
 import { autoSaveApi } from '../services/autoSaveApi';
+import { getEditConflict } from '../services/editLocks';
+import type { EditConflict } from '../types/versioning';
 
-export type AutoSaveStatus = 'idle' | 'saving' | 'saved' | 'error' | 'offline';
+export type AutoSaveStatus = 'idle' | 'saving' | 'saved' | 'error' | 'offline' | 'conflict';
 
 interface UseAutoSaveOptions {
   contentType: 'post' | 'page';
@@ -10,6 +12,9 @@ interface UseAutoSaveOptions {
   content: any;
   interval?: number; // Default: 30000ms (30 seconds)
   enabled?: boolean;
+  // Latest version number when the editor loaded; saves made after someone
+  // else saved a newer version are rejected as conflicts
+  baseVersionNumber?: number | null;
   onSaveStart?: () => void;
   onSaveSuccess?: (version: any) => void;
   onSaveError?: (error: Error) => void;
@@ -21,6 +26,11 @@ interface UseAutoSaveReturn {
   hasUnsavedChanges: boolean;
   manualSave: () => void;
   error: Error | null;
+  conflict: EditConflict | null;
+  // Version the next save is based on, for sending with explicit saves
+  getBaseVersionNumber: () => number | null;
+  // Accept a newer version as the base, e.g. after loading or overriding it
+  rebase: (versionNumber: number) => void;
 }
 
 // Helper function to generate content hash
@@ -39,6 +49,7 @@ export function useAutoSave({
   content,
   interval = 30000, // 30 seconds default
   enabled = true,
+  baseVersionNumber,
   onSaveStart,
   onSaveSuccess,
   onSaveError
@@ -48,11 +59,21 @@ export function useAutoSave({
   const [hasUnsavedChanges, setHasUnsavedChanges] = useState(false);
   const [error, setError] = useState<Error | null>(null);
   const [isOnline, setIsOnline] = useState(navigator.onLine);
+  const [conflict, setConflict] = useState<EditConflict | null>(null);
 
   const contentHashRef = useRef<string | null>(null);
   const lastContentRef = useRef<any>(null);
   const saveTimeoutRef = useRef<NodeJS.Timeout | null>(null);
   const retryCountRef = useRef(0);
+  const baseVersionRef = useRef<number | null>(null);
+  const conflictRef = useRef(false);
+
+  // Adopt the base once the content has loaded
+  useEffect(() => {
+    if (baseVersionNumber !== undefined && baseVersionRef.current === null) {
+      baseVersionRef.current = baseVersionNumber ?? 0;
+    }
+  }, [baseVersionNumber]);
 
   // Check for existing auto-save on mount
   const { data: latestAutoSave } = useQuery({
@@ -68,7 +89,8 @@ export function useAutoSave({
       const hash = await generateContentHash(data);
       return autoSaveApi.createAutoSave(contentType, contentId, {
         ...data,
-        content_hash: hash
+        content_hash: hash,
+        ...(baseVersionRef.current !== null && { base_version_number: baseVersionRef.current })
       });
     },
     onMutate: () => {
@@ -82,6 +104,9 @@ export function useAutoSave({
         setLastSaved(new Date());
         setHasUnsavedChanges(false);
         contentHashRef.current = response.data.content_hash;
+        if (response.data.version?.version_number) {
+          baseVersionRef.current = response.data.version.version_number;
+        }
         retryCountRef.current = 0;
         onSaveSuccess?.(response.data.version);
 
@@ -90,6 +115,15 @@ export function useAutoSave({
       }
     },
     onError: (err: Error) => {
+      // Someone else saved first: stop auto-saving until the editor decides
+      const editConflict = getEditConflict(err);
+      if (editConflict) {
+        conflictRef.current = true;
+        setConflict(editConflict);
+        setStatus('conflict');
+        return;
+      }
+
       setError(err);
       setStatus('error');
       onSaveError?.(err);
@@ -109,7 +143,7 @@ export function useAutoSave({
 
   // Manual save function
   const manualSave = useCallback(() => {
-    if (content && hasUnsavedChanges && !autoSaveMutation.isPending) {
+    if (content && hasUnsavedChanges && !autoSaveMutation.isPending && !conflictRef.current) {
       // Clear any pending auto-save
       if (saveTimeoutRef.current) {
         clearTimeout(saveTimeoutRef.current);
@@ -143,6 +177,9 @@ export function useAutoSave({
         }
 
         saveTimeoutRef.current = setTimeout(() => {
+          if (conflictRef.current) {
+            return;
+          }
           if (isOnline) {
             autoSaveMutation.mutate(content);
           } else {
@@ -223,6 +260,15 @@ export function useAutoSave({
     }
   }, [enabled, contentId, contentType, latestAutoSave]);
 
+  const getBaseVersionNumber = useCallback(() => baseVersionRef.current, []);
+
+  const rebase = useCallback((versionNumber: number) => {
+    baseVersionRef.current = versionNumber;
+    conflictRef.current = false;
+    setConflict(null);
+    setStatus('idle');
+  }, []);
+
   // Cleanup on unmount
   useEffect(() => {
     return () => {
@@ -237,6 +283,9 @@ export function useAutoSave({
     lastSaved,
     hasUnsavedChanges,
     manualSave,
-    error
+    error,
+    conflict,
+    getBaseVersionNumber,
+    rebase
   };
 }
\ No newline at end of file
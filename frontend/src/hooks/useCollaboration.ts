@@ -0,0 +1,196 @@
+import { useState, useEffect, useRef, useCallback } from 'react';
+import { useAuthStore } from '../lib/auth';
+
+export interface Collaborator {
+  id: number;
+  email: string;
+  first_name?: string;
+  last_name?: string;
+}
+
+export interface RemoteSave {
+  user: Collaborator | null;
+  versionId: number;
+  autoSave: boolean;
+  at: Date;
+}
+
+interface UseCollaborationOptions {
+  contentType: 'post' | 'page';
+  contentId: number;
+  enabled?: boolean;
+}
+
+interface UseCollaborationReturn {
+  connected: boolean;
+  participants: Collaborator[];
+  typing: Collaborator[];
+  remoteSave: RemoteSave | null;
+  dismissRemoteSave: () => void;
+  notifyTyping: (field?: string) => void;
+}
+
+interface ServerMessage {
+  event: string;
+  data: any;
+  room: string;
+}
+
+const RECONNECT_DELAY_MS = 3000;
+const MAX_RECONNECT_ATTEMPTS = 5;
+// Typing indicators expire if the "stopped" message never arrives
+const TYPING_IDLE_MS = 4000;
+
+function collaborationUrl(token: string): string {
+  const protocol = window.location.protocol === 'https:' ? 'wss:' : 'ws:';
+  return `${protocol}//${window.location.host}/api/ws?token=${encodeURIComponent(token)}`;
+}
+
+export function useCollaboration({
+  contentType,
+  contentId,
+  enabled = true
+}: UseCollaborationOptions): UseCollaborationReturn {
+  const token = useAuthStore((state) => state.token);
+  const currentUserId = useAuthStore((state) => state.user?.id);
+  const [connected, setConnected] = useState(false);
+  const [participants, setParticipants] = useState<Collaborator[]>([]);
+  const [typing, setTyping] = useState<Collaborator[]>([]);
+  const [remoteSave, setRemoteSave] = useState<RemoteSave | null>(null);
+
+  const socketRef = useRef<WebSocket | null>(null);
+  const typingTimers = useRef<Map<number, ReturnType<typeof setTimeout>>>(new Map());
+  const lastTypingSent = useRef<number>(0);
+  const stopTypingTimer = useRef<ReturnType<typeof setTimeout> | null>(null);
+
+  const clearTyping = useCallback((userId: number) => {
+    const timer = typingTimers.current.get(userId);
+    if (timer) clearTimeout(timer);
+    typingTimers.current.delete(userId);
+    setTyping((prev) => prev.filter((user) => user.id !== userId));
+  }, []);
+
+  const handleMessage = useCallback((message: ServerMessage) => {
+    const { event, data } = message;
+
+    switch (event) {
+      case 'user:joined':
+        if (data.user.id === currentUserId) return;
+        setParticipants((prev) =>
+          prev.some((user) => user.id === data.user.id) ? prev : [...prev, data.user]
+        );
+        break;
+      case 'user:left':
+        setParticipants((prev) => prev.filter((user) => user.id !== data.user.id));
+        clearTyping(data.user.id);
+        break;
+      case 'user:typing':
+        if (!data.is_typing) {
+          clearTyping(data.user.id);
+          return;
+        }
+        setTyping((prev) =>
+          prev.some((user) => user.id === data.user.id) ? prev : [...prev, data.user]
+        );
+        clearTimeout(typingTimers.current.get(data.user.id));
+        typingTimers.current.set(data.user.id, setTimeout(() => clearTyping(data.user.id), TYPING_IDLE_MS));
+        break;
+      case 'version:auto_saved':
+        setRemoteSave({ user: data.saved_by ?? null, versionId: data.version_id, autoSave: true, at: new Date() });
+        break;
+      case 'version:created':
+        setRemoteSave({ user: data.creator, versionId: data.version.id, autoSave: false, at: new Date() });
+        break;
+    }
+  }, [currentUserId, clearTyping]);
+
+  useEffect(() => {
+    if (!enabled || !token || !contentId) {
+      return;
+    }
+
+    let attempts = 0;
+    let reconnectTimer: ReturnType<typeof setTimeout> | null = null;
+    let disposed = false;
+
+    const connect = () => {
+      const socket = new WebSocket(collaborationUrl(token));
+      socketRef.current = socket;
+
+      socket.onopen = () => {
+        attempts = 0;
+        setConnected(true);
+        socket.send(JSON.stringify({ action: 'join', content_type: contentType, content_id: contentId }));
+      };
+
+      socket.onmessage = (event) => {
+        try {
+          handleMessage(JSON.parse(event.data));
+        } catch {
+          // Ignore frames that aren't JSON
+        }
+      };
+
+      socket.onclose = () => {
+        setConnected(false);
+        setParticipants([]);
+        setTyping([]);
+        if (!disposed && attempts < MAX_RECONNECT_ATTEMPTS) {
+          attempts += 1;
+          reconnectTimer = setTimeout(connect, RECONNECT_DELAY_MS * attempts);
+        }
+      };
+    };
+
+    connect();
+
+    const timers = typingTimers.current;
+    return () => {
+      disposed = true;
+      if (reconnectTimer) clearTimeout(reconnectTimer);
+      if (stopTypingTimer.current) clearTimeout(stopTypingTimer.current);
+      timers.forEach((timer) => clearTimeout(timer));
+      timers.clear();
+
+      const socket = socketRef.current;
+      socketRef.current = null;
+      if (socket?.readyState === WebSocket.OPEN) {
+        socket.send(JSON.stringify({ action: 'leave', content_type: contentType, content_id: contentId }));
+      }
+      socket?.close();
+    };
+  }, [enabled, token, contentType, contentId, handleMessage]);
+
+  const send = useCallback((payload: Record<string, unknown>) => {
+    const socket = socketRef.current;
+    if (socket?.readyState === WebSocket.OPEN) {
+      socket.send(JSON.stringify({ content_type: contentType, content_id: contentId, ...payload }));
+    }
+  }, [contentType, contentId]);
+
+  // Throttled: at most one "typing" per second, and "stopped" after a pause
+  const notifyTyping = useCallback((field = 'content') => {
+    const now = Date.now();
+    if (now - lastTypingSent.current > 1000) {
+      lastTypingSent.current = now;
+      send({ action: 'typing', field, is_typing: true });
+    }
+
+    if (stopTypingTimer.current) clearTimeout(stopTypingTimer.current);
+    stopTypingTimer.current = setTimeout(() => {
+      lastTypingSent.current = 0;
+      send({ action: 'typing', field, is_typing: false });
+    }, TYPING_IDLE_MS / 2);
+  }, [send]);
+
+  const dismissRemoteSave = useCallback(() => setRemoteSave(null), []);
+
+  return {
+    connected,
+    participants,
+    typing,
+    remoteSave,
+    dismissRemoteSave,
+    notifyTyping
+  };
+}
@@ -0,0 +1,55 @@
+import { useLocation } from 'react-router-dom';
+import { HeadTag, useHeadTags, useSiteOrigin } from '@/lib/head';
+import { getImageUrl } from '@/lib/utils';
+import { useSiteSettings } from './useSiteSettings';
+
+export interface DocumentHead {
+  // Page title, shown before the site name; the site name alone when omitted
+  title?: string;
+  description?: string;
+  image?: string;
+  // Open Graph type, e.g. article for posts
+  type?: 'website' | 'article';
+}
+
+/**
+ * Title, meta description, canonical URL and Open Graph / Twitter card tags of
+ * a public page. Pass null while the page content is still loading.
+ */
+export function useDocumentHead(head: DocumentHead | null) {
+  const origin = useSiteOrigin();
+  const { pathname } = useLocation();
+  const { siteName, settings } = useSiteSettings();
+
+  const tags: HeadTag[] = [];
+  if (head) {
+    const title = head.title ? `${head.title} | ${siteName}` : siteName;
+    const description = head.description || settings?.site_description;
+    const url = origin + pathname;
+    const image = head.image ? new URL(getImageUrl(head.image), origin).href : undefined;
+
+    const meta = (key: 'name' | 'property', name: string, content?: string) => {
+      if (content) {
+        tags.push({ tag: 'meta', attributes: { [key]: name, content } });
+      }
+    };
+
+    tags.push({ tag: 'title', text: title });
+    meta('name', 'description', description);
+    tags.push({ tag: 'link', attributes: { rel: 'canonical', href: url } });
+
+    meta('property', 'og:type', head.type || 'website');
+    meta('property', 'og:site_name', siteName);
+    meta('property', 'og:title', head.title || siteName);
+    meta('property', 'og:description', description);
+    meta('property', 'og:url', url);
+    meta('property', 'og:image', image);
+
+    meta('name', 'twitter:card', image ? 'summary_large_image' : 'summary');
+    meta('name', 'twitter:title', head.title || siteName);
+    meta('name', 'twitter:description', description);
+    meta('name', 'twitter:image', image);
+  }
+
+  useHeadTags(tags);
+}
@@ -0,0 +1,87 @@
+import { useState, useEffect, useCallback, useRef } from 'react';
+import { editLocksService } from '../services/editLocks';
+import type { EditLock, LockableContentType } from '../services/editLocks';
+
+interface UseEditLockOptions {
+  contentType: LockableContentType;
+  contentId: number;
+  enabled?: boolean;
+}
+
+interface UseEditLockReturn {
+  lock: EditLock | null;
+  // True while this editor holds the lock
+  isHolder: boolean;
+  takeOver: () => Promise<void>;
+  isTakingOver: boolean;
+}
+
+// Well inside the server's 90 second lock lifetime
+const HEARTBEAT_INTERVAL_MS = 30000;
+
+/**
+ * Hold a soft edit lock while the editor is open. The periodic request is the
+ * heartbeat while we hold the lock, and picks it up once another holder's
+ * lock lapses.
+ */
+export function useEditLock({
+  contentType,
+  contentId,
+  enabled = true
+}: UseEditLockOptions): UseEditLockReturn {
+  const [lock, setLock] = useState<EditLock | null>(null);
+  const [isHolder, setIsHolder] = useState(false);
+  const [isTakingOver, setIsTakingOver] = useState(false);
+  const holdingRef = useRef(false);
+
+  useEffect(() => {
+    if (!enabled || !contentId) {
+      return;
+    }
+
+    let disposed = false;
+
+    const refresh = async () => {
+      try {
+        const result = await editLocksService.acquire(contentType, contentId);
+        if (disposed) return;
+        holdingRef.current = result.acquired;
+        setIsHolder(result.acquired);
+        setLock(result.lock);
+      } catch {
+        // Locks are advisory; editing carries on without one
+      }
+    };
+
+    refresh();
+    const timer = setInterval(refresh, HEARTBEAT_INTERVAL_MS);
+
+    return () => {
+      disposed = true;
+      clearInterval(timer);
+      if (holdingRef.current) {
+        holdingRef.current = false;
+        editLocksService.release(contentType, contentId).catch(() => undefined);
+      }
+    };
+  }, [enabled, contentType, contentId]);
+
+  const takeOver = useCallback(async () => {
+    setIsTakingOver(true);
+    try {
+      const result = await editLocksService.acquire(contentType, contentId, true);
+      holdingRef.current = result.acquired;
+      setIsHolder(result.acquired);
+      setLock(result.lock);
+    } finally {
+      setIsTakingOver(false);
+    }
+  }, [contentType, contentId]);
+
+  return {
+    lock,
+    isHolder,
+    takeOver,
+    isTakingOver
+  };
+}
@@ -0,0 +1,33 @@
+import { useHeadTags } from '@/lib/head';
+import { useRouteLocale } from './useRouteLocale';
+
+export const FEED_FORMATS = [
+  { file: 'feed.xml', type: 'application/rss+xml', label: 'RSS' },
+  { file: 'atom.xml', type: 'application/atom+xml', label: 'Atom' },
+  { file: 'feed.json', type: 'application/feed+json', label: 'JSON Feed' },
+];
+
+interface UseFeedLinksOptions {
+  // Listing the feeds belong to, e.g. /category/news; the whole site when omitted
+  scopePath?: string;
+  title?: string;
+}
+
+/**
+ * Advertise the RSS, Atom and JSON feeds of the current listing with
+ * <link rel="alternate"> tags so readers can discover them
+ */
+export function useFeedLinks({ scopePath = '', title }: UseFeedLinksOptions = {}) {
+  const { localize } = useRouteLocale();
+  const feedBase = localize(scopePath || '/');
+
+  useHeadTags(FEED_FORMATS.map(({ file, type, label }) => ({
+    tag: 'link',
+    attributes: {
+      rel: 'alternate',
+      type,
+      title: title ? `${title} (${label})` : label,
+      href: `${feedBase === '/' ? '' : feedBase}/${file}`,
+    },
+  })));
+}
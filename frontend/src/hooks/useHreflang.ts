@@ -0,0 +1,29 @@
+import { buildAlternateLinks } from '@/lib/locales';
+import { useHeadTags, useHtmlLang, useSiteOrigin } from '@/lib/head';
+import type { PublishedTranslation } from '@/types';
+
+interface UseHreflangOptions {
+  translations?: PublishedTranslation[];
+  defaultLocale?: string;
+  // Public path prefix of the content, e.g. /blog for posts
+  basePath: string;
+  // Language of the content being viewed, applied to <html lang>
+  locale?: string;
+}
+
+/**
+ * Keep <link rel="alternate" hreflang> tags in the document head in sync with
+ * the published translations of the content being viewed.
+ */
+export function useHreflang({ translations, defaultLocale, basePath, locale }: UseHreflangOptions) {
+  const origin = useSiteOrigin();
+  const links = translations && defaultLocale
+    ? buildAlternateLinks(translations, defaultLocale, (slug) => `${basePath}/${slug}`, origin)
+    : [];
+
+  useHeadTags(links.map(({ hreflang, href }) => ({
+    tag: 'link',
+    attributes: { rel: 'alternate', hreflang, href },
+  })));
+  useHtmlLang(locale);
+}
@@ -0,0 +1,36 @@
+import { useEffect } from 'react';
+import { useQuery } from '@tanstack/react-query';
+import { useLocation, useNavigate } from 'react-router-dom';
+import { redirectsService } from '@/services/redirects';
+
+/**
+ * Follow a redirect for the current path when the page has nothing to show.
+ * Server renders answer with a real HTTP redirect instead, so this only runs
+ * in the browser. Returns true while the lookup is still in flight.
+ */
+export function useRedirect(notFound: boolean): boolean {
+  const { pathname } = useLocation();
+  const navigate = useNavigate();
+  const enabled = notFound && typeof window !== 'undefined';
+
+  const { data: redirect, isLoading } = useQuery({
+    queryKey: ['redirect', pathname],
+    queryFn: () => redirectsService.resolve(pathname),
+    enabled,
+    retry: false,
+    staleTime: Infinity,
+  });
+
+  useEffect(() => {
+    if (!enabled || !redirect) {
+      return;
+    }
+    if (/^https?:\/\//i.test(redirect.target)) {
+      window.location.replace(redirect.target);
+    } else {
+      navigate(redirect.target, { replace: true });
+    }
+  }, [enabled, redirect, navigate]);
+
+  return enabled && (isLoading || !!redirect);
+}
@@ -0,0 +1,17 @@
+import { useLocation } from 'react-router-dom';
+import { isLocale, localizePath } from '@/lib/locales';
+
+/**
+ * Locale of the current /:locale-prefixed public route, if any, with a helper
+ * that keeps links inside that locale
+ */
+export function useRouteLocale() {
+  const { pathname } = useLocation();
+  const segment = pathname.split('/')[1];
+  const locale = isLocale(segment) ? segment : undefined;
+
+  return {
+    locale,
+    localize: (path: string) => localizePath(path, locale),
+  };
+}
@@ -0,0 +1,20 @@
+import { useQuery } from '@tanstack/react-query';
+import { settingsService } from '@/services/settings';
+
+export const DEFAULT_SITE_NAME = 'Personal CMS';
+
+/**
+ * Public site settings, shared by the layout and pages through the query cache
+ * so they are fetched once and included in server renders
+ */
+export function useSiteSettings() {
+  const { data: settings } = useQuery({
+    queryKey: ['site-settings'],
+    queryFn: () => settingsService.getSettings(),
+  });
+
+  return {
+    settings,
+    siteName: settings?.site_title || settings?.site_name || DEFAULT_SITE_NAME,
+  };
+}
@@ -1,6 +1,10 @@
 import axios, { AxiosInstance, AxiosResponse } from 'axios';
 import { toast } from 'react-hot-toast';
 
+// The public pages are also rendered on the server, where there is no
+// stored login and nobody to show errors to
+const isBrowser = typeof window !== 'undefined';
+
 // CSRF token storage
 let csrfToken: string | null = null;
 
@@ -24,7 +28,7 @@ const api: AxiosInstance = axios.create({
 api.interceptors.request.use(
   (config) => {
     // Add auth token
-    const token = localStorage.getItem('token');
+    const token = isBrowser ? localStorage.getItem('token') : null;
     if (token) {
       config.headers.Authorization = `Bearer ${token}`;
     }
@@ -57,6 +61,9 @@ api.interceptors.response.use(
     return response;
   },
   (error) => {
+    if (!isBrowser) {
+      return Promise.reject(error);
+    }
     if (error.response?.status === 401) {
       // Token expired or invalid
       localStorage.removeItem('token');
@@ -0,0 +1,140 @@
+import { createContext, useContext, useEffect } from 'react';
+
+/**
+ * A <title>, <meta> or <link> element managed by a public page. Tags are
+ * collected while rendering on the server and kept in sync with the
+ * document head in the browser.
+ */
+export interface HeadTag {
+  tag: 'title' | 'meta' | 'link';
+  attributes?: Record<string, string>;
+  // Text of a <title>
+  text?: string;
+}
+
+/**
+ * Head of a server render, filled in by the components of the page
+ */
+export interface HeadCollector {
+  // Scheme and host the page was requested on, for absolute URLs
+  origin: string;
+  tags: HeadTag[];
+  lang?: string;
+}
+
+export const HeadContext = createContext<HeadCollector | null>(null);
+
+// Server-rendered tags carry this attribute so the client can take them over
+const PRERENDERED_ATTRIBUTE = 'data-prerendered';
+
+/**
+ * Origin of the current page, also while rendering on the server
+ */
+export function useSiteOrigin(): string {
+  const collector = useContext(HeadContext);
+  return collector ? collector.origin : window.location.origin;
+}
+
+/**
+ * Render tags into the document head for as long as the component is mounted
+ */
+export function useHeadTags(tags: HeadTag[]) {
+  const collector = useContext(HeadContext);
+  if (collector) {
+    collector.tags.push(...tags);
+  }
+
+  // Compare by value so callers can build the list inline on every render
+  const serialized = JSON.stringify(tags);
+
+  useEffect(() => {
+    // The client renders its own copies of the server-rendered tags
+    document.head.querySelectorAll(`[${PRERENDERED_ATTRIBUTE}]`).forEach((element) => element.remove());
+
+    const previousTitle = document.title;
+    let titleSet = false;
+    const elements: HTMLElement[] = [];
+
+    for (const { tag, attributes = {}, text } of JSON.parse(serialized) as HeadTag[]) {
+      if (tag === 'title') {
+        document.title = text || '';
+        titleSet = true;
+        continue;
+      }
+      const element = document.createElement(tag);
+      Object.entries(attributes).forEach(([name, value]) => element.setAttribute(name, value));
+      document.head.appendChild(element);
+      elements.push(element);
+    }
+
+    return () => {
+      elements.forEach((element) => element.remove());
+      if (titleSet) {
+        document.title = previousTitle;
+      }
+    };
+  }, [serialized]);
+}
+
+/**
+ * Language of the page, applied to <html lang>
+ */
+export function useHtmlLang(lang?: string) {
+  const collector = useContext(HeadContext);
+  if (collector && lang) {
+    collector.lang = lang;
+  }
+
+  useEffect(() => {
+    if (!lang) {
+      return;
+    }
+    const previous = document.documentElement.lang;
+    document.documentElement.lang = lang;
+    return () => {
+      document.documentElement.lang = previous;
+    };
+  }, [lang]);
+}
+
+export function escapeHtml(value: string): string {
+  return value
+    .replace(/&/g, '&amp;')
+    .replace(/</g, '&lt;')
+    .replace(/>/g, '&gt;')
+    .replace(/"/g, '&quot;')
+    .replace(/'/g, '&#39;');
+}
+
+// Tags that may appear once per page; the last one rendered wins
+function dedupeKey(tag: HeadTag, index: number): string {
+  const attributes = tag.attributes || {};
+  if (tag.tag === 'title') {
+    return 'title';
+  }
+  if (tag.tag === 'meta' && (attributes.name || attributes.property)) {
+    return `meta:${attributes.name || attributes.property}`;
+  }
+  if (tag.tag === 'link' && attributes.rel === 'canonical') {
+    return 'canonical';
+  }
+  return `${index}`;
+}
+
+/**
+ * HTML for the collected head tags of a server render
+ */
+export function renderHeadTags(tags: HeadTag[]): string {
+  const unique = new Map<string, HeadTag>();
+  tags.forEach((tag, index) => unique.set(dedupeKey(tag, index), tag));
+
+  return Array.from(unique.values()).map(({ tag, attributes = {}, text }) => {
+    if (tag === 'title') {
+      return `<title>${escapeHtml(text || '')}</title>`;
+    }
+    const rendered = Object.entries(attributes)
+      .map(([name, value]) => ` ${name}="${escapeHtml(value)}"`)
+      .join('');
+    return `<${tag}${rendered} ${PRERENDERED_ATTRIBUTE}>`;
+  }).join('\n    ');
+}
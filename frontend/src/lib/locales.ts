@@ -0,0 +1,62 @@
+import type { PublishedTranslation } from '@/types';
+
+// Language tags such as en, de or pt-BR (matches the backend)
+export const LOCALE_PATTERN = /^[a-z]{2,3}(-[A-Z]{2})?$/;
+
+export interface AlternateLink {
+  hreflang: string;
+  href: string;
+}
+
+export function isLocale(value?: string): value is string {
+  return !!value && LOCALE_PATTERN.test(value);
+}
+
+/**
+ * Public path for a locale. The default locale is served from the
+ * unprefixed routes, every other locale under /:locale.
+ */
+export function localizePath(path: string, locale?: string, defaultLocale?: string): string {
+  if (!locale || locale === defaultLocale) {
+    return path;
+  }
+  return path === '/' ? `/${locale}` : `/${locale}${path}`;
+}
+
+/**
+ * Human readable name of a locale, e.g. "German" for "de"
+ */
+export function localeName(locale: string): string {
+  try {
+    return new Intl.DisplayNames(['en'], { type: 'language' }).of(locale) || locale;
+  } catch {
+    return locale;
+  }
+}
+
+/**
+ * hreflang alternates for content published in several languages, with the
+ * default-locale version doubling as x-default
+ */
+export function buildAlternateLinks(
+  translations: PublishedTranslation[],
+  defaultLocale: string,
+  pathForSlug: (slug: string) => string,
+  origin: string
+): AlternateLink[] {
+  if (translations.length < 2) {
+    return [];
+  }
+
+  const links = translations.map((translation) => ({
+    hreflang: translation.locale,
+    href: origin + localizePath(pathForSlug(translation.slug), translation.locale, defaultLocale),
+  }));
+
+  const fallback = translations.find((translation) => translation.locale === defaultLocale);
+  if (fallback) {
+    links.push({ hreflang: 'x-default', href: origin + pathForSlug(fallback.slug) });
+  }
+
+  return links;
+}
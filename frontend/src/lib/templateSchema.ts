@@ -0,0 +1,77 @@
+import type { JsonSchema, PageBlock } from '@/types';
+
+/**
+ * Helpers for page data described by a template's JSON Schema
+ */
+
+// Templates without schema fields (the default `{}`) keep free-form JSON data
+export function hasSchemaFields(schema: JsonSchema | null | undefined): schema is JsonSchema {
+  return !!schema?.properties && Object.keys(schema.properties).length > 0;
+}
+
+// The non-null type of a field, e.g. "string" for ["string", "null"]
+export function fieldType(schema: JsonSchema): string | undefined {
+  return Array.isArray(schema.type) ? schema.type.find((type) => type !== 'null') : schema.type;
+}
+
+// Label for a field without a title, e.g. "Hero image" for hero_image
+export function fieldLabel(key: string, schema: JsonSchema): string {
+  if (schema.title) return schema.title;
+  const words = key.replace(/([a-z])([A-Z])/g, '$1 $2').replace(/[_-]+/g, ' ').trim().toLowerCase();
+  return words.charAt(0).toUpperCase() + words.slice(1);
+}
+
+// Empty value for a new field or repeater item
+export function emptyValue(schema: JsonSchema): unknown {
+  if (schema.default !== undefined) return schema.default;
+  switch (fieldType(schema)) {
+    case 'object':
+      return Object.fromEntries(
+        Object.entries(schema.properties || {}).map(([key, property]) => [key, emptyValue(property)])
+      );
+    case 'array':
+      return [];
+    case 'boolean':
+      return false;
+    case 'string':
+      return '';
+    default:
+      return null;
+  }
+}
+
+// A new block of a type declared by the template, with empty props
+export function newBlock(type: string, schema: JsonSchema): PageBlock {
+  const id = typeof crypto !== 'undefined' && 'randomUUID' in crypto
+    ? crypto.randomUUID()
+    : `${Date.now().toString(36)}-${Math.random().toString(36).slice(2, 10)}`;
+  return { id, type, props: emptyValue({ type: 'object', ...schema }) as Record<string, unknown> };
+}
+
+/**
+ * Data for a page switching to a template: the template defaults, with the
+ * values the page already has for fields the schema defines
+ */
+export function fitDataToSchema(schema: JsonSchema, defaults: unknown, current: unknown): Record<string, unknown> {
+  const base = defaults && typeof defaults === 'object' ? { ...(defaults as Record<string, unknown>) } : {};
+  if (current && typeof current === 'object' && !Array.isArray(current)) {
+    Object.entries(current as Record<string, unknown>).forEach(([key, value]) => {
+      if (schema.properties?.[key]) base[key] = value;
+    });
+  }
+  return base;
+}
+
+/**
+ * Field errors from a rejected save, keyed by their path in the data
+ * (e.g. members.0.name), from details reported as data.<path>
+ */
+export function dataFieldErrors(details: Array<{ field?: string; message: string }> | undefined): Record<string, string> {
+  const errors: Record<string, string> = {};
+  (details || []).forEach((detail) => {
+    if (detail.field?.startsWith('data.')) {
+      errors[detail.field.slice('data.'.length)] = detail.message;
+    }
+  });
+  return errors;
+}
@@ -78,18 +78,13 @@ export function getImageUrl(path: string): string {
   return path.startsWith('/') ? path : `/${path}`;
 }
 
-// Extract first <img src="..."> from HTML content
+// Extract first <img src="..."> from HTML content. Works without a DOM so
+// public pages can use it while rendering on the server.
 export function getFirstImageFromHtml(html: string | undefined | null): string | null {
   if (!html) return null;
-  try {
-    const div = document.createElement('div');
-    div.innerHTML = html;
-    const img = div.querySelector('img');
-    const src = img?.getAttribute('src') || null;
-    return src ? getImageUrl(src) : null;
-  } catch {
-    return null;
-  }
+  const match = html.match(/<img\b[^>]*?\ssrc\s*=\s*(?:"([^"]*)"|'([^']*)'|([^\s>]+))/i);
+  const src = match ? (match[1] ?? match[2] ?? match[3]).replace(/&amp;/g, '&') : null;
+  return src ? getImageUrl(src) : null;
 }
 
 export function stripHtml(html: string): string {
@@ -109,8 +104,9 @@ export function capitalizeFirst(str: string): string {
 
 export function generateReadingTime(content: string): number {
   const wordsPerMinute = 200;
-  const words = stripHtml(content).split(/\s+/).length;
-  return Math.ceil(words / wordsPerMinute);
+  // Counted on the raw markup rather than via stripHtml, which needs a DOM
+  const words = content.replace(/<[^>]*>/g, ' ').split(/\s+/).filter(Boolean).length;
+  return Math.max(1, Math.ceil(words / wordsPerMinute));
 }
 
 export function copyToClipboard(text: string): Promise<void> {
@@ -124,4 +120,45 @@ export function downloadFile(url: string, filename: string): void {
   document.body.appendChild(link);
   link.click();
   document.body.removeChild(link);
-} 
\ No newline at end of file
+} 
+/**
+ * Order categories depth-first so each is followed by its subcategories,
+ * siblings by name, with the nesting depth for indenting them
+ */
+export function sortCategoryTree<T extends { id: number; name: string; parent_id?: number | null }>(
+  categories: T[]
+): Array<T & { depth: number }> {
+  return sortTree(categories, (a, b) => a.name.localeCompare(b.name));
+}
+
+/**
+ * Order pages depth-first so each is followed by its subpages, siblings in
+ * their set order, with the nesting depth for indenting them
+ */
+export function sortPageTree<T extends { id: number; title: string; position?: number; parent_id?: number | null }>(
+  pages: T[]
+): Array<T & { depth: number }> {
+  return sortTree(pages, (a, b) => (a.position ?? 0) - (b.position ?? 0) || a.title.localeCompare(b.title));
+}
+
+function sortTree<T extends { id: number; parent_id?: number | null }>(
+  items: T[],
+  compareSiblings: (a: T, b: T) => number
+): Array<T & { depth: number }> {
+  const ids = new Set(items.map((item) => item.id));
+  const sorted: Array<T & { depth: number }> = [];
+
+  // Items whose parent is not in the list are shown at the top level
+  const visit = (parentId: number | null, depth: number) => {
+    items
+      .filter((item) => (item.parent_id != null && ids.has(item.parent_id) ? item.parent_id : null) === parentId)
+      .sort(compareSiblings)
+      .forEach((item) => {
+        sorted.push({ ...item, depth });
+        visit(item.id, depth + 1);
+      });
+  };
+  visit(null, 0);
+
+  return sorted;
+}
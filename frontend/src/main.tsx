@@ -1,10 +1,10 @@
 import React from 'react'
 import ReactDOM from 'react-dom/client'
 import { BrowserRouter } from 'react-router-dom'
-import { QueryClient, QueryClientProvider } from '@tanstack/react-query'
+import { HydrationBoundary, QueryClient, QueryClientProvider } from '@tanstack/react-query'
 import { ReactQueryDevtools } from '@tanstack/react-query-devtools'
-import { Toaster } from 'react-hot-toast'
 import App from './App.tsx'
+import AppToaster from './components/ui/AppToaster'
 import './index.css'
 
 const queryClient = new QueryClient({
@@ -17,23 +17,28 @@ const queryClient = new QueryClient({
   },
 })
 
-ReactDOM.createRoot(document.getElementById('root')!).render(
+// Server-rendered public pages embed the data they were rendered with
+// (see entry-server.tsx); hydrating from it avoids refetching on load
+const stateElement = document.getElementById('__REACT_QUERY_STATE__')
+const dehydratedState = stateElement ? JSON.parse(stateElement.textContent || 'null') : undefined
+
+const app = (
   <React.StrictMode>
     <QueryClientProvider client={queryClient}>
-      <BrowserRouter>
-        <App />
-        <Toaster 
-          position="top-right"
-          toastOptions={{
-            duration: 4000,
-            style: {
-              background: '#363636',
-              color: '#fff',
-            },
-          }}
-        />
-      </BrowserRouter>
+      <HydrationBoundary state={dehydratedState}>
+        <BrowserRouter>
+          <App />
+          <AppToaster />
+        </BrowserRouter>
+      </HydrationBoundary>
       <ReactQueryDevtools initialIsOpen={false} />
     </QueryClientProvider>
-  </React.StrictMode>,
-) 
\ No newline at end of file
+  </React.StrictMode>
+)
+
+const container = document.getElementById('root')!
+if (dehydratedState && container.hasChildNodes()) {
+  ReactDOM.hydrateRoot(container, app)
+} else {
+  ReactDOM.createRoot(container).render(app)
+}
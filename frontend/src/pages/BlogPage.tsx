@@ -1,14 +1,17 @@
 import { useState } from 'react';
 import { useQuery } from '@tanstack/react-query';
 import { Link, useSearchParams } from 'react-router-dom';
-import { Search, Filter, Calendar, User, Clock, ArrowRight, ChevronLeft, ChevronRight } from 'lucide-react';
+import { Search, Filter, Calendar, User, Clock, ArrowRight, ChevronLeft, ChevronRight, FileText, Folder } from 'lucide-react';
 import { postsService } from '../services/posts';
 import { categoriesService } from '../services/categories';
+import { searchService } from '../services/search';
 import { formatDate, generateReadingTime, truncateText, getImageUrl, getFirstImageFromHtml } from '../lib/utils';
 import LoadingSpinner from '../components/ui/LoadingSpinner';
 import Button from '../components/ui/Button';
 import Input from '../components/ui/Input';
 import Select from '../components/ui/Select';
+import HighlightedText from '../components/ui/HighlightedText';
+import { useRouteLocale } from '../hooks/useRouteLocale';
 import { ApiResponse, Post, Category } from '../types';
 
 export default function BlogPage() {
@@ -18,23 +21,34 @@ export default function BlogPage() {
   const [sortBy, setSortBy] = useState(searchParams.get('sort') || 'created_at');
   const [sortOrder, setSortOrder] = useState(searchParams.get('order') || 'desc');
   
+  const { locale, localize } = useRouteLocale();
+
   const currentPage = parseInt(searchParams.get('page') || '1');
+  const activeSearch = searchParams.get('search') || '';
   const limit = 12;
 
-  // Fetch posts with filters
+  // Fetch posts with filters; searches come back ranked with highlights
   const { data: postsData, isLoading: postsLoading } = useQuery<ApiResponse<Post[]>>({
-    queryKey: ['posts', currentPage, searchTerm, selectedCategory, sortBy, sortOrder],
+    queryKey: ['posts', currentPage, activeSearch, selectedCategory, sortBy, sortOrder, locale],
     queryFn: () =>
       postsService.getPosts({
         page: currentPage,
         limit,
-        search: searchTerm || undefined,
+        search: activeSearch || undefined,
         category: selectedCategory || undefined,
         sort: sortBy,
-        order: sortOrder as 'asc' | 'desc'
+        order: sortOrder as 'asc' | 'desc',
+        locale
       }),
   });
 
+  // Pages and categories matching the search, shown above the articles
+  const { data: otherMatches } = useQuery({
+    queryKey: ['search', activeSearch, locale],
+    queryFn: () => searchService.search({ q: activeSearch, types: ['page', 'category'], locale, limit: 5 }),
+    enabled: !!activeSearch && currentPage === 1,
+  });
+
   // Fetch categories for filter dropdown
   const { data: categoriesData } = useQuery<ApiResponse<Category[]>>({
     queryKey: ['categories'],
@@ -167,8 +181,8 @@ export default function BlogPage() {
               ) : (
                 `${totalPosts} article${totalPosts !== 1 ? 's' : ''} found`
               )}
-              {searchTerm && (
-                <span> for "{searchTerm}"</span>
+              {activeSearch && (
+                <span> for "{activeSearch}"</span>
               )}
               {selectedCategory && (
                 <span> in {categoriesData?.categories?.find(c => c.slug === selectedCategory)?.name}</span>
@@ -176,6 +190,38 @@ export default function BlogPage() {
             </p>
           </div>
 
+          {/* Matching pages and categories */}
+          {otherMatches && otherMatches.data.length > 0 && (
+            <div className="mb-8 bg-white rounded-lg border border-gray-200 divide-y divide-gray-100">
+              {otherMatches.data.map((result) => (
+                <Link
+                  key={`${result.type}-${result.id}`}
+                  to={result.type === 'page' ? localize(`/page/${result.slug}`) : `/category/${result.slug}`}
+                  className="flex items-start gap-3 p-4 hover:bg-gray-50 transition-colors"
+                >
+                  {result.type === 'page' ? (
+                    <FileText className="h-5 w-5 text-gray-400 mt-0.5 shrink-0" />
+                  ) : (
+                    <Folder className="h-5 w-5 text-gray-400 mt-0.5 shrink-0" />
+                  )}
+                  <div className="min-w-0">
+                    <p className="font-medium text-gray-900">
+                      <HighlightedText text={result.title_highlight} />
+                      <span className="ml-2 text-xs font-normal text-gray-500">
+                        {result.type === 'page' ? 'Page' : 'Category'}
+                      </span>
+                    </p>
+                    {result.snippet && (
+                      <p className="text-sm text-gray-600 line-clamp-2">
+                        <HighlightedText text={result.snippet} />
+                      </p>
+                    )}
+                  </div>
+                </Link>
+              ))}
+            </div>
+          )}
+
           {/* Posts Grid */}
           {postsLoading ? (
             <div className="flex justify-center py-12">
@@ -222,7 +268,7 @@ export default function BlogPage() {
                         <>
                           <span className="mx-2">•</span>
                           <Link
-                            to={`/category/${post.category_slug}`}
+                            to={`/category/${post.category_path}`}
                             className="hover:text-primary-600 transition-colors"
                           >
                             {post.category_name}
@@ -231,11 +277,15 @@ export default function BlogPage() {
                       )}
                     </div>
                     <h3 className="text-xl font-semibold text-gray-900 mb-2 group-hover:text-primary-600 transition-colors">
-                      <Link to={`/blog/${post.slug}`}>
-                        {post.title}
+                      <Link to={localize(`/blog/${post.slug}`)}>
+                        {post.search_title ? <HighlightedText text={post.search_title} /> : post.title}
                       </Link>
                     </h3>
-                    {post.excerpt && (
+                    {post.search_snippet ? (
+                      <p className="text-gray-600 mb-4">
+                        <HighlightedText text={post.search_snippet} />
+                      </p>
+                    ) : post.excerpt && (
                       <p className="text-gray-600 mb-4">
                         {truncateText(post.excerpt, 120)}
                       </p>
@@ -249,7 +299,7 @@ export default function BlogPage() {
                         {generateReadingTime(post.content || '')} min
                       </div>
                       <Link
-                        to={`/blog/${post.slug}`}
+                        to={localize(`/blog/${post.slug}`)}
                         className="text-primary-600 hover:text-primary-700 font-medium text-sm inline-flex items-center"
                       >
                         Read More
@@ -9,9 +9,12 @@ import LoadingSpinner from '../components/ui/LoadingSpinner';
 import Button from '../components/ui/Button';
 import Input from '../components/ui/Input';
 import Select from '../components/ui/Select';
+import { useFeedLinks } from '../hooks/useFeedLinks';
+import { useDocumentHead } from '../hooks/useDocumentHead';
 
 export default function CategoryPage() {
-  const { slug } = useParams<{ slug: string }>();
+  // Full category path below /category/, e.g. tech/javascript
+  const path = useParams()['*']?.replace(/\/+$/, '');
   const [searchParams, setSearchParams] = useSearchParams();
   const [searchTerm, setSearchTerm] = useState(searchParams.get('search') || '');
   const [sortBy, setSortBy] = useState(searchParams.get('sort') || 'created_at');
@@ -22,23 +25,29 @@ export default function CategoryPage() {
 
   // Fetch category details
   const { data: category, isLoading: categoryLoading } = useQuery({
-    queryKey: ['category', slug],
-    queryFn: () => categoriesService.getCategoryBySlug(slug!),
-    enabled: !!slug
+    queryKey: ['category', path],
+    queryFn: () => categoriesService.getCategoryBySlug(path!),
+    enabled: !!path
   });
 
+  useFeedLinks({ scopePath: `/category/${path}`, title: category?.name });
+  useDocumentHead(category ? {
+    title: category.name,
+    description: category.description
+  } : null);
+
   // Fetch posts in category
   const { data: postsData, isLoading: postsLoading } = useQuery({
-    queryKey: ['category-posts', slug, currentPage, searchTerm, sortBy, sortOrder],
+    queryKey: ['category-posts', path, currentPage, searchTerm, sortBy, sortOrder],
     queryFn: () => postsService.getPosts({
       page: currentPage,
       limit,
-      category: slug,
+      category: path,
       search: searchTerm || undefined,
       sort: sortBy,
       order: sortOrder as 'asc' | 'desc'
     }),
-    enabled: !!slug,
+    enabled: !!path,
     placeholderData: (previousData) => previousData
   });
 
@@ -110,6 +119,27 @@ export default function CategoryPage() {
       {/* Header */}
       <section className="bg-white border-b">
         <div className="max-w-7xl mx-auto px-4 sm:px-6 lg:px-8 py-12">
+          {category.ancestors && category.ancestors.length > 0 && (
+            <nav aria-label="Breadcrumb" className="mb-6">
+              <ol className="flex flex-wrap items-center justify-center text-sm text-gray-500">
+                <li>
+                  <Link to="/blog" className="hover:text-primary-600">Blog</Link>
+                </li>
+                {category.ancestors.map((ancestor) => (
+                  <li key={ancestor.id} className="flex items-center">
+                    <ChevronRight className="h-4 w-4 mx-1" />
+                    <Link to={`/category/${ancestor.path}`} className="hover:text-primary-600">
+                      {ancestor.name}
+                    </Link>
+                  </li>
+                ))}
+                <li className="flex items-center">
+                  <ChevronRight className="h-4 w-4 mx-1" />
+                  <span aria-current="page" className="text-gray-900">{category.name}</span>
+                </li>
+              </ol>
+            </nav>
+          )}
           <div className="text-center">
             <div className="flex items-center justify-center mb-4">
               <Folder className="h-8 w-8 text-primary-600 mr-2" />
@@ -122,6 +152,20 @@ export default function CategoryPage() {
                 {category.description}
               </p>
             )}
+            {category.children && category.children.length > 0 && (
+              <div className="mt-6 flex flex-wrap justify-center gap-2">
+                {category.children.map((child) => (
+                  <Link
+                    key={child.id}
+                    to={`/category/${child.path}`}
+                    className="inline-flex items-center px-3 py-1 rounded-full bg-gray-100 text-sm text-gray-700 hover:bg-primary-50 hover:text-primary-700"
+                  >
+                    <Folder className="h-4 w-4 mr-1" />
+                    {child.name}
+                  </Link>
+                ))}
+              </div>
+            )}
             <div className="mt-4">
               <Link
                 to="/blog"
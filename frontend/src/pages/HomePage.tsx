@@ -5,29 +5,22 @@ import { postsService } from '../services/posts';
 import { formatDate, generateReadingTime, truncateText, getImageUrl, getFirstImageFromHtml } from '../lib/utils';
 import LoadingSpinner from '../components/ui/LoadingSpinner';
 import Button from '../components/ui/Button';
-import { settingsService } from '@/services/settings';
-import { useEffect, useState } from 'react';
+import { useRouteLocale } from '../hooks/useRouteLocale';
+import { useSiteSettings } from '../hooks/useSiteSettings';
+import { useDocumentHead } from '../hooks/useDocumentHead';
 
 export default function HomePage() {
-  const [heroTitle, setHeroTitle] = useState('Welcome to My Blog');
-  const [heroSubtitle, setHeroSubtitle] = useState('Discover insights, tutorials, and stories about web development, technology, and personal growth.');
+  const { settings } = useSiteSettings();
+  const heroTitle = settings?.site_title || settings?.site_name || 'Welcome to My Blog';
+  const heroSubtitle = settings?.site_description || 'Discover insights, tutorials, and stories about web development, technology, and personal growth.';
 
-  useEffect(() => {
-    const load = async () => {
-      try {
-        const s = await settingsService.getSettings();
-        const name = s?.site_title || s?.site_name;
-        if (name) setHeroTitle(name);
-        if (s?.site_description) setHeroSubtitle(s.site_description);
-      } catch (_) {
-        // ignore
-      }
-    };
-    load();
-  }, []);
-  const { data: featuredPosts, isLoading: featuredLoading } = useQuery({ queryKey: ['featured-posts'], queryFn: () => postsService.getFeaturedPosts(3) });
+  useDocumentHead({});
 
-  const { data: recentPosts, isLoading: recentLoading } = useQuery({ queryKey: ['recent-posts'], queryFn: () => postsService.getRecentPosts(6) });
+  const { locale, localize } = useRouteLocale();
+
+  const { data: featuredPosts, isLoading: featuredLoading } = useQuery({ queryKey: ['featured-posts', locale], queryFn: () => postsService.getFeaturedPosts(3, locale) });
+
+  const { data: recentPosts, isLoading: recentLoading } = useQuery({ queryKey: ['recent-posts', locale], queryFn: () => postsService.getRecentPosts(6, locale) });
 
   return (
     <div className="min-h-screen">
@@ -40,7 +33,7 @@ export default function HomePage() {
             <div className="flex flex-col sm:flex-row gap-4 justify-center">
               <Button
                 as={Link}
-                to="/blog"
+                to={localize('/blog')}
                 size="lg"
                 className="bg-white text-primary-600 hover:bg-gray-100"
               >
@@ -106,7 +99,7 @@ export default function HomePage() {
                       {generateReadingTime(post.content || '')} min read
                     </div>
                     <h3 className="text-xl font-semibold text-gray-900 mb-2 group-hover:text-primary-600 transition-colors">
-                      <Link to={`/blog/${post.slug}`}>
+                      <Link to={localize(`/blog/${post.slug}`)}>
                         {post.title}
                       </Link>
                     </h3>
@@ -121,7 +114,7 @@ export default function HomePage() {
                         {post.first_name} {post.last_name}
                       </div>
                       <Link
-                        to={`/blog/${post.slug}`}
+                        to={localize(`/blog/${post.slug}`)}
                         className="text-primary-600 hover:text-primary-700 font-medium text-sm"
                       >
                         Read More
@@ -174,7 +167,7 @@ export default function HomePage() {
                         <>
                           <span className="mx-2">•</span>
                           <Link
-                            to={`/category/${post.category_slug}`}
+                            to={`/category/${post.category_path}`}
                             className="hover:text-primary-600 transition-colors"
                           >
                             {post.category_name}
@@ -183,7 +176,7 @@ export default function HomePage() {
                       )}
                     </div>
                     <h3 className="text-xl font-semibold text-gray-900 mb-2 group-hover:text-primary-600 transition-colors">
-                      <Link to={`/blog/${post.slug}`}>
+                      <Link to={localize(`/blog/${post.slug}`)}>
                         {post.title}
                       </Link>
                     </h3>
@@ -193,7 +186,7 @@ export default function HomePage() {
                       </p>
                     )}
                     <Link
-                      to={`/blog/${post.slug}`}
+                      to={localize(`/blog/${post.slug}`)}
                       className="text-primary-600 hover:text-primary-700 font-medium text-sm inline-flex items-center"
                     >
                       Read More
@@ -206,7 +199,7 @@ export default function HomePage() {
           )}
 
           <div className="text-center mt-12">
-            <Button as={Link} to="/blog" size="lg">
+            <Button as={Link} to={localize('/blog')} size="lg">
               View All Posts
             </Button>
           </div>
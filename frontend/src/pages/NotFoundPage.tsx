@@ -0,0 +1,23 @@
+import LoadingSpinner from '../components/ui/LoadingSpinner';
+import { useRedirect } from '../hooks/useRedirect';
+
+export default function NotFoundPage() {
+  const redirecting = useRedirect(true);
+
+  if (redirecting) {
+    return (
+      <div className="min-h-screen flex items-center justify-center">
+        <LoadingSpinner size="lg" />
+      </div>
+    );
+  }
+
+  return (
+    <div className="min-h-screen flex items-center justify-center">
+      <div className="text-center">
+        <h1 className="text-4xl font-bold text-gray-900">404</h1>
+        <p className="text-gray-600 mt-2">Page not found</p>
+      </div>
+    </div>
+  );
+}
@@ -1,11 +1,17 @@
+import { createContext, useContext } from 'react';
 import { useQuery } from '@tanstack/react-query';
-import { useParams, useNavigate } from 'react-router-dom';
-import { ArrowLeft, Calendar, User } from 'lucide-react';
+import { useParams, useNavigate, Link } from 'react-router-dom';
+import { ArrowLeft, Calendar, ChevronRight, User } from 'lucide-react';
 import { pagesService } from '@/services/pages';
 import { formatDate } from '@/lib/utils';
+import { fieldLabel, fieldType, hasSchemaFields } from '@/lib/templateSchema';
 import LoadingSpinner from '@/components/ui/LoadingSpinner';
 import Button from '@/components/ui/Button';
-import { useEffect } from 'react';
+import { useRouteLocale } from '@/hooks/useRouteLocale';
+import { useHreflang } from '@/hooks/useHreflang';
+import { useDocumentHead } from '@/hooks/useDocumentHead';
+import { useRedirect } from '@/hooks/useRedirect';
+import type { JsonSchema, PageBlock, PageFragment } from '@/types';
 
 // Simple template registry and renderer
 type TemplateComponentProps = { content?: string; data?: any };
@@ -35,30 +41,268 @@ const templates: Record<string, (p: TemplateComponentProps) => JSX.Element> = {
   default: TemplateDefault,
 };
 
+// Page builder block registry, keyed by the block types templates declare
+type BlockComponentProps = { values: Record<string, any> };
+
+const gridColumns: Record<number, string> = {
+  1: 'md:grid-cols-1',
+  2: 'md:grid-cols-2',
+  3: 'md:grid-cols-3',
+  4: 'md:grid-cols-4',
+};
+
+// Site links go through the router (and keep the locale), others leave the site
+function BlockButton({ url, label, variant }: { url?: string; label?: string; variant?: 'primary' | 'outline' }) {
+  const { localize } = useRouteLocale();
+  if (!url || !label) return null;
+  return url.startsWith('/') ? (
+    <Button as={Link} to={localize(url)} variant={variant}>{label}</Button>
+  ) : (
+    <Button as="a" href={url} target="_blank" rel="noopener noreferrer" variant={variant}>{label}</Button>
+  );
+}
+
+// Player URL for the video services embeds are allowed from
+function embedSource(url: string): string | null {
+  const youtube = url.match(/^https:\/\/(?:www\.)?(?:youtube\.com\/watch\?v=|youtu\.be\/)([\w-]{11})/);
+  if (youtube) return `https://www.youtube-nocookie.com/embed/${youtube[1]}`;
+  const vimeo = url.match(/^https:\/\/(?:www\.)?vimeo\.com\/(\d+)/);
+  if (vimeo) return `https://player.vimeo.com/video/${vimeo[1]}`;
+  return null;
+}
+
+const HeroBlock = ({ values }: BlockComponentProps) => (
+  <section
+    className="relative overflow-hidden rounded-lg bg-gray-900 bg-cover bg-center px-6 py-16 text-center text-white"
+    style={values.image ? { backgroundImage: `linear-gradient(rgba(0,0,0,.45), rgba(0,0,0,.45)), url(${JSON.stringify(String(values.image))})` } : undefined}
+  >
+    <h2 className="text-3xl md:text-4xl font-bold mb-4">{values.heading}</h2>
+    {values.subheading && <p className="text-lg text-gray-200 mb-6">{values.subheading}</p>}
+    <BlockButton url={values.button_url} label={values.button_label} />
+  </section>
+);
+
+const ColumnsBlock = ({ values }: BlockComponentProps) => {
+  const columns: Array<{ heading?: string; body?: string }> = Array.isArray(values.columns) ? values.columns : [];
+  return (
+    <section className={`grid grid-cols-1 gap-8 ${gridColumns[columns.length] || gridColumns[4]}`}>
+      {columns.map((column, index) => (
+        <div key={index}>
+          {column.heading && <h3 className="text-xl font-semibold text-gray-900 mb-2">{column.heading}</h3>}
+          <div className="prose max-w-none" dangerouslySetInnerHTML={{ __html: column.body || '' }} />
+        </div>
+      ))}
+    </section>
+  );
+};
+
+const GalleryBlock = ({ values }: BlockComponentProps) => {
+  const images: Array<{ url?: string; caption?: string }> = Array.isArray(values.images) ? values.images : [];
+  return (
+    <section className={`grid grid-cols-2 gap-4 ${gridColumns[values.columns] || gridColumns[3]}`}>
+      {images.filter((image) => image.url).map((image, index) => (
+        <figure key={index}>
+          <img src={image.url} alt={image.caption || ''} className="w-full h-48 object-cover rounded-lg shadow-md" />
+          {image.caption && <figcaption className="mt-2 text-sm text-gray-500">{image.caption}</figcaption>}
+        </figure>
+      ))}
+    </section>
+  );
+};
+
+const CtaBlock = ({ values }: BlockComponentProps) => (
+  <section className="bg-white p-8 rounded-lg shadow-sm border text-center">
+    <h2 className="text-2xl font-bold text-gray-900 mb-2">{values.heading}</h2>
+    {values.text && <p className="text-gray-600 mb-6">{values.text}</p>}
+    <BlockButton url={values.button_url} label={values.button_label} />
+  </section>
+);
+
+const EmbedBlock = ({ values }: BlockComponentProps) => {
+  const src = typeof values.url === 'string' ? embedSource(values.url) : null;
+  return (
+    <figure>
+      {src ? (
+        <div className="relative w-full overflow-hidden rounded-lg" style={{ paddingTop: '56.25%' }}>
+          <iframe
+            src={src}
+            title={values.caption || 'Embedded video'}
+            className="absolute inset-0 h-full w-full"
+            allow="accelerometer; encrypted-media; gyroscope; picture-in-picture"
+            allowFullScreen
+          />
+        </div>
+      ) : (
+        values.url && <a href={values.url} target="_blank" rel="noopener noreferrer" className="text-primary-600 hover:underline">{values.url}</a>
+      )}
+      {values.caption && <figcaption className="mt-2 text-sm text-gray-500">{values.caption}</figcaption>}
+    </figure>
+  );
+};
+
+const QuoteBlock = ({ values }: BlockComponentProps) => (
+  <figure className="border-l-4 border-primary-500 pl-6">
+    <blockquote className="text-xl italic text-gray-700">{values.text}</blockquote>
+    {values.attribution && <figcaption className="mt-2 text-sm text-gray-500">— {values.attribution}</figcaption>}
+  </figure>
+);
+
+const RichTextBlock = ({ values }: BlockComponentProps) => (
+  <div className="prose prose-lg max-w-none" dangerouslySetInnerHTML={{ __html: values.html || '' }} />
+);
+
+// Fragments referenced by the page data, keyed by id, as returned with the page
+const FragmentsContext = createContext<Record<string, PageFragment>>({});
+
+// Shared content such as a newsletter call to action, kept up to date wherever it is used
+function FragmentContent({ id }: { id: unknown }) {
+  const fragment = useContext(FragmentsContext)[String(id)];
+  // Deleted fragments are left out
+  if (!fragment) return null;
+  return (
+    <div
+      className="content-fragment prose prose-lg max-w-none"
+      data-fragment={fragment.key}
+      dangerouslySetInnerHTML={{ __html: fragment.content }}
+    />
+  );
+}
+
+const FragmentBlock = ({ values }: BlockComponentProps) => <FragmentContent id={values.fragment} />;
+
+const blockComponents: Record<string, (p: BlockComponentProps) => JSX.Element> = {
+  hero: HeroBlock,
+  columns: ColumnsBlock,
+  gallery: GalleryBlock,
+  cta: CtaBlock,
+  embed: EmbedBlock,
+  quote: QuoteBlock,
+  richText: RichTextBlock,
+  fragment: FragmentBlock,
+};
+
+function PageBlocks({ blocks }: { blocks: PageBlock[] }) {
+  return (
+    <div className="space-y-12">
+      {blocks.map((block) => {
+        // Blocks of types this site cannot render are skipped
+        const Component = blockComponents[block.type];
+        return Component ? (
+          <div key={block.id} data-block={block.type}>
+            <Component values={block.props || {}} />
+          </div>
+        ) : null;
+      })}
+    </div>
+  );
+}
+
+// Fields defined by the page template's schema, rendered in schema order
+type References = Record<string, { title: string; url: string }>;
+
+const isEmptyValue = (value: unknown) =>
+  value === undefined || value === null || value === '' || (Array.isArray(value) && value.length === 0);
+
+function TemplateFieldValue({ schema, label, value, references }: {
+  schema: JsonSchema;
+  label: string;
+  value: unknown;
+  references: References;
+}) {
+  const { localize } = useRouteLocale();
+
+  if (isEmptyValue(value)) {
+    return null;
+  }
+
+  if (schema.format === 'html') {
+    return <div className="prose prose-lg max-w-none" dangerouslySetInnerHTML={{ __html: String(value) }} />;
+  }
+  if (schema.format === 'image') {
+    return <img src={String(value)} alt={label} className="w-full h-auto rounded-lg shadow-md" />;
+  }
+  if (schema.format === 'blocks') {
+    return <PageBlocks blocks={value as PageBlock[]} />;
+  }
+  if (schema.format === 'fragment-reference') {
+    return <FragmentContent id={value} />;
+  }
+  if (schema.format === 'page-reference' || schema.format === 'post-reference') {
+    // Unpublished or deleted content is not resolved and not linked
+    const reference = references[`${schema.format === 'page-reference' ? 'page' : 'post'}:${value}`];
+    return reference ? (
+      <Link to={localize(reference.url)} className="text-primary-600 hover:underline">{reference.title}</Link>
+    ) : null;
+  }
+
+  switch (fieldType(schema)) {
+    case 'array':
+      return (
+        <ul className="space-y-4">
+          {(value as unknown[]).map((item, index) => (
+            <li key={index}>
+              <TemplateFieldValue schema={schema.items || {}} label={label} value={item} references={references} />
+            </li>
+          ))}
+        </ul>
+      );
+    case 'object':
+      return <TemplateFields schema={schema} data={value} references={references} />;
+    case 'boolean':
+      return null;
+    default:
+      return <p className="text-gray-700">{String(value)}</p>;
+  }
+}
+
+function TemplateFields({ schema, data, references }: { schema: JsonSchema; data: unknown; references: References }) {
+  const values = data && typeof data === 'object' ? (data as Record<string, unknown>) : {};
+  return (
+    <div className="space-y-6">
+      {Object.entries(schema.properties || {})
+        .filter(([key]) => !isEmptyValue(values[key]))
+        .map(([key, field]) => (
+          <section key={key} data-field={key}>
+            {/* Blocks make up the page themselves rather than a labelled field */}
+            {field.format !== 'blocks' && (
+              <h2 className="text-xl font-semibold text-gray-900 mb-2">{fieldLabel(key, field)}</h2>
+            )}
+            <TemplateFieldValue schema={field} label={fieldLabel(key, field)} value={values[key]} references={references} />
+          </section>
+        ))}
+    </div>
+  );
+}
+
 export default function PageView() {
-  const { slug } = useParams<{ slug: string }>();
+  // Full page path below /page/, e.g. about/team
+  const path = useParams()['*']?.replace(/\/+$/, '');
   const navigate = useNavigate();
+  const { locale, localize } = useRouteLocale();
 
   const { data: page, isLoading, error } = useQuery({
-    queryKey: ['page', slug],
-    queryFn: () => pagesService.getPageBySlug(slug!),
-    enabled: !!slug
+    queryKey: ['page', path, locale],
+    queryFn: () => pagesService.getPageBySlug(path!, locale),
+    enabled: !!path
   });
 
-  // Update page title and meta tags
-  useEffect(() => {
-    if (page) {
-      document.title = `${page.title} | My Site`;
-      
-      // Update meta description
-      const metaDescription = document.querySelector('meta[name="description"]');
-      if (metaDescription) {
-        metaDescription.setAttribute('content', page.excerpt || page.title);
-      }
-    }
-  }, [page]);
-
-  if (isLoading) {
+  useHreflang({
+    translations: page?.translations,
+    defaultLocale: page?.default_locale,
+    basePath: '/page',
+    locale: page?.locale
+  });
+
+  useDocumentHead(page ? {
+    title: page.meta_title || page.title,
+    description: page.meta_description || page.excerpt || page.title,
+    image: page.featured_image
+  } : null);
+
+  // Content that moved since the link was made
+  const redirecting = useRedirect(!isLoading && (!!error || !page));
+
+  if (isLoading || redirecting) {
     return (
       <div className="min-h-screen bg-gray-50 flex items-center justify-center">
         <LoadingSpinner size="lg" />
@@ -74,7 +318,7 @@ export default function PageView() {
           <p className="text-gray-600 mb-6">
             The page you're looking for doesn't exist or has been moved.
           </p>
-          <Button onClick={() => navigate('/')}>
+          <Button onClick={() => navigate(localize('/'))}>
             <ArrowLeft className="mr-2 h-4 w-4" />
             Back to Home
           </Button>
@@ -90,7 +334,7 @@ export default function PageView() {
         <div className="max-w-4xl mx-auto px-4 sm:px-6 lg:px-8 py-4">
           <Button
             variant="ghost"
-            onClick={() => navigate('/')}
+            onClick={() => navigate(localize('/'))}
             className="text-gray-600 hover:text-gray-900"
           >
             <ArrowLeft className="mr-2 h-4 w-4" />
@@ -104,6 +348,32 @@ export default function PageView() {
         <div className="max-w-4xl mx-auto px-4 sm:px-6 lg:px-8">
           {/* Header */}
           <header className="mb-8">
+            {page.ancestors && page.ancestors.length > 0 && (
+              <nav aria-label="Breadcrumb" className="mb-4">
+                <ol className="flex flex-wrap items-center text-sm text-gray-500">
+                  <li>
+                    <Link to={localize('/')} className="hover:text-primary-600">Home</Link>
+                  </li>
+                  {page.ancestors.map((ancestor) => (
+                    <li key={ancestor.id} className="flex items-center">
+                      <ChevronRight className="h-4 w-4 mx-1" />
+                      {/* Unpublished parents only group their subpages */}
+                      {ancestor.published ? (
+                        <Link to={localize(`/page/${ancestor.path}`)} className="hover:text-primary-600">
+                          {ancestor.title}
+                        </Link>
+                      ) : (
+                        <span>{ancestor.title}</span>
+                      )}
+                    </li>
+                  ))}
+                  <li className="flex items-center">
+                    <ChevronRight className="h-4 w-4 mx-1" />
+                    <span aria-current="page" className="text-gray-900">{page.title}</span>
+                  </li>
+                </ol>
+              </nav>
+            )}
             <h1 className="text-3xl md:text-4xl lg:text-5xl font-bold text-gray-900 mb-4">
               {page.title}
             </h1>
@@ -151,6 +421,14 @@ export default function PageView() {
               return <Component content={page.content} data={(page as any).data} />;
             })()}
           </div>
+
+          {hasSchemaFields(page.template_schema) && (
+            <div className="mt-12">
+              <FragmentsContext.Provider value={page.fragments || {}}>
+                <TemplateFields schema={page.template_schema} data={page.data} references={page.references || {}} />
+              </FragmentsContext.Provider>
+            </div>
+          )}
         </div>
       </article>
 
@@ -6,32 +6,37 @@ import { formatDate, generateReadingTime, getImageUrl } from '../lib/utils';
 import { Post as PostType } from '../types';
 import LoadingSpinner from '../components/ui/LoadingSpinner';
 import Button from '../components/ui/Button';
-import { useEffect } from 'react';
+import { useRouteLocale } from '../hooks/useRouteLocale';
+import { useHreflang } from '../hooks/useHreflang';
+import { useDocumentHead } from '../hooks/useDocumentHead';
+import { useRedirect } from '../hooks/useRedirect';
 
 export default function PostPage() {
   const { slug } = useParams<{ slug: string }>();
   const navigate = useNavigate();
+  const { locale, localize } = useRouteLocale();
 
   const { data: post, isLoading, error } = useQuery({
-    queryKey: ['post', slug],
-    queryFn: () => postsService.getPostBySlug(slug!),
+    queryKey: ['post', slug, locale],
+    queryFn: () => postsService.getPostBySlug(slug!, locale),
     enabled: !!slug
   });
 
+  useHreflang({
+    translations: post?.translations,
+    defaultLocale: post?.default_locale,
+    basePath: '/blog',
+    locale: post?.locale
+  });
+
   const relatedPosts: PostType[] = ((post as any)?.relatedPosts as PostType[]) || [];
 
-  // Update page title and meta tags
-  useEffect(() => {
-    if (post) {
-      document.title = `${post.title} | Blog`;
-      
-      // Update meta description
-      const metaDescription = document.querySelector('meta[name="description"]');
-      if (metaDescription) {
-        metaDescription.setAttribute('content', post.excerpt || post.title);
-      }
-    }
-  }, [post]);
+  useDocumentHead(post ? {
+    title: post.meta_title || post.title,
+    description: post.meta_description || post.excerpt || post.title,
+    image: post.featured_image,
+    type: 'article'
+  } : null);
 
   const handleShare = async (platform: string) => {
     const url = window.location.href;
@@ -58,7 +63,10 @@ export default function PostPage() {
     }
   };
 
-  if (isLoading) {
+  // Content that moved since the link was made
+  const redirecting = useRedirect(!isLoading && (!!error || !post));
+
+  if (isLoading || redirecting) {
     return (
       <div className="min-h-screen bg-gray-50 flex items-center justify-center">
         <LoadingSpinner size="lg" />
@@ -74,7 +82,7 @@ export default function PostPage() {
           <p className="text-gray-600 mb-6">
             The post you're looking for doesn't exist or has been moved.
           </p>
-          <Button onClick={() => navigate('/blog')}>
+          <Button onClick={() => navigate(localize('/blog'))}>
             <ArrowLeft className="mr-2 h-4 w-4" />
             Back to Blog
           </Button>
@@ -90,7 +98,7 @@ export default function PostPage() {
         <div className="max-w-4xl mx-auto px-4 sm:px-6 lg:px-8 py-4">
           <Button
             variant="ghost"
-            onClick={() => navigate('/blog')}
+            onClick={() => navigate(localize('/blog'))}
             className="text-gray-600 hover:text-gray-900"
           >
             <ArrowLeft className="mr-2 h-4 w-4" />
@@ -115,7 +123,7 @@ export default function PostPage() {
                   <>
                     <span className="mx-2">•</span>
                     <Link
-                      to={`/category/${post.category_slug}`}
+                      to={`/category/${post.category_path}`}
                       className="hover:text-primary-600 transition-colors"
                     >
                       {post.category_name}
@@ -208,12 +216,13 @@ export default function PostPage() {
                 <Tag className="h-4 w-4 text-gray-500" />
                 <span className="text-sm text-gray-600 mr-2">Tags:</span>
                 {post.tags.map((tag, index) => (
-                  <span
+                  <Link
                     key={index}
-                    className="inline-flex items-center px-2.5 py-0.5 rounded-full text-xs font-medium bg-primary-100 text-primary-800"
+                    to={`/tag/${tag.slug}`}
+                    className="inline-flex items-center px-2.5 py-0.5 rounded-full text-xs font-medium bg-primary-100 text-primary-800 hover:bg-primary-200"
                   >
                     {tag.name}
-                  </span>
+                  </Link>
                 ))}
               </div>
             </div>
@@ -244,7 +253,7 @@ export default function PostPage() {
                       {formatDate(relatedPost.created_at, 'MMM d, yyyy')}
                     </div>
                     <h3 className="text-lg font-semibold text-gray-900 mb-2 group-hover:text-primary-600 transition-colors">
-                      <Link to={`/blog/${relatedPost.slug}`}>
+                      <Link to={localize(`/blog/${relatedPost.slug}`)}>
                         {relatedPost.title}
                       </Link>
                     </h3>
@@ -254,7 +263,7 @@ export default function PostPage() {
                       </p>
                     )}
                     <Link
-                      to={`/blog/${relatedPost.slug}`}
+                      to={localize(`/blog/${relatedPost.slug}`)}
                       className="text-primary-600 hover:text-primary-700 font-medium text-sm"
                     >
                       Read More
@@ -0,0 +1,142 @@
+import { useState, useEffect, FormEvent } from 'react';
+import { useQuery } from '@tanstack/react-query';
+import { useParams } from 'react-router-dom';
+import { Eye, Lock, Clock } from 'lucide-react';
+import { previewsService } from '../services/previews';
+import { formatDate } from '../lib/utils';
+import LoadingSpinner from '../components/ui/LoadingSpinner';
+import Button from '../components/ui/Button';
+import Input from '../components/ui/Input';
+
+export default function PreviewPage() {
+  const { token } = useParams<{ token: string }>();
+  const [passwordInput, setPasswordInput] = useState('');
+  const [password, setPassword] = useState<string | undefined>();
+
+  const { data: result, isLoading, isFetching } = useQuery({
+    queryKey: ['preview', token, password],
+    queryFn: () => previewsService.getPreview(token!, password),
+    enabled: !!token,
+    retry: false,
+    gcTime: 0,
+  });
+
+  const preview = result?.data;
+
+  // Keep drafts out of search engines even if the link leaks
+  useEffect(() => {
+    const robots = document.createElement('meta');
+    robots.name = 'robots';
+    robots.content = 'noindex, nofollow';
+    document.head.appendChild(robots);
+    return () => {
+      document.head.removeChild(robots);
+    };
+  }, []);
+
+  useEffect(() => {
+    if (preview) {
+      document.title = `[Preview] ${preview.title}`;
+    }
+  }, [preview]);
+
+  const handlePasswordSubmit = (e: FormEvent) => {
+    e.preventDefault();
+    if (passwordInput) {
+      setPassword(passwordInput);
+    }
+  };
+
+  if (isLoading) {
+    return (
+      <div className="min-h-screen bg-gray-50 flex items-center justify-center">
+        <LoadingSpinner size="lg" />
+      </div>
+    );
+  }
+
+  if (result?.requiresPassword) {
+    return (
+      <div className="min-h-screen bg-gray-50 flex items-center justify-center px-4">
+        <form onSubmit={handlePasswordSubmit} className="card w-full max-w-sm">
+          <div className="card-body space-y-4">
+            <div className="flex items-center text-gray-900">
+              <Lock className="h-5 w-5 mr-2" />
+              <h1 className="text-lg font-semibold">This preview is password protected</h1>
+            </div>
+            <Input
+              type="password"
+              name="preview-password"
+              label="Password"
+              value={passwordInput}
+              onChange={(e) => setPasswordInput(e.target.value)}
+              error={password ? result.error : undefined}
+              autoFocus
+            />
+            <Button type="submit" className="w-full" loading={isFetching}>
+              View preview
+            </Button>
+          </div>
+        </form>
+      </div>
+    );
+  }
+
+  if (!preview) {
+    const expired = result?.status === 410;
+    return (
+      <div className="min-h-screen bg-gray-50 flex items-center justify-center">
+        <div className="text-center">
+          <h1 className="text-2xl font-bold text-gray-900 mb-4">
+            {expired ? 'Preview Link Expired' : 'Preview Not Available'}
+          </h1>
+          <p className="text-gray-600">
+            {expired
+              ? 'This preview link is no longer valid. Ask the author for a new one.'
+              : "This preview link doesn't exist or has been revoked."}
+          </p>
+        </div>
+      </div>
+    );
+  }
+
+  return (
+    <div className="min-h-screen bg-gray-50">
+      {/* Preview banner */}
+      <div className="bg-yellow-100 border-b border-yellow-300">
+        <div className="max-w-4xl mx-auto px-4 sm:px-6 lg:px-8 py-3 flex items-center justify-between text-sm text-yellow-900">
+          <div className="flex items-center font-medium">
+            <Eye className="h-4 w-4 mr-2" />
+            Preview of an unpublished {preview.content_type} (version {preview.version_number})
+          </div>
+          <div className="flex items-center">
+            <Clock className="h-4 w-4 mr-1" />
+            Link expires {formatDate(preview.preview.expires_at, 'MMM d, yyyy h:mm a')}
+          </div>
+        </div>
+      </div>
+
+      <article className="py-12">
+        <div className="max-w-4xl mx-auto px-4 sm:px-6 lg:px-8">
+          <header className="mb-8">
+            <h1 className="text-3xl md:text-4xl lg:text-5xl font-bold text-gray-900 mb-4">
+              {preview.title}
+            </h1>
+            {preview.excerpt && (
+              <p className="text-xl text-gray-600 leading-relaxed">
+                {preview.excerpt}
+              </p>
+            )}
+          </header>
+
+          <div className="prose prose-lg max-w-none">
+            <div
+              dangerouslySetInnerHTML={{ __html: preview.content || '' }}
+              className="prose-headings:text-gray-900 prose-p:text-gray-700 prose-a:text-primary-600 prose-a:no-underline hover:prose-a:underline prose-strong:text-gray-900 prose-code:text-primary-600 prose-code:bg-gray-100 prose-code:px-1 prose-code:py-0.5 prose-code:rounded prose-pre:bg-gray-900 prose-pre:text-gray-100 prose-blockquote:border-l-4 prose-blockquote:border-primary-500 prose-blockquote:text-gray-700 prose-img:rounded-lg prose-img:shadow-md"
+            />
+          </div>
+        </div>
+      </article>
+    </div>
+  );
+}
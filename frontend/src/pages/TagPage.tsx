@@ -0,0 +1,195 @@
+import { useQuery } from '@tanstack/react-query';
+import { useParams, Link, useSearchParams } from 'react-router-dom';
+import { Calendar, User, Clock, ArrowRight, ChevronLeft, ChevronRight, Tag as TagIcon } from 'lucide-react';
+import { postsService } from '../services/posts';
+import { tagsService } from '../services/tags';
+import { formatDate, generateReadingTime, truncateText } from '../lib/utils';
+import LoadingSpinner from '../components/ui/LoadingSpinner';
+import Button from '../components/ui/Button';
+import { useFeedLinks } from '../hooks/useFeedLinks';
+import { useDocumentHead } from '../hooks/useDocumentHead';
+
+export default function TagPage() {
+  const { slug } = useParams<{ slug: string }>();
+  const [searchParams, setSearchParams] = useSearchParams();
+
+  const currentPage = parseInt(searchParams.get('page') || '1');
+  const limit = 12;
+
+  // Fetch tag details
+  const { data: tag, isLoading: tagLoading } = useQuery({
+    queryKey: ['tag', slug],
+    queryFn: () => tagsService.getTagBySlug(slug!),
+    enabled: !!slug
+  });
+
+  useFeedLinks({ scopePath: `/tag/${slug}`, title: tag?.name });
+  useDocumentHead(tag ? { title: `Posts tagged ${tag.name}` } : null);
+
+  // Fetch posts with the tag
+  const { data: postsData, isLoading: postsLoading } = useQuery({
+    queryKey: ['tag-posts', slug, currentPage],
+    queryFn: () => postsService.getPosts({ page: currentPage, limit, tag: slug }),
+    enabled: !!tag,
+    placeholderData: (previousData) => previousData
+  });
+
+  const handlePageChange = (page: number) => {
+    const newParams = new URLSearchParams(searchParams);
+    newParams.set('page', page.toString());
+    setSearchParams(newParams);
+    window.scrollTo({ top: 0, behavior: 'smooth' });
+  };
+
+  const totalPages = Math.ceil((postsData?.total || 0) / limit);
+
+  if (tagLoading) {
+    return (
+      <div className="min-h-screen bg-gray-50 flex items-center justify-center">
+        <LoadingSpinner size="lg" />
+      </div>
+    );
+  }
+
+  if (!tag) {
+    return (
+      <div className="min-h-screen bg-gray-50 flex items-center justify-center">
+        <div className="text-center">
+          <h1 className="text-2xl font-bold text-gray-900 mb-4">Tag Not Found</h1>
+          <p className="text-gray-600 mb-6">
+            The tag you're looking for doesn't exist or has been removed.
+          </p>
+          <Button as={Link} to="/blog">
+            Back to Blog
+          </Button>
+        </div>
+      </div>
+    );
+  }
+
+  return (
+    <div className="min-h-screen bg-gray-50">
+      {/* Header */}
+      <section className="bg-white border-b">
+        <div className="max-w-7xl mx-auto px-4 sm:px-6 lg:px-8 py-12">
+          <div className="text-center">
+            <div className="flex items-center justify-center mb-4">
+              <TagIcon className="h-8 w-8 text-primary-600 mr-2" />
+              <h1 className="text-4xl md:text-5xl font-bold text-gray-900">
+                {tag.name}
+              </h1>
+            </div>
+            <p className="text-gray-600">
+              {postsLoading
+                ? 'Loading...'
+                : `${postsData?.total || 0} article${(postsData?.total || 0) !== 1 ? 's' : ''} tagged ${tag.name}`}
+            </p>
+            <div className="mt-4">
+              <Link
+                to="/blog"
+                className="text-primary-600 hover:text-primary-700 font-medium"
+              >
+                ← Back to all posts
+              </Link>
+            </div>
+          </div>
+        </div>
+      </section>
+
+      {/* Results */}
+      <section className="py-12">
+        <div className="max-w-7xl mx-auto px-4 sm:px-6 lg:px-8">
+          {postsLoading ? (
+            <div className="flex justify-center py-12">
+              <LoadingSpinner size="lg" />
+            </div>
+          ) : postsData?.posts?.length === 0 ? (
+            <div className="text-center py-12">
+              <h3 className="text-lg font-medium text-gray-900 mb-2">
+                No articles with this tag
+              </h3>
+              <p className="text-gray-600">
+                Articles will appear here when they are published with this tag
+              </p>
+            </div>
+          ) : (
+            <div className="grid grid-cols-1 md:grid-cols-2 lg:grid-cols-3 gap-8">
+              {postsData?.posts?.map((post) => (
+                <article key={post.id} className="card group hover:shadow-lg transition-shadow">
+                  {post.featured_image && (
+                    <div className="aspect-video bg-gray-200 rounded-t-lg overflow-hidden">
+                      <img
+                        src={post.featured_image}
+                        alt={post.title}
+                        className="w-full h-full object-cover group-hover:scale-105 transition-transform duration-300"
+                      />
+                    </div>
+                  )}
+                  <div className="card-body">
+                    <div className="flex items-center text-sm text-gray-500 mb-2">
+                      <Calendar className="h-4 w-4 mr-1" />
+                      {formatDate(post.created_at, 'MMM d, yyyy')}
+                      <span className="mx-2">•</span>
+                      <Clock className="h-4 w-4 mr-1" />
+                      {generateReadingTime(post.content || '')} min read
+                    </div>
+                    <h3 className="text-xl font-semibold text-gray-900 mb-2 group-hover:text-primary-600 transition-colors">
+                      <Link to={`/blog/${post.slug}`}>
+                        {post.title}
+                      </Link>
+                    </h3>
+                    {post.excerpt && (
+                      <p className="text-gray-600 mb-4">
+                        {truncateText(post.excerpt, 120)}
+                      </p>
+                    )}
+                    <div className="flex items-center justify-between">
+                      <div className="flex items-center text-sm text-gray-500">
+                        <User className="h-4 w-4 mr-1" />
+                        {post.first_name} {post.last_name}
+                      </div>
+                      <Link
+                        to={`/blog/${post.slug}`}
+                        className="text-primary-600 hover:text-primary-700 font-medium text-sm inline-flex items-center"
+                      >
+                        Read More
+                        <ArrowRight className="ml-1 h-4 w-4" />
+                      </Link>
+                    </div>
+                  </div>
+                </article>
+              ))}
+            </div>
+          )}
+
+          {/* Pagination */}
+          {totalPages > 1 && (
+            <div className="mt-12 flex justify-center">
+              <nav className="flex items-center space-x-2">
+                <Button
+                  variant="outline"
+                  onClick={() => handlePageChange(currentPage - 1)}
+                  disabled={currentPage === 1}
+                  className="p-2"
+                >
+                  <ChevronLeft className="h-4 w-4" />
+                </Button>
+                <span className="px-4 text-sm text-gray-600">
+                  Page {currentPage} of {totalPages}
+                </span>
+                <Button
+                  variant="outline"
+                  onClick={() => handlePageChange(currentPage + 1)}
+                  disabled={currentPage === totalPages}
+                  className="p-2"
+                >
+                  <ChevronRight className="h-4 w-4" />
+                </Button>
+              </nav>
+            </div>
+          )}
+        </div>
+      </section>
+    </div>
+  );
+}
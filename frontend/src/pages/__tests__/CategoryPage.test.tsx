@@ -0,0 +1,58 @@
+import { describe, it, vi, expect, beforeEach } from 'vitest';
+import { MemoryRouter, Route, Routes } from 'react-router-dom';
+import { render, screen } from '@testing-library/react';
+import { QueryClient, QueryClientProvider } from '@tanstack/react-query';
+import CategoryPage from '../CategoryPage';
+import { categoriesService } from '@/services/categories';
+import { postsService } from '@/services/posts';
+
+vi.mock('@/services/categories', () => ({
+  categoriesService: {
+    getCategoryBySlug: vi.fn().mockResolvedValue({
+      id: 7,
+      name: 'JavaScript',
+      slug: 'javascript',
+      path: 'tech/javascript',
+      parent_id: 3,
+      seo_indexed: true,
+      ancestors: [{ id: 3, name: 'Tech', slug: 'tech', path: 'tech' }],
+      children: [{ id: 9, name: 'React', slug: 'react', path: 'tech/javascript/react' }],
+    })
+  }
+}));
+
+vi.mock('@/services/posts', () => ({
+  postsService: { getPosts: vi.fn().mockResolvedValue({ posts: [], total: 0 }) }
+}));
+
+function renderAt(path: string) {
+  return render(
+    <QueryClientProvider client={new QueryClient()}>
+      <MemoryRouter initialEntries={[path]}>
+        <Routes>
+          <Route path="/category/*" element={<CategoryPage />} />
+        </Routes>
+      </MemoryRouter>
+    </QueryClientProvider>
+  );
+}
+
+describe('CategoryPage', () => {
+  beforeEach(() => vi.clearAllMocks());
+
+  it('loads nested categories and their posts by full path', async () => {
+    renderAt('/category/tech/javascript');
+
+    expect(await screen.findByRole('heading', { name: 'JavaScript' })).toBeInTheDocument();
+    expect(categoriesService.getCategoryBySlug).toHaveBeenCalledWith('tech/javascript');
+    expect(postsService.getPosts).toHaveBeenCalledWith(expect.objectContaining({ category: 'tech/javascript' }));
+  });
+
+  it('links breadcrumbs to parent categories and lists subcategories', async () => {
+    renderAt('/category/tech/javascript');
+
+    const breadcrumb = await screen.findByRole('navigation', { name: 'Breadcrumb' });
+    expect(breadcrumb.querySelector('a[href="/category/tech"]')).toHaveTextContent('Tech');
+    expect(screen.getByRole('link', { name: 'React' })).toHaveAttribute('href', '/category/tech/javascript/react');
+  });
+});
@@ -8,12 +8,42 @@ vi.mock('@/services/pages', () => ({
   pagesService: {
     getPageBySlug: vi.fn().mockImplementation(async (slug: string) => {
       if (slug === 'about') return { title: 'About', slug: 'about', content: '<p>About content</p>', template: 'about', updated_at: new Date().toISOString(), seo_indexed: true, published: true };
+      if (slug === 'about/team/engineering') return { title: 'Engineering', slug: 'engineering', path: 'about/team/engineering', content: '<p>Engineers</p>', template: 'default', updated_at: new Date().toISOString(), seo_indexed: true, published: true, ancestors: [
+        { id: 1, title: 'About', slug: 'about', path: 'about', published: true },
+        { id: 2, title: 'Team', slug: 'team', path: 'about/team', published: false },
+      ] };
+      if (slug === 'team') return { title: 'Team', slug: 'team', path: 'team', content: '', template: 'team', updated_at: new Date().toISOString(), seo_indexed: true, published: true,
+        template_schema: { type: 'object', properties: {
+          intro: { type: 'string', format: 'html' },
+          members: { type: 'array', items: { type: 'object', properties: { name: { type: 'string' } } } },
+          contact: { type: 'integer', format: 'page-reference' },
+        } },
+        data: { intro: '<p>Meet us</p>', members: [{ name: 'Ada' }, { name: 'Grace' }], contact: 2 },
+        references: { 'page:2': { title: 'Contact us', url: '/page/contact' } } };
+      if (slug === 'launch') return { title: 'Launch', slug: 'launch', path: 'launch', content: '', template: 'landing', updated_at: new Date().toISOString(), seo_indexed: true, published: true,
+        template_schema: { type: 'object', properties: {
+          blocks: { type: 'array', format: 'blocks', blockTypes: { hero: {}, quote: {}, embed: {}, richText: {}, fragment: {} } },
+        } },
+        data: { blocks: [
+          { id: 'a', type: 'hero', props: { heading: 'Ship faster', button_label: 'Get started', button_url: '/page/pricing' } },
+          { id: 'b', type: 'quote', props: { text: 'It just works', attribution: 'Ada' } },
+          { id: 'c', type: 'embed', props: { url: 'https://www.youtube.com/watch?v=dQw4w9WgXcQ', caption: 'Demo' } },
+          { id: 'd', type: 'countdown', props: {} },
+          { id: 'e', type: 'fragment', props: { fragment: 7 } },
+          { id: 'f', type: 'fragment', props: { fragment: 8 } },
+        ] },
+        references: {},
+        fragments: { '7': { key: 'newsletter', name: 'Newsletter', content: '<p>Join our newsletter</p>' } } };
       if (slug === 'data') return { title: 'Data', slug: 'data', content: '<p>Content</p>', template: 'default', data: { blocks: [{ type: 'richText', props: { html: '<p>X</p>' } }] }, updated_at: new Date().toISOString(), seo_indexed: true, published: true };
       return null as any;
     })
   }
 }));
 
+vi.mock('@/services/settings', () => ({
+  settingsService: { getSettings: vi.fn().mockResolvedValue({ site_title: 'My Site' }) }
+}));
+
 function Wrapper({ children }: { children: React.ReactNode }) {
   return <QueryClientProvider client={new QueryClient()}>{children}</QueryClientProvider>;
 }
@@ -25,7 +55,7 @@ describe('PageView templates', () => {
     render(
       <MemoryRouter initialEntries={["/page/about"]}>
         <Routes>
-          <Route path="/page/:slug" element={<Wrapper><PageView/></Wrapper>} />
+          <Route path="/page/*" element={<Wrapper><PageView/></Wrapper>} />
         </Routes>
       </MemoryRouter>
     );
@@ -37,11 +67,61 @@ describe('PageView templates', () => {
     render(
       <MemoryRouter initialEntries={["/page/data"]}>
         <Routes>
-          <Route path="/page/:slug" element={<Wrapper><PageView/></Wrapper>} />
+          <Route path="/page/*" element={<Wrapper><PageView/></Wrapper>} />
         </Routes>
       </MemoryRouter>
     );
     expect(await screen.findByRole('heading', { name: 'Data' })).toBeInTheDocument();
     expect(screen.getByText(/content/i)).toBeInTheDocument();
   });
+
+  it('resolves nested pages by their full path with breadcrumbs', async () => {
+    render(
+      <MemoryRouter initialEntries={["/page/about/team/engineering"]}>
+        <Routes>
+          <Route path="/page/*" element={<Wrapper><PageView/></Wrapper>} />
+        </Routes>
+      </MemoryRouter>
+    );
+    expect(await screen.findByRole('heading', { name: 'Engineering' })).toBeInTheDocument();
+    const breadcrumb = screen.getByRole('navigation', { name: 'Breadcrumb' });
+    expect(breadcrumb.querySelector('a[href="/page/about"]')).toHaveTextContent('About');
+    // Unpublished parents are shown but not linked
+    expect(breadcrumb.querySelector('a[href="/page/about/team"]')).toBeNull();
+    expect(breadcrumb).toHaveTextContent('Team');
+  });
+
+  it('renders template fields from the schema', async () => {
+    render(
+      <MemoryRouter initialEntries={["/page/team"]}>
+        <Routes>
+          <Route path="/page/*" element={<Wrapper><PageView/></Wrapper>} />
+        </Routes>
+      </MemoryRouter>
+    );
+    expect(await screen.findByText('Meet us')).toBeInTheDocument();
+    expect(screen.getByText('Ada')).toBeInTheDocument();
+    expect(screen.getByText('Grace')).toBeInTheDocument();
+    expect(screen.getByRole('link', { name: 'Contact us' })).toHaveAttribute('href', '/page/contact');
+  });
+
+  it('renders blocks through the block registry', async () => {
+    render(
+      <MemoryRouter initialEntries={["/page/launch"]}>
+        <Routes>
+          <Route path="/page/*" element={<Wrapper><PageView/></Wrapper>} />
+        </Routes>
+      </MemoryRouter>
+    );
+    expect(await screen.findByRole('heading', { name: 'Ship faster' })).toBeInTheDocument();
+    expect(screen.getByRole('link', { name: 'Get started' })).toHaveAttribute('href', '/page/pricing');
+    expect(screen.getByText('It just works')).toBeInTheDocument();
+    expect(screen.getByTitle('Demo')).toHaveAttribute('src', 'https://www.youtube-nocookie.com/embed/dQw4w9WgXcQ');
+    // Blocks are the page itself, not a labelled field, and unknown types are skipped
+    expect(screen.queryByRole('heading', { name: 'Blocks' })).toBeNull();
+    expect(document.querySelector('[data-block="countdown"]')).toBeNull();
+    // Fragment blocks show the fragment as served with the page; deleted ones are left out
+    expect(screen.getByText('Join our newsletter').closest('[data-fragment]')).toHaveAttribute('data-fragment', 'newsletter');
+    expect(document.querySelectorAll('[data-fragment]')).toHaveLength(1);
+  });
 });
@@ -0,0 +1,64 @@
+import { describe, it, vi, expect, beforeEach } from 'vitest';
+import { MemoryRouter, Route, Routes } from 'react-router-dom';
+import { render, screen, fireEvent } from '@testing-library/react';
+import PreviewPage from '../PreviewPage';
+import { QueryClient, QueryClientProvider } from '@tanstack/react-query';
+import { previewsService } from '@/services/previews';
+
+const expiresAt = new Date(Date.now() + 60 * 60 * 1000).toISOString();
+
+vi.mock('@/services/previews', () => ({
+  previewsService: {
+    getPreview: vi.fn().mockImplementation(async (token: string, password?: string) => {
+      if (token === 'open' || (token === 'locked' && password === 'letmein')) {
+        return {
+          status: 200,
+          data: {
+            content_type: 'post', content_id: 1, version_number: 3, version_type: 'draft',
+            title: 'Unreleased feature', content: '<p>Draft body</p>', created_at: expiresAt,
+            preview: { token_type: 'preview', expires_at: expiresAt },
+          },
+        };
+      }
+      if (token === 'locked') return { status: 401, error: 'Password required', requiresPassword: true };
+      if (token === 'old') return { status: 410, error: 'Token expired' };
+      return { status: 404, error: 'Invalid token' };
+    })
+  }
+}));
+
+function renderAt(token: string) {
+  render(
+    <MemoryRouter initialEntries={[`/preview/${token}`]}>
+      <Routes>
+        <Route path="/preview/:token" element={<QueryClientProvider client={new QueryClient()}><PreviewPage /></QueryClientProvider>} />
+      </Routes>
+    </MemoryRouter>
+  );
+}
+
+describe('PreviewPage', () => {
+  beforeEach(() => vi.clearAllMocks());
+
+  it('renders draft content with a preview banner', async () => {
+    renderAt('open');
+    expect(await screen.findByRole('heading', { name: 'Unreleased feature' })).toBeInTheDocument();
+    expect(screen.getByText(/preview of an unpublished post/i)).toBeInTheDocument();
+    expect(screen.getByText(/draft body/i)).toBeInTheDocument();
+  });
+
+  it('asks for a password and retries with it', async () => {
+    renderAt('locked');
+    const input = await screen.findByLabelText(/password/i);
+    fireEvent.change(input, { target: { value: 'letmein' } });
+    fireEvent.click(screen.getByRole('button', { name: /view preview/i }));
+
+    expect(await screen.findByRole('heading', { name: 'Unreleased feature' })).toBeInTheDocument();
+    expect(previewsService.getPreview).toHaveBeenLastCalledWith('locked', 'letmein');
+  });
+
+  it('explains when a link has expired', async () => {
+    renderAt('old');
+    expect(await screen.findByText(/preview link expired/i)).toBeInTheDocument();
+  });
+});
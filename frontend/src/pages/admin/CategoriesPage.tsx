@@ -14,6 +14,7 @@ import Input from '../../components/ui/Input';
 import Textarea from '../../components/ui/Textarea';
 import LoadingSpinner from '../../components/ui/LoadingSpinner';
 import { categoriesService } from '../../services/categories';
+import { sortCategoryTree } from '../../lib/utils';
 import { Category, CreateCategoryData, UpdateCategoryData } from '../../types';
 
 export default function CategoriesPage() {
@@ -26,7 +27,8 @@ export default function CategoriesPage() {
     name: '',
     slug: '',
     description: '',
-    seo_indexed: true
+    seo_indexed: true,
+    parent_id: null
   });
 
   const fetchCategories = async () => {
@@ -46,11 +48,20 @@ export default function CategoriesPage() {
     fetchCategories();
   }, []);
 
-  const filteredCategories = categories.filter(category =>
+  const categoryTree = sortCategoryTree(categories);
+
+  const filteredCategories = categoryTree.filter(category =>
     category.name.toLowerCase().includes(searchQuery.toLowerCase()) ||
     category.description?.toLowerCase().includes(searchQuery.toLowerCase())
   );
 
+  // A category cannot be moved below itself or one of its subcategories
+  const parentOptions = editingCategory
+    ? categoryTree.filter(category =>
+        category.path !== editingCategory.path && !category.path.startsWith(`${editingCategory.path}/`)
+      )
+    : categoryTree;
+
   const handleSubmit = async (e: React.FormEvent) => {
     e.preventDefault();
     
@@ -65,11 +76,11 @@ export default function CategoriesPage() {
       
       setShowModal(false);
       setEditingCategory(null);
-      setFormData({ name: '', slug: '', description: '', seo_indexed: true });
+      setFormData({ name: '', slug: '', description: '', seo_indexed: true, parent_id: null });
       fetchCategories();
-    } catch (error) {
+    } catch (error: any) {
       console.error('Error saving category:', error);
-      toast.error('Failed to save category');
+      toast.error(error.response?.data?.error || 'Failed to save category');
     }
   };
 
@@ -79,16 +90,19 @@ export default function CategoriesPage() {
       name: category.name,
       slug: category.slug,
       description: category.description || '',
-      seo_indexed: category.seo_indexed
+      seo_indexed: category.seo_indexed,
+      parent_id: category.parent_id
     });
     setShowModal(true);
   };
 
-  const handleDelete = async (id: number) => {
-    if (!confirm('Are you sure you want to delete this category?')) return;
+  const handleDelete = async (category: Category) => {
+    const parent = categories.find(c => c.id === category.parent_id);
+    const moveTo = parent ? `moved to ${parent.name}` : 'left uncategorized';
+    if (!confirm(`Are you sure you want to delete this category? Its posts will be ${moveTo} and its subcategories moved up a level.`)) return;
 
     try {
-      await categoriesService.deleteCategory(id);
+      await categoriesService.deleteCategory(category.id);
       toast.success('Category deleted successfully');
       fetchCategories();
     } catch (error) {
@@ -157,6 +171,11 @@ export default function CategoriesPage() {
       <div className="grid gap-6 md:grid-cols-2 lg:grid-cols-3">
         {filteredCategories.map((category) => (
           <div key={category.id} className="bg-white rounded-lg shadow-sm border p-6">
+            {category.depth > 0 && (
+              <p className="mb-2 text-xs text-gray-400 truncate">
+                {category.path.split('/').slice(0, -1).join(' / ')}
+              </p>
+            )}
             <div className="flex items-start justify-between">
               <div className="flex items-center">
                 <div className="flex-shrink-0">
@@ -166,7 +185,7 @@ export default function CategoriesPage() {
                   <h3 className="text-lg font-medium text-gray-900">
                     {category.name}
                   </h3>
-                  <p className="text-sm text-gray-500">/{category.slug}</p>
+                  <p className="text-sm text-gray-500">/category/{category.path}</p>
                 </div>
               </div>
               <div className="flex items-center gap-1">
@@ -180,7 +199,7 @@ export default function CategoriesPage() {
                 <Button
                   variant="ghost"
                   size="sm"
-                  onClick={() => handleDelete(category.id)}
+                  onClick={() => handleDelete(category)}
                   className="text-red-600 hover:text-red-700"
                 >
                   <Trash2 className="h-4 w-4" />
@@ -261,10 +280,31 @@ export default function CategoriesPage() {
                   value={formData.slug}
                   onChange={(e) => setFormData(prev => ({ ...prev, slug: e.target.value }))}
                   placeholder="category-slug"
+                  pattern="[^/]+"
+                  title="Slugs cannot contain /"
                   required
                 />
               </div>
 
+              <div>
+                <label htmlFor="category-parent" className="block text-sm font-medium text-gray-700 mb-1">
+                  Parent Category
+                </label>
+                <select
+                  id="category-parent"
+                  value={formData.parent_id ?? ''}
+                  onChange={(e) => setFormData(prev => ({ ...prev, parent_id: e.target.value ? parseInt(e.target.value) : null }))}
+                  className="block w-full px-3 py-2 border border-gray-300 rounded-md shadow-sm focus:outline-none focus:ring-indigo-500 focus:border-indigo-500"
+                >
+                  <option value="">None (top level)</option>
+                  {parentOptions.map(category => (
+                    <option key={category.id} value={category.id}>
+                      {'\u00A0\u00A0'.repeat(category.depth)}{category.name}
+                    </option>
+                  ))}
+                </select>
+              </div>
+
               <div>
                 <label className="block text-sm font-medium text-gray-700 mb-1">
                   Description
@@ -300,7 +340,7 @@ export default function CategoriesPage() {
                   onClick={() => {
                     setShowModal(false);
                     setEditingCategory(null);
-                    setFormData({ name: '', slug: '', description: '', seo_indexed: true });
+                    setFormData({ name: '', slug: '', description: '', seo_indexed: true, parent_id: null });
                   }}
                   className="flex-1"
                 >
@@ -0,0 +1,253 @@
+import { useEffect, useState } from 'react';
+import { Link, useNavigate, useParams } from 'react-router-dom';
+import { useQuery, useMutation, useQueryClient } from '@tanstack/react-query';
+import { toast } from 'react-hot-toast';
+import { Copy, ExternalLink, RotateCcw } from 'lucide-react';
+import Button from '../../components/ui/Button';
+import Input from '../../components/ui/Input';
+import Textarea from '../../components/ui/Textarea';
+import RichTextEditor from '../../components/ui/RichTextEditor';
+import LoadingSpinner from '../../components/ui/LoadingSpinner';
+import { formatDate, slugify } from '../../lib/utils';
+import { fragmentsService, fragmentToken, FragmentData } from '../../services/fragments';
+
+const emptyForm: FragmentData = {
+  key: '',
+  name: '',
+  description: null,
+  content: '',
+};
+
+/**
+ * Create or edit a fragment, with the posts and pages using it and its
+ * version history
+ */
+export default function FragmentEditPage() {
+  const { id } = useParams();
+  const fragmentId = id ? Number(id) : null;
+  const navigate = useNavigate();
+  const queryClient = useQueryClient();
+  const [formData, setFormData] = useState<FragmentData>(emptyForm);
+  // New fragments take their key from the name until it is edited
+  const [keyEdited, setKeyEdited] = useState(false);
+
+  const { data: fragment, isLoading } = useQuery({
+    queryKey: ['fragments', fragmentId],
+    queryFn: () => fragmentsService.get(fragmentId!),
+    enabled: fragmentId !== null,
+  });
+
+  const { data: usages } = useQuery({
+    queryKey: ['fragments', fragmentId, 'usages'],
+    queryFn: () => fragmentsService.usages(fragmentId!),
+    enabled: fragmentId !== null,
+  });
+
+  const { data: versions } = useQuery({
+    queryKey: ['fragments', fragmentId, 'versions'],
+    queryFn: () => fragmentsService.versions(fragmentId!),
+    enabled: fragmentId !== null,
+  });
+
+  useEffect(() => {
+    if (fragment) {
+      setFormData({
+        key: fragment.key,
+        name: fragment.name,
+        description: fragment.description,
+        content: fragment.content,
+      });
+    }
+  }, [fragment]);
+
+  const saveMutation = useMutation({
+    mutationFn: (data: FragmentData) =>
+      fragmentId !== null ? fragmentsService.update(fragmentId, data) : fragmentsService.create(data),
+    onSuccess: (saved) => {
+      queryClient.invalidateQueries({ queryKey: ['fragments'] });
+      if (fragmentId === null) {
+        toast.success('Fragment created successfully');
+        navigate(`/admin/fragments/${saved.id}/edit`);
+      } else {
+        toast.success(usages?.length ? `Fragment updated in ${usages.length} places` : 'Fragment updated successfully');
+      }
+    },
+    onError: (error: any) => {
+      toast.error(error.response?.data?.error || 'Failed to save fragment');
+    },
+  });
+
+  const restoreMutation = useMutation({
+    mutationFn: (versionId: number) => fragmentsService.restoreVersion(fragmentId!, versionId),
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: ['fragments'] });
+      toast.success('Version restored');
+    },
+    onError: (error: any) => {
+      toast.error(error.response?.data?.error || 'Failed to restore version');
+    },
+  });
+
+  const handleSubmit = (e: React.FormEvent) => {
+    e.preventDefault();
+    saveMutation.mutate(formData);
+  };
+
+  const copyToken = async () => {
+    try {
+      await navigator.clipboard.writeText(fragmentToken(formData.key));
+      toast.success('Token copied');
+    } catch (err) {
+      console.error('Failed to copy token:', err);
+    }
+  };
+
+  // Tokens in content stop working when the key changes, so it stays fixed while they exist
+  const keyLocked = (usages || []).some((usage) => usage.via === 'content');
+
+  if (fragmentId !== null && isLoading) {
+    return <div className="min-h-[40vh] flex items-center justify-center"><LoadingSpinner /></div>;
+  }
+
+  return (
+    <div className="space-y-6">
+      <div className="flex items-center justify-between">
+        <h1 className="text-2xl font-bold text-gray-900">{fragmentId !== null ? 'Edit Fragment' : 'New Fragment'}</h1>
+        <Button as={Link} to="/admin/fragments" variant="secondary">Back to Fragments</Button>
+      </div>
+
+      <div className="grid grid-cols-1 lg:grid-cols-3 gap-6">
+        <form onSubmit={handleSubmit} className="lg:col-span-2 bg-white p-6 rounded-lg border space-y-6">
+          <Input
+            id="fragment-name"
+            label="Name"
+            value={formData.name}
+            onChange={(e) =>
+              setFormData({
+                ...formData,
+                name: e.target.value,
+                key: fragmentId === null && !keyEdited ? slugify(e.target.value) : formData.key,
+              })
+            }
+            placeholder="Newsletter call to action"
+            required
+          />
+          <Input
+            id="fragment-key"
+            label="Key"
+            value={formData.key}
+            onChange={(e) => {
+              setKeyEdited(true);
+              setFormData({ ...formData, key: e.target.value });
+            }}
+            pattern="[a-z0-9]+(-[a-z0-9]+)*"
+            title="Lowercase letters, numbers and hyphens"
+            disabled={keyLocked}
+            helperText={keyLocked ? 'The key cannot change while posts or pages embed this fragment with its token.' : undefined}
+            required
+          />
+          <Textarea
+            id="fragment-description"
+            label="Description"
+            value={formData.description || ''}
+            onChange={(e) => setFormData({ ...formData, description: e.target.value || null })}
+            rows={2}
+          />
+          <div>
+            <label className="block text-sm font-medium text-gray-700 mb-1">Content</label>
+            <RichTextEditor value={formData.content} onChange={(content) => setFormData({ ...formData, content })} />
+          </div>
+          <div className="flex justify-end">
+            <Button type="submit" disabled={saveMutation.isPending}>
+              {saveMutation.isPending ? 'Saving...' : fragmentId !== null ? 'Save Fragment' : 'Create Fragment'}
+            </Button>
+          </div>
+        </form>
+
+        <div className="space-y-6">
+          <div className="bg-white p-6 rounded-lg border space-y-3">
+            <h2 className="text-lg font-medium text-gray-900">Embed</h2>
+            <p className="text-sm text-gray-600">
+              Paste this token on a line of its own in a post or page, or add a Fragment block to a landing page.
+            </p>
+            <div className="flex items-center gap-2">
+              <code className="text-sm bg-gray-100 px-2 py-1 rounded break-all">{fragmentToken(formData.key || 'key')}</code>
+              <Button type="button" variant="ghost" size="sm" aria-label="Copy token" onClick={copyToken} disabled={!formData.key}>
+                <Copy className="h-4 w-4" />
+              </Button>
+            </div>
+          </div>
+
+          {fragmentId !== null && (
+            <div className="bg-white p-6 rounded-lg border space-y-3">
+              <h2 className="text-lg font-medium text-gray-900">Where used</h2>
+              {!usages?.length ? (
+                <p className="text-sm text-gray-500">No posts or pages use this fragment yet.</p>
+              ) : (
+                <ul className="divide-y divide-gray-200" aria-label="Where used">
+                  {usages.map((usage) => (
+                    <li key={`${usage.content_type}-${usage.content_id}`} className="py-2 flex items-start justify-between gap-2">
+                      <div>
+                        <Link
+                          to={`/admin/${usage.content_type}s/${usage.content_id}/edit`}
+                          className="text-sm font-medium text-primary-600 hover:underline"
+                        >
+                          {usage.title}
+                        </Link>
+                        <p className="text-xs text-gray-500">
+                          {usage.content_type === 'post' ? 'Post' : 'Page'}
+                          {usage.via === 'data' ? ', fragment block' : ''}
+                          {usage.published ? '' : ', not published'}
+                        </p>
+                      </div>
+                      {usage.published && (
+                        <a href={usage.url} target="_blank" rel="noreferrer" aria-label={`View ${usage.title}`} className="text-gray-400 hover:text-gray-600">
+                          <ExternalLink className="h-4 w-4" />
+                        </a>
+                      )}
+                    </li>
+                  ))}
+                </ul>
+              )}
+            </div>
+          )}
+
+          {fragmentId !== null && (
+            <div className="bg-white p-6 rounded-lg border space-y-3">
+              <h2 className="text-lg font-medium text-gray-900">Version history</h2>
+              {!versions?.length ? (
+                <p className="text-sm text-gray-500">No versions saved yet.</p>
+              ) : (
+                <ul className="divide-y divide-gray-200">
+                  {versions.map((version, index) => (
+                    <li key={version.id} className="py-2 flex items-center justify-between gap-2">
+                      <div>
+                        <p className="text-sm text-gray-900">Version {version.version_number}</p>
+                        <p className="text-xs text-gray-500">
+                          {formatDate(version.created_at as string, 'PPp')}
+                          {version.change_summary ? ` · ${version.change_summary}` : ''}
+                        </p>
+                      </div>
+                      {index > 0 && (
+                        <Button
+                          type="button"
+                          variant="ghost"
+                          size="sm"
+                          aria-label={`Restore version ${version.version_number}`}
+                          onClick={() => restoreMutation.mutate(version.id)}
+                          disabled={restoreMutation.isPending}
+                        >
+                          <RotateCcw className="h-4 w-4" />
+                        </Button>
+                      )}
+                    </li>
+                  ))}
+                </ul>
+              )}
+            </div>
+          )}
+        </div>
+      </div>
+    </div>
+  );
+}
@@ -0,0 +1,151 @@
+import { useState } from 'react';
+import { Link, useNavigate } from 'react-router-dom';
+import { useQuery, useMutation, useQueryClient } from '@tanstack/react-query';
+import { toast } from 'react-hot-toast';
+import { Copy, Edit3, Search, Trash2 } from 'lucide-react';
+import Button from '../../components/ui/Button';
+import DataTable from '../../components/ui/DataTable';
+import Input from '../../components/ui/Input';
+import { formatDate } from '../../lib/utils';
+import { fragmentsService, fragmentToken, ContentFragment } from '../../services/fragments';
+
+export default function FragmentsPage() {
+  const [searchQuery, setSearchQuery] = useState('');
+  const navigate = useNavigate();
+  const queryClient = useQueryClient();
+
+  const { data: fragments, isLoading } = useQuery({
+    queryKey: ['fragments'],
+    queryFn: fragmentsService.list,
+  });
+
+  const deleteMutation = useMutation({
+    mutationFn: fragmentsService.delete,
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: ['fragments'] });
+      toast.success('Fragment deleted successfully');
+    },
+    onError: (error: any) => {
+      toast.error(error.response?.data?.error || 'Failed to delete fragment');
+    },
+  });
+
+  const copyToken = async (fragment: ContentFragment) => {
+    try {
+      await navigator.clipboard.writeText(fragmentToken(fragment.key));
+      toast.success('Token copied');
+    } catch (err) {
+      console.error('Failed to copy token:', err);
+    }
+  };
+
+  const handleDelete = (fragment: ContentFragment) => {
+    if (window.confirm(`Delete the fragment "${fragment.name}"?`)) {
+      deleteMutation.mutate(fragment.id);
+    }
+  };
+
+  const filteredFragments = (fragments || []).filter((fragment) => {
+    const search = searchQuery.toLowerCase();
+    return fragment.name.toLowerCase().includes(search) || fragment.key.includes(search);
+  });
+
+  const columns = [
+    {
+      key: 'name',
+      label: 'Name',
+      render: (value: string, fragment: ContentFragment) => (
+        <div>
+          <Link to={`/admin/fragments/${fragment.id}/edit`} className="text-sm font-medium text-primary-600 hover:underline">
+            {value}
+          </Link>
+          {fragment.description && <p className="text-sm text-gray-500">{fragment.description}</p>}
+        </div>
+      ),
+    },
+    {
+      key: 'key',
+      label: 'Token',
+      render: (value: string, fragment: ContentFragment) => (
+        <div className="flex items-center gap-2">
+          <code className="text-sm bg-gray-100 px-2 py-1 rounded">{fragmentToken(value)}</code>
+          <Button variant="ghost" size="sm" aria-label={`Copy token of ${fragment.name}`} onClick={() => copyToken(fragment)}>
+            <Copy className="h-4 w-4" />
+          </Button>
+        </div>
+      ),
+    },
+    {
+      key: 'usage_count',
+      label: 'Used in',
+      render: (value: number) => (
+        <span className={`inline-flex items-center px-2 py-1 rounded text-xs font-medium ${
+          value > 0 ? 'bg-blue-100 text-blue-800' : 'bg-gray-100 text-gray-600'
+        }`}>
+          {value > 0 ? `${value} post${value === 1 ? '' : 's'} or pages` : 'Unused'}
+        </span>
+      ),
+    },
+    {
+      key: 'updated_at',
+      label: 'Updated',
+      render: (value: string) => <span className="text-sm text-gray-600">{formatDate(value, 'PPp')}</span>,
+    },
+  ];
+
+  const actions = [
+    {
+      label: 'Edit',
+      icon: <Edit3 />,
+      onClick: (fragment: ContentFragment) => navigate(`/admin/fragments/${fragment.id}/edit`),
+      variant: 'primary' as const,
+    },
+    {
+      label: 'Delete',
+      icon: <Trash2 />,
+      onClick: handleDelete,
+      variant: 'danger' as const,
+      // Fragments still embedded somewhere cannot be deleted
+      disabled: (fragment: ContentFragment) => (fragment.usage_count ?? 0) > 0,
+    },
+  ];
+
+  return (
+    <div className="space-y-6">
+      <div className="flex justify-between items-center">
+        <div>
+          <h1 className="text-2xl font-bold text-gray-900">Fragments</h1>
+          <p className="text-gray-600 mt-1">
+            Write a call to action, disclaimer or bio once and paste its token into any post or page. Editing the fragment updates every place it is used.
+          </p>
+        </div>
+        <Button as={Link} to="/admin/fragments/new">
+          New Fragment
+        </Button>
+      </div>
+
+      <div className="relative">
+        <Search className="absolute left-3 top-1/2 transform -translate-y-1/2 text-gray-400 h-4 w-4" />
+        <Input
+          type="text"
+          placeholder="Search fragments..."
+          value={searchQuery}
+          onChange={(e) => setSearchQuery(e.target.value)}
+          className="pl-10"
+        />
+      </div>
+
+      {isLoading ? (
+        <div className="flex justify-center py-8">
+          <div className="animate-spin rounded-full h-8 w-8 border-b-2 border-indigo-600"></div>
+        </div>
+      ) : (
+        <DataTable
+          data={filteredFragments}
+          columns={columns}
+          actions={actions}
+        />
+      )}
+    </div>
+  );
+}
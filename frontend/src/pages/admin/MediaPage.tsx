@@ -1,48 +1,190 @@
-import { useState, useEffect } from 'react';
-import { 
-  Search, 
-  Download, 
-  Trash2, 
+import React, { useEffect, useState } from 'react';
+import { useInfiniteQuery, useMutation, useQuery, useQueryClient } from '@tanstack/react-query';
+import InfiniteScroll from 'react-infinite-scroll-component';
+import {
+  Search,
+  Download,
+  Trash2,
   Upload,
   Image as ImageIcon,
   File,
-  Eye
+  Eye,
+  LayoutGrid,
+  List,
+  Copy
 } from 'lucide-react';
 import { toast } from 'react-hot-toast';
 import Button from '../../components/ui/Button';
 import Input from '../../components/ui/Input';
+import Modal from '../../components/ui/Modal';
+import Select from '../../components/ui/Select';
 import LoadingSpinner from '../../components/ui/LoadingSpinner';
+import MediaFolderTree, { MediaFolderSelection } from '../../components/admin/MediaFolderTree';
+import MediaDetailsModal from '../../components/admin/MediaDetailsModal';
+import MediaDuplicatesModal from '../../components/admin/MediaDuplicatesModal';
 import { mediaService } from '../../services/media';
-import { MediaFile } from '../../types';
+import { cn, formatFileSize, sortCategoryTree } from '../../lib/utils';
+import { MediaFile, MediaFolder, MediaQueryParams } from '../../types';
+
+const PAGE_SIZE = 40;
+
+const typeOptions = [
+  { value: 'image', label: 'Images' },
+  { value: 'video', label: 'Videos' },
+  { value: 'audio', label: 'Audio' },
+  { value: 'application', label: 'Documents' },
+];
+
+interface FolderFormState {
+  // Folder being renamed; a new folder is created when absent
+  folder?: MediaFolder;
+  parent: MediaFolder | null;
+  name: string;
+}
 
 export default function MediaPage() {
-  const [mediaFiles, setMediaFiles] = useState<MediaFile[]>([]);
-  const [loading, setLoading] = useState(true);
+  const [folder, setFolder] = useState<MediaFolderSelection>('all');
+  const [includeSubfolders, setIncludeSubfolders] = useState(false);
+  const [searchInput, setSearchInput] = useState('');
+  const [search, setSearch] = useState('');
+  const [tag, setTag] = useState('');
+  const [type, setType] = useState('');
+  const [view, setView] = useState<'grid' | 'list'>('grid');
+  const [selectedIds, setSelectedIds] = useState<number[]>([]);
+  const [moveTarget, setMoveTarget] = useState('');
+  const [bulkTags, setBulkTags] = useState('');
   const [uploading, setUploading] = useState(false);
-  const [searchQuery, setSearchQuery] = useState('');
+  const [editingFile, setEditingFile] = useState<MediaFile | null>(null);
+  const [folderForm, setFolderForm] = useState<FolderFormState | null>(null);
+  const [showDuplicates, setShowDuplicates] = useState(false);
 
+  const queryClient = useQueryClient();
 
-  const fetchMediaFiles = async () => {
-    try {
-      setLoading(true);
-      const response = await mediaService.getMediaFiles();
-      setMediaFiles(response.mediaFiles || []);
-    } catch (error) {
-      console.error('Error fetching media files:', error);
-      toast.error('Failed to fetch media files');
-    } finally {
-      setLoading(false);
-    }
+  // Search once the editor stops typing rather than on every keystroke
+  useEffect(() => {
+    const timeout = setTimeout(() => setSearch(searchInput.trim()), 300);
+    return () => clearTimeout(timeout);
+  }, [searchInput]);
+
+  const filters: MediaQueryParams = {
+    search: search || undefined,
+    folder_id: folder === 'all' ? undefined : folder,
+    include_subfolders: typeof folder === 'number' && includeSubfolders ? true : undefined,
+    tag: tag || undefined,
+    type: type || undefined,
   };
 
+  const {
+    data,
+    isLoading,
+    fetchNextPage,
+    hasNextPage,
+  } = useInfiniteQuery({
+    queryKey: ['admin-media', filters],
+    queryFn: ({ pageParam }) => mediaService.getMediaFiles({ ...filters, page: pageParam, limit: PAGE_SIZE }),
+    initialPageParam: 1,
+    getNextPageParam: (lastPage) => (lastPage.pagination?.hasNextPage ? lastPage.pagination.page + 1 : undefined),
+  });
+
+  const { data: folders = [] } = useQuery({
+    queryKey: ['admin-media-folders'],
+    queryFn: mediaService.getFolders,
+  });
+
+  const { data: tags = [] } = useQuery({
+    queryKey: ['admin-media-tags'],
+    queryFn: mediaService.getTags,
+  });
+
+  const mediaFiles = data?.pages.flatMap((page) => page.mediaFiles || []) || [];
+  const totalCount = data?.pages[0]?.pagination?.totalCount ?? mediaFiles.length;
+
+  // Drop selections that are no longer listed, e.g. after changing filters
   useEffect(() => {
-    fetchMediaFiles();
-  }, []);
+    setSelectedIds([]);
+  }, [folder, includeSubfolders, search, tag, type]);
 
-  const filteredFiles = mediaFiles.filter(file =>
-    file.original_name.toLowerCase().includes(searchQuery.toLowerCase()) ||
-    file.alt_text?.toLowerCase().includes(searchQuery.toLowerCase())
-  );
+  const refreshLibrary = () => {
+    queryClient.invalidateQueries({ queryKey: ['admin-media'] });
+    queryClient.invalidateQueries({ queryKey: ['admin-media-folders'] });
+    queryClient.invalidateQueries({ queryKey: ['admin-media-tags'] });
+  };
+
+  const onMutationError = (fallback: string) => (error: any) => {
+    toast.error(error.response?.data?.error || fallback);
+  };
+
+  const saveFolderMutation = useMutation({
+    mutationFn: ({ folder: current, parent, name }: FolderFormState) =>
+      current
+        ? mediaService.updateFolder(current.id, { name })
+        : mediaService.createFolder({ name, parent_id: parent?.id ?? null }),
+    onSuccess: (_, { folder: current }) => {
+      queryClient.invalidateQueries({ queryKey: ['admin-media-folders'] });
+      toast.success(current ? 'Folder renamed successfully' : 'Folder created successfully');
+      setFolderForm(null);
+    },
+    onError: onMutationError('Failed to save folder'),
+  });
+
+  const deleteFolderMutation = useMutation({
+    mutationFn: (target: MediaFolder) => mediaService.deleteFolder(target.id),
+    onSuccess: (_, target) => {
+      if (folder === target.id) {
+        setFolder('all');
+      }
+      refreshLibrary();
+      toast.success('Folder deleted successfully');
+    },
+    onError: onMutationError('Failed to delete folder'),
+  });
+
+  const moveMutation = useMutation({
+    mutationFn: ({ ids, folderId }: { ids: number[]; folderId: number | null }) =>
+      mediaService.bulkMoveMediaFiles(ids, folderId),
+    onSuccess: ({ moved }) => {
+      refreshLibrary();
+      toast.success(`Moved ${moved} file${moved === 1 ? '' : 's'}`);
+      setSelectedIds([]);
+      setMoveTarget('');
+    },
+    onError: onMutationError('Failed to move files'),
+  });
+
+  const tagMutation = useMutation({
+    mutationFn: ({ ids, add, remove }: { ids: number[]; add?: string[]; remove?: string[] }) =>
+      mediaService.bulkTagMediaFiles(ids, { add, remove }),
+    onSuccess: (_, { add }) => {
+      refreshLibrary();
+      toast.success(add ? 'Tags added successfully' : 'Tags removed successfully');
+      setBulkTags('');
+    },
+    onError: onMutationError('Failed to update tags'),
+  });
+
+  const deleteMutation = useMutation({
+    mutationFn: ({ ids, force }: { ids: number[]; force?: boolean }) => mediaService.bulkDeleteMediaFiles(ids, force),
+    onSuccess: (_, { ids }) => {
+      refreshLibrary();
+      toast.success(ids.length === 1 ? 'File deleted successfully' : `Deleted ${ids.length} files`);
+      setSelectedIds((selected) => selected.filter((id) => !ids.includes(id)));
+    },
+    onError: (error: any, { ids, force }) => {
+      const inUse: { id: number; usage_count: number }[] | undefined = error.response?.data?.inUse;
+      // Files still used in content are only deleted once more confirmed
+      if (error.response?.status === 409 && inUse && !force) {
+        const places = inUse.reduce((total, file) => total + file.usage_count, 0);
+        const message = ids.length === 1
+          ? `This file is used in ${places} place${places === 1 ? '' : 's'}. Delete it anyway?`
+          : `${inUse.length} of the files ${inUse.length === 1 ? 'is' : 'are'} used in ${places} place${places === 1 ? '' : 's'}. Delete them anyway?`;
+        if (window.confirm(message)) {
+          deleteMutation.mutate({ ids, force: true });
+        }
+        return;
+      }
+      onMutationError('Failed to delete files')(error);
+    },
+  });
 
   const handleFileUpload = async (event: React.ChangeEvent<HTMLInputElement>) => {
     const files = event.target.files;
@@ -50,11 +192,21 @@ export default function MediaPage() {
 
     setUploading(true);
     try {
+      // New files go into the folder being viewed
+      const folderId = typeof folder === 'number' ? folder : null;
+      let duplicates = 0;
       for (const file of Array.from(files)) {
-        await mediaService.uploadFile(file);
+        const response = await mediaService.uploadFile(file, undefined, folderId);
+        if (response.duplicate) {
+          duplicates++;
+        }
       }
-      toast.success('Files uploaded successfully');
-      fetchMediaFiles();
+      if (duplicates === files.length) {
+        toast.success(duplicates === 1 ? 'This file is already in the library' : 'These files are already in the library');
+      } else {
+        toast.success(duplicates > 0 ? `Files uploaded, ${duplicates} already in the library` : 'Files uploaded successfully');
+      }
+      refreshLibrary();
     } catch (error) {
       console.error('Error uploading files:', error);
       toast.error('Failed to upload files');
@@ -65,25 +217,54 @@ export default function MediaPage() {
     }
   };
 
-  const handleDelete = async (id: number) => {
-    if (!confirm('Are you sure you want to delete this file?')) return;
+  const handleDelete = (ids: number[]) => {
+    const message = ids.length === 1
+      ? 'Are you sure you want to delete this file?'
+      : `Are you sure you want to delete ${ids.length} files?`;
+    if (window.confirm(message)) {
+      deleteMutation.mutate({ ids });
+    }
+  };
 
-    try {
-      await mediaService.deleteMediaFile(id);
-      toast.success('File deleted successfully');
-      fetchMediaFiles();
-    } catch (error) {
-      console.error('Error deleting file:', error);
-      toast.error('Failed to delete file');
+  const handleDeleteFolder = (target: MediaFolder) => {
+    if (window.confirm(`Delete the folder "${target.name}"? Its files and subfolders move up a level.`)) {
+      deleteFolderMutation.mutate(target);
+    }
+  };
+
+  const handleFolderSubmit = (e: React.FormEvent) => {
+    e.preventDefault();
+    if (folderForm && folderForm.name.trim()) {
+      saveFolderMutation.mutate({ ...folderForm, name: folderForm.name.trim() });
     }
   };
 
-  const formatFileSize = (bytes: number) => {
-    if (bytes === 0) return '0 Bytes';
-    const k = 1024;
-    const sizes = ['Bytes', 'KB', 'MB', 'GB'];
-    const i = Math.floor(Math.log(bytes) / Math.log(k));
-    return parseFloat((bytes / Math.pow(k, i)).toFixed(2)) + ' ' + sizes[i];
+  const handleMove = () => {
+    if (moveTarget) {
+      moveMutation.mutate({ ids: selectedIds, folderId: moveTarget === 'none' ? null : Number(moveTarget) });
+    }
+  };
+
+  const handleTag = (action: 'add' | 'remove') => {
+    const names = bulkTags.split(',').map((name) => name.trim()).filter(Boolean);
+    if (names.length > 0) {
+      tagMutation.mutate({ ids: selectedIds, [action]: names });
+    }
+  };
+
+  const toggleSelected = (id: number) => {
+    setSelectedIds((ids) => (ids.includes(id) ? ids.filter((selected) => selected !== id) : [...ids, id]));
+  };
+
+  const allSelected = mediaFiles.length > 0 && mediaFiles.every((file) => selectedIds.includes(file.id));
+
+  const toggleAll = () => {
+    setSelectedIds(allSelected ? [] : mediaFiles.map((file) => file.id));
+  };
+
+  const handleSaved = () => {
+    refreshLibrary();
+    setEditingFile(null);
   };
 
   const formatDate = (date: string) => {
@@ -98,20 +279,71 @@ export default function MediaPage() {
     return mimeType.startsWith('image/');
   };
 
-  const getFileIcon = (mimeType: string) => {
+  const getFileIcon = (mimeType: string, className = 'h-8 w-8') => {
     if (isImage(mimeType)) {
-      return <ImageIcon className="h-8 w-8 text-blue-500" />;
+      return <ImageIcon className={cn(className, 'text-blue-500')} />;
     }
-    return <File className="h-8 w-8 text-gray-500" />;
+    return <File className={cn(className, 'text-gray-500')} />;
   };
 
-  if (loading) {
-    return (
-      <div className="flex items-center justify-center min-h-screen">
-        <LoadingSpinner />
+  const folderOptions = [
+    { value: 'none', label: 'No folder' },
+    ...sortCategoryTree(folders).map((item) => ({
+      value: item.id,
+      label: `${'  '.repeat(item.depth)}${item.name}`,
+    })),
+  ];
+
+  const fileActions = (file: MediaFile) => (
+    <div className="flex items-center gap-1">
+      <Button
+        variant="ghost"
+        size="sm"
+        onClick={() => window.open(file.file_path, '_blank')}
+        aria-label={`View ${file.original_name}`}
+      >
+        <Eye className="h-4 w-4" />
+      </Button>
+      <a
+        href={file.file_path}
+        download={file.original_name}
+        aria-label={`Download ${file.original_name}`}
+        className="inline-flex items-center justify-center w-8 h-8 text-gray-400 hover:text-gray-600 hover:bg-gray-100 rounded transition-colors"
+      >
+        <Download className="h-4 w-4" />
+      </a>
+      <Button
+        variant="ghost"
+        size="sm"
+        onClick={() => handleDelete([file.id])}
+        className="text-red-600 hover:text-red-700"
+        aria-label={`Delete ${file.original_name}`}
+      >
+        <Trash2 className="h-4 w-4" />
+      </Button>
+    </div>
+  );
+
+  const selectBox = (file: MediaFile) => (
+    <input
+      type="checkbox"
+      aria-label={`Select ${file.original_name}`}
+      checked={selectedIds.includes(file.id)}
+      onChange={() => toggleSelected(file.id)}
+      className="rounded border-gray-300"
+    />
+  );
+
+  const tagList = (file: MediaFile) =>
+    file.tags && file.tags.length > 0 && (
+      <div className="flex flex-wrap gap-1">
+        {file.tags.map((fileTag) => (
+          <span key={fileTag.id} className="px-1.5 py-0.5 rounded bg-gray-100 text-xs text-gray-600">
+            {fileTag.name}
+          </span>
+        ))}
       </div>
     );
-  }
 
   return (
     <div className="space-y-6">
@@ -119,9 +351,13 @@ export default function MediaPage() {
       <div className="flex items-center justify-between">
         <div>
           <h1 className="text-2xl font-bold text-gray-900">Media Library</h1>
-          <p className="text-gray-600">Upload and manage your media files</p>
+          <p className="text-gray-600">Upload, organize and describe your media files</p>
         </div>
         <div className="flex gap-3">
+          <Button type="button" variant="secondary" onClick={() => setShowDuplicates(true)}>
+            <Copy className="mr-2 h-4 w-4" />
+            Find near-duplicates
+          </Button>
           <input
             type="file"
             id="file-upload"
@@ -140,103 +376,289 @@ export default function MediaPage() {
         </div>
       </div>
 
-      {/* Search */}
-      <div className="bg-white p-6 rounded-lg shadow-sm border">
-        <div className="relative">
-          <Search className="absolute left-3 top-1/2 transform -translate-y-1/2 text-gray-400 h-4 w-4" />
-          <Input
-            type="text"
-            placeholder="Search files..."
-            value={searchQuery}
-            onChange={(e) => setSearchQuery(e.target.value)}
-            className="pl-10"
+      <div className="flex flex-col lg:flex-row gap-6">
+        <aside className="lg:w-60 shrink-0 bg-white p-4 rounded-lg shadow-sm border self-start">
+          <MediaFolderTree
+            folders={folders}
+            selected={folder}
+            onSelect={setFolder}
+            onCreate={(parent) => setFolderForm({ parent, name: '' })}
+            onRename={(target) => setFolderForm({ folder: target, parent: null, name: target.name })}
+            onDelete={handleDeleteFolder}
           />
-        </div>
-      </div>
+        </aside>
 
-      {/* Media Grid */}
-      <div className="grid gap-6 sm:grid-cols-2 md:grid-cols-3 lg:grid-cols-4">
-        {filteredFiles.map((file) => (
-          <div key={file.id} className="bg-white rounded-lg shadow-sm border overflow-hidden">
-            <div className="aspect-square bg-gray-100 flex items-center justify-center">
-              {isImage(file.mime_type) ? (
-                <img
-                  src={file.file_path}
-                  alt={file.alt_text || file.original_name}
-                  className="w-full h-full object-cover"
+        <div className="flex-1 min-w-0 space-y-4">
+          {/* Filters */}
+          <div className="bg-white p-4 rounded-lg shadow-sm border flex flex-col md:flex-row gap-4 md:items-center">
+            <div className="relative flex-1">
+              <Search className="absolute left-3 top-1/2 transform -translate-y-1/2 text-gray-400 h-4 w-4" />
+              <Input
+                type="text"
+                placeholder="Search by name, alt text or caption..."
+                value={searchInput}
+                onChange={(e) => setSearchInput(e.target.value)}
+                className="pl-10"
+              />
+            </div>
+            <Select
+              aria-label="Filter by type"
+              value={type}
+              onChange={(e) => setType(e.target.value)}
+              placeholder="All types"
+              options={typeOptions}
+            />
+            <Select
+              aria-label="Filter by tag"
+              value={tag}
+              onChange={(e) => setTag(e.target.value)}
+              placeholder="All tags"
+              options={tags.map((item) => ({ value: item.slug, label: `${item.name} (${item.media_count ?? 0})` }))}
+            />
+            {typeof folder === 'number' && (
+              <label className="flex items-center gap-2 text-sm text-gray-700 whitespace-nowrap">
+                <input
+                  type="checkbox"
+                  checked={includeSubfolders}
+                  onChange={(e) => setIncludeSubfolders(e.target.checked)}
+                  className="rounded border-gray-300"
                 />
-              ) : (
-                getFileIcon(file.mime_type)
-              )}
+                Include subfolders
+              </label>
+            )}
+            <div className="flex rounded-md border overflow-hidden">
+              <button
+                type="button"
+                onClick={() => setView('grid')}
+                aria-label="Grid view"
+                aria-pressed={view === 'grid'}
+                className={cn('p-2', view === 'grid' ? 'bg-gray-100 text-gray-900' : 'text-gray-400 hover:text-gray-600')}
+              >
+                <LayoutGrid className="h-4 w-4" />
+              </button>
+              <button
+                type="button"
+                onClick={() => setView('list')}
+                aria-label="List view"
+                aria-pressed={view === 'list'}
+                className={cn('p-2', view === 'list' ? 'bg-gray-100 text-gray-900' : 'text-gray-400 hover:text-gray-600')}
+              >
+                <List className="h-4 w-4" />
+              </button>
             </div>
-            
-            <div className="p-4">
-              <h3 className="text-sm font-medium text-gray-900 truncate">
-                {file.original_name}
-              </h3>
-              <p className="text-xs text-gray-500 mt-1">
-                {formatFileSize(file.file_size)}
-              </p>
-              
-              {file.alt_text && (
-                <p className="text-xs text-gray-600 mt-2 line-clamp-2">
-                  {file.alt_text}
-                </p>
-              )}
+          </div>
 
-              <div className="flex items-center justify-between mt-4">
-                <span className="text-xs text-gray-500">
-                  {formatDate(file.created_at)}
-                </span>
-                
-                <div className="flex items-center gap-1">
-                  <Button
-                    variant="ghost"
-                    size="sm"
-                    onClick={() => window.open(file.file_path, '_blank')}
-                  >
-                    <Eye className="h-4 w-4" />
+          {/* Bulk actions */}
+          <div className="flex flex-wrap items-center gap-3 text-sm">
+            <label className="flex items-center gap-2 text-gray-700">
+              <input
+                type="checkbox"
+                aria-label="Select all"
+                checked={allSelected}
+                onChange={toggleAll}
+                className="rounded border-gray-300"
+              />
+              {selectedIds.length > 0 ? `${selectedIds.length} selected` : `${totalCount} files`}
+            </label>
+            {selectedIds.length > 0 && (
+              <>
+                <div className="flex items-center gap-2">
+                  <Select
+                    aria-label="Move to folder"
+                    value={moveTarget}
+                    onChange={(e) => setMoveTarget(e.target.value)}
+                    placeholder="Move to..."
+                    options={folderOptions}
+                  />
+                  <Button size="sm" onClick={handleMove} disabled={!moveTarget || moveMutation.isPending}>
+                    Move
+                  </Button>
+                </div>
+                <div className="flex items-center gap-2">
+                  <Input
+                    aria-label="Tags"
+                    placeholder="Tags, comma separated"
+                    value={bulkTags}
+                    onChange={(e) => setBulkTags(e.target.value)}
+                  />
+                  <Button size="sm" variant="secondary" onClick={() => handleTag('add')} disabled={!bulkTags.trim()}>
+                    Add tags
                   </Button>
-                  <a
-                    href={file.file_path}
-                    download={file.original_name}
-                    className="inline-flex items-center justify-center w-8 h-8 text-gray-400 hover:text-gray-600 hover:bg-gray-100 rounded transition-colors"
-                  >
-                    <Download className="h-4 w-4" />
-                  </a>
-                  <Button
-                    variant="ghost"
-                    size="sm"
-                    onClick={() => handleDelete(file.id)}
-                    className="text-red-600 hover:text-red-700"
-                  >
-                    <Trash2 className="h-4 w-4" />
+                  <Button size="sm" variant="secondary" onClick={() => handleTag('remove')} disabled={!bulkTags.trim()}>
+                    Remove tags
                   </Button>
                 </div>
-              </div>
-            </div>
+                <Button size="sm" variant="danger" onClick={() => handleDelete(selectedIds)}>
+                  <Trash2 className="mr-2 h-4 w-4" />
+                  Delete
+                </Button>
+              </>
+            )}
           </div>
-        ))}
-      </div>
 
-      {filteredFiles.length === 0 && (
-        <div className="text-center py-12">
-          <ImageIcon className="mx-auto h-12 w-12 text-gray-400" />
-          <h3 className="mt-2 text-sm font-medium text-gray-900">No files found</h3>
-          <p className="mt-1 text-sm text-gray-500">
-            Get started by uploading your first file.
-          </p>
-          <div className="mt-6">
-            <label
-              htmlFor="file-upload"
-              className="inline-flex items-center px-4 py-2 border border-transparent text-sm font-medium rounded-md shadow-sm text-white bg-blue-600 hover:bg-blue-700 focus:outline-none focus:ring-2 focus:ring-offset-2 focus:ring-blue-500 cursor-pointer"
+          {isLoading ? (
+            <div className="flex items-center justify-center py-12">
+              <LoadingSpinner />
+            </div>
+          ) : (
+            <InfiniteScroll
+              dataLength={mediaFiles.length}
+              next={fetchNextPage}
+              hasMore={!!hasNextPage}
+              loader={
+                <div className="flex justify-center py-6">
+                  <LoadingSpinner size="sm" />
+                </div>
+              }
+              style={{ overflow: 'visible' }}
             >
-              <Upload className="mr-2 h-4 w-4" />
-              Upload Files
-            </label>
-          </div>
+              {view === 'grid' ? (
+                <div className="grid gap-6 sm:grid-cols-2 md:grid-cols-3 xl:grid-cols-4">
+                  {mediaFiles.map((file) => (
+                    <div key={file.id} className="bg-white rounded-lg shadow-sm border overflow-hidden">
+                      <div className="relative aspect-square bg-gray-100">
+                        <div className="absolute top-2 left-2 z-10">{selectBox(file)}</div>
+                        <button
+                          type="button"
+                          onClick={() => setEditingFile(file)}
+                          className="w-full h-full flex items-center justify-center"
+                          aria-label={`Edit details of ${file.original_name}`}
+                        >
+                          {isImage(file.mime_type) ? (
+                            <img
+                              src={file.file_path}
+                              alt={file.alt_text || file.original_name}
+                              loading="lazy"
+                              className="w-full h-full object-cover"
+                            />
+                          ) : (
+                            getFileIcon(file.mime_type)
+                          )}
+                        </button>
+                      </div>
+
+                      <div className="p-4 space-y-2">
+                        <h3 className="text-sm font-medium text-gray-900 truncate">
+                          {file.original_name}
+                        </h3>
+                        <p className="text-xs text-gray-500">
+                          {formatFileSize(file.file_size)}
+                        </p>
+                        {file.caption && (
+                          <p className="text-xs text-gray-600 line-clamp-2">{file.caption}</p>
+                        )}
+                        {tagList(file)}
+
+                        <div className="flex items-center justify-between pt-2">
+                          <span className="text-xs text-gray-500">
+                            {formatDate(file.created_at)}
+                          </span>
+                          {fileActions(file)}
+                        </div>
+                      </div>
+                    </div>
+                  ))}
+                </div>
+              ) : (
+                <div className="bg-white rounded-lg shadow-sm border overflow-x-auto">
+                  <table className="min-w-full divide-y divide-gray-200 text-sm">
+                    <thead className="bg-gray-50 text-left text-xs font-medium uppercase tracking-wider text-gray-500">
+                      <tr>
+                        <th className="px-4 py-3 w-8"><span className="sr-only">Select</span></th>
+                        <th className="px-4 py-3">File</th>
+                        <th className="px-4 py-3">Tags</th>
+                        <th className="px-4 py-3">Size</th>
+                        <th className="px-4 py-3">Uploaded</th>
+                        <th className="px-4 py-3"><span className="sr-only">Actions</span></th>
+                      </tr>
+                    </thead>
+                    <tbody className="divide-y divide-gray-200">
+                      {mediaFiles.map((file) => (
+                        <tr key={file.id}>
+                          <td className="px-4 py-2">{selectBox(file)}</td>
+                          <td className="px-4 py-2">
+                            <button
+                              type="button"
+                              onClick={() => setEditingFile(file)}
+                              className="flex items-center gap-3 text-left"
+                            >
+                              <span className="w-10 h-10 shrink-0 bg-gray-100 rounded overflow-hidden flex items-center justify-center">
+                                {isImage(file.mime_type) ? (
+                                  <img src={file.file_path} alt="" loading="lazy" className="w-full h-full object-cover" />
+                                ) : (
+                                  getFileIcon(file.mime_type, 'h-5 w-5')
+                                )}
+                              </span>
+                              <span className="min-w-0">
+                                <span className="block font-medium text-gray-900 truncate">{file.original_name}</span>
+                                {(file.caption || file.alt_text) && (
+                                  <span className="block text-xs text-gray-500 truncate">{file.caption || file.alt_text}</span>
+                                )}
+                              </span>
+                            </button>
+                          </td>
+                          <td className="px-4 py-2">{tagList(file)}</td>
+                          <td className="px-4 py-2 text-gray-500 whitespace-nowrap">{formatFileSize(file.file_size)}</td>
+                          <td className="px-4 py-2 text-gray-500 whitespace-nowrap">{formatDate(file.created_at)}</td>
+                          <td className="px-4 py-2">{fileActions(file)}</td>
+                        </tr>
+                      ))}
+                    </tbody>
+                  </table>
+                </div>
+              )}
+            </InfiniteScroll>
+          )}
+
+          {!isLoading && mediaFiles.length === 0 && (
+            <div className="text-center py-12">
+              <ImageIcon className="mx-auto h-12 w-12 text-gray-400" />
+              <h3 className="mt-2 text-sm font-medium text-gray-900">No files found</h3>
+              <p className="mt-1 text-sm text-gray-500">
+                {search || tag || type ? 'Try a different search or filter.' : 'Upload files to add them here.'}
+              </p>
+            </div>
+          )}
         </div>
+      </div>
+
+      {editingFile && (
+        <MediaDetailsModal
+          file={editingFile}
+          folders={folders}
+          onClose={() => setEditingFile(null)}
+          onSaved={handleSaved}
+        />
+      )}
+
+      {showDuplicates && (
+        <MediaDuplicatesModal onClose={() => setShowDuplicates(false)} onMerged={refreshLibrary} />
+      )}
+
+      {folderForm && (
+        <Modal title={folderForm.folder ? 'Rename folder' : 'New folder'} onClose={() => setFolderForm(null)}>
+          <form onSubmit={handleFolderSubmit} className="space-y-4">
+            <Input
+              label="Name"
+              name="folder_name"
+              value={folderForm.name}
+              onChange={(e) => setFolderForm({ ...folderForm, name: e.target.value })}
+              maxLength={100}
+              required
+              autoFocus
+              helperText={folderForm.parent ? `Inside ${folderForm.parent.name}` : undefined}
+            />
+            <div className="flex justify-end gap-3">
+              <Button type="button" variant="secondary" onClick={() => setFolderForm(null)}>
+                Cancel
+              </Button>
+              <Button type="submit" loading={saveFolderMutation.isPending}>
+                {folderForm.folder ? 'Rename' : 'Create'}
+              </Button>
+            </div>
+          </form>
+        </Modal>
       )}
     </div>
   );
-} 
\ No newline at end of file
+}
@@ -6,6 +6,8 @@ import {
   MembersTable,
   InviteMemberForm,
   TransferOwnershipModal,
+  ApiKeysPanel,
+  WorkflowSettingsPanel,
 } from '../../components/organization';
 import LoadingSpinner from '../../components/ui/LoadingSpinner';
 import { organizationService } from '../../services/organization';
@@ -137,6 +139,12 @@ export default function OrganizationSettingsPage() {
       {/* Invite Members */}
       <InviteMemberForm organizationId={organization.id} canInvite={canManageMembers} />
 
+      {/* Editorial Workflow */}
+      <WorkflowSettingsPanel organizationId={organization.id} canManage={canManageMembers} />
+
+      {/* API Keys */}
+      <ApiKeysPanel organizationId={organization.id} canManage={canManageMembers} />
+
       {/* Transfer Ownership Modal */}
       {transferModalData && (
         <TransferOwnershipModal
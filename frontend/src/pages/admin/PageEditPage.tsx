@@ -1,4 +1,4 @@
-import { useEffect, useState } from 'react';
+import { useEffect, useRef, useState } from 'react';
 import { useNavigate, useParams, Link } from 'react-router-dom';
 import { toast } from 'react-hot-toast';
 import Button from '../../components/ui/Button';
@@ -7,11 +7,25 @@ import Textarea from '../../components/ui/Textarea';
 import Select from '../../components/ui/Select';
 import LoadingSpinner from '../../components/ui/LoadingSpinner';
 import RichTextEditor from '../../components/ui/RichTextEditor';
+import PreviewLinksPanel from '../../components/admin/PreviewLinksPanel';
+import PageParentSelect from '../../components/admin/PageParentSelect';
+import SchemaForm from '../../components/admin/SchemaForm';
+import { dataFieldErrors, fitDataToSchema, hasSchemaFields } from '../../lib/templateSchema';
+import TranslationStatusPanel from '../../components/admin/TranslationStatusPanel';
+import ReviewPanel from '../../components/admin/ReviewPanel';
+import VersionCommentsSidebar from '../../components/admin/VersionCommentsSidebar';
+import CollaborationBar from '../../components/admin/CollaborationBar';
+import EditLockBanner from '../../components/admin/EditLockBanner';
+import EditConflictDialog from '../../components/admin/EditConflictDialog';
 import { SaveStatusIndicator } from '../../components/ui/SaveStatusIndicator';
 import { useAutoSave } from '../../hooks/useAutoSave';
+import { useCollaboration } from '../../hooks/useCollaboration';
+import { useEditLock } from '../../hooks/useEditLock';
 import { pagesService } from '../../services/pages';
 import { templatesService, type Template } from '../../services/templates';
+import { getEditConflict } from '../../services/editLocks';
 import { UpdatePageData, Page } from '../../types';
+import type { ContentVersion, EditConflict } from '../../types/versioning';
 
 export default function PageEditPage() {
   const navigate = useNavigate();
@@ -20,23 +34,38 @@ export default function PageEditPage() {
   const [isLoading, setIsLoading] = useState(true);
   const [isSaving, setIsSaving] = useState(false);
   const [errors, setErrors] = useState<Record<string, string>>({});
+  const contentRef = useRef<HTMLDivElement>(null);
   const [templates, setTemplates] = useState<Template[]>([]);
   const [dataText, setDataText] = useState<string>('');
+  const [dataErrors, setDataErrors] = useState<Record<string, string>>({});
+  const [loadedVersionNumber, setLoadedVersionNumber] = useState<number | null | undefined>(undefined);
+  const [saveConflict, setSaveConflict] = useState<EditConflict | null>(null);
 
   const [formData, setFormData] = useState<UpdatePageData>({});
 
+  // Templates with a schema get generated fields instead of raw JSON
+  const selectedTemplate = templates.find((t) => t.key === formData.template);
+  const schema = hasSchemaFields(selectedTemplate?.schema) ? selectedTemplate!.schema! : null;
+  // Where the page sits in the page tree; saved with the page but not part of its versions
+  const [placement, setPlacement] = useState<Pick<Page, 'id' | 'path'> | undefined>(undefined);
+  const [parentId, setParentId] = useState<number | null>(null);
+
   // Auto-save hook
   const {
     status: autoSaveStatus,
     lastSaved,
     hasUnsavedChanges,
-    manualSave
+    manualSave,
+    conflict: autoSaveConflict,
+    getBaseVersionNumber,
+    rebase
   } = useAutoSave({
     contentType: 'page',
     contentId: Number(id) || 0,
+    baseVersionNumber: loadedVersionNumber,
     content: {
       ...formData,
-      data: dataText && dataText.trim() ? (() => {
+      data: !schema && dataText && dataText.trim() ? (() => {
         try { return JSON.parse(dataText); } catch { return formData.data; }
       })() : formData.data
     },
@@ -49,6 +78,41 @@ export default function PageEditPage() {
     }
   });
 
+  // Presence and live saves from other editors of this page
+  const collaboration = useCollaboration({
+    contentType: 'page',
+    contentId: Number(id) || 0,
+    enabled: !!id && !isLoading
+  });
+
+  // Soft lock so others see who is editing
+  const editLock = useEditLock({
+    contentType: 'page',
+    contentId: Number(id) || 0,
+    enabled: !!id && !isLoading
+  });
+
+  const conflict = saveConflict ?? autoSaveConflict;
+
+  // Continue from a version someone else saved, either with their content or ours on top
+  const applyVersion = (version: ContentVersion) => {
+    setFormData(prev => ({
+      ...prev,
+      title: version.title,
+      slug: version.slug,
+      content: version.content,
+      data: version.data,
+    }));
+    setDataText(JSON.stringify(version.data || {}, null, 2));
+    rebase(version.version_number);
+    setSaveConflict(null);
+  };
+
+  const keepMine = (version: ContentVersion) => {
+    rebase(version.version_number);
+    setSaveConflict(null);
+  };
+
   // Keyboard shortcut for manual save (Ctrl+S / Cmd+S)
   useEffect(() => {
     const handleKeyDown = (e: KeyboardEvent) => {
@@ -84,7 +148,10 @@ export default function PageEditPage() {
           published: page.published,
           data: page.data,
         });
+        setPlacement({ id: page.id, path: page.path });
+        setParentId(page.parent_id ?? null);
         setDataText(JSON.stringify(page.data || {}, null, 2));
+        setLoadedVersionNumber(page.latest_version_number ?? null);
       } catch (e: any) {
         toast.error(e?.response?.data?.error || 'Failed to load page');
       } finally {
@@ -100,7 +167,14 @@ export default function PageEditPage() {
       ...prev,
       [name]: type === 'checkbox' ? checked : value,
     }));
+    // Keep the values that fit the new template and fill in its defaults
+    const selected = name === 'template' ? templates.find(t => t.key === value) : undefined;
+    if (selected && hasSchemaFields(selected.schema)) {
+      setFormData(prev => ({ ...prev, data: fitDataToSchema(selected.schema!, selected.default_data, prev.data) }));
+      setDataErrors({});
+    }
     if (errors[name]) setErrors(prev => ({ ...prev, [name]: '' }));
+    collaboration.notifyTyping(name);
   };
 
   const onSubmit = async (e: React.FormEvent) => {
@@ -108,7 +182,7 @@ export default function PageEditPage() {
     setIsSaving(true);
     try {
       let dataObj: any = formData.data;
-      if (dataText && dataText.trim()) {
+      if (!schema && dataText && dataText.trim()) {
         try { dataObj = JSON.parse(dataText); } catch { toast.error('Invalid JSON in Data'); setIsSaving(false); return; }
       }
       const sanitized: UpdatePageData = Object.entries({ ...formData, data: dataObj }).reduce((acc, [k, v]) => {
@@ -117,10 +191,20 @@ export default function PageEditPage() {
         return acc;
       }, {} as UpdatePageData);
 
-      await pagesService.updatePage(Number(id), sanitized);
+      await pagesService.updatePage(Number(id), {
+        ...sanitized,
+        parent_id: parentId,
+        base_version_number: getBaseVersionNumber() ?? undefined,
+      });
       toast.success('Page updated');
       navigate('/admin/pages');
     } catch (err: any) {
+      const editConflict = getEditConflict(err);
+      if (editConflict) {
+        setSaveConflict(editConflict);
+        return;
+      }
+
       const apiError = err?.response?.data;
       if (apiError?.details && Array.isArray(apiError.details)) {
         const fieldErrors: Record<string, string> = {};
@@ -129,6 +213,7 @@ export default function PageEditPage() {
           if (d.field) { fieldErrors[d.field] = d.message; fields.push(d.field); }
         }
         setErrors(fieldErrors);
+        setDataErrors(dataFieldErrors(apiError.details));
         toast.error(`Fix these fields: ${fields.join(', ')}`);
       } else if (typeof apiError?.error === 'string') {
         const msg: string = apiError.error;
@@ -171,21 +256,70 @@ export default function PageEditPage() {
         </div>
       </div>
 
+      <EditLockBanner
+        lock={editLock.lock}
+        isHolder={editLock.isHolder}
+        onTakeOver={editLock.takeOver}
+        isTakingOver={editLock.isTakingOver}
+      />
+
+      <CollaborationBar
+        participants={collaboration.participants}
+        typing={collaboration.typing}
+        remoteSave={collaboration.remoteSave}
+        onDismiss={collaboration.dismissRemoteSave}
+        onApplyVersion={applyVersion}
+      />
+
+      {conflict && (
+        <EditConflictDialog conflict={conflict} onLoadTheirs={applyVersion} onKeepMine={keepMine} />
+      )}
+
       <form onSubmit={onSubmit} className="bg-white p-6 rounded-lg shadow-sm border space-y-6">
         <div className="grid grid-cols-1 md:grid-cols-3 gap-6">
           <div className="md:col-span-2 space-y-6">
             <Input label="Title" name="title" value={formData.title || ''} onChange={onChange} error={errors.title} required />
             <Input label="Slug" name="slug" value={formData.slug || ''} onChange={onChange} error={errors.slug} />
-            <div className="space-y-1">
+            <div className="space-y-1" ref={contentRef}>
               <label className="block text-sm font-medium text-gray-700">Content</label>
-              <RichTextEditor value={formData.content || ''} onChange={(html) => setFormData(prev => ({ ...prev, content: html }))} />
-            </div>
-            <div className="space-y-1">
-              <label className="block text-sm font-medium text-gray-700">Data (JSON)</label>
-              <Textarea name="data" value={dataText} onChange={(e) => setDataText(e.target.value)} rows={6} />
+              <RichTextEditor
+                value={formData.content || ''}
+                onChange={(html) => {
+                  setFormData(prev => ({ ...prev, content: html }));
+                  collaboration.notifyTyping('content');
+                }}
+              />
             </div>
+            {schema ? (
+              <div className="space-y-4 border-t pt-6">
+                <h2 className="text-lg font-medium text-gray-900">{selectedTemplate!.name} fields</h2>
+                <SchemaForm
+                  schema={schema}
+                  value={formData.data}
+                  onChange={(data) => {
+                    setFormData(prev => ({ ...prev, data }));
+                    collaboration.notifyTyping('data');
+                  }}
+                  errors={dataErrors}
+                />
+              </div>
+            ) : (
+              <div className="space-y-1">
+                <label className="block text-sm font-medium text-gray-700">Data (JSON)</label>
+                <Textarea
+                  name="data"
+                  value={dataText}
+                  onChange={(e) => {
+                    setDataText(e.target.value);
+                    collaboration.notifyTyping('data');
+                  }}
+                  rows={6}
+                />
+              </div>
+            )}
           </div>
           <div className="space-y-6">
+            <PageParentSelect value={parentId} onChange={setParentId} page={placement} error={errors.parent_id} />
             <Select label="Template" name="template" value={formData.template || ''} onChange={onChange} placeholder="Default" options={templates.map(t => ({ value: t.key, label: t.name }))} />
             <Input label="Meta Title" name="meta_title" value={formData.meta_title || ''} onChange={onChange} error={errors.meta_title} placeholder="Optional SEO title" />
             <Textarea label="Meta Description" name="meta_description" value={formData.meta_description || ''} onChange={onChange} error={errors.meta_description} rows={3} />
@@ -197,6 +331,21 @@ export default function PageEditPage() {
               <input id="published" name="published" type="checkbox" checked={!!formData.published} onChange={onChange} className="h-4 w-4 text-primary-600 focus:ring-primary-500 border-gray-300 rounded" />
               <label htmlFor="published" className="text-sm text-gray-700">Published</label>
             </div>
+            <ReviewPanel
+              contentType="page"
+              contentId={Number(id)}
+              snapshot={{ title: formData.title, slug: formData.slug, content: formData.content, data: formData.data }}
+            />
+            <TranslationStatusPanel contentType="page" contentId={Number(id)} />
+            <PreviewLinksPanel
+              contentType="page"
+              contentId={Number(id)}
+              snapshot={{ title: formData.title, slug: formData.slug, content: formData.content, data: formData.data }}
+            />
+            <VersionCommentsSidebar
+              content={{ contentType: 'page', contentId: Number(id) }}
+              anchorRef={contentRef}
+            />
             <Button type="submit" disabled={isSaving} className="w-full">{isSaving ? 'Saving...' : 'Save Changes'}</Button>
           </div>
         </div>
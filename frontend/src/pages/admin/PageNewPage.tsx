@@ -7,6 +7,9 @@ import Textarea from '../../components/ui/Textarea';
 import RichTextEditor from '../../components/ui/RichTextEditor';
 import LoadingSpinner from '../../components/ui/LoadingSpinner';
 import Select from '../../components/ui/Select';
+import PageParentSelect from '../../components/admin/PageParentSelect';
+import SchemaForm from '../../components/admin/SchemaForm';
+import { dataFieldErrors, fitDataToSchema, hasSchemaFields } from '../../lib/templateSchema';
 import { pagesService } from '../../services/pages';
 import { CreatePageData } from '../../types';
 import { templatesService, type Template } from '../../services/templates';
@@ -18,10 +21,12 @@ export default function PageNewPage() {
   const [errors, setErrors] = useState<Record<string, string>>({});
   const [templates, setTemplates] = useState<Template[]>([]);
   const [dataText, setDataText] = useState<string>('');
+  const [dataErrors, setDataErrors] = useState<Record<string, string>>({});
 
   const [formData, setFormData] = useState<CreatePageData>({
     title: '',
     slug: '',
+    parent_id: null,
     content: '',
     template: '',
     meta_title: '',
@@ -43,6 +48,10 @@ export default function PageNewPage() {
     })();
   }, []);
 
+  // Templates with a schema get generated fields instead of raw JSON
+  const selectedTemplate = templates.find((t) => t.key === formData.template);
+  const schema = hasSchemaFields(selectedTemplate?.schema) ? selectedTemplate!.schema! : null;
+
   const validate = () => {
     const next: Record<string, string> = {};
     if (!formData.title || formData.title.trim().length === 0) {
@@ -50,6 +59,8 @@ export default function PageNewPage() {
     }
     if (formData.slug && /\s/.test(formData.slug)) {
       next.slug = 'Slug cannot contain spaces';
+    } else if (formData.slug?.includes('/')) {
+      next.slug = 'Slug cannot contain /; choose a parent page instead';
     }
     setErrors(next);
     return Object.keys(next).length === 0;
@@ -64,7 +75,11 @@ export default function PageNewPage() {
     } else if (name === 'template') {
       setFormData((prev) => ({ ...prev, template: value }));
       const selected = templates.find(t => t.key === value);
-      if (selected && (formData.data == null)) {
+      if (selected && hasSchemaFields(selected.schema)) {
+        setFormData((prev) => ({ ...prev, data: fitDataToSchema(selected.schema!, selected.default_data, prev.data) }));
+        setDataText('');
+        setDataErrors({});
+      } else if (selected && (formData.data == null)) {
         setFormData((prev) => ({ ...prev, data: selected.default_data }));
         setDataText(JSON.stringify(selected.default_data || {}, null, 2));
       }
@@ -80,10 +95,11 @@ export default function PageNewPage() {
     e.preventDefault();
     if (!validate()) return;
     setIsLoading(true);
+    setDataErrors({});
     try {
       // Parse data JSON if provided in text area
       let dataObj: any = formData.data;
-      if (dataText && dataText.trim()) {
+      if (!schema && dataText && dataText.trim()) {
         try {
           dataObj = JSON.parse(dataText);
         } catch {
@@ -122,6 +138,7 @@ export default function PageNewPage() {
           }
         }
         setErrors(fieldErrors);
+        setDataErrors(dataFieldErrors(apiError.details));
         toast.error(`Fix these fields: ${fields.join(', ')}`);
       } else if (typeof apiError?.error === 'string') {
         const msg: string = apiError.error;
@@ -181,7 +198,17 @@ export default function PageNewPage() {
               />
             </div>
 
-            {(formData.data !== undefined) && (
+            {schema ? (
+              <div className="space-y-4 border-t pt-6">
+                <h2 className="text-lg font-medium text-gray-900">{selectedTemplate!.name} fields</h2>
+                <SchemaForm
+                  schema={schema}
+                  value={formData.data}
+                  onChange={(data) => setFormData((prev) => ({ ...prev, data }))}
+                  errors={dataErrors}
+                />
+              </div>
+            ) : (formData.data !== undefined) && (
               <Textarea
                 label="Data (JSON)"
                 name="data"
@@ -193,6 +220,12 @@ export default function PageNewPage() {
           </div>
 
           <div className="space-y-6">
+            <PageParentSelect
+              value={formData.parent_id ?? null}
+              onChange={(parentId) => setFormData((prev) => ({ ...prev, parent_id: parentId }))}
+              error={errors.parent_id}
+            />
+
             <Select
               label="Template"
               name="template"
@@ -1,31 +1,57 @@
 import { useState, useEffect } from 'react';
 import { Link } from 'react-router-dom';
-import { 
-  Plus, 
-  Search, 
-  Eye, 
-  Edit, 
-  Trash2, 
+import {
+  Plus,
+  Search,
+  Eye,
+  Edit,
+  Trash2,
   FileText,
   Globe,
-  Calendar
+  GripVertical
 } from 'lucide-react';
 import { toast } from 'react-hot-toast';
 import Button from '../../components/ui/Button';
 import Input from '../../components/ui/Input';
 import LoadingSpinner from '../../components/ui/LoadingSpinner';
 import { pagesService } from '../../services/pages';
+import { cn, sortPageTree } from '../../lib/utils';
 import { Page } from '../../types';
 
+type DropZone = 'before' | 'inside' | 'after';
+
+type PlacementItem = { id: number; parent_id: number | null; position: number };
+
+/**
+ * New parent and sibling positions after dropping a page before, inside or
+ * after another one. Null when the target is the page itself or below it.
+ */
+function placePage(pages: Page[], dragged: Page, target: Page, zone: DropZone): PlacementItem[] | null {
+  if (target.id === dragged.id || target.path.startsWith(`${dragged.path}/`)) {
+    return null;
+  }
+
+  const parentId = zone === 'inside' ? target.id : target.parent_id;
+  const siblings = sortPageTree(pages)
+    .filter((page) => page.parent_id === parentId && page.id !== dragged.id);
+  const targetIndex = siblings.findIndex((page) => page.id === target.id);
+  const index = zone === 'inside' ? siblings.length : zone === 'before' ? targetIndex : targetIndex + 1;
+  siblings.splice(index, 0, { ...dragged, depth: 0 });
+
+  return siblings.map((page, position) => ({ id: page.id, parent_id: parentId, position }));
+}
+
 export default function PagesPage() {
   const [pages, setPages] = useState<Page[]>([]);
   const [loading, setLoading] = useState(true);
   const [searchQuery, setSearchQuery] = useState('');
+  const [draggedId, setDraggedId] = useState<number | null>(null);
+  const [dropTarget, setDropTarget] = useState<{ id: number; zone: DropZone } | null>(null);
 
   const fetchPages = async () => {
     try {
       setLoading(true);
-      const response = await pagesService.getAllPages();
+      const response = await pagesService.getAllPages({ tree: true });
       setPages((response.data as any) || []);
     } catch (error) {
       console.error('Error fetching pages:', error);
@@ -39,17 +65,24 @@ export default function PagesPage() {
     fetchPages();
   }, []);
 
-  const filteredPages = pages.filter(page =>
+  const pageTree = sortPageTree(pages);
+  const filteredPages = pageTree.filter(page =>
     page.title.toLowerCase().includes(searchQuery.toLowerCase()) ||
-    page.slug.toLowerCase().includes(searchQuery.toLowerCase()) ||
+    page.path.toLowerCase().includes(searchQuery.toLowerCase()) ||
     page.excerpt?.toLowerCase().includes(searchQuery.toLowerCase())
   );
+  // A filtered list hides parents and siblings, so pages are only moved in the full tree
+  const canReorder = searchQuery.trim() === '';
 
-  const handleDelete = async (id: number) => {
-    if (!confirm('Are you sure you want to delete this page?')) return;
+  const handleDelete = async (page: Page) => {
+    const hasSubpages = pages.some((p) => p.parent_id === page.id);
+    const message = hasSubpages
+      ? `Delete "${page.title}"? Its subpages move up one level and their old addresses redirect.`
+      : 'Are you sure you want to delete this page?';
+    if (!confirm(message)) return;
 
     try {
-      await pagesService.deletePage(id);
+      await pagesService.deletePage(page.id);
       toast.success('Page deleted successfully');
       fetchPages();
     } catch (error) {
@@ -58,12 +91,45 @@ export default function PagesPage() {
     }
   };
 
-  const formatDate = (date: string) => {
-    return new Date(date).toLocaleDateString('en-US', {
-      year: 'numeric',
-      month: 'short',
-      day: 'numeric'
-    });
+  const handleDragOver = (e: React.DragEvent<HTMLElement>, target: Page) => {
+    if (draggedId === null) return;
+    e.preventDefault();
+    // Top quarter drops before, bottom quarter after, the rest makes it a subpage
+    const rect = e.currentTarget.getBoundingClientRect();
+    const offset = rect.height ? (e.clientY - rect.top) / rect.height : 0.5;
+    const zone: DropZone = offset < 0.25 ? 'before' : offset > 0.75 ? 'after' : 'inside';
+    if (dropTarget?.id !== target.id || dropTarget.zone !== zone) {
+      setDropTarget({ id: target.id, zone });
+    }
+  };
+
+  const handleDragEnd = () => {
+    setDraggedId(null);
+    setDropTarget(null);
+  };
+
+  const handleDrop = async (e: React.DragEvent<HTMLElement>, target: Page) => {
+    e.preventDefault();
+    const dragged = pages.find((page) => page.id === draggedId);
+    const zone = dropTarget?.zone ?? 'inside';
+    handleDragEnd();
+    if (!dragged) return;
+
+    const items = placePage(pages, dragged, target, zone);
+    if (!items) {
+      if (target.id !== dragged.id) toast.error('A page cannot be moved below itself');
+      return;
+    }
+
+    try {
+      await pagesService.reorderPages(items);
+      toast.success('Page moved');
+    } catch (error: any) {
+      console.error('Error moving page:', error);
+      toast.error(error.response?.data?.error || 'Failed to move page');
+    } finally {
+      fetchPages();
+    }
   };
 
   if (loading) {
@@ -80,7 +146,9 @@ export default function PagesPage() {
       <div className="flex items-center justify-between">
         <div>
           <h1 className="text-2xl font-bold text-gray-900">Pages</h1>
-          <p className="text-gray-600">Manage your static pages and content</p>
+          <p className="text-gray-600">
+            Manage your static pages and content. Drag a page onto another to nest it, or above or below one to reorder.
+          </p>
         </div>
         <Button as={Link} to="/admin/pages/new" className="flex items-center">
           <Plus className="mr-2 h-4 w-4" />
@@ -102,104 +170,100 @@ export default function PagesPage() {
         </div>
       </div>
 
-      {/* Pages Grid */}
-      <div className="grid gap-6 md:grid-cols-2 lg:grid-cols-3">
-        {filteredPages.map((page) => (
-          <div key={page.id} className="bg-white rounded-lg shadow-sm border overflow-hidden">
-            {page.featured_image && (
-              <div className="aspect-video bg-gray-200">
-                <img
-                  src={page.featured_image}
-                  alt={page.title}
-                  className="w-full h-full object-cover"
-                />
-              </div>
-            )}
-            
-            <div className="p-6">
-              <div className="flex items-start justify-between">
-                <div className="flex-1">
-                  <h3 className="text-lg font-medium text-gray-900 mb-1">
-                    {page.title}
-                  </h3>
-                  <p className="text-sm text-gray-500 mb-2">/{page.slug}</p>
-                  
-                  {page.excerpt && (
-                    <p className="text-sm text-gray-600 line-clamp-3 mb-3">
-                      {page.excerpt}
-                    </p>
-                  )}
-                </div>
-                
-                <div className="flex items-center gap-1 ml-4">
-                  <Button
-                    variant="ghost"
-                    size="sm"
-                    as={Link}
-                    to={`/page/${page.slug}`}
-                    target="_blank"
-                    aria-label="Preview page"
-                  >
-                    <Eye className="h-4 w-4" />
-                  </Button>
-                  <Button
-                    variant="ghost"
-                    size="sm"
-                    as={Link}
-                    to={`/admin/pages/${page.id}/edit`}
-                    aria-label="Edit page"
-                  >
-                    <Edit className="h-4 w-4" />
-                  </Button>
-                  <Button
-                    variant="ghost"
-                    size="sm"
-                    onClick={() => handleDelete(page.id)}
-                    className="text-red-600 hover:text-red-700"
-                    aria-label="Delete page"
-                  >
-                    <Trash2 className="h-4 w-4" />
-                  </Button>
-                </div>
-              </div>
+      {/* Page Tree */}
+      {filteredPages.length > 0 && (
+        <ul className="bg-white rounded-lg shadow-sm border divide-y divide-gray-200" aria-label="Page tree">
+          {filteredPages.map((page) => (
+            <li
+              key={page.id}
+              draggable={canReorder}
+              onDragStart={(e) => {
+                e.dataTransfer.effectAllowed = 'move';
+                setDraggedId(page.id);
+              }}
+              onDragOver={(e) => handleDragOver(e, page)}
+              onDrop={(e) => handleDrop(e, page)}
+              onDragEnd={handleDragEnd}
+              data-testid={`page-row-${page.id}`}
+              className={cn(
+                'flex items-center gap-3 px-4 py-3 border-y-2 border-transparent',
+                draggedId === page.id && 'opacity-50',
+                dropTarget?.id === page.id && dropTarget.zone === 'before' && 'border-t-primary-500',
+                dropTarget?.id === page.id && dropTarget.zone === 'after' && 'border-b-primary-500',
+                dropTarget?.id === page.id && dropTarget.zone === 'inside' && 'bg-primary-50'
+              )}
+              style={{ paddingLeft: `${1 + (canReorder ? page.depth : 0) * 1.5}rem` }}
+            >
+              {canReorder && (
+                <GripVertical className="h-4 w-4 text-gray-400 cursor-move flex-shrink-0" aria-hidden="true" />
+              )}
 
-              <div className="flex items-center justify-between mt-4 pt-4 border-t border-gray-200">
-                <div className="flex items-center text-sm text-gray-500">
-                  <Calendar className="mr-1 h-4 w-4" />
-                  {formatDate(page.created_at)}
-                </div>
-                
-                <div className="flex items-center gap-2">
-                  {page.published ? (
-                    <span className="inline-flex items-center px-2 py-1 rounded-full text-xs font-medium bg-green-100 text-green-800">
-                      <Globe className="mr-1 h-3 w-3" />
-                      Published
-                    </span>
-                  ) : (
-                    <span className="inline-flex items-center px-2 py-1 rounded-full text-xs font-medium bg-gray-100 text-gray-800">
-                      Draft
-                    </span>
-                  )}
-                  
-                  {page.seo_indexed && (
-                    <span className="inline-flex items-center px-2 py-1 rounded-full text-xs font-medium bg-blue-100 text-blue-800">
-                      SEO
-                    </span>
-                  )}
-                </div>
+              <div className="flex-1 min-w-0">
+                <h3 className="text-sm font-medium text-gray-900 truncate">
+                  {page.title}
+                </h3>
+                <p className="text-sm text-gray-500 truncate">/page/{page.path}</p>
               </div>
 
-              {page.template && (
-                <div className="mt-3">
+              <div className="flex items-center gap-2">
+                {page.template && (
                   <span className="inline-flex items-center px-2 py-1 rounded text-xs font-medium bg-purple-100 text-purple-800">
-                    Template: {page.template}
+                    {page.template}
                   </span>
-                </div>
-              )}
-            </div>
-          </div>
-        ))}
-      </div>
+                )}
+
+                {page.published ? (
+                  <span className="inline-flex items-center px-2 py-1 rounded-full text-xs font-medium bg-green-100 text-green-800">
+                    <Globe className="mr-1 h-3 w-3" />
+                    Published
+                  </span>
+                ) : (
+                  <span className="inline-flex items-center px-2 py-1 rounded-full text-xs font-medium bg-gray-100 text-gray-800">
+                    Draft
+                  </span>
+                )}
+
+                {page.seo_indexed && (
+                  <span className="inline-flex items-center px-2 py-1 rounded-full text-xs font-medium bg-blue-100 text-blue-800">
+                    SEO
+                  </span>
+                )}
+              </div>
+
+              <div className="flex items-center gap-1 ml-4">
+                <Button
+                  variant="ghost"
+                  size="sm"
+                  as={Link}
+                  to={`/page/${page.path}`}
+                  target="_blank"
+                  aria-label="Preview page"
+                >
+                  <Eye className="h-4 w-4" />
+                </Button>
+                <Button
+                  variant="ghost"
+                  size="sm"
+                  as={Link}
+                  to={`/admin/pages/${page.id}/edit`}
+                  aria-label="Edit page"
+                >
+                  <Edit className="h-4 w-4" />
+                </Button>
+                <Button
+                  variant="ghost"
+                  size="sm"
+                  onClick={() => handleDelete(page)}
+                  className="text-red-600 hover:text-red-700"
+                  aria-label="Delete page"
+                >
+                  <Trash2 className="h-4 w-4" />
+                </Button>
+              </div>
+            </li>
+          ))}
+        </ul>
+      )}
 
       {filteredPages.length === 0 && (
         <div className="text-center py-12">
@@ -218,4 +282,4 @@ export default function PagesPage() {
       )}
     </div>
   );
-} 
\ No newline at end of file
+}
@@ -1,4 +1,4 @@
-import { useEffect, useState } from 'react';
+import { useEffect, useRef, useState } from 'react';
 import { useNavigate, useParams, Link } from 'react-router-dom';
 import { toast } from 'react-hot-toast';
 import Button from '../../components/ui/Button';
@@ -7,8 +7,17 @@ import Textarea from '../../components/ui/Textarea';
 import Select from '../../components/ui/Select';
 import LoadingSpinner from '../../components/ui/LoadingSpinner';
 import RichTextEditor from '../../components/ui/RichTextEditor';
+import PreviewLinksPanel from '../../components/admin/PreviewLinksPanel';
+import TranslationStatusPanel from '../../components/admin/TranslationStatusPanel';
+import ReviewPanel from '../../components/admin/ReviewPanel';
+import VersionCommentsSidebar from '../../components/admin/VersionCommentsSidebar';
+import CollaborationBar from '../../components/admin/CollaborationBar';
+import EditLockBanner from '../../components/admin/EditLockBanner';
+import EditConflictDialog from '../../components/admin/EditConflictDialog';
 import { SaveStatusIndicator } from '../../components/ui/SaveStatusIndicator';
 import { useAutoSave } from '../../hooks/useAutoSave';
+import { useCollaboration } from '../../hooks/useCollaboration';
+import { useEditLock } from '../../hooks/useEditLock';
 import {
   useDistributionMetrics,
   usePublishingSchedules,
@@ -17,8 +26,10 @@ import {
 import { postsService } from '../../services/posts';
 import { categoriesService } from '../../services/categories';
 import distributionService from '../../services/distribution';
-import { formatDate, formatRelativeTime } from '../../lib/utils';
+import { getEditConflict } from '../../services/editLocks';
+import { formatDate, formatRelativeTime, sortCategoryTree } from '../../lib/utils';
 import { Category, UpdatePostData, Post } from '../../types';
+import type { ContentVersion, EditConflict } from '../../types/versioning';
 
 export default function PostEditPage() {
   const navigate = useNavigate();
@@ -29,6 +40,9 @@ export default function PostEditPage() {
   const [isLoading, setIsLoading] = useState(true);
   const [isSaving, setIsSaving] = useState(false);
   const [errors, setErrors] = useState<Record<string, string>>({});
+  const contentRef = useRef<HTMLDivElement>(null);
+  const [loadedVersionNumber, setLoadedVersionNumber] = useState<number | null | undefined>(undefined);
+  const [saveConflict, setSaveConflict] = useState<EditConflict | null>(null);
 
   const [formData, setFormData] = useState<UpdatePostData>({});
   const [tagsInput, setTagsInput] = useState('');
@@ -67,10 +81,14 @@ export default function PostEditPage() {
     status: autoSaveStatus,
     lastSaved,
     hasUnsavedChanges,
-    manualSave
+    manualSave,
+    conflict: autoSaveConflict,
+    getBaseVersionNumber,
+    rebase
   } = useAutoSave({
     contentType: 'post',
     contentId: Number(id) || 0,
+    baseVersionNumber: loadedVersionNumber,
     content: {
       ...formData,
       tags: tagsInput.split(',').map(t => t.trim()).filter(Boolean)
@@ -84,6 +102,40 @@ export default function PostEditPage() {
     }
   });
 
+  // Presence and live saves from other editors of this post
+  const collaboration = useCollaboration({
+    contentType: 'post',
+    contentId: Number(id) || 0,
+    enabled: !!id && !isLoading
+  });
+
+  // Soft lock so others see who is editing
+  const editLock = useEditLock({
+    contentType: 'post',
+    contentId: Number(id) || 0,
+    enabled: !!id && !isLoading
+  });
+
+  const conflict = saveConflict ?? autoSaveConflict;
+
+  // Continue from a version someone else saved, either with their content or ours on top
+  const applyVersion = (version: ContentVersion) => {
+    setFormData(prev => ({
+      ...prev,
+      title: version.title,
+      slug: version.slug,
+      excerpt: version.excerpt,
+      content: version.content,
+    }));
+    rebase(version.version_number);
+    setSaveConflict(null);
+  };
+
+  const keepMine = (version: ContentVersion) => {
+    rebase(version.version_number);
+    setSaveConflict(null);
+  };
+
   // Keyboard shortcut for manual save (Ctrl+S / Cmd+S)
   useEffect(() => {
     const handleKeyDown = (e: KeyboardEvent) => {
@@ -119,10 +171,11 @@ export default function PostEditPage() {
           meta_title: post.meta_title,
           meta_description: post.meta_description,
           seo_indexed: post.seo_indexed,
-          scheduled_at: post.scheduled_at,
+          scheduled_at: post.scheduled_at ? formatDate(post.scheduled_at, "yyyy-MM-dd'T'HH:mm") : undefined,
           featured: post.featured,
         });
         setTagsInput((post.tags || []).map(t => t.name).join(', '));
+        setLoadedVersionNumber(post.latest_version_number ?? null);
       } catch (e: any) {
         toast.error(e?.response?.data?.error || 'Failed to load post');
       } finally {
@@ -139,6 +192,7 @@ export default function PostEditPage() {
       [name]: type === 'checkbox' ? checked : name === 'category_id' ? (value ? Number(value) : undefined) : value,
     }));
     if (errors[name]) setErrors(prev => ({ ...prev, [name]: '' }));
+    collaboration.notifyTyping(name);
   };
 
   const toggleTarget = (targetId: number) => {
@@ -269,17 +323,27 @@ export default function PostEditPage() {
         const isValid = !Number.isNaN(Date.parse(normalized.scheduled_at as any));
         if (!isValid || normalized.status !== 'scheduled') {
           delete normalized.scheduled_at;
+        } else {
+          // datetime-local values carry no timezone; send an absolute time
+          normalized.scheduled_at = new Date(normalized.scheduled_at).toISOString();
         }
       }
 
       const payload: UpdatePostData = {
         ...normalized,
         tags: tagsInput.split(',').map(t => t.trim()).filter(Boolean),
+        base_version_number: getBaseVersionNumber() ?? undefined,
       };
       await postsService.updatePost(Number(id), payload);
       toast.success('Post updated');
       navigate('/admin/posts');
     } catch (err: any) {
+      const editConflict = getEditConflict(err);
+      if (editConflict) {
+        setSaveConflict(editConflict);
+        return;
+      }
+
       const apiError = err?.response?.data;
       if (apiError?.details && Array.isArray(apiError.details)) {
         const fieldErrors: Record<string, string> = {};
@@ -335,20 +399,48 @@ export default function PostEditPage() {
         </div>
       </div>
 
+      <EditLockBanner
+        lock={editLock.lock}
+        isHolder={editLock.isHolder}
+        onTakeOver={editLock.takeOver}
+        isTakingOver={editLock.isTakingOver}
+      />
+
+      <CollaborationBar
+        participants={collaboration.participants}
+        typing={collaboration.typing}
+        remoteSave={collaboration.remoteSave}
+        onDismiss={collaboration.dismissRemoteSave}
+        onApplyVersion={applyVersion}
+      />
+
+      {conflict && (
+        <EditConflictDialog conflict={conflict} onLoadTheirs={applyVersion} onKeepMine={keepMine} />
+      )}
+
       <form onSubmit={onSubmit} className="bg-white p-6 rounded-lg shadow-sm border space-y-6">
         <div className="grid grid-cols-1 md:grid-cols-3 gap-6">
           <div className="md:col-span-2 space-y-6">
             <Input label="Title" name="title" value={formData.title || ''} onChange={onChange} error={errors.title} required />
             <Input label="Slug" name="slug" value={formData.slug || ''} onChange={onChange} error={errors.slug} />
             <Textarea label="Excerpt" name="excerpt" value={formData.excerpt || ''} onChange={onChange} error={errors.excerpt} rows={3} />
-            <div className="space-y-1">
+            <div className="space-y-1" ref={contentRef}>
               <label className="block text-sm font-medium text-gray-700">Content</label>
-              <RichTextEditor value={formData.content || ''} onChange={(html) => setFormData(prev => ({ ...prev, content: html }))} />
+              <RichTextEditor
+                value={formData.content || ''}
+                onChange={(html) => {
+                  setFormData(prev => ({ ...prev, content: html }));
+                  collaboration.notifyTyping('content');
+                }}
+              />
             </div>
           </div>
           <div className="space-y-6">
             <Select label="Status" name="status" value={formData.status || 'draft'} onChange={onChange} options={[{ value: 'draft', label: 'Draft' }, { value: 'published', label: 'Published' }, { value: 'scheduled', label: 'Scheduled' }]} />
-            <Select label="Category" name="category_id" value={formData.category_id || ''} onChange={onChange} placeholder="Select a category" options={categories.map(c => ({ value: c.id, label: c.name }))} />
+            {formData.status === 'scheduled' && (
+              <Input type="datetime-local" label="Publish at" name="scheduled_at" value={formData.scheduled_at || ''} onChange={onChange} error={errors.scheduled_at} helperText="The post goes live automatically at this time" required />
+            )}
+            <Select label="Category" name="category_id" value={formData.category_id || ''} onChange={onChange} placeholder="Select a category" options={sortCategoryTree(categories).map(c => ({ value: c.id, label: `${'\u00A0\u00A0'.repeat(c.depth)}${c.name}` }))} />
             {/* Featured image URL removed; use content editor image upload */}
             <Input label="Meta Title" name="meta_title" value={formData.meta_title || ''} onChange={onChange} error={errors.meta_title} placeholder="Optional SEO title" />
             <Textarea label="Meta Description" name="meta_description" value={formData.meta_description || ''} onChange={onChange} error={errors.meta_description} rows={3} />
@@ -530,6 +622,22 @@ export default function PostEditPage() {
               )}
             </div>
 
+            <ReviewPanel
+              contentType="post"
+              contentId={postId}
+              snapshot={{ title: formData.title, slug: formData.slug, content: formData.content, excerpt: formData.excerpt }}
+            />
+            <TranslationStatusPanel contentType="post" contentId={postId} />
+            <PreviewLinksPanel
+              contentType="post"
+              contentId={postId}
+              snapshot={{ title: formData.title, slug: formData.slug, content: formData.content, excerpt: formData.excerpt }}
+            />
+            <VersionCommentsSidebar
+              content={{ contentType: 'post', contentId: postId }}
+              anchorRef={contentRef}
+            />
+
             <Button type="submit" disabled={isSaving} className="w-full">
               {isSaving ? 'Saving...' : 'Save Changes'}
             </Button>
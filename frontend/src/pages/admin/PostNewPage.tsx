@@ -9,6 +9,7 @@ import Select from '../../components/ui/Select';
 import LoadingSpinner from '../../components/ui/LoadingSpinner';
 import { postsService } from '../../services/posts';
 import { categoriesService } from '../../services/categories';
+import { sortCategoryTree } from '../../lib/utils';
 import { Category, CreatePostData } from '../../types';
 
 export default function PostNewPage() {
@@ -59,6 +60,9 @@ export default function PostNewPage() {
     if (formData.slug && /\s/.test(formData.slug)) {
       next.slug = 'Slug cannot contain spaces';
     }
+    if (formData.status === 'scheduled' && !formData.scheduled_at) {
+      next.scheduled_at = 'Choose when the post should be published';
+    }
     setErrors(next);
     return Object.keys(next).length === 0;
   };
@@ -100,6 +104,9 @@ export default function PostNewPage() {
         const isValid = !Number.isNaN(Date.parse(scheduled));
         if (!isValid || (withoutImage as any).status !== 'scheduled') {
           delete (withoutImage as any).scheduled_at;
+        } else {
+          // datetime-local values carry no timezone; send an absolute time
+          (withoutImage as any).scheduled_at = new Date(scheduled).toISOString();
         }
       }
 
@@ -221,13 +228,26 @@ export default function PostNewPage() {
               ]}
             />
 
+            {formData.status === 'scheduled' && (
+              <Input
+                type="datetime-local"
+                label="Publish at"
+                name="scheduled_at"
+                value={formData.scheduled_at || ''}
+                onChange={onChange}
+                error={errors.scheduled_at}
+                helperText="The post goes live automatically at this time"
+                required
+              />
+            )}
+
             <Select
               label="Category"
               name="category_id"
               value={formData.category_id || ''}
               onChange={onChange}
               placeholder="Select a category"
-              options={categories.map(c => ({ value: c.id, label: c.name }))}
+              options={sortCategoryTree(categories).map(c => ({ value: c.id, label: `${'\u00A0\u00A0'.repeat(c.depth)}${c.name}` }))}
             />
 
             {/* Featured image URL removed. Use editor image upload instead. */}
@@ -293,6 +293,16 @@ export default function PostsPage() {
                     <span className={getStatusBadge(post.status)}>
                       {post.status}
                     </span>
+                    {post.status === 'scheduled' && post.scheduled_at && (
+                      <div className="text-xs text-gray-500 mt-1">
+                        {new Date(post.scheduled_at).toLocaleString('en-US', {
+                          month: 'short',
+                          day: 'numeric',
+                          hour: 'numeric',
+                          minute: '2-digit'
+                        })}
+                      </div>
+                    )}
                   </td>
                   <td className="px-6 py-4 whitespace-nowrap text-sm text-gray-900">
                     {post.view_count}
@@ -0,0 +1,304 @@
+import React, { useState } from 'react';
+import { useQuery, useMutation, useQueryClient } from '@tanstack/react-query';
+import { toast } from 'react-hot-toast';
+import { Edit3, Search, Trash2 } from 'lucide-react';
+import Modal from '../../components/ui/Modal';
+import Button from '../../components/ui/Button';
+import DataTable from '../../components/ui/DataTable';
+import Input from '../../components/ui/Input';
+import { useAuthStore } from '../../lib/auth';
+import { formatDate } from '../../lib/utils';
+import { fetchDomains } from '../../services/domains';
+import { redirectsService, Redirect, RedirectData } from '../../services/redirects';
+
+const emptyForm: RedirectData = {
+  source_path: '',
+  target_path: '',
+  status_code: 301,
+  domain_id: null,
+};
+
+export default function RedirectsPage() {
+  const [showModal, setShowModal] = useState(false);
+  const [selectedRedirect, setSelectedRedirect] = useState<Redirect | null>(null);
+  const [formData, setFormData] = useState<RedirectData>(emptyForm);
+  const [searchQuery, setSearchQuery] = useState('');
+
+  const queryClient = useQueryClient();
+  const isAdmin = useAuthStore((state) => state.user?.role === 'admin');
+
+  const { data: redirects, isLoading } = useQuery({
+    queryKey: ['redirects'],
+    queryFn: redirectsService.list,
+  });
+
+  // Domains are managed by admins; editors add rules for every domain
+  const { data: domains } = useQuery({
+    queryKey: ['domains'],
+    queryFn: fetchDomains,
+    enabled: isAdmin,
+  });
+
+  const closeModal = () => {
+    setShowModal(false);
+    setSelectedRedirect(null);
+    setFormData(emptyForm);
+  };
+
+  const saveMutation = useMutation({
+    mutationFn: (data: RedirectData) =>
+      selectedRedirect ? redirectsService.update(selectedRedirect.id, data) : redirectsService.create(data),
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: ['redirects'] });
+      toast.success(selectedRedirect ? 'Redirect updated successfully' : 'Redirect created successfully');
+      closeModal();
+    },
+    onError: (error: any) => {
+      toast.error(error.response?.data?.error || 'Failed to save redirect');
+    },
+  });
+
+  const deleteMutation = useMutation({
+    mutationFn: redirectsService.delete,
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: ['redirects'] });
+      toast.success('Redirect deleted successfully');
+    },
+    onError: (error: any) => {
+      toast.error(error.response?.data?.error || 'Failed to delete redirect');
+    },
+  });
+
+  const handleEdit = (redirect: Redirect) => {
+    setSelectedRedirect(redirect);
+    setFormData({
+      source_path: redirect.source_path,
+      target_path: redirect.target_path,
+      status_code: redirect.status_code,
+      domain_id: redirect.domain_id,
+    });
+    setShowModal(true);
+  };
+
+  const handleDelete = (redirect: Redirect) => {
+    if (window.confirm(`Delete the redirect from ${redirect.source_path}? Links to it will show a 404 again.`)) {
+      deleteMutation.mutate(redirect.id);
+    }
+  };
+
+  const handleSubmit = (e: React.FormEvent) => {
+    e.preventDefault();
+    saveMutation.mutate(formData);
+  };
+
+  const filteredRedirects = (redirects || []).filter((redirect) => {
+    const search = searchQuery.toLowerCase();
+    return redirect.source_path.toLowerCase().includes(search) ||
+      redirect.target_path.toLowerCase().includes(search);
+  });
+
+  const columns = [
+    {
+      key: 'source_path',
+      label: 'From',
+      render: (value: string) => <code className="text-sm bg-gray-100 px-2 py-1 rounded">{value}</code>,
+    },
+    {
+      key: 'target_path',
+      label: 'To',
+      render: (value: string) => <code className="text-sm bg-gray-100 px-2 py-1 rounded">{value}</code>,
+    },
+    {
+      key: 'status_code',
+      label: 'Type',
+      render: (value: number) => (
+        <span className="text-sm text-gray-600">{value === 301 ? '301 Permanent' : '302 Temporary'}</span>
+      ),
+    },
+    {
+      key: 'domain_hostname',
+      label: 'Domain',
+      render: (value: string | null) => <span className="text-sm text-gray-600">{value || 'All domains'}</span>,
+    },
+    {
+      key: 'origin',
+      label: 'Source',
+      render: (value: Redirect['origin'], redirect: Redirect) => (
+        <span className={`inline-flex items-center px-2 py-1 rounded text-xs font-medium ${
+          value === 'slug_change' ? 'bg-blue-100 text-blue-800' : 'bg-gray-100 text-gray-600'
+        }`}>
+          {value === 'slug_change' ? `Slug change (${redirect.content_type})` : 'Manual'}
+        </span>
+      ),
+    },
+    {
+      key: 'hit_count',
+      label: 'Hits',
+      render: (value: number, redirect: Redirect) => (
+        <span className="text-sm" title={redirect.last_hit_at ? `Last hit ${formatDate(redirect.last_hit_at, 'PPp')}` : 'Never followed'}>
+          {value}
+        </span>
+      ),
+    },
+  ];
+
+  const actions = [
+    {
+      label: 'Edit',
+      icon: <Edit3 />,
+      onClick: handleEdit,
+      variant: 'primary' as const,
+    },
+    {
+      label: 'Delete',
+      icon: <Trash2 />,
+      onClick: handleDelete,
+      variant: 'danger' as const,
+    },
+  ];
+
+  return (
+    <div className="space-y-6">
+      <div className="flex justify-between items-center">
+        <div>
+          <h1 className="text-2xl font-bold text-gray-900">Redirects</h1>
+          <p className="text-gray-600 mt-1">
+            Send visitors from old URLs to where the content lives now. Renaming a published post or page adds a redirect automatically.
+          </p>
+        </div>
+        <Button onClick={() => setShowModal(true)}>
+          Add Redirect
+        </Button>
+      </div>
+
+      <div className="relative">
+        <Search className="absolute left-3 top-1/2 transform -translate-y-1/2 text-gray-400 h-4 w-4" />
+        <Input
+          type="text"
+          placeholder="Search redirects..."
+          value={searchQuery}
+          onChange={(e) => setSearchQuery(e.target.value)}
+          className="pl-10"
+        />
+      </div>
+
+      {isLoading ? (
+        <div className="flex justify-center py-8">
+          <div className="animate-spin rounded-full h-8 w-8 border-b-2 border-indigo-600"></div>
+        </div>
+      ) : (
+        <DataTable
+          data={filteredRedirects}
+          columns={columns}
+          actions={actions}
+        />
+      )}
+
+      {showModal && (
+        <Modal
+          title={selectedRedirect ? 'Edit Redirect' : 'Add Redirect'}
+          onClose={closeModal}
+        >
+          <form onSubmit={handleSubmit} className="space-y-4">
+            {selectedRedirect?.origin === 'slug_change' && (
+              <p className="text-sm text-gray-500">
+                This redirect was added when the {selectedRedirect.content_type} was renamed. Once edited it is no longer updated when the {selectedRedirect.content_type} is renamed again.
+              </p>
+            )}
+
+            <div>
+              <label htmlFor="redirect-source" className="block text-sm font-medium text-gray-700">
+                From
+              </label>
+              <input
+                id="redirect-source"
+                type="text"
+                value={formData.source_path}
+                onChange={(e) => setFormData({ ...formData, source_path: e.target.value })}
+                className="mt-1 block w-full px-3 py-2 border border-gray-300 rounded-md shadow-sm focus:outline-none focus:ring-indigo-500 focus:border-indigo-500"
+                placeholder="/old-path"
+                pattern="^/.*"
+                title="Paths start with /"
+                required
+              />
+              <p className="mt-1 text-sm text-gray-500">
+                End with /* to redirect everything below a path, e.g. /archive/*
+              </p>
+            </div>
+
+            <div>
+              <label htmlFor="redirect-target" className="block text-sm font-medium text-gray-700">
+                To
+              </label>
+              <input
+                id="redirect-target"
+                type="text"
+                value={formData.target_path}
+                onChange={(e) => setFormData({ ...formData, target_path: e.target.value })}
+                className="mt-1 block w-full px-3 py-2 border border-gray-300 rounded-md shadow-sm focus:outline-none focus:ring-indigo-500 focus:border-indigo-500"
+                placeholder="/new-path or https://example.com/page"
+                required
+              />
+              <p className="mt-1 text-sm text-gray-500">
+                A * in the target receives the rest of the path matched by /*, e.g. /blog/*
+              </p>
+            </div>
+
+            <div className="grid grid-cols-2 gap-4">
+              <div>
+                <label htmlFor="redirect-status" className="block text-sm font-medium text-gray-700">
+                  Type
+                </label>
+                <select
+                  id="redirect-status"
+                  value={formData.status_code}
+                  onChange={(e) => setFormData({ ...formData, status_code: parseInt(e.target.value) as RedirectData['status_code'] })}
+                  className="mt-1 block w-full px-3 py-2 border border-gray-300 rounded-md shadow-sm focus:outline-none focus:ring-indigo-500 focus:border-indigo-500"
+                >
+                  <option value={301}>301 Permanent</option>
+                  <option value={302}>302 Temporary</option>
+                </select>
+              </div>
+
+              <div>
+                <label htmlFor="redirect-domain" className="block text-sm font-medium text-gray-700">
+                  Domain
+                </label>
+                <select
+                  id="redirect-domain"
+                  value={formData.domain_id ?? ''}
+                  onChange={(e) => setFormData({ ...formData, domain_id: e.target.value ? parseInt(e.target.value) : null })}
+                  className="mt-1 block w-full px-3 py-2 border border-gray-300 rounded-md shadow-sm focus:outline-none focus:ring-indigo-500 focus:border-indigo-500"
+                  disabled={!isAdmin}
+                >
+                  <option value="">All domains</option>
+                  {domains?.map((domain) => (
+                    <option key={domain.id} value={domain.id}>
+                      {domain.hostname}
+                    </option>
+                  ))}
+                  {formData.domain_id !== null && !domains && (
+                    <option value={formData.domain_id}>{selectedRedirect?.domain_hostname}</option>
+                  )}
+                </select>
+              </div>
+            </div>
+
+            <div className="flex justify-end space-x-3 pt-4">
+              <Button type="button" variant="secondary" onClick={closeModal}>
+                Cancel
+              </Button>
+              <Button type="submit" disabled={saveMutation.isPending}>
+                {saveMutation.isPending
+                  ? 'Saving...'
+                  : selectedRedirect
+                  ? 'Update Redirect'
+                  : 'Create Redirect'}
+              </Button>
+            </div>
+          </form>
+        </Modal>
+      )}
+    </div>
+  );
+}
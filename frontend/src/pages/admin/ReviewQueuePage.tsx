@@ -0,0 +1,180 @@
+import { useState } from 'react';
+import { Link, useNavigate } from 'react-router-dom';
+import { useMutation, useQuery, useQueryClient } from '@tanstack/react-query';
+import { toast } from 'react-hot-toast';
+import { CheckCircle, XCircle, Send, ClipboardCheck } from 'lucide-react';
+import Button from '../../components/ui/Button';
+import LoadingSpinner from '../../components/ui/LoadingSpinner';
+import Textarea from '../../components/ui/Textarea';
+import { formatRelativeTime } from '../../lib/utils';
+import { workflowService, ReviewQueueItem } from '../../services/workflow';
+
+const editPath = (item: ReviewQueueItem) => `/admin/${item.content_type}s/${item.content_id}/edit`;
+
+export default function ReviewQueuePage() {
+  const queryClient = useQueryClient();
+  const navigate = useNavigate();
+  const [rejecting, setRejecting] = useState<number | null>(null);
+  const [reasons, setReasons] = useState<Record<number, string>>({});
+
+  const { data: queue = [], isLoading } = useQuery({
+    queryKey: ['review-queue'],
+    queryFn: () => workflowService.getReviewQueue(),
+  });
+
+  const onError = (fallback: string) => (error: any) => {
+    toast.error(error?.response?.data?.error || fallback);
+  };
+
+  const invalidateQueue = () => queryClient.invalidateQueries({ queryKey: ['review-queue'] });
+
+  const approveMutation = useMutation({
+    mutationFn: (versionId: number) => workflowService.approve(versionId),
+    onSuccess: (result) => {
+      toast.success(
+        result.workflow_stage === 'approved'
+          ? 'Approved — ready to publish'
+          : `Approval recorded (${result.approvals_received}/${result.approvals_required})`
+      );
+      invalidateQueue();
+    },
+    onError: onError('Failed to approve'),
+  });
+
+  const rejectMutation = useMutation({
+    mutationFn: ({ versionId, reason }: { versionId: number; reason: string }) =>
+      workflowService.reject(versionId, reason),
+    onSuccess: (_, { versionId }) => {
+      toast.success('Sent back for changes');
+      setRejecting(null);
+      setReasons((prev) => ({ ...prev, [versionId]: '' }));
+      invalidateQueue();
+    },
+    onError: onError('Failed to reject'),
+  });
+
+  const handleReject = (item: ReviewQueueItem) => {
+    const reason = reasons[item.version_id]?.trim();
+    if (!reason) {
+      toast.error('Add a reason so the author knows what to change.');
+      return;
+    }
+    rejectMutation.mutate({ versionId: item.version_id, reason });
+  };
+
+  return (
+    <div className="space-y-6">
+      <div>
+        <h1 className="text-2xl font-bold text-gray-900">Review Queue</h1>
+        <p className="text-gray-600">Approve or send back content submitted for review. Approved content can be published from the editor.</p>
+      </div>
+
+      {isLoading ? (
+        <div className="flex justify-center py-12">
+          <LoadingSpinner size="lg" />
+        </div>
+      ) : queue.length === 0 ? (
+        <div className="bg-white border border-dashed border-gray-300 rounded-lg p-10 text-center">
+          <ClipboardCheck className="h-8 w-8 text-gray-400 mx-auto" />
+          <h2 className="text-lg font-medium text-gray-900 mt-2">Nothing to review</h2>
+          <p className="text-sm text-gray-500 mt-2">Content submitted for review will appear here.</p>
+        </div>
+      ) : (
+        <div className="space-y-4">
+          {queue.map((item) => (
+            <div key={item.version_id} className="bg-white border border-gray-200 rounded-lg shadow-sm p-6 space-y-4">
+              <div className="flex flex-wrap items-start justify-between gap-3">
+                <div>
+                  <Link
+                    to={editPath(item)}
+                    className="text-sm font-semibold text-gray-900 hover:text-primary-600"
+                  >
+                    {item.title}
+                  </Link>
+                  <p className="text-xs text-gray-500">
+                    {item.content_type === 'post' ? 'Post' : 'Page'} · v{item.version_number} · submitted by{' '}
+                    {item.submitted_by_name || 'unknown'} {formatRelativeTime(item.submitted_at)}
+                  </p>
+                </div>
+                <span
+                  className={`inline-flex items-center px-3 py-1 rounded-full text-xs font-medium ${
+                    item.workflow_stage === 'approved'
+                      ? 'bg-green-100 text-green-700'
+                      : 'bg-yellow-100 text-yellow-700'
+                  }`}
+                >
+                  {item.workflow_stage === 'approved'
+                    ? 'Approved'
+                    : `In review · ${item.approvals_received}/${item.approvals_required} approvals`}
+                </span>
+              </div>
+
+              {rejecting === item.version_id && (
+                <Textarea
+                  label="Reason for changes"
+                  name={`reject_reason_${item.version_id}`}
+                  placeholder="What needs to change before this can be published?"
+                  value={reasons[item.version_id] ?? ''}
+                  onChange={(e) => setReasons((prev) => ({ ...prev, [item.version_id]: e.target.value }))}
+                  rows={3}
+                />
+              )}
+
+              <div className="flex flex-wrap justify-end gap-2">
+                {rejecting === item.version_id ? (
+                  <>
+                    <Button type="button" size="sm" variant="outline" onClick={() => setRejecting(null)}>
+                      Cancel
+                    </Button>
+                    <Button
+                      type="button"
+                      size="sm"
+                      variant="danger"
+                      icon={<XCircle className="h-4 w-4" />}
+                      onClick={() => handleReject(item)}
+                      loading={rejectMutation.isPending}
+                    >
+                      Send back
+                    </Button>
+                  </>
+                ) : (
+                  <>
+                    <Button
+                      type="button"
+                      size="sm"
+                      variant="outline"
+                      icon={<XCircle className="h-4 w-4" />}
+                      onClick={() => setRejecting(item.version_id)}
+                    >
+                      Request changes
+                    </Button>
+                    {item.workflow_stage === 'approved' ? (
+                      <Button
+                        type="button"
+                        size="sm"
+                        icon={<Send className="h-4 w-4" />}
+                        onClick={() => navigate(editPath(item))}
+                      >
+                        Open to publish
+                      </Button>
+                    ) : (
+                      <Button
+                        type="button"
+                        size="sm"
+                        icon={<CheckCircle className="h-4 w-4" />}
+                        onClick={() => approveMutation.mutate(item.version_id)}
+                        loading={approveMutation.isPending && approveMutation.variables === item.version_id}
+                      >
+                        Approve
+                      </Button>
+                    )}
+                  </>
+                )}
+              </div>
+            </div>
+          ))}
+        </div>
+      )}
+    </div>
+  );
+}
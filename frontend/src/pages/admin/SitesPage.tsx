@@ -4,7 +4,7 @@ import Modal from '../../components/ui/Modal';
 import Button from '../../components/ui/Button';
 import DataTable from '../../components/ui/DataTable';
 import { toast } from 'react-hot-toast';
-import { fetchSites, createSite, updateSite, deleteSite } from '../../services/sites';
+import { fetchSites, createSite, updateSite, deleteSite, UpdateSiteDto } from '../../services/sites';
 import { fetchDomains } from '../../services/domains';
 import { Edit3, Menu, Trash2 } from 'lucide-react';
 
@@ -31,6 +31,11 @@ interface SiteFormData {
   description?: string;
   is_default?: boolean;
   is_active?: boolean;
+  default_locale: string;
+  // Comma-separated language tags, e.g. "en, de, fr"
+  locales: string;
+  feed_content: 'full' | 'excerpt';
+  robots_txt: string;
 }
 
 export default function SitesPage() {
@@ -45,6 +50,10 @@ export default function SitesPage() {
     description: '',
     is_default: false,
     is_active: true,
+    default_locale: 'en',
+    locales: 'en',
+    feed_content: 'full',
+    robots_txt: '',
   });
 
   const queryClient = useQueryClient();
@@ -77,7 +86,7 @@ export default function SitesPage() {
 
   // Update site mutation
   const updateMutation = useMutation({
-    mutationFn: ({ id, data }: { id: number; data: Partial<SiteFormData> }) =>
+    mutationFn: ({ id, data }: { id: number; data: UpdateSiteDto }) =>
       updateSite(id, data),
     onSuccess: () => {
       queryClient.invalidateQueries({ queryKey: ['sites'] });
@@ -112,6 +121,10 @@ export default function SitesPage() {
       description: '',
       is_default: false,
       is_active: true,
+      default_locale: 'en',
+      locales: 'en',
+      feed_content: 'full',
+      robots_txt: '',
     });
   };
 
@@ -125,6 +138,10 @@ export default function SitesPage() {
       description: site.description || '',
       is_default: site.is_default,
       is_active: site.is_active,
+      default_locale: site.settings?.default_locale || 'en',
+      locales: (site.settings?.locales || [site.settings?.default_locale || 'en']).join(', '),
+      feed_content: site.settings?.feed_content === 'excerpt' ? 'excerpt' : 'full',
+      robots_txt: site.settings?.robots_txt || '',
     });
     setShowEditModal(true);
   };
@@ -152,13 +169,24 @@ export default function SitesPage() {
   const handleSubmit = (e: React.FormEvent) => {
     e.preventDefault();
 
+    // Languages, feed and crawler options are stored in the site settings alongside anything else kept there
+    const { default_locale, locales, feed_content, robots_txt, ...siteData } = formData;
+    const enabledLocales = locales.split(',').map((locale) => locale.trim()).filter(Boolean);
+    const settings = {
+      ...(showEditModal ? selectedSite?.settings : {}),
+      default_locale,
+      locales: Array.from(new Set([default_locale, ...enabledLocales])),
+      feed_content,
+      robots_txt,
+    };
+
     if (showEditModal && selectedSite) {
       updateMutation.mutate({
         id: selectedSite.id,
-        data: formData,
+        data: { ...siteData, settings },
       });
     } else {
-      createMutation.mutate(formData);
+      createMutation.mutate({ ...siteData, settings });
     }
   };
 
@@ -340,6 +368,79 @@ export default function SitesPage() {
                 />
               </div>
 
+              <div className="grid grid-cols-2 gap-4">
+                <div>
+                  <label className="block text-sm font-medium text-gray-700">
+                    Default Language
+                  </label>
+                  <input
+                    type="text"
+                    value={formData.default_locale}
+                    onChange={(e) => setFormData({ ...formData, default_locale: e.target.value })}
+                    className="mt-1 block w-full px-3 py-2 border border-gray-300 rounded-md shadow-sm focus:outline-none focus:ring-indigo-500 focus:border-indigo-500"
+                    placeholder="en"
+                    pattern="[a-z]{2,3}(-[A-Z]{2})?"
+                    title="A language code such as en, de or pt-BR"
+                    required
+                  />
+                </div>
+                <div>
+                  <label className="block text-sm font-medium text-gray-700">
+                    Enabled Languages
+                  </label>
+                  <input
+                    type="text"
+                    value={formData.locales}
+                    onChange={(e) => setFormData({ ...formData, locales: e.target.value })}
+                    className="mt-1 block w-full px-3 py-2 border border-gray-300 rounded-md shadow-sm focus:outline-none focus:ring-indigo-500 focus:border-indigo-500"
+                    placeholder="en, de, fr"
+                  />
+                </div>
+                <p className="col-span-2 text-sm text-gray-500">
+                  The default language is served at /blog, other languages under a prefix such as /de/blog
+                </p>
+              </div>
+
+              <fieldset>
+                <legend className="block text-sm font-medium text-gray-700">
+                  Feed Content
+                </legend>
+                <div className="mt-1 flex gap-6">
+                  {([['full', 'Full post'], ['excerpt', 'Excerpt only']] as const).map(([value, label]) => (
+                    <label key={value} className="flex items-center">
+                      <input
+                        type="radio"
+                        name="feed_content"
+                        value={value}
+                        checked={formData.feed_content === value}
+                        onChange={() => setFormData({ ...formData, feed_content: value })}
+                        className="border-gray-300 text-indigo-600 focus:ring-indigo-500"
+                      />
+                      <span className="ml-2 text-sm text-gray-700">{label}</span>
+                    </label>
+                  ))}
+                </div>
+                <p className="mt-1 text-sm text-gray-500">
+                  What the RSS, Atom and JSON feeds at /feed.xml, /atom.xml and /feed.json include
+                </p>
+              </fieldset>
+
+              <div>
+                <label className="block text-sm font-medium text-gray-700">
+                  Custom robots.txt Rules
+                </label>
+                <textarea
+                  value={formData.robots_txt}
+                  onChange={(e) => setFormData({ ...formData, robots_txt: e.target.value })}
+                  className="mt-1 block w-full px-3 py-2 border border-gray-300 rounded-md shadow-sm font-mono text-sm focus:outline-none focus:ring-indigo-500 focus:border-indigo-500"
+                  rows={4}
+                  placeholder={'User-agent: BadBot\nDisallow: /'}
+                />
+                <p className="mt-1 text-sm text-gray-500">
+                  Added to the domain's robots.txt. Content excluded from search engines is left out of /sitemap.xml automatically.
+                </p>
+              </div>
+
               <div className="space-y-2">
                 <label className="flex items-center">
                   <input
@@ -0,0 +1,288 @@
+import React, { useState } from 'react';
+import { useQuery, useMutation, useQueryClient } from '@tanstack/react-query';
+import { toast } from 'react-hot-toast';
+import { Edit3, Search, Trash2 } from 'lucide-react';
+import Modal from '../../components/ui/Modal';
+import Button from '../../components/ui/Button';
+import DataTable from '../../components/ui/DataTable';
+import Input from '../../components/ui/Input';
+import { tagsService, TagWithUsage } from '../../services/tags';
+
+export default function TagsPage() {
+  const [renamingTag, setRenamingTag] = useState<TagWithUsage | null>(null);
+  const [newName, setNewName] = useState('');
+  const [showMergeModal, setShowMergeModal] = useState(false);
+  const [mergeTargetId, setMergeTargetId] = useState<number | null>(null);
+  const [selectedIds, setSelectedIds] = useState<number[]>([]);
+  const [searchQuery, setSearchQuery] = useState('');
+
+  const queryClient = useQueryClient();
+
+  const { data: tags, isLoading } = useQuery({
+    queryKey: ['admin-tags'],
+    queryFn: tagsService.list,
+  });
+
+  const selectedTags = (tags || []).filter((tag) => selectedIds.includes(tag.id));
+  const unusedCount = (tags || []).filter((tag) => tag.post_count === 0).length;
+
+  const onMutationError = (fallback: string) => (error: any) => {
+    toast.error(error.response?.data?.error || fallback);
+  };
+
+  const renameMutation = useMutation({
+    mutationFn: ({ id, name }: { id: number; name: string }) => tagsService.rename(id, name),
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: ['admin-tags'] });
+      toast.success('Tag renamed successfully');
+      setRenamingTag(null);
+    },
+    onError: onMutationError('Failed to rename tag'),
+  });
+
+  const mergeMutation = useMutation({
+    mutationFn: ({ sourceIds, targetId }: { sourceIds: number[]; targetId: number }) =>
+      tagsService.merge(sourceIds, targetId),
+    onSuccess: ({ merged }) => {
+      queryClient.invalidateQueries({ queryKey: ['admin-tags'] });
+      toast.success(`Merged ${merged} tag${merged === 1 ? '' : 's'}`);
+      setShowMergeModal(false);
+      setSelectedIds([]);
+    },
+    onError: onMutationError('Failed to merge tags'),
+  });
+
+  const deleteUnusedMutation = useMutation({
+    mutationFn: (ids?: number[]) => tagsService.deleteUnused(ids),
+    onSuccess: ({ deleted }) => {
+      queryClient.invalidateQueries({ queryKey: ['admin-tags'] });
+      toast.success(`Deleted ${deleted} unused tag${deleted === 1 ? '' : 's'}`);
+      setSelectedIds([]);
+    },
+    onError: onMutationError('Failed to delete tags'),
+  });
+
+  const toggleSelected = (id: number) => {
+    setSelectedIds((ids) => (ids.includes(id) ? ids.filter((selected) => selected !== id) : [...ids, id]));
+  };
+
+  const handleRename = (tag: TagWithUsage) => {
+    setRenamingTag(tag);
+    setNewName(tag.name);
+  };
+
+  const handleRenameSubmit = (e: React.FormEvent) => {
+    e.preventDefault();
+    if (renamingTag) {
+      renameMutation.mutate({ id: renamingTag.id, name: newName });
+    }
+  };
+
+  const openMergeModal = () => {
+    // Default to keeping the most used of the selected tags
+    const mostUsed = [...selectedTags].sort((a, b) => b.post_count - a.post_count)[0];
+    setMergeTargetId(mostUsed?.id ?? null);
+    setShowMergeModal(true);
+  };
+
+  const handleMergeSubmit = (e: React.FormEvent) => {
+    e.preventDefault();
+    if (mergeTargetId !== null) {
+      mergeMutation.mutate({ sourceIds: selectedIds.filter((id) => id !== mergeTargetId), targetId: mergeTargetId });
+    }
+  };
+
+  const handleDeleteSelected = () => {
+    const unused = selectedTags.filter((tag) => tag.post_count === 0);
+    if (unused.length === 0) {
+      toast.error('Only unused tags can be deleted; merge tags that are still in use instead');
+      return;
+    }
+    if (window.confirm(`Delete ${unused.length} unused tag${unused.length === 1 ? '' : 's'}? Selected tags still in use are kept.`)) {
+      deleteUnusedMutation.mutate(unused.map((tag) => tag.id));
+    }
+  };
+
+  const handleDeleteAllUnused = () => {
+    if (window.confirm(`Delete all ${unusedCount} tags no post uses?`)) {
+      deleteUnusedMutation.mutate(undefined);
+    }
+  };
+
+  const filteredTags = (tags || []).filter((tag) => {
+    const search = searchQuery.toLowerCase();
+    return tag.name.toLowerCase().includes(search) || tag.slug.includes(search);
+  });
+
+  const columns = [
+    {
+      key: 'select',
+      label: '',
+      render: (_: unknown, tag: TagWithUsage) => (
+        <input
+          type="checkbox"
+          aria-label={`Select ${tag.name}`}
+          checked={selectedIds.includes(tag.id)}
+          onChange={() => toggleSelected(tag.id)}
+          className="rounded border-gray-300"
+        />
+      ),
+    },
+    {
+      key: 'name',
+      label: 'Name',
+      render: (value: string) => <span className="font-medium">{value}</span>,
+    },
+    {
+      key: 'slug',
+      label: 'Archive',
+      render: (value: string) => <code className="text-sm bg-gray-100 px-2 py-1 rounded">/tag/{value}</code>,
+    },
+    {
+      key: 'post_count',
+      label: 'Posts',
+      render: (value: number, tag: TagWithUsage) =>
+        value === 0 ? (
+          <span className="inline-flex items-center px-2 py-1 rounded text-xs font-medium bg-gray-100 text-gray-600">
+            Unused
+          </span>
+        ) : (
+          <span className="text-sm" title={`${tag.published_post_count} published`}>{value}</span>
+        ),
+    },
+  ];
+
+  const actions = [
+    {
+      label: 'Rename',
+      icon: <Edit3 />,
+      onClick: handleRename,
+      variant: 'primary' as const,
+    },
+  ];
+
+  return (
+    <div className="space-y-6">
+      <div className="flex justify-between items-center">
+        <div>
+          <h1 className="text-2xl font-bold text-gray-900">Tags</h1>
+          <p className="text-gray-600 mt-1">
+            Tags are added while writing posts. Rename them, merge duplicates and remove the ones no post uses.
+          </p>
+        </div>
+        <Button
+          variant="secondary"
+          onClick={handleDeleteAllUnused}
+          disabled={unusedCount === 0 || deleteUnusedMutation.isPending}
+        >
+          <Trash2 className="mr-2 h-4 w-4" />
+          Delete Unused ({unusedCount})
+        </Button>
+      </div>
+
+      <div className="flex flex-col sm:flex-row gap-4 items-center">
+        <div className="relative flex-1 w-full">
+          <Search className="absolute left-3 top-1/2 transform -translate-y-1/2 text-gray-400 h-4 w-4" />
+          <Input
+            type="text"
+            placeholder="Search tags..."
+            value={searchQuery}
+            onChange={(e) => setSearchQuery(e.target.value)}
+            className="pl-10"
+          />
+        </div>
+        {selectedIds.length > 0 && (
+          <div className="flex items-center gap-2">
+            <span className="text-sm text-gray-600">{selectedIds.length} selected</span>
+            <Button onClick={openMergeModal} disabled={selectedIds.length < 2}>
+              Merge
+            </Button>
+            <Button variant="secondary" onClick={handleDeleteSelected}>
+              Delete
+            </Button>
+          </div>
+        )}
+      </div>
+
+      {isLoading ? (
+        <div className="flex justify-center py-8">
+          <div className="animate-spin rounded-full h-8 w-8 border-b-2 border-indigo-600"></div>
+        </div>
+      ) : (
+        <DataTable
+          data={filteredTags}
+          columns={columns}
+          actions={actions}
+        />
+      )}
+
+      {renamingTag && (
+        <Modal title="Rename Tag" onClose={() => setRenamingTag(null)}>
+          <form onSubmit={handleRenameSubmit} className="space-y-4">
+            <div>
+              <label htmlFor="tag-name" className="block text-sm font-medium text-gray-700">
+                Name
+              </label>
+              <input
+                id="tag-name"
+                type="text"
+                value={newName}
+                onChange={(e) => setNewName(e.target.value)}
+                className="mt-1 block w-full px-3 py-2 border border-gray-300 rounded-md shadow-sm focus:outline-none focus:ring-indigo-500 focus:border-indigo-500"
+                maxLength={100}
+                required
+              />
+              <p className="mt-1 text-sm text-gray-500">
+                The archive URL changes with the name. To combine this tag with an existing one, merge them instead.
+              </p>
+            </div>
+
+            <div className="flex justify-end space-x-3 pt-4">
+              <Button type="button" variant="secondary" onClick={() => setRenamingTag(null)}>
+                Cancel
+              </Button>
+              <Button type="submit" disabled={renameMutation.isPending}>
+                {renameMutation.isPending ? 'Saving...' : 'Rename Tag'}
+              </Button>
+            </div>
+          </form>
+        </Modal>
+      )}
+
+      {showMergeModal && (
+        <Modal title="Merge Tags" onClose={() => setShowMergeModal(false)}>
+          <form onSubmit={handleMergeSubmit} className="space-y-4">
+            <p className="text-sm text-gray-600">
+              Posts tagged with any of the selected tags get the tag you keep. The other tags are deleted.
+            </p>
+            <fieldset className="space-y-2">
+              <legend className="block text-sm font-medium text-gray-700 mb-1">Keep</legend>
+              {selectedTags.map((tag) => (
+                <label key={tag.id} className="flex items-center text-sm text-gray-700">
+                  <input
+                    type="radio"
+                    name="merge-target"
+                    checked={mergeTargetId === tag.id}
+                    onChange={() => setMergeTargetId(tag.id)}
+                    className="mr-2"
+                  />
+                  {tag.name}
+                  <span className="ml-2 text-gray-500">({tag.post_count} posts)</span>
+                </label>
+              ))}
+            </fieldset>
+
+            <div className="flex justify-end space-x-3 pt-4">
+              <Button type="button" variant="secondary" onClick={() => setShowMergeModal(false)}>
+                Cancel
+              </Button>
+              <Button type="submit" disabled={mergeTargetId === null || mergeMutation.isPending}>
+                {mergeMutation.isPending ? 'Merging...' : 'Merge Tags'}
+              </Button>
+            </div>
+          </form>
+        </Modal>
+      )}
+    </div>
+  );
+}
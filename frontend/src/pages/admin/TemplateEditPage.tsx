@@ -1,6 +1,6 @@
-import { useEffect, useState } from 'react';
+import { useCallback, useEffect, useState } from 'react';
 import { useParams, useNavigate, Link } from 'react-router-dom';
-import { templatesService, type UpdateTemplateData, type Template } from '@/services/templates';
+import { templatesService, type UpdateTemplateData, type Template, type TemplatePageStatus } from '@/services/templates';
 import Button from '@/components/ui/Button';
 import Input from '@/components/ui/Input';
 import Textarea from '@/components/ui/Textarea';
@@ -13,6 +13,17 @@ export default function TemplateEditPage() {
   const [form, setForm] = useState<UpdateTemplateData>({});
   const [schemaText, setSchemaText] = useState('{}');
   const [defaultText, setDefaultText] = useState('{}');
+  const [version, setVersion] = useState<number | undefined>(undefined);
+  const [pages, setPages] = useState<TemplatePageStatus[]>([]);
+  const [migrating, setMigrating] = useState(false);
+
+  // Pages using the template, to bring up to date after a schema change
+  const loadPages = useCallback(async () => {
+    try {
+      const r = await templatesService.pages(Number(id));
+      setPages((r.data as unknown as TemplatePageStatus[]) || []);
+    } catch { /* the panel stays empty */ }
+  }, [id]);
 
   useEffect(() => {
     (async () => {
@@ -22,10 +33,12 @@ export default function TemplateEditPage() {
         setForm({ key: t.key, name: t.name, description: t.description, enabled: t.enabled });
         setSchemaText(JSON.stringify(t.schema || {}, null, 2));
         setDefaultText(JSON.stringify(t.default_data || {}, null, 2));
+        setVersion(t.version);
+        await loadPages();
       } catch { toast.error('Failed to load template'); }
       finally { setLoading(false); }
     })();
-  }, [id]);
+  }, [id, loadPages]);
 
   const onChange = (e: any) => setForm(prev => ({ ...prev, [e.target.name]: e.target.type === 'checkbox' ? e.target.checked : e.target.value }));
 
@@ -34,13 +47,43 @@ export default function TemplateEditPage() {
     try {
       const schema = schemaText.trim() ? JSON.parse(schemaText) : {};
       const def = defaultText.trim() ? JSON.parse(defaultText) : {};
-      await templatesService.update(Number(id), { ...form, schema, default_data: def });
+      const r = await templatesService.update(Number(id), { ...form, schema, default_data: def });
+      const updated = r.data as unknown as Template;
+      // A new schema version leaves existing pages to migrate, so stay here for that
+      if (updated?.version !== undefined && updated.version !== version && pages.length > 0) {
+        setVersion(updated.version);
+        await loadPages();
+        toast.success('Template updated. Migrate the pages using it to the new schema below.');
+        return;
+      }
       toast.success('Template updated'); nav('/admin/templates');
     } catch (err: any) {
-      toast.error(err?.response?.data?.error || 'Update failed');
+      const apiError = err?.response?.data;
+      const detail = apiError?.details?.[0];
+      toast.error(detail ? `${apiError.error}: ${detail.field} ${detail.message}` : apiError?.error || 'Update failed');
     }
   };
 
+  const onMigrate = async () => {
+    setMigrating(true);
+    try {
+      const r = await templatesService.migratePages(Number(id));
+      const { migrated, failed } = r.data as unknown as { migrated: number; failed: TemplatePageStatus[] };
+      if (failed.length > 0) {
+        toast.error(`Migrated ${migrated} page${migrated === 1 ? '' : 's'}; ${failed.length} still need editing`);
+      } else {
+        toast.success(`Migrated ${migrated} page${migrated === 1 ? '' : 's'}`);
+      }
+      await loadPages();
+    } catch (err: any) {
+      toast.error(err?.response?.data?.error || 'Migration failed');
+    } finally {
+      setMigrating(false);
+    }
+  };
+
+  const outdatedPages = pages.filter(p => p.template_version !== version || p.errors.length > 0);
+
   if (loading) return <div className="min-h-[40vh] flex items-center justify-center"><LoadingSpinner/></div>;
 
   return (
@@ -62,6 +105,45 @@ export default function TemplateEditPage() {
         <Textarea label="Default Data (JSON)" value={defaultText} onChange={e => setDefaultText(e.target.value)} rows={6} />
         <Button type="submit">Save Changes</Button>
       </form>
+
+      <div className="bg-white p-6 rounded-lg border space-y-4">
+        <div className="flex items-center justify-between">
+          <div>
+            <h2 className="text-lg font-medium text-gray-900">Pages using this template</h2>
+            <p className="text-sm text-gray-600">
+              Schema version {version ?? 1}. After changing the schema, migrate existing pages: new fields get their
+              default and removed fields are dropped. Pages that still don't fit are listed for editing.
+            </p>
+          </div>
+          <Button variant="secondary" onClick={onMigrate} disabled={migrating || outdatedPages.length === 0}>
+            {migrating ? 'Migrating...' : `Migrate Pages (${outdatedPages.length})`}
+          </Button>
+        </div>
+        {pages.length === 0 ? (
+          <p className="text-sm text-gray-500">No pages use this template.</p>
+        ) : (
+          <ul className="divide-y divide-gray-200">
+            {pages.map(p => (
+              <li key={p.id} className="py-3 flex items-start justify-between gap-4">
+                <div>
+                  <Link to={`/admin/pages/${p.id}/edit`} className="text-sm font-medium text-primary-600 hover:underline">{p.title}</Link>
+                  <span className="ml-2 text-sm text-gray-500">/page/{p.path}</span>
+                  {p.errors.map(e => (
+                    <p key={e.field} className="text-sm text-red-600">{e.field.replace(/^data\./, '')} {e.message}</p>
+                  ))}
+                </div>
+                {p.errors.length > 0 ? (
+                  <span className="text-xs px-2 py-1 rounded bg-red-100 text-red-800">Needs editing</span>
+                ) : p.template_version !== version ? (
+                  <span className="text-xs px-2 py-1 rounded bg-yellow-100 text-yellow-800">Outdated</span>
+                ) : (
+                  <span className="text-xs px-2 py-1 rounded bg-green-100 text-green-800">Up to date</span>
+                )}
+              </li>
+            ))}
+          </ul>
+        )}
+      </div>
     </div>
   );
 }
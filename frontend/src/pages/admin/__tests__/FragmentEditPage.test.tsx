@@ -0,0 +1,116 @@
+import { vi, describe, it, expect, beforeEach } from 'vitest';
+import { render, screen, fireEvent, waitFor, within } from '@testing-library/react';
+import { MemoryRouter, Route, Routes } from 'react-router-dom';
+import { QueryClient, QueryClientProvider } from '@tanstack/react-query';
+import FragmentEditPage from '../FragmentEditPage';
+import { fragmentsService } from '@/services/fragments';
+
+vi.mock('@/services/fragments', async (importOriginal) => ({
+  ...(await importOriginal<typeof import('@/services/fragments')>()),
+  fragmentsService: {
+    get: vi.fn(),
+    create: vi.fn(),
+    update: vi.fn(),
+    usages: vi.fn(),
+    versions: vi.fn(),
+    restoreVersion: vi.fn()
+  }
+}));
+vi.mock('@/components/ui/RichTextEditor', () => ({
+  default: ({ value, onChange }: { value: string; onChange: (html: string) => void }) => (
+    <textarea aria-label="Content" value={value} onChange={(e) => onChange(e.target.value)} />
+  )
+}));
+vi.mock('react-hot-toast', () => ({ toast: { success: vi.fn(), error: vi.fn() } }));
+
+const mockFragmentsService = vi.mocked(fragmentsService);
+
+const fragment = {
+  id: 3,
+  key: 'newsletter',
+  name: 'Newsletter',
+  description: null,
+  content: '<p>Subscribe</p>',
+  created_at: '2026-01-01T10:00:00Z',
+  updated_at: '2026-01-02T10:00:00Z'
+};
+
+const version = (id: number, version_number: number, change_summary: string) => ({
+  id,
+  site_id: 1,
+  content_type: 'fragment',
+  content_id: 3,
+  version_number,
+  version_type: 'published' as const,
+  is_current_draft: false,
+  is_current_published: version_number === 2,
+  title: 'Newsletter',
+  change_summary,
+  created_by: 1,
+  created_at: '2026-01-02T10:00:00Z'
+});
+
+function renderPage(path: string) {
+  return render(
+    <QueryClientProvider client={new QueryClient()}>
+      <MemoryRouter initialEntries={[path]}>
+        <Routes>
+          <Route path="/admin/fragments/new" element={<FragmentEditPage />} />
+          <Route path="/admin/fragments/:id/edit" element={<FragmentEditPage />} />
+        </Routes>
+      </MemoryRouter>
+    </QueryClientProvider>
+  );
+}
+
+describe('FragmentEditPage', () => {
+  beforeEach(() => {
+    vi.clearAllMocks();
+    mockFragmentsService.get.mockResolvedValue(fragment);
+    mockFragmentsService.usages.mockResolvedValue([
+      { content_type: 'post', content_id: 7, title: 'Hello world', url: '/blog/hello-world', published: true, via: 'content' },
+      { content_type: 'page', content_id: 9, title: 'Launch', url: '/page/launch', published: false, via: 'data' }
+    ]);
+    mockFragmentsService.versions.mockResolvedValue([version(21, 2, 'Updated'), version(20, 1, 'Created')]);
+  });
+
+  it('shows where the fragment is used and keeps its key', async () => {
+    renderPage('/admin/fragments/3/edit');
+
+    const usages = await screen.findByRole('list', { name: 'Where used' });
+    expect(within(usages).getByRole('link', { name: 'Hello world' })).toHaveAttribute('href', '/admin/posts/7/edit');
+    expect(within(usages).getByRole('link', { name: 'Launch' })).toHaveAttribute('href', '/admin/pages/9/edit');
+    expect(within(usages).getByText('Page, fragment block, not published')).toBeInTheDocument();
+    // Posts embed the fragment with its token, so the key cannot change
+    expect(screen.getByLabelText(/Key/)).toBeDisabled();
+  });
+
+  it('restores an earlier version', async () => {
+    mockFragmentsService.restoreVersion.mockResolvedValue(fragment);
+    renderPage('/admin/fragments/3/edit');
+
+    fireEvent.click(await screen.findByRole('button', { name: 'Restore version 1' }));
+
+    await waitFor(() => expect(mockFragmentsService.restoreVersion).toHaveBeenCalledWith(3, 20));
+    expect(screen.queryByRole('button', { name: 'Restore version 2' })).toBeNull();
+  });
+
+  it('takes the key of a new fragment from its name', async () => {
+    mockFragmentsService.create.mockResolvedValue({ ...fragment, id: 4, key: 'author-bio', name: 'Author Bio' });
+    renderPage('/admin/fragments/new');
+
+    fireEvent.change(screen.getByLabelText(/Name/), { target: { value: 'Author Bio' } });
+    expect(screen.getByText('{{fragment:author-bio}}')).toBeInTheDocument();
+    fireEvent.change(screen.getByLabelText('Content'), { target: { value: '<p>Writes things</p>' } });
+    fireEvent.click(screen.getByRole('button', { name: 'Create Fragment' }));
+
+    await waitFor(() =>
+      expect(mockFragmentsService.create).toHaveBeenCalledWith({
+        key: 'author-bio',
+        name: 'Author Bio',
+        description: null,
+        content: '<p>Writes things</p>'
+      })
+    );
+  });
+});
@@ -0,0 +1,275 @@
+import { vi, describe, it, expect, beforeEach } from 'vitest';
+import { render, screen, fireEvent, waitFor } from '@testing-library/react';
+import { QueryClient, QueryClientProvider } from '@tanstack/react-query';
+import { MemoryRouter } from 'react-router-dom';
+import MediaPage from '../MediaPage';
+import { mediaService } from '@/services/media';
+import { MediaFile } from '@/types';
+import { toast } from 'react-hot-toast';
+
+vi.mock('@/services/media', () => ({
+  mediaService: {
+    getMediaFiles: vi.fn(),
+    getFolders: vi.fn(),
+    getTags: vi.fn(),
+    uploadFile: vi.fn(),
+    updateMediaFile: vi.fn(),
+    replaceMediaFile: vi.fn(),
+    getMediaUsages: vi.fn(),
+    getNearDuplicates: vi.fn(),
+    mergeMediaFiles: vi.fn(),
+    bulkMoveMediaFiles: vi.fn(),
+    bulkTagMediaFiles: vi.fn(),
+    bulkDeleteMediaFiles: vi.fn(),
+    createFolder: vi.fn(),
+    updateFolder: vi.fn(),
+    deleteFolder: vi.fn()
+  }
+}));
+vi.mock('react-hot-toast', () => ({ toast: { success: vi.fn(), error: vi.fn() } }));
+
+const mockMediaService = vi.mocked(mediaService);
+
+const mediaFile = (overrides: Partial<MediaFile> = {}): MediaFile => ({
+  id: 1,
+  filename: '1-1.webp',
+  original_name: 'beach.jpg',
+  file_path: '/uploads/1-1.webp',
+  file_size: 2048,
+  mime_type: 'image/webp',
+  uploaded_by: 1,
+  created_at: '2026-09-01T10:00:00Z',
+  folder_id: null,
+  tags: [],
+  ...overrides,
+});
+
+const pagination = (page: number, hasNextPage: boolean) => ({
+  page,
+  limit: 40,
+  totalCount: 3,
+  totalPages: 2,
+  hasNextPage,
+  hasPreviousPage: page > 1,
+});
+
+const folders = [
+  { id: 4, parent_id: null, name: 'Products', slug: 'products', path: 'products', media_count: 2 },
+  { id: 9, parent_id: 4, name: 'Summer', slug: 'summer', path: 'products/summer', media_count: 1 },
+];
+
+function renderPage() {
+  return render(
+    <QueryClientProvider client={new QueryClient({ defaultOptions: { queries: { retry: false } } })}>
+      <MemoryRouter>
+        <MediaPage />
+      </MemoryRouter>
+    </QueryClientProvider>
+  );
+}
+
+describe('MediaPage', () => {
+  beforeEach(() => {
+    vi.clearAllMocks();
+    mockMediaService.getMediaFiles.mockResolvedValue({
+      mediaFiles: [
+        mediaFile(),
+        mediaFile({ id: 2, original_name: 'logo.png', tags: [{ id: 1, name: 'Brand', slug: 'brand' }] }),
+      ],
+      pagination: pagination(1, false),
+    });
+    mockMediaService.getFolders.mockResolvedValue(folders);
+    mockMediaService.getTags.mockResolvedValue([{ id: 1, name: 'Brand', slug: 'brand', media_count: 1 }]);
+    mockMediaService.getMediaUsages.mockResolvedValue([]);
+    vi.spyOn(window, 'confirm').mockReturnValue(true);
+  });
+
+  it('lists the first page of files with their tags and the folder tree', async () => {
+    renderPage();
+
+    expect(await screen.findByText('beach.jpg')).toBeInTheDocument();
+    expect(screen.getByText('logo.png')).toBeInTheDocument();
+    expect(screen.getAllByText('Brand').length).toBeGreaterThan(0);
+    expect(screen.getByRole('button', { name: /^Summer/ })).toBeInTheDocument();
+    expect(mockMediaService.getMediaFiles).toHaveBeenCalledWith(expect.objectContaining({ page: 1, limit: 40 }));
+  });
+
+  it('filters by folder and searches on the server', async () => {
+    renderPage();
+    await screen.findByText('beach.jpg');
+
+    fireEvent.click(screen.getByRole('button', { name: /^Products/ }));
+    await waitFor(() =>
+      expect(mockMediaService.getMediaFiles).toHaveBeenLastCalledWith(expect.objectContaining({ folder_id: 4, page: 1 }))
+    );
+
+    fireEvent.change(screen.getByPlaceholderText(/Search by name/), { target: { value: ' sunset ' } });
+    await waitFor(() =>
+      expect(mockMediaService.getMediaFiles).toHaveBeenLastCalledWith(
+        expect.objectContaining({ folder_id: 4, search: 'sunset' })
+      )
+    );
+  });
+
+  it('lists unfiled files', async () => {
+    renderPage();
+    await screen.findByText('beach.jpg');
+
+    fireEvent.click(screen.getByRole('button', { name: 'Unfiled' }));
+
+    await waitFor(() =>
+      expect(mockMediaService.getMediaFiles).toHaveBeenLastCalledWith(expect.objectContaining({ folder_id: 'none' }))
+    );
+  });
+
+  it('moves, tags and deletes the selected files', async () => {
+    mockMediaService.bulkMoveMediaFiles.mockResolvedValue({ moved: 2 });
+    mockMediaService.bulkTagMediaFiles.mockResolvedValue({});
+    mockMediaService.bulkDeleteMediaFiles.mockResolvedValue({});
+    renderPage();
+    await screen.findByText('beach.jpg');
+
+    fireEvent.click(screen.getByLabelText('Select all'));
+    expect(screen.getByText('2 selected')).toBeInTheDocument();
+
+    fireEvent.change(screen.getByLabelText('Move to folder'), { target: { value: '9' } });
+    fireEvent.click(screen.getByRole('button', { name: 'Move' }));
+    await waitFor(() => expect(mockMediaService.bulkMoveMediaFiles).toHaveBeenCalledWith([1, 2], 9));
+
+    fireEvent.click(await screen.findByLabelText('Select beach.jpg'));
+    fireEvent.change(screen.getByLabelText('Tags'), { target: { value: 'Summer, Beach' } });
+    fireEvent.click(screen.getByRole('button', { name: 'Add tags' }));
+    await waitFor(() =>
+      expect(mockMediaService.bulkTagMediaFiles).toHaveBeenCalledWith([1], { add: ['Summer', 'Beach'], remove: undefined })
+    );
+
+    fireEvent.click(screen.getByRole('button', { name: 'Delete' }));
+    await waitFor(() => expect(mockMediaService.bulkDeleteMediaFiles).toHaveBeenCalledWith([1], undefined));
+  });
+
+  it('asks again before deleting files that are still in use', async () => {
+    mockMediaService.bulkDeleteMediaFiles
+      .mockRejectedValueOnce({ response: { status: 409, data: { error: 'In use', inUse: [{ id: 1, usage_count: 40 }] } } })
+      .mockResolvedValueOnce({});
+    renderPage();
+    await screen.findByText('beach.jpg');
+
+    fireEvent.click(screen.getByLabelText('Select beach.jpg'));
+    fireEvent.click(screen.getByRole('button', { name: 'Delete' }));
+
+    await waitFor(() => expect(mockMediaService.bulkDeleteMediaFiles).toHaveBeenCalledWith([1], true));
+    expect(window.confirm).toHaveBeenLastCalledWith('This file is used in 40 places. Delete it anyway?');
+  });
+
+  it('loads the next page when there are more files', async () => {
+    mockMediaService.getMediaFiles
+      .mockResolvedValueOnce({ mediaFiles: [mediaFile()], pagination: pagination(1, true) })
+      .mockResolvedValueOnce({ mediaFiles: [mediaFile({ id: 3, original_name: 'dunes.jpg' })], pagination: pagination(2, false) });
+    renderPage();
+    await screen.findByText('beach.jpg');
+
+    fireEvent.scroll(window);
+
+    expect(await screen.findByText('dunes.jpg')).toBeInTheDocument();
+    expect(mockMediaService.getMediaFiles).toHaveBeenLastCalledWith(expect.objectContaining({ page: 2 }));
+  });
+
+  it('saves caption, credit, license and tags from the details dialog', async () => {
+    mockMediaService.updateMediaFile.mockResolvedValue({ data: mediaFile({ caption: 'At the beach' }) });
+    renderPage();
+    await screen.findByText('beach.jpg');
+
+    fireEvent.click(screen.getByRole('button', { name: 'Edit details of beach.jpg' }));
+    fireEvent.change(screen.getByLabelText('Caption'), { target: { value: 'At the beach' } });
+    fireEvent.change(screen.getByLabelText('Credit'), { target: { value: 'Photo: Jane Doe' } });
+    fireEvent.change(screen.getByLabelText('License'), { target: { value: 'CC BY 4.0' } });
+    fireEvent.change(screen.getByLabelText('Folder'), { target: { value: '4' } });
+    fireEvent.change(screen.getByLabelText('Tags', { selector: '#tags-input' }), { target: { value: 'Summer, ' } });
+    fireEvent.click(screen.getByRole('button', { name: 'Save' }));
+
+    await waitFor(() =>
+      expect(mockMediaService.updateMediaFile).toHaveBeenCalledWith(1, {
+        alt_text: '',
+        caption: 'At the beach',
+        credit: 'Photo: Jane Doe',
+        license: 'CC BY 4.0',
+        folder_id: 4,
+        tags: ['Summer'],
+      })
+    );
+  });
+
+  it('shows where a file is used and replaces it', async () => {
+    mockMediaService.getMediaUsages.mockResolvedValue([
+      { source_type: 'post', source_id: 8, title: 'Summer sale', url: '/blog/summer-sale', published: true, fields: ['featured_image'] },
+      { source_type: 'page', source_id: 3, title: 'About', url: '/page/about', published: false, fields: ['content'] },
+    ]);
+    mockMediaService.replaceMediaFile.mockResolvedValue({ data: mediaFile() });
+    renderPage();
+    await screen.findByText('beach.jpg');
+
+    fireEvent.click(screen.getByRole('button', { name: 'Edit details of beach.jpg' }));
+
+    expect(await screen.findByRole('link', { name: 'Summer sale' })).toHaveAttribute('href', '/admin/posts/8/edit');
+    expect(screen.getByText('Post, featured image')).toBeInTheDocument();
+    expect(screen.getByText('Page, not published')).toBeInTheDocument();
+
+    const replacement = new File(['new'], 'beach-2.jpg', { type: 'image/jpeg' });
+    fireEvent.change(screen.getByLabelText('Replace file'), { target: { files: [replacement] } });
+
+    await waitFor(() => expect(mockMediaService.replaceMediaFile).toHaveBeenCalledWith(1, replacement));
+  });
+
+  it('tells when an upload is already in the library', async () => {
+    mockMediaService.uploadFile.mockResolvedValue({ data: mediaFile(), duplicate: true });
+    renderPage();
+    await screen.findByText('beach.jpg');
+
+    const upload = new File(['hero'], 'beach.jpg', { type: 'image/jpeg' });
+    fireEvent.change(screen.getByLabelText('Upload Files'), { target: { files: [upload] } });
+
+    await waitFor(() => expect(toast.success).toHaveBeenCalledWith('This file is already in the library'));
+    expect(mockMediaService.uploadFile).toHaveBeenCalledWith(upload, undefined, null);
+  });
+
+  it('merges near-duplicates into the file chosen to keep', async () => {
+    const duplicate = (id: number, name: string, usageCount: number) => ({
+      id,
+      original_name: name,
+      file_path: `/uploads/1-${id}.webp`,
+      file_size: 2048,
+      mime_type: 'image/webp',
+      created_at: '2026-09-01T10:00:00Z',
+      usage_count: usageCount,
+    });
+    mockMediaService.getNearDuplicates.mockResolvedValue([
+      { distance: 3, files: [duplicate(1, 'beach.jpg', 0), duplicate(5, 'beach-small.jpg', 4), duplicate(6, 'beach (1).jpg', 0)] },
+    ]);
+    mockMediaService.mergeMediaFiles.mockResolvedValue({ data: mediaFile({ id: 5 }), merged: 2, updated: 4 });
+    renderPage();
+    await screen.findByText('beach.jpg');
+
+    fireEvent.click(screen.getByRole('button', { name: 'Find near-duplicates' }));
+
+    // The most used file is kept unless another one is chosen
+    expect(await screen.findByLabelText('Keep beach-small.jpg')).toBeChecked();
+    expect(mockMediaService.getNearDuplicates).toHaveBeenCalledWith(6);
+    fireEvent.click(screen.getByLabelText('Keep beach.jpg'));
+    fireEvent.click(screen.getByRole('button', { name: 'Merge into kept file' }));
+
+    await waitFor(() => expect(mockMediaService.mergeMediaFiles).toHaveBeenCalledWith(1, [5, 6]));
+    await waitFor(() => expect(toast.success).toHaveBeenCalledWith('Merged 2 files, updated 4 places'));
+  });
+
+  it('creates a folder inside another one', async () => {
+    mockMediaService.createFolder.mockResolvedValue({ ...folders[1], id: 10, name: 'Winter' });
+    renderPage();
+    await screen.findByText('beach.jpg');
+
+    fireEvent.click(screen.getByRole('button', { name: 'New folder in Products' }));
+    fireEvent.change(screen.getByLabelText(/Name/), { target: { value: 'Winter' } });
+    fireEvent.click(screen.getByRole('button', { name: 'Create' }));
+
+    await waitFor(() => expect(mockMediaService.createFolder).toHaveBeenCalledWith({ name: 'Winter', parent_id: 4 }));
+  });
+});
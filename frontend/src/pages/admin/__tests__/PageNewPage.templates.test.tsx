@@ -3,11 +3,13 @@ import { MemoryRouter } from 'react-router-dom';
 import { render, screen, waitFor, within } from '@testing-library/react';
 import userEvent from '@testing-library/user-event';
 import PageNewPage from '../PageNewPage';
+import { pagesService } from '@/services/pages';
 
 vi.mock('@/services/templates', () => ({
   templatesService: {
     list: vi.fn().mockResolvedValue({ data: [
       { id: 1, key: 'about', name: 'About', enabled: true, default_data: { blocks: [{ type: 'richText', props: { html: '<p>hi</p>' } }] } },
+      { id: 2, key: 'team', name: 'Team', enabled: true, schema: { type: 'object', required: ['heading'], properties: { heading: { type: 'string' } } }, default_data: { heading: 'Our team' } },
     ] }),
   }
 }));
@@ -37,4 +39,29 @@ describe('PageNewPage template select prefill', () => {
     const dataArea = await screen.findByLabelText(/data \(json\)/i);
     expect(dataArea).toHaveDisplayValue(/blocks/);
   });
+
+  it('generates fields for templates with a schema and saves their data', async () => {
+    render(
+      <MemoryRouter>
+        <PageNewPage />
+      </MemoryRouter>
+    );
+
+    const select = await screen.findByLabelText(/template/i);
+    await waitFor(() => expect(within(select).getAllByRole('option').length).toBeGreaterThan(2));
+    await userEvent.selectOptions(select, 'team');
+
+    const heading = await screen.findByLabelText(/Heading/);
+    expect(heading).toHaveValue('Our team');
+    expect(screen.queryByLabelText(/data \(json\)/i)).not.toBeInTheDocument();
+
+    await userEvent.clear(heading);
+    await userEvent.type(heading, 'People');
+    await userEvent.type(screen.getByLabelText(/^Title/), 'Team');
+    await userEvent.click(screen.getByRole('button', { name: /create page/i }));
+
+    await waitFor(() => expect(pagesService.createPage).toHaveBeenCalledWith(
+      expect.objectContaining({ template: 'team', data: { heading: 'People' } })
+    ));
+  });
 });
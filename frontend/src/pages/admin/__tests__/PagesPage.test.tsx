@@ -0,0 +1,83 @@
+import { vi, describe, it, expect, beforeEach } from 'vitest';
+import { render, screen, fireEvent, waitFor } from '@testing-library/react';
+import { MemoryRouter } from 'react-router-dom';
+import { toast } from 'react-hot-toast';
+import PagesPage from '../PagesPage';
+import { pagesService } from '@/services/pages';
+
+vi.mock('@/services/pages', () => ({
+  pagesService: {
+    getAllPages: vi.fn(),
+    reorderPages: vi.fn(),
+    deletePage: vi.fn()
+  }
+}));
+vi.mock('react-hot-toast', () => ({ toast: { success: vi.fn(), error: vi.fn() } }));
+
+const mockPagesService = vi.mocked(pagesService);
+
+const page = (id: number, title: string, path: string, parent_id: number | null, position: number) => ({
+  id, title, slug: path.split('/').pop()!, path, parent_id, position,
+  published: true, seo_indexed: true, created_at: '2024-01-01', updated_at: '2024-01-01'
+});
+
+const pages = [
+  page(1, 'About', 'about', null, 0),
+  page(2, 'Team', 'about/team', 1, 0),
+  page(3, 'Contact', 'contact', null, 1),
+  page(4, 'Careers', 'careers', null, 2),
+];
+
+function renderPage() {
+  return render(
+    <MemoryRouter>
+      <PagesPage />
+    </MemoryRouter>
+  );
+}
+
+function drag(from: number, to: number) {
+  const dataTransfer = {};
+  fireEvent.dragStart(screen.getByTestId(`page-row-${from}`), { dataTransfer });
+  fireEvent.dragOver(screen.getByTestId(`page-row-${to}`), { dataTransfer });
+  fireEvent.drop(screen.getByTestId(`page-row-${to}`), { dataTransfer });
+}
+
+describe('PagesPage', () => {
+  beforeEach(() => {
+    vi.clearAllMocks();
+    mockPagesService.getAllPages.mockResolvedValue({ success: true, data: pages as any });
+    mockPagesService.reorderPages.mockResolvedValue({ success: true } as any);
+  });
+
+  it('lists pages as a tree with their full paths', async () => {
+    renderPage();
+
+    expect(await screen.findByText('/page/about/team')).toBeInTheDocument();
+    expect(mockPagesService.getAllPages).toHaveBeenCalledWith({ tree: true });
+    const rows = screen.getAllByRole('listitem').map((row) => row.querySelector('h3')?.textContent);
+    expect(rows).toEqual(['About', 'Team', 'Contact', 'Careers']);
+  });
+
+  it('nests a page dropped onto another one as its last subpage', async () => {
+    renderPage();
+    await screen.findByText('Careers');
+
+    drag(4, 1);
+
+    await waitFor(() => expect(mockPagesService.reorderPages).toHaveBeenCalledWith([
+      { id: 2, parent_id: 1, position: 0 },
+      { id: 4, parent_id: 1, position: 1 },
+    ]));
+  });
+
+  it('does not move a page below its own subpage', async () => {
+    renderPage();
+    await screen.findByText('Team');
+
+    drag(1, 2);
+
+    expect(toast.error).toHaveBeenCalledWith('A page cannot be moved below itself');
+    expect(mockPagesService.reorderPages).not.toHaveBeenCalled();
+  });
+});
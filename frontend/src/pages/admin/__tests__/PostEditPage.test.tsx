@@ -18,6 +18,24 @@ vi.mock('@/services/posts', () => ({
   },
 }));
 
+vi.mock('@/services/editLocks', async (importOriginal) => ({
+  ...(await importOriginal<typeof import('@/services/editLocks')>()),
+  editLocksService: {
+    acquire: vi.fn().mockResolvedValue({
+      acquired: false,
+      lock: {
+        content_type: 'post',
+        content_id: 1,
+        user: { id: 2, email: 'bob@example.com', first_name: 'Bob' },
+        acquired_at: '2026-01-01T10:02:00',
+        heartbeat_at: '2026-01-01T10:05:00',
+        expires_at: '2026-01-01T10:06:30',
+      },
+    }),
+    release: vi.fn().mockResolvedValue(undefined),
+  },
+}));
+
 vi.mock('@/services/distribution', () => ({
   distributionService: {
     getTargets: vi.fn().mockResolvedValue([]),
@@ -65,6 +83,44 @@ describe('Admin PostEditPage', () => {
       expect(postsService?.updatePost || ({} as any)).toBeDefined();
     });
   });
-});
 
+  it('shows who holds the edit lock', async () => {
+    render(<PostEditPage />, { wrapper: createWrapper() });
+
+    expect(await screen.findByRole('alert')).toHaveTextContent('Bob is editing since 10:02');
+    expect(screen.getByRole('button', { name: /take over/i })).toBeInTheDocument();
+  });
 
+  it('shows the other editor\'s changes when a save conflicts', async () => {
+    const { postsService } = await import('@/services/posts');
+    const current = { id: 9, version_number: 4, title: 'Their title', content: '<p>Theirs</p>', created_at: new Date().toISOString() };
+    (postsService.updatePost as ReturnType<typeof vi.fn>).mockRejectedValueOnce({
+      response: {
+        status: 409,
+        data: {
+          error: 'This post was changed by someone else since you started editing',
+          conflict: {
+            base_version_number: 3,
+            current_version: current,
+            changed_by: { id: 2, email: 'bob@example.com', first_name: 'Bob' },
+            diff: {
+              textDiff: { hunks: [], changes: [{ type: 'add', content: 'Their paragraph', lineNumberNew: 1 }] },
+              statistics: { linesAdded: 1, linesRemoved: 0 },
+            },
+          },
+        },
+      },
+    });
+    render(<PostEditPage />, { wrapper: createWrapper() });
+    await screen.findByText(/Edit Post/i);
+
+    await userEvent.click(screen.getByRole('button', { name: /save changes/i }));
+
+    expect(await screen.findByText('Someone else saved changes')).toBeInTheDocument();
+    expect(screen.getByTestId('conflict-diff')).toHaveTextContent('Their paragraph');
+
+    await userEvent.click(screen.getByRole('button', { name: /load their version/i }));
+    expect(screen.queryByText('Someone else saved changes')).not.toBeInTheDocument();
+    expect(screen.getByDisplayValue('Their title')).toBeInTheDocument();
+  });
+});
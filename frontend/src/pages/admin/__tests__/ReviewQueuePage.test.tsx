@@ -0,0 +1,113 @@
+import { describe, it, vi, expect, beforeEach } from 'vitest';
+import { render, screen, waitFor } from '@testing-library/react';
+import userEvent from '@testing-library/user-event';
+import { QueryClient, QueryClientProvider } from '@tanstack/react-query';
+import { MemoryRouter } from 'react-router-dom';
+import { toast } from 'react-hot-toast';
+import ReviewQueuePage from '../ReviewQueuePage';
+import { workflowService } from '../../../services/workflow';
+import type { ReviewQueueItem } from '../../../services/workflow';
+
+// Mock the workflow service
+vi.mock('../../../services/workflow', () => ({
+  workflowService: {
+    getReviewQueue: vi.fn(),
+    approve: vi.fn(),
+    reject: vi.fn(),
+  },
+}));
+
+// Mock react-hot-toast
+vi.mock('react-hot-toast', () => ({
+  toast: {
+    success: vi.fn(),
+    error: vi.fn(),
+  },
+}));
+
+const renderPage = () => {
+  const queryClient = new QueryClient({
+    defaultOptions: {
+      queries: { retry: false },
+      mutations: { retry: false },
+    },
+  });
+  return render(
+    <QueryClientProvider client={queryClient}>
+      <MemoryRouter>
+        <ReviewQueuePage />
+      </MemoryRouter>
+    </QueryClientProvider>
+  );
+};
+
+const inReview: ReviewQueueItem = {
+  version_id: 12,
+  content_type: 'post',
+  content_id: 4,
+  title: 'Launch announcement',
+  version_number: 3,
+  workflow_stage: 'in_review',
+  submitted_by: 2,
+  submitted_by_name: 'Jane Writer',
+  submitted_at: '2026-01-01T00:00:00Z',
+  approvals_received: 0,
+  approvals_required: 1,
+};
+
+describe('ReviewQueuePage', () => {
+  const mockGetReviewQueue = workflowService.getReviewQueue as ReturnType<typeof vi.fn>;
+  const mockApprove = workflowService.approve as ReturnType<typeof vi.fn>;
+  const mockReject = workflowService.reject as ReturnType<typeof vi.fn>;
+
+  beforeEach(() => {
+    vi.clearAllMocks();
+    mockGetReviewQueue.mockResolvedValue([inReview]);
+  });
+
+  it('shows an empty state when nothing is waiting', async () => {
+    mockGetReviewQueue.mockResolvedValue([]);
+    renderPage();
+
+    expect(await screen.findByText('Nothing to review')).toBeInTheDocument();
+  });
+
+  it('lists submitted content with its approval progress', async () => {
+    renderPage();
+
+    expect(await screen.findByText('Launch announcement')).toBeInTheDocument();
+    expect(screen.getByText(/submitted by Jane Writer/)).toBeInTheDocument();
+    expect(screen.getByText('In review · 0/1 approvals')).toBeInTheDocument();
+  });
+
+  it('approves a version', async () => {
+    const user = userEvent.setup();
+    mockApprove.mockResolvedValue({ workflow_stage: 'approved', approvals_received: 1, approvals_required: 1 });
+    renderPage();
+
+    await user.click(await screen.findByRole('button', { name: /approve/i }));
+
+    await waitFor(() => {
+      expect(mockApprove).toHaveBeenCalledWith(12);
+    });
+    expect(toast.success).toHaveBeenCalledWith('Approved — ready to publish');
+  });
+
+  it('requires a reason before sending content back', async () => {
+    const user = userEvent.setup();
+    mockReject.mockResolvedValue({ id: 1, action: 'rejected' });
+    renderPage();
+
+    await user.click(await screen.findByRole('button', { name: /request changes/i }));
+    await user.click(screen.getByRole('button', { name: /send back/i }));
+    expect(mockReject).not.toHaveBeenCalled();
+    expect(toast.error).toHaveBeenCalled();
+
+    await user.type(screen.getByLabelText(/reason for changes/i), 'Cite the benchmark source');
+    await user.click(screen.getByRole('button', { name: /send back/i }));
+
+    await waitFor(() => {
+      expect(mockReject).toHaveBeenCalledWith(12, 'Cite the benchmark source');
+    });
+  });
+});
@@ -280,7 +280,8 @@ describe('SitesPage', () => {
         title: 'Updated Title',
         description: 'Main site description',
         is_default: true,
-        is_active: true
+        is_active: true,
+        settings: { default_locale: 'en', locales: ['en'], feed_content: 'full', robots_txt: '' }
       });
     });
 
@@ -0,0 +1,70 @@
+import { vi, describe, it, expect, beforeEach } from 'vitest';
+import { render, screen, fireEvent, waitFor } from '@testing-library/react';
+import { QueryClient, QueryClientProvider } from '@tanstack/react-query';
+import TagsPage from '../TagsPage';
+import { tagsService } from '@/services/tags';
+
+vi.mock('@/services/tags', () => ({
+  tagsService: {
+    list: vi.fn(),
+    rename: vi.fn(),
+    merge: vi.fn(),
+    deleteUnused: vi.fn()
+  }
+}));
+vi.mock('react-hot-toast', () => ({ toast: { success: vi.fn(), error: vi.fn() } }));
+
+const mockTagsService = vi.mocked(tagsService);
+
+const tags = [
+  { id: 1, name: 'JavaScript', slug: 'javascript', post_count: 12, published_post_count: 10 },
+  { id: 2, name: 'JS', slug: 'js', post_count: 3, published_post_count: 3 },
+  { id: 3, name: 'Old', slug: 'old', post_count: 0, published_post_count: 0 },
+];
+
+function renderPage() {
+  return render(
+    <QueryClientProvider client={new QueryClient()}>
+      <TagsPage />
+    </QueryClientProvider>
+  );
+}
+
+describe('TagsPage', () => {
+  beforeEach(() => {
+    vi.clearAllMocks();
+    mockTagsService.list.mockResolvedValue(tags);
+    vi.spyOn(window, 'confirm').mockReturnValue(true);
+  });
+
+  it('lists tags with their usage', async () => {
+    renderPage();
+
+    expect(await screen.findByText('JavaScript')).toBeInTheDocument();
+    expect(screen.getByText('Unused')).toBeInTheDocument();
+    expect(screen.getByRole('button', { name: /Delete Unused \(1\)/ })).toBeEnabled();
+  });
+
+  it('merges the selected tags into the most used one by default', async () => {
+    mockTagsService.merge.mockResolvedValue({ merged: 1 });
+    renderPage();
+
+    fireEvent.click(await screen.findByLabelText('Select JavaScript'));
+    fireEvent.click(screen.getByLabelText('Select JS'));
+    fireEvent.click(screen.getByRole('button', { name: 'Merge' }));
+    fireEvent.click(screen.getByRole('button', { name: 'Merge Tags' }));
+
+    await waitFor(() => expect(mockTagsService.merge).toHaveBeenCalledWith([2], 1));
+  });
+
+  it('only deletes the selected tags no post uses', async () => {
+    mockTagsService.deleteUnused.mockResolvedValue({ deleted: 1 });
+    renderPage();
+
+    fireEvent.click(await screen.findByLabelText('Select JS'));
+    fireEvent.click(screen.getByLabelText('Select Old'));
+    fireEvent.click(screen.getByRole('button', { name: 'Delete' }));
+
+    await waitFor(() => expect(mockTagsService.deleteUnused).toHaveBeenCalledWith([3]));
+  });
+});
@@ -0,0 +1,34 @@
+import { Route } from 'react-router-dom';
+import HomePage from './pages/HomePage';
+import BlogPage from './pages/BlogPage';
+import PostPage from './pages/PostPage';
+import CategoryPage from './pages/CategoryPage';
+import TagPage from './pages/TagPage';
+import PageView from './pages/PageView';
+import PublicLayout from './components/layout/PublicLayout';
+import LocaleOutlet from './components/layout/LocaleOutlet';
+
+/**
+ * Routes of the public site, shared by the browser app and the server
+ * renderer (entry-server.tsx), which must not pull in the admin pages
+ */
+export const publicRoutes = (
+  <Route path="/" element={<PublicLayout />}>
+    <Route index element={<HomePage />} />
+    <Route path="blog" element={<BlogPage />} />
+    <Route path="blog/:slug" element={<PostPage />} />
+    {/* Nested categories, e.g. /category/tech/javascript */}
+    <Route path="category/*" element={<CategoryPage />} />
+    <Route path="tag/:slug" element={<TagPage />} />
+    {/* Nested pages, e.g. /page/about/team */}
+    <Route path="page/*" element={<PageView />} />
+
+    {/* Same pages in a non-default language, e.g. /de/blog/:slug */}
+    <Route path=":locale" element={<LocaleOutlet />}>
+      <Route index element={<HomePage />} />
+      <Route path="blog" element={<BlogPage />} />
+      <Route path="blog/:slug" element={<PostPage />} />
+      <Route path="page/*" element={<PageView />} />
+    </Route>
+  </Route>
+);
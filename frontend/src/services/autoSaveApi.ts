@@ -8,6 +8,7 @@ export interface AutoSaveRequest {
   data?: any;
   meta_data?: any;
   content_hash?: string;
+  base_version_number?: number;
 }
 
 export interface AutoSaveResponse {
@@ -22,9 +22,9 @@ export const categoriesService = {
     return response.data;
   },
 
-  // Get single category by slug (public)
-  getCategoryBySlug: async (slug: string): Promise<Category> => {
-    const response = await api.get(`/categories/${slug}`);
+  // Get single category by path, e.g. tech/javascript (public)
+  getCategoryBySlug: async (path: string): Promise<Category> => {
+    const response = await api.get(`/categories/${path.split('/').map(encodeURIComponent).join('/')}`);
     return response.data.category || response.data.data;
   },
 
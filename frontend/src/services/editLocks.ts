@@ -0,0 +1,54 @@
+import api from '@/lib/api';
+import type { EditConflict } from '../types/versioning';
+
+export type LockableContentType = 'post' | 'page';
+
+export interface EditLock {
+  content_type: LockableContentType;
+  content_id: number;
+  user: {
+    id: number;
+    email: string;
+    first_name?: string;
+    last_name?: string;
+  };
+  acquired_at: string;
+  heartbeat_at: string;
+  expires_at: string;
+}
+
+export interface EditLockResult {
+  acquired: boolean;
+  lock: EditLock;
+}
+
+const lockUrl = (contentType: LockableContentType, contentId: number) =>
+  `/content/${contentType}/${contentId}/lock`;
+
+export const editLocksService = {
+  get: async (contentType: LockableContentType, contentId: number): Promise<EditLock | null> =>
+    (await api.get(lockUrl(contentType, contentId))).data.data,
+
+  // Also serves as the heartbeat while the lock is held
+  acquire: async (
+    contentType: LockableContentType,
+    contentId: number,
+    takeover = false
+  ): Promise<EditLockResult> =>
+    (await api.post(lockUrl(contentType, contentId), { takeover })).data.data,
+
+  release: async (contentType: LockableContentType, contentId: number): Promise<void> => {
+    await api.delete(lockUrl(contentType, contentId));
+  },
+};
+
+/**
+ * Pull the conflict details out of a 409 from a post, page or auto-save request
+ */
+export function getEditConflict(error: unknown): EditConflict | null {
+  const response = (error as { response?: { status?: number; data?: any } })?.response;
+  if (response?.status !== 409 || !response.data?.conflict) {
+    return null;
+  }
+  return response.data.conflict as EditConflict;
+}
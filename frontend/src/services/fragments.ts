@@ -0,0 +1,58 @@
+import api from '@/lib/api';
+import type { ContentVersion } from '@/types/versioning';
+
+export interface ContentFragment {
+  id: number;
+  key: string;
+  name: string;
+  description: string | null;
+  content: string;
+  created_at: string;
+  updated_at: string;
+  // Number of posts and pages embedding the fragment, only set in lists
+  usage_count?: number;
+}
+
+export interface FragmentData {
+  key: string;
+  name: string;
+  description: string | null;
+  content: string;
+}
+
+// A post or page embedding a fragment, through a token in its content or a
+// fragment block or field in its page data
+export interface FragmentUsage {
+  content_type: 'post' | 'page';
+  content_id: number;
+  title: string;
+  url: string;
+  published: boolean;
+  via: 'content' | 'data';
+}
+
+// Token that embeds a fragment in post or page content
+export const fragmentToken = (key: string) => `{{fragment:${key}}}`;
+
+export const fragmentsService = {
+  list: async (): Promise<ContentFragment[]> => (await api.get('/fragments')).data.data,
+
+  get: async (id: number): Promise<ContentFragment> => (await api.get(`/fragments/${id}`)).data.data,
+
+  create: async (data: FragmentData): Promise<ContentFragment> => (await api.post('/fragments', data)).data.data,
+
+  // Saves a new version; every post and page using the fragment shows it at once
+  update: async (id: number, data: FragmentData): Promise<ContentFragment> =>
+    (await api.put(`/fragments/${id}`, data)).data.data,
+
+  delete: async (id: number): Promise<void> => {
+    await api.delete(`/fragments/${id}`);
+  },
+
+  usages: async (id: number): Promise<FragmentUsage[]> => (await api.get(`/fragments/${id}/usages`)).data.data,
+
+  versions: async (id: number): Promise<ContentVersion[]> => (await api.get(`/fragments/${id}/versions`)).data.data,
+
+  restoreVersion: async (id: number, versionId: number): Promise<ContentFragment> =>
+    (await api.post(`/fragments/${id}/versions/${versionId}/restore`)).data.data,
+};
@@ -1,13 +1,19 @@
 import api from '@/lib/api';
 import { 
+  MediaDuplicateGroup,
   MediaFile, 
+  MediaFolder,
+  MediaQueryParams,
+  MediaTag,
+  MediaUsage,
   QueryParams, 
-  ApiResponse 
+  ApiResponse,
+  UpdateMediaData
 } from '@/types';
 
 export const mediaService = {
   // Get all media files
-  getMediaFiles: async (params: QueryParams = {}): Promise<ApiResponse<MediaFile[]>> => {
+  getMediaFiles: async (params: MediaQueryParams = {}): Promise<ApiResponse<MediaFile[]>> => {
     const searchParams = new URLSearchParams();
     
     Object.entries(params).forEach(([key, value]) => {
@@ -26,13 +32,20 @@ export const mediaService = {
     return response.data;
   },
 
-  // Upload file
-  uploadFile: async (file: File, altText?: string): Promise<ApiResponse<MediaFile>> => {
+  // Upload file; an exact copy of a file in the library returns that file as a duplicate
+  uploadFile: async (
+    file: File,
+    altText?: string,
+    folderId?: number | null
+  ): Promise<ApiResponse<MediaFile> & { duplicate?: boolean }> => {
     const formData = new FormData();
     formData.append('file', file);
     if (altText) {
       formData.append('alt_text', altText);
     }
+    if (folderId) {
+      formData.append('folder_id', folderId.toString());
+    }
 
     const response = await api.post('/media/upload', formData, {
       headers: {
@@ -58,23 +71,98 @@ export const mediaService = {
   },
 
   // Update media file
-  updateMediaFile: async (id: number, data: { alt_text?: string }): Promise<ApiResponse<MediaFile>> => {
+  updateMediaFile: async (id: number, data: UpdateMediaData): Promise<ApiResponse<MediaFile>> => {
     const response = await api.put(`/media/${id}`, data);
     return response.data;
   },
 
-  // Delete media file
-  deleteMediaFile: async (id: number): Promise<ApiResponse<void>> => {
-    const response = await api.delete(`/media/${id}`);
+  // Replace the file behind a media file, keeping its id and URLs
+  replaceMediaFile: async (id: number, file: File): Promise<ApiResponse<MediaFile>> => {
+    const formData = new FormData();
+    formData.append('file', file);
+
+    const response = await api.post(`/media/${id}/replace`, formData, {
+      headers: {
+        'Content-Type': 'multipart/form-data',
+      },
+    });
+    return response.data;
+  },
+
+  // Get the posts, pages and organizations using a media file
+  getMediaUsages: async (id: number): Promise<MediaUsage[]> => {
+    const response = await api.get(`/media/${id}/usages`);
+    return response.data.data;
+  },
+
+  // Delete media file, force also deletes it while still in use
+  deleteMediaFile: async (id: number, force = false): Promise<ApiResponse<void>> => {
+    const response = await api.delete(`/media/${id}`, { params: force ? { force: true } : undefined });
+    return response.data;
+  },
+
+  // Bulk delete media files, force also deletes files still in use
+  bulkDeleteMediaFiles: async (ids: number[], force = false): Promise<ApiResponse<void>> => {
+    const response = await api.delete('/media/bulk', { data: force ? { ids, force } : { ids } });
+    return response.data;
+  },
+
+  // Move media files into a folder, or out of any folder with null
+  bulkMoveMediaFiles: async (ids: number[], folderId: number | null): Promise<{ moved: number }> => {
+    const response = await api.post('/media/bulk/move', { ids, folder_id: folderId });
+    return response.data;
+  },
+
+  // Add and/or remove tags on media files
+  bulkTagMediaFiles: async (ids: number[], tags: { add?: string[]; remove?: string[] }): Promise<ApiResponse<void>> => {
+    const response = await api.post('/media/bulk/tag', { ids, ...tags });
+    return response.data;
+  },
+
+  // Get media folders in path order
+  getFolders: async (): Promise<MediaFolder[]> => {
+    const response = await api.get('/media/folders');
+    return response.data.data;
+  },
+
+  // Create media folder
+  createFolder: async (data: { name: string; parent_id?: number | null }): Promise<MediaFolder> => {
+    const response = await api.post('/media/folders', data);
+    return response.data.data;
+  },
+
+  // Rename and/or move media folder
+  updateFolder: async (id: number, data: { name?: string; parent_id?: number | null }): Promise<MediaFolder> => {
+    const response = await api.put(`/media/folders/${id}`, data);
+    return response.data.data;
+  },
+
+  // Delete media folder, moving its contents up to its parent
+  deleteFolder: async (id: number): Promise<{ filesMoved: number }> => {
+    const response = await api.delete(`/media/folders/${id}`);
     return response.data;
   },
 
-  // Bulk delete media files
-  bulkDeleteMediaFiles: async (ids: number[]): Promise<ApiResponse<void>> => {
-    const response = await api.delete('/media/bulk', { data: { ids } });
+  // Get groups of exact and near-duplicate files
+  getNearDuplicates: async (maxDistance?: number): Promise<MediaDuplicateGroup[]> => {
+    const response = await api.get('/media/duplicates', {
+      params: maxDistance === undefined ? undefined : { max_distance: maxDistance },
+    });
+    return response.data.data;
+  },
+
+  // Merge duplicates into the file to keep, which content using them then uses
+  mergeMediaFiles: async (keepId: number, mergeIds: number[]): Promise<ApiResponse<MediaFile> & { merged: number; updated: number }> => {
+    const response = await api.post('/media/duplicates/merge', { keep_id: keepId, merge_ids: mergeIds });
     return response.data;
   },
 
+  // Get media tags with their usage
+  getTags: async (): Promise<MediaTag[]> => {
+    const response = await api.get('/media/tags');
+    return response.data.data;
+  },
+
   // Get media by type
   getMediaByType: async (type: string, params: QueryParams = {}): Promise<ApiResponse<MediaFile[]>> => {
     const searchParams = new URLSearchParams();
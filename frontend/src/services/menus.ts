@@ -7,6 +7,9 @@ export interface MenuItem {
   label: string;
   url: string | null;
   page_id: number | null;
+  // Current title and path of the linked page, so the link follows the page when it moves
+  page_title?: string | null;
+  page_path?: string | null;
   position: number;
   is_active: boolean;
   depth: number;
@@ -56,6 +56,42 @@ export interface TransferOwnershipInput {
   newOwnerId: number;
 }
 
+export const API_KEY_SCOPES = [
+  'read:posts',
+  'write:posts',
+  'read:pages',
+  'write:pages',
+  'read:categories',
+  'write:categories',
+  'read:media',
+  'write:media',
+] as const;
+
+export type ApiKeyScope = typeof API_KEY_SCOPES[number];
+
+export interface ApiKey {
+  id: number;
+  organization_id: number;
+  name: string;
+  key_prefix: string;
+  scopes: ApiKeyScope[];
+  created_by: number | null;
+  expires_at?: string | null;
+  last_used_at?: string | null;
+  created_at: string;
+}
+
+export interface CreatedApiKey extends ApiKey {
+  // Plain key - only returned when the key is created
+  key: string;
+}
+
+export interface CreateApiKeyInput {
+  name: string;
+  scopes: ApiKeyScope[];
+  expiresAt?: string;
+}
+
 // API Response types
 interface ApiResponse<T> {
   success: boolean;
@@ -208,6 +244,41 @@ export const organizationService = {
     }
     return response.data.data;
   },
+
+  /**
+   * List active API keys for an organization
+   */
+  listApiKeys: async (organizationId: number): Promise<ApiKey[]> => {
+    const response = await api.get<ApiResponse<ApiKey[]>>(`/organizations/${organizationId}/api-keys`);
+    if (!response.data.success || !response.data.data) {
+      throw new Error(response.data.error || 'Failed to list API keys');
+    }
+    return response.data.data;
+  },
+
+  /**
+   * Create an API key (the plain key is only available in this response)
+   */
+  createApiKey: async (organizationId: number, data: CreateApiKeyInput): Promise<CreatedApiKey> => {
+    const response = await api.post<ApiResponse<CreatedApiKey>>(
+      `/organizations/${organizationId}/api-keys`,
+      data
+    );
+    if (!response.data.success || !response.data.data) {
+      throw new Error(response.data.error || 'Failed to create API key');
+    }
+    return response.data.data;
+  },
+
+  /**
+   * Revoke an API key
+   */
+  revokeApiKey: async (organizationId: number, keyId: number): Promise<void> => {
+    const response = await api.delete<ApiResponse<void>>(`/organizations/${organizationId}/api-keys/${keyId}`);
+    if (!response.data.success) {
+      throw new Error(response.data.error || 'Failed to revoke API key');
+    }
+  },
 };
 
 export default organizationService;
@@ -8,21 +8,24 @@ import {
 
 export const pagesService = {
   // Get all published pages (public)
-  getPublicPages: async (): Promise<ApiResponse<Page[]>> => {
-    const response = await api.get('/pages');
+  getPublicPages: async (locale?: string): Promise<ApiResponse<Page[]>> => {
+    const response = await api.get('/pages', { params: locale ? { locale } : undefined });
     return response.data;
   },
 
-  // Get single page by slug (public)
-  getPageBySlug: async (slug: string): Promise<Page> => {
-    const response = await api.get(`/pages/${slug}`);
+  // Get single page by its full path, e.g. about/team (public)
+  getPageBySlug: async (path: string, locale?: string): Promise<Page> => {
+    const response = await api.get(`/pages/${path.split('/').map(encodeURIComponent).join('/')}`, {
+      params: locale ? { locale } : undefined
+    });
     const body = response.data as any;
     return body.page || body.data;
   },
 
   // Admin endpoints
-  getAllPages: async (): Promise<ApiResponse<Page[]>> => {
-    const response = await api.get('/admin/pages');
+  // With tree, every page at once in sibling order, for building the page tree
+  getAllPages: async (params?: { tree?: boolean }): Promise<ApiResponse<Page[]>> => {
+    const response = await api.get('/admin/pages', { params });
     return response.data;
   },
 
@@ -41,6 +44,12 @@ export const pagesService = {
     return response.data;
   },
 
+  // Give pages a new parent and position among their siblings
+  reorderPages: async (items: Array<{ id: number; parent_id: number | null; position: number }>): Promise<ApiResponse<void>> => {
+    const response = await api.put('/pages/reorder', { items });
+    return response.data;
+  },
+
   deletePage: async (id: number): Promise<ApiResponse<void>> => {
     const response = await api.delete(`/pages/${id}`);
     return response.data;
@@ -29,8 +29,8 @@ export const postsService = {
   },
 
   // Get single post by slug (public)
-  getPostBySlug: async (slug: string): Promise<Post> => {
-    const response = await api.get(`/posts/${slug}`);
+  getPostBySlug: async (slug: string, locale?: string): Promise<Post> => {
+    const response = await api.get(`/posts/${slug}`, { params: locale ? { locale } : undefined });
     return response.data.post || response.data.data;
   },
 
@@ -86,15 +86,15 @@ export const postsService = {
   },
 
   // Featured posts
-  getFeaturedPosts: async (limit: number = 5): Promise<ApiResponse<Post[]>> => {
-    const resp = await api.get(`/posts?featured=true&limit=${limit}`);
+  getFeaturedPosts: async (limit: number = 5, locale?: string): Promise<ApiResponse<Post[]>> => {
+    const resp = await api.get(`/posts?featured=true&limit=${limit}`, { params: locale ? { locale } : undefined });
     const body = resp.data as any;
     return { posts: body.data, pagination: body.pagination } as unknown as ApiResponse<Post[]>;
   },
 
   // Recent posts
-  getRecentPosts: async (limit: number = 5): Promise<ApiResponse<Post[]>> => {
-    const resp = await api.get(`/posts?limit=${limit}`);
+  getRecentPosts: async (limit: number = 5, locale?: string): Promise<ApiResponse<Post[]>> => {
+    const resp = await api.get(`/posts?limit=${limit}`, { params: locale ? { locale } : undefined });
     const body = resp.data as any;
     return { posts: body.data, pagination: body.pagination } as unknown as ApiResponse<Post[]>;
   },
@@ -0,0 +1,97 @@
+import api from '@/lib/api';
+
+export interface PreviewToken {
+  id: number;
+  token: string;
+  token_type: 'preview' | 'share' | 'embed';
+  version_id: number;
+  expires_at: string;
+  max_uses?: number | null;
+  use_count: number;
+  password_protected: boolean;
+  created_by: number;
+  created_at: string;
+  last_used_at?: string | null;
+  revoked_at?: string | null;
+  version_number?: number;
+  first_name?: string;
+  last_name?: string;
+  short_url?: string;
+  preview_url: string;
+  is_active: boolean;
+}
+
+export interface CreatePreviewTokenData {
+  expires_in_hours?: number;
+  max_uses?: number;
+  password?: string;
+  token_type?: 'preview' | 'share' | 'embed';
+  allowed_emails?: string[];
+}
+
+export interface PreviewContent {
+  content_type: 'post' | 'page';
+  content_id: number;
+  version_number: number;
+  version_type: string;
+  locale?: string;
+  title: string;
+  slug?: string;
+  content?: string;
+  excerpt?: string;
+  data?: any;
+  meta_data?: any;
+  created_at: string;
+  preview: {
+    token_type: string;
+    expires_at: string;
+    settings?: Record<string, any>;
+  };
+}
+
+export interface PreviewResult {
+  status: number;
+  data?: PreviewContent;
+  error?: string;
+  requiresPassword?: boolean;
+}
+
+export const previewsService = {
+  listTokens: async (versionId: number): Promise<PreviewToken[]> =>
+    (await api.get(`/versions/${versionId}/preview-tokens`)).data.data,
+  listContentTokens: async (contentType: 'post' | 'page', contentId: number): Promise<PreviewToken[]> =>
+    (await api.get(`/content/${contentType}/${contentId}/preview-tokens`)).data.data,
+  createToken: async (versionId: number, data: CreatePreviewTokenData = {}): Promise<PreviewToken> =>
+    (await api.post(`/versions/${versionId}/preview-tokens`, data)).data.data,
+  // Snapshot the editor's current state as a draft version so the link shows unsaved edits too
+  createSnapshot: async (
+    contentType: 'post' | 'page',
+    contentId: number,
+    snapshot: { title?: string; content?: string; excerpt?: string; slug?: string; data?: any }
+  ): Promise<{ id: number; version_number: number }> =>
+    (await api.post(`/content/${contentType}/${contentId}/versions`, {
+      ...snapshot,
+      version_type: 'draft',
+      change_summary: 'Preview snapshot',
+    })).data.data,
+  revokeToken: async (tokenId: number, reason?: string): Promise<void> => {
+    await api.delete(`/preview-tokens/${tokenId}`, { data: reason ? { reason } : {} });
+  },
+
+  // Public: resolve a preview token. Error statuses are returned instead of thrown so
+  // password prompts and expiry don't trip the global 401/403 handling in lib/api.
+  getPreview: async (token: string, password?: string): Promise<PreviewResult> => {
+    const config = { validateStatus: (status: number) => status < 500 };
+    const response = password
+      ? await api.post(`/preview/${encodeURIComponent(token)}`, { password }, config)
+      : await api.get(`/preview/${encodeURIComponent(token)}`, config);
+    const body = response.data as any;
+
+    return {
+      status: response.status,
+      data: body?.success ? body.data : undefined,
+      error: body?.error,
+      requiresPassword: !!body?.requires_password,
+    };
+  },
+};
@@ -0,0 +1,52 @@
+import api from '@/lib/api';
+
+export type RedirectStatusCode = 301 | 302;
+
+// Manual rules are added by editors, slug_change rules when live content is renamed
+export type RedirectOrigin = 'manual' | 'slug_change';
+
+export interface Redirect {
+  id: number;
+  // null applies the rule on every domain of the organization's sites
+  domain_id: number | null;
+  domain_hostname: string | null;
+  source_path: string;
+  target_path: string;
+  status_code: RedirectStatusCode;
+  origin: RedirectOrigin;
+  content_type: 'post' | 'page' | null;
+  content_id: number | null;
+  hit_count: number;
+  last_hit_at: string | null;
+  created_at: string;
+  updated_at: string;
+}
+
+export interface RedirectData {
+  source_path: string;
+  target_path: string;
+  status_code: RedirectStatusCode;
+  domain_id: number | null;
+}
+
+export interface ResolvedRedirect {
+  target: string;
+  status_code: RedirectStatusCode;
+}
+
+export const redirectsService = {
+  // Where a missing public path should go on the current domain, if anywhere
+  resolve: async (path: string): Promise<ResolvedRedirect | null> =>
+    (await api.get('/redirects/resolve', { params: { path } })).data.data,
+
+  list: async (): Promise<Redirect[]> => (await api.get('/redirects')).data.data,
+
+  create: async (data: RedirectData): Promise<Redirect> => (await api.post('/redirects', data)).data.data,
+
+  update: async (id: number, data: RedirectData): Promise<Redirect> =>
+    (await api.put(`/redirects/${id}`, data)).data.data,
+
+  delete: async (id: number): Promise<void> => {
+    await api.delete(`/redirects/${id}`);
+  },
+};
@@ -0,0 +1,44 @@
+import api from '@/lib/api';
+
+export type SearchResultType = 'post' | 'page' | 'category';
+
+export interface SearchResult {
+  type: SearchResultType;
+  id: number;
+  title: string;
+  slug: string;
+  locale: string | null;
+  rank: number;
+  // Title and snippet with the matched terms wrapped in <mark>
+  title_highlight: string;
+  snippet: string;
+}
+
+export interface SearchParams {
+  q: string;
+  types?: SearchResultType[];
+  locale?: string;
+  page?: number;
+  limit?: number;
+}
+
+export interface SearchResponse {
+  data: SearchResult[];
+  query: string;
+  pagination: {
+    page: number;
+    limit: number;
+    totalCount: number;
+    totalPages: number;
+    hasNextPage: boolean;
+    hasPreviousPage: boolean;
+  };
+}
+
+export const searchService = {
+  // Ranked search across published posts, pages and categories (public)
+  search: async ({ q, types, locale, page, limit }: SearchParams): Promise<SearchResponse> =>
+    (await api.get('/search', {
+      params: { q, type: types?.join(','), locale, page, limit },
+    })).data,
+};
@@ -42,6 +42,8 @@ export interface SiteContext {
   siteTitle?: string;
   basePath: string;
   domainId: number;
+  defaultLocale: string;
+  locales: string[];
 }
 
 // Fetch all sites
@@ -0,0 +1,28 @@
+import api from '@/lib/api';
+import { Tag } from '@/types';
+
+export interface TagWithUsage extends Tag {
+  post_count: number;
+  published_post_count: number;
+}
+
+export const tagsService = {
+  // Tag for its public archive page; null when no tag has the slug
+  getTagBySlug: async (slug: string): Promise<Tag | null> =>
+    (await api.get(`/tags/${encodeURIComponent(slug)}`)).data.data,
+
+  // Admin endpoints
+  list: async (): Promise<TagWithUsage[]> => (await api.get('/admin/tags')).data.data,
+
+  // The slug is regenerated from the new name
+  rename: async (id: number, name: string): Promise<Tag> =>
+    (await api.put(`/admin/tags/${id}`, { name })).data.data,
+
+  // Moves the posts of the source tags to the target and deletes the sources
+  merge: async (sourceIds: number[], targetId: number): Promise<{ merged: number }> =>
+    (await api.post('/admin/tags/merge', { sourceIds, targetId })).data,
+
+  // Every unused tag when no IDs are given; tags still in use are kept
+  deleteUnused: async (ids?: number[]): Promise<{ deleted: number }> =>
+    (await api.delete('/admin/tags/unused', { data: ids ? { ids } : undefined })).data,
+};
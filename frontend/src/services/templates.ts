@@ -1,5 +1,5 @@
 import api from '@/lib/api';
-import { ApiResponse } from '@/types';
+import { ApiResponse, JsonSchema } from '@/types';
 
 export interface Template {
   id: number;
@@ -7,12 +7,23 @@ export interface Template {
   name: string;
   description?: string;
   enabled: boolean;
-  schema?: any;
+  schema?: JsonSchema;
   default_data?: any;
+  // Incremented whenever the schema changes
+  version?: number;
   created_at: string;
   updated_at: string;
 }
 
+// A page using a template, with what is wrong with its data under the current schema
+export interface TemplatePageStatus {
+  id: number;
+  title: string;
+  path: string;
+  template_version: number | null;
+  errors: Array<{ field: string; message: string }>;
+}
+
 export interface CreateTemplateData {
   key: string;
   name: string;
@@ -29,5 +40,8 @@ export const templatesService = {
   get: async (id: number): Promise<ApiResponse<Template>> => (await api.get(`/admin/templates/${id}`)).data,
   create: async (data: CreateTemplateData): Promise<ApiResponse<Template>> => (await api.post('/admin/templates', data)).data,
   update: async (id: number, data: UpdateTemplateData): Promise<ApiResponse<Template>> => (await api.put(`/admin/templates/${id}`, data)).data,
+  pages: async (id: number): Promise<ApiResponse<TemplatePageStatus[]>> => (await api.get(`/admin/templates/${id}/pages`)).data,
+  migratePages: async (id: number): Promise<ApiResponse<{ migrated: number; failed: TemplatePageStatus[] }>> =>
+    (await api.post(`/admin/templates/${id}/migrate`)).data,
   remove: async (id: number): Promise<ApiResponse<void>> => (await api.delete(`/admin/templates/${id}`)).data,
 };
@@ -0,0 +1,53 @@
+import api from '@/lib/api';
+
+export type TranslatableContentType = 'post' | 'page';
+
+export interface ContentTranslation {
+  id: number;
+  locale: string;
+  title: string;
+  slug: string;
+  status: string;
+  // The original the rest of the group was translated from
+  is_source: boolean;
+  // The source has been saved since this translation was last brought in line
+  outdated: boolean;
+  updated_at: string;
+  source_updated_at: string | null;
+}
+
+export interface TranslationStatus {
+  content_type: TranslatableContentType;
+  content_id: number;
+  translation_group_id: number;
+  default_locale: string;
+  locales: string[];
+  translations: ContentTranslation[];
+  missing_locales: string[];
+}
+
+export interface CreateTranslationData {
+  locale: string;
+  title?: string;
+  slug?: string;
+}
+
+const translationsUrl = (contentType: TranslatableContentType, contentId: number) =>
+  `/content/${contentType}/${contentId}/translations`;
+
+export const translationsService = {
+  getStatus: async (contentType: TranslatableContentType, contentId: number): Promise<TranslationStatus> =>
+    (await api.get(translationsUrl(contentType, contentId))).data.data,
+
+  // Copies the content into an unpublished sibling in the given locale
+  create: async (
+    contentType: TranslatableContentType,
+    contentId: number,
+    data: CreateTranslationData
+  ): Promise<{ id: number; locale: string; slug: string }> =>
+    (await api.post(translationsUrl(contentType, contentId), data)).data.data,
+
+  // Mark a translation as caught up with its source
+  markCurrent: async (contentType: TranslatableContentType, contentId: number): Promise<ContentTranslation> =>
+    (await api.post(`${translationsUrl(contentType, contentId)}/sync`)).data.data,
+};
@@ -0,0 +1,57 @@
+import api from '@/lib/api';
+
+export type CommentType = 'general' | 'suggestion' | 'issue' | 'approval';
+export type CommentStatus = 'active' | 'resolved' | 'archived';
+
+export interface CommentAnchor {
+  line_number?: number;
+  field_path?: string;
+  range_start?: number;
+  range_end?: number;
+  quoted_text?: string;
+}
+
+export interface VersionComment extends CommentAnchor {
+  id: number;
+  version_id: number;
+  parent_id?: number;
+  comment_text: string;
+  comment_type: CommentType;
+  status: CommentStatus;
+  resolved_by?: number | null;
+  resolved_at?: string | null;
+  created_by: number;
+  created_at: string;
+  updated_at: string;
+  author?: { id: number; email: string; first_name?: string; last_name?: string };
+  replies?: VersionComment[];
+}
+
+export interface VersionCommentList {
+  comments: VersionComment[];
+  total_comments: number;
+  active_threads: number;
+  resolved_threads: number;
+}
+
+export interface CreateCommentData extends CommentAnchor {
+  comment_text: string;
+  comment_type?: CommentType;
+  parent_id?: number;
+}
+
+export const versionCommentsService = {
+  list: async (versionId: number, params?: { status?: 'active' | 'resolved' }): Promise<VersionCommentList> =>
+    (await api.get(`/versions/${versionId}/comments`, { params })).data.data,
+  create: async (versionId: number, data: CreateCommentData): Promise<VersionComment> =>
+    (await api.post(`/versions/${versionId}/comments`, data)).data.data,
+  update: async (commentId: number, data: { comment_text?: string; comment_type?: CommentType }): Promise<VersionComment> =>
+    (await api.put(`/versions/comments/${commentId}`, data)).data.data,
+  remove: async (commentId: number): Promise<void> => {
+    await api.delete(`/versions/comments/${commentId}`);
+  },
+  resolve: async (commentId: number): Promise<VersionComment> =>
+    (await api.put(`/versions/comments/${commentId}/resolve`)).data.data,
+  unresolve: async (commentId: number): Promise<VersionComment> =>
+    (await api.put(`/versions/comments/${commentId}/unresolve`)).data.data,
+};
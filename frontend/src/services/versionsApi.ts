@@ -5,7 +5,7 @@
  */
 
 import api from '../lib/api';
-import { DiffResult, VersionHistory } from '../types/versioning';
+import { ContentVersion, DiffResult, VersionHistory } from '../types/versioning';
 
 export interface CompareVersionsOptions {
   diff_type?: 'text' | 'structural' | 'metadata' | 'all';
@@ -28,6 +28,14 @@ export interface ExportDiffOptions {
 }
 
 export const versionsApi = {
+  /**
+   * Get a single version with its full content
+   */
+  getVersion: async (versionId: number): Promise<ContentVersion> => {
+    const response = await api.get(`/versions/${versionId}`);
+    return response.data.data as ContentVersion;
+  },
+
   /**
    * Compare two versions and get the diff
    */
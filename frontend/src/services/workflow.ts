@@ -0,0 +1,78 @@
+import api from '@/lib/api';
+
+export type WorkflowStage = 'draft' | 'in_review' | 'approved' | 'published';
+
+export interface WorkflowSettings {
+  workflow_enabled: boolean;
+  workflow_approvals_required: number;
+}
+
+export interface ReviewQueueItem {
+  version_id: number;
+  content_type: 'post' | 'page';
+  content_id: number;
+  title: string;
+  version_number: number;
+  workflow_stage: WorkflowStage;
+  submitted_by: number | null;
+  submitted_by_name: string | null;
+  submitted_at: string;
+  approvals_received: number;
+  approvals_required: number;
+}
+
+export interface VersionReview {
+  id: number;
+  version_id: number;
+  action: 'submitted' | 'approved' | 'rejected';
+  actor_id: number | null;
+  actor_name?: string | null;
+  reason: string | null;
+  created_at: string;
+}
+
+export interface WorkflowVersion {
+  id: number;
+  version_number: number;
+  workflow_stage: WorkflowStage;
+}
+
+export interface ApproveResult {
+  workflow_stage: WorkflowStage;
+  approvals_received: number;
+  approvals_required: number;
+}
+
+export const workflowService = {
+  getSettings: async (organizationId: number): Promise<WorkflowSettings> =>
+    (await api.get(`/organizations/${organizationId}/workflow`)).data.data,
+  updateSettings: async (
+    organizationId: number,
+    settings: { enabled?: boolean; approvalsRequired?: number }
+  ): Promise<WorkflowSettings> =>
+    (await api.put(`/organizations/${organizationId}/workflow`, settings)).data.data,
+  getReviewQueue: async (): Promise<ReviewQueueItem[]> =>
+    (await api.get('/reviews')).data.data,
+  getLatestVersion: async (contentType: 'post' | 'page', contentId: number): Promise<WorkflowVersion | null> =>
+    (await api.get(`/content/${contentType}/${contentId}/versions`, { params: { limit: 1 } })).data.data[0] ?? null,
+  // Snapshot the editor's current state as a draft version and put it up for review
+  submitSnapshot: async (
+    contentType: 'post' | 'page',
+    contentId: number,
+    snapshot: { title?: string; content?: string; excerpt?: string; slug?: string; data?: any },
+    note?: string
+  ): Promise<VersionReview> => {
+    const version = (await api.post(`/content/${contentType}/${contentId}/versions`, {
+      ...snapshot,
+      version_type: 'draft',
+      change_summary: 'Submitted for review',
+    })).data.data;
+    return (await api.post(`/versions/${version.id}/submit`, note ? { note } : {})).data.data;
+  },
+  getReviewHistory: async (versionId: number): Promise<VersionReview[]> =>
+    (await api.get(`/versions/${versionId}/reviews`)).data.data,
+  approve: async (versionId: number, comment?: string): Promise<ApproveResult> =>
+    (await api.post(`/versions/${versionId}/approve`, comment ? { comment } : {})).data.data,
+  reject: async (versionId: number, reason: string): Promise<VersionReview> =>
+    (await api.post(`/versions/${versionId}/reject`, { reason })).data.data,
+};
@@ -13,10 +13,24 @@ export interface Category {
   id: number;
   name: string;
   slug: string;
+  // Nested under this category; null at the top level
+  parent_id: number | null;
+  // Slugs from the top-level category down, e.g. tech/javascript; the archive is at /category/<path>
+  path: string;
   description?: string;
   seo_indexed: boolean;
   created_at: string;
   post_count?: number;
+  // Returned with a single category: the categories above it, top-level first, and the ones directly below it
+  ancestors?: CategorySummary[];
+  children?: CategorySummary[];
+}
+
+export interface CategorySummary {
+  id: number;
+  name: string;
+  slug: string;
+  path: string;
 }
 
 export interface Tag {
@@ -45,16 +59,29 @@ export interface Post {
   updated_at: string;
   category_name?: string;
   category_slug?: string;
+  category_path?: string;
   first_name?: string;
   last_name?: string;
   author_email?: string;
   tags?: Tag[];
+  latest_version_number?: number | null;
+  locale?: string;
+  translations?: PublishedTranslation[];
+  default_locale?: string;
+  // Set on list results when searching, with matches wrapped in <mark>
+  search_rank?: number;
+  search_title?: string;
+  search_snippet?: string;
 }
 
 export interface Page {
   id: number;
   title: string;
   slug: string;
+  // Slugs from the top-level page down, e.g. about/team; the public URL is /page/<path>
+  path: string;
+  parent_id: number | null;
+  position: number;
   content?: string;
   excerpt?: string;
   featured_image?: string;
@@ -69,6 +96,72 @@ export interface Page {
   last_name?: string;
   author_email?: string;
   data?: any;
+  latest_version_number?: number | null;
+  locale?: string;
+  translations?: PublishedTranslation[];
+  default_locale?: string;
+  // Returned with a single public page: the pages above it, top-level first
+  ancestors?: PageSummary[];
+  // Also returned with a single public page: the template schema describing data,
+  // and the published pages and posts its reference fields point to, keyed page:<id> or post:<id>
+  template_schema?: JsonSchema | null;
+  references?: Record<string, { title: string; url: string }>;
+  // And the fragments its fragment blocks and fields embed, keyed by id
+  fragments?: Record<string, PageFragment>;
+}
+
+// Reusable content embedded in a page, resolved when the page is served
+export interface PageFragment {
+  key: string;
+  name: string;
+  content: string;
+}
+
+/**
+ * JSON Schema describing the data of pages using a template. `format` picks
+ * the form field: html (rich text), image, page-reference or post-reference;
+ * arrays are edited as repeaters, or with the block editor for "blocks".
+ */
+export interface JsonSchema {
+  type?: string | string[];
+  title?: string;
+  description?: string;
+  format?: string;
+  enum?: unknown[];
+  default?: unknown;
+  properties?: Record<string, JsonSchema>;
+  required?: string[];
+  additionalProperties?: boolean;
+  items?: JsonSchema;
+  minLength?: number;
+  maxLength?: number;
+  minimum?: number;
+  maximum?: number;
+  minItems?: number;
+  maxItems?: number;
+  // Props of each block type, for arrays with the "blocks" format
+  blockTypes?: Record<string, JsonSchema>;
+}
+
+// A page builder block stored in page data
+export interface PageBlock {
+  id: string;
+  type: string;
+  props: Record<string, unknown>;
+}
+
+export interface PageSummary {
+  id: number;
+  title: string;
+  slug: string;
+  path: string;
+  published: boolean;
+}
+
+// Published sibling in another language, used for hreflang alternates
+export interface PublishedTranslation {
+  locale: string;
+  slug: string;
 }
 
 export interface MediaFile {
@@ -79,6 +172,11 @@ export interface MediaFile {
   file_size: number;
   mime_type: string;
   alt_text?: string;
+  caption?: string | null;
+  credit?: string | null;
+  license?: string | null;
+  folder_id?: number | null;
+  tags?: MediaTag[];
   uploaded_by: number;
   created_at: string;
   first_name?: string;
@@ -86,6 +184,69 @@ export interface MediaFile {
   uploader_email?: string;
 }
 
+export interface MediaFolder {
+  id: number;
+  parent_id: number | null;
+  name: string;
+  slug: string;
+  path: string;
+  media_count?: number;
+}
+
+export interface MediaTag {
+  id: number;
+  name: string;
+  slug: string;
+  media_count?: number;
+}
+
+export interface MediaQueryParams {
+  page?: number;
+  limit?: number;
+  type?: string;
+  search?: string;
+  // 'none' lists the files that are in no folder
+  folder_id?: number | 'none';
+  include_subfolders?: boolean;
+  tag?: string;
+}
+
+// A post, page, fragment or organization using a media file
+export interface MediaUsage {
+  source_type: 'post' | 'page' | 'fragment' | 'organization';
+  source_id: number;
+  title: string;
+  url: string | null;
+  published: boolean;
+  fields: string[];
+}
+
+export interface DuplicateMediaFile {
+  id: number;
+  original_name: string;
+  file_path: string;
+  file_size: number;
+  mime_type: string;
+  created_at: string;
+  usage_count: number;
+}
+
+// Media files that are copies of each other; distance is the most bits their
+// perceptual hashes differ in, 0 for exact copies
+export interface MediaDuplicateGroup {
+  distance: number;
+  files: DuplicateMediaFile[];
+}
+
+export interface UpdateMediaData {
+  alt_text?: string;
+  caption?: string;
+  credit?: string;
+  license?: string;
+  folder_id?: number | null;
+  tags?: string[];
+}
+
 export interface SiteSetting {
   key: string;
   value: string;
@@ -106,6 +267,7 @@ export interface CreatePostData {
   scheduled_at?: string;
   featured?: boolean;
   tags?: string[];
+  base_version_number?: number;
 }
 
 export interface UpdatePostData {
@@ -129,6 +291,7 @@ export interface CreateCategoryData {
   slug?: string;
   description?: string;
   seo_indexed?: boolean;
+  parent_id?: number | null;
 }
 
 export interface UpdateCategoryData {
@@ -136,11 +299,13 @@ export interface UpdateCategoryData {
   slug?: string;
   description?: string;
   seo_indexed?: boolean;
+  parent_id?: number | null;
 }
 
 export interface CreatePageData {
   title: string;
   slug?: string;
+  parent_id?: number | null;
   content?: string;
   template?: string;
   meta_title?: string;
@@ -153,6 +318,7 @@ export interface CreatePageData {
 export interface UpdatePageData {
   title?: string;
   slug?: string;
+  parent_id?: number | null;
   content?: string;
   template?: string;
   meta_title?: string;
@@ -160,6 +326,7 @@ export interface UpdatePageData {
   seo_indexed?: boolean;
   published?: boolean;
   data?: any;
+  base_version_number?: number;
 }
 
 export interface PublishingTarget {
@@ -232,6 +399,7 @@ export interface QueryParams {
   tag?: string;
   status?: string;
   featured?: boolean;
+  locale?: string;
   sort?: string;
   order?: 'asc' | 'desc';
 }
@@ -21,6 +21,7 @@ export interface ContentVersion {
   excerpt?: string;
   data?: any;
   meta_data?: any;
+  change_summary?: string | null;
   created_by: number;
   created_at: Date | string;
   updated_at?: Date | string;
@@ -82,7 +83,16 @@ export interface StructuralDiff {
 }
 
 export interface StructuralChange {
-  type: 'element_added' | 'element_removed' | 'element_modified' | 'attribute_changed' | 'text_changed';
+  type:
+    | 'element_added'
+    | 'element_removed'
+    | 'element_modified'
+    | 'attribute_changed'
+    | 'text_changed'
+    | 'block_added'
+    | 'block_removed'
+    | 'block_moved'
+    | 'block_modified';
   element?: string;
   attribute?: string;
   oldContent?: string;
@@ -90,6 +100,11 @@ export interface StructuralChange {
   oldValue?: string;
   newValue?: string;
   position?: { line: number; column: number };
+  // Page builder blocks: the block's id and its path in the data, e.g. data.blocks.2
+  blockId?: string;
+  path?: string;
+  fromIndex?: number;
+  toIndex?: number;
 }
 
 export interface DomOperation {
@@ -164,4 +179,16 @@ export interface VersionWithChanges extends ContentVersion {
     lines_removed: number;
     change_percent: number;
   };
-}
\ No newline at end of file
+}
+// Returned with a 409 when a save is based on a stale version
+export interface EditConflict {
+  base_version_number: number | null;
+  current_version: ContentVersion;
+  changed_by: {
+    id: number;
+    email: string;
+    first_name?: string;
+    last_name?: string;
+  } | null;
+  diff: DiffResult;
+}
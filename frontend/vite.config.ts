@@ -3,19 +3,39 @@ import react from '@vitejs/plugin-react'
 import path from 'path'
 
 // https://vitejs.dev/config/
-export default defineConfig({
+export default defineConfig(({ isSsrBuild }) => ({
   plugins: [react()],
   resolve: {
     alias: {
       '@': path.resolve(__dirname, './src'),
     },
   },
+  // `vite build --ssr src/entry-server.tsx` bundles the server renderer with
+  // all its dependencies, so the API can load it without frontend node_modules
+  ssr: isSsrBuild ? { noExternal: true } : undefined,
+  build: isSsrBuild
+    ? {
+        outDir: 'dist-ssr',
+        rollupOptions: {
+          output: { format: 'cjs', entryFileNames: '[name].cjs' },
+        },
+      }
+    : undefined,
   server: {
     port: 5173,
     proxy: {
       '/api': {
         target: 'http://localhost:5000',
         changeOrigin: true,
+        ws: true,
+      },
+      // RSS, Atom and JSON feeds are rendered by the API
+      '^/([a-z]{2,3}(-[A-Z]{2})?/)?((category|tag)/[^/]+/)?(feed\\.xml|atom\\.xml|feed\\.json)$': {
+        target: 'http://localhost:5000',
+      },
+      // Sitemaps and robots.txt are generated per domain and site by the API
+      '^((/[a-z0-9_-]+)*/sitemap(-\\d+)?\\.xml|/robots\\.txt)$': {
+        target: 'http://localhost:5000',
       },
     },
   },
@@ -30,4 +50,4 @@ export default defineConfig({
       '**/tests/e2e/**',           // Exclude E2E test directory
     ],
   },
-}) 
\ No newline at end of file
+}))